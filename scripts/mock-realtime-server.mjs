@@ -0,0 +1,121 @@
+/**
+ * Local stand-in for the backend realtime channel (server-sent events + presence).
+ * Run: node scripts/mock-realtime-server.mjs   (then start the app with VITE_REALTIME_URL=http://localhost:4001/realtime)
+ *
+ * Push a change to every connected tab:
+ *   curl -X POST http://localhost:4001/realtime/emit -H "Content-Type: application/json" \
+ *     -d '{"entity":"client","action":"upserted","id":"<client id>"}'
+ * Events without a `record` make the app fetch the change itself; include one to merge it directly.
+ * ID tokens are not checked, but the stream only opens with a ticket from POST /realtime/tickets,
+ * which works once and expires after 30 s, like the real one.
+ */
+import { randomUUID } from 'crypto';
+import { createServer } from 'http';
+
+const PORT = Number(process.env.PORT) || 4001;
+const KEEP_ALIVE_MS = 15000;
+const TICKET_TTL_MS = 30000;
+const ENTITIES = new Set(['client', 'reminder', 'appointment', 'team_task']);
+
+const streams = new Set();
+/** ticket -> expiry time (ms) */
+const tickets = new Map();
+
+function redeemTicket(ticket) {
+  const expiresAt = tickets.get(ticket);
+  tickets.delete(ticket);
+  return expiresAt !== undefined && expiresAt > Date.now();
+}
+
+function broadcast(event) {
+  const frame = `data: ${JSON.stringify(event)}\n\n`;
+  for (const res of streams) res.write(frame);
+  console.log(`→ ${streams.size} stream(s):`, event.kind, event.entity || event.client_id, event.action || event.user);
+}
+
+function readJson(req) {
+  return new Promise((resolve, reject) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (err) {
+        reject(err);
+      }
+    });
+  });
+}
+
+function send(res, status, payload) {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(payload));
+}
+
+const server = createServer(async (req, res) => {
+  res.setHeader('Access-Control-Allow-Origin', '*');
+  res.setHeader('Access-Control-Allow-Headers', 'Authorization, Content-Type');
+  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204);
+    res.end();
+    return;
+  }
+
+  const { pathname, searchParams } = new URL(req.url, `http://localhost:${PORT}`);
+
+  if (req.method === 'POST' && pathname === '/realtime/tickets') {
+    const ticket = randomUUID();
+    const expiresAt = Date.now() + TICKET_TTL_MS;
+    tickets.set(ticket, expiresAt);
+    return send(res, 200, { ticket, expires_at: new Date(expiresAt).toISOString() });
+  }
+
+  if (req.method === 'GET' && pathname === '/realtime/events') {
+    if (!redeemTicket(searchParams.get('ticket'))) return send(res, 401, { error: 'Invalid or expired stream ticket' });
+    res.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      Connection: 'keep-alive',
+    });
+    res.write(': connected\n\n');
+    streams.add(res);
+    const keepAlive = setInterval(() => res.write(': keep-alive\n\n'), KEEP_ALIVE_MS);
+    req.on('close', () => {
+      clearInterval(keepAlive);
+      streams.delete(res);
+    });
+    return;
+  }
+
+  try {
+    if (req.method === 'POST' && pathname === '/realtime/presence') {
+      const { client_id, user, editing } = await readJson(req);
+      if (!client_id || !user) return send(res, 400, { error: 'client_id and user are required' });
+      broadcast({ kind: 'presence', client_id, user, editing: Boolean(editing), at: new Date().toISOString() });
+      return send(res, 200, { ok: true });
+    }
+
+    if (req.method === 'POST' && pathname === '/realtime/emit') {
+      const body = await readJson(req);
+      if (!ENTITIES.has(body.entity) || !body.id) {
+        return send(res, 400, { error: `entity (${[...ENTITIES].join(', ')}) and id are required` });
+      }
+      broadcast({
+        kind: 'change',
+        action: body.action === 'deleted' ? 'deleted' : 'upserted',
+        at: new Date().toISOString(),
+        ...body,
+      });
+      return send(res, 200, { ok: true, streams: streams.size });
+    }
+  } catch (err) {
+    return send(res, 400, { error: `Invalid JSON: ${err.message}` });
+  }
+
+  send(res, 404, { error: 'Not found' });
+});
+
+server.listen(PORT, () => {
+  console.log(`Mock realtime server on http://localhost:${PORT}/realtime`);
+});
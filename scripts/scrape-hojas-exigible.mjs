@@ -1,16 +1,23 @@
 /**
  * Scrapes inclusion.gob.es listado-completo and extracts DOCUMENTACIÓN EXIGIBLE.
  * Run: node scripts/scrape-hojas-exigible.mjs
+ * To compare with the bundled catalog instead of replacing it, write the result elsewhere and
+ * load it under Templates → Official hojas:
+ *   node scripts/scrape-hojas-exigible.mjs --out hojas-snapshot.json
  */
 import { writeFileSync, readFileSync, existsSync, mkdirSync } from 'fs';
-import { join, dirname } from 'path';
+import { join, dirname, resolve } from 'path';
 import { fileURLToPath } from 'url';
 import { execSync } from 'child_process';
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
 const BASE = 'https://www.inclusion.gob.es';
 const LIST_HTML = join(__dirname, 'listado.html');
-const OUT = join(__dirname, '../src/data/officialTemplates/hojasExigible.generated.json');
+const outArg = process.argv.indexOf('--out');
+const OUT =
+  outArg > 0 && process.argv[outArg + 1]
+    ? resolve(process.argv[outArg + 1])
+    : join(__dirname, '../src/data/officialTemplates/hojasExigible.generated.json');
 const CACHE_DIR = join(__dirname, 'hoja-cache');
 
 function fetchHtml(url, retries = 3) {
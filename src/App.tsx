@@ -1,11 +1,16 @@
 import { useState, useEffect } from 'react';
 import { Routes, Route, useNavigate, useLocation } from 'react-router-dom';
-import { FileText, Users as UsersIcon, LayoutDashboard, Menu, X, LogOut, UserCog, Shield, ListTodo } from 'lucide-react';
-import { ToastContainer, subscribeToToasts, Toast } from './components/Toast';
-import { onAuthChange, logout as firebaseLogout, isFirebaseAvailable } from './utils/firebase';
-import { Client } from './types';
-import { t } from './utils/i18n';
+import { FileText, Users as UsersIcon, LayoutDashboard, Menu, X, LogOut, UserCog, Shield, ShieldCheck, ListTodo, KeyRound } from 'lucide-react';
+import { ToastContainer, subscribeToToasts, showToast, Toast } from './components/Toast';
+import { onAuthChange, logout as firebaseLogout, isFirebaseAvailable, hasTotpEnrolled } from './utils/firebase';
+import { Client, SecuritySettings } from './types';
 import { api } from './utils/api';
+import { clearSessionId, getSessionId, subscribeToSessionRevoked } from './utils/authSession';
+import { isFirmKeyUnlocked, lockFirmKey, subscribeToFirmKey } from './utils/fieldEncryption';
+import { t } from './utils/i18n';
+import { subscribeToApiSchemaErrors } from './utils/schema';
+import { usePermissions } from './context/PermissionsContext';
+import { useData } from './context/DataContext';
 
 // Import all components normally - lazy loading causes React error #310
 // Vite's build system still handles code splitting automatically via manualChunks
@@ -18,10 +23,17 @@ import Login from './components/Login';
 import Notifications from './components/Notifications';
 import Logo from './components/Logo';
 import LanguageSelector from './components/LanguageSelector';
+import SyncStatusIndicator from './components/SyncStatusIndicator';
 import Team from './components/Team';
+import AccountSecurityModal from './components/AccountSecurityModal';
+import TwoFactorSetup from './components/TwoFactorSetup';
+import FirmKeyUnlockDialog from './components/FirmKeyUnlockDialog';
 
 type View = 'dashboard' | 'templates' | 'clients' | 'users' | 'team';
 
+// Don't repeat the same schema-mismatch toast on every refresh
+const SCHEMA_ERROR_TOAST_INTERVAL = 60 * 1000;
+
 function App() {
   const navigate = useNavigate();
   const location = useLocation();
@@ -32,7 +44,20 @@ function App() {
   const [mobileMenuOpen, setMobileMenuOpen] = useState(false);
   const [toasts, setToasts] = useState<Toast[]>([]);
   const [, forceUpdate] = useState({});
-  const [currentUserRole, setCurrentUserRole] = useState<'admin' | 'user' | null>(null);
+  const { currentUser, can, refreshCurrentUser } = usePermissions();
+  const { syncItems } = useData();
+  // The Users view also holds the data export, so either permission opens it
+  const canOpenUsers = can('manage_users') || can('export_data');
+  const [showAccountSecurity, setShowAccountSecurity] = useState(false);
+  const [securitySettings, setSecuritySettings] = useState<SecuritySettings | null>(null);
+  const [securitySettingsFailed, setSecuritySettingsFailed] = useState(false);
+  const [twoFactorEnrolled, setTwoFactorEnrolled] = useState(false);
+  const [fieldEncryptionEnabled, setFieldEncryptionEnabled] = useState(false);
+  const [firmKeyUnlocked, setFirmKeyUnlocked] = useState(isFirmKeyUnlocked);
+  const [showFirmKeyUnlock, setShowFirmKeyUnlock] = useState(false);
+  // If the policy can't be loaded, admins are treated as if it were on rather than let through
+  const twoFactorRequired =
+    currentUser?.role === 'admin' && (securitySettings ? securitySettings.require_2fa_for_admins : securitySettingsFailed);
 
   const handleOpenTeam = () => {
     setCurrentView('team');
@@ -80,11 +105,6 @@ function App() {
         if (!mounted) return;
         
         setIsAuthenticated(!!user);
-        if (user) {
-          loadCurrentUserRole();
-        } else {
-          setCurrentUserRole(null);
-        }
         
         // Auth check is complete after first auth state change
         // This ensures we wait for Firebase to restore the session before showing login/dashboard
@@ -113,16 +133,6 @@ function App() {
     }
   }, []);
 
-  const loadCurrentUserRole = async () => {
-    try {
-      const user = await api.getCurrentUser();
-      setCurrentUserRole(user.role);
-    } catch (error) {
-      console.error('Failed to load current user role:', error);
-      setCurrentUserRole(null);
-    }
-  };
-
   useEffect(() => {
     // Subscribe to toast notifications
     const unsubscribe = subscribeToToasts((toast) => {
@@ -133,6 +143,20 @@ function App() {
     };
   }, []);
 
+  useEffect(() => {
+    // Report backend responses that no longer match types.ts (details are in the console)
+    const lastShown = new Map<string, number>();
+    const unsubscribe = subscribeToApiSchemaErrors((error) => {
+      const now = Date.now();
+      if (now - (lastShown.get(error.endpoint) || 0) < SCHEMA_ERROR_TOAST_INTERVAL) return;
+      lastShown.set(error.endpoint, now);
+      showToast(error.message, 'error', 10000);
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
   useEffect(() => {
     // Listen for language changes to force re-render
     const handleLanguageChange = () => {
@@ -144,12 +168,65 @@ function App() {
     };
   }, []);
 
-  // Redirect away from users view if not admin
+  const loadSecuritySettings = () => {
+    setSecuritySettingsFailed(false);
+    api
+      .getSecuritySettings()
+      .then(setSecuritySettings)
+      .catch((error) => {
+        console.warn('⚠️ Failed to load security settings:', error);
+        setSecuritySettingsFailed(true);
+      });
+  };
+
+  // Register this browser in "my sessions" and load the 2FA policy once signed in
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    setTwoFactorEnrolled(hasTotpEnrolled());
+    api.registerSession().catch((error) => console.warn('⚠️ Failed to register session:', error));
+    loadSecuritySettings();
+  }, [isAuthenticated]);
+
+  // Encrypted client fields need the firm key, unlocked per tab (see utils/fieldEncryption)
+  useEffect(() => {
+    if (!isAuthenticated) return;
+    const loadEncryptionSettings = () => {
+      api
+        .getFieldEncryptionSettings()
+        .then((settings) => setFieldEncryptionEnabled(settings.enabled))
+        .catch((error) => console.warn('⚠️ Failed to load encryption settings:', error));
+    };
+    loadEncryptionSettings();
+    const unsubscribe = subscribeToFirmKey((unlocked) => {
+      setFirmKeyUnlocked(unlocked);
+      loadEncryptionSettings();
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, [isAuthenticated]);
+
+  // Another device signed this one out (see utils/authSession)
   useEffect(() => {
-    if (currentView === 'users' && currentUserRole !== 'admin' && currentUserRole !== null) {
+    const unsubscribe = subscribeToSessionRevoked(() => {
+      showToast('This device was signed out from another session', 'warning', 10000);
+      clearSessionId();
+      lockFirmKey();
+      void firebaseLogout().catch((error) => console.error('Logout error:', error));
+      setIsAuthenticated(false);
+      navigate('/', { replace: true });
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, [navigate]);
+
+  // Redirect away from users view without the permissions for it
+  useEffect(() => {
+    if (currentView === 'users' && currentUser !== null && !canOpenUsers) {
       setCurrentView('dashboard');
     }
-  }, [currentView, currentUserRole]);
+  }, [currentView, currentUser, canOpenUsers]);
 
   const handleCloseToast = (id: string) => {
     setToasts((prev) => prev.filter((toast) => toast.id !== id));
@@ -157,7 +234,7 @@ function App() {
 
   const handleLoginSuccess = async () => {
     setIsAuthenticated(true);
-    await loadCurrentUserRole();
+    await refreshCurrentUser();
     // Redirect to dashboard after successful login
     navigate('/dashboard', { replace: true });
   };
@@ -170,6 +247,21 @@ function App() {
       return;
     }
 
+    // Queued changes survive sign-out on this device but only sync when the same user signs in again
+    if (
+      syncItems.length > 0 &&
+      !window.confirm(
+        `${syncItems.length} change${syncItems.length === 1 ? ' has' : 's have'} not synced yet. They stay on this device and sync the next time you sign in here. Sign out anyway?`
+      )
+    ) {
+      return;
+    }
+
+    // Drop this browser from "my sessions"; the id is forgotten either way
+    await api.revokeSession(getSessionId()).catch((error) => console.warn('⚠️ Failed to end session:', error));
+    clearSessionId();
+    lockFirmKey();
+
     try {
       await firebaseLogout();
       setIsAuthenticated(false);
@@ -216,6 +308,35 @@ function App() {
     return <Login onLoginSuccess={handleLoginSuccess} />;
   }
 
+  // Security policy: admins enrol a second factor before anything else. This only guides them;
+  // the server enforces the policy (see SecuritySettings).
+  if (twoFactorRequired && !twoFactorEnrolled) {
+    return (
+      <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-black via-gray-900 to-black p-4">
+        <div className="bg-white rounded-2xl shadow-2xl max-w-md w-full p-6 space-y-5">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900">Two-factor authentication required</h2>
+            <p className="text-sm text-gray-600 mt-1">
+              Admin accounts must use an authenticator app. Set one up to continue.
+            </p>
+            {!securitySettings && (
+              <p className="text-sm text-amber-700 mt-2">
+                The security policy could not be loaded, so it is applied as if it were on.{' '}
+                <button onClick={loadSecuritySettings} className="font-semibold underline hover:text-amber-900">
+                  Try again
+                </button>
+              </p>
+            )}
+          </div>
+          <TwoFactorSetup required onChanged={setTwoFactorEnrolled} />
+          <button onClick={handleLogout} className="text-sm text-gray-500 hover:text-gray-800">
+            {t('common.signOut')}
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className="min-h-screen relative">
       {/* Header */}
@@ -304,7 +425,7 @@ function App() {
                     <span>{t('common.team')}</span>
                   </div>
                 </button>
-                {currentUserRole === 'admin' && (
+                {canOpenUsers && (
                   <button
                     onClick={() => setCurrentView('users')}
                     className={`px-4 sm:px-5 py-2.5 rounded-lg font-semibold text-sm transition-all duration-200 ${
@@ -320,6 +441,7 @@ function App() {
                 </button>
                 )}
               </nav>
+              <SyncStatusIndicator />
               <LanguageSelector />
               <Notifications 
                 onClientClick={setSelectedClient}
@@ -331,6 +453,22 @@ function App() {
                   }, 100);
                 }}
               />
+              {fieldEncryptionEnabled && !firmKeyUnlocked && (
+                <button
+                  onClick={() => setShowFirmKeyUnlock(true)}
+                  className="p-2 text-amber-300 hover:bg-white/10 hover:text-amber-200 rounded-lg transition-colors"
+                  title="Unlock client data"
+                >
+                  <KeyRound className="w-5 h-5" />
+                </button>
+              )}
+              <button
+                onClick={() => setShowAccountSecurity(true)}
+                className="p-2 text-white/80 hover:bg-white/10 hover:text-white rounded-lg transition-colors"
+                title="Account security"
+              >
+                <ShieldCheck className="w-5 h-5" />
+              </button>
               {/* Logout Button */}
               <button
                 onClick={handleLogout}
@@ -343,6 +481,7 @@ function App() {
 
             {/* Mobile Menu Button */}
             <div className="md:hidden flex items-center space-x-2">
+              <SyncStatusIndicator />
               <LanguageSelector />
               <Notifications 
                 onClientClick={setSelectedClient}
@@ -434,7 +573,7 @@ function App() {
                           <span>{t('common.team')}</span>
                         </div>
                       </button>
-                  {currentUserRole === 'admin' && (
+                  {canOpenUsers && (
                     <button
                       onClick={() => {
                         setCurrentView('users');
@@ -453,6 +592,16 @@ function App() {
                 </button>
                   )}
                       <div className="pt-2 border-t border-white/10 mt-2">
+                  <button
+                    onClick={() => {
+                      setShowAccountSecurity(true);
+                      setMobileMenuOpen(false);
+                    }}
+                    className="w-full px-4 py-3 rounded-lg font-semibold text-sm transition-all duration-200 text-left text-white/80 hover:bg-white/10 flex items-center space-x-3"
+                  >
+                    <ShieldCheck className="w-5 h-5" />
+                    <span>Account security</span>
+                  </button>
                   <button
                     onClick={() => {
                       handleLogout();
@@ -472,6 +621,20 @@ function App() {
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-3 sm:px-4 md:px-6 lg:px-8 py-3 sm:py-4 md:py-6 lg:py-8">
+        {fieldEncryptionEnabled && !firmKeyUnlocked && (
+          <div className="mb-4 flex flex-wrap items-center justify-between gap-3 px-4 py-3 bg-amber-50 border border-amber-200 rounded-xl">
+            <p className="text-sm text-amber-900">
+              Client ID numbers, phones and notes are encrypted. Unlock them with the firm passphrase to view or edit them.
+            </p>
+            <button
+              onClick={() => setShowFirmKeyUnlock(true)}
+              className="inline-flex items-center gap-1.5 px-3 py-1.5 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700"
+            >
+              <KeyRound className="w-4 h-4" />
+              Unlock
+            </button>
+          </div>
+        )}
         <div className="animate-fade-in">
           <Routes>
             <Route 
@@ -482,8 +645,8 @@ function App() {
                   {currentView === 'team' && <Team />}
                   {currentView === 'templates' && <Templates />}
                   {currentView === 'clients' && <Clients />}
-                  {currentView === 'users' && currentUserRole === 'admin' && <Users />}
-                  {currentView === 'users' && currentUserRole !== 'admin' && (
+                  {currentView === 'users' && canOpenUsers && <Users />}
+                  {currentView === 'users' && !canOpenUsers && (
                     <div className="flex items-center justify-center h-64">
                       <div className="text-center">
                         <Shield className="w-16 h-16 text-red-500 mx-auto mb-4" />
@@ -500,8 +663,8 @@ function App() {
                 {currentView === 'templates' && <Templates />}
                 {currentView === 'clients' && <Clients />}
                 {currentView === 'team' && <Team />}
-                {currentView === 'users' && currentUserRole === 'admin' && <Users />}
-                {currentView === 'users' && currentUserRole !== 'admin' && (
+                {currentView === 'users' && canOpenUsers && <Users />}
+                {currentView === 'users' && !canOpenUsers && (
                   <div className="flex items-center justify-center h-64">
                     <div className="text-center">
                       <Shield className="w-16 h-16 text-red-500 mx-auto mb-4" />
@@ -526,6 +689,24 @@ function App() {
         />
       )}
 
+      {showAccountSecurity && (
+        <AccountSecurityModal
+          twoFactorRequired={twoFactorRequired}
+          onTwoFactorChanged={setTwoFactorEnrolled}
+          onClose={() => setShowAccountSecurity(false)}
+        />
+      )}
+
+      {showFirmKeyUnlock && (
+        <FirmKeyUnlockDialog
+          onUnlocked={() => {
+            setShowFirmKeyUnlock(false);
+            showToast('Client data unlocked', 'success');
+          }}
+          onClose={() => setShowFirmKeyUnlock(false)}
+        />
+      )}
+
       {/* Toast Notifications */}
       <ToastContainer toasts={toasts} onClose={handleCloseToast} />
     </div>
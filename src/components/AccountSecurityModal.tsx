@@ -0,0 +1,38 @@
+import { ShieldCheck, X } from 'lucide-react';
+import SessionsPanel from './SessionsPanel';
+import TwoFactorSetup from './TwoFactorSetup';
+
+interface Props {
+  /** The security policy makes 2FA mandatory for this user. */
+  twoFactorRequired: boolean;
+  onTwoFactorChanged: (enrolled: boolean) => void;
+  onClose: () => void;
+}
+
+export default function AccountSecurityModal({ twoFactorRequired, onTwoFactorChanged, onClose }: Props) {
+  return (
+    <div
+      className="fixed inset-0 z-[100] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-white rounded-2xl shadow-2xl max-w-lg w-full max-h-[90vh] overflow-y-auto p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-5">
+          <div className="flex items-center gap-3">
+            <div className="p-2.5 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
+              <ShieldCheck className="w-5 h-5 text-amber-800" />
+            </div>
+            <h2 className="text-xl font-bold text-gray-900">Account security</h2>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <TwoFactorSetup required={twoFactorRequired} onChanged={onTwoFactorChanged} />
+        <div className="my-6 border-t border-gray-200" />
+        <SessionsPanel />
+      </div>
+    </div>
+  );
+}
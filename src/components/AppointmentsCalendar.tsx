@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useMemo, useState } from 'react';
 import { CalendarDays, ChevronLeft, ChevronRight, Plus, Trash2, Edit2, X } from 'lucide-react';
 import { useData } from '../context/DataContext';
+import { usePermissions } from '../context/PermissionsContext';
 import { api } from '../utils/api';
 import { Appointment, AppointmentColor } from '../types';
 import { showToast } from './Toast';
@@ -47,6 +48,7 @@ interface AppointmentsCalendarProps {
 
 export default function AppointmentsCalendar({ animationDelay = '1.1s' }: AppointmentsCalendarProps) {
   const { appointments, refreshAppointments } = useData();
+  const canEditClients = usePermissions().can('edit_clients');
   const [showModal, setShowModal] = useState(false);
   const [viewMonth, setViewMonth] = useState(new Date().getMonth() + 1);
   const [viewYear, setViewYear] = useState(new Date().getFullYear());
@@ -297,14 +299,16 @@ export default function AppointmentsCalendar({ animationDelay = '1.1s' }: Appoin
                   <p className="text-amber-700 mt-1">Schedule and manage client appointments</p>
                 </div>
                 <div className="flex items-center gap-2">
-                  <button
-                    type="button"
-                    onClick={openCreateForm}
-                    className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg bg-amber-600 text-white text-sm font-medium hover:bg-amber-700"
-                  >
-                    <Plus className="w-4 h-4" />
-                    Add
-                  </button>
+                  {canEditClients && (
+                    <button
+                      type="button"
+                      onClick={openCreateForm}
+                      className="inline-flex items-center gap-1.5 px-3 py-2 rounded-lg bg-amber-600 text-white text-sm font-medium hover:bg-amber-700"
+                    >
+                      <Plus className="w-4 h-4" />
+                      Add
+                    </button>
+                  )}
                   <button
                     type="button"
                     onClick={() => setShowModal(false)}
@@ -520,24 +524,26 @@ export default function AppointmentsCalendar({ animationDelay = '1.1s' }: Appoin
                               <p className="text-sm mt-2 whitespace-pre-wrap opacity-90">{appt.notes}</p>
                             )}
                           </div>
-                          <div className="flex gap-1 shrink-0">
-                            <button
-                              type="button"
-                              onClick={() => openEditForm(appt)}
-                              className="p-2 rounded-lg hover:bg-white/60"
-                              title="Edit"
-                            >
-                              <Edit2 className="w-4 h-4" />
-                            </button>
-                            <button
-                              type="button"
-                              onClick={() => handleDelete(appt)}
-                              className="p-2 rounded-lg hover:bg-white/60 text-red-700"
-                              title="Delete"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          </div>
+                          {canEditClients && (
+                            <div className="flex gap-1 shrink-0">
+                              <button
+                                type="button"
+                                onClick={() => openEditForm(appt)}
+                                className="p-2 rounded-lg hover:bg-white/60"
+                                title="Edit"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleDelete(appt)}
+                                className="p-2 rounded-lg hover:bg-white/60 text-red-700"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
                         </div>
                       </li>
                     ))}
@@ -0,0 +1,102 @@
+import { useState } from 'react';
+import { ArrowRight, Flag } from 'lucide-react';
+import { api } from '../utils/api';
+import { usePermissions } from '../context/PermissionsContext';
+import { CaseStage, Client } from '../types';
+import { showToast } from './Toast';
+import {
+  CASE_STAGE_LABELS,
+  CASE_STAGE_TRANSITIONS,
+  getClientCaseStage,
+  isPreSubmissionStage,
+} from '../utils/caseStage';
+
+type Props = {
+  client: Client;
+  onChanged: () => void | Promise<void>;
+};
+
+export default function CaseStagePanel({ client, onChanged }: Props) {
+  const [movingTo, setMovingTo] = useState<CaseStage | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const canEditClients = usePermissions().can('edit_clients');
+  const stage = getClientCaseStage(client);
+  const history = client.case_stage_history || [];
+
+  // Checklist stages follow the documents and submission has its own confirm button above,
+  // so only offer the moves the team decides on here (reopening a closed case included)
+  const targets = CASE_STAGE_TRANSITIONS[stage].filter((to) =>
+    isPreSubmissionStage(stage) ? to === 'closed' : stage === 'closed' || !isPreSubmissionStage(to)
+  );
+
+  const handleMove = async (to: CaseStage) => {
+    setMovingTo(to);
+    try {
+      await api.transitionClientStage(client.id, to);
+      await onChanged();
+      showToast(`Case moved to ${CASE_STAGE_LABELS[to]}`, 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to change case stage', 'error');
+    } finally {
+      setMovingTo(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-slate-50 border-2 border-slate-200 rounded-xl shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center space-x-3">
+          <div className="bg-slate-200 p-2 rounded-lg flex-shrink-0">
+            <Flag className="w-5 h-5 text-slate-700" />
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-slate-500">Case stage</p>
+            <p className="font-semibold text-slate-900">{CASE_STAGE_LABELS[stage]}</p>
+          </div>
+        </div>
+        {canEditClients && (
+          <div className="flex flex-wrap gap-2">
+            {targets.map((to) => (
+              <button
+                key={to}
+                onClick={() => void handleMove(to)}
+                disabled={movingTo !== null}
+                className="px-3 py-1.5 bg-white border border-slate-300 text-slate-700 text-sm font-semibold rounded-lg hover:bg-slate-100 transition-colors flex items-center space-x-1 disabled:opacity-50"
+              >
+                <ArrowRight className="w-3.5 h-3.5" />
+                <span>{movingTo === to ? 'Moving...' : CASE_STAGE_LABELS[to]}</span>
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {history.length > 0 && (
+        <div className="mt-3">
+          <button
+            onClick={() => setShowHistory((open) => !open)}
+            className="text-xs font-semibold text-slate-600 hover:text-slate-900"
+          >
+            {showHistory ? 'Hide stage history' : `Show stage history (${history.length})`}
+          </button>
+          {showHistory && (
+            <ul className="mt-2 space-y-1">
+              {[...history].reverse().map((entry, index) => (
+                <li key={`${entry.changedAt}-${index}`} className="text-xs text-slate-600">
+                  <span className="font-medium text-slate-800">
+                    {entry.from ? CASE_STAGE_LABELS[entry.from] : '—'} → {CASE_STAGE_LABELS[entry.to]}
+                  </span>
+                  {' · '}
+                  {entry.changedBy}
+                  {' · '}
+                  {new Date(entry.changedAt).toLocaleString()}
+                  {entry.note && <span className="italic"> — {entry.note}</span>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Download, History } from 'lucide-react';
+import { api } from '../utils/api';
+import { ClientActivity, ClientActivityAction } from '../types';
+import { showToast } from './Toast';
+import { isAbortError } from '../utils/request';
+import {
+  CLIENT_ACTIVITY_LABELS,
+  buildClientActivityCsv,
+  filterClientActivity,
+  formatActivityValue,
+} from '../utils/clientActivity';
+
+type Props = {
+  clientId: string;
+  /** Used for the export file name. */
+  clientSlug: string;
+};
+
+export default function ClientActivityTimeline({ clientId, clientSlug }: Props) {
+  const [entries, setEntries] = useState<ClientActivity[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [actionFilter, setActionFilter] = useState<ClientActivityAction | 'all'>('all');
+
+  useEffect(() => {
+    const controller = new AbortController();
+    setLoading(true);
+    api
+      .getClientActivity(clientId, { signal: controller.signal })
+      .then((data) => {
+        setEntries(data);
+        setLoading(false);
+      })
+      .catch((error: any) => {
+        if (isAbortError(error)) return;
+        showToast(error.message || 'Failed to load activity', 'error');
+        setLoading(false);
+      });
+    return () => controller.abort();
+  }, [clientId]);
+
+  const visible = useMemo(() => filterClientActivity(entries, actionFilter), [entries, actionFilter]);
+
+  const handleExport = () => {
+    const blob = new Blob([buildClientActivityCsv(visible)], { type: 'text/csv;charset=utf-8' });
+    const url = window.URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `${clientSlug}-activity-${new Date().toISOString().slice(0, 10)}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    window.URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <select
+          value={actionFilter}
+          onChange={(e) => setActionFilter(e.target.value as ClientActivityAction | 'all')}
+          className="px-3 py-2 border border-slate-300 rounded-lg focus:ring-2 focus:ring-slate-500 outline-none bg-white text-sm"
+        >
+          <option value="all">All actions</option>
+          {(Object.keys(CLIENT_ACTIVITY_LABELS) as ClientActivityAction[]).map((action) => (
+            <option key={action} value={action}>
+              {CLIENT_ACTIVITY_LABELS[action]}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleExport}
+          disabled={visible.length === 0}
+          className="px-4 py-2 bg-slate-700 text-white font-semibold rounded-lg hover:bg-slate-800 transition-colors flex items-center justify-center space-x-2 text-sm disabled:opacity-50"
+        >
+          <Download className="w-4 h-4" />
+          <span>Export CSV</span>
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-slate-500">Loading activity...</p>
+      ) : visible.length === 0 ? (
+        <div className="p-6 text-center text-sm text-slate-500 bg-slate-50 rounded-xl border border-slate-200">
+          No activity recorded yet.
+        </div>
+      ) : (
+        <ol className="relative border-l-2 border-slate-200 ml-2 space-y-4">
+          {visible.map((entry) => {
+            const before = formatActivityValue(entry.before);
+            const after = formatActivityValue(entry.after);
+            return (
+              <li key={entry.id} className="ml-4">
+                <span className="absolute -left-[9px] mt-1 flex h-4 w-4 items-center justify-center rounded-full bg-white border-2 border-slate-400">
+                  <History className="w-2.5 h-2.5 text-slate-500" />
+                </span>
+                <div className="flex flex-wrap items-baseline gap-x-2">
+                  <span className="text-sm font-semibold text-slate-900">
+                    {CLIENT_ACTIVITY_LABELS[entry.action] || entry.action}
+                  </span>
+                  <span className="text-xs text-slate-500">
+                    {entry.actor} · {new Date(entry.created_at).toLocaleString()}
+                  </span>
+                </div>
+                <p className="text-sm text-slate-700">{entry.summary}</p>
+                {(before || after) && (
+                  <div className="mt-1 text-xs text-slate-600 break-words">
+                    {before && <p><span className="font-medium">Before:</span> {before}</p>}
+                    {after && <p><span className="font-medium">After:</span> {after}</p>}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { X, Upload, CheckCircle, FileText, Download, Trash2, Plus, DollarSign, StickyNote, Archive, XCircle, AlertCircle, Send, Clock, Eye, ToggleLeft, ToggleRight, Calendar, GripVertical, Search, Edit2, Square, CheckSquare } from 'lucide-react';
+import { X, Upload, CheckCircle, FileText, Download, Trash2, Plus, DollarSign, StickyNote, Archive, XCircle, AlertCircle, Send, Clock, Eye, ToggleLeft, ToggleRight, Calendar, GripVertical, Search, Edit2, Square, CheckSquare, Pause, Play, RotateCcw, Layers, BookOpen, FileDown } from 'lucide-react';
 import {
   SMART_UPLOAD_ACCEPT,
   collectFilesFromDataTransfer,
@@ -7,12 +7,26 @@ import {
   preventDragDefaults,
 } from '../utils/smartUploadFiles';
 import JSZip from 'jszip';
-import { api } from '../utils/api';
-import { Client, RequiredDocument, AdditionalDocument, RequestedDocument } from '../types';
+import { ClientConflictError, api, getClientVersion } from '../utils/api';
+import { Client, ClientActivityAction, RequiredDocument, AdditionalDocument, RequestedDocument, Payment } from '../types';
 import ConfirmDialog from './ConfirmDialog';
+import ClientErasureDialog from './ClientErasureDialog';
+import MergeConflictDialog, { MergeResolution } from './MergeConflictDialog';
+import CaseStagePanel from './CaseStagePanel';
+import FamilyPanel from './FamilyPanel';
+import ClientActivityTimeline from './ClientActivityTimeline';
+import ClientPresenceIndicator from './ClientPresenceIndicator';
+import DocumentCollectionSection from './DocumentCollectionSection';
+import DocumentWorkbench from './DocumentWorkbench';
+import ExpedienteBundleModal from './ExpedienteBundleModal';
+import SmartUploadReviewPanel from './SmartUploadReviewPanel';
+import { useUploadChecks } from './UploadCheckDialog';
 import { showToast } from './Toast';
 import { useData } from '../context/DataContext';
+import { usePermissions } from '../context/PermissionsContext';
 import { formatClientFullName, getClientFileName, getClientFileStorageSlug, splitClientFullName } from '../utils/clientNames';
+import { getDocumentReferences, getSharedDocumentSource } from '../utils/familyLinks';
+import { buildClientDataExport } from '../utils/dataProtection';
 import {
   buildNoteSchedulingPatch,
   normalizeClientNoteText,
@@ -20,6 +34,46 @@ import {
   removeImportantNoteAtIndex,
 } from '../utils/clientNoteScheduling';
 import { sumPaidPaymentAmount } from '../utils/paymentTotals';
+import { CLIENT_DOCUMENT_SECTIONS, DOCUMENT_COLLECTIONS, DocumentCollectionKind } from '../utils/documentCollections';
+import { OutboxOperation, applyOperationToClients, newOfflineId } from '../utils/syncQueue';
+import { isAbortError } from '../utils/request';
+import {
+  DocumentExpiryStatus,
+  EXPIRY_WARNING_DAYS,
+  describeDocumentExpiry,
+  getClientDocumentExpiries,
+  getDocumentsExpiredOn,
+} from '../utils/documentExpiry';
+import { ChunkedUpload, UploadProgress, formatFileSize } from '../utils/chunkedUpload';
+import {
+  SmartUploadPlacement,
+  SmartUploadReviewItem,
+  buildSmartUploadReviewItems,
+  describeClassificationMethod,
+  describePlacement,
+  getDetectedPlacement,
+  isSamePlacement,
+} from '../utils/smartUploadReview';
+import { getTemplateVersion } from '../utils/templateVersions';
+import {
+  CIVIL_STATUS_LABELS,
+  RELATIONSHIP_LABELS,
+  describeConditions,
+  getClientAge,
+  planConditionalDocuments,
+  selectApplicableDocuments,
+} from '../utils/documentConditions';
+import {
+  ClientProfileErrors,
+  EMPTY_CLIENT_PROFILE_FORM,
+  clientProfileForm,
+  clientProfileFromForm,
+  getCountryName,
+  getProvinceName,
+  validateClientProfileForm,
+} from '../utils/clientProfile';
+import ClientProfileFields from './ClientProfileFields';
+import { mergeImportantNotes, mergePaymentLines, mergedItems, serializeNoteMerge } from '../utils/clientMerge';
 
 interface Props {
   client: Client;
@@ -27,6 +81,96 @@ interface Props {
   onSuccess: () => void | Promise<void>;
 }
 
+/** A conditional save rejected by the server: what we started from, what we tried to save, and the server copy. */
+type MergeConflict =
+  | { field: 'notes'; base: string; mine: string; current: Client }
+  | {
+      field: 'payments';
+      base: Payment[];
+      mine: Payment[];
+      current: Client;
+      /** Totals typed into the payment summary form; they replace the server's when ours is kept. */
+      totals?: { totalFee: number; paidAmount: number };
+    };
+
+/** One file in the smart-upload queue, while its chunks are being sent. */
+interface SmartUploadItem {
+  key: string;
+  fileName: string;
+  progress: UploadProgress;
+  upload: ChunkedUpload;
+}
+
+const SMART_UPLOAD_BAR_CLASSES: Record<UploadProgress['status'], string> = {
+  pending: 'bg-amber-300',
+  uploading: 'bg-amber-500',
+  paused: 'bg-gray-400',
+  failed: 'bg-red-500',
+  complete: 'bg-green-500',
+};
+
+const EXPIRY_BADGE_CLASSES: Record<DocumentExpiryStatus, string> = {
+  expired: 'bg-red-100 text-red-700',
+  expiring: 'bg-orange-100 text-orange-700',
+  valid: 'bg-emerald-50 text-emerald-700',
+  missing_date: 'bg-gray-100 text-gray-600',
+  untracked: 'bg-gray-100 text-gray-600',
+};
+
+/** Progress bar and pause/resume/retry controls for one queued file (buttons sit inside the drop-zone label). */
+function SmartUploadRow({ item }: { item: SmartUploadItem }) {
+  const { loaded, total, status, error } = item.progress;
+  const percent = total > 0 ? Math.round((loaded / total) * 100) : 100;
+  const control = (action: () => void) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    action();
+  };
+  const buttonClass = 'p-1 text-gray-500 hover:text-gray-800 hover:bg-amber-100 rounded transition-colors';
+
+  return (
+    <div>
+      <div className="flex items-center justify-between gap-2 text-xs text-gray-700">
+        <span className="truncate font-medium">{item.fileName}</span>
+        <div className="flex items-center gap-1 shrink-0">
+          <span className="text-gray-500">
+            {status === 'complete' ? formatFileSize(total) : `${formatFileSize(loaded)} / ${formatFileSize(total)}`}
+          </span>
+          {status === 'uploading' && (
+            <button type="button" title="Pause" className={buttonClass} onClick={control(() => item.upload.pause())}>
+              <Pause className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {status === 'paused' && (
+            <button type="button" title="Resume" className={buttonClass} onClick={control(() => item.upload.resume())}>
+              <Play className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {status === 'failed' && (
+            <button type="button" title="Retry" className={buttonClass} onClick={control(() => item.upload.resume())}>
+              <RotateCcw className="w-3.5 h-3.5" />
+            </button>
+          )}
+          {status === 'complete' ? (
+            <CheckCircle className="w-3.5 h-3.5 text-green-600" />
+          ) : (
+            <button type="button" title="Skip this file" className={buttonClass} onClick={control(() => item.upload.cancel())}>
+              <X className="w-3.5 h-3.5" />
+            </button>
+          )}
+        </div>
+      </div>
+      <div className="mt-1 h-1.5 bg-amber-100 rounded-full overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${SMART_UPLOAD_BAR_CLASSES[status]}`}
+          style={{ width: `${percent}%` }}
+        />
+      </div>
+      {status === 'failed' && error && <p className="mt-1 text-xs text-red-600">{error}</p>}
+    </div>
+  );
+}
+
 function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
   const [clientData, setClientData] = useState<Client>(client);
   const [uploading, setUploading] = useState<string | null>(null);
@@ -122,21 +266,30 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
   });
   const [savingPaymentLine, setSavingPaymentLine] = useState(false);
   const [uploadingAllDocuments, setUploadingAllDocuments] = useState(false);
-  const [smartUploadProgress, setSmartUploadProgress] = useState<{ current: number; total: number } | null>(null);
+  const [smartUploads, setSmartUploads] = useState<SmartUploadItem[]>([]);
+  const [smartUploadSorting, setSmartUploadSorting] = useState(false);
+  // Required-document slot the PDF workbench will upload into
+  const [workbenchDocument, setWorkbenchDocument] = useState<RequiredDocument | null>(null);
+  const [smartUploadReview, setSmartUploadReview] = useState<SmartUploadReviewItem[]>([]);
+  const smartUploadsRef = useRef<SmartUploadItem[]>([]);
+  smartUploadsRef.current = smartUploads;
   const [smartUploadDragOver, setSmartUploadDragOver] = useState(false);
   const smartUploadDragDepth = useRef(0);
   const allDocumentsFileInputRef = useRef<HTMLInputElement>(null);
-  const [showAdditionalDocForm, setShowAdditionalDocForm] = useState(false);
   const [paymentForm, setPaymentForm] = useState({ amount: '', method: 'Cash', note: '' });
-  const [additionalDocForm, setAdditionalDocForm] = useState({ name: '', description: '', file: null as File | null, reminder_days: 10 });
-  const [editingAdditionalDoc, setEditingAdditionalDoc] = useState<string | null>(null);
   const [currentUserName, setCurrentUserName] = useState<string>('');
+  const [activeTab, setActiveTab] = useState<'details' | 'activity'>('details');
+  const [mergeConflict, setMergeConflict] = useState<MergeConflict | null>(null);
+  const [resolvingConflict, setResolvingConflict] = useState(false);
   const [notes, setNotes] = useState(() => normalizeClientNoteText(client.notes));
   const [newNoteDraft, setNewNoteDraft] = useState('');
   const [savingNotes, setSavingNotes] = useState(false);
   const [deletingNoteIndex, setDeletingNoteIndex] = useState<number | null>(null);
   const [downloadingZip, setDownloadingZip] = useState(false);
-  const [deleting, setDeleting] = useState(false);
+  const [showBundleBuilder, setShowBundleBuilder] = useState(false);
+  const { checkFiles, uploadCheckDialog } = useUploadChecks();
+  const [showErasure, setShowErasure] = useState(false);
+  const [exportingData, setExportingData] = useState(false);
   const [viewingDocument, setViewingDocument] = useState<{
     url: string;
     fileName: string;
@@ -152,23 +305,19 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
   const [uploadingRequestedDoc, setUploadingRequestedDoc] = useState<string | null>(null);
   const [showDurationModal, setShowDurationModal] = useState(false);
   const [durationDays, setDurationDays] = useState(client.requested_documents_reminder_duration_days || 10);
-  const [showAportarDocForm, setShowAportarDocForm] = useState(false);
-  const [aportarDocForm, setAportarDocForm] = useState({ name: '', description: '', file: null as File | null, reminder_days: 10 });
-  const [editingAportarDoc, setEditingAportarDoc] = useState<string | null>(null);
-  const [showRequerimientoForm, setShowRequerimientoForm] = useState(false);
-  const [requerimientoForm, setRequerimientoForm] = useState({ name: '', description: '', file: null as File | null, reminder_days: 10 });
-  const [editingRequerimientoDoc, setEditingRequerimientoDoc] = useState<string | null>(null);
-  const [showResolucionForm, setShowResolucionForm] = useState(false);
-  const [resolucionForm, setResolucionForm] = useState({ name: '', description: '', file: null as File | null, reminder_days: 10 });
-  const [editingResolucionDoc, setEditingResolucionDoc] = useState<string | null>(null);
-  const [showJustificanteForm, setShowJustificanteForm] = useState(false);
-  const [justificanteForm, setJustificanteForm] = useState({ name: '', description: '', file: null as File | null, reminder_days: 10 });
-  const [editingJustificanteDoc, setEditingJustificanteDoc] = useState<string | null>(null);
   const [draggedIndex, setDraggedIndex] = useState<number | null>(null);
   const [dragOverIndex, setDragOverIndex] = useState<number | null>(null);
   // Use templates from context (loaded once at app startup)
-  const { templates, refreshReminders } = useData();
+  const { clients, templates, refreshClients, refreshReminders, runMutation } = useData();
+  const { can } = usePermissions();
+  const canEditClients = can('edit_clients');
+  const canViewPayments = can('view_payments');
+  const canEditPayments = can('edit_payments');
+  const canDeleteClients = can('delete_clients');
+  const canExportData = can('export_data');
   const [showTemplateDropdown, setShowTemplateDropdown] = useState(false);
+  const [editingDocumentDates, setEditingDocumentDates] = useState<{ code: string; issuedAt: string; expiresAt: string } | null>(null);
+  const [savingDocumentDates, setSavingDocumentDates] = useState(false);
   const [templateSearchQuery, setTemplateSearchQuery] = useState('');
   const [savingTemplate, setSavingTemplate] = useState(false);
   const templateDropdownRef = useRef<HTMLDivElement>(null);
@@ -180,12 +329,15 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     email: '',
     phone: '',
     parent_name: '',
+    profile: EMPTY_CLIENT_PROFILE_FORM,
   });
+  const [clientProfileErrors, setClientProfileErrors] = useState<ClientProfileErrors>({});
   const [confirmDialog, setConfirmDialog] = useState<{
     isOpen: boolean;
     title: string;
     message: string;
     type: 'danger' | 'warning' | 'info';
+    confirmText?: string;
     onConfirm: () => void;
   }>({
     isOpen: false,
@@ -195,13 +347,23 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     onConfirm: () => {},
   });
   const [selectedDocuments, setSelectedDocuments] = useState<Set<string>>(new Set());
+  // Aborted when the modal closes so pending reloads don't land on an unmounted component
+  const readsControllerRef = useRef(new AbortController());
 
   useEffect(() => {
+    const controller = new AbortController();
+    readsControllerRef.current = controller;
     loadClient();
     loadCurrentUser();
     // Templates are loaded from context - no need to fetch
+    return () => controller.abort();
   }, [client.id]);
 
+  // Pause rather than cancel unfinished uploads, so choosing the same files again resumes them
+  useEffect(() => {
+    return () => smartUploadsRef.current.forEach((item) => item.upload.pause());
+  }, []);
+
   // Close template dropdown when clicking outside
   useEffect(() => {
     const handleClickOutside = (event: MouseEvent) => {
@@ -221,9 +383,10 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
 
   const loadCurrentUser = async () => {
     try {
-      const user = await api.getCurrentUser();
+      const user = await api.getCurrentUser({ signal: readsControllerRef.current.signal });
       setCurrentUserName(user.name || user.email || '');
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to load current user:', error);
     }
   };
@@ -237,20 +400,38 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       email: clientData.email || '',
       phone: clientData.phone || '',
       parent_name: clientData.parent_name || '',
+      profile: clientProfileForm(clientData),
     });
-  }, [clientData.notes, clientData.custom_reminder_date, clientData.first_name, clientData.last_name, clientData.email, clientData.phone, clientData.parent_name]);
+  }, [clientData.notes, clientData.custom_reminder_date, clientData.first_name, clientData.last_name, clientData.email, clientData.phone, clientData.parent_name, clientData.updated_at]);
 
   const importantNoteEntries = useMemo(() => parseImportantNotes(notes), [notes]);
 
   const loadClient = async () => {
     try {
-      const data = await api.getClient(client.id);
+      const data = await api.getClient(client.id, { signal: readsControllerRef.current.signal });
       setClientData(data);
     } catch (error) {
+      if (isAbortError(error)) return;
       console.error('Failed to load client:', error);
     }
   };
 
+  /** Record who changed what on this client (fire-and-forget, never blocks the edit itself). */
+  const logActivity = (action: ClientActivityAction, summary: string, before?: unknown, after?: unknown) => {
+    void api.recordClientActivity(client.id, {
+      action,
+      actor: currentUserName.trim() || 'Unknown',
+      summary,
+      before,
+      after,
+    });
+  };
+
+  const describeRemovedDocument = (
+    doc: { name?: string; fileName?: string; uploadedBy?: string } | undefined,
+    fallback: string
+  ) => ({ name: doc?.name || fallback, fileName: doc?.fileName, uploadedBy: doc?.uploadedBy });
+
   // Templates are loaded from context (no need to fetch again)
   // This component can still have local state for filtering/search
 
@@ -264,6 +445,26 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
   });
 
   const selectedTemplate = templates.find(t => t.id === clientData.case_template_id);
+  const conditionLabels = useMemo(
+    () =>
+      new Map(
+        (selectedTemplate?.required_documents || [])
+          .map((doc) => [doc.code, describeConditions(doc.conditions)] as const)
+          .filter((entry): entry is readonly [string, string] => entry[1] !== null)
+      ),
+    [selectedTemplate]
+  );
+
+  const sharedSourceNames = useMemo(
+    () =>
+      new Map(
+        clientData.required_documents.flatMap((doc) => {
+          const source = doc.sharedFrom && clients.find((c) => c.id === doc.sharedFrom!.clientId);
+          return source ? [[doc.code, formatClientFullName(source)] as const] : [];
+        })
+      ),
+    [clientData.required_documents, clients]
+  );
 
   const handleTemplateChange = async (templateId: string) => {
     setSavingTemplate(true);
@@ -278,19 +479,13 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       await api.updateClient(clientData.id, {
         case_template_id: templateId,
         case_type: template.name,
-        // Update required documents from template
-        required_documents: template.required_documents.map((doc: any) => ({
-          code: doc.code,
-          name: doc.name,
-          description: doc.description || '',
-          submitted: false,
-          fileUrl: null,
-          uploadedAt: null,
-          isOptional: false,
-        })),
+        // Update required documents from template, keeping those that apply to this client
+        required_documents: selectApplicableDocuments(template.required_documents, clientData),
+        case_template_version: getTemplateVersion(template),
         reminder_interval_days: template.reminder_interval_days,
         administrative_silence_days: template.administrative_silence_days,
       });
+      logActivity('template_changed', `Template changed to ${template.name}`, clientData.case_type || null, template.name);
 
       await loadClient();
       setShowTemplateDropdown(false);
@@ -309,9 +504,22 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       return;
     }
 
+    const profileErrors = validateClientProfileForm(clientInfoForm.profile);
+    setClientProfileErrors(profileErrors);
+    if (Object.keys(profileErrors).length > 0) {
+      showToast('Check the highlighted identity and address fields', 'error');
+      return;
+    }
+
     setSavingClientInfo(true);
     try {
       const { first_name, last_name } = splitClientFullName(clientInfoForm.fullName);
+      const attributes = clientProfileFromForm(clientInfoForm.profile);
+      // Conditional template documents follow the new attributes
+      const plan = selectedTemplate
+        ? planConditionalDocuments(selectedTemplate.required_documents, clientData.required_documents || [], attributes)
+        : null;
+      const checklistChanged = Boolean(plan && (plan.added.length > 0 || plan.removed.length > 0));
       await api.updateClient(clientData.id, {
         first_name,
         last_name,
@@ -319,11 +527,38 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
         email: clientInfoForm.email.trim() || undefined,
         phone: clientInfoForm.phone.trim() || undefined,
         parent_name: clientInfoForm.parent_name.trim() || undefined,
+        date_of_birth: attributes.date_of_birth || null,
+        civil_status: attributes.civil_status || null,
+        nationality: attributes.nationality || null,
+        relationship: attributes.relationship || null,
+        nie: attributes.nie || null,
+        passport_number: attributes.passport_number || null,
+        passport_expiry: attributes.passport_expiry || null,
+        address_line: attributes.address_line || null,
+        postal_code: attributes.postal_code || null,
+        city: attributes.city || null,
+        province: attributes.province || null,
+        ...(plan && checklistChanged ? { required_documents: plan.nextDocuments } : {}),
       });
+      if (plan && checklistChanged) {
+        logActivity(
+          'checklist_updated',
+          `Checklist updated for client details: ${plan.added.length} added, ${plan.removed.length} removed`,
+          plan.removed.map((doc) => doc.name),
+          plan.added.map((doc) => doc.name)
+        );
+      }
 
       await loadClient();
       setEditingClientInfo(false);
-      showToast('Client information updated successfully', 'success');
+      showToast(
+        plan && checklistChanged
+          ? `Client information updated. Checklist: ${plan.added.length} document(s) added, ${plan.removed.length} removed${
+              plan.keptWithFiles.length > 0 ? `, ${plan.keptWithFiles.length} no longer needed but kept (already uploaded)` : ''
+            }`
+          : 'Client information updated successfully',
+        'success'
+      );
     } catch (error: any) {
       showToast(error.message || 'Failed to update client information', 'error');
     } finally {
@@ -338,10 +573,12 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       showToast('Unable to identify user account. Please refresh the page.', 'error');
       return;
     }
+    const [checked] = (await checkFiles([file])) || [];
+    if (!checked) return;
     setUploading(documentCode);
 
     try {
-      await api.uploadDocument(client.id, documentCode, file, currentUserName);
+      await api.uploadDocument(client.id, documentCode, checked, currentUserName);
       await loadClient();
       onSuccess();
       showToast('Document uploaded successfully', 'success');
@@ -355,18 +592,50 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
   };
 
   const handleRemoveDocument = async (documentCode: string) => {
+    const removed = clientData.required_documents.find((d) => d.code === documentCode);
+    const sharedSource = removed?.sharedFrom ? getSharedDocumentSource(removed, clients) : null;
+    // Family members pointing at this upload lose it too, so their slots are emptied with it
+    const references = removed?.sharedFrom ? [] : getDocumentReferences(client.id, documentCode, clients);
     setConfirmDialog({
       isOpen: true,
       title: 'Remove Document',
-      message: 'Are you sure you want to remove this document?',
+      message: removed?.sharedFrom
+        ? `This file is shared from ${sharedSource ? formatClientFullName(sharedSource.client) : 'another family member'}. Unlink it from this client? The original stays in place.`
+        : references.length > 0
+          ? `Are you sure you want to remove this document? It is also used by ${references
+              .map((ref) => formatClientFullName(ref.client))
+              .join(', ')}, whose checklists will lose it too.`
+          : 'Are you sure you want to remove this document?',
       type: 'warning',
       onConfirm: async () => {
     setError('');
     try {
-      await api.removeDocument(client.id, documentCode);
+      const actor = currentUserName.trim() || 'Unknown';
+      let unlinkFailures: string[] = [];
+      if (removed?.sharedFrom) {
+        await api.unshareDocument(client.id, documentCode, actor);
+      } else {
+        await api.removeDocument(client.id, documentCode);
+        logActivity('document_removed', `Removed required document ${removed?.name || documentCode}`, describeRemovedDocument(removed, documentCode));
+        if (references.length > 0) {
+          const results = await Promise.allSettled(
+            references.map((ref) => api.unshareDocument(ref.client.id, ref.document.code, actor))
+          );
+          unlinkFailures = references
+            .filter((_, index) => results[index].status === 'rejected')
+            .map((ref) => formatClientFullName(ref.client));
+          void refreshClients();
+        }
+      }
       await loadClient();
       onSuccess();
-          showToast('Document removed successfully', 'success');
+          if (unlinkFailures.length > 0) {
+            const message = `Document removed, but it could not be unlinked from ${unlinkFailures.join(', ')}. Remove it from their checklist${unlinkFailures.length === 1 ? '' : 's'} by hand.`;
+            setError(message);
+            showToast(message, 'warning');
+          } else {
+            showToast('Document removed successfully', 'success');
+          }
           setConfirmDialog({ ...confirmDialog, isOpen: false });
     } catch (error: any) {
       setError(error.message || 'Failed to remove document');
@@ -448,6 +717,32 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     }
   };
 
+  const handleSaveDocumentDates = async () => {
+    if (!editingDocumentDates) return;
+    const { code, issuedAt, expiresAt } = editingDocumentDates;
+    if (issuedAt && expiresAt && expiresAt < issuedAt) {
+      showToast('The expiry date must be after the issue date', 'error');
+      return;
+    }
+    setSavingDocumentDates(true);
+    setError('');
+    try {
+      const updatedDocuments = clientData.required_documents.map((doc) =>
+        doc.code === code ? { ...doc, issuedAt: issuedAt || undefined, expiresAt: expiresAt || undefined } : doc
+      );
+      await api.updateClient(client.id, {
+        required_documents: updatedDocuments,
+      });
+      await loadClient();
+      setEditingDocumentDates(null);
+    } catch (error: any) {
+      setError(error.message || 'Failed to update document dates');
+      showToast(error.message || 'Failed to update document dates', 'error');
+    } finally {
+      setSavingDocumentDates(false);
+    }
+  };
+
   const handleMakeAllOptional = async () => {
     setError('');
     try {
@@ -592,9 +887,11 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       showToast('Unable to identify user account. Please refresh the page.', 'error');
       return;
     }
+    const [checked] = (await checkFiles([file])) || [];
+    if (!checked) return;
     setUploadingRequestedDoc(documentCode);
     try {
-      await api.uploadRequestedDocument(client.id, documentCode, file, currentUserName);
+      await api.uploadRequestedDocument(client.id, documentCode, checked, currentUserName);
       await loadClient();
       onSuccess();
       showToast('Requested document uploaded successfully', 'success');
@@ -617,6 +914,8 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
         setError('');
         try {
           await api.removeRequestedDocument(client.id, documentCode);
+          const removed = clientData.requested_documents?.find((d) => d.code === documentCode);
+          logActivity('document_removed', `Removed requested document ${removed?.name || documentCode}`, describeRemovedDocument(removed, documentCode));
           await loadClient();
           onSuccess();
           showToast('Requested document removed successfully', 'success');
@@ -630,640 +929,170 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     });
   };
 
-  const handleUploadAportarDocumentacion = async (e: React.FormEvent) => {
+  const handleSetReminderDuration = async () => {
+    setError('');
+    if (!durationDays || durationDays < 1 || durationDays > 365) {
+      setError('Duration must be between 1 and 365 days');
+      return;
+    }
+    try {
+      await api.setRequestedDocumentsReminderDuration(client.id, durationDays);
+      setShowDurationModal(false);
+      await loadClient();
+      onSuccess();
+      showToast('Reminder duration updated successfully', 'success');
+    } catch (error: any) {
+      setError(error.message || 'Failed to update reminder duration');
+      showToast(error.message || 'Failed to update reminder duration', 'error');
+    }
+  };
+
+  const handleAddPayment = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
 
-    if (!aportarDocForm.name.trim()) {
-      setError('Document name is required');
+    const amount = parseFloat(paymentForm.amount);
+    if (!amount || amount <= 0) {
+      setError('Please enter a valid amount');
       return;
     }
 
-    if (editingAportarDoc) {
-      // Update existing document
-      setUploading('aportar');
-      try {
-        if (aportarDocForm.file && currentUserName.trim()) {
-          await api.uploadAportarDocumentacion(
-            client.id,
-            aportarDocForm.name,
-            aportarDocForm.description,
-            aportarDocForm.file,
-            currentUserName,
-            aportarDocForm.reminder_days
-          );
-        } else {
-          await api.updateAportarDocumentacion(
-            client.id,
-            editingAportarDoc,
-            {
-              name: aportarDocForm.name,
-              description: aportarDocForm.description,
-              reminder_days: aportarDocForm.reminder_days,
-            }
-          );
-        }
-        setAportarDocForm({ name: '', description: '', file: null, reminder_days: 10 });
-        setEditingAportarDoc(null);
-        setShowAportarDocForm(false);
-        await loadClient();
-        onSuccess();
-        showToast('Document updated successfully', 'success');
-      } catch (error: any) {
-        const errorMessage = error.message || 'Failed to update document';
-        setError(errorMessage);
-        showToast(errorMessage, 'error');
-      } finally {
-        setUploading(null);
+    try {
+      const operation: OutboxOperation = {
+        type: 'add_payment',
+        clientId: client.id,
+        // Stable across the online attempt and any replay, so the payment is only added once
+        paymentId: crypto.randomUUID(),
+        amount,
+        method: paymentForm.method,
+        note: paymentForm.note,
+        date: new Date().toISOString(),
+      };
+      const { queued } = await runMutation(operation);
+      if (queued) {
+        setClientData((prev) => applyOperationToClients([prev], operation)[0]);
+        setPaymentForm({ amount: '', method: 'Cash', note: '' });
+        setShowPaymentForm(false);
+        showToast(`You are offline - payment of €${amount} will sync when the connection returns.`, 'warning');
+        return;
       }
-    } else {
-      // Create new document
-      if (aportarDocForm.file) {
-        if (!currentUserName.trim()) {
-          setError('User account information not available');
-          showToast('Unable to identify user account. Please refresh the page.', 'error');
-          return;
-        }
-        setUploading('aportar');
-        try {
-          const updatedClient = await api.uploadAportarDocumentacion(
-            client.id,
-            aportarDocForm.name,
-            aportarDocForm.description,
-            aportarDocForm.file,
-            currentUserName,
-            aportarDocForm.reminder_days
-          );
-          // Use the response from the API call to update clientData immediately
-          if (updatedClient) {
-            setClientData(updatedClient);
-          } else {
-            // Fallback: reload client if response doesn't have updated data
-            await loadClient();
-          }
-          setAportarDocForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowAportarDocForm(false);
-          // Call onSuccess to refresh data in Dashboard
-          if (onSuccess) {
-            await onSuccess();
-          }
-          showToast('Document created successfully', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
-      } else {
-        setUploading('aportar');
-        try {
-          const updatedClient = await api.createAportarDocumentacion(
-            client.id,
-            {
-              name: aportarDocForm.name,
-              description: aportarDocForm.description,
-              reminder_days: aportarDocForm.reminder_days,
-            }
-          );
-          // Use the response from the API call to update clientData immediately
-          if (updatedClient) {
-            setClientData(updatedClient);
-          } else {
-            // Fallback: reload client if response doesn't have updated data
-            await loadClient();
-          }
-          setAportarDocForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowAportarDocForm(false);
-          // Call onSuccess to refresh data in Dashboard
-          if (onSuccess) {
-            await onSuccess();
-          }
-          showToast('Document entry created successfully. You can upload the file later.', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
+      logActivity('payment_added', `Payment of €${amount} added`, undefined, {
+        amount,
+        method: paymentForm.method,
+        note: paymentForm.note || undefined,
+      });
+      setPaymentForm({ amount: '', method: 'Cash', note: '' });
+      setShowPaymentForm(false);
+      await loadClient();
+      
+      // Check if payment is complete and clear reminder if so
+      const updatedClient = await api.getClient(client.id);
+      const remainingAmount = (updatedClient.payment?.totalFee || 0) - (updatedClient.payment?.paidAmount || 0);
+      if (remainingAmount <= 0 && updatedClient.custom_reminder_date) {
+        // Clear the reminder date since payment is complete
+        await api.updateClient(client.id, { custom_reminder_date: null });
+        setCustomReminderDate('');
+        await loadClient();
       }
+      
+      // Don't call onSuccess() here - loadClient() already updates the modal state
+      // Calling onSuccess() would trigger a full dashboard reload which closes the modal
+      showToast(`Payment of €${amount} added successfully`, 'success');
+    } catch (error: any) {
+      const errorMessage = error.message || 'Failed to add payment';
+      setError(errorMessage);
+      showToast(errorMessage, 'error');
     }
   };
 
-  const handleRemoveAportarDocumentacion = async (documentId: string) => {
-    setConfirmDialog({
-      isOpen: true,
-      title: 'Remove Document',
-      message: 'Are you sure you want to remove this document?',
-      type: 'warning',
-      onConfirm: async () => {
-        setError('');
-        try {
-          await api.removeAportarDocumentacion(client.id, documentId);
-          await loadClient();
-          onSuccess();
-          showToast('Document removed successfully', 'success');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-        } catch (error: any) {
-          setError(error.message || 'Failed to remove document');
-          showToast(error.message || 'Failed to remove document', 'error');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-        }
-      },
+  const openEditPaymentSummary = () => {
+    setPaymentSummaryForm({
+      totalFee: String(clientData.payment?.totalFee ?? 0),
+      paidAmount: String(clientData.payment?.paidAmount ?? 0),
     });
+    setShowEditPaymentSummary(true);
+    setShowPaymentForm(false);
+    setEditingPaymentIndex(null);
   };
 
-
-  const handleUploadRequerimiento = async (e: React.FormEvent) => {
+  const handleSavePaymentSummary = async (e: React.FormEvent) => {
     e.preventDefault();
+    setSavingPaymentSummary(true);
     setError('');
-
-    if (!requerimientoForm.name.trim()) {
-      setError('Document name is required');
-      return;
-    }
-
-    if (editingRequerimientoDoc) {
-      // Update existing document
-      setUploading('requerimiento');
-      try {
-        if (requerimientoForm.file && currentUserName.trim()) {
-          await api.uploadRequerimiento(
-            client.id,
-            requerimientoForm.name,
-            requerimientoForm.description,
-            requerimientoForm.file,
-            currentUserName
-          );
-        } else {
-          await api.updateRequerimiento(
-            client.id,
-            editingRequerimientoDoc,
-            {
-              name: requerimientoForm.name,
-              description: requerimientoForm.description,
-              reminder_days: requerimientoForm.reminder_days,
-            }
-          );
-        }
-        setRequerimientoForm({ name: '', description: '', file: null, reminder_days: 10 });
-        setEditingRequerimientoDoc(null);
-        setShowRequerimientoForm(false);
-        await loadClient();
-        onSuccess();
-        showToast('Document updated successfully', 'success');
-      } catch (error: any) {
-        const errorMessage = error.message || 'Failed to update document';
-        setError(errorMessage);
-        showToast(errorMessage, 'error');
-      } finally {
-        setUploading(null);
+    try {
+      const totalFee = parseFloat(paymentSummaryForm.totalFee) || 0;
+      const paidAmount = parseFloat(paymentSummaryForm.paidAmount) || 0;
+      if (totalFee < 0 || paidAmount < 0) {
+        setError('Amounts cannot be negative');
+        showToast('Amounts cannot be negative', 'error');
+        return;
       }
-    } else {
-      // Create new document
-      if (requerimientoForm.file) {
-        if (!currentUserName.trim()) {
-          setError('User account information not available');
-          showToast('Unable to identify user account. Please refresh the page.', 'error');
+      try {
+        await api.updateClient(
+          client.id,
+          {
+            payment: {
+              ...clientData.payment,
+              totalFee,
+              paidAmount,
+              payments: clientData.payment?.payments || [],
+            },
+          },
+          { ifMatch: getClientVersion(clientData) }
+        );
+      } catch (error) {
+        if (error instanceof ClientConflictError) {
+          setShowEditPaymentSummary(false);
+          setMergeConflict({
+            field: 'payments',
+            base: clientData.payment?.payments || [],
+            mine: clientData.payment?.payments || [],
+            current: error.current,
+            totals: { totalFee, paidAmount },
+          });
           return;
         }
-        setUploading('requerimiento');
-        try {
-          await api.uploadRequerimiento(
-            client.id,
-            requerimientoForm.name,
-            requerimientoForm.description,
-            requerimientoForm.file,
-            currentUserName
-          );
-          setRequerimientoForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowRequerimientoForm(false);
-          await loadClient();
-          onSuccess();
-          showToast('Document created successfully', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
-      } else {
-        setUploading('requerimiento');
-        try {
-          await api.createRequerimiento(
-            client.id,
-            {
-              name: requerimientoForm.name,
-              description: requerimientoForm.description,
-              reminder_days: requerimientoForm.reminder_days,
-            }
-          );
-          setRequerimientoForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowRequerimientoForm(false);
-          await loadClient();
-          onSuccess();
-          showToast('Document entry created successfully. You can upload the file later.', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
+        throw error;
       }
+      logActivity(
+        'payment_summary_edited',
+        'Payment summary edited',
+        { totalFee: clientData.payment?.totalFee ?? 0, paidAmount: clientData.payment?.paidAmount ?? 0 },
+        { totalFee, paidAmount }
+      );
+      await loadClient();
+      setShowEditPaymentSummary(false);
+      onSuccess();
+      showToast('Payment summary updated', 'success');
+    } catch (error: any) {
+      const errorMessage = error.message || 'Failed to update payment summary';
+      setError(errorMessage);
+      showToast(errorMessage, 'error');
+    } finally {
+      setSavingPaymentSummary(false);
     }
   };
 
-  const handleRemoveRequerimiento = async (documentId: string) => {
-    setConfirmDialog({
-      isOpen: true,
-      title: 'Remove Document',
-      message: 'Are you sure you want to remove this document?',
-      type: 'warning',
-      onConfirm: async () => {
-        setError('');
-        try {
-          await api.removeRequerimiento(client.id, documentId);
-          await loadClient();
-          onSuccess();
-          showToast('Document removed successfully', 'success');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-        } catch (error: any) {
-          setError(error.message || 'Failed to remove document');
-          showToast(error.message || 'Failed to remove document', 'error');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-        }
-      },
+  const openEditPaymentLine = (index: number) => {
+    const p = clientData.payment?.payments?.[index];
+    if (!p) return;
+    const d = new Date(p.date);
+    const safe = Number.isNaN(d.getTime()) ? new Date() : d;
+    const local = new Date(safe.getTime() - safe.getTimezoneOffset() * 60000);
+    setEditPaymentLineForm({
+      amount: String(p.amount),
+      method: p.method || 'Cash',
+      note: p.note || '',
+      date: local.toISOString().slice(0, 16),
     });
+    setEditingPaymentIndex(index);
+    setShowPaymentForm(false);
   };
 
-  const handleUploadResolucion = async (e: React.FormEvent) => {
+  const handleSavePaymentLine = async (e: React.FormEvent) => {
     e.preventDefault();
-    setError('');
-
-    if (!resolucionForm.name.trim()) {
-      setError('Document name is required');
-      return;
-    }
-
-    if (editingResolucionDoc) {
-      // Update existing document
-      setUploading('resolucion');
-      try {
-        if (resolucionForm.file && currentUserName.trim()) {
-          await api.uploadResolucion(
-            client.id,
-            resolucionForm.name,
-            resolucionForm.description,
-            resolucionForm.file,
-            currentUserName
-          );
-        } else {
-          await api.updateResolucion(
-            client.id,
-            editingResolucionDoc,
-            {
-              name: resolucionForm.name,
-              description: resolucionForm.description,
-              reminder_days: resolucionForm.reminder_days,
-            }
-          );
-        }
-        setResolucionForm({ name: '', description: '', file: null, reminder_days: 10 });
-        setEditingResolucionDoc(null);
-        setShowResolucionForm(false);
-        await loadClient();
-        onSuccess();
-        showToast('Document updated successfully', 'success');
-      } catch (error: any) {
-        const errorMessage = error.message || 'Failed to update document';
-        setError(errorMessage);
-        showToast(errorMessage, 'error');
-      } finally {
-        setUploading(null);
-      }
-    } else {
-      // Create new document
-      if (resolucionForm.file) {
-        if (!currentUserName.trim()) {
-          setError('User account information not available');
-          showToast('Unable to identify user account. Please refresh the page.', 'error');
-          return;
-        }
-        setUploading('resolucion');
-        try {
-          await api.uploadResolucion(
-            client.id,
-            resolucionForm.name,
-            resolucionForm.description,
-            resolucionForm.file,
-            currentUserName
-          );
-          setResolucionForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowResolucionForm(false);
-          await loadClient();
-          onSuccess();
-          showToast('Document created successfully', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
-      } else {
-        setUploading('resolucion');
-        try {
-          await api.createResolucion(
-            client.id,
-            {
-              name: resolucionForm.name,
-              description: resolucionForm.description,
-              reminder_days: resolucionForm.reminder_days,
-            }
-          );
-          setResolucionForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowResolucionForm(false);
-          await loadClient();
-          onSuccess();
-          showToast('Document entry created successfully. You can upload the file later.', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
-      }
-    }
-  };
-
-  const handleRemoveResolucion = async (documentId: string) => {
-    setConfirmDialog({
-      isOpen: true,
-      title: 'Remove Document',
-      message: 'Are you sure you want to remove this document?',
-      type: 'warning',
-      onConfirm: async () => {
-        setError('');
-        try {
-          await api.removeResolucion(client.id, documentId);
-          await loadClient();
-          onSuccess();
-          showToast('Document removed successfully', 'success');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-        } catch (error: any) {
-          setError(error.message || 'Failed to remove document');
-          showToast(error.message || 'Failed to remove document', 'error');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-        }
-      },
-    });
-  };
-
-  const handleUploadJustificante = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-
-    if (!justificanteForm.name.trim()) {
-      setError('Document name is required');
-      return;
-    }
-
-    if (editingJustificanteDoc) {
-      // Update existing document
-      setUploading('justificante');
-      try {
-        if (justificanteForm.file && currentUserName.trim()) {
-          await api.uploadJustificante(
-            client.id,
-            justificanteForm.name,
-            justificanteForm.description,
-            justificanteForm.file,
-            currentUserName
-          );
-        } else {
-          await api.updateJustificante(
-            client.id,
-            editingJustificanteDoc,
-            {
-              name: justificanteForm.name,
-              description: justificanteForm.description,
-              reminder_days: justificanteForm.reminder_days,
-            }
-          );
-        }
-        setJustificanteForm({ name: '', description: '', file: null, reminder_days: 10 });
-        setEditingJustificanteDoc(null);
-        setShowJustificanteForm(false);
-        await loadClient();
-        onSuccess();
-        showToast('Document updated successfully', 'success');
-      } catch (error: any) {
-        const errorMessage = error.message || 'Failed to update document';
-        setError(errorMessage);
-        showToast(errorMessage, 'error');
-      } finally {
-        setUploading(null);
-      }
-    } else {
-      // Create new document
-      if (justificanteForm.file) {
-        if (!currentUserName.trim()) {
-          setError('User account information not available');
-          showToast('Unable to identify user account. Please refresh the page.', 'error');
-          return;
-        }
-        setUploading('justificante');
-        try {
-          await api.uploadJustificante(
-            client.id,
-            justificanteForm.name,
-            justificanteForm.description,
-            justificanteForm.file,
-            currentUserName
-          );
-          setJustificanteForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowJustificanteForm(false);
-          await loadClient();
-          onSuccess();
-          showToast('Document created successfully', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
-      } else {
-        setUploading('justificante');
-        try {
-          await api.createJustificante(
-            client.id,
-            {
-              name: justificanteForm.name,
-              description: justificanteForm.description,
-              reminder_days: justificanteForm.reminder_days,
-            }
-          );
-          setJustificanteForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowJustificanteForm(false);
-          await loadClient();
-          onSuccess();
-          showToast('Document entry created successfully. You can upload the file later.', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
-      }
-    }
-  };
-
-  const handleRemoveJustificante = async (documentId: string) => {
-    setConfirmDialog({
-      isOpen: true,
-      title: 'Remove Document',
-      message: 'Are you sure you want to remove this document?',
-      type: 'warning',
-      onConfirm: async () => {
-        setError('');
-        try {
-          await api.removeJustificante(client.id, documentId);
-          await loadClient();
-          onSuccess();
-          showToast('Document removed successfully', 'success');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-        } catch (error: any) {
-          setError(error.message || 'Failed to remove document');
-          showToast(error.message || 'Failed to remove document', 'error');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-        }
-      },
-    });
-  };
-
-  const handleSetReminderDuration = async () => {
-    setError('');
-    if (!durationDays || durationDays < 1 || durationDays > 365) {
-      setError('Duration must be between 1 and 365 days');
-      return;
-    }
-    try {
-      await api.setRequestedDocumentsReminderDuration(client.id, durationDays);
-      setShowDurationModal(false);
-      await loadClient();
-      onSuccess();
-      showToast('Reminder duration updated successfully', 'success');
-    } catch (error: any) {
-      setError(error.message || 'Failed to update reminder duration');
-      showToast(error.message || 'Failed to update reminder duration', 'error');
-    }
-  };
-
-  const handleAddPayment = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-
-    const amount = parseFloat(paymentForm.amount);
-    if (!amount || amount <= 0) {
-      setError('Please enter a valid amount');
-      return;
-    }
-
-    try {
-      await api.addPayment(client.id, amount, paymentForm.method, paymentForm.note);
-      setPaymentForm({ amount: '', method: 'Cash', note: '' });
-      setShowPaymentForm(false);
-      await loadClient();
-      
-      // Check if payment is complete and clear reminder if so
-      const updatedClient = await api.getClient(client.id);
-      const remainingAmount = (updatedClient.payment?.totalFee || 0) - (updatedClient.payment?.paidAmount || 0);
-      if (remainingAmount <= 0 && updatedClient.custom_reminder_date) {
-        // Clear the reminder date since payment is complete
-        await api.updateClient(client.id, { custom_reminder_date: null });
-        setCustomReminderDate('');
-        await loadClient();
-      }
-      
-      // Don't call onSuccess() here - loadClient() already updates the modal state
-      // Calling onSuccess() would trigger a full dashboard reload which closes the modal
-      showToast(`Payment of €${amount} added successfully`, 'success');
-    } catch (error: any) {
-      const errorMessage = error.message || 'Failed to add payment';
-      setError(errorMessage);
-      showToast(errorMessage, 'error');
-    }
-  };
-
-  const openEditPaymentSummary = () => {
-    setPaymentSummaryForm({
-      totalFee: String(clientData.payment?.totalFee ?? 0),
-      paidAmount: String(clientData.payment?.paidAmount ?? 0),
-    });
-    setShowEditPaymentSummary(true);
-    setShowPaymentForm(false);
-    setEditingPaymentIndex(null);
-  };
-
-  const handleSavePaymentSummary = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setSavingPaymentSummary(true);
-    setError('');
-    try {
-      const totalFee = parseFloat(paymentSummaryForm.totalFee) || 0;
-      const paidAmount = parseFloat(paymentSummaryForm.paidAmount) || 0;
-      if (totalFee < 0 || paidAmount < 0) {
-        setError('Amounts cannot be negative');
-        showToast('Amounts cannot be negative', 'error');
-        return;
-      }
-      await api.updateClient(client.id, {
-        payment: {
-          ...clientData.payment,
-          totalFee,
-          paidAmount,
-          payments: clientData.payment?.payments || [],
-        },
-      });
-      await loadClient();
-      setShowEditPaymentSummary(false);
-      onSuccess();
-      showToast('Payment summary updated', 'success');
-    } catch (error: any) {
-      const errorMessage = error.message || 'Failed to update payment summary';
-      setError(errorMessage);
-      showToast(errorMessage, 'error');
-    } finally {
-      setSavingPaymentSummary(false);
-    }
-  };
-
-  const openEditPaymentLine = (index: number) => {
-    const p = clientData.payment?.payments?.[index];
-    if (!p) return;
-    const d = new Date(p.date);
-    const safe = Number.isNaN(d.getTime()) ? new Date() : d;
-    const local = new Date(safe.getTime() - safe.getTimezoneOffset() * 60000);
-    setEditPaymentLineForm({
-      amount: String(p.amount),
-      method: p.method || 'Cash',
-      note: p.note || '',
-      date: local.toISOString().slice(0, 16),
-    });
-    setEditingPaymentIndex(index);
-    setShowPaymentForm(false);
-  };
-
-  const handleSavePaymentLine = async (e: React.FormEvent) => {
-    e.preventDefault();
-    if (editingPaymentIndex === null) return;
-    setSavingPaymentLine(true);
+    if (editingPaymentIndex === null) return;
+    setSavingPaymentLine(true);
     setError('');
     try {
       const amount = parseFloat(editPaymentLineForm.amount);
@@ -1280,13 +1109,37 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
         date: new Date(editPaymentLineForm.date).toISOString(),
       };
       const paidAmount = sumPaidPaymentAmount(payments);
-      await api.updateClient(client.id, {
-        payment: {
-          ...clientData.payment,
-          payments,
-          paidAmount,
-        },
-      });
+      try {
+        await api.updateClient(
+          client.id,
+          {
+            payment: {
+              ...clientData.payment,
+              payments,
+              paidAmount,
+            },
+          },
+          { ifMatch: getClientVersion(clientData) }
+        );
+      } catch (error) {
+        if (error instanceof ClientConflictError) {
+          setEditingPaymentIndex(null);
+          setMergeConflict({
+            field: 'payments',
+            base: clientData.payment?.payments || [],
+            mine: payments,
+            current: error.current,
+          });
+          return;
+        }
+        throw error;
+      }
+      logActivity(
+        'payment_edited',
+        `Payment entry #${editingPaymentIndex + 1} edited`,
+        clientData.payment?.payments?.[editingPaymentIndex],
+        payments[editingPaymentIndex]
+      );
       await loadClient();
       setEditingPaymentIndex(null);
       onSuccess();
@@ -1328,41 +1181,49 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     }
 
     setUploadingAllDocuments(true);
-    setSmartUploadProgress({ current: 0, total: files.length });
     setError('');
-    const sortedToRequired: string[] = [];
-    const keptInAllDocuments: string[] = [];
     const failedUploads: string[] = [];
 
+    const items = files.map((file, index): SmartUploadItem => {
+      const key = `${index}:${file.name}:${file.size}:${file.lastModified}`;
+      const upload = api.startChunkedUpload(file, {
+        // A failed chunk waits for Retry in the list instead of failing the whole batch
+        pauseOnError: true,
+        onProgress: (progress) =>
+          setSmartUploads((current) => current.map((item) => (item.key === key ? { ...item, progress } : item))),
+      });
+      return { key, fileName: file.name, progress: upload.progress, upload };
+    });
+    setSmartUploads(items);
+
     try {
-      setSmartUploadProgress({ current: 1, total: files.length });
-      const result = await api.smartUploadDocuments(client.id, files, userNameForUpload);
-      setSmartUploadProgress({ current: files.length, total: files.length });
+      // One file at a time, so the first scans finish early instead of all crawling together
+      const uploaded: Array<{ uploadId: string; fileName: string }> = [];
+      for (const item of items) {
+        try {
+          uploaded.push({ uploadId: await item.upload.start(), fileName: item.fileName });
+        } catch (err) {
+          if (!isAbortError(err)) throw err;
+        }
+      }
+      if (uploaded.length === 0) return;
+
+      setSmartUploadSorting(true);
+      const result = await api.smartUploadDocuments(client.id, uploaded, userNameForUpload);
 
       for (const upload of result.uploads || []) {
-        if (!upload.success) {
-          failedUploads.push(`${upload.fileName}: ${upload.error || 'failed'}`);
-          continue;
-        }
-        const classification = upload.classification;
-        if (!classification) continue;
-        if (classification.routedTo === 'required' && classification.documentName) {
-          const via =
-            classification.method === 'ocr'
-              ? 'OCR'
-              : classification.method === 'gemini'
-                ? 'AI'
-                : classification.method === 'template-catalog'
-                  ? 'template'
-                  : 'auto';
-          sortedToRequired.push(`"${upload.fileName}" → ${classification.documentName} (${via})`);
-        } else {
-          keptInAllDocuments.push(upload.fileName);
-        }
+        if (!upload.success) failedUploads.push(`${upload.fileName}: ${upload.error || 'failed'}`);
       }
+      const reviewItems = buildSmartUploadReviewItems(result, uploaded);
+      const sortedToRequired = reviewItems.filter((item) => getDetectedPlacement(item.classification).type === 'required');
 
       await loadClient();
       onSuccess();
+      // Newest batch first; anything still unreviewed from an earlier batch stays listed
+      setSmartUploadReview((current) => [
+        ...reviewItems,
+        ...current.filter((item) => !reviewItems.some((added) => added.uploadId === item.uploadId)),
+      ]);
 
       const summary = result.summary;
       if (summary && summary.succeeded > 0) {
@@ -1377,9 +1238,9 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
           'success'
         );
       }
-      if (keptInAllDocuments.length > 0) {
+      if (reviewItems.length > sortedToRequired.length) {
         showToast(
-          `${keptInAllDocuments.length} saved in All Documents (type not recognized)`,
+          `${reviewItems.length - sortedToRequired.length} saved in All Documents (type not recognized) — review them below`,
           sortedToRequired.length > 0 ? 'info' : 'success'
         );
       }
@@ -1394,7 +1255,8 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       showToast(msg, 'error');
     } finally {
       setUploadingAllDocuments(false);
-      setSmartUploadProgress(null);
+      setSmartUploads([]);
+      setSmartUploadSorting(false);
     }
   };
 
@@ -1414,7 +1276,30 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       return;
     }
 
-    await processSmartUploadFiles(files);
+    const checked = await checkFiles(files);
+    if (!checked?.length) return;
+    await processSmartUploadFiles(checked);
+  };
+
+  const handleSmartUploadReviewed = (item: SmartUploadReviewItem, placement: SmartUploadPlacement, updated: Client) => {
+    setClientData(updated);
+    setSmartUploadReview((current) => current.filter((i) => i.uploadId !== item.uploadId));
+    onSuccess();
+    const detected = getDetectedPlacement(item.classification);
+    if (isSamePlacement(detected, placement)) return;
+    const from = describePlacement(detected, clientData);
+    const to = describePlacement(placement, updated);
+    logActivity(
+      'document_reclassified',
+      `Refiled "${item.fileName}" to ${to}`,
+      {
+        placement: from,
+        confidence: item.classification.confidence,
+        method: describeClassificationMethod(item.classification.method),
+      },
+      to
+    );
+    showToast(`"${item.fileName}" moved to ${to}`, 'success');
   };
 
   const handleAllDocumentsFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -1473,7 +1358,8 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       incomingText,
       notes,
       clientData,
-      mode
+      mode,
+      await api.isFieldEncryptionEnabled()
     );
 
     const updates: Partial<Client> = {};
@@ -1489,21 +1375,35 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       setCustomReminderDate(patch.custom_reminder_date);
     }
 
+    // Notes and follow-up reminders may be queued while offline (see DataContext.runMutation)
+    let queued = false;
     if (Object.keys(updates).length > 0) {
-      await api.updateClient(client.id, updates);
-    } else if (mode === 'notes') {
-      await api.updateNotes(client.id, incomingText);
+      const operation: OutboxOperation = {
+        type: 'update_notes',
+        clientId: client.id,
+        notes: updates.notes ?? notes,
+        custom_reminder_date: updates.custom_reminder_date,
+        if_match: getClientVersion(clientData),
+      };
+      try {
+        queued = (await runMutation(operation)).queued;
+      } catch (error) {
+        if (error instanceof ClientConflictError) {
+          setMergeConflict({ field: 'notes', base: notes, mine: operation.notes, current: error.current });
+        }
+        throw error;
+      }
+      if (queued) setClientData((prev) => applyOperationToClients([prev], operation)[0]);
     }
 
-    if (patch.urgentReminder) {
-      await api.createReminder(patch.urgentReminder);
-      await refreshReminders();
-    } else if (patch.calendarReminder) {
-      await api.createReminder(patch.calendarReminder);
-      await refreshReminders();
+    const reminder = patch.urgentReminder || patch.calendarReminder;
+    if (reminder) {
+      const result = await runMutation({ type: 'create_reminder', tempId: newOfflineId(), data: reminder });
+      queued = queued || result.queued;
+      if (!result.queued) await refreshReminders();
     }
 
-    return patch;
+    return { ...patch, queued };
   };
 
   const handleAddImportantNote = async () => {
@@ -1518,6 +1418,10 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
       const patch = await applyNoteSchedulingUpdates(draft, 'details');
       setNotes(patch.notes);
       setNewNoteDraft('');
+      if (patch.queued) {
+        showToast('You are offline - note saved on this device and will sync when the connection returns.', 'warning');
+        return;
+      }
       await loadClient();
       onSuccess();
 
@@ -1534,6 +1438,7 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
         showToast('Note added to Important Notes', 'success');
       }
     } catch (error: any) {
+      if (error instanceof ClientConflictError) return; // merge dialog takes over
       const errorMessage = error.message || 'Failed to add note';
       setError(errorMessage);
       showToast(errorMessage, 'error');
@@ -1547,7 +1452,18 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     setError('');
     try {
       const updated = removeImportantNoteAtIndex(notes, index);
-      await api.updateClient(client.id, { notes: updated });
+      try {
+        await api.updateNotes(client.id, updated, { ifMatch: getClientVersion(clientData) });
+      } catch (error) {
+        if (error instanceof ClientConflictError) {
+          setMergeConflict({ field: 'notes', base: notes, mine: updated, current: error.current });
+          return;
+        }
+        throw error;
+      }
+      // The activity log is plaintext: with field encryption on it records the deletion, not the note
+      const deletedText = parseImportantNotes(notes)[index]?.text;
+      logActivity('note_deleted', 'Important note deleted', (await api.isFieldEncryptionEnabled()) ? undefined : deletedText);
       setNotes(updated);
       await loadClient();
       onSuccess();
@@ -1561,10 +1477,94 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     }
   };
 
-  const handleOpenReminderCalendar = () => {
-    setTempReminderDate(customReminderDate || '');
-    setShowReminderCalendar(true);
-  };
+  const notesMerge = useMemo(
+    () =>
+      mergeConflict?.field === 'notes'
+        ? mergeImportantNotes(mergeConflict.base, mergeConflict.mine, mergeConflict.current.notes || '')
+        : null,
+    [mergeConflict]
+  );
+
+  const paymentsMerge = useMemo(
+    () =>
+      mergeConflict?.field === 'payments'
+        ? mergePaymentLines(mergeConflict.base, mergeConflict.mine, mergeConflict.current.payment?.payments || [])
+        : null,
+    [mergeConflict]
+  );
+
+  const handleResolveMergeConflict = async (resolution: MergeResolution) => {
+    const conflict = mergeConflict;
+    if (!conflict) return;
+    setResolvingConflict(true);
+    setError('');
+    // Save on top of the server copy we were shown; if it moved again we get a fresh conflict
+    const ifMatch = getClientVersion(conflict.current);
+    let attempted: string | Payment[] | null = null;
+    try {
+      if (conflict.field === 'notes') {
+        const theirs = conflict.current.notes || '';
+        const value =
+          resolution === 'mine' ? conflict.mine : resolution === 'merged' && notesMerge ? serializeNoteMerge(notesMerge) : theirs;
+        if (value !== theirs) {
+          attempted = value;
+          await api.updateNotes(client.id, value, { ifMatch });
+        }
+        setNotes(value);
+      } else {
+        const theirs = conflict.current.payment?.payments || [];
+        const payments =
+          resolution === 'mine' ? conflict.mine : resolution === 'merged' && paymentsMerge ? mergedItems(paymentsMerge) : theirs;
+        if (payments !== theirs || (conflict.totals && resolution !== 'theirs')) {
+          attempted = payments;
+          const totals = conflict.totals ?? { paidAmount: sumPaidPaymentAmount(payments) };
+          await api.updateClient(client.id, { payment: { ...conflict.current.payment, payments, ...totals } }, { ifMatch });
+        }
+      }
+      setMergeConflict(null);
+      await loadClient();
+      onSuccess();
+      showToast(resolution === 'theirs' ? 'Kept the other version' : 'Changes saved', 'success');
+    } catch (error: any) {
+      if (error instanceof ClientConflictError && attempted !== null) {
+        // Changed again meanwhile: merge what we just tried against the newer copy
+        setMergeConflict(
+          conflict.field === 'notes'
+            ? { field: 'notes', base: conflict.current.notes || '', mine: attempted as string, current: error.current }
+            : {
+                field: 'payments',
+                base: conflict.current.payment?.payments || [],
+                mine: attempted as Payment[],
+                current: error.current,
+                totals: conflict.totals,
+              }
+        );
+        showToast('The client changed again - please review once more', 'warning');
+        return;
+      }
+      const errorMessage = error.message || 'Failed to save changes';
+      setError(errorMessage);
+      showToast(errorMessage, 'error');
+    } finally {
+      setResolvingConflict(false);
+    }
+  };
+
+  const formatPaymentLine = (payment: Payment) => (
+    <span>
+      <span className="font-semibold">€{Number(payment.amount || 0).toFixed(2)}</span>
+      {' · '}
+      {payment.method}
+      {' · '}
+      {new Date(payment.date).toLocaleDateString()}
+      {payment.note && <span className="block text-xs text-gray-500">{payment.note}</span>}
+    </span>
+  );
+
+  const handleOpenReminderCalendar = () => {
+    setTempReminderDate(customReminderDate || '');
+    setShowReminderCalendar(true);
+  };
 
   const handleSaveReminderFromCalendar = async () => {
     if (!tempReminderDate) {
@@ -1589,132 +1589,31 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     }
   };
 
-  const handleUploadAdditionalDocument = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setError('');
-
-    if (!additionalDocForm.name.trim()) {
-      setError('Document name is required');
-      return;
-    }
-
-    if (editingAdditionalDoc) {
-      // Update existing document (reminder only, or upload file if provided)
-      setUploading('additional');
-      try {
-        if (additionalDocForm.file && currentUserName.trim()) {
-          // Upload file to existing document
-          await api.uploadAdditionalDocument(
-            client.id,
-            additionalDocForm.name,
-            additionalDocForm.description,
-            additionalDocForm.file,
-            currentUserName,
-            { reminderDays: additionalDocForm.reminder_days }
-          );
-        } else {
-          // Update reminder only
-          await api.updateAdditionalDocument(
-            client.id,
-            editingAdditionalDoc,
-            {
-              name: additionalDocForm.name,
-              description: additionalDocForm.description,
-              reminder_days: additionalDocForm.reminder_days,
-            }
-          );
-        }
-        setAdditionalDocForm({ name: '', description: '', file: null, reminder_days: 10 });
-        setEditingAdditionalDoc(null);
-        setShowAdditionalDocForm(false);
-        await loadClient();
-        onSuccess();
-        showToast('Document updated successfully', 'success');
-      } catch (error: any) {
-        const errorMessage = error.message || 'Failed to update document';
-        setError(errorMessage);
-        showToast(errorMessage, 'error');
-      } finally {
-        setUploading(null);
-      }
-    } else {
-      // Create new document (file optional)
-      if (additionalDocForm.file) {
-        // Create with file
-        if (!currentUserName.trim()) {
-          setError('User account information not available');
-          showToast('Unable to identify user account. Please refresh the page.', 'error');
-          return;
-        }
-        setUploading('additional');
-        try {
-          await api.uploadAdditionalDocument(
-            client.id,
-            additionalDocForm.name,
-            additionalDocForm.description,
-            additionalDocForm.file,
-            currentUserName,
-            { reminderDays: additionalDocForm.reminder_days }
-          );
-          setAdditionalDocForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowAdditionalDocForm(false);
-          await loadClient();
-          onSuccess();
-          showToast('Additional document created successfully', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
-      } else {
-        // Create without file (just name, description, reminder)
-        setUploading('additional');
-        try {
-          await api.createAdditionalDocument(
-            client.id,
-            {
-              name: additionalDocForm.name,
-              description: additionalDocForm.description,
-              reminder_days: additionalDocForm.reminder_days,
-            }
-          );
-          setAdditionalDocForm({ name: '', description: '', file: null, reminder_days: 10 });
-          setShowAdditionalDocForm(false);
-          await loadClient();
-          onSuccess();
-          showToast('Document entry created successfully. You can upload the file later.', 'success');
-        } catch (error: any) {
-          const errorMessage = error.message || 'Failed to create document';
-          setError(errorMessage);
-          showToast(errorMessage, 'error');
-        } finally {
-          setUploading(null);
-        }
-      }
-    }
-  };
-
-  const handleRemoveAdditionalDocument = async (documentId: string) => {
+  const handleRemoveCollectionDocument = async (kind: DocumentCollectionKind, documentId: string) => {
     setConfirmDialog({
       isOpen: true,
       title: 'Remove Document',
       message: 'Are you sure you want to remove this document?',
       type: 'warning',
       onConfirm: async () => {
-    setError('');
-    try {
-      await api.removeAdditionalDocument(client.id, documentId);
-      await loadClient();
-      onSuccess();
+        setError('');
+        try {
+          await api.removeCollectionDocument(kind, client.id, documentId);
+          const removed = clientData[kind]?.find((d) => d.id === documentId);
+          logActivity(
+            'document_removed',
+            `Removed ${DOCUMENT_COLLECTIONS[kind].title} document ${removed?.name || documentId}`,
+            describeRemovedDocument(removed, documentId)
+          );
+          await loadClient();
+          onSuccess();
           showToast('Document removed successfully', 'success');
           setConfirmDialog({ ...confirmDialog, isOpen: false });
-    } catch (error: any) {
-      setError(error.message || 'Failed to remove document');
+        } catch (error: any) {
+          setError(error.message || 'Failed to remove document');
           showToast(error.message || 'Failed to remove document', 'error');
           setConfirmDialog({ ...confirmDialog, isOpen: false });
-    }
+        }
       },
     });
   };
@@ -1860,15 +1759,23 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
   };
 
   const handleSubmitToAdministrative = async () => {
+    // Filed today: anything stale today gets the filing rejected
+    const expired = getDocumentsExpiredOn(clientData, new Date(), selectedTemplate);
     setConfirmDialog({
       isOpen: true,
-      title: 'Submit to Administrative Authority',
-      message: 'Are you sure you want to submit this case to the administrative authority? This will start the administrative silence timer.',
-      type: 'info',
+      title: expired.length > 0 ? 'Documents Expired on the Filing Date' : 'Submit to Administrative Authority',
+      message:
+        expired.length > 0
+          ? `These documents will be expired when the case is filed and the administration may reject it: ${expired
+              .map((expiry) => `${expiry.document.name} (${describeDocumentExpiry(expiry)})`)
+              .join('; ')}. Submit anyway?`
+          : 'Are you sure you want to submit this case to the administrative authority? This will start the administrative silence timer.',
+      type: expired.length > 0 ? 'danger' : 'info',
+      confirmText: expired.length > 0 ? 'Submit anyway' : undefined,
       onConfirm: async () => {
     setError('');
     try {
-      await api.submitToAdministrative(client.id);
+      await api.submitToAdministrative(client.id, { allowExpiredDocuments: expired.length > 0 });
       await loadClient();
       onSuccess();
           showToast('Case submitted to administrative authority successfully', 'success');
@@ -1882,31 +1789,32 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
     });
   };
 
-  const handleDeleteClient = async () => {
-    const confirmMessage = `Are you sure you want to delete ${formatClientFullName(clientData)}? This action cannot be undone and will permanently remove all client data, documents, and records.`;
-    
-    setConfirmDialog({
-      isOpen: true,
-      title: 'Delete Client',
-      message: confirmMessage,
-      type: 'danger',
-      onConfirm: async () => {
-    setDeleting(true);
-    setError('');
+  /** GDPR access request: everything held on the client in one ZIP (see utils/dataProtection). */
+  const handleExportClientData = async () => {
+    setExportingData(true);
     try {
-      await api.deleteClient(client.id);
-          showToast(`Client ${formatClientFullName(clientData)} deleted successfully`, 'success');
-      onSuccess();
-      onClose();
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
+      const activity = await api.getClientActivity(client.id);
+      const result = await buildClientDataExport(clientData, activity, async (fileUrl) => (await fetchAuthenticatedFileBlob(fileUrl)).blob);
+
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(result.blob);
+      link.download = `${getClientFileStorageSlug(clientData)}_personal_data_${new Date().toISOString().split('T')[0]}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+
+      logActivity('data_exported', `Exported personal data with ${result.fileCount} file(s)`);
+      if (result.failedFiles.length > 0) {
+        showToast(`Data exported. ${result.failedFiles.length} file(s) could not be included - see README.txt.`, 'warning');
+      } else {
+        showToast('Personal data exported', 'success');
+      }
     } catch (error: any) {
-      setError(error.message || 'Failed to delete client');
-          showToast(error.message || 'Failed to delete client', 'error');
-          setConfirmDialog({ ...confirmDialog, isOpen: false });
-      setDeleting(false);
+      showToast(error.message || 'Failed to export personal data', 'error');
+    } finally {
+      setExportingData(false);
     }
-      },
-    });
   };
   
   // Count total submitted documents (including optional)
@@ -1940,10 +1848,12 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
   };
 
   const silenceInfo = calculateSilenceCountdown();
-
-  const standardAdditionalDocs = (clientData.additional_documents || []).filter(
-    (d: AdditionalDocument) => !d.allDocumentsSection
+  const documentExpiries = new Map(
+    getClientDocumentExpiries(clientData, new Date(), selectedTemplate).map((expiry) => [expiry.document.code, expiry])
   );
+  const expiredCount = Array.from(documentExpiries.values()).filter((expiry) => expiry.status === 'expired').length;
+  const expiringCount = Array.from(documentExpiries.values()).filter((expiry) => expiry.status === 'expiring').length;
+
   const allDocumentsSectionFiles = (clientData.additional_documents || []).filter(
     (d: AdditionalDocument) => !!d.allDocumentsSection
   );
@@ -1979,13 +1889,15 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                 <p className="text-gray-600 text-sm sm:text-base font-medium">
                   {clientData.case_type || 'No template assigned'}
                 </p>
-                <button
-                  onClick={() => setShowTemplateDropdown(!showTemplateDropdown)}
-                  className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
-                  title="Change template"
-                >
-                  <Edit2 className="w-4 h-4" />
-                </button>
+                {canEditClients && (
+                  <button
+                    onClick={() => setShowTemplateDropdown(!showTemplateDropdown)}
+                    className="p-1.5 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-lg transition-all"
+                    title="Change template"
+                  >
+                    <Edit2 className="w-4 h-4" />
+                  </button>
+                )}
               </div>
               
               {showTemplateDropdown && (
@@ -2040,10 +1952,29 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
             <X className="w-5 h-5" />
           </button>
         </div>
+
+        {/* Tabs */}
+        <div className="flex-shrink-0 flex gap-1 px-6 pt-3 border-b border-gray-200 bg-white">
+          {(['details', 'activity'] as const).map((tab) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`px-4 py-2 text-sm font-semibold rounded-t-lg border-b-2 transition-colors ${
+                activeTab === tab
+                  ? 'border-amber-500 text-amber-700'
+                  : 'border-transparent text-gray-500 hover:text-gray-700'
+              }`}
+            >
+              {tab === 'details' ? 'Details' : 'Activity'}
+            </button>
+          ))}
+        </div>
         
         {/* Scrollable Content */}
         <div className="flex-1 overflow-y-auto overscroll-contain custom-scrollbar smooth-scroll">
           <div className="p-6 space-y-6">
+            <ClientPresenceIndicator clientId={client.id} currentUserName={currentUserName} />
+            <div className={activeTab === 'details' ? 'space-y-6' : 'hidden'}>
 
             {error && (
               <div className="mb-4 p-4 bg-red-50 border-l-4 border-red-500 text-red-700 rounded-lg text-sm animate-slide-down shadow-sm">
@@ -2054,6 +1985,23 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
               </div>
             )}
 
+        <CaseStagePanel
+          client={clientData}
+          onChanged={async () => {
+            await loadClient();
+            onSuccess();
+          }}
+        />
+
+        <FamilyPanel
+          client={clientData}
+          currentUserName={currentUserName}
+          onChanged={async () => {
+            await loadClient();
+            onSuccess();
+          }}
+        />
+
         {/* Administrative Submission Status */}
         {!clientData.submitted_to_immigration ? (
           <div className="mb-6 p-4 sm:p-5 bg-gradient-to-br from-amber-50 to-amber-100/50 border-2 border-amber-300 rounded-xl shadow-md">
@@ -2065,15 +2013,30 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                 <div>
                   <h3 className="font-semibold text-amber-900 text-base sm:text-lg">Not Submitted to Administrative Authority</h3>
                   <p className="text-xs sm:text-sm text-amber-700 mt-1">Submit the case to start the administrative silence timer</p>
+                  {(expiredCount > 0 || expiringCount > 0) && (
+                    <p className="text-xs sm:text-sm font-semibold text-red-700 mt-1 flex items-center space-x-1">
+                      <Clock className="w-3.5 h-3.5" />
+                      <span>
+                        {[
+                          expiredCount > 0 ? `${expiredCount} document(s) expired` : '',
+                          expiringCount > 0 ? `${expiringCount} expiring within ${EXPIRY_WARNING_DAYS} days` : '',
+                        ]
+                          .filter(Boolean)
+                          .join(', ')}
+                      </span>
+                    </p>
+                  )}
                 </div>
               </div>
-              <button
-                onClick={handleSubmitToAdministrative}
-                className="px-4 sm:px-6 py-2.5 sm:py-3 bg-amber-600 text-white font-semibold rounded-lg hover:bg-amber-700 transition-colors shadow-md hover:shadow-lg flex items-center justify-center space-x-2 w-full sm:w-auto"
-              >
-                <Send className="w-4 h-4 sm:w-5 sm:h-5" />
-                <span className="text-sm sm:text-base">Submit to Administrative</span>
-              </button>
+              {canEditClients && (
+                <button
+                  onClick={handleSubmitToAdministrative}
+                  className="px-4 sm:px-6 py-2.5 sm:py-3 bg-amber-600 text-white font-semibold rounded-lg hover:bg-amber-700 transition-colors shadow-md hover:shadow-lg flex items-center justify-center space-x-2 w-full sm:w-auto"
+                >
+                  <Send className="w-4 h-4 sm:w-5 sm:h-5" />
+                  <span className="text-sm sm:text-base">Submit to Administrative</span>
+                </button>
+              )}
             </div>
           </div>
         ) : (
@@ -2170,23 +2133,25 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                   <p className="text-sm text-purple-700">Documents requested by administration</p>
                 </div>
               </div>
-              <div className="flex items-center space-x-2">
-                <button
-                  onClick={() => setShowDurationModal(true)}
-                  className="px-3 py-1.5 bg-purple-100 text-purple-700 font-semibold rounded-lg hover:bg-purple-200 transition-colors text-sm flex items-center space-x-1"
-                  title="Set reminder duration"
-                >
-                  <Clock className="w-4 h-4" />
-                  <span>{clientData.requested_documents_reminder_duration_days || 10} days</span>
-                </button>
-                <button
-                  onClick={() => setShowRequestedDocForm(true)}
-                  className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-colors flex items-center space-x-2"
-                >
-                  <Plus className="w-4 h-4" />
-                  <span>Add Requested</span>
-                </button>
-              </div>
+              {canEditClients && (
+                <div className="flex items-center space-x-2">
+                  <button
+                    onClick={() => setShowDurationModal(true)}
+                    className="px-3 py-1.5 bg-purple-100 text-purple-700 font-semibold rounded-lg hover:bg-purple-200 transition-colors text-sm flex items-center space-x-1"
+                    title="Set reminder duration"
+                  >
+                    <Clock className="w-4 h-4" />
+                    <span>{clientData.requested_documents_reminder_duration_days || 10} days</span>
+                  </button>
+                  <button
+                    onClick={() => setShowRequestedDocForm(true)}
+                    className="px-4 py-2 bg-purple-600 text-white font-semibold rounded-lg hover:bg-purple-700 transition-colors flex items-center space-x-2"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Requested</span>
+                  </button>
+                </div>
+              )}
             </div>
 
             {/* Requested Documents Reminder Status */}
@@ -2221,7 +2186,7 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                             : `Next reminder in ${reminderInterval - daysSinceLastReminder} day(s)`}
                         </span>
                       </div>
-                      {needsReminder && (
+                      {needsReminder && canEditClients && (
                         <button
                           onClick={async () => {
                             try {
@@ -2301,13 +2266,13 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                               <Download className="w-4 h-4" />
                             </button>
                           </>
-                        ) : (
+                        ) : canEditClients ? (
                           <label className="p-2 text-purple-600 hover:bg-purple-50 rounded-lg transition-colors cursor-pointer">
                             <Upload className="w-4 h-4" />
                             <input
                               type="file"
                               className="hidden"
-                              accept=".pdf,.doc,.docx,.jpg,.jpeg,.png"
+                              accept=".pdf,.doc,.docx,.jpg,.jpeg,.png,.heic,.heif"
                               onChange={(e) => {
                                 const file = e.target.files?.[0];
                                 if (file) {
@@ -2317,14 +2282,16 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                               disabled={uploadingRequestedDoc === doc.code}
                             />
                           </label>
+                        ) : null}
+                        {canEditClients && (
+                          <button
+                            onClick={() => handleRemoveRequestedDocument(doc.code)}
+                            className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                            title="Remove document"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
                         )}
-                        <button
-                          onClick={() => handleRemoveRequestedDocument(doc.code)}
-                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                          title="Remove document"
-                        >
-                          <Trash2 className="w-4 h-4" />
-                        </button>
                       </div>
                     </div>
                   </div>
@@ -2347,7 +2314,7 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
               <div className="w-1 h-6 bg-gradient-to-b from-blue-600 to-indigo-600 rounded-full"></div>
               <span>Client Information</span>
             </h3>
-            {!editingClientInfo && (
+            {!editingClientInfo && canEditClients && (
               <button
                 onClick={() => setEditingClientInfo(true)}
                 className="px-3 py-1.5 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
@@ -2425,6 +2392,13 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                   </div>
                 </div>
               </div>
+              <ClientProfileFields
+                value={clientInfoForm.profile}
+                onChange={(profile) => setClientInfoForm({ ...clientInfoForm, profile })}
+                errors={clientProfileErrors}
+                labelClassName="block text-sm font-medium text-gray-700 mb-1"
+                inputClassName="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
+              />
               <div className="flex items-center justify-end space-x-3 pt-2">
                 <button
                   onClick={() => {
@@ -2435,7 +2409,9 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                       email: clientData.email || '',
                       phone: clientData.phone || '',
                       parent_name: clientData.parent_name || '',
+                      profile: clientProfileForm(clientData),
                     });
+                    setClientProfileErrors({});
                   }}
                   className="px-4 py-2 text-gray-700 bg-gray-200 rounded-lg hover:bg-gray-300 transition-colors"
                   disabled={savingClientInfo}
@@ -2473,6 +2449,69 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                 <span className="text-gray-600">Parent Name:</span>
                 <span className="ml-2 text-gray-900">{clientData.parent_name || 'N/A'}</span>
               </div>
+              <div>
+                <span className="text-gray-600">Date of Birth:</span>
+                <span className="ml-2 text-gray-900">
+                  {clientData.date_of_birth
+                    ? `${new Date(clientData.date_of_birth).toLocaleDateString('es-ES')} (${getClientAge(clientData.date_of_birth)} years)`
+                    : 'N/A'}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-600">Nationality:</span>
+                <span className="ml-2 text-gray-900">
+                  {clientData.nationality ? `${getCountryName(clientData.nationality)} (${clientData.nationality})` : 'N/A'}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-600">Civil Status:</span>
+                <span className="ml-2 text-gray-900">
+                  {clientData.civil_status ? CIVIL_STATUS_LABELS[clientData.civil_status] : 'N/A'}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-600">Relationship:</span>
+                <span className="ml-2 text-gray-900">
+                  {clientData.relationship ? RELATIONSHIP_LABELS[clientData.relationship] : 'N/A'}
+                </span>
+              </div>
+              <div>
+                <span className="text-gray-600">NIE / NIF:</span>
+                <span className="ml-2 text-gray-900 font-mono">{clientData.nie || 'N/A'}</span>
+              </div>
+              <div>
+                <span className="text-gray-600">Passport:</span>
+                <span className="ml-2 text-gray-900">
+                  {clientData.passport_number ? (
+                    <>
+                      <span className="font-mono">{clientData.passport_number}</span>
+                      {clientData.passport_expiry && (
+                        <span
+                          className={
+                            clientData.passport_expiry < new Date().toISOString().slice(0, 10) ? 'ml-1 text-red-600' : 'ml-1 text-gray-500'
+                          }
+                        >
+                          (expires {new Date(clientData.passport_expiry).toLocaleDateString('es-ES')})
+                        </span>
+                      )}
+                    </>
+                  ) : (
+                    'N/A'
+                  )}
+                </span>
+              </div>
+              <div className="sm:col-span-2">
+                <span className="text-gray-600">Address:</span>
+                <span className="ml-2 text-gray-900">
+                  {[
+                    clientData.address_line,
+                    [clientData.postal_code, clientData.city].filter(Boolean).join(' '),
+                    getProvinceName(clientData.province),
+                  ]
+                    .filter(Boolean)
+                    .join(', ') || 'N/A'}
+                </span>
+              </div>
               <div>
                 <span className="text-gray-600">Payment:</span>
                 <span className="ml-2 text-gray-900">
@@ -2536,46 +2575,51 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                     ) : null}
                     <p className="text-sm text-gray-900 whitespace-pre-wrap break-words">{entry.text}</p>
                   </div>
-                  <button
-                    type="button"
-                    onClick={() => handleDeleteImportantNote(index)}
-                    disabled={deletingNoteIndex === index}
-                    className="flex-shrink-0 p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300 disabled:opacity-50"
-                    title="Delete note"
-                  >
-                    {deletingNoteIndex === index ? (
-                      <div className="animate-spin rounded-full h-4 w-4 border-2 border-red-600 border-t-transparent" />
-                    ) : (
-                      <Trash2 className="w-4 h-4" />
-                    )}
-                  </button>
+                  {canEditClients && (
+                    <button
+                      type="button"
+                      onClick={() => handleDeleteImportantNote(index)}
+                      disabled={deletingNoteIndex === index}
+                      className="flex-shrink-0 p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300 disabled:opacity-50"
+                      title="Delete note"
+                    >
+                      {deletingNoteIndex === index ? (
+                        <div className="animate-spin rounded-full h-4 w-4 border-2 border-red-600 border-t-transparent" />
+                      ) : (
+                        <Trash2 className="w-4 h-4" />
+                      )}
+                    </button>
+                  )}
                 </li>
               ))}
             </ol>
           )}
 
-          <div className="pt-4 border-t border-blue-100">
-            <label className="block text-sm font-medium text-gray-700 mb-2">Add note</label>
-            <textarea
-              value={newNoteDraft}
-              onChange={(e) => setNewNoteDraft(e.target.value)}
-              rows={3}
-              className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
-              placeholder="What the client said… (tomorrow, 30-06-2026 for URGENT follow-up)"
-            />
-            <button
-              type="button"
-              onClick={handleAddImportantNote}
-              disabled={savingNotes || !newNoteDraft.trim()}
-              className="mt-3 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2"
-            >
-              <Plus className="w-4 h-4" />
-              {savingNotes ? 'Adding...' : 'Add note'}
-            </button>
-          </div>
+          {canEditClients && (
+            <div className="pt-4 border-t border-blue-100">
+              <label className="block text-sm font-medium text-gray-700 mb-2">Add note</label>
+              <textarea
+                value={newNoteDraft}
+                onChange={(e) => setNewNoteDraft(e.target.value)}
+                rows={3}
+                className="w-full px-4 py-3 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent outline-none resize-none"
+                placeholder="What the client said… (tomorrow, 30-06-2026 for URGENT follow-up)"
+              />
+              <button
+                type="button"
+                onClick={handleAddImportantNote}
+                disabled={savingNotes || !newNoteDraft.trim()}
+                className="mt-3 px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 flex items-center gap-2"
+              >
+                <Plus className="w-4 h-4" />
+                {savingNotes ? 'Adding...' : 'Add note'}
+              </button>
+            </div>
+          )}
         </div>
 
         {/* Payment Section */}
+        {canViewPayments && (
         <div className="mb-6 p-5 bg-gradient-to-br from-green-50/50 to-white rounded-xl border border-gray-200 shadow-sm">
           {(() => {
             const remainingAmount = (clientData.payment?.totalFee || 0) - (clientData.payment?.paidAmount || 0);
@@ -2589,7 +2633,7 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                     <span>Payments</span>
                   </h3>
                   <div className="flex flex-wrap items-center justify-end gap-2">
-                    {remainingAmount > 0 && (
+                    {remainingAmount > 0 && canEditClients && (
                       <button
                         onClick={handleOpenReminderCalendar}
                         className={`px-3 py-2 text-sm rounded-lg transition-colors flex items-center space-x-2 ${
@@ -2609,28 +2653,32 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                         )}
                       </button>
                     )}
-                    <button
-                      type="button"
-                      onClick={() => {
-                        if (showEditPaymentSummary) setShowEditPaymentSummary(false);
-                        else openEditPaymentSummary();
-                      }}
-                      className="px-4 py-2 bg-white border border-green-600 text-green-700 text-sm rounded-lg hover:bg-green-50 transition-colors flex items-center space-x-2"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                      <span>{showEditPaymentSummary ? 'Close editor' : 'Edit summary'}</span>
-                    </button>
-                    <button
-                      onClick={() => {
-                        setShowPaymentForm(!showPaymentForm);
-                        setShowEditPaymentSummary(false);
-                        setEditingPaymentIndex(null);
-                      }}
-                      className="px-4 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2"
-                    >
-                      <Plus className="w-4 h-4" />
-                      <span>Add Payment</span>
-                    </button>
+                    {canEditPayments && (
+                      <>
+                        <button
+                          type="button"
+                          onClick={() => {
+                            if (showEditPaymentSummary) setShowEditPaymentSummary(false);
+                            else openEditPaymentSummary();
+                          }}
+                          className="px-4 py-2 bg-white border border-green-600 text-green-700 text-sm rounded-lg hover:bg-green-50 transition-colors flex items-center space-x-2"
+                        >
+                          <Edit2 className="w-4 h-4" />
+                          <span>{showEditPaymentSummary ? 'Close editor' : 'Edit summary'}</span>
+                        </button>
+                        <button
+                          onClick={() => {
+                            setShowPaymentForm(!showPaymentForm);
+                            setShowEditPaymentSummary(false);
+                            setEditingPaymentIndex(null);
+                          }}
+                          className="px-4 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2"
+                        >
+                          <Plus className="w-4 h-4" />
+                          <span>Add Payment</span>
+                        </button>
+                      </>
+                    )}
                   </div>
                 </div>
 
@@ -2850,18 +2898,20 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                             {payment.note && <span className="text-gray-500 ml-2">- {payment.note}</span>}
                             <div className="text-gray-500 text-xs mt-1">{new Date(payment.date).toLocaleString()}</div>
                           </div>
-                          <button
-                            type="button"
-                            onClick={() => {
-                              setShowPaymentForm(false);
-                              setShowEditPaymentSummary(false);
-                              openEditPaymentLine(index);
-                            }}
-                            className="shrink-0 px-2 py-1 text-green-700 bg-green-50 hover:bg-green-100 rounded-lg flex items-center gap-1 text-xs font-medium"
-                          >
-                            <Edit2 className="w-3.5 h-3.5" />
-                            Edit
-                          </button>
+                          {canEditPayments && (
+                            <button
+                              type="button"
+                              onClick={() => {
+                                setShowPaymentForm(false);
+                                setShowEditPaymentSummary(false);
+                                openEditPaymentLine(index);
+                              }}
+                              className="shrink-0 px-2 py-1 text-green-700 bg-green-50 hover:bg-green-100 rounded-lg flex items-center gap-1 text-xs font-medium"
+                            >
+                              <Edit2 className="w-3.5 h-3.5" />
+                              Edit
+                            </button>
+                          )}
                         </div>
                       )}
                     </div>
@@ -2874,6 +2924,15 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
             );
           })()}
         </div>
+        )}
+
+        <SmartUploadReviewPanel
+          client={clientData}
+          items={smartUploadReview}
+          reviewerName={currentUserName.trim() || 'Unknown'}
+          onReviewed={handleSmartUploadReviewed}
+          onDismiss={() => setSmartUploadReview([])}
+        />
 
         {/* All Documents — drag & drop smart upload only */}
         <div className="mb-6 p-5 bg-gradient-to-br from-slate-50/80 to-white rounded-xl border border-gray-200 shadow-sm">
@@ -2886,7 +2945,7 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
               Unrecognized files stay here after auto-sort (up to 15).
             </p>
           </div>
-          {allDocumentsCount < 15 && (
+          {allDocumentsCount < 15 && canEditClients && (
             <label
               className={`block mb-4 px-4 py-10 text-center rounded-xl border-2 border-dashed transition-colors ${smartDropZoneClass(
                 allDocumentsUploadDisabled
@@ -2909,11 +2968,14 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                 onChange={handleAllDocumentsFileChange}
               />
               {uploadingAllDocuments ? (
-                <p className="text-sm font-medium text-amber-800">
-                  {smartUploadProgress
-                    ? `Sorting ${smartUploadProgress.current} of ${smartUploadProgress.total}…`
-                    : 'Sorting files…'}
-                </p>
+                <div className="space-y-3 text-left">
+                  {smartUploads.map((item) => (
+                    <SmartUploadRow key={item.key} item={item} />
+                  ))}
+                  {(smartUploadSorting || smartUploads.length === 0) && (
+                    <p className="text-sm font-medium text-amber-800 text-center">Sorting files…</p>
+                  )}
+                </div>
               ) : (
                 <>
                   <Upload
@@ -2978,14 +3040,16 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                           </button>
                         </>
                       ) : null}
-                      <button
-                        type="button"
-                        onClick={() => handleRemoveAdditionalDocument(doc.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg border border-red-200"
-                        title="Remove"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                      {canEditClients && (
+                        <button
+                          type="button"
+                          onClick={() => handleRemoveCollectionDocument('additional_documents', doc.id)}
+                          className="p-2 text-red-600 hover:bg-red-50 rounded-lg border border-red-200"
+                          title="Remove"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -3007,7 +3071,7 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
                   <span>Required Documents</span>
                 </h3>
                 <div className="flex items-center space-x-2">
-                  {clientData.required_documents && clientData.required_documents.length > 0 && (
+                  {canEditClients && clientData.required_documents && clientData.required_documents.length > 0 && (
                     <>
                       {(() => {
                         const allDocuments = clientData.required_documents.map((d: any) => d.code);
@@ -3127,1448 +3191,330 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
               )}
             </div>
             {totalSubmittedDocs > 0 && (
+              <div className="flex items-center gap-2">
               <button
-                onClick={handleDownloadAllAsZip}
-                disabled={downloadingZip}
-                className="px-4 py-2 bg-slate-900 text-white text-sm rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                onClick={() => setShowBundleBuilder(true)}
+                className="px-4 py-2 bg-white text-slate-800 text-sm rounded-lg border border-slate-300 hover:bg-slate-50 transition-colors flex items-center space-x-2"
+                title="One indexed PDF for filing"
               >
-                {downloadingZip ? (
-                  <>
-                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-                    <span>Creating ZIP...</span>
-                  </>
-                ) : (
-                  <>
-                    <Archive className="w-4 h-4" />
-                    <span>Download All ({totalSubmittedDocs})</span>
-                  </>
-                )}
+                <BookOpen className="w-4 h-4" />
+                <span>Expediente PDF</span>
+              </button>
+              <button
+                onClick={handleDownloadAllAsZip}
+                disabled={downloadingZip}
+                className="px-4 py-2 bg-slate-900 text-white text-sm rounded-lg hover:bg-slate-800 transition-colors disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+              >
+                {downloadingZip ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
+                    <span>Creating ZIP...</span>
+                  </>
+                ) : (
+                  <>
+                    <Archive className="w-4 h-4" />
+                    <span>Download All ({totalSubmittedDocs})</span>
+                  </>
+                )}
               </button>
-            )}
-          </div>
-          {!clientData.required_documents || clientData.required_documents.length === 0 ? (
-            <div className="text-center py-8 text-gray-500">
-              <FileText className="w-12 h-12 mx-auto mb-3 text-gray-400" />
-              <p>No documents required for this client.</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {clientData.required_documents.map((doc: RequiredDocument, index) => (
-                <div
-                  key={doc.code || index}
-                  draggable
-                  onDragStart={() => handleDragStart(index)}
-                  onDragOver={(e) => handleDragOver(e, index)}
-                  onDragLeave={handleDragLeave}
-                  onDrop={(e) => handleDrop(e, index)}
-                  onDragEnd={handleDragEnd}
-                  className={`border-2 rounded-xl p-5 transition-all shadow-sm hover:shadow-md cursor-move ${
-                    draggedIndex === index
-                      ? 'opacity-50 border-blue-400 bg-blue-50'
-                      : dragOverIndex === index
-                      ? 'border-blue-400 bg-blue-50 scale-105'
-                      : selectedDocuments.has(doc.code || '')
-                      ? 'border-blue-400 bg-blue-50'
-                      : doc.submitted
-                      ? 'border-emerald-300 bg-gradient-to-br from-emerald-50 to-white'
-                      : doc.isOptional
-                      ? 'border-gray-300 bg-gradient-to-br from-gray-50 to-white'
-                      : 'border-red-300 bg-gradient-to-br from-red-50 to-white'
-                  }`}
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex items-center space-x-2 mr-3">
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          handleToggleDocumentSelection(doc.code || '');
-                        }}
-                        className="p-1 hover:bg-gray-100 rounded transition-colors flex-shrink-0"
-                        title={selectedDocuments.has(doc.code || '') ? 'Deselect' : 'Select'}
-                      >
-                        {selectedDocuments.has(doc.code || '') ? (
-                          <CheckSquare className="w-5 h-5 text-blue-600" />
-                        ) : (
-                          <Square className="w-5 h-5 text-gray-400" />
-                        )}
-                      </button>
-                      <div className="cursor-grab active:cursor-grabbing">
-                        <GripVertical className="w-5 h-5 text-gray-400 hover:text-gray-600" />
-                      </div>
-                    </div>
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-3 mb-3">
-                        {doc.submitted ? (
-                          <div className="flex items-center justify-center w-8 h-8 rounded-full bg-emerald-100">
-                            <CheckCircle className="w-5 h-5 text-emerald-600" />
-                          </div>
-                        ) : (
-                          <div className="flex items-center justify-center w-8 h-8 rounded-full bg-red-100">
-                            <XCircle className="w-5 h-5 text-red-600" />
-                          </div>
-                        )}
-                        <div className="flex-1">
-                          <div className="flex items-center space-x-2">
-                            <h4 className={`font-semibold text-base ${
-                              doc.submitted ? 'text-slate-900' : 'text-red-900'
-                            }`}>
-                              {doc.name}
-                            </h4>
-                            {doc.isOptional && (
-                              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-700">
-                                Optional
-                              </span>
-                            )}
-                          </div>
-                          {doc.submitted ? (
-                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-700 mt-1">
-                              ✓ Submitted
-                            </span>
-                          ) : (
-                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold mt-1 ${
-                              doc.isOptional 
-                                ? 'bg-gray-100 text-gray-700' 
-                                : 'bg-red-100 text-red-700'
-                            }`}>
-                              ✗ Pending
-                            </span>
-                          )}
-                        </div>
-                      </div>
-                      {doc.description && (
-                        <p className={`text-sm mb-3 ml-11 ${
-                          doc.submitted ? 'text-slate-600' : 'text-red-700/80'
-                        }`}>
-                          {doc.description}
-                        </p>
-                      )}
-                      <div className="ml-11 space-y-1">
-                        {doc.code && (
-                          <p className={`text-xs font-medium ${
-                            doc.submitted ? 'text-slate-500' : 'text-red-600/70'
-                          }`}>
-                            Code: <span className="font-mono">{doc.code}</span>
-                          </p>
-                        )}
-                        {doc.submitted && doc.uploadedAt && (
-                          <p className="text-xs text-slate-500">
-                            Uploaded: <span className="font-medium">{new Date(doc.uploadedAt).toLocaleDateString()}</span>
-                            {doc.uploadedBy && (
-                              <span className="ml-2">by <span className="font-medium">{doc.uploadedBy}</span></span>
-                            )}
-                          </p>
-                        )}
-                        {doc.submitted && doc.fileName && (
-                          <p className="text-xs text-slate-500">
-                            File: <span className="font-medium">{doc.fileName}</span> 
-                            {doc.fileSize && (
-                              <span className="text-slate-400"> ({`${(doc.fileSize / 1024).toFixed(2)} KB`})</span>
-                            )}
-                          </p>
-                        )}
-                        {!doc.submitted && (
-                          <p className="text-xs font-medium text-red-600 flex items-center space-x-1">
-                            <AlertCircle className="w-3.5 h-3.5" />
-                            <span>Document not submitted</span>
-                          </p>
-                        )}
-                      </div>
-                    </div>
-                    <div className="flex items-center space-x-2 ml-4">
-                      <button
-                        onClick={() => handleToggleOptional(doc.code, doc.isOptional || false)}
-                        className={`p-2 rounded-lg transition-colors border ${
-                          doc.isOptional
-                            ? 'text-blue-600 hover:bg-blue-50 border-blue-200 hover:border-blue-300'
-                            : 'text-gray-600 hover:bg-gray-50 border-gray-200 hover:border-gray-300'
-                        }`}
-                        title={doc.isOptional ? 'Mark as Required' : 'Mark as Optional'}
-                      >
-                        {doc.isOptional ? (
-                          <ToggleRight className="w-5 h-5" />
-                        ) : (
-                          <ToggleLeft className="w-5 h-5" />
-                        )}
-                      </button>
-                      {doc.submitted && doc.fileUrl ? (
-                        <>
-                          <button
-                            onClick={() => handleViewDocument(doc.fileUrl!, doc.fileName || 'document')}
-                            className="p-2.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300"
-                            title="View Document"
-                          >
-                            <Eye className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDownload(doc.fileUrl!, doc.fileName || 'document')}
-                            className="p-2.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300"
-                            title="Download"
-                          >
-                            <Download className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleRemoveDocument(doc.code)}
-                            className="p-2.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300"
-                            title="Remove"
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </button>
-                        </>
-                      ) : (
-                        <label className="cursor-pointer">
-                          <input
-                            type="file"
-                            className="hidden"
-                            onChange={(e) => {
-                              const file = e.target.files?.[0];
-                              if (file) {
-                                handleFileUpload(doc.code, file);
-                              }
-                            }}
-                            disabled={uploading === doc.code}
-                          />
-                          <div
-                            className={`px-4 py-2.5 rounded-lg transition-all flex items-center space-x-2 font-medium text-sm ${
-                              uploading === doc.code
-                                ? 'bg-slate-100 text-slate-400 cursor-not-allowed border border-slate-200'
-                                : 'bg-red-600 text-white hover:bg-red-700 cursor-pointer shadow-md hover:shadow-lg border border-red-700'
-                            }`}
-                          >
-                            {uploading === doc.code ? (
-                              <>
-                                <div className="animate-spin rounded-full h-4 w-4 border-2 border-slate-400 border-t-transparent"></div>
-                                <span>Uploading...</span>
-                              </>
-                            ) : (
-                              <>
-                                <Upload className="w-4 h-4" />
-                                <span>Upload Document</span>
-                              </>
-                            )}
-                          </div>
-                        </label>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-
-        {/* Additional Documents */}
-        <div className="mb-6 p-5 bg-gradient-to-br from-purple-50/50 to-white rounded-xl border border-gray-200 shadow-sm">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
-              <div className="w-1 h-6 bg-gradient-to-b from-purple-600 to-pink-600 rounded-full"></div>
-              <span>Additional Documents</span>
-            </h3>
-            <button
-              onClick={() => setShowAdditionalDocForm(!showAdditionalDocForm)}
-              className="px-4 py-2 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 transition-colors flex items-center space-x-2"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Document</span>
-            </button>
-          </div>
-
-          {showAdditionalDocForm && (
-            <form onSubmit={handleUploadAdditionalDocument} className="mb-4 p-4 bg-purple-50 rounded-lg border border-purple-200">
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Document Name *</label>
-                  <input
-                    type="text"
-                    id="additional-doc-name"
-                    name="additional_doc_name"
-                    required
-                    value={additionalDocForm.name}
-                    onChange={(e) => setAdditionalDocForm({ ...additionalDocForm, name: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none"
-                    placeholder="e.g., Additional Certificate"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
-                  <input
-                    type="text"
-                    id="additional-doc-description"
-                    name="additional_doc_description"
-                    value={additionalDocForm.description}
-                    onChange={(e) => setAdditionalDocForm({ ...additionalDocForm, description: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none"
-                    placeholder="Brief description"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Reminder Days (default: 10)</label>
-                  <input
-                    type="number"
-                    id="additional-doc-reminder-days"
-                    name="additional_doc_reminder_days"
-                    min="1"
-                    value={additionalDocForm.reminder_days}
-                    onChange={(e) => setAdditionalDocForm({ ...additionalDocForm, reminder_days: parseInt(e.target.value) || 10 })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none"
-                    placeholder="10"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">File (optional - can upload later)</label>
-                  <input
-                    type="file"
-                    id="additional-doc-file"
-                    name="additional_doc_file"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) {
-                        setAdditionalDocForm({ ...additionalDocForm, file });
-                      }
-                    }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 outline-none"
-                  />
-                </div>
-              </div>
-              <div className="flex justify-end space-x-2 mt-3">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setShowAdditionalDocForm(false);
-                    setAdditionalDocForm({ name: '', description: '', file: null, reminder_days: 10 });
-                    setEditingAdditionalDoc(null);
-                  }}
-                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors text-sm"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  disabled={uploading === 'additional'}
-                  className="px-4 py-2 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors text-sm disabled:opacity-50"
-                >
-                  {uploading === 'additional' ? 'Saving...' : editingAdditionalDoc ? 'Update' : 'Create Document'}
-                </button>
-              </div>
-            </form>
-          )}
-
-          {standardAdditionalDocs.length === 0 ? (
-            <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
-              <FileText className="w-12 h-12 mx-auto mb-3 text-gray-400" />
-              <p>No additional documents uploaded yet.</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {standardAdditionalDocs.map((doc: AdditionalDocument) => (
-                <div
-                  key={doc.id}
-                  className="border-2 border-purple-300 bg-gradient-to-br from-purple-50 to-white rounded-xl p-4 shadow-sm hover:shadow-md transition-all"
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <FileText className="w-5 h-5 text-purple-600" />
-                        <h4 className="font-semibold text-gray-900">{doc.name}</h4>
-                      </div>
-                      {doc.description && (
-                        <p className="text-sm text-gray-600 mb-2">{doc.description}</p>
-                      )}
-                      {doc.fileUrl && doc.fileName ? (
-                        <>
-                          <p className="text-xs text-gray-500">
-                            File: {doc.fileName} ({doc.fileSize ? `${(doc.fileSize / 1024).toFixed(2)} KB` : 'N/A'})
-                          </p>
-                          <p className="text-xs text-gray-500 mt-1">
-                            Uploaded: {doc.uploadedAt ? new Date(doc.uploadedAt).toLocaleDateString() : 'N/A'}
-                            {doc.uploadedBy && (
-                              <span className="ml-2">by <span className="font-medium">{doc.uploadedBy}</span></span>
-                            )}
-                          </p>
-                        </>
-                      ) : (
-                        <p className="text-xs text-amber-600 font-medium">File not uploaded yet</p>
-                      )}
-                      {!doc.fileUrl && doc.reminder_days && (
-                        <p className="text-xs text-blue-600 mt-1 flex items-center space-x-1">
-                          <Clock className="w-3 h-3" />
-                          <span>Reminder: {doc.reminder_days} days</span>
-                          {doc.reminder_date && (
-                            <span className="text-gray-500">
-                              (Due: {new Date(doc.reminder_date).toLocaleDateString()})
-                            </span>
-                          )}
-                        </p>
-                      )}
-                    </div>
-                    <div className="flex items-center space-x-2 ml-4">
-                      {doc.fileUrl ? (
-                        <>
-                          <button
-                            onClick={() => handleViewDocument(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300"
-                            title="View Document"
-                          >
-                            <Eye className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDownload(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300"
-                            title="Download"
-                          >
-                            <Download className="w-4 h-4" />
-                          </button>
-                          <label className="cursor-pointer">
-                            <input
-                              type="file"
-                              className="hidden"
-                              onChange={async (e) => {
-                                const file = e.target.files?.[0];
-                                if (file && currentUserName) {
-                                  setUploading('additional');
-                                  try {
-                                    await api.uploadAdditionalDocumentFile(client.id, doc.id, file, currentUserName);
-                                    await loadClient();
-                                    onSuccess();
-                                    showToast('File re-uploaded successfully', 'success');
-                                  } catch (error: any) {
-                                    showToast(error.message || 'Failed to re-upload file', 'error');
-                                  } finally {
-                                    setUploading(null);
-                                  }
-                                }
-                              }}
-                              disabled={uploading === 'additional'}
-                            />
-                            <div className="px-3 py-2 text-xs font-medium text-purple-600 hover:text-purple-700 hover:bg-purple-50 rounded-lg transition-colors border border-purple-200 hover:border-purple-300">
-                              <Upload className="w-4 h-4 inline mr-1" />
-                              Re-upload
-                            </div>
-                          </label>
-                        </>
-                      ) : (
-                        <label className="cursor-pointer">
-                          <input
-                            type="file"
-                            className="hidden"
-                            onChange={async (e) => {
-                              const file = e.target.files?.[0];
-                              if (file && currentUserName) {
-                                setUploading('additional');
-                                try {
-                                  await api.uploadAdditionalDocumentFile(client.id, doc.id, file, currentUserName);
-                                  await loadClient();
-                                  onSuccess();
-                                  showToast('File uploaded successfully', 'success');
-                                } catch (error: any) {
-                                  showToast(error.message || 'Failed to upload file', 'error');
-                                } finally {
-                                  setUploading(null);
-                                }
-                              }
-                            }}
-                            disabled={uploading === 'additional'}
-                          />
-                          <div className="px-3 py-2 text-xs font-medium text-white bg-purple-600 hover:bg-purple-700 rounded-lg transition-colors border border-purple-700">
-                            <Upload className="w-4 h-4 inline mr-1" />
-                            Upload File
-                          </div>
-                        </label>
-                      )}
-                      <button
-                        onClick={() => {
-                          setEditingAdditionalDoc(doc.id);
-                          setAdditionalDocForm({
-                            name: doc.name,
-                            description: doc.description || '',
-                            file: null,
-                            reminder_days: doc.reminder_days || 10,
-                          });
-                          setShowAdditionalDocForm(true);
-                        }}
-                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors border border-amber-200 hover:border-amber-300"
-                        title="Edit Reminder"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleRemoveAdditionalDocument(doc.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300"
-                        title="Remove"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-
-        {/* JUSTIFICANTE DE PRESENTACION Section */}
-        <div className="mb-6 p-5 bg-gradient-to-br from-indigo-50/50 to-white rounded-xl border border-gray-200 shadow-sm">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
-              <div className="w-1 h-6 bg-gradient-to-b from-indigo-600 to-purple-600 rounded-full"></div>
-              <span>JUSTIFICANTE DE PRESENTACION</span>
-            </h3>
-            <button
-              onClick={() => setShowJustificanteForm(!showJustificanteForm)}
-              className="px-4 py-2 bg-indigo-600 text-white text-sm rounded-lg hover:bg-indigo-700 transition-colors flex items-center space-x-2"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Document</span>
-            </button>
-          </div>
-
-          {showJustificanteForm && (
-            <form onSubmit={handleUploadJustificante} className="mb-4 p-4 bg-indigo-50 rounded-lg border border-indigo-200">
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Document Name *</label>
-                  <input
-                    type="text"
-                    required
-                    value={justificanteForm.name}
-                    onChange={(e) => setJustificanteForm({ ...justificanteForm, name: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-                    placeholder="e.g., Justificante de Presentación"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
-                  <input
-                    type="text"
-                    value={justificanteForm.description}
-                    onChange={(e) => setJustificanteForm({ ...justificanteForm, description: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-                    placeholder="Brief description"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Reminder Days (default: 10)</label>
-                  <input
-                    type="number"
-                    min="1"
-                    value={justificanteForm.reminder_days}
-                    onChange={(e) => setJustificanteForm({ ...justificanteForm, reminder_days: parseInt(e.target.value) || 10 })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-                    placeholder="10"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">File (optional - can upload later)</label>
-                  <input
-                    type="file"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) {
-                        setJustificanteForm({ ...justificanteForm, file });
-                      }
-                    }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-indigo-500 outline-none"
-                  />
-                </div>
-              </div>
-              <div className="flex justify-end space-x-2 mt-3">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setShowJustificanteForm(false);
-                    setJustificanteForm({ name: '', description: '', file: null, reminder_days: 10 });
-                    setEditingJustificanteDoc(null);
-                  }}
-                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors text-sm"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  disabled={uploading === 'justificante'}
-                  className="px-4 py-2 bg-indigo-600 text-white rounded-lg hover:bg-indigo-700 transition-colors text-sm disabled:opacity-50"
-                >
-                  {uploading === 'justificante' ? 'Saving...' : editingJustificanteDoc ? 'Update' : 'Create Document'}
-                </button>
-              </div>
-            </form>
-          )}
-
-          {!clientData.justificante_presentacion || clientData.justificante_presentacion.length === 0 ? (
-            <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
-              <FileText className="w-12 h-12 mx-auto mb-3 text-gray-400" />
-              <p>No documents uploaded yet.</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {clientData.justificante_presentacion.map((doc: AdditionalDocument) => (
-                <div
-                  key={doc.id}
-                  className="border-2 border-indigo-300 bg-gradient-to-br from-indigo-50 to-white rounded-xl p-4 shadow-sm hover:shadow-md transition-all"
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <FileText className="w-5 h-5 text-indigo-600" />
-                        <h4 className="font-semibold text-gray-900">{doc.name}</h4>
-                      </div>
-                      {doc.description && (
-                        <p className="text-sm text-gray-600 mb-2">{doc.description}</p>
-                      )}
-                      {doc.fileUrl && doc.fileName ? (
-                        <>
-                          <p className="text-xs text-gray-500">
-                            File: {doc.fileName} ({doc.fileSize ? `${(doc.fileSize / 1024).toFixed(2)} KB` : 'N/A'})
-                          </p>
-                          <p className="text-xs text-gray-500 mt-1">
-                            Uploaded: {doc.uploadedAt ? new Date(doc.uploadedAt).toLocaleDateString() : 'N/A'}
-                            {doc.uploadedBy && (
-                              <span className="ml-2">by <span className="font-medium">{doc.uploadedBy}</span></span>
-                            )}
-                          </p>
-                        </>
-                      ) : (
-                        <p className="text-xs text-amber-600 font-medium">File not uploaded yet</p>
-                      )}
-                      {!doc.fileUrl && doc.reminder_days && (
-                        <p className="text-xs text-blue-600 mt-1 flex items-center space-x-1">
-                          <Clock className="w-3 h-3" />
-                          <span>Reminder: {doc.reminder_days} days</span>
-                          {doc.reminder_date && (
-                            <span className="text-gray-500">
-                              (Due: {new Date(doc.reminder_date).toLocaleDateString()})
-                            </span>
-                          )}
-                        </p>
-                      )}
-                    </div>
-                    <div className="flex items-center space-x-2 ml-4">
-                      {doc.fileUrl ? (
-                        <>
-                          <button
-                            onClick={() => handleViewDocument(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300"
-                            title="View Document"
-                          >
-                            <Eye className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDownload(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300"
-                            title="Download"
-                          >
-                            <Download className="w-4 h-4" />
-                          </button>
-                          <label className="cursor-pointer">
-                            <input
-                              type="file"
-                              className="hidden"
-                              onChange={async (e) => {
-                                const file = e.target.files?.[0];
-                                if (file && currentUserName) {
-                                  setUploading('justificante');
-                                  try {
-                                    await api.uploadJustificanteFile(client.id, doc.id, file, currentUserName);
-                                    await loadClient();
-                                    onSuccess();
-                                    showToast('File re-uploaded successfully', 'success');
-                                  } catch (error: any) {
-                                    showToast(error.message || 'Failed to re-upload file', 'error');
-                                  } finally {
-                                    setUploading(null);
-                                  }
-                                }
-                              }}
-                              disabled={uploading === 'justificante'}
-                            />
-                            <div className="px-3 py-2 text-xs font-medium text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 rounded-lg transition-colors border border-indigo-200 hover:border-indigo-300">
-                              <Upload className="w-4 h-4 inline mr-1" />
-                              Re-upload
-                            </div>
-                          </label>
-                        </>
-                      ) : (
-                        <label className="cursor-pointer">
-                          <input
-                            type="file"
-                            className="hidden"
-                            onChange={async (e) => {
-                              const file = e.target.files?.[0];
-                              if (file && currentUserName) {
-                                setUploading('justificante');
-                                try {
-                                  await api.uploadJustificanteFile(client.id, doc.id, file, currentUserName);
-                                  await loadClient();
-                                  onSuccess();
-                                  showToast('File uploaded successfully', 'success');
-                                } catch (error: any) {
-                                  showToast(error.message || 'Failed to upload file', 'error');
-                                } finally {
-                                  setUploading(null);
-                                }
-                              }
-                            }}
-                            disabled={uploading === 'justificante'}
-                          />
-                          <div className="px-3 py-2 text-xs font-medium text-white bg-indigo-600 hover:bg-indigo-700 rounded-lg transition-colors border border-indigo-700">
-                            <Upload className="w-4 h-4 inline mr-1" />
-                            Upload File
-                          </div>
-                        </label>
-                      )}
-                      <button
-                        onClick={() => {
-                          setEditingJustificanteDoc(doc.id);
-                          setJustificanteForm({
-                            name: doc.name,
-                            description: doc.description || '',
-                            file: null,
-                            reminder_days: doc.reminder_days || 10,
-                          });
-                          setShowJustificanteForm(true);
-                        }}
-                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors border border-amber-200 hover:border-amber-300"
-                        title="Edit Reminder"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleRemoveJustificante(doc.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300"
-                        title="Remove"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-
-        {/* APORTAR DOCUMENTACIÓN Section */}
-        <div className="mb-6 p-5 bg-gradient-to-br from-blue-50/50 to-white rounded-xl border border-gray-200 shadow-sm">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
-              <div className="w-1 h-6 bg-gradient-to-b from-blue-600 to-cyan-600 rounded-full"></div>
-              <span>APORTAR DOCUMENTACIÓN</span>
-            </h3>
-            <button
-              onClick={() => setShowAportarDocForm(!showAportarDocForm)}
-              className="px-4 py-2 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Document</span>
-            </button>
-          </div>
-
-          {showAportarDocForm && (
-            <form onSubmit={handleUploadAportarDocumentacion} className="mb-4 p-4 bg-blue-50 rounded-lg border border-blue-200">
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Document Name *</label>
-                  <input
-                    type="text"
-                    id="aportar-doc-name"
-                    name="aportar_doc_name"
-                    required
-                    value={aportarDocForm.name}
-                    onChange={(e) => setAportarDocForm({ ...aportarDocForm, name: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                    placeholder="e.g., Additional Certificate"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
-                  <input
-                    type="text"
-                    id="aportar-doc-description"
-                    name="aportar_doc_description"
-                    value={aportarDocForm.description}
-                    onChange={(e) => setAportarDocForm({ ...aportarDocForm, description: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                    placeholder="Brief description"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Reminder Days (default: 10)</label>
-                  <input
-                    type="number"
-                    id="aportar-doc-reminder-days"
-                    name="aportar_doc_reminder_days"
-                    min="1"
-                    value={aportarDocForm.reminder_days}
-                    onChange={(e) => setAportarDocForm({ ...aportarDocForm, reminder_days: parseInt(e.target.value) || 10 })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                    placeholder="10"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">File (optional - can upload later)</label>
-                  <input
-                    type="file"
-                    id="aportar-doc-file"
-                    name="aportar_doc_file"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) {
-                        setAportarDocForm({ ...aportarDocForm, file });
-                      }
-                    }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 outline-none"
-                  />
-                </div>
-              </div>
-              <div className="flex justify-end space-x-2 mt-3">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setShowAportarDocForm(false);
-                    setAportarDocForm({ name: '', description: '', file: null, reminder_days: 10 });
-                    setEditingAportarDoc(null);
-                  }}
-                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors text-sm"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  disabled={uploading === 'aportar'}
-                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors text-sm disabled:opacity-50"
-                >
-                  {uploading === 'aportar' ? 'Saving...' : editingAportarDoc ? 'Update' : 'Create Document'}
-                </button>
-              </div>
-            </form>
-          )}
-
-          {!clientData.aportar_documentacion || clientData.aportar_documentacion.length === 0 ? (
-            <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
-              <FileText className="w-12 h-12 mx-auto mb-3 text-gray-400" />
-              <p>No documents uploaded yet.</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {clientData.aportar_documentacion.map((doc: AdditionalDocument) => (
-                <div
-                  key={doc.id}
-                  className="border-2 border-blue-300 bg-gradient-to-br from-blue-50 to-white rounded-xl p-4 shadow-sm hover:shadow-md transition-all"
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <FileText className="w-5 h-5 text-blue-600" />
-                        <h4 className="font-semibold text-gray-900">{doc.name}</h4>
-                      </div>
-                      {doc.description && (
-                        <p className="text-sm text-gray-600 mb-2">{doc.description}</p>
-                      )}
-                      {doc.fileUrl && doc.fileName ? (
-                        <>
-                          <p className="text-xs text-gray-500">
-                            File: {doc.fileName} ({doc.fileSize ? `${(doc.fileSize / 1024).toFixed(2)} KB` : 'N/A'})
-                          </p>
-                          <p className="text-xs text-gray-500 mt-1">
-                            Uploaded: {doc.uploadedAt ? new Date(doc.uploadedAt).toLocaleDateString() : 'N/A'}
-                            {doc.uploadedBy && (
-                              <span className="ml-2">by <span className="font-medium">{doc.uploadedBy}</span></span>
-                            )}
-                          </p>
-                        </>
-                      ) : (
-                        <p className="text-xs text-amber-600 font-medium">File not uploaded yet</p>
-                      )}
-                      {!doc.fileUrl && doc.reminder_days && (
-                        <p className="text-xs text-blue-600 mt-1 flex items-center space-x-1">
-                          <Clock className="w-3 h-3" />
-                          <span>Reminder: {doc.reminder_days} days</span>
-                          {doc.reminder_date && (
-                            <span className="text-gray-500">
-                              (Due: {new Date(doc.reminder_date).toLocaleDateString()})
-                            </span>
-                          )}
-                        </p>
-                      )}
-                    </div>
-                    <div className="flex items-center space-x-2 ml-4">
-                      {doc.fileUrl ? (
-                        <>
-                          <button
-                            onClick={() => handleViewDocument(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300"
-                            title="View Document"
-                          >
-                            <Eye className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDownload(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300"
-                            title="Download"
-                          >
-                            <Download className="w-4 h-4" />
-                          </button>
-                          <label className="cursor-pointer">
-                            <input
-                              type="file"
-                              className="hidden"
-                              onChange={async (e) => {
-                                const file = e.target.files?.[0];
-                                if (file && currentUserName) {
-                                  setUploading('aportar');
-                                  try {
-                                    await api.uploadAportarDocumentacionFile(client.id, doc.id, file, currentUserName);
-                                    await loadClient();
-                                    onSuccess();
-                                    showToast('File re-uploaded successfully', 'success');
-                                  } catch (error: any) {
-                                    showToast(error.message || 'Failed to re-upload file', 'error');
-                                  } finally {
-                                    setUploading(null);
-                                  }
-                                }
-                              }}
-                              disabled={uploading === 'aportar'}
-                            />
-                            <div className="px-3 py-2 text-xs font-medium text-blue-600 hover:text-blue-700 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300">
-                              <Upload className="w-4 h-4 inline mr-1" />
-                              Re-upload
-                            </div>
-                          </label>
-                        </>
-                      ) : (
-                        <label className="cursor-pointer">
-                          <input
-                            type="file"
-                            className="hidden"
-                            onChange={async (e) => {
-                              const file = e.target.files?.[0];
-                              if (file && currentUserName) {
-                                setUploading('aportar');
-                                try {
-                                  await api.uploadAportarDocumentacionFile(client.id, doc.id, file, currentUserName);
-                                  await loadClient();
-                                  onSuccess();
-                                  showToast('File uploaded successfully', 'success');
-                                } catch (error: any) {
-                                  showToast(error.message || 'Failed to upload file', 'error');
-                                } finally {
-                                  setUploading(null);
-                                }
-                              }
-                            }}
-                            disabled={uploading === 'aportar'}
-                          />
-                          <div className="px-3 py-2 text-xs font-medium text-white bg-blue-600 hover:bg-blue-700 rounded-lg transition-colors border border-blue-700">
-                            <Upload className="w-4 h-4 inline mr-1" />
-                            Upload File
-                          </div>
-                        </label>
-                      )}
-                      <button
-                        onClick={() => {
-                          setEditingAportarDoc(doc.id);
-                          setAportarDocForm({
-                            name: doc.name,
-                            description: doc.description || '',
-                            file: null,
-                            reminder_days: doc.reminder_days || 10,
-                          });
-                          setShowAportarDocForm(true);
-                        }}
-                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors border border-amber-200 hover:border-amber-300"
-                        title="Edit Reminder"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleRemoveAportarDocumentacion(doc.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300"
-                        title="Remove"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-
-        {/* REQUERIMIENTO Section */}
-        <div className="mb-6 p-5 bg-gradient-to-br from-amber-50/50 to-white rounded-xl border border-gray-200 shadow-sm">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
-              <div className="w-1 h-6 bg-gradient-to-b from-amber-600 to-orange-600 rounded-full"></div>
-              <span>REQUERIMIENTO</span>
-            </h3>
-            <button
-              onClick={() => setShowRequerimientoForm(!showRequerimientoForm)}
-              className="px-4 py-2 bg-amber-600 text-white text-sm rounded-lg hover:bg-amber-700 transition-colors flex items-center space-x-2"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Document</span>
-            </button>
-          </div>
-
-          {showRequerimientoForm && (
-            <form onSubmit={handleUploadRequerimiento} className="mb-4 p-4 bg-amber-50 rounded-lg border border-amber-200">
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Document Name *</label>
-                  <input
-                    type="text"
-                    required
-                    value={requerimientoForm.name}
-                    onChange={(e) => setRequerimientoForm({ ...requerimientoForm, name: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none"
-                    placeholder="e.g., Requirement Document"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
-                  <input
-                    type="text"
-                    value={requerimientoForm.description}
-                    onChange={(e) => setRequerimientoForm({ ...requerimientoForm, description: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none"
-                    placeholder="Brief description"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Reminder Days (default: 10)</label>
-                  <input
-                    type="number"
-                    min="1"
-                    value={requerimientoForm.reminder_days}
-                    onChange={(e) => setRequerimientoForm({ ...requerimientoForm, reminder_days: parseInt(e.target.value) || 10 })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none"
-                    placeholder="10"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">File (optional - can upload later)</label>
-                  <input
-                    type="file"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) {
-                        setRequerimientoForm({ ...requerimientoForm, file });
-                      }
-                    }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none"
-                  />
-                </div>
-              </div>
-              <div className="flex justify-end space-x-2 mt-3">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setShowRequerimientoForm(false);
-                    setRequerimientoForm({ name: '', description: '', file: null, reminder_days: 10 });
-                    setEditingRequerimientoDoc(null);
-                  }}
-                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors text-sm"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  disabled={uploading === 'requerimiento'}
-                  className="px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors text-sm disabled:opacity-50"
-                >
-                  {uploading === 'requerimiento' ? 'Saving...' : editingRequerimientoDoc ? 'Update' : 'Create Document'}
-                </button>
-              </div>
-            </form>
-          )}
-
-          {!clientData.requerimiento || clientData.requerimiento.length === 0 ? (
-            <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
-              <FileText className="w-12 h-12 mx-auto mb-3 text-gray-400" />
-              <p>No documents uploaded yet.</p>
-            </div>
-          ) : (
-            <div className="space-y-3">
-              {clientData.requerimiento.map((doc: AdditionalDocument) => (
-                <div
-                  key={doc.id}
-                  className="border-2 border-amber-300 bg-gradient-to-br from-amber-50 to-white rounded-xl p-4 shadow-sm hover:shadow-md transition-all"
-                >
-                  <div className="flex items-start justify-between">
-                    <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <FileText className="w-5 h-5 text-amber-600" />
-                        <h4 className="font-semibold text-gray-900">{doc.name}</h4>
-                      </div>
-                      {doc.description && (
-                        <p className="text-sm text-gray-600 mb-2">{doc.description}</p>
-                      )}
-                      {doc.fileUrl && doc.fileName ? (
-                        <>
-                          <p className="text-xs text-gray-500">
-                            File: {doc.fileName} ({doc.fileSize ? `${(doc.fileSize / 1024).toFixed(2)} KB` : 'N/A'})
-                          </p>
-                          <p className="text-xs text-gray-500 mt-1">
-                            Uploaded: {doc.uploadedAt ? new Date(doc.uploadedAt).toLocaleDateString() : 'N/A'}
-                            {doc.uploadedBy && (
-                              <span className="ml-2">by <span className="font-medium">{doc.uploadedBy}</span></span>
-                            )}
-                          </p>
-                        </>
-                      ) : (
-                        <p className="text-xs text-amber-600 font-medium">File not uploaded yet</p>
-                      )}
-                      {!doc.fileUrl && doc.reminder_days && (
-                        <p className="text-xs text-blue-600 mt-1 flex items-center space-x-1">
-                          <Clock className="w-3 h-3" />
-                          <span>Reminder: {doc.reminder_days} days</span>
-                          {doc.reminder_date && (
-                            <span className="text-gray-500">
-                              (Due: {new Date(doc.reminder_date).toLocaleDateString()})
-                            </span>
-                          )}
-                        </p>
-                      )}
-                    </div>
-                    <div className="flex items-center space-x-2 ml-4">
-                      {doc.fileUrl ? (
-                        <>
-                          <button
-                            onClick={() => handleViewDocument(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300"
-                            title="View Document"
-                          >
-                            <Eye className="w-4 h-4" />
-                          </button>
-                          <button
-                            onClick={() => handleDownload(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300"
-                            title="Download"
-                          >
-                            <Download className="w-4 h-4" />
-                          </button>
-                          <label className="cursor-pointer">
-                            <input
-                              type="file"
-                              className="hidden"
-                              onChange={async (e) => {
-                                const file = e.target.files?.[0];
-                                if (file && currentUserName) {
-                                  setUploading('requerimiento');
-                                  try {
-                                    await api.uploadRequerimientoFile(client.id, doc.id, file, currentUserName);
-                                    await loadClient();
-                                    onSuccess();
-                                    showToast('File re-uploaded successfully', 'success');
-                                  } catch (error: any) {
-                                    showToast(error.message || 'Failed to re-upload file', 'error');
-                                  } finally {
-                                    setUploading(null);
-                                  }
-                                }
-                              }}
-                              disabled={uploading === 'requerimiento'}
-                            />
-                            <div className="px-3 py-2 text-xs font-medium text-amber-600 hover:text-amber-700 hover:bg-amber-50 rounded-lg transition-colors border border-amber-200 hover:border-amber-300">
-                              <Upload className="w-4 h-4 inline mr-1" />
-                              Re-upload
-                            </div>
-                          </label>
-                        </>
-                      ) : (
-                        <label className="cursor-pointer">
-                          <input
-                            type="file"
-                            className="hidden"
-                            onChange={async (e) => {
-                              const file = e.target.files?.[0];
-                              if (file && currentUserName) {
-                                setUploading('requerimiento');
-                                try {
-                                  await api.uploadRequerimientoFile(client.id, doc.id, file, currentUserName);
-                                  await loadClient();
-                                  onSuccess();
-                                  showToast('File uploaded successfully', 'success');
-                                } catch (error: any) {
-                                  showToast(error.message || 'Failed to upload file', 'error');
-                                } finally {
-                                  setUploading(null);
-                                }
-                              }
-                            }}
-                            disabled={uploading === 'requerimiento'}
-                          />
-                          <div className="px-3 py-2 text-xs font-medium text-white bg-amber-600 hover:bg-amber-700 rounded-lg transition-colors border border-amber-700">
-                            <Upload className="w-4 h-4 inline mr-1" />
-                            Upload File
-                          </div>
-                        </label>
-                      )}
-                      <button
-                        onClick={() => {
-                          setEditingRequerimientoDoc(doc.id);
-                          setRequerimientoForm({
-                            name: doc.name,
-                            description: doc.description || '',
-                            file: null,
-                            reminder_days: doc.reminder_days || 10,
-                          });
-                          setShowRequerimientoForm(true);
-                        }}
-                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors border border-amber-200 hover:border-amber-300"
-                        title="Edit Reminder"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleRemoveRequerimiento(doc.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300"
-                        title="Remove"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              ))}
-            </div>
-          )}
-        </div>
-
-        {/* RESOLUCIÓN Section */}
-        <div className="mb-6 p-5 bg-gradient-to-br from-green-50/50 to-white rounded-xl border border-gray-200 shadow-sm">
-          <div className="flex justify-between items-center mb-4">
-            <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
-              <div className="w-1 h-6 bg-gradient-to-b from-green-600 to-emerald-600 rounded-full"></div>
-              <span>RESOLUCIÓN</span>
-            </h3>
-            <button
-              onClick={() => setShowResolucionForm(!showResolucionForm)}
-              className="px-4 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors flex items-center space-x-2"
-            >
-              <Plus className="w-4 h-4" />
-              <span>Add Document</span>
-            </button>
-          </div>
-
-          {showResolucionForm && (
-            <form onSubmit={handleUploadResolucion} className="mb-4 p-4 bg-green-50 rounded-lg border border-green-200">
-              <div className="space-y-3">
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Document Name *</label>
-                  <input
-                    type="text"
-                    required
-                    value={resolucionForm.name}
-                    onChange={(e) => setResolucionForm({ ...resolucionForm, name: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
-                    placeholder="e.g., Resolution Document"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
-                  <input
-                    type="text"
-                    value={resolucionForm.description}
-                    onChange={(e) => setResolucionForm({ ...resolucionForm, description: e.target.value })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
-                    placeholder="Brief description"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">Reminder Days (default: 10)</label>
-                  <input
-                    type="number"
-                    min="1"
-                    value={resolucionForm.reminder_days}
-                    onChange={(e) => setResolucionForm({ ...resolucionForm, reminder_days: parseInt(e.target.value) || 10 })}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
-                    placeholder="10"
-                  />
-                </div>
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">File (optional - can upload later)</label>
-                  <input
-                    type="file"
-                    onChange={(e) => {
-                      const file = e.target.files?.[0];
-                      if (file) {
-                        setResolucionForm({ ...resolucionForm, file });
-                      }
-                    }}
-                    className="w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-green-500 outline-none"
-                  />
-                </div>
-              </div>
-              <div className="flex justify-end space-x-2 mt-3">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setShowResolucionForm(false);
-                    setResolucionForm({ name: '', description: '', file: null, reminder_days: 10 });
-                    setEditingResolucionDoc(null);
-                  }}
-                  className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors text-sm"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  disabled={uploading === 'resolucion'}
-                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors text-sm disabled:opacity-50"
-                >
-                  {uploading === 'resolucion' ? 'Saving...' : editingResolucionDoc ? 'Update' : 'Create Document'}
-                </button>
               </div>
-            </form>
-          )}
-
-          {!clientData.resolucion || clientData.resolucion.length === 0 ? (
-            <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
+            )}
+          </div>
+          {!clientData.required_documents || clientData.required_documents.length === 0 ? (
+            <div className="text-center py-8 text-gray-500">
               <FileText className="w-12 h-12 mx-auto mb-3 text-gray-400" />
-              <p>No documents uploaded yet.</p>
+              <p>No documents required for this client.</p>
             </div>
           ) : (
             <div className="space-y-3">
-              {clientData.resolucion.map((doc: AdditionalDocument) => (
+              {clientData.required_documents.map((doc: RequiredDocument, index) => (
                 <div
-                  key={doc.id}
-                  className="border-2 border-green-300 bg-gradient-to-br from-green-50 to-white rounded-xl p-4 shadow-sm hover:shadow-md transition-all"
+                  key={doc.code || index}
+                  draggable={canEditClients}
+                  onDragStart={() => handleDragStart(index)}
+                  onDragOver={(e) => handleDragOver(e, index)}
+                  onDragLeave={handleDragLeave}
+                  onDrop={(e) => handleDrop(e, index)}
+                  onDragEnd={handleDragEnd}
+                  className={`border-2 rounded-xl p-5 transition-all shadow-sm hover:shadow-md ${canEditClients ? 'cursor-move' : ''} ${
+                    draggedIndex === index
+                      ? 'opacity-50 border-blue-400 bg-blue-50'
+                      : dragOverIndex === index
+                      ? 'border-blue-400 bg-blue-50 scale-105'
+                      : selectedDocuments.has(doc.code || '')
+                      ? 'border-blue-400 bg-blue-50'
+                      : doc.submitted
+                      ? 'border-emerald-300 bg-gradient-to-br from-emerald-50 to-white'
+                      : doc.isOptional
+                      ? 'border-gray-300 bg-gradient-to-br from-gray-50 to-white'
+                      : 'border-red-300 bg-gradient-to-br from-red-50 to-white'
+                  }`}
                 >
                   <div className="flex items-start justify-between">
+                    {canEditClients && (
+                      <div className="flex items-center space-x-2 mr-3">
+                        <button
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleToggleDocumentSelection(doc.code || '');
+                          }}
+                          className="p-1 hover:bg-gray-100 rounded transition-colors flex-shrink-0"
+                          title={selectedDocuments.has(doc.code || '') ? 'Deselect' : 'Select'}
+                        >
+                          {selectedDocuments.has(doc.code || '') ? (
+                            <CheckSquare className="w-5 h-5 text-blue-600" />
+                          ) : (
+                            <Square className="w-5 h-5 text-gray-400" />
+                          )}
+                        </button>
+                        <div className="cursor-grab active:cursor-grabbing">
+                          <GripVertical className="w-5 h-5 text-gray-400 hover:text-gray-600" />
+                        </div>
+                      </div>
+                    )}
                     <div className="flex-1">
-                      <div className="flex items-center space-x-2 mb-2">
-                        <FileText className="w-5 h-5 text-green-600" />
-                        <h4 className="font-semibold text-gray-900">{doc.name}</h4>
+                      <div className="flex items-center space-x-3 mb-3">
+                        {doc.submitted ? (
+                          <div className="flex items-center justify-center w-8 h-8 rounded-full bg-emerald-100">
+                            <CheckCircle className="w-5 h-5 text-emerald-600" />
+                          </div>
+                        ) : (
+                          <div className="flex items-center justify-center w-8 h-8 rounded-full bg-red-100">
+                            <XCircle className="w-5 h-5 text-red-600" />
+                          </div>
+                        )}
+                        <div className="flex-1">
+                          <div className="flex items-center space-x-2">
+                            <h4 className={`font-semibold text-base ${
+                              doc.submitted ? 'text-slate-900' : 'text-red-900'
+                            }`}>
+                              {doc.name}
+                            </h4>
+                            {doc.isOptional && (
+                              <span className="inline-flex items-center px-2 py-0.5 rounded-full text-xs font-semibold bg-blue-100 text-blue-700">
+                                Optional
+                              </span>
+                            )}
+                          </div>
+                          {doc.submitted ? (
+                            <span className="inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold bg-emerald-100 text-emerald-700 mt-1">
+                              ✓ Submitted
+                            </span>
+                          ) : (
+                            <span className={`inline-flex items-center px-2.5 py-0.5 rounded-full text-xs font-semibold mt-1 ${
+                              doc.isOptional 
+                                ? 'bg-gray-100 text-gray-700' 
+                                : 'bg-red-100 text-red-700'
+                            }`}>
+                              ✗ Pending
+                            </span>
+                          )}
+                        </div>
                       </div>
                       {doc.description && (
-                        <p className="text-sm text-gray-600 mb-2">{doc.description}</p>
+                        <p className={`text-sm mb-3 ml-11 ${
+                          doc.submitted ? 'text-slate-600' : 'text-red-700/80'
+                        }`}>
+                          {doc.description}
+                        </p>
                       )}
-                      {doc.fileUrl && doc.fileName ? (
-                        <>
-                          <p className="text-xs text-gray-500">
-                            File: {doc.fileName} ({doc.fileSize ? `${(doc.fileSize / 1024).toFixed(2)} KB` : 'N/A'})
+                      <div className="ml-11 space-y-1">
+                        {doc.code && (
+                          <p className={`text-xs font-medium ${
+                            doc.submitted ? 'text-slate-500' : 'text-red-600/70'
+                          }`}>
+                            Code: <span className="font-mono">{doc.code}</span>
+                          </p>
+                        )}
+                        {conditionLabels.has(doc.code) && (
+                          <p className="text-xs font-medium text-indigo-600">{conditionLabels.get(doc.code)}</p>
+                        )}
+                        {doc.sharedFrom && (
+                          <p className="text-xs font-medium text-teal-700">
+                            Shared from {sharedSourceNames.get(doc.code) || 'a family member'}
                           </p>
-                          <p className="text-xs text-gray-500 mt-1">
-                            Uploaded: {doc.uploadedAt ? new Date(doc.uploadedAt).toLocaleDateString() : 'N/A'}
+                        )}
+                        {doc.submitted && doc.uploadedAt && (
+                          <p className="text-xs text-slate-500">
+                            Uploaded: <span className="font-medium">{new Date(doc.uploadedAt).toLocaleDateString()}</span>
                             {doc.uploadedBy && (
                               <span className="ml-2">by <span className="font-medium">{doc.uploadedBy}</span></span>
                             )}
                           </p>
-                        </>
-                      ) : (
-                        <p className="text-xs text-amber-600 font-medium">File not uploaded yet</p>
-                      )}
-                      {!doc.fileUrl && doc.reminder_days && (
-                        <p className="text-xs text-blue-600 mt-1 flex items-center space-x-1">
-                          <Clock className="w-3 h-3" />
-                          <span>Reminder: {doc.reminder_days} days</span>
-                          {doc.reminder_date && (
-                            <span className="text-gray-500">
-                              (Due: {new Date(doc.reminder_date).toLocaleDateString()})
-                            </span>
-                          )}
-                        </p>
-                      )}
+                        )}
+                        {doc.submitted && doc.fileName && (
+                          <p className="text-xs text-slate-500">
+                            File: <span className="font-medium">{doc.fileName}</span> 
+                            {doc.fileSize && (
+                              <span className="text-slate-400"> ({`${(doc.fileSize / 1024).toFixed(2)} KB`})</span>
+                            )}
+                          </p>
+                        )}
+                        {doc.submitted && editingDocumentDates?.code !== doc.code && (
+                          <p className="text-xs flex items-center flex-wrap gap-2">
+                            {documentExpiries.has(doc.code) && (
+                              <span
+                                className={`inline-flex items-center px-2 py-0.5 rounded-full font-semibold ${
+                                  EXPIRY_BADGE_CLASSES[documentExpiries.get(doc.code)!.status]
+                                }`}
+                              >
+                                <Clock className="w-3 h-3 mr-1" />
+                                {describeDocumentExpiry(documentExpiries.get(doc.code)!)}
+                              </span>
+                            )}
+                            {doc.issuedAt && (
+                              <span className="text-slate-500">
+                                Issued: <span className="font-medium">{new Date(doc.issuedAt).toLocaleDateString()}</span>
+                              </span>
+                            )}
+                            {canEditClients && (
+                              <button
+                                onClick={() =>
+                                  setEditingDocumentDates({
+                                    code: doc.code,
+                                    issuedAt: doc.issuedAt?.split('T')[0] || '',
+                                    expiresAt: doc.expiresAt?.split('T')[0] || '',
+                                  })
+                                }
+                                className="text-blue-600 hover:underline"
+                              >
+                                {doc.issuedAt || doc.expiresAt ? 'Edit dates' : 'Set issue/expiry date'}
+                              </button>
+                            )}
+                          </p>
+                        )}
+                        {doc.submitted && editingDocumentDates?.code === doc.code && (
+                          <div className="flex items-end flex-wrap gap-2 pt-1">
+                            <label className="text-xs text-slate-600">
+                              Issued
+                              <input
+                                type="date"
+                                value={editingDocumentDates.issuedAt}
+                                onChange={(e) => setEditingDocumentDates({ ...editingDocumentDates, issuedAt: e.target.value })}
+                                className="block mt-0.5 px-2 py-1 text-xs border border-gray-300 rounded-lg"
+                              />
+                            </label>
+                            <label className="text-xs text-slate-600">
+                              Expires
+                              <input
+                                type="date"
+                                value={editingDocumentDates.expiresAt}
+                                onChange={(e) => setEditingDocumentDates({ ...editingDocumentDates, expiresAt: e.target.value })}
+                                className="block mt-0.5 px-2 py-1 text-xs border border-gray-300 rounded-lg"
+                              />
+                            </label>
+                            <button
+                              onClick={() => void handleSaveDocumentDates()}
+                              disabled={savingDocumentDates}
+                              className="px-2.5 py-1 text-xs font-medium text-white bg-blue-600 rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                            >
+                              {savingDocumentDates ? 'Saving...' : 'Save'}
+                            </button>
+                            <button
+                              onClick={() => setEditingDocumentDates(null)}
+                              disabled={savingDocumentDates}
+                              className="px-2.5 py-1 text-xs font-medium text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors"
+                            >
+                              Cancel
+                            </button>
+                          </div>
+                        )}
+                        {!doc.submitted && (
+                          <p className="text-xs font-medium text-red-600 flex items-center space-x-1">
+                            <AlertCircle className="w-3.5 h-3.5" />
+                            <span>Document not submitted</span>
+                          </p>
+                        )}
+                      </div>
                     </div>
                     <div className="flex items-center space-x-2 ml-4">
-                      {doc.fileUrl ? (
+                      {canEditClients && (
+                        <button
+                          onClick={() => handleToggleOptional(doc.code, doc.isOptional || false)}
+                          className={`p-2 rounded-lg transition-colors border ${
+                            doc.isOptional
+                              ? 'text-blue-600 hover:bg-blue-50 border-blue-200 hover:border-blue-300'
+                              : 'text-gray-600 hover:bg-gray-50 border-gray-200 hover:border-gray-300'
+                          }`}
+                          title={doc.isOptional ? 'Mark as Required' : 'Mark as Optional'}
+                        >
+                          {doc.isOptional ? (
+                            <ToggleRight className="w-5 h-5" />
+                          ) : (
+                            <ToggleLeft className="w-5 h-5" />
+                          )}
+                        </button>
+                      )}
+                      {doc.submitted && doc.fileUrl ? (
                         <>
                           <button
-                            onClick={() => handleViewDocument(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300"
+                            onClick={() => handleViewDocument(doc.fileUrl!, doc.fileName || 'document')}
+                            className="p-2.5 text-green-600 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300"
                             title="View Document"
                           >
                             <Eye className="w-4 h-4" />
                           </button>
                           <button
-                            onClick={() => handleDownload(doc.fileUrl!, doc.fileName!)}
-                            className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300"
+                            onClick={() => handleDownload(doc.fileUrl!, doc.fileName || 'document')}
+                            className="p-2.5 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300"
                             title="Download"
                           >
                             <Download className="w-4 h-4" />
                           </button>
-                          <label className="cursor-pointer">
-                            <input
-                              type="file"
-                              className="hidden"
-                              onChange={async (e) => {
-                                const file = e.target.files?.[0];
-                                if (file && currentUserName) {
-                                  setUploading('resolucion');
-                                  try {
-                                    await api.uploadResolucionFile(client.id, doc.id, file, currentUserName);
-                                    await loadClient();
-                                    onSuccess();
-                                    showToast('File re-uploaded successfully', 'success');
-                                  } catch (error: any) {
-                                    showToast(error.message || 'Failed to re-upload file', 'error');
-                                  } finally {
-                                    setUploading(null);
-                                  }
-                                }
-                              }}
-                              disabled={uploading === 'resolucion'}
-                            />
-                            <div className="px-3 py-2 text-xs font-medium text-green-600 hover:text-green-700 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300">
-                              <Upload className="w-4 h-4 inline mr-1" />
-                              Re-upload
-                            </div>
-                          </label>
+                          {canEditClients && (
+                            <button
+                              onClick={() => handleRemoveDocument(doc.code)}
+                              className="p-2.5 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300"
+                              title="Remove"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </button>
+                          )}
                         </>
-                      ) : (
+                      ) : canEditClients ? (
+                        <>
+                        <button
+                          onClick={() => setWorkbenchDocument(doc)}
+                          disabled={uploading === doc.code}
+                          className="p-2.5 text-slate-600 hover:bg-slate-50 rounded-lg transition-colors border border-slate-200 hover:border-slate-300 disabled:opacity-50"
+                          title="Combine photos / PDF pages before uploading"
+                        >
+                          <Layers className="w-4 h-4" />
+                        </button>
                         <label className="cursor-pointer">
                           <input
                             type="file"
                             className="hidden"
-                            onChange={async (e) => {
+                            onChange={(e) => {
                               const file = e.target.files?.[0];
-                              if (file && currentUserName) {
-                                setUploading('resolucion');
-                                try {
-                                  await api.uploadResolucionFile(client.id, doc.id, file, currentUserName);
-                                  await loadClient();
-                                  onSuccess();
-                                  showToast('File uploaded successfully', 'success');
-                                } catch (error: any) {
-                                  showToast(error.message || 'Failed to upload file', 'error');
-                                } finally {
-                                  setUploading(null);
-                                }
+                              if (file) {
+                                handleFileUpload(doc.code, file);
                               }
                             }}
-                            disabled={uploading === 'resolucion'}
+                            disabled={uploading === doc.code}
                           />
-                          <div className="px-3 py-2 text-xs font-medium text-white bg-green-600 hover:bg-green-700 rounded-lg transition-colors border border-green-700">
-                            <Upload className="w-4 h-4 inline mr-1" />
-                            Upload File
+                          <div
+                            className={`px-4 py-2.5 rounded-lg transition-all flex items-center space-x-2 font-medium text-sm ${
+                              uploading === doc.code
+                                ? 'bg-slate-100 text-slate-400 cursor-not-allowed border border-slate-200'
+                                : 'bg-red-600 text-white hover:bg-red-700 cursor-pointer shadow-md hover:shadow-lg border border-red-700'
+                            }`}
+                          >
+                            {uploading === doc.code ? (
+                              <>
+                                <div className="animate-spin rounded-full h-4 w-4 border-2 border-slate-400 border-t-transparent"></div>
+                                <span>Uploading...</span>
+                              </>
+                            ) : (
+                              <>
+                                <Upload className="w-4 h-4" />
+                                <span>Upload Document</span>
+                              </>
+                            )}
                           </div>
                         </label>
-                      )}
-                      <button
-                        onClick={() => {
-                          setEditingResolucionDoc(doc.id);
-                          setResolucionForm({
-                            name: doc.name,
-                            description: doc.description || '',
-                            file: null,
-                            reminder_days: doc.reminder_days || 10,
-                          });
-                          setShowResolucionForm(true);
-                        }}
-                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors border border-amber-200 hover:border-amber-300"
-                        title="Edit Reminder"
-                      >
-                        <Edit2 className="w-4 h-4" />
-                      </button>
-                      <button
-                        onClick={() => handleRemoveResolucion(doc.id)}
-                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300"
-                        title="Remove"
-                      >
-                        <Trash2 className="w-4 h-4" />
-                      </button>
+                        </>
+                      ) : null}
                     </div>
                   </div>
                 </div>
@@ -4577,28 +3523,63 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
           )}
         </div>
 
+        {CLIENT_DOCUMENT_SECTIONS.map((kind) => (
+          <DocumentCollectionSection
+            key={kind}
+            kind={kind}
+            client={clientData}
+            currentUserName={currentUserName}
+            onChanged={async () => {
+              await loadClient();
+              await onSuccess();
+            }}
+            onError={setError}
+            onView={handleViewDocument}
+            onDownload={handleDownload}
+            onRemove={handleRemoveCollectionDocument}
+          />
+        ))}
+            </div>
+
+            {activeTab === 'activity' && (
+              <ClientActivityTimeline clientId={client.id} clientSlug={getClientFileStorageSlug(clientData)} />
+            )}
           </div>
         </div>
         
         {/* Fixed Footer */}
         <div className="flex-shrink-0 flex justify-between items-center p-6 border-t border-gray-200 bg-gradient-to-r from-gray-50 to-white rounded-b-2xl">
-          <button
-            onClick={handleDeleteClient}
-            disabled={deleting}
-            className="px-6 py-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-all duration-200 font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2 shadow-lg shadow-red-600/20 hover:shadow-xl hover:shadow-red-600/30"
-          >
-            {deleting ? (
-              <>
-                <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-                <span>Deleting...</span>
-              </>
-            ) : (
-              <>
+          <div className="flex items-center gap-3">
+            {canDeleteClients && (
+              <button
+                onClick={() => setShowErasure(true)}
+                className="px-6 py-3 bg-red-600 text-white rounded-xl hover:bg-red-700 transition-all duration-200 font-semibold flex items-center space-x-2 shadow-lg shadow-red-600/20 hover:shadow-xl hover:shadow-red-600/30"
+              >
                 <Trash2 className="w-4 h-4" />
-                <span>Delete Client</span>
-              </>
+                <span>Erase Client</span>
+              </button>
             )}
-          </button>
+            {canExportData && (
+              <button
+                onClick={handleExportClientData}
+                disabled={exportingData}
+                className="px-6 py-3 bg-white text-slate-800 border border-slate-300 rounded-xl hover:bg-slate-50 transition-all duration-200 font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center space-x-2"
+                title="Everything held on this client, for a data access request"
+              >
+                {exportingData ? (
+                  <>
+                    <div className="animate-spin rounded-full h-4 w-4 border-2 border-slate-700 border-t-transparent"></div>
+                    <span>Exporting...</span>
+                  </>
+                ) : (
+                  <>
+                    <FileDown className="w-4 h-4" />
+                    <span>Export Data</span>
+                  </>
+                )}
+              </button>
+            )}
+          </div>
           <button
             onClick={onClose}
             className="px-6 py-3 bg-gray-100 text-gray-700 rounded-xl hover:bg-gray-200 transition-all duration-200 font-semibold shadow-sm hover:shadow-md"
@@ -4940,11 +3921,79 @@ function ClientDetailsModal({ client, onClose, onSuccess }: Props) {
         title={confirmDialog.title}
         message={confirmDialog.message}
         type={confirmDialog.type}
-        confirmText="Confirm"
+        confirmText={confirmDialog.confirmText || 'Confirm'}
         cancelText="Cancel"
         onConfirm={confirmDialog.onConfirm}
         onCancel={() => setConfirmDialog({ ...confirmDialog, isOpen: false })}
       />
+
+      {showErasure && (
+        <ClientErasureDialog
+          client={clientData}
+          onErased={() => {
+            showToast(`Client ${formatClientFullName(clientData)} erased`, 'success');
+            setShowErasure(false);
+            onSuccess();
+            onClose();
+          }}
+          onClose={() => setShowErasure(false)}
+        />
+      )}
+
+      <ExpedienteBundleModal
+        isOpen={showBundleBuilder}
+        client={clientData}
+        preparedBy={currentUserName.trim() || 'Unknown'}
+        fetchFile={async (fileUrl) => (await fetchAuthenticatedFileBlob(fileUrl)).blob}
+        onClose={() => setShowBundleBuilder(false)}
+        onSaved={async () => {
+          await loadClient();
+          onSuccess();
+        }}
+      />
+
+      <DocumentWorkbench
+        isOpen={workbenchDocument !== null}
+        targetName={workbenchDocument?.name || ''}
+        onClose={() => setWorkbenchDocument(null)}
+        onSave={async (file) => {
+          if (workbenchDocument) await handleFileUpload(workbenchDocument.code, file);
+        }}
+      />
+
+      {uploadCheckDialog}
+
+      {mergeConflict?.field === 'notes' && notesMerge && (
+        <MergeConflictDialog
+          isOpen
+          title="Important notes were changed by someone else"
+          mine={parseImportantNotes(mergeConflict.mine)}
+          theirs={parseImportantNotes(mergeConflict.current.notes || '')}
+          merge={notesMerge}
+          renderItem={(entry) => (
+            <span className="whitespace-pre-wrap">
+              {entry.dateLabel && <span className="font-medium text-gray-500 mr-1">[{entry.dateLabel}]</span>}
+              {entry.text}
+            </span>
+          )}
+          saving={resolvingConflict}
+          onResolve={(resolution) => void handleResolveMergeConflict(resolution)}
+          onCancel={() => setMergeConflict(null)}
+        />
+      )}
+      {mergeConflict?.field === 'payments' && paymentsMerge && (
+        <MergeConflictDialog
+          isOpen
+          title="Payments were changed by someone else"
+          mine={mergeConflict.mine}
+          theirs={mergeConflict.current.payment?.payments || []}
+          merge={paymentsMerge}
+          renderItem={formatPaymentLine}
+          saving={resolvingConflict}
+          onResolve={(resolution) => void handleResolveMergeConflict(resolution)}
+          onCancel={() => setMergeConflict(null)}
+        />
+      )}
     </div>
   );
 }
@@ -0,0 +1,140 @@
+import { useState } from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { Client, ClientErasureRecord, ErasureReason } from '../types';
+import { api } from '../utils/api';
+import { formatClientFullName } from '../utils/clientNames';
+import { ERASURE_REASON_LABELS, getClientFiles, getFamilyLinkedClients, getSharedDocumentReferences } from '../utils/dataProtection';
+import { useData } from '../context/DataContext';
+import { usePermissions } from '../context/PermissionsContext';
+
+interface Props {
+  client: Client;
+  defaultReason?: ErasureReason;
+  onErased: (record: ClientErasureRecord) => void;
+  onClose: () => void;
+}
+
+/**
+ * Confirms and runs the GDPR erasure of a client: record and files go, a tombstone stays.
+ * Family members' links to the client and to the client's uploads are removed first, so their
+ * family view and checklists don't point at a deleted client or deleted files.
+ */
+export default function ClientErasureDialog({ client, defaultReason = 'data_subject_request', onErased, onClose }: Props) {
+  const { clients, refreshClients } = useData();
+  const { currentUser } = usePermissions();
+  const [reason, setReason] = useState<ErasureReason>(defaultReason);
+  const [acknowledged, setAcknowledged] = useState(false);
+  const [erasing, setErasing] = useState(false);
+  const [error, setError] = useState('');
+
+  const fileCount = getClientFiles(client).length;
+  const paymentCount = client.payment?.payments?.length || 0;
+  const references = getSharedDocumentReferences(client, clients);
+  const linkedRelatives = getFamilyLinkedClients(client, clients);
+  const affectedRelatives = [
+    ...new Set([...references.map((ref) => formatClientFullName(ref.client)), ...linkedRelatives.map(formatClientFullName)]),
+  ];
+
+  const handleErase = async () => {
+    setErasing(true);
+    setError('');
+    try {
+      const actor = currentUser?.name || currentUser?.email || 'Unknown';
+      const steps = [
+        ...references.map((ref) => ({
+          relative: formatClientFullName(ref.client),
+          run: () => api.unshareDocument(ref.client.id, ref.document.code, actor),
+        })),
+        ...linkedRelatives.map((relative) => ({
+          relative: formatClientFullName(relative),
+          run: () => api.removeFamilyLinkTo(relative.id, client.id),
+        })),
+      ];
+      if (steps.length > 0) {
+        const results = await Promise.allSettled(steps.map((step) => step.run()));
+        const failed = new Set(steps.filter((_, index) => results[index].status === 'rejected').map((step) => step.relative));
+        if (failed.size > 0) {
+          // The unlinks that went through are saved; say so rather than claim nothing changed
+          const changed = new Set(steps.filter((_, index) => results[index].status === 'fulfilled').map((step) => step.relative));
+          void refreshClients();
+          throw new Error(
+            `Could not unlink ${formatClientFullName(client)} from ${[...failed].join(', ')}, so the client was not erased.` +
+              (changed.size > 0 ? ` Links to the client were already removed from ${[...changed].join(', ')}.` : '') +
+              ' Please try again.'
+          );
+        }
+      }
+      const record = await api.eraseClient(client.id, reason);
+      if (steps.length > 0) void refreshClients();
+      onErased(record);
+    } catch (eraseError: any) {
+      setError(eraseError.message || 'Failed to erase client');
+      setErasing(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000] p-4 animate-fade-in">
+      <div className="bg-red-50 border-red-200 rounded-2xl shadow-2xl border-2 max-w-md w-full p-6 animate-scale-in">
+        <div className="flex items-start space-x-4">
+          <div className="text-red-600 flex-shrink-0">
+            <AlertTriangle className="w-6 h-6" />
+          </div>
+          <div className="flex-1 space-y-4">
+            <div>
+              <h3 className="text-red-900 font-bold text-lg mb-2">Erase {formatClientFullName(client)}</h3>
+              <p className="text-gray-700 text-sm">
+                Permanently deletes the client record, {fileCount} uploaded file{fileCount === 1 ? '' : 's'}, {paymentCount} payment
+                {paymentCount === 1 ? '' : 's'} and all notes. Only an anonymous erasure record is kept for the audit trail.
+              </p>
+              {affectedRelatives.length > 0 && (
+                <p className="text-gray-700 text-sm mt-2">
+                  Shared documents and family links will also be removed from {affectedRelatives.join(', ')}.
+                </p>
+              )}
+            </div>
+
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reason</label>
+              <select
+                value={reason}
+                onChange={(e) => setReason(e.target.value as ErasureReason)}
+                className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white focus:ring-2 focus:ring-red-500 outline-none"
+              >
+                {(Object.keys(ERASURE_REASON_LABELS) as ErasureReason[]).map((value) => (
+                  <option key={value} value={value}>
+                    {ERASURE_REASON_LABELS[value]}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            <label className="flex items-start gap-2 text-sm text-gray-700">
+              <input type="checkbox" className="mt-0.5" checked={acknowledged} onChange={(e) => setAcknowledged(e.target.checked)} />
+              <span>I understand this cannot be undone. If the client asked for a copy, I have exported their data first.</span>
+            </label>
+
+            {error && <p className="text-sm text-red-700">{error}</p>}
+
+            <div className="flex items-center justify-end space-x-3">
+              <button
+                onClick={onClose}
+                disabled={erasing}
+                className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleErase}
+                disabled={!acknowledged || erasing}
+                className="bg-red-600 hover:bg-red-700 text-white px-4 py-2 text-sm font-medium rounded-lg transition-colors disabled:opacity-60"
+              >
+                {erasing ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Erase permanently'}
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { useEffect, useState } from 'react';
+import { Users } from 'lucide-react';
+import { api } from '../utils/api';
+import { subscribeToRealtime } from '../utils/realtime';
+
+type Props = {
+  clientId: string;
+  currentUserName: string;
+};
+
+const HEARTBEAT_INTERVAL = 20 * 1000;
+// Drop a viewer we haven't heard from in a couple of heartbeats (closed tab, lost connection)
+const PRESENCE_TIMEOUT = 45 * 1000;
+
+/** Announces that this client file is open and shows who else has it open right now. */
+export default function ClientPresenceIndicator({ clientId, currentUserName }: Props) {
+  const [others, setOthers] = useState<Record<string, number>>({});
+
+  useEffect(() => {
+    if (!currentUserName) return;
+    void api.sendClientPresence(clientId, currentUserName, true);
+    const heartbeat = setInterval(() => {
+      void api.sendClientPresence(clientId, currentUserName, true);
+    }, HEARTBEAT_INTERVAL);
+    return () => {
+      clearInterval(heartbeat);
+      void api.sendClientPresence(clientId, currentUserName, false);
+    };
+  }, [clientId, currentUserName]);
+
+  useEffect(() => {
+    setOthers({});
+    const unsubscribe = subscribeToRealtime((event) => {
+      if (event.kind !== 'presence' || event.client_id !== clientId || event.user === currentUserName) return;
+      setOthers((prev) => {
+        const next = { ...prev };
+        if (event.editing) next[event.user] = Date.now();
+        else delete next[event.user];
+        return next;
+      });
+    });
+    const sweep = setInterval(() => {
+      setOthers((prev) => {
+        const cutoff = Date.now() - PRESENCE_TIMEOUT;
+        const active = Object.entries(prev).filter(([, seenAt]) => seenAt >= cutoff);
+        return active.length === Object.keys(prev).length ? prev : Object.fromEntries(active);
+      });
+    }, HEARTBEAT_INTERVAL);
+    return () => {
+      unsubscribe();
+      clearInterval(sweep);
+    };
+  }, [clientId, currentUserName]);
+
+  const names = Object.keys(others);
+  if (names.length === 0) return null;
+
+  return (
+    <div className="flex items-center space-x-2 px-3 py-2 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+      <Users className="w-4 h-4 flex-shrink-0" />
+      <span>
+        <span className="font-semibold">{names.join(', ')}</span>{' '}
+        {names.length === 1 ? 'is' : 'are'} also editing this client. Changes may overwrite each other.
+      </span>
+    </div>
+  );
+}
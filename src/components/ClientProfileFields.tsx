@@ -0,0 +1,189 @@
+import { useMemo } from 'react';
+import { SPANISH_PROVINCES } from '../data/spanishProvinces';
+import { CIVIL_STATUS_LABELS, RELATIONSHIP_LABELS } from '../utils/documentConditions';
+import {
+  ClientProfileErrors,
+  ClientProfileForm,
+  getCountryOptions,
+  provinceFromPostalCode,
+  validateSpanishId,
+} from '../utils/clientProfile';
+
+interface Props {
+  value: ClientProfileForm;
+  onChange: (value: ClientProfileForm) => void;
+  errors?: ClientProfileErrors;
+  /** Input styling of the surrounding form. */
+  inputClassName: string;
+  labelClassName: string;
+}
+
+/** Identity and Spanish address fields, shared by the new-client form and the client info editor. */
+export default function ClientProfileFields({ value, onChange, errors = {}, inputClassName, labelClassName }: Props) {
+  const countries = useMemo(getCountryOptions, []);
+  const set = <K extends keyof ClientProfileForm>(field: K, fieldValue: ClientProfileForm[K]) =>
+    onChange({ ...value, [field]: fieldValue });
+
+  const idType = value.nie.trim() ? validateSpanishId(value.nie).type : null;
+  const passportExpired = Boolean(value.passportExpiry) && value.passportExpiry < new Date().toISOString().slice(0, 10);
+
+  const field = (name: keyof ClientProfileForm, label: string, input: JSX.Element, hint?: string | null) => (
+    <div>
+      <label className={labelClassName}>{label}</label>
+      {input}
+      {errors[name] ? (
+        <p className="mt-1 text-xs text-red-600">{errors[name]}</p>
+      ) : hint ? (
+        <p className="mt-1 text-xs text-amber-700">{hint}</p>
+      ) : null}
+    </div>
+  );
+  const inputClass = (name: keyof ClientProfileForm) => `${inputClassName} ${errors[name] ? 'border-red-400' : ''}`;
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      {field(
+        'dateOfBirth',
+        'Date of Birth',
+        <input
+          type="date"
+          value={value.dateOfBirth}
+          onChange={(e) => set('dateOfBirth', e.target.value)}
+          className={inputClass('dateOfBirth')}
+        />
+      )}
+      {field(
+        'nationality',
+        'Nationality',
+        <select value={value.nationality} onChange={(e) => set('nationality', e.target.value)} className={`${inputClass('nationality')} bg-white`}>
+          <option value="">Not set</option>
+          {countries.map((country) => (
+            <option key={country.code} value={country.code}>
+              {country.name} ({country.code})
+            </option>
+          ))}
+        </select>
+      )}
+      {field(
+        'civilStatus',
+        'Civil Status',
+        <select
+          value={value.civilStatus}
+          onChange={(e) => set('civilStatus', e.target.value as ClientProfileForm['civilStatus'])}
+          className={`${inputClass('civilStatus')} bg-white`}
+        >
+          <option value="">Not set</option>
+          {Object.entries(CIVIL_STATUS_LABELS).map(([status, label]) => (
+            <option key={status} value={status}>
+              {label}
+            </option>
+          ))}
+        </select>
+      )}
+      {field(
+        'relationship',
+        'Relationship',
+        <select
+          value={value.relationship}
+          onChange={(e) => set('relationship', e.target.value as ClientProfileForm['relationship'])}
+          className={`${inputClass('relationship')} bg-white`}
+        >
+          <option value="">Not set</option>
+          {Object.entries(RELATIONSHIP_LABELS).map(([relationship, label]) => (
+            <option key={relationship} value={relationship}>
+              {label}
+            </option>
+          ))}
+        </select>
+      )}
+      {field(
+        'nie',
+        idType ? `NIE / NIF · ${idType}` : 'NIE / NIF',
+        <input
+          type="text"
+          value={value.nie}
+          onChange={(e) => set('nie', e.target.value.toUpperCase())}
+          className={`${inputClass('nie')} font-mono uppercase`}
+          placeholder="X1234567L"
+          autoComplete="off"
+        />
+      )}
+      <div className="grid grid-cols-2 gap-2">
+        {field(
+          'passportNumber',
+          'Passport No.',
+          <input
+            type="text"
+            value={value.passportNumber}
+            onChange={(e) => set('passportNumber', e.target.value.toUpperCase())}
+            className={`${inputClass('passportNumber')} font-mono uppercase`}
+            autoComplete="off"
+          />
+        )}
+        {field(
+          'passportExpiry',
+          'Passport Expiry',
+          <input
+            type="date"
+            value={value.passportExpiry}
+            onChange={(e) => set('passportExpiry', e.target.value)}
+            className={inputClass('passportExpiry')}
+          />,
+          passportExpired ? 'Passport has expired' : null
+        )}
+      </div>
+      <div className="sm:col-span-2">
+        {field(
+          'addressLine',
+          'Address',
+          <input
+            type="text"
+            value={value.addressLine}
+            onChange={(e) => set('addressLine', e.target.value)}
+            className={inputClass('addressLine')}
+            placeholder="Calle, número, piso"
+          />
+        )}
+      </div>
+      <div className="grid grid-cols-2 gap-2">
+        {field(
+          'postalCode',
+          'Postal Code',
+          <input
+            type="text"
+            inputMode="numeric"
+            maxLength={5}
+            value={value.postalCode}
+            onChange={(e) => {
+              const postalCode = e.target.value.replace(/\D/g, '');
+              // The first two digits give the province; fill it in unless one was chosen
+              const province = provinceFromPostalCode(postalCode);
+              onChange({ ...value, postalCode, province: province && !value.province ? province : value.province });
+            }}
+            className={inputClass('postalCode')}
+            placeholder="28001"
+          />
+        )}
+        {field(
+          'city',
+          'City',
+          <input type="text" value={value.city} onChange={(e) => set('city', e.target.value)} className={inputClass('city')} />
+        )}
+      </div>
+      {field(
+        'province',
+        'Province',
+        <select value={value.province} onChange={(e) => set('province', e.target.value)} className={`${inputClass('province')} bg-white`}>
+          <option value="">Not set</option>
+          {Object.entries(SPANISH_PROVINCES)
+            .sort((a, b) => a[1].localeCompare(b[1], 'es'))
+            .map(([code, name]) => (
+              <option key={code} value={code}>
+                {name}
+              </option>
+            ))}
+        </select>
+      )}
+    </div>
+  );
+}
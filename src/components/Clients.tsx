@@ -1,19 +1,23 @@
 import { useState, useEffect, useRef } from 'react';
 import { Plus, Users, Trash2, Search, X } from 'lucide-react';
-import { api } from '../utils/api';
 import { Client } from '../types';
 import CreateClientModal from './CreateClientModal';
 import ClientDetailsModal from './ClientDetailsModal';
-import ConfirmDialog from './ConfirmDialog';
+import ClientErasureDialog from './ClientErasureDialog';
 import { showToast } from './Toast';
 import { t } from '../utils/i18n';
 import { clientMatchesNameSearch, formatClientFullName } from '../utils/clientNames';
+import { clientMatchesProfileSearch } from '../utils/clientProfile';
 import { SkeletonClientCard } from './Skeleton';
 import { useData } from '../context/DataContext';
+import { usePermissions } from '../context/PermissionsContext';
 
 export default function Clients() {
   // Use cached clients from context (loaded once at app startup)
   const { clients: cachedClients, refreshClients } = useData();
+  const { can } = usePermissions();
+  const canDeleteClients = can('delete_clients');
+  const canEditClients = can('edit_clients');
   const [clients, setClients] = useState<Client[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore] = useState(false);
@@ -23,7 +27,7 @@ export default function Clients() {
   const LIMIT = 25; // Load 25 items at a time
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [selectedClient, setSelectedClient] = useState<Client | null>(null);
-  const [deleteConfirm, setDeleteConfirm] = useState<{ client: Client | null; isOpen: boolean }>({ client: null, isOpen: false });
+  const [erasingClient, setErasingClient] = useState<Client | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [, forceUpdate] = useState({});
   const searchTimeoutRef = useRef<NodeJS.Timeout | null>(null);
@@ -106,7 +110,7 @@ export default function Clients() {
       }
 
       const filtered = cachedClients.filter((client) =>
-        clientMatchesNameSearch(client, searchQuery)
+        clientMatchesNameSearch(client, searchQuery) || clientMatchesProfileSearch(client, searchQuery)
       );
 
       setOffset(0);
@@ -130,7 +134,7 @@ export default function Clients() {
     if (searchQuery.trim()) {
       // If searching, load more from filtered results
       const filtered = cachedClients.filter((client) =>
-        clientMatchesNameSearch(client, searchQuery)
+        clientMatchesNameSearch(client, searchQuery) || clientMatchesProfileSearch(client, searchQuery)
       );
       const nextClients = filtered.slice(offset, offset + LIMIT);
       if (nextClients.length > 0) {
@@ -151,23 +155,15 @@ export default function Clients() {
 
   const handleDeleteClient = (client: Client, e: React.MouseEvent) => {
     e.stopPropagation(); // Prevent opening client details when clicking delete
-    setDeleteConfirm({ client, isOpen: true });
+    setErasingClient(client);
   };
 
-  const confirmDelete = async () => {
-    if (!deleteConfirm.client) return;
-    
-    try {
-      await api.deleteClient(deleteConfirm.client.id);
-      await refreshClients(); // Refresh context - will trigger useEffect to update from cache
-      // Reset pagination - useEffect will handle updating from refreshed cache
-      hasInitialized.current = false;
-      showToast(`Client ${formatClientFullName(deleteConfirm.client)} deleted successfully`, 'success');
-      setDeleteConfirm({ client: null, isOpen: false });
-    } catch (error: any) {
-      showToast(error.message || 'Failed to delete client', 'error');
-      setDeleteConfirm({ client: null, isOpen: false });
-    }
+  const handleClientErased = async (client: Client) => {
+    setErasingClient(null);
+    showToast(`Client ${formatClientFullName(client)} erased`, 'success');
+    await refreshClients(); // Refresh context - will trigger useEffect to update from cache
+    // Reset pagination - useEffect will handle updating from refreshed cache
+    hasInitialized.current = false;
   };
 
   // Use clients directly from API (already filtered by backend)
@@ -200,14 +196,16 @@ export default function Clients() {
           <h2 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-amber-800 via-amber-700 to-amber-800 bg-clip-text text-transparent mb-2 tracking-tight">{t('clients.title')}</h2>
           <p className="text-amber-700/80 text-base sm:text-lg font-medium">Manage your immigration clients and cases</p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-semibold shadow-xl hover:shadow-2xl transform hover:scale-105 transition-all duration-200 flex items-center justify-center space-x-2 w-full sm:w-auto"
-          style={{ boxShadow: '0 4px 20px rgba(245, 158, 11, 0.4)' }}
-        >
-          <Plus className="w-5 h-5" />
-          <span>New Client</span>
-        </button>
+        {canEditClients && (
+          <button
+            onClick={() => setShowCreateModal(true)}
+            className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-semibold shadow-xl hover:shadow-2xl transform hover:scale-105 transition-all duration-200 flex items-center justify-center space-x-2 w-full sm:w-auto"
+            style={{ boxShadow: '0 4px 20px rgba(245, 158, 11, 0.4)' }}
+          >
+            <Plus className="w-5 h-5" />
+            <span>New Client</span>
+          </button>
+        )}
       </div>
 
       {/* Search Bar */}
@@ -216,7 +214,7 @@ export default function Clients() {
           <Search className="absolute left-4 top-1/2 transform -translate-y-1/2 w-5 h-5 text-amber-600" />
           <input
             type="text"
-            placeholder="Search by name or surname..."
+            placeholder="Search by name, NIE, passport or city..."
             value={searchQuery}
             onChange={(e) => {
               setSearchQuery(e.target.value);
@@ -280,13 +278,15 @@ export default function Clients() {
           </div>
           <h3 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-amber-800 to-amber-700 bg-clip-text text-transparent mb-2">No clients yet</h3>
           <p className="text-amber-700/70 mb-6 sm:mb-8 text-base sm:text-lg font-medium">Create your first client to get started</p>
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-6 sm:px-8 py-3 sm:py-3.5 rounded-xl font-semibold hover:shadow-2xl transition-all shadow-xl"
-            style={{ boxShadow: '0 4px 20px rgba(245, 158, 11, 0.4)' }}
-          >
-            Create Client
-          </button>
+          {canEditClients && (
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-6 sm:px-8 py-3 sm:py-3.5 rounded-xl font-semibold hover:shadow-2xl transition-all shadow-xl"
+              style={{ boxShadow: '0 4px 20px rgba(245, 158, 11, 0.4)' }}
+            >
+              Create Client
+            </button>
+          )}
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
@@ -308,13 +308,15 @@ export default function Clients() {
                   <div className="bg-gradient-to-br from-amber-100 to-amber-200 p-2 rounded-lg shadow-md">
                     <Users className="w-5 h-5 text-amber-800" />
                   </div>
-                  <button
-                    onClick={(e) => handleDeleteClient(client, e)}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                    title="Delete client"
-                  >
-                    <Trash2 className="w-4 h-4" />
-                  </button>
+                  {canDeleteClients && (
+                    <button
+                      onClick={(e) => handleDeleteClient(client, e)}
+                      className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      title="Erase client"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </button>
+                  )}
                 </div>
               </div>
               <div className="space-y-3 pt-4 border-t border-amber-200/50">
@@ -396,17 +398,14 @@ export default function Clients() {
         />
       )}
 
-      {/* Delete Confirmation Dialog */}
-      <ConfirmDialog
-        isOpen={deleteConfirm.isOpen}
-        title="Delete Client"
-        message={deleteConfirm.client ? t('clients.deleteConfirm', { firstName: deleteConfirm.client.first_name, lastName: deleteConfirm.client.last_name }) : ''}
-        confirmText="Delete"
-        cancelText="Cancel"
-        type="danger"
-        onConfirm={confirmDelete}
-        onCancel={() => setDeleteConfirm({ client: null, isOpen: false })}
-      />
+      {/* Erasure Dialog */}
+      {erasingClient && (
+        <ClientErasureDialog
+          client={erasingClient}
+          onErased={() => handleClientErased(erasingClient)}
+          onClose={() => setErasingClient(null)}
+        />
+      )}
     </div>
   );
 }
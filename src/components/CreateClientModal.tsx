@@ -5,6 +5,15 @@ import { CaseTemplate } from '../types';
 import { showToast } from './Toast';
 import { useData } from '../context/DataContext';
 import { splitClientFullName } from '../utils/clientNames';
+import { getTemplateVersion } from '../utils/templateVersions';
+import { describeConditions, documentAppliesTo, selectApplicableDocuments } from '../utils/documentConditions';
+import {
+  ClientProfileErrors,
+  EMPTY_CLIENT_PROFILE_FORM,
+  clientProfileFromForm,
+  validateClientProfileForm,
+} from '../utils/clientProfile';
+import ClientProfileFields from './ClientProfileFields';
 
 interface Props {
   onClose: () => void;
@@ -24,6 +33,8 @@ export default function CreateClientModal({ onClose, onSuccess }: Props) {
     totalFee: '',
     details: '',
   });
+  const [profile, setProfile] = useState(EMPTY_CLIENT_PROFILE_FORM);
+  const [profileErrors, setProfileErrors] = useState<ClientProfileErrors>({});
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [templateSearchQuery, setTemplateSearchQuery] = useState('');
@@ -57,6 +68,9 @@ export default function CreateClientModal({ onClose, onSuccess }: Props) {
   });
 
   const selectedTemplate = templates.find((t: CaseTemplate) => t.id === formData.caseTemplateId);
+  const clientAttributes = clientProfileFromForm(profile);
+  const conditionalDocuments = (selectedTemplate?.required_documents || []).filter((doc) => doc.conditions?.length);
+  const excludedDocuments = conditionalDocuments.filter((doc) => !documentAppliesTo(doc, clientAttributes));
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -66,6 +80,12 @@ export default function CreateClientModal({ onClose, onSuccess }: Props) {
       setError('Full name is required');
       return;
     }
+    const errors = validateClientProfileForm(profile);
+    setProfileErrors(errors);
+    if (Object.keys(errors).length > 0) {
+      setError('Check the highlighted identity and address fields');
+      return;
+    }
 
     setLoading(true);
     try {
@@ -79,8 +99,25 @@ export default function CreateClientModal({ onClose, onSuccess }: Props) {
         email: formData.email.trim() || undefined,
         phone: formData.phone.trim() || undefined,
         caseTemplateId: formData.caseTemplateId || undefined,
+        caseTemplateVersion: selectedTemplate ? getTemplateVersion(selectedTemplate) : undefined,
+        // Only documents whose conditions match; the backend copies the full list otherwise
+        requiredDocuments:
+          selectedTemplate && conditionalDocuments.length > 0
+            ? selectApplicableDocuments(selectedTemplate.required_documents, clientAttributes)
+            : undefined,
         totalFee: formData.totalFee ? parseFloat(formData.totalFee) : undefined,
         details: formData.details.trim() || undefined,
+        dateOfBirth: clientAttributes.date_of_birth,
+        civilStatus: clientAttributes.civil_status,
+        nationality: clientAttributes.nationality,
+        relationship: clientAttributes.relationship,
+        nie: clientAttributes.nie,
+        passportNumber: clientAttributes.passport_number,
+        passportExpiry: clientAttributes.passport_expiry,
+        addressLine: clientAttributes.address_line,
+        postalCode: clientAttributes.postal_code,
+        city: clientAttributes.city,
+        province: clientAttributes.province,
       });
       showToast(`Client ${fullName} created successfully`, 'success');
       onSuccess();
@@ -177,6 +214,21 @@ export default function CreateClientModal({ onClose, onSuccess }: Props) {
                 </div>
               </div>
 
+              {/* Identity and Address Section */}
+              <div className="p-5 bg-gradient-to-br from-indigo-50/50 to-white rounded-xl border border-gray-200 shadow-sm">
+                <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center space-x-2">
+                  <div className="w-1 h-6 bg-gradient-to-b from-indigo-600 to-blue-600 rounded-full"></div>
+                  <span>Identity &amp; Address</span>
+                </h3>
+                <ClientProfileFields
+                  value={profile}
+                  onChange={setProfile}
+                  errors={profileErrors}
+                  labelClassName="block text-sm font-semibold text-gray-700 mb-2"
+                  inputClassName="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-blue-500 focus:border-blue-500 outline-none transition-all shadow-sm hover:shadow-md"
+                />
+              </div>
+
               {/* Contact Information Section */}
               <div className="p-5 bg-gradient-to-br from-blue-50/50 to-white rounded-xl border border-gray-200 shadow-sm">
                 <h3 className="text-lg font-bold text-gray-900 mb-4 flex items-center space-x-2">
@@ -318,6 +370,23 @@ export default function CreateClientModal({ onClose, onSuccess }: Props) {
                     />
                   </div>
                 </div>
+                {selectedTemplate && conditionalDocuments.length > 0 && (
+                  <div className="mt-4 p-3 bg-indigo-50/60 border border-indigo-100 rounded-lg text-sm">
+                    <p className="font-medium text-indigo-900">
+                      {selectedTemplate.required_documents.length - excludedDocuments.length} of{' '}
+                      {selectedTemplate.required_documents.length} documents apply to this client
+                    </p>
+                    {excludedDocuments.length > 0 && (
+                      <ul className="mt-1 space-y-0.5 text-xs text-indigo-700">
+                        {excludedDocuments.map((doc) => (
+                          <li key={doc.code}>
+                            <span className="line-through">{doc.name}</span> — {describeConditions(doc.conditions)}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                )}
               </div>
 
               {/* Additional Details Section */}
@@ -4,6 +4,9 @@ import { api } from '../utils/api';
 import { RequiredDocument, CaseTemplate } from '../types';
 import { showToast } from './Toast';
 import { useData } from '../context/DataContext';
+import { describeDefaultValidity } from '../utils/documentExpiry';
+import { buildTemplateVersionUpdate, getTemplateVersion } from '../utils/templateVersions';
+import DocumentConditionsEditor from './DocumentConditionsEditor';
 
 interface Props {
   onClose: () => void;
@@ -187,8 +190,11 @@ export default function CreateTemplateModal({ onClose, onSuccess, template }: Pr
 
     setLoading(true);
     try {
+      const user = await api.getCurrentUser();
+      const changedBy = user.name || user.email || 'Unknown';
       if (template) {
-        // Edit mode
+        // Edit mode - a changed checklist becomes a new template version
+        const versionUpdate = buildTemplateVersionUpdate(template, validDocuments, changedBy);
         await api.updateCaseTemplate(template.id, {
           name: formData.name.trim(),
           description: formData.description.trim() || undefined,
@@ -196,8 +202,14 @@ export default function CreateTemplateModal({ onClose, onSuccess, template }: Pr
           reminderIntervalDays: parseInt(formData.reminderIntervalDays) || 10,
           administrativeSilenceDays: parseInt(formData.administrativeSilenceDays) || 60,
           assignedTeamMember,
+          ...versionUpdate,
         });
-        showToast(`Template "${formData.name.trim()}" updated successfully`, 'success');
+        showToast(
+          versionUpdate.version > getTemplateVersion(template)
+            ? `Template "${formData.name.trim()}" saved as version ${versionUpdate.version}. Existing clients keep their checklist until you apply the changes from Versions.`
+            : `Template "${formData.name.trim()}" updated successfully`,
+          'success'
+        );
       } else {
         // Create mode
         await api.createCaseTemplate({
@@ -207,6 +219,10 @@ export default function CreateTemplateModal({ onClose, onSuccess, template }: Pr
           reminderIntervalDays: parseInt(formData.reminderIntervalDays) || 10,
           administrativeSilenceDays: parseInt(formData.administrativeSilenceDays) || 60,
           assignedTeamMember,
+          version: 1,
+          versions: [
+            { version: 1, required_documents: validDocuments, created_at: new Date().toISOString(), created_by: changedBy },
+          ],
         });
         showToast(`Template "${formData.name.trim()}" created successfully`, 'success');
       }
@@ -432,6 +448,36 @@ export default function CreateTemplateModal({ onClose, onSuccess, template }: Pr
                         placeholder="Optional description"
                       />
                     </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        Valid for (days after issue)
+                      </label>
+                      <input
+                        type="number"
+                        min="1"
+                        value={doc.validityDays ?? ''}
+                        onChange={(e) => {
+                          const updated = [...requiredDocuments];
+                          updated[index] = { ...updated[index], validityDays: parseInt(e.target.value) || undefined };
+                          setRequiredDocuments(updated);
+                        }}
+                        className="w-full sm:w-64 px-2 py-1.5 text-sm border border-gray-300 rounded focus:ring-2 focus:ring-blue-500 outline-none"
+                        placeholder={describeDefaultValidity(doc) ? `Default: ${describeDefaultValidity(doc)}` : 'Does not expire'}
+                      />
+                    </div>
+                    <div>
+                      <label className="block text-xs font-medium text-gray-600 mb-1">
+                        Only required when (leave empty for every client)
+                      </label>
+                      <DocumentConditionsEditor
+                        conditions={doc.conditions || []}
+                        onChange={(conditions) => {
+                          const updated = [...requiredDocuments];
+                          updated[index] = { ...updated[index], conditions };
+                          setRequiredDocuments(updated);
+                        }}
+                      />
+                    </div>
                   </div>
                 ))}
               </div>
@@ -1,20 +1,25 @@
 import { useEffect, useState, useRef, useMemo, useCallback } from 'react';
 import { FileText, Users, CheckCircle, Clock, Send, X, AlertCircle, AlertTriangle, Gavel, DollarSign, FilePlus, Lock, Unlock, Bell, Plus, Trash2, Edit2, Search, ChevronDown, BarChart3, TrendingUp, ListTodo, ChevronLeft, ChevronRight, Calendar, Hourglass, ArrowRight, Undo2 } from 'lucide-react';
 import { LineChart, Line, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { api } from '../utils/api';
-import { Client, Reminder } from '../types';
+import { ClientConflictError, api, getClientVersion } from '../utils/api';
+import { Client, MonthlySummary, MonthlyTrendPoint, Payment, PaymentUnlockFeature, Reminder } from '../types';
 import ClientDetailsModal from './ClientDetailsModal';
+import MergeConflictDialog, { MergeResolution } from './MergeConflictDialog';
+import PaymentUnlockDialog from './PaymentUnlockDialog';
 import { t } from '../utils/i18n';
 import { showToast } from './Toast';
 import ConfirmDialog from './ConfirmDialog';
 import { SkeletonStatCard, SkeletonDashboardBox, SkeletonChart } from './Skeleton';
 import { useData } from '../context/DataContext';
+import { usePermissions } from '../context/PermissionsContext';
 import {
   formatReminderFullName,
   reminderDisplayName,
   splitReminderFullName,
 } from '../utils/reminderNames';
 import { clientMatchesNameSearch, formatClientFullName } from '../utils/clientNames';
+import { clientMatchesProfileSearch } from '../utils/clientProfile';
+import { getFamilyGroup, getFamilyPaymentTotals, groupClientsByFamily } from '../utils/familyLinks';
 import {
   getNoteFollowUpDeadline,
   buildNoteSchedulingPatch,
@@ -22,14 +27,35 @@ import {
   toISODateOnly,
   isWithinUrgentWindow,
 } from '../utils/clientNoteScheduling';
+import { ENCRYPTED_PLACEHOLDER } from '../utils/fieldEncryption';
 import AppointmentsCalendar from './AppointmentsCalendar';
 import TeamMemberSelect from './TeamMemberSelect';
 import ReminderTeamMemberAssign from './ReminderTeamMemberAssign';
 import { emptyTeamTasksMap, groupTeamTasksFromApi } from '../utils/teamTasks';
+import { newOfflineId } from '../utils/syncQueue';
+import { mergePaymentLines, mergedItems } from '../utils/clientMerge';
+import { usePaymentUnlockSession } from '../utils/paymentUnlock';
 import { calcPendingBalance, getPaytrackFeeBreakdown, isFeePaymentEntry, sumPaidPaymentAmount, sumServiceFeeAmount } from '../utils/paymentTotals';
+import {
+  getClientCaseStage,
+  getStageBeforeAppeal,
+  isAdministrativeSilenceEnded,
+  isSubmittedStage,
+} from '../utils/caseStage';
 
 type PaytrackEntryType = 'payment' | 'honorario' | 'service_fee';
 
+/** PayTrack payment lines the server refused because the client changed since they were loaded. */
+interface PaytrackPaymentsConflict {
+  base: Payment[];
+  mine: Payment[];
+  current: Client;
+  /** Change to the total fee made by the refused save, re-applied on top of the server total. */
+  totalFeeDelta: number;
+  /** Note to copy into Important Notes once the lines are saved. */
+  importantNote?: string;
+}
+
 function paytrackFeeMethodLabel(type: 'honorario' | 'service_fee'): string {
   return type === 'honorario' ? 'Honorarios' : 'Extra fee';
 }
@@ -50,7 +76,8 @@ function dashboardClientMatchesSearch(client: Client, raw: string): boolean {
     (client.case_type || '').toLowerCase().includes(q) ||
     (client.parent_name || '').toLowerCase().includes(q) ||
     (client.notes || '').toLowerCase().includes(q) ||
-    (client.details || '').toLowerCase().includes(q)
+    (client.details || '').toLowerCase().includes(q) ||
+    clientMatchesProfileSearch(client, raw)
   );
 }
 
@@ -147,6 +174,17 @@ function readPaytrackSort(): 'pending' | 'recent' | 'name' {
   return 'recent';
 }
 
+/** PayTrack lists one row per client, or gathers linked family members under a family total. */
+function readPaytrackGrouping(): 'person' | 'family' {
+  try {
+    const saved = localStorage.getItem('paytrack-grouping');
+    if (saved === 'person' || saved === 'family') return saved;
+  } catch {
+    // ignore
+  }
+  return 'person';
+}
+
 function formatPaytrackWhatsAppAmount(amount: number): string {
   return amount % 1 === 0 ? amount.toFixed(0) : amount.toFixed(2);
 }
@@ -174,17 +212,7 @@ function buildPaytrackWhatsAppBalanceMessage(
 }
 
 function recursoSubmittedWithDate(client: Client): boolean {
-  return Boolean(client.submitted_to_immigration && client.application_date);
-}
-
-/** Application date + silence period has passed (replacement / contentious appeal may be due). */
-function recursoAdministrativeSilenceEnded(client: Client): boolean {
-  if (!client.application_date) return false;
-  const appDate = new Date(client.application_date);
-  const silenceDays = client.administrative_silence_days || 60;
-  const silenceEndDate = new Date(appDate);
-  silenceEndDate.setDate(silenceEndDate.getDate() + silenceDays);
-  return new Date() > silenceEndDate;
+  return isSubmittedStage(getClientCaseStage(client)) && Boolean(client.application_date);
 }
 
 
@@ -332,7 +360,22 @@ function DashboardModalSearchInput({
 
 export default function Dashboard({ onNavigate }: DashboardProps) {
   // Use shared data from context (loaded once at app startup)
-  const { clients, templates, reminders, teamMembers, loading, refreshAll, refreshReminders, refreshClients } = useData();
+  const {
+    clients,
+    templates,
+    reminders,
+    teamMembers,
+    loading,
+    teamTasksRevision,
+    refreshAll,
+    refreshReminders,
+    refreshClients,
+    runMutation,
+  } = useData();
+  const { currentUser, can, refreshCurrentUser } = usePermissions();
+  const canViewPayments = can('view_payments');
+  const canEditPayments = can('edit_payments');
+  const canEditClients = can('edit_clients');
 
   const syncClientNoteToImportant = useCallback(
     async (client: Client, noteText: string) => {
@@ -344,7 +387,13 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       } catch {
         // use snapshot if fetch fails
       }
-      const patch = buildNoteSchedulingPatch(trimmed, latest.notes || '', latest, 'details');
+      const patch = buildNoteSchedulingPatch(
+        trimmed,
+        latest.notes || '',
+        latest,
+        'details',
+        await api.isFieldEncryptionEnabled()
+      );
       const updates: { notes?: string; custom_reminder_date?: string } = {};
       if (patch.notes !== (latest.notes || '')) updates.notes = patch.notes;
       if (patch.custom_reminder_date) updates.custom_reminder_date = patch.custom_reminder_date;
@@ -385,17 +434,9 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
   const [calendarSelectedDay, setCalendarSelectedDay] = useState<number | null>(null);
   const [selectedMonth, setSelectedMonth] = useState(new Date().getMonth() + 1); // 1-indexed
   const [selectedYear, setSelectedYear] = useState(new Date().getFullYear());
-  const [monthlySummary, setMonthlySummary] = useState<{
-    totalClients: number;
-    totalPayments: number;
-    totalPaymentReceived: number;
-    totalAdvance: number;
-    totalDue: number;
-    totalRevenue: number;
-    clientsWhoPaid: number;
-  } | null>(null);
+  const [monthlySummary, setMonthlySummary] = useState<MonthlySummary | null>(null);
   const [loadingMonthlySummary, setLoadingMonthlySummary] = useState(false);
-  const [trendData, setTrendData] = useState<any[]>([]);
+  const [trendData, setTrendData] = useState<MonthlyTrendPoint[]>([]);
   const [loadingTrendData, setLoadingTrendData] = useState(false);
   const [showReminderForm, setShowReminderForm] = useState(false);
   const [editingReminder, setEditingReminder] = useState<Reminder | null>(null);
@@ -429,11 +470,14 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 
       const reminderData = buildReminderPayload(genericReminderForm, { reminder_type: reminderType });
 
-      if (editingGenericReminder) {
-        await api.updateReminder(editingGenericReminder.id, reminderData);
+      const { queued } = editingGenericReminder
+        ? await runMutation({ type: 'update_reminder', reminderId: editingGenericReminder.id, data: reminderData })
+        : await runMutation({ type: 'create_reminder', tempId: newOfflineId(), data: reminderData });
+      if (queued) {
+        showToast('Sin conexión: el recordatorio se sincronizará al volver la conexión', 'warning');
+      } else if (editingGenericReminder) {
         showToast('Recordatorio actualizado exitosamente', 'success');
       } else {
-        await api.createReminder(reminderData);
         showToast('Recordatorio creado exitosamente', 'success');
       }
       
@@ -549,13 +593,8 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       </form>
     );
   };
-  const [paymentsUnlocked, setPaymentsUnlocked] = useState(false);
-  const [paytrackUnlocked, setPaytrackUnlocked] = useState(false);
-  const [overviewUnlocked, setOverviewUnlocked] = useState(false);
-  const [unlockingFeature, setUnlockingFeature] = useState<'payments' | 'paytrack' | 'overview' | null>(null);
-  const [showPasscodeModal, setShowPasscodeModal] = useState(false);
-  const [passcodeInput, setPasscodeInput] = useState('');
-  const [passcodeError, setPasscodeError] = useState('');
+  const { unlocked: paymentsUnlocked, unlock: unlockPayments } = usePaymentUnlockSession();
+  const [unlockingFeature, setUnlockingFeature] = useState<PaymentUnlockFeature | null>(null);
   const [, forceUpdate] = useState({});
   const [deleteConfirm, setDeleteConfirm] = useState<{
     isOpen: boolean;
@@ -570,8 +609,17 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
   const [paytrackQuery, setPaytrackQuery] = useState('');
   const [paytrackFilter, setPaytrackFilter] = useState<'all' | 'pending' | 'settled'>(readPaytrackFilter);
   const [paytrackSort, setPaytrackSort] = useState<'pending' | 'recent' | 'name'>(readPaytrackSort);
+  const [paytrackGrouping, setPaytrackGrouping] = useState<'person' | 'family'>(readPaytrackGrouping);
   const [showPaytrackActivity, setShowPaytrackActivity] = useState(false);
   const [paytrackClientView, setPaytrackClientView] = useState<Client | null>(null);
+  const [paytrackConflict, setPaytrackConflict] = useState<PaytrackPaymentsConflict | null>(null);
+  const paytrackPaymentsMerge = useMemo(
+    () =>
+      paytrackConflict
+        ? mergePaymentLines(paytrackConflict.base, paytrackConflict.mine, paytrackConflict.current.payment?.payments || [])
+        : null,
+    [paytrackConflict]
+  );
   const [paytrackClientEntry, setPaytrackClientEntry] = useState<{
     amount: string;
     type: PaytrackEntryType;
@@ -644,6 +692,14 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       // ignore
     }
   }, [paytrackSort]);
+
+  useEffect(() => {
+    try {
+      localStorage.setItem('paytrack-grouping', paytrackGrouping);
+    } catch {
+      // ignore
+    }
+  }, [paytrackGrouping]);
   
   // Explicitly reference modal states to satisfy TypeScript
   void showAportarDocumentacionModal;
@@ -654,69 +710,53 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
   void showPayTrackModal;
 
   const handlePaymentsClick = useCallback(() => {
-    if (paymentsUnlocked) {
+    if (!canViewPayments) {
+      showToast("Your role can't view payments", 'error');
+    } else if (paymentsUnlocked) {
       setShowPagosModal(true);
     } else {
       setUnlockingFeature('payments');
-      setShowPasscodeModal(true);
-      setPasscodeInput('');
-      setPasscodeError('');
     }
-  }, [paymentsUnlocked]);
+  }, [paymentsUnlocked, canViewPayments]);
 
   const handlePayTrackClick = useCallback(() => {
-    if (paytrackUnlocked) {
+    if (!canViewPayments) {
+      showToast("Your role can't view payments", 'error');
+    } else if (paymentsUnlocked) {
       setShowPayTrackModal(true);
     } else {
       setUnlockingFeature('paytrack');
-      setShowPasscodeModal(true);
-      setPasscodeInput('');
-      setPasscodeError('');
     }
-  }, [paytrackUnlocked]);
+  }, [paymentsUnlocked, canViewPayments]);
 
   const handleOverviewClick = useCallback(() => {
-    if (overviewUnlocked) {
+    if (!canViewPayments) {
+      showToast("Your role can't view payments", 'error');
+    } else if (paymentsUnlocked) {
       setShowOverviewModal(true);
     } else {
       setUnlockingFeature('overview');
-      setShowPasscodeModal(true);
-      setPasscodeInput('');
-      setPasscodeError('');
     }
-  }, [overviewUnlocked]);
-
-  const handlePasscodeSubmit = useCallback(async (e: React.FormEvent) => {
-    e.preventDefault();
-    setPasscodeError('');
-    
-    try {
-      const result = await api.verifyPaymentPasscode(passcodeInput);
-      if (result.valid) {
-        if (unlockingFeature === 'payments') {
-          setPaymentsUnlocked(true);
-          setShowPasscodeModal(false);
-          setShowPagosModal(true);
-        } else if (unlockingFeature === 'paytrack') {
-          setPaytrackUnlocked(true);
-          setShowPasscodeModal(false);
-          setShowPayTrackModal(true);
-        } else if (unlockingFeature === 'overview') {
-          setOverviewUnlocked(true);
-          setShowPasscodeModal(false);
-          setShowOverviewModal(true);
-        }
-        setUnlockingFeature(null);
-        setPasscodeInput('');
-      } else {
-        setPasscodeError('Incorrect passcode. Please try again.');
-        setPasscodeInput('');
+  }, [paymentsUnlocked, canViewPayments]);
+
+  const handlePaymentUnlocked = useCallback(
+    (pinChanged: boolean) => {
+      unlockPayments();
+      if (unlockingFeature === 'payments') {
+        setShowPagosModal(true);
+      } else if (unlockingFeature === 'paytrack') {
+        setShowPayTrackModal(true);
+      } else if (unlockingFeature === 'overview') {
+        setShowOverviewModal(true);
       }
-    } catch (error: any) {
-      setPasscodeError(error.message || 'Failed to verify passcode. Please try again.');
-      setPasscodeInput('');
-    }
-  }, [passcodeInput, unlockingFeature]);
+      setUnlockingFeature(null);
+      if (pinChanged) {
+        showToast('Your payment PIN was saved', 'success');
+        void refreshCurrentUser();
+      }
+    },
+    [unlockingFeature, unlockPayments, refreshCurrentUser]
+  );
 
   const parseQuickNoteAmount = (text: string): number | null => {
     const match = text.match(/(\d+(?:[.,]\d{1,2})?)/);
@@ -774,9 +814,8 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
   };
 
   const appendPaytrackHistoryNote = async (client: Client, note: string) => {
-    const current = client.payment || { totalFee: 0, paidAmount: 0, payments: [] };
     const payments = [
-      ...(current.payments || []),
+      ...(client.payment?.payments || []),
       {
         amount: 0,
         date: new Date().toISOString(),
@@ -784,15 +823,9 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         note,
       },
     ];
-    return api.updateClientPayment(
-      client.id,
-      {
-        ...current,
-        paidAmount: current.paidAmount || 0,
-        payments,
-      },
-      true
-    ).then(() => syncClientNoteToImportant(client, note));
+    if (!(await savePaytrackPayments(client, payments, { importantNote: note }))) return false;
+    await syncClientNoteToImportant(client, note);
+    return true;
   };
 
   const handlePaytrackQuickNote = async () => {
@@ -814,7 +847,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       setPaytrackQuickNoteSaving(true);
 
       if (!amount) {
-        await appendPaytrackHistoryNote(client, note);
+        if (!(await appendPaytrackHistoryNote(client, note))) return;
         await refreshClients();
         if (paytrackClientView?.id === client.id) {
           await refreshPaytrackClient(client.id);
@@ -829,25 +862,18 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         await api.addPayment(client.id, amount, 'Quick Note', note);
       } else {
         const current = client.payment || { totalFee: 0, paidAmount: 0, payments: [] };
-        const paidAmount = sumPaidPaymentAmount(current.payments);
         const newTotalFee = (current.totalFee || 0) + amount;
-        await api.updateClient(client.id, {
-          payment: {
-            ...current,
-            totalFee: newTotalFee,
-            paidAmount,
-            payments: [
-              ...(current.payments || []),
-              {
-                amount,
-                date: new Date().toISOString(),
-                method: entryType === 'honorario' ? 'Honorarios' : 'Extra fee',
-                note,
-                entryType: 'fee' as const,
-              },
-            ],
+        const payments = [
+          ...(current.payments || []),
+          {
+            amount,
+            date: new Date().toISOString(),
+            method: entryType === 'honorario' ? 'Honorarios' : 'Extra fee',
+            note,
+            entryType: 'fee' as const,
           },
-        });
+        ];
+        if (!(await savePaytrackPayments(client, payments, { totalFee: newTotalFee, importantNote: note }))) return;
       }
 
       await syncClientNoteToImportant(client, note);
@@ -889,24 +915,77 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
     });
   };
 
+  /**
+   * Saves payment lines edited from `base`, only if nobody changed the client since it was loaded.
+   * Otherwise nothing is written and the merge dialog opens; returns whether the lines were saved.
+   */
   const savePaytrackPayments = async (
-    clientId: string,
-    payments: Client['payment']['payments'],
-    totalFee?: number
-  ) => {
-    const paidAmount = sumPaidPaymentAmount(payments);
-    const latest = await api.getClient(clientId);
-    const current = latest.payment || { totalFee: 0, paidAmount: 0, payments: [] };
-    return api.updateClientPayment(
-      clientId,
-      {
-        ...current,
-        totalFee: totalFee ?? current.totalFee ?? 0,
-        paidAmount,
-        payments,
-      },
-      true
-    );
+    base: Client,
+    payments: Payment[],
+    options: { totalFee?: number; importantNote?: string } = {}
+  ): Promise<boolean> => {
+    const current = base.payment || { totalFee: 0, paidAmount: 0, payments: [] };
+    const totalFee = options.totalFee ?? current.totalFee ?? 0;
+    try {
+      await api.updateClientPayment(
+        base.id,
+        {
+          ...current,
+          totalFee,
+          paidAmount: sumPaidPaymentAmount(payments),
+          payments,
+        },
+        true,
+        { ifMatch: getClientVersion(base) }
+      );
+      return true;
+    } catch (error) {
+      if (error instanceof ClientConflictError) {
+        setPaytrackConflict({
+          base: current.payments || [],
+          mine: payments,
+          current: error.current,
+          totalFeeDelta: totalFee - (current.totalFee || 0),
+          importantNote: options.importantNote,
+        });
+        return false;
+      }
+      throw error;
+    }
+  };
+
+  const handleResolvePaytrackConflict = async (resolution: MergeResolution) => {
+    const conflict = paytrackConflict;
+    if (!conflict) return;
+    const clientId = conflict.current.id;
+    const theirs = conflict.current.payment?.payments || [];
+    const payments =
+      resolution === 'mine' ? conflict.mine : resolution === 'merged' && paytrackPaymentsMerge ? mergedItems(paytrackPaymentsMerge) : theirs;
+    try {
+      setPaytrackClientSaving(true);
+      if (payments !== theirs) {
+        // Save on top of the server copy we were shown; if it moved again the dialog reopens
+        const totalFee = (conflict.current.payment?.totalFee || 0) + conflict.totalFeeDelta;
+        if (!(await savePaytrackPayments(conflict.current, payments, { totalFee, importantNote: conflict.importantNote }))) {
+          showToast('The client changed again - please review once more', 'warning');
+          return;
+        }
+        if (conflict.importantNote) {
+          await syncClientNoteToImportant(conflict.current, conflict.importantNote);
+        }
+      }
+      setPaytrackConflict(null);
+      if (paytrackClientView?.id === clientId) {
+        await refreshPaytrackClient(clientId);
+      } else {
+        await refreshClients();
+      }
+      showToast(resolution === 'theirs' ? 'Kept the other version' : 'Changes saved', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to save changes', 'error');
+    } finally {
+      setPaytrackClientSaving(false);
+    }
   };
 
   const startPaytrackPaymentEdit = (index: number) => {
@@ -945,9 +1024,13 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       : undefined;
     try {
       setPaytrackClientSaving(true);
-      await savePaytrackPayments(paytrackClientView.id, payments, totalFeeAdjust);
-      if (paytrackPaymentDraft.note.trim()) {
-        await syncClientNoteToImportant(paytrackClientView, paytrackPaymentDraft.note);
+      const note = paytrackPaymentDraft.note.trim() || undefined;
+      if (!(await savePaytrackPayments(paytrackClientView, payments, { totalFee: totalFeeAdjust, importantNote: note }))) {
+        setPaytrackEditingPaymentIdx(null);
+        return;
+      }
+      if (note) {
+        await syncClientNoteToImportant(paytrackClientView, note);
       }
       await refreshPaytrackClient(paytrackClientView.id);
       setPaytrackEditingPaymentIdx(null);
@@ -970,7 +1053,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
     }
     try {
       setPaytrackClientSaving(true);
-      await savePaytrackPayments(paytrackClientView.id, payments, totalFee);
+      if (!(await savePaytrackPayments(paytrackClientView, payments, { totalFee }))) return;
       await refreshPaytrackClient(paytrackClientView.id);
       if (paytrackEditingPaymentIdx === index) setPaytrackEditingPaymentIdx(null);
       showToast('Payment removed', 'success');
@@ -992,11 +1075,10 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       setPaytrackClientSaving(true);
       const current = paytrackClientView.payment || { totalFee: 0, paidAmount: 0, payments: [] };
       const serviceFees = sumServiceFeeAmount(current.payments);
-      await api.updateClient(paytrackClientView.id, {
-        payment: { ...current, totalFee: honorarios + serviceFees },
-      });
-      await refreshPaytrackClient(paytrackClientView.id);
+      const saved = await savePaytrackPayments(paytrackClientView, current.payments || [], { totalFee: honorarios + serviceFees });
       setPaytrackEditingTotalFee(false);
+      if (!saved) return;
+      await refreshPaytrackClient(paytrackClientView.id);
       showToast('Honorarios updated', 'success');
     } catch (error: any) {
       showToast(error.message || 'Failed to update honorarios', 'error');
@@ -1157,14 +1239,9 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
           note: paytrackClientEntry.note?.trim() || undefined,
           entryType: 'fee' as const,
         };
-        await api.updateClient(paytrackClientView.id, {
-          payment: {
-            ...current,
-            totalFee: newTotalFee,
-            paidAmount,
-            payments: [...(current.payments || []), feeEntry],
-          },
-        });
+        if (!(await savePaytrackPayments(latest, [...(current.payments || []), feeEntry], { totalFee: newTotalFee, importantNote: feeEntry.note }))) {
+          return;
+        }
         if (paytrackClientEntry.note?.trim()) {
           await syncClientNoteToImportant(latest, paytrackClientEntry.note);
         }
@@ -1342,8 +1419,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       if (showOverviewModal) {
         try {
           setLoadingTrendData(true);
-          const response = await api.getMonthlyTrend(6); // Get last 6 months
-          setTrendData(response.data || []);
+          setTrendData(await api.getMonthlyTrend(6)); // Get last 6 months
         } catch (error: any) {
           console.error('Failed to fetch trend data:', error);
           setTrendData([]);
@@ -1366,7 +1442,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 
   useEffect(() => {
     void fetchTeamTasks();
-  }, [fetchTeamTasks]);
+  }, [fetchTeamTasks, teamTasksRevision]);
 
   useEffect(() => {
     if (!showRecursoModal) {
@@ -1379,7 +1455,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       e?.stopPropagation();
       setRecursoAppealsBoxLoadingId(clientId);
       try {
-        await api.updateClient(clientId, { recurso_in_appeals_box: true });
+        await api.transitionClientStage(clientId, 'appeal');
         await refreshClients();
         showToast(t('dashboard.recursoToastMovedToAppeals'), 'success');
       } catch (err: any) {
@@ -1396,7 +1472,8 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       e?.stopPropagation();
       setRecursoAppealsBoxLoadingId(clientId);
       try {
-        await api.updateClient(clientId, { recurso_in_appeals_box: false });
+        const client = clients.find((c) => c.id === clientId);
+        await api.transitionClientStage(clientId, client ? getStageBeforeAppeal(client) : 'submitted');
         await refreshClients();
         showToast(t('dashboard.recursoToastRemovedFromAppeals'), 'success');
       } catch (err: any) {
@@ -1405,18 +1482,23 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         setRecursoAppealsBoxLoadingId(null);
       }
     },
-    [refreshClients]
+    [clients, refreshClients]
   );
 
   // Data is loaded once at app startup via DataContext
   // No need to load data here - it's already available from context
 
-  // Memoize expensive filter operations
-  const submittedToAdmin = useMemo(() => 
-    clients.filter((client) => client.submitted_to_immigration),
+  // Every case box below is keyed off the resolved case stage (see utils/caseStage)
+  const clientStages = useMemo(
+    () => new Map(clients.map((client) => [client.id, getClientCaseStage(client)])),
     [clients]
   );
 
+  const submittedToAdmin = useMemo(() => 
+    clients.filter((client) => isSubmittedStage(clientStages.get(client.id)!)),
+    [clients, clientStages]
+  );
+
   const teamsToDoCount = useMemo(
     () =>
       teamMembers.reduce((sum, m) => {
@@ -1427,22 +1509,14 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
 
   // Clients ready to submit (all documents complete, not yet submitted)
   const readyToSubmit = useMemo(() => 
-    clients.filter((client) => {
-      if (client.submitted_to_immigration) return false;
-      const requiredDocs = client.required_documents?.filter((d: any) => !d.isOptional) || [];
-      return requiredDocs.length > 0 && requiredDocs.every((d: any) => d.submitted);
-    }),
-    [clients]
+    clients.filter((client) => clientStages.get(client.id) === 'ready_to_submit'),
+    [clients, clientStages]
   );
 
   // Clients with incomplete documents (pending documentation)
   const awaitingSubmission = useMemo(() => 
-    clients.filter((client) => {
-      if (client.submitted_to_immigration) return false;
-      const requiredDocs = client.required_documents?.filter((d: any) => !d.isOptional) || [];
-      return requiredDocs.length > 0 && requiredDocs.some((d: any) => !d.submitted);
-    }),
-    [clients]
+    clients.filter((client) => clientStages.get(client.id) === 'collecting_docs'),
+    [clients, clientStages]
   );
   
   // APORTAR DOCUMENTACIÓN: Clients that have APORTAR DOCUMENTACIÓN documents that are NOT uploaded (missing files)
@@ -1462,14 +1536,10 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
     [clients]
   );
 
-  // REQUERIMIENTO: Clients with pending requested documents
+  // REQUERIMIENTO: Clients answering a requirement from the administration
   const requerimiento = useMemo(() => 
-    clients.filter((client) => {
-      if (!client.submitted_to_immigration) return false;
-      const requestedDocs = client.requested_documents || [];
-      return requestedDocs.length > 0 && requestedDocs.some((d: any) => !d.submitted);
-    }),
-    [clients]
+    clients.filter((client) => clientStages.get(client.id) === 'requerimiento'),
+    [clients, clientStages]
   );
 
   // Filter reminders by type (memoized)
@@ -1544,7 +1614,8 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       const existing = map.get(key) || [];
       if (existing.some((r) => r.client_id === client.id)) continue;
 
-      const entries = parseImportantNotes(client.notes || '');
+      // Encrypted fields still locked hold a placeholder, not something to show on a reminder
+      const entries = client.notes === ENCRYPTED_PLACEHOLDER ? [] : parseImportantNotes(client.notes || '');
       const latestNote = entries.length > 0 ? entries[entries.length - 1].text : '';
       const reminderAt = new Date(followUp);
       reminderAt.setHours(9, 0, 0, 0);
@@ -1554,7 +1625,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         client_id: client.id,
         client_name: client.first_name,
         client_surname: client.last_name,
-        phone: client.phone,
+        phone: client.phone === ENCRYPTED_PLACEHOLDER ? undefined : client.phone,
         reminder_date: reminderAt.toISOString(),
         notes: latestNote ? `Important note: ${latestNote}` : 'Follow-up from Important Notes',
         reminder_type: 'RECORDATORIO',
@@ -1605,16 +1676,16 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       clients.filter(
         (c) =>
           recursoSubmittedWithDate(c) &&
-          recursoAdministrativeSilenceEnded(c) &&
-          !c.recurso_in_appeals_box
+          isAdministrativeSilenceEnded(c) &&
+          clientStages.get(c.id) !== 'appeal'
       ),
-    [clients]
+    [clients, clientStages]
   );
 
   /** Only cases the team explicitly placed in the Appeals box. */
   const recursoAppeals = useMemo(
-    () => clients.filter((c) => recursoSubmittedWithDate(c) && Boolean(c.recurso_in_appeals_box)),
-    [clients]
+    () => clients.filter((c) => recursoSubmittedWithDate(c) && clientStages.get(c.id) === 'appeal'),
+    [clients, clientStages]
   );
 
   const recursoSubmittedPipelineCount = useMemo(
@@ -1808,7 +1879,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
     visibleReminders: Reminder[],
     tone: 'amber' | 'red' = 'amber'
   ) => {
-    if (visibleReminders.length === 0) return null;
+    if (!canEditClients || visibleReminders.length === 0) return null;
     const selectedCount = selectedReminderIds[group].length;
     const panelClass =
       tone === 'red'
@@ -1958,6 +2029,17 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
     return list;
   }, [paytrackClients, paytrackFilter, paytrackQuery, paytrackSort]);
 
+  // Family mode: the matching members of each family, under totals of everyone in it with fees
+  const paytrackFamilyGroups = useMemo(() => {
+    if (paytrackGrouping !== 'family') return [];
+    const withFees = new Set(paytrackClients.map((client) => client.id));
+    return groupClientsByFamily(filteredPaytrackClients, clients).map((group) => {
+      const family = getFamilyGroup(group.members[0], clients).filter((member) => withFees.has(member.id));
+      const surnames = [...new Set(family.map((member) => member.last_name || member.first_name))];
+      return { ...group, family, label: surnames.join(' / '), totals: getFamilyPaymentTotals(family) };
+    });
+  }, [paytrackGrouping, paytrackClients, filteredPaytrackClients, clients]);
+
   // Calculate overall payment statistics (all clients)
   const overallPaymentStats = clients.reduce((acc, client) => {
     const totalFee = client.payment?.totalFee || 0;
@@ -2022,6 +2104,48 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
     );
   }
 
+  const renderPaytrackClientRow = (client: Client, inFamily = false) => {
+    const totalFee = client.payment?.totalFee || 0;
+    const paidAmount = client.payment?.paidAmount || 0;
+    const remaining = Math.max(0, totalFee - paidAmount);
+    const lastPaid = getPaytrackLastPaidPayment(client);
+    return (
+      <button
+        key={client.id}
+        type="button"
+        onClick={() =>
+          openPaytrackClient(client, { prefillPending: remaining > 0 })
+        }
+        className={`w-full flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 ${inFamily ? 'pl-10 pr-4' : 'px-4'} py-3 border-b border-slate-800/80 last:border-b-0 hover:bg-white/[0.04] transition-colors text-left`}
+      >
+        <div className="flex-1 min-w-0">
+          <p className="font-semibold text-amber-400 break-words">
+            {formatClientFullName(client)}
+          </p>
+          {client.phone ? (
+            <p className="text-xs text-amber-400 mt-0.5 truncate">{client.phone}</p>
+          ) : null}
+          {lastPaid ? (
+            <p className="text-xs text-slate-500 mt-0.5 truncate">
+              {t('dashboard.paytrackLastPaid')}: {formatPaytrackPaymentDate(lastPaid.date)}
+            </p>
+          ) : null}
+        </div>
+        <div className="flex items-center gap-2 shrink-0 self-end sm:self-auto">
+          <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-semibold text-amber-400 border border-amber-500/45 rounded-full">
+            €{totalFee.toFixed(0)}
+          </span>
+          <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-semibold text-green-400 border border-green-500/45 rounded-full">
+            €{paidAmount.toFixed(0)}
+          </span>
+          <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-semibold text-red-400 border border-red-500/45 rounded-full">
+            €{remaining.toFixed(0)}
+          </span>
+        </div>
+      </button>
+    );
+  };
+
   return (
     <div className="space-y-8 animate-fade-in">
       <div className="border-b border-amber-200/50 pb-4 sm:pb-6">
@@ -2265,7 +2389,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
             </div>
           )}
           <p className="text-xs sm:text-sm text-amber-700/70 font-medium leading-relaxed mb-1 sm:mb-2">
-            {paymentsUnlocked ? t('dashboard.pagosDesc') : 'Enter passcode to view'}
+            {paymentsUnlocked ? t('dashboard.pagosDesc') : canViewPayments ? 'Unlock with your PIN' : 'Not available for your role'}
           </p>
         </div>
 
@@ -2275,7 +2399,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
           className="glass-gold rounded-2xl p-5 sm:p-6 glass-hover animate-slide-up cursor-pointer transition-all duration-200 hover:shadow-xl relative"
           style={{ animationDelay: '0.92s' }}
         >
-          {!paytrackUnlocked && (
+          {!paymentsUnlocked && (
             <div className="absolute inset-0 bg-black/50 backdrop-blur-sm rounded-2xl flex items-center justify-center z-10">
               <div className="text-center">
                 <Lock className="w-8 h-8 sm:w-10 sm:h-10 text-white mx-auto mb-2" />
@@ -2285,7 +2409,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
           )}
           <div className="flex items-center justify-between mb-4">
             <div className="bg-gradient-to-br from-amber-100 to-amber-200 p-3 rounded-xl shadow-lg">
-              {paytrackUnlocked ? (
+              {paymentsUnlocked ? (
                 <TrendingUp className="w-6 h-6 text-amber-800" />
               ) : (
                 <Lock className="w-6 h-6 text-amber-800" />
@@ -2296,9 +2420,9 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
             </span>
           </div>
           <p className="text-3xl sm:text-4xl font-bold bg-gradient-to-r from-amber-800 to-amber-600 bg-clip-text text-transparent mb-1 sm:mb-2">
-            {paytrackUnlocked ? paytrackClients.length : '🔒'}
+            {paymentsUnlocked ? paytrackClients.length : '🔒'}
           </p>
-          {paytrackUnlocked && paytrackClients.length > 0 && (
+          {paymentsUnlocked && paytrackClients.length > 0 && (
             <div className="flex items-center gap-3 mb-2">
               {paytrackStats.behind > 0 && (
                 <div className="flex items-center gap-1.5">
@@ -2319,7 +2443,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
             </div>
           )}
           <p className="text-xs sm:text-sm text-amber-700/70 font-medium leading-relaxed mb-1 sm:mb-2">
-            {paytrackUnlocked ? t('dashboard.paytrackDesc') : 'Enter passcode to view'}
+            {paymentsUnlocked ? t('dashboard.paytrackDesc') : canViewPayments ? 'Unlock with your PIN' : 'Not available for your role'}
           </p>
         </div>
 
@@ -2329,7 +2453,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
           className="glass-gold rounded-xl sm:rounded-2xl p-4 sm:p-5 md:p-6 glass-hover animate-slide-up cursor-pointer transition-all duration-200 hover:shadow-xl active:scale-95 relative"
           style={{ animationDelay: '1s' }}
         >
-          {!overviewUnlocked && (
+          {!paymentsUnlocked && (
             <div className="absolute inset-0 bg-black/50 backdrop-blur-sm rounded-xl sm:rounded-2xl flex items-center justify-center z-10">
               <div className="text-center">
                 <Lock className="w-8 h-8 sm:w-10 sm:h-10 text-white mx-auto mb-2" />
@@ -2339,7 +2463,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
           )}
           <div className="flex items-center justify-between mb-3 sm:mb-4">
             <div className="bg-gradient-to-br from-amber-100 to-amber-200 p-2 sm:p-3 rounded-lg sm:rounded-xl shadow-lg">
-              {overviewUnlocked ? (
+              {paymentsUnlocked ? (
                 <BarChart3 className="w-5 h-5 sm:w-6 sm:h-6 text-amber-800" />
               ) : (
                 <Lock className="w-5 h-5 sm:w-6 sm:h-6 text-amber-800" />
@@ -2350,19 +2474,19 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
           <div className="space-y-2">
             <div>
               <p className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-amber-800 to-amber-600 bg-clip-text text-transparent">
-                {overviewUnlocked ? monthlyNewClients : '🔒'}
+                {paymentsUnlocked ? monthlyNewClients : '🔒'}
               </p>
               <p className="text-[10px] sm:text-xs text-amber-700/70 font-medium">New clients</p>
             </div>
             <div>
               <p className="text-2xl sm:text-3xl font-bold bg-gradient-to-r from-amber-800 to-amber-600 bg-clip-text text-transparent">
-                {overviewUnlocked ? `€${monthlyPaymentsReceived.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '🔒'}
+                {paymentsUnlocked ? `€${monthlyPaymentsReceived.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}` : '🔒'}
               </p>
               <p className="text-[10px] sm:text-xs text-amber-700/70 font-medium">Payments received</p>
             </div>
           </div>
           <p className="text-xs sm:text-sm text-amber-700/70 font-medium leading-relaxed mt-2">
-            {overviewUnlocked ? 'Monthly statistics and analytics' : 'Enter passcode to view'}
+            {paymentsUnlocked ? 'Monthly statistics and analytics' : canViewPayments ? 'Unlock with your PIN' : 'Not available for your role'}
           </p>
         </div>
 
@@ -2530,19 +2654,21 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                   <p className="text-amber-700 mt-1">{t('dashboard.aportarDocumentacionDesc')}</p>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <button
-            onClick={() => {
-              setShowAportarReminderForm(!showAportarReminderForm);
-              setEditingGenericReminder(null);
-              if (!showAportarReminderForm) {
-                setGenericReminderForm({ ...EMPTY_REMINDER_FORM });
-              }
-            }}
-                    className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
-                    title="Nuevo Recordatorio"
-                  >
-                    <Plus className="w-5 h-5" />
-                  </button>
+                  {canEditClients && (
+                    <button
+              onClick={() => {
+                setShowAportarReminderForm(!showAportarReminderForm);
+                setEditingGenericReminder(null);
+                if (!showAportarReminderForm) {
+                  setGenericReminderForm({ ...EMPTY_REMINDER_FORM });
+                }
+              }}
+                      className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+                      title="Nuevo Recordatorio"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setShowAportarDocumentacionModal(false);
@@ -2557,7 +2683,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               <DashboardModalSearchInput
                 value={dashboardModalSearch.aportar}
                 onChange={(v) => setDashboardModalSearch((s) => ({ ...s, aportar: v }))}
-                placeholder="Search by name, phone, email, case type…"
+                placeholder="Search by name, phone, email, NIE, case type…"
               />
             </div>
             <div className="flex-1 overflow-y-auto p-6">
@@ -2621,30 +2747,32 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                                 compact
                               />
                             </div>
-                            <div className="flex items-center gap-2 ml-4">
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setEditingGenericReminder(reminder);
-                                  setGenericReminderForm(reminderToEditForm(reminder));
-                                  setShowAportarReminderForm(true);
-                                }}
-                                className="p-2 text-amber-700 hover:bg-amber-200 rounded-lg transition-colors"
-                                title="Editar"
-                              >
-                                <Edit2 className="w-5 h-5" />
-                              </button>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setDeleteRequerimientoConfirm({ reminder, isOpen: true });
-                                }}
-                                className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
-                                title="Eliminar"
-                              >
-                                <Trash2 className="w-5 h-5" />
-                              </button>
-                            </div>
+                            {canEditClients && (
+                              <div className="flex items-center gap-2 ml-4">
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditingGenericReminder(reminder);
+                                    setGenericReminderForm(reminderToEditForm(reminder));
+                                    setShowAportarReminderForm(true);
+                                  }}
+                                  className="p-2 text-amber-700 hover:bg-amber-200 rounded-lg transition-colors"
+                                  title="Editar"
+                                >
+                                  <Edit2 className="w-5 h-5" />
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setDeleteRequerimientoConfirm({ reminder, isOpen: true });
+                                  }}
+                                  className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                                  title="Eliminar"
+                                >
+                                  <Trash2 className="w-5 h-5" />
+                                </button>
+                              </div>
+                            )}
                           </div>
                         </div>
                       );
@@ -2726,19 +2854,21 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                   <p className="text-amber-700 mt-1">{t('dashboard.requerimientoDesc')}</p>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => {
-                      setShowRequerimientoReminderForm(!showRequerimientoReminderForm);
-                      if (!showRequerimientoReminderForm) {
-                        setEditingRequerimientoReminder(null);
-                        setRequerimientoReminderForm({ ...EMPTY_REMINDER_FORM });
-                      }
-                    }}
-                    className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
-                    title="Nuevo REQUERIMIENTO"
-                  >
-                    <Plus className="w-5 h-5" />
-                  </button>
+                  {canEditClients && (
+                    <button
+                      onClick={() => {
+                        setShowRequerimientoReminderForm(!showRequerimientoReminderForm);
+                        if (!showRequerimientoReminderForm) {
+                          setEditingRequerimientoReminder(null);
+                          setRequerimientoReminderForm({ ...EMPTY_REMINDER_FORM });
+                        }
+                      }}
+                      className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+                      title="Nuevo REQUERIMIENTO"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setShowRequerimientoModal(false);
@@ -2754,7 +2884,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               <DashboardModalSearchInput
                 value={dashboardModalSearch.requerimiento}
                 onChange={(v) => setDashboardModalSearch((s) => ({ ...s, requerimiento: v }))}
-                placeholder="Search by name, phone, email, case type…"
+                placeholder="Search by name, phone, email, NIE, case type…"
               />
             </div>
             <div className="flex-1 overflow-y-auto p-6">
@@ -2896,13 +3026,15 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                         >
                           <div className="flex items-center justify-between gap-3">
                             <label className="flex items-start gap-3 flex-1 cursor-pointer min-w-0">
-                              <input
-                                type="checkbox"
-                                checked={selectedReminderIds.requerimiento.includes(reminder.id)}
-                                onChange={() => toggleReminderSelection('requerimiento', reminder.id)}
-                                onClick={(e) => e.stopPropagation()}
-                                className={reminderCardCheckboxClass('amber')}
-                              />
+                              {canEditClients && (
+                                <input
+                                  type="checkbox"
+                                  checked={selectedReminderIds.requerimiento.includes(reminder.id)}
+                                  onChange={() => toggleReminderSelection('requerimiento', reminder.id)}
+                                  onClick={(e) => e.stopPropagation()}
+                                  className={reminderCardCheckboxClass('amber')}
+                                />
+                              )}
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2 mb-1">
                                 <span className="px-2 py-0.5 bg-amber-600 text-white text-xs font-semibold rounded">REQUERIMIENTO</span>
@@ -2932,30 +3064,32 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                               />
                             </div>
                             </label>
-                            <div className="flex items-center gap-2 ml-4 shrink-0">
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setEditingRequerimientoReminder(reminder);
-                                  setRequerimientoReminderForm(reminderToEditForm(reminder));
-                                  setShowRequerimientoReminderForm(true);
-                                }}
-                                className="p-2 text-amber-700 hover:bg-amber-200 rounded-lg transition-colors"
-                                title="Editar"
-                              >
-                                <Edit2 className="w-5 h-5" />
-                              </button>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setDeleteRequerimientoConfirm({ reminder, isOpen: true });
-                                }}
-                                className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
-                                title="Eliminar"
-                              >
-                                <Trash2 className="w-5 h-5" />
-                              </button>
-                            </div>
+                            {canEditClients && (
+                              <div className="flex items-center gap-2 ml-4 shrink-0">
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setEditingRequerimientoReminder(reminder);
+                                    setRequerimientoReminderForm(reminderToEditForm(reminder));
+                                    setShowRequerimientoReminderForm(true);
+                                  }}
+                                  className="p-2 text-amber-700 hover:bg-amber-200 rounded-lg transition-colors"
+                                  title="Editar"
+                                >
+                                  <Edit2 className="w-5 h-5" />
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setDeleteRequerimientoConfirm({ reminder, isOpen: true });
+                                  }}
+                                  className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                                  title="Eliminar"
+                                >
+                                  <Trash2 className="w-5 h-5" />
+                                </button>
+                              </div>
+                            )}
                           </div>
                         </div>
                       );
@@ -3035,19 +3169,21 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                   <p className="text-amber-700 mt-1">{t('dashboard.recursoDesc')}</p>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <button
-            onClick={() => {
-              setShowRecursoReminderForm(!showRecursoReminderForm);
-              setEditingGenericReminder(null);
-              if (!showRecursoReminderForm) {
-                setGenericReminderForm({ ...EMPTY_REMINDER_FORM });
-              }
-            }}
-                    className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
-                    title="Nuevo Recordatorio"
-                  >
-                    <Plus className="w-5 h-5" />
-                  </button>
+                  {canEditClients && (
+                    <button
+              onClick={() => {
+                setShowRecursoReminderForm(!showRecursoReminderForm);
+                setEditingGenericReminder(null);
+                if (!showRecursoReminderForm) {
+                  setGenericReminderForm({ ...EMPTY_REMINDER_FORM });
+                }
+              }}
+                      className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+                      title="Nuevo Recordatorio"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setShowRecursoModal(false);
@@ -3063,7 +3199,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               <DashboardModalSearchInput
                 value={dashboardModalSearch.recurso}
                 onChange={(v) => setDashboardModalSearch((s) => ({ ...s, recurso: v }))}
-                placeholder="Search by name, phone, email, case type…"
+                placeholder="Search by name, phone, email, NIE, case type…"
               />
             </div>
             <div className="flex-1 overflow-y-auto p-6">
@@ -3083,13 +3219,15 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                         >
                           <div className="flex items-center justify-between gap-3">
                             <label className="flex items-start gap-3 flex-1 cursor-pointer min-w-0">
-                              <input
-                                type="checkbox"
-                                checked={selectedReminderIds.recurso.includes(reminder.id)}
-                                onChange={() => toggleReminderSelection('recurso', reminder.id)}
-                                onClick={(e) => e.stopPropagation()}
-                                className={reminderCardCheckboxClass('amber')}
-                              />
+                              {canEditClients && (
+                                <input
+                                  type="checkbox"
+                                  checked={selectedReminderIds.recurso.includes(reminder.id)}
+                                  onChange={() => toggleReminderSelection('recurso', reminder.id)}
+                                  onClick={(e) => e.stopPropagation()}
+                                  className={reminderCardCheckboxClass('amber')}
+                                />
+                              )}
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2 mb-1">
                                 <span className="px-2 py-0.5 bg-amber-600 text-white text-xs font-semibold rounded">RECURSO</span>
@@ -3119,30 +3257,32 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                               />
                             </div>
                             </label>
-                            <div className="flex items-center gap-2 ml-4 shrink-0">
-                              <button
-            onClick={(e) => {
-              e.stopPropagation();
-              setEditingGenericReminder(reminder);
-              setGenericReminderForm(reminderToEditForm(reminder));
-              setShowRecursoReminderForm(true);
-            }}
-                                className="p-2 text-amber-700 hover:bg-amber-200 rounded-lg transition-colors"
-                                title="Editar"
-                              >
-                                <Edit2 className="w-5 h-5" />
-                              </button>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setDeleteRequerimientoConfirm({ reminder, isOpen: true });
-                                }}
-                                className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
-                                title="Eliminar"
-                              >
-                                <Trash2 className="w-5 h-5" />
-                              </button>
-                            </div>
+                            {canEditClients && (
+                              <div className="flex items-center gap-2 ml-4 shrink-0">
+                                <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingGenericReminder(reminder);
+                setGenericReminderForm(reminderToEditForm(reminder));
+                setShowRecursoReminderForm(true);
+              }}
+                                  className="p-2 text-amber-700 hover:bg-amber-200 rounded-lg transition-colors"
+                                  title="Editar"
+                                >
+                                  <Edit2 className="w-5 h-5" />
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setDeleteRequerimientoConfirm({ reminder, isOpen: true });
+                                  }}
+                                  className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                                  title="Eliminar"
+                                >
+                                  <Trash2 className="w-5 h-5" />
+                                </button>
+                              </div>
+                            )}
                           </div>
                         </div>
                       );
@@ -3291,20 +3431,22 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                                   </div>
                                   <Gavel className="w-5 h-5 sm:w-6 sm:h-6 text-red-600 shrink-0" aria-hidden />
                                 </div>
-                                <div
-                                  className="mt-2 pt-2 border-t border-red-300 flex justify-end"
-                                  onClick={(e) => e.stopPropagation()}
-                                >
-                                  <button
-                                    type="button"
-                                    disabled={recursoAppealsBoxLoadingId === client.id}
-                                    onClick={(e) => void handleRecursoRemoveFromAppealsBox(client.id, e)}
-                                    className="inline-flex items-center gap-1 rounded-lg border-2 border-red-600 bg-white px-2.5 py-1.5 text-[10px] sm:text-xs font-bold text-red-700 hover:bg-red-50 disabled:opacity-50"
+                                {canEditClients && (
+                                  <div
+                                    className="mt-2 pt-2 border-t border-red-300 flex justify-end"
+                                    onClick={(e) => e.stopPropagation()}
                                   >
-                                    <Undo2 className="w-3.5 h-3.5 shrink-0" aria-hidden />
-                                    {t('dashboard.recursoModalRemoveFromOption1')}
-                                  </button>
-                                </div>
+                                    <button
+                                      type="button"
+                                      disabled={recursoAppealsBoxLoadingId === client.id}
+                                      onClick={(e) => void handleRecursoRemoveFromAppealsBox(client.id, e)}
+                                      className="inline-flex items-center gap-1 rounded-lg border-2 border-red-600 bg-white px-2.5 py-1.5 text-[10px] sm:text-xs font-bold text-red-700 hover:bg-red-50 disabled:opacity-50"
+                                    >
+                                      <Undo2 className="w-3.5 h-3.5 shrink-0" aria-hidden />
+                                      {t('dashboard.recursoModalRemoveFromOption1')}
+                                    </button>
+                                  </div>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -3361,20 +3503,22 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                                   </div>
                                   <Hourglass className="w-5 h-5 sm:w-6 sm:h-6 text-amber-700 shrink-0" aria-hidden />
                                 </div>
-                                <div
-                                  className="mt-2 pt-2 border-t border-amber-200 flex justify-end"
-                                  onClick={(e) => e.stopPropagation()}
-                                >
-                                  <button
-                                    type="button"
-                                    disabled={recursoAppealsBoxLoadingId === client.id}
-                                    onClick={(e) => void handleRecursoMoveToAppealsBox(client.id, e)}
-                                    className="inline-flex items-center gap-1 rounded-lg bg-amber-600 px-2.5 py-1.5 text-[10px] sm:text-xs font-semibold text-white hover:bg-amber-700 disabled:opacity-50"
+                                {canEditClients && (
+                                  <div
+                                    className="mt-2 pt-2 border-t border-amber-200 flex justify-end"
+                                    onClick={(e) => e.stopPropagation()}
                                   >
-                                    <ArrowRight className="w-3.5 h-3.5 shrink-0" aria-hidden />
-                                    {t('dashboard.recursoModalMoveToOption1')}
-                                  </button>
-                                </div>
+                                    <button
+                                      type="button"
+                                      disabled={recursoAppealsBoxLoadingId === client.id}
+                                      onClick={(e) => void handleRecursoMoveToAppealsBox(client.id, e)}
+                                      className="inline-flex items-center gap-1 rounded-lg bg-amber-600 px-2.5 py-1.5 text-[10px] sm:text-xs font-semibold text-white hover:bg-amber-700 disabled:opacity-50"
+                                    >
+                                      <ArrowRight className="w-3.5 h-3.5 shrink-0" aria-hidden />
+                                      {t('dashboard.recursoModalMoveToOption1')}
+                                    </button>
+                                  </div>
+                                )}
                               </div>
                             ))}
                           </div>
@@ -3401,19 +3545,21 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                   <p className="text-red-700 mt-1">{t('dashboard.urgentesDesc')}</p>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <button
-            onClick={() => {
-              setShowUrgentesReminderForm(!showUrgentesReminderForm);
-              setEditingGenericReminder(null);
-              if (!showUrgentesReminderForm) {
-                setGenericReminderForm({ ...EMPTY_REMINDER_FORM });
-              }
-            }}
-                    className="p-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
-                    title="Nuevo Recordatorio"
-                  >
-                    <Plus className="w-5 h-5" />
-                  </button>
+                  {canEditClients && (
+                    <button
+              onClick={() => {
+                setShowUrgentesReminderForm(!showUrgentesReminderForm);
+                setEditingGenericReminder(null);
+                if (!showUrgentesReminderForm) {
+                  setGenericReminderForm({ ...EMPTY_REMINDER_FORM });
+                }
+              }}
+                      className="p-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors"
+                      title="Nuevo Recordatorio"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setShowUrgentesModal(false);
@@ -3450,13 +3596,15 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                         >
                           <div className="flex items-center justify-between gap-3">
                             <label className="flex items-start gap-3 flex-1 cursor-pointer min-w-0">
-                              <input
-                                type="checkbox"
-                                checked={selectedReminderIds.urgentes.includes(reminder.id)}
-                                onChange={() => toggleReminderSelection('urgentes', reminder.id)}
-                                onClick={(e) => e.stopPropagation()}
-                                className={reminderCardCheckboxClass('red')}
-                              />
+                              {canEditClients && (
+                                <input
+                                  type="checkbox"
+                                  checked={selectedReminderIds.urgentes.includes(reminder.id)}
+                                  onChange={() => toggleReminderSelection('urgentes', reminder.id)}
+                                  onClick={(e) => e.stopPropagation()}
+                                  className={reminderCardCheckboxClass('red')}
+                                />
+                              )}
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2 mb-1">
                                 <span className="px-2 py-0.5 bg-red-600 text-white text-xs font-semibold rounded">URGENTES</span>
@@ -3491,30 +3639,32 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                               />
                             </div>
                             </label>
-                            <div className="flex items-center gap-2 ml-4 shrink-0">
-                              <button
-            onClick={(e) => {
-              e.stopPropagation();
-              setEditingGenericReminder(reminder);
-              setGenericReminderForm(reminderToEditForm(reminder));
-              setShowUrgentesReminderForm(true);
-            }}
-                                className="p-2 text-red-700 hover:bg-red-200 rounded-lg transition-colors"
-                                title="Editar"
-                              >
-                                <Edit2 className="w-5 h-5" />
-                              </button>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setDeleteRequerimientoConfirm({ reminder, isOpen: true });
-                                }}
-                                className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
-                                title="Eliminar"
-                              >
-                                <Trash2 className="w-5 h-5" />
-                              </button>
-                            </div>
+                            {canEditClients && (
+                              <div className="flex items-center gap-2 ml-4 shrink-0">
+                                <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingGenericReminder(reminder);
+                setGenericReminderForm(reminderToEditForm(reminder));
+                setShowUrgentesReminderForm(true);
+              }}
+                                  className="p-2 text-red-700 hover:bg-red-200 rounded-lg transition-colors"
+                                  title="Editar"
+                                >
+                                  <Edit2 className="w-5 h-5" />
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setDeleteRequerimientoConfirm({ reminder, isOpen: true });
+                                  }}
+                                  className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                                  title="Eliminar"
+                                >
+                                  <Trash2 className="w-5 h-5" />
+                                </button>
+                              </div>
+                            )}
                           </div>
                         </div>
                       );
@@ -3592,35 +3742,37 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                               compact
                             />
                           </div>
-                          <div className="flex items-center gap-2 ml-4 shrink-0">
-                            <button
-                              type="button"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                setEditingReminder(reminder);
-                                setReminderForm({
-                                  client_id: reminder.client_id || '',
-                                  ...reminderToEditForm(reminder),
-                                });
-                                setShowReminderForm(true);
-                              }}
-                              className="p-2 text-red-700 hover:bg-red-200 rounded-lg transition-colors"
-                              title="Editar"
-                            >
-                              <Edit2 className="w-5 h-5" />
-                            </button>
-                            <button
-                              type="button"
-                              onClick={(e) => {
-                                e.stopPropagation();
-                                setDeleteConfirm({ isOpen: true, reminder });
-                              }}
-                              className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
-                              title="Eliminar"
-                            >
-                              <Trash2 className="w-5 h-5" />
-                            </button>
-                          </div>
+                          {canEditClients && (
+                            <div className="flex items-center gap-2 ml-4 shrink-0">
+                              <button
+                                type="button"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setEditingReminder(reminder);
+                                  setReminderForm({
+                                    client_id: reminder.client_id || '',
+                                    ...reminderToEditForm(reminder),
+                                  });
+                                  setShowReminderForm(true);
+                                }}
+                                className="p-2 text-red-700 hover:bg-red-200 rounded-lg transition-colors"
+                                title="Editar"
+                              >
+                                <Edit2 className="w-5 h-5" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={(e) => {
+                                  e.stopPropagation();
+                                  setDeleteConfirm({ isOpen: true, reminder });
+                                }}
+                                className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                                title="Eliminar"
+                              >
+                                <Trash2 className="w-5 h-5" />
+                              </button>
+                            </div>
+                          )}
                         </div>
                       </div>
                     );
@@ -3682,17 +3834,19 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                   <p className="text-amber-700 mt-1">{t('dashboard.recordatorioDesc')}</p>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <button
-                    onClick={() => {
-                      setShowReminderForm(true);
-                      setEditingReminder(null);
-                      setReminderForm({ client_id: '', ...EMPTY_REMINDER_FORM });
-                    }}
-                    className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
-                    title="Add Reminder"
-                  >
-                    <Plus className="w-5 h-5" />
-                  </button>
+                  {canEditClients && (
+                    <button
+                      onClick={() => {
+                        setShowReminderForm(true);
+                        setEditingReminder(null);
+                        setReminderForm({ client_id: '', ...EMPTY_REMINDER_FORM });
+                      }}
+                      className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+                      title="Add Reminder"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setShowRecordatorioModal(false);
@@ -3756,13 +3910,15 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                       >
                         <div className="flex items-start justify-between gap-3">
                           <label className="flex items-start gap-3 flex-1 cursor-pointer min-w-0">
-                            <input
-                              type="checkbox"
-                              checked={selectedReminderIds.recordatorio.includes(reminder.id)}
-                              onChange={() => toggleReminderSelection('recordatorio', reminder.id)}
-                              onClick={(e) => e.stopPropagation()}
-                              className={reminderCardCheckboxClass('amber')}
-                            />
+                            {canEditClients && (
+                              <input
+                                type="checkbox"
+                                checked={selectedReminderIds.recordatorio.includes(reminder.id)}
+                                onChange={() => toggleReminderSelection('recordatorio', reminder.id)}
+                                onClick={(e) => e.stopPropagation()}
+                                className={reminderCardCheckboxClass('amber')}
+                              />
+                            )}
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center space-x-2 mb-2">
                               <h3 className="font-bold text-amber-900 text-lg">
@@ -3806,34 +3962,36 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                             )}
                           </div>
                           </label>
-                          <div className="flex items-center space-x-2 ml-4 shrink-0">
-                            <button
-                              onClick={() => {
-                                setEditingReminder(reminder);
-                                setReminderForm({
-                                  client_id: reminder.client_id,
-                                  ...reminderToEditForm(reminder),
-                                });
-                                setShowReminderForm(true);
-                              }}
-                              className="p-2 text-amber-600 hover:bg-amber-100 rounded-lg transition-colors"
-                              title="Edit"
-                            >
-                              <Edit2 className="w-4 h-4" />
-                            </button>
-                            <button
-                              onClick={() => {
-                                setDeleteConfirm({
-                                  isOpen: true,
-                                  reminder: reminder,
-                                });
-                              }}
-                              className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
-                              title="Delete"
-                            >
-                              <Trash2 className="w-4 h-4" />
-                            </button>
-                          </div>
+                          {canEditClients && (
+                            <div className="flex items-center space-x-2 ml-4 shrink-0">
+                              <button
+                                onClick={() => {
+                                  setEditingReminder(reminder);
+                                  setReminderForm({
+                                    client_id: reminder.client_id,
+                                    ...reminderToEditForm(reminder),
+                                  });
+                                  setShowReminderForm(true);
+                                }}
+                                className="p-2 text-amber-600 hover:bg-amber-100 rounded-lg transition-colors"
+                                title="Edit"
+                              >
+                                <Edit2 className="w-4 h-4" />
+                              </button>
+                              <button
+                                onClick={() => {
+                                  setDeleteConfirm({
+                                    isOpen: true,
+                                    reminder: reminder,
+                                  });
+                                }}
+                                className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                                title="Delete"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
                         </div>
                       </div>
                     );
@@ -3872,12 +4030,10 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                   const reminderData = buildReminderPayload(reminderForm, {
                     client_id: reminderForm.client_id || '',
                   });
-                  if (editingReminder) {
-                    await api.updateReminder(editingReminder.id, reminderData);
-                  } else {
-                    await api.createReminder(reminderData);
-                  }
-                  await refreshAll();
+                  const { queued } = editingReminder
+                    ? await runMutation({ type: 'update_reminder', reminderId: editingReminder.id, data: reminderData })
+                    : await runMutation({ type: 'create_reminder', tempId: newOfflineId(), data: reminderData });
+                  if (!queued) await refreshAll();
                   setShowReminderForm(false);
                   setEditingReminder(null);
                   setReminderForm({ client_id: '', ...EMPTY_REMINDER_FORM });
@@ -3969,109 +4125,14 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         </div>
       )}
 
-      {/* Passcode Modal */}
-      {showPasscodeModal && (
-        <div 
-          className="fixed inset-0 z-[110] flex items-center justify-center p-4 animate-fade-in"
-          onClick={(e) => {
-            if (e.target === e.currentTarget) {
-              setShowPasscodeModal(false);
-              setPasscodeInput('');
-              setPasscodeError('');
-              setUnlockingFeature(null);
-            }
-          }}
-          style={{
-            background: 'linear-gradient(135deg, rgba(15, 23, 42, 0.85) 0%, rgba(30, 41, 59, 0.9) 50%, rgba(15, 23, 42, 0.85) 100%)',
-            backdropFilter: 'blur(20px) saturate(180%)',
-            WebkitBackdropFilter: 'blur(20px) saturate(180%)',
-          }}
-        >
-          <div 
-            className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-scale-in"
-            onClick={(e) => e.stopPropagation()}
-          >
-            <div className="flex items-center justify-between mb-6">
-              <div className="flex items-center space-x-3">
-                <div className="p-3 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
-                  <Lock className="w-6 h-6 text-amber-800" />
-                </div>
-                <div>
-                  <h2 className="text-2xl font-bold text-gray-900">
-                    {unlockingFeature === 'overview'
-                      ? 'Overview Access'
-                      : unlockingFeature === 'paytrack'
-                        ? 'PayTrack Access'
-                        : 'Payment Access'}
-                  </h2>
-                  <p className="text-sm text-gray-600 mt-0.5">
-                    {unlockingFeature === 'overview'
-                      ? 'Enter passcode to view overview'
-                      : unlockingFeature === 'paytrack'
-                        ? 'Enter passcode to view PayTrack'
-                        : 'Enter passcode to view payments'}
-                  </p>
-                </div>
-              </div>
-              <button
-                onClick={() => {
-                  setShowPasscodeModal(false);
-                  setPasscodeInput('');
-                  setPasscodeError('');
-                  setUnlockingFeature(null);
-                }}
-                className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors"
-              >
-                <X className="w-5 h-5" />
-              </button>
-            </div>
-
-            <form onSubmit={handlePasscodeSubmit} className="space-y-4">
-              <div>
-                <label className="block text-sm font-medium text-gray-700 mb-2">Passcode</label>
-                <input
-                  type="password"
-                  value={passcodeInput}
-                  onChange={(e) => {
-                    setPasscodeInput(e.target.value);
-                    setPasscodeError('');
-                  }}
-                  className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none text-center text-2xl tracking-widest font-mono"
-                  placeholder="••••"
-                  autoFocus
-                  maxLength={10}
-                />
-                {passcodeError && (
-                  <p className="mt-2 text-sm text-red-600 flex items-center space-x-1">
-                    <AlertCircle className="w-4 h-4" />
-                    <span>{passcodeError}</span>
-                  </p>
-                )}
-              </div>
-
-              <div className="flex space-x-3 pt-2">
-                <button
-                  type="button"
-                  onClick={() => {
-                    setShowPasscodeModal(false);
-                    setPasscodeInput('');
-                    setPasscodeError('');
-                    setUnlockingFeature(null);
-                  }}
-                  className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-xl hover:bg-gray-200 transition-colors font-semibold"
-                >
-                  Cancel
-                </button>
-                <button
-                  type="submit"
-                  className="flex-1 px-4 py-3 bg-gradient-to-r from-amber-600 to-amber-700 text-white rounded-xl hover:shadow-xl transition-all font-semibold shadow-lg"
-                >
-                  Unlock
-                </button>
-              </div>
-            </form>
-          </div>
-        </div>
+      {/* Payment Unlock Modal */}
+      {unlockingFeature && (
+        <PaymentUnlockDialog
+          feature={unlockingFeature}
+          hasPin={Boolean(currentUser?.has_payment_pin)}
+          onUnlocked={handlePaymentUnlocked}
+          onClose={() => setUnlockingFeature(null)}
+        />
       )}
 
       {/* PAGOS Modal */}
@@ -4085,19 +4146,21 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                   <p className="text-amber-700 mt-1">{t('dashboard.pagosDesc')}</p>
                 </div>
                 <div className="flex items-center space-x-2">
-                  <button
-            onClick={() => {
-              setShowPagosReminderForm(!showPagosReminderForm);
-              setEditingGenericReminder(null);
-              if (!showPagosReminderForm) {
-                setGenericReminderForm({ ...EMPTY_REMINDER_FORM });
-              }
-            }}
-                    className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
-                    title="Nuevo Recordatorio"
-                  >
-                    <Plus className="w-5 h-5" />
-                  </button>
+                  {canEditClients && (
+                    <button
+              onClick={() => {
+                setShowPagosReminderForm(!showPagosReminderForm);
+                setEditingGenericReminder(null);
+                if (!showPagosReminderForm) {
+                  setGenericReminderForm({ ...EMPTY_REMINDER_FORM });
+                }
+              }}
+                      className="p-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 transition-colors"
+                      title="Nuevo Recordatorio"
+                    >
+                      <Plus className="w-5 h-5" />
+                    </button>
+                  )}
                   <button
                     onClick={() => {
                       setShowPagosModal(false);
@@ -4128,13 +4191,15 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                         >
                           <div className="flex items-center justify-between gap-3">
                             <label className="flex items-start gap-3 flex-1 cursor-pointer min-w-0">
-                              <input
-                                type="checkbox"
-                                checked={selectedReminderIds.pagos.includes(reminder.id)}
-                                onChange={() => toggleReminderSelection('pagos', reminder.id)}
-                                onClick={(e) => e.stopPropagation()}
-                                className={reminderCardCheckboxClass('amber')}
-                              />
+                              {canEditClients && (
+                                <input
+                                  type="checkbox"
+                                  checked={selectedReminderIds.pagos.includes(reminder.id)}
+                                  onChange={() => toggleReminderSelection('pagos', reminder.id)}
+                                  onClick={(e) => e.stopPropagation()}
+                                  className={reminderCardCheckboxClass('amber')}
+                                />
+                              )}
                             <div className="flex-1 min-w-0">
                               <div className="flex items-center gap-2 mb-1">
                                 <span className="px-2 py-0.5 bg-amber-600 text-white text-xs font-semibold rounded">PAGOS</span>
@@ -4164,30 +4229,32 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                               />
                             </div>
                             </label>
-                            <div className="flex items-center gap-2 ml-4 shrink-0">
-                              <button
-            onClick={(e) => {
-              e.stopPropagation();
-              setEditingGenericReminder(reminder);
-              setGenericReminderForm(reminderToEditForm(reminder));
-              setShowPagosReminderForm(true);
-            }}
-                                className="p-2 text-amber-700 hover:bg-amber-200 rounded-lg transition-colors"
-                                title="Editar"
-                              >
-                                <Edit2 className="w-5 h-5" />
-                              </button>
-                              <button
-                                onClick={(e) => {
-                                  e.stopPropagation();
-                                  setDeleteRequerimientoConfirm({ reminder, isOpen: true });
-                                }}
-                                className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
-                                title="Eliminar"
-                              >
-                                <Trash2 className="w-5 h-5" />
-                              </button>
-                            </div>
+                            {canEditClients && (
+                              <div className="flex items-center gap-2 ml-4 shrink-0">
+                                <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setEditingGenericReminder(reminder);
+                setGenericReminderForm(reminderToEditForm(reminder));
+                setShowPagosReminderForm(true);
+              }}
+                                  className="p-2 text-amber-700 hover:bg-amber-200 rounded-lg transition-colors"
+                                  title="Editar"
+                                >
+                                  <Edit2 className="w-5 h-5" />
+                                </button>
+                                <button
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    setDeleteRequerimientoConfirm({ reminder, isOpen: true });
+                                  }}
+                                  className="p-2 text-red-600 hover:bg-red-100 rounded-lg transition-colors"
+                                  title="Eliminar"
+                                >
+                                  <Trash2 className="w-5 h-5" />
+                                </button>
+                              </div>
+                            )}
                           </div>
                         </div>
                       );
@@ -4225,18 +4292,20 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               </div>
 
               {/* Add Payment Button */}
-              <div className="mb-4">
-                <button
-                  onClick={() => setShowPaymentForm(!showPaymentForm)}
-                  className="w-full sm:w-auto px-4 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2"
-                >
-                  <Plus className="w-4 h-4" />
-                  <span>{t('dashboard.addPayment') || 'ADD Payment'}</span>
-                </button>
-              </div>
+              {canEditPayments && (
+                <div className="mb-4">
+                  <button
+                    onClick={() => setShowPaymentForm(!showPaymentForm)}
+                    className="w-full sm:w-auto px-4 py-2 bg-green-600 text-white text-sm rounded-lg hover:bg-green-700 transition-colors flex items-center justify-center space-x-2"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>{t('dashboard.addPayment') || 'ADD Payment'}</span>
+                  </button>
+                </div>
+              )}
 
               {/* Payment Form */}
-              {showPaymentForm && (
+              {showPaymentForm && canEditPayments && (
                 <form onSubmit={handleAddPayment} className="mb-6 p-4 bg-green-50 rounded-lg border border-green-200">
                   <h3 className="text-lg font-semibold text-green-900 mb-4">Add Payment</h3>
                   <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
@@ -4488,7 +4557,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       )}
 
       {/* PAYTRACK Modal */}
-      {showPayTrackModal && paytrackUnlocked && (
+      {showPayTrackModal && paymentsUnlocked && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
           <div className="bg-white rounded-xl sm:rounded-2xl max-w-4xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-hidden flex flex-col m-2 sm:m-0">
             <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-amber-50 to-amber-100">
@@ -4548,26 +4617,28 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               </div>
 
               <div className="mb-4">
-                <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-xl">
-                  <div className="flex items-center justify-between mb-2 gap-2">
-                    <p className="text-sm font-semibold text-amber-900">{t('dashboard.paytrackQuickNote')}</p>
-                    <span className="text-[11px] text-amber-700 text-right">{t('dashboard.paytrackQuickNoteHint')}</span>
+                {canEditPayments && (
+                  <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-xl">
+                    <div className="flex items-center justify-between mb-2 gap-2">
+                      <p className="text-sm font-semibold text-amber-900">{t('dashboard.paytrackQuickNote')}</p>
+                      <span className="text-[11px] text-amber-700 text-right">{t('dashboard.paytrackQuickNoteHint')}</span>
+                    </div>
+                    <textarea
+                      value={paytrackQuickNote}
+                      onChange={(e) => setPaytrackQuickNote(e.target.value)}
+                      rows={2}
+                      placeholder={t('dashboard.paytrackQuickNotePlaceholder')}
+                      className="w-full bg-white rounded-xl px-3 py-2 outline-none resize-none border border-amber-200 focus:ring-2 focus:ring-amber-400 focus:border-amber-400"
+                    />
+                    <button
+                      onClick={handlePaytrackQuickNote}
+                      disabled={paytrackQuickNoteSaving || !paytrackQuickNote.trim()}
+                      className="mt-2 w-full sm:w-auto px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
+                    >
+                      {paytrackQuickNoteSaving ? t('common.loading') : t('dashboard.paytrackQuickNoteSave')}
+                    </button>
                   </div>
-                  <textarea
-                    value={paytrackQuickNote}
-                    onChange={(e) => setPaytrackQuickNote(e.target.value)}
-                    rows={2}
-                    placeholder={t('dashboard.paytrackQuickNotePlaceholder')}
-                    className="w-full bg-white rounded-xl px-3 py-2 outline-none resize-none border border-amber-200 focus:ring-2 focus:ring-amber-400 focus:border-amber-400"
-                  />
-                  <button
-                    onClick={handlePaytrackQuickNote}
-                    disabled={paytrackQuickNoteSaving || !paytrackQuickNote.trim()}
-                    className="mt-2 w-full sm:w-auto px-4 py-2 bg-amber-600 text-white rounded-lg hover:bg-amber-700 disabled:opacity-60 disabled:cursor-not-allowed transition-colors"
-                  >
-                    {paytrackQuickNoteSaving ? t('common.loading') : t('dashboard.paytrackQuickNoteSave')}
-                  </button>
-                </div>
+                )}
 
                 <div className="relative">
                   <Search className="absolute left-3 top-1/2 -translate-y-1/2 text-amber-600/70 w-4 h-4" />
@@ -4617,6 +4688,21 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                           : t('dashboard.paytrackSortName')}
                     </button>
                   ))}
+                  <span className="text-xs text-amber-800/70 ml-2">View:</span>
+                  {(['person', 'family'] as const).map((g) => (
+                    <button
+                      key={g}
+                      type="button"
+                      onClick={() => setPaytrackGrouping(g)}
+                      className={`text-xs px-3 py-1.5 rounded-full border transition ${
+                        paytrackGrouping === g
+                          ? 'bg-amber-600 text-white border-amber-700'
+                          : 'bg-white border-amber-200 text-amber-700'
+                      }`}
+                    >
+                      {g === 'person' ? 'Per person' : 'Per family'}
+                    </button>
+                  ))}
                 </div>
               </div>
 
@@ -4667,14 +4753,16 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                         </span>
                       )}
                     </h2>
-                    <button
-                      type="button"
-                      onClick={() => setShowPaytrackAddClient(true)}
-                      className="inline-flex items-center gap-2.5 text-lg font-bold px-6 py-3 rounded-2xl bg-amber-400 text-black hover:bg-amber-300 transition shadow-md min-h-[48px]"
-                    >
-                      <Plus className="w-6 h-6 stroke-[2.5]" />
-                      {t('dashboard.paytrackNew')}
-                    </button>
+                    {canEditPayments && canEditClients && (
+                      <button
+                        type="button"
+                        onClick={() => setShowPaytrackAddClient(true)}
+                        className="inline-flex items-center gap-2.5 text-lg font-bold px-6 py-3 rounded-2xl bg-amber-400 text-black hover:bg-amber-300 transition shadow-md min-h-[48px]"
+                      >
+                        <Plus className="w-6 h-6 stroke-[2.5]" />
+                        {t('dashboard.paytrackNew')}
+                      </button>
+                    )}
                   </div>
 
                   <div className="hidden sm:flex items-center px-4 py-2.5 border-b border-slate-800/80">
@@ -4699,47 +4787,41 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                         : 'No matches for these filters.'}
                     </p>
                   ) : (
-                    filteredPaytrackClients.map((client) => {
-                      const totalFee = client.payment?.totalFee || 0;
-                      const paidAmount = client.payment?.paidAmount || 0;
-                      const remaining = Math.max(0, totalFee - paidAmount);
-                      const lastPaid = getPaytrackLastPaidPayment(client);
-                      return (
-                        <button
-                          key={client.id}
-                          type="button"
-                          onClick={() =>
-                            openPaytrackClient(client, { prefillPending: remaining > 0 })
-                          }
-                          className="w-full flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 px-4 py-3 border-b border-slate-800/80 last:border-b-0 hover:bg-white/[0.04] transition-colors text-left"
-                        >
-                          <div className="flex-1 min-w-0">
-                            <p className="font-semibold text-amber-400 break-words">
-                              {formatClientFullName(client)}
-                            </p>
-                            {client.phone ? (
-                              <p className="text-xs text-amber-400 mt-0.5 truncate">{client.phone}</p>
-                            ) : null}
-                            {lastPaid ? (
-                              <p className="text-xs text-slate-500 mt-0.5 truncate">
-                                {t('dashboard.paytrackLastPaid')}: {formatPaytrackPaymentDate(lastPaid.date)}
-                              </p>
-                            ) : null}
-                          </div>
-                          <div className="flex items-center gap-2 shrink-0 self-end sm:self-auto">
-                            <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-semibold text-amber-400 border border-amber-500/45 rounded-full">
-                              €{totalFee.toFixed(0)}
-                            </span>
-                            <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-semibold text-green-400 border border-green-500/45 rounded-full">
-                              €{paidAmount.toFixed(0)}
-                            </span>
-                            <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-semibold text-red-400 border border-red-500/45 rounded-full">
-                              €{remaining.toFixed(0)}
-                            </span>
+                    paytrackGrouping === 'family' ? (
+                      paytrackFamilyGroups.map((group) =>
+                        group.family.length <= 1 ? (
+                          renderPaytrackClientRow(group.members[0])
+                        ) : (
+                          <div key={group.key} className="border-b border-slate-800/80 last:border-b-0">
+                            <div className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3 px-4 py-2.5 bg-white/[0.03]">
+                              <div className="flex-1 min-w-0 flex items-center gap-2">
+                                <Users className="w-4 h-4 text-slate-400 shrink-0" />
+                                <p className="text-sm font-semibold text-slate-200 truncate">
+                                  {group.label}
+                                </p>
+                                <span className="text-xs text-slate-500 shrink-0">
+                                  {group.family.length} people
+                                </span>
+                              </div>
+                              <div className="flex items-center gap-2 shrink-0 self-end sm:self-auto">
+                                <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-bold text-black bg-amber-400 rounded-full">
+                                  €{group.totals.totalFee.toFixed(0)}
+                                </span>
+                                <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-bold text-black bg-green-400 rounded-full">
+                                  €{group.totals.paidAmount.toFixed(0)}
+                                </span>
+                                <span className="inline-flex min-w-[4.75rem] justify-center px-2.5 py-1 text-xs font-bold text-black bg-red-400 rounded-full">
+                                  €{group.totals.pending.toFixed(0)}
+                                </span>
+                              </div>
+                            </div>
+                            {group.members.map((client) => renderPaytrackClientRow(client, true))}
                           </div>
-                        </button>
-                      );
-                    })
+                        )
+                      )
+                    ) : (
+                      filteredPaytrackClients.map((client) => renderPaytrackClientRow(client))
+                    )
                   )}
                 </div>
               )}
@@ -4913,7 +4995,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
       )}
 
       {/* Overview Modal */}
-      {showOverviewModal && overviewUnlocked && (
+      {showOverviewModal && paymentsUnlocked && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
           <div className="bg-white rounded-xl sm:rounded-2xl max-w-4xl w-full max-h-[95vh] sm:max-h-[90vh] overflow-hidden flex flex-col m-2 sm:m-0">
             <div className="p-6 border-b border-gray-200 bg-gradient-to-r from-amber-50 to-amber-100">
@@ -5419,17 +5501,19 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                     <p className="text-xl font-semibold text-amber-600">
                       {paytrackClientView.phone || 'No phone'}
                     </p>
-                    <button
-                      type="button"
-                      onClick={() => {
-                        setPaytrackPhoneDraft(paytrackClientView.phone || '');
-                        setPaytrackEditingPhone(true);
-                      }}
-                      className="p-1 text-amber-600 hover:text-amber-800"
-                      title="Edit phone"
-                    >
-                      <Edit2 className="w-4 h-4" />
-                    </button>
+                    {canEditClients && (
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setPaytrackPhoneDraft(paytrackClientView.phone || '');
+                          setPaytrackEditingPhone(true);
+                        }}
+                        className="p-1 text-amber-600 hover:text-amber-800"
+                        title="Edit phone"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                    )}
                   </>
                 )}
               </div>
@@ -5470,17 +5554,19 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                     ) : (
                       <div className="flex items-center gap-2">
                         <span className="text-amber-700 text-3xl font-semibold">€{totals.honorarios.toFixed(0)}</span>
-                        <button
-                          type="button"
-                          onClick={() => {
-                            setPaytrackTotalFeeDraft(String(totals.honorarios));
-                            setPaytrackEditingTotalFee(true);
-                          }}
-                          className="p-1 text-amber-700 hover:text-amber-900"
-                          title="Edit honorarios"
-                        >
-                          <Edit2 className="w-4 h-4" />
-                        </button>
+                        {canEditPayments && (
+                          <button
+                            type="button"
+                            onClick={() => {
+                              setPaytrackTotalFeeDraft(String(totals.honorarios));
+                              setPaytrackEditingTotalFee(true);
+                            }}
+                            className="p-1 text-amber-700 hover:text-amber-900"
+                            title="Edit honorarios"
+                          >
+                            <Edit2 className="w-4 h-4" />
+                          </button>
+                        )}
                       </div>
                     )}
                   </div>
@@ -5523,67 +5609,69 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               </button>
             )}
 
-            <form onSubmit={handlePaytrackClientAddEntry} className="mt-5 glass-gold border border-amber-200 rounded-3xl p-5">
-              <p className="text-xl font-semibold text-slate-900 mb-1">Add payment or fee</p>
-              <p className="text-xs text-amber-800/80 mb-4">
-                Payment = money received. Honorarios = case fee. Extra fee = additional work (both increase pending).
-              </p>
-              <div className="flex flex-col sm:flex-row gap-2">
+            {canEditPayments && (
+              <form onSubmit={handlePaytrackClientAddEntry} className="mt-5 glass-gold border border-amber-200 rounded-3xl p-5">
+                <p className="text-xl font-semibold text-slate-900 mb-1">Add payment or fee</p>
+                <p className="text-xs text-amber-800/80 mb-4">
+                  Payment = money received. Honorarios = case fee. Extra fee = additional work (both increase pending).
+                </p>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <input
+                    value={paytrackClientEntry.amount}
+                    onChange={(e) => setPaytrackClientEntry((s) => ({ ...s, amount: e.target.value }))}
+                    placeholder="0"
+                    className="flex-1 bg-white border border-amber-200 rounded-2xl px-4 py-3 text-xl outline-none focus:ring-2 focus:ring-amber-400"
+                    required
+                  />
+                  <select
+                    value={paytrackClientEntry.type}
+                    onChange={(e) =>
+                      setPaytrackClientEntry((s) => ({
+                        ...s,
+                        type: e.target.value as PaytrackEntryType,
+                      }))
+                    }
+                    className="bg-white border border-amber-200 rounded-2xl px-3 py-3 sm:min-w-[180px] outline-none focus:ring-2 focus:ring-amber-400"
+                  >
+                    <option value="payment">PAYMENT</option>
+                    <option value="honorario">HONORARIOS</option>
+                    <option value="service_fee">EXTRA FEE</option>
+                  </select>
+                </div>
                 <input
-                  value={paytrackClientEntry.amount}
-                  onChange={(e) => setPaytrackClientEntry((s) => ({ ...s, amount: e.target.value }))}
-                  placeholder="0"
-                  className="flex-1 bg-white border border-amber-200 rounded-2xl px-4 py-3 text-xl outline-none focus:ring-2 focus:ring-amber-400"
-                  required
-                />
-                <select
-                  value={paytrackClientEntry.type}
-                  onChange={(e) =>
-                    setPaytrackClientEntry((s) => ({
-                      ...s,
-                      type: e.target.value as PaytrackEntryType,
-                    }))
+                  value={paytrackClientEntry.note}
+                  onChange={(e) => setPaytrackClientEntry((s) => ({ ...s, note: e.target.value }))}
+                  placeholder={
+                    paytrackClientEntry.type === 'payment'
+                      ? 'Notes (optional)'
+                      : paytrackClientEntry.type === 'honorario'
+                        ? 'Honorarios note (optional) — e.g. initial case fee'
+                        : 'Extra fee note (optional) — e.g. extra document review'
                   }
-                  className="bg-white border border-amber-200 rounded-2xl px-3 py-3 sm:min-w-[180px] outline-none focus:ring-2 focus:ring-amber-400"
-                >
-                  <option value="payment">PAYMENT</option>
-                  <option value="honorario">HONORARIOS</option>
-                  <option value="service_fee">EXTRA FEE</option>
-                </select>
-              </div>
-              <input
-                value={paytrackClientEntry.note}
-                onChange={(e) => setPaytrackClientEntry((s) => ({ ...s, note: e.target.value }))}
-                placeholder={
-                  paytrackClientEntry.type === 'payment'
-                    ? 'Notes (optional)'
-                    : paytrackClientEntry.type === 'honorario'
-                      ? 'Honorarios note (optional) — e.g. initial case fee'
-                      : 'Extra fee note (optional) — e.g. extra document review'
-                }
-                className="mt-3 w-full bg-white border border-amber-200 rounded-2xl px-4 py-3 outline-none focus:ring-2 focus:ring-amber-400"
-              />
-              <div className="mt-3">
-                <label className="block text-xs font-medium text-amber-800 mb-1">
-                  {paytrackClientEntry.type === 'payment'
-                    ? t('dashboard.paytrackPaymentDate')
-                    : 'Fee date'}
-                </label>
-                <input
-                  type="date"
-                  value={paytrackClientEntry.date}
-                  onChange={(e) => setPaytrackClientEntry((s) => ({ ...s, date: e.target.value }))}
-                  className="w-full bg-white border border-amber-200 rounded-2xl px-4 py-3 outline-none focus:ring-2 focus:ring-amber-400"
+                  className="mt-3 w-full bg-white border border-amber-200 rounded-2xl px-4 py-3 outline-none focus:ring-2 focus:ring-amber-400"
                 />
-              </div>
-              <button
-                type="submit"
-                disabled={paytrackClientSaving}
-                className="mt-4 w-full rounded-2xl py-3 bg-gradient-to-r from-amber-600 to-amber-700 text-white font-semibold disabled:opacity-60"
-              >
-                {paytrackClientSaving ? 'Saving...' : '+ Add'}
-              </button>
-            </form>
+                <div className="mt-3">
+                  <label className="block text-xs font-medium text-amber-800 mb-1">
+                    {paytrackClientEntry.type === 'payment'
+                      ? t('dashboard.paytrackPaymentDate')
+                      : 'Fee date'}
+                  </label>
+                  <input
+                    type="date"
+                    value={paytrackClientEntry.date}
+                    onChange={(e) => setPaytrackClientEntry((s) => ({ ...s, date: e.target.value }))}
+                    className="w-full bg-white border border-amber-200 rounded-2xl px-4 py-3 outline-none focus:ring-2 focus:ring-amber-400"
+                  />
+                </div>
+                <button
+                  type="submit"
+                  disabled={paytrackClientSaving}
+                  className="mt-4 w-full rounded-2xl py-3 bg-gradient-to-r from-amber-600 to-amber-700 text-white font-semibold disabled:opacity-60"
+                >
+                  {paytrackClientSaving ? 'Saving...' : '+ Add'}
+                </button>
+              </form>
+            )}
 
             <div className="mt-5 glass-gold border border-amber-200 rounded-3xl p-5">
               <div className="flex items-center justify-between mb-3">
@@ -5688,23 +5776,27 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
                                   Note
                                 </span>
                               )}
-                              <button
-                                type="button"
-                                onClick={() => startPaytrackPaymentEdit(index)}
-                                className="p-1 text-amber-700 hover:text-amber-900"
-                                title={t('dashboard.paytrackModifyPayment')}
-                              >
-                                <Edit2 className="w-3.5 h-3.5" />
-                              </button>
-                              <button
-                                type="button"
-                                disabled={paytrackClientSaving}
-                                onClick={() => handlePaytrackPaymentDelete(index)}
-                                className="p-1 text-red-500 hover:text-red-700 disabled:opacity-50"
-                                title="Remove payment"
-                              >
-                                <Trash2 className="w-3.5 h-3.5" />
-                              </button>
+                              {canEditPayments && (
+                                <>
+                                  <button
+                                    type="button"
+                                    onClick={() => startPaytrackPaymentEdit(index)}
+                                    className="p-1 text-amber-700 hover:text-amber-900"
+                                    title={t('dashboard.paytrackModifyPayment')}
+                                  >
+                                    <Edit2 className="w-3.5 h-3.5" />
+                                  </button>
+                                  <button
+                                    type="button"
+                                    disabled={paytrackClientSaving}
+                                    onClick={() => handlePaytrackPaymentDelete(index)}
+                                    className="p-1 text-red-500 hover:text-red-700 disabled:opacity-50"
+                                    title="Remove payment"
+                                  >
+                                    <Trash2 className="w-3.5 h-3.5" />
+                                  </button>
+                                </>
+                              )}
                             </div>
                           </div>
                         )}
@@ -5718,6 +5810,29 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         </div>
       )}
 
+      {paytrackConflict && paytrackPaymentsMerge && (
+        <MergeConflictDialog
+          isOpen
+          title={`Payments for ${formatClientFullName(paytrackConflict.current)} were changed by someone else`}
+          mine={paytrackConflict.mine}
+          theirs={paytrackConflict.current.payment?.payments || []}
+          merge={paytrackPaymentsMerge}
+          renderItem={(payment) => (
+            <span>
+              <span className="font-semibold">€{Number(payment.amount || 0).toFixed(2)}</span>
+              {' · '}
+              {payment.method}
+              {' · '}
+              {new Date(payment.date).toLocaleDateString()}
+              {payment.note && <span className="block text-xs text-gray-500">{payment.note}</span>}
+            </span>
+          )}
+          saving={paytrackClientSaving}
+          onResolve={(resolution) => void handleResolvePaytrackConflict(resolution)}
+          onCancel={() => setPaytrackConflict(null)}
+        />
+      )}
+
       {showPaytrackAddClient && (
         <div className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm">
           <div className="bg-white rounded-2xl max-w-md w-full shadow-2xl border border-amber-200 overflow-hidden">
@@ -5901,7 +6016,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               tone="slate"
               value={dashboardModalSearch.ready}
               onChange={(v) => setDashboardModalSearch((s) => ({ ...s, ready: v }))}
-              placeholder="Search by name, phone, email, case type…"
+              placeholder="Search by name, phone, email, NIE, case type…"
               className="mb-6"
             />
 
@@ -5989,7 +6104,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               tone="slate"
               value={dashboardModalSearch.awaiting}
               onChange={(v) => setDashboardModalSearch((s) => ({ ...s, awaiting: v }))}
-              placeholder="Search by name, phone, email, case type…"
+              placeholder="Search by name, phone, email, NIE, case type…"
               className="mb-6"
             />
 
@@ -6156,7 +6271,7 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
               tone="slate"
               value={dashboardModalSearch.submitted}
               onChange={(v) => setDashboardModalSearch((s) => ({ ...s, submitted: v }))}
-              placeholder="Search by name, phone, email, case type…"
+              placeholder="Search by name, phone, email, NIE, case type…"
               className="mb-6"
             />
 
@@ -6317,9 +6432,13 @@ export default function Dashboard({ onNavigate }: DashboardProps) {
         onConfirm={async () => {
           if (deleteConfirm.reminder) {
             try {
-              await api.deleteReminder(deleteConfirm.reminder.id);
-              await refreshAll();
-              showToast('Recordatorio eliminado exitosamente', 'success');
+              const { queued } = await runMutation({ type: 'delete_reminder', reminderId: deleteConfirm.reminder.id });
+              if (queued) {
+                showToast('Sin conexión: la eliminación se sincronizará al volver la conexión', 'warning');
+              } else {
+                await refreshAll();
+                showToast('Recordatorio eliminado exitosamente', 'success');
+              }
               setDeleteConfirm({ isOpen: false, reminder: null });
             } catch (error: any) {
               showToast('Error al eliminar recordatorio: ' + error.message, 'error');
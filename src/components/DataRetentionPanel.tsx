@@ -0,0 +1,236 @@
+import { useEffect, useMemo, useState } from 'react';
+import { Archive, RefreshCw, Trash2 } from 'lucide-react';
+import { CaseStage, Client, ClientErasureRecord, RetentionPolicy } from '../types';
+import { api } from '../utils/api';
+import { CASE_STAGES, CASE_STAGE_LABELS } from '../utils/caseStage';
+import { formatClientFullName } from '../utils/clientNames';
+import { ERASURE_REASON_LABELS, PURGE_PREVIEW_HORIZON_DAYS, PurgeCandidate, getPurgePreview } from '../utils/dataProtection';
+import { useData } from '../context/DataContext';
+import ClientErasureDialog from './ClientErasureDialog';
+import { showToast } from './Toast';
+
+type MonthsForm = Record<CaseStage, string>;
+
+function toMonthsForm(policy: RetentionPolicy): MonthsForm {
+  return Object.fromEntries(
+    CASE_STAGES.map((stage) => [stage, policy.retention_months[stage] !== undefined ? String(policy.retention_months[stage]) : ''])
+  ) as MonthsForm;
+}
+
+/** Retention period per case stage, the clients it makes due for purging, and past erasures. Admin only. */
+export default function DataRetentionPanel() {
+  const { clients, refreshClients } = useData();
+  const [policy, setPolicy] = useState<RetentionPolicy | null>(null);
+  const [monthsForm, setMonthsForm] = useState<MonthsForm | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [erasures, setErasures] = useState<ClientErasureRecord[]>([]);
+  const [loadingErasures, setLoadingErasures] = useState(true);
+  const [erasingClient, setErasingClient] = useState<Client | null>(null);
+
+  const loadErasures = async () => {
+    setLoadingErasures(true);
+    try {
+      setErasures(await api.getErasureLog());
+    } catch (error: any) {
+      console.error('❌ Failed to load erasure log:', error);
+    } finally {
+      setLoadingErasures(false);
+    }
+  };
+
+  useEffect(() => {
+    api
+      .getRetentionPolicy()
+      .then((loaded) => {
+        setPolicy(loaded);
+        setMonthsForm(toMonthsForm(loaded));
+      })
+      .catch((error) => {
+        console.error('❌ Failed to load retention policy:', error);
+        showToast(error.message || 'Failed to load retention policy', 'error');
+      });
+    void loadErasures();
+  }, []);
+
+  const handleSave = async () => {
+    if (!monthsForm) return;
+    const retention_months: RetentionPolicy['retention_months'] = {};
+    for (const stage of CASE_STAGES) {
+      const value = monthsForm[stage].trim();
+      if (!value) continue;
+      const months = Number(value);
+      if (!Number.isInteger(months) || months <= 0) {
+        showToast(`${CASE_STAGE_LABELS[stage]}: enter a whole number of months, or leave it empty to keep`, 'error');
+        return;
+      }
+      retention_months[stage] = months;
+    }
+    setSaving(true);
+    try {
+      const saved = await api.updateRetentionPolicy({ retention_months });
+      setPolicy(saved);
+      setMonthsForm(toMonthsForm(saved));
+      showToast('Retention policy saved', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to save retention policy', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // The preview follows the saved policy, not unsaved edits
+  const preview = useMemo(() => (policy ? getPurgePreview(clients, policy) : { due: [], upcoming: [] }), [clients, policy]);
+
+  const renderCandidate = (candidate: PurgeCandidate, due: boolean) => (
+    <li key={candidate.client.id} className="flex items-center justify-between gap-3 px-3 py-2">
+      <div className="min-w-0">
+        <p className="text-sm font-medium text-gray-900 truncate">{formatClientFullName(candidate.client)}</p>
+        <p className="text-xs text-gray-500">
+          {CASE_STAGE_LABELS[candidate.stage]} · {due ? 'due since' : 'due on'} {candidate.dueAt.toLocaleDateString()}
+        </p>
+      </div>
+      {due && (
+        <button
+          onClick={() => setErasingClient(candidate.client)}
+          className="flex-shrink-0 inline-flex items-center gap-1 px-2.5 py-1.5 text-xs font-semibold text-red-700 bg-red-50 rounded-lg hover:bg-red-100"
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+          Erase
+        </button>
+      )}
+    </li>
+  );
+
+  return (
+    <div className="glass-gold rounded-xl sm:rounded-2xl p-5 sm:p-6 border-2 border-amber-200/50 animate-slide-up space-y-5">
+      <div className="flex items-center space-x-3">
+        <div className="p-2.5 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
+          <Archive className="w-5 h-5 text-amber-800" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">Data Retention</h3>
+          <p className="text-sm text-gray-600">How long client data is kept after a case reaches each stage</p>
+        </div>
+      </div>
+
+      {monthsForm && (
+        <div>
+          <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+            {CASE_STAGES.map((stage) => (
+              <label key={stage} className="block">
+                <span className="block text-xs font-medium text-gray-700 mb-1">{CASE_STAGE_LABELS[stage]}</span>
+                <input
+                  type="number"
+                  min={1}
+                  step={1}
+                  value={monthsForm[stage]}
+                  onChange={(e) => setMonthsForm({ ...monthsForm, [stage]: e.target.value })}
+                  placeholder="Keep"
+                  className="w-full px-3 py-2 text-sm border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none"
+                />
+              </label>
+            ))}
+          </div>
+          <div className="mt-3 flex items-center justify-between gap-3">
+            <p className="text-xs text-gray-500">Months in the stage before the client is due for purging. Empty keeps the data.</p>
+            <button
+              onClick={handleSave}
+              disabled={saving}
+              className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-60"
+            >
+              {saving ? 'Saving...' : 'Save policy'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div>
+        <p className="font-semibold text-gray-900 mb-2">Purge preview</p>
+        {preview.due.length === 0 && preview.upcoming.length === 0 ? (
+          <p className="text-sm text-gray-500">No clients are past retention or due in the next {PURGE_PREVIEW_HORIZON_DAYS} days.</p>
+        ) : (
+          <div className="space-y-3">
+            {preview.due.length > 0 && (
+              <div>
+                <p className="text-sm text-red-700 mb-1">Past retention ({preview.due.length})</p>
+                <ul className="divide-y divide-gray-100 border border-red-200 rounded-lg bg-white max-h-72 overflow-auto">
+                  {preview.due.map((candidate) => renderCandidate(candidate, true))}
+                </ul>
+              </div>
+            )}
+            {preview.upcoming.length > 0 && (
+              <div>
+                <p className="text-sm text-amber-800 mb-1">
+                  Due in the next {PURGE_PREVIEW_HORIZON_DAYS} days ({preview.upcoming.length})
+                </p>
+                <ul className="divide-y divide-gray-100 border border-amber-200 rounded-lg bg-white max-h-72 overflow-auto">
+                  {preview.upcoming.map((candidate) => renderCandidate(candidate, false))}
+                </ul>
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <p className="font-semibold text-gray-900">Erasure log</p>
+          <button
+            onClick={() => void loadErasures()}
+            disabled={loadingErasures}
+            className="p-2 text-amber-700 hover:text-amber-900 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${loadingErasures ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+        {erasures.length === 0 ? (
+          <p className="text-sm text-gray-500">{loadingErasures ? 'Loading...' : 'No clients have been erased.'}</p>
+        ) : (
+          <div className="max-h-72 overflow-auto rounded-lg border border-amber-200 bg-white">
+            <table className="w-full text-sm">
+              <thead className="bg-amber-50 text-left text-xs uppercase tracking-wide text-amber-800 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2">When</th>
+                  <th className="px-3 py-2">Client ID</th>
+                  <th className="px-3 py-2">Stage</th>
+                  <th className="px-3 py-2">Reason</th>
+                  <th className="px-3 py-2">Files</th>
+                  <th className="px-3 py-2">By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {[...erasures]
+                  .sort((a, b) => b.erased_at.localeCompare(a.erased_at))
+                  .map((record) => (
+                    <tr key={record.id}>
+                      <td className="px-3 py-2 whitespace-nowrap text-gray-600">{new Date(record.erased_at).toLocaleString()}</td>
+                      <td className="px-3 py-2 font-mono text-xs text-gray-700">{record.client_id}</td>
+                      <td className="px-3 py-2 text-gray-700">{CASE_STAGE_LABELS[record.case_stage]}</td>
+                      <td className="px-3 py-2 text-gray-700">{ERASURE_REASON_LABELS[record.reason]}</td>
+                      <td className="px-3 py-2 text-gray-700">{record.files_deleted}</td>
+                      <td className="px-3 py-2 text-gray-700">{record.erased_by}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
+      {erasingClient && (
+        <ClientErasureDialog
+          client={erasingClient}
+          defaultReason="retention_expired"
+          onErased={(record) => {
+            showToast(`Client ${formatClientFullName(erasingClient)} erased`, 'success');
+            setErasingClient(null);
+            setErasures((prev) => [record, ...prev]);
+            void refreshClients();
+          }}
+          onClose={() => setErasingClient(null)}
+        />
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from 'react';
+import { Clock, Download, Edit2, Eye, FileText, Layers, Plus, Trash2, Upload } from 'lucide-react';
+import { api } from '../utils/api';
+import { usePermissions } from '../context/PermissionsContext';
+import { AdditionalDocument, Client } from '../types';
+import { showToast } from './Toast';
+import DocumentWorkbench from './DocumentWorkbench';
+import { useUploadChecks } from './UploadCheckDialog';
+import { DOCUMENT_COLLECTIONS, DocumentCollectionKind, getCollectionDocuments } from '../utils/documentCollections';
+
+type Props = {
+  kind: DocumentCollectionKind;
+  client: Client;
+  currentUserName: string;
+  onChanged: () => void | Promise<void>;
+  onError: (message: string) => void;
+  onView: (fileUrl: string, fileName: string) => void;
+  onDownload: (fileUrl: string, fileName: string) => void;
+  /** Removal goes through the parent so it can confirm and log the change. */
+  onRemove: (kind: DocumentCollectionKind, documentId: string) => void;
+};
+
+const EMPTY_FORM = { name: '', description: '', file: null as File | null, reminder_days: 10 };
+
+export default function DocumentCollectionSection({
+  kind,
+  client,
+  currentUserName,
+  onChanged,
+  onError,
+  onView,
+  onDownload,
+  onRemove,
+}: Props) {
+  const config = DOCUMENT_COLLECTIONS[kind];
+  const { theme } = config;
+  const documents = getCollectionDocuments(client, kind);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState(EMPTY_FORM);
+  const [editingDocId, setEditingDocId] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const canEditClients = usePermissions().can('edit_clients');
+  const [workbenchDoc, setWorkbenchDoc] = useState<AdditionalDocument | null>(null);
+  const { checkFiles, uploadCheckDialog } = useUploadChecks();
+
+  const resetForm = () => {
+    setShowForm(false);
+    setForm(EMPTY_FORM);
+    setEditingDocId(null);
+  };
+
+  const fail = (error: any, fallback: string) => {
+    const errorMessage = error.message || fallback;
+    onError(errorMessage);
+    showToast(errorMessage, 'error');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    onError('');
+
+    if (!form.name.trim()) {
+      onError('Document name is required');
+      return;
+    }
+    if (form.file && !currentUserName.trim()) {
+      onError('User account information not available');
+      showToast('Unable to identify user account. Please refresh the page.', 'error');
+      return;
+    }
+
+    let file = form.file;
+    if (file) {
+      const checked = await checkFiles([file]);
+      if (!checked?.length) return;
+      file = checked[0];
+    }
+
+    const data = { name: form.name, description: form.description, reminder_days: form.reminder_days };
+    setSaving(true);
+    try {
+      if (editingDocId) {
+        await api.updateCollectionDocument(kind, client.id, editingDocId, data);
+        if (file) {
+          await api.uploadCollectionDocumentFile(kind, client.id, editingDocId, file, currentUserName);
+        }
+        showToast('Document updated successfully', 'success');
+      } else if (file) {
+        await api.uploadCollectionDocument(kind, client.id, data, file, currentUserName);
+        showToast('Document created successfully', 'success');
+      } else {
+        await api.createCollectionDocument(kind, client.id, data);
+        showToast('Document entry created successfully. You can upload the file later.', 'success');
+      }
+      resetForm();
+      await onChanged();
+    } catch (error: any) {
+      fail(error, editingDocId ? 'Failed to update document' : 'Failed to create document');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFileUpload = async (doc: AdditionalDocument, file: File | undefined) => {
+    if (!file || !currentUserName) return;
+    const [checked] = (await checkFiles([file])) || [];
+    if (!checked) return;
+    const replacing = Boolean(doc.fileUrl);
+    setSaving(true);
+    try {
+      await api.uploadCollectionDocumentFile(kind, client.id, doc.id, checked, currentUserName);
+      await onChanged();
+      showToast(replacing ? 'File re-uploaded successfully' : 'File uploaded successfully', 'success');
+    } catch (error: any) {
+      showToast(error.message || (replacing ? 'Failed to re-upload file' : 'Failed to upload file'), 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const inputClassName = `w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 ${theme.focusRing} outline-none`;
+
+  return (
+    <div className={`mb-6 p-5 bg-gradient-to-br ${theme.section} to-white rounded-xl border border-gray-200 shadow-sm`}>
+      <div className="flex justify-between items-center mb-4">
+        <h3 className="text-lg font-bold text-gray-900 flex items-center space-x-2">
+          <div className={`w-1 h-6 bg-gradient-to-b ${theme.accentBar} rounded-full`}></div>
+          <span>{config.title}</span>
+        </h3>
+        {canEditClients && (
+          <button
+            onClick={() => setShowForm(!showForm)}
+            className={`px-4 py-2 ${theme.button} text-white text-sm rounded-lg transition-colors flex items-center space-x-2`}
+          >
+            <Plus className="w-4 h-4" />
+            <span>Add Document</span>
+          </button>
+        )}
+      </div>
+
+      {showForm && (
+        <form onSubmit={handleSubmit} className={`mb-4 p-4 rounded-lg border ${theme.form}`}>
+          <div className="space-y-3">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Document Name *</label>
+              <input
+                type="text"
+                id={`${kind}-doc-name`}
+                name={`${kind}_doc_name`}
+                required
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                className={inputClassName}
+                placeholder={config.namePlaceholder}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Description (optional)</label>
+              <input
+                type="text"
+                id={`${kind}-doc-description`}
+                name={`${kind}_doc_description`}
+                value={form.description}
+                onChange={(e) => setForm({ ...form, description: e.target.value })}
+                className={inputClassName}
+                placeholder="Brief description"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Reminder Days (default: 10)</label>
+              <input
+                type="number"
+                id={`${kind}-doc-reminder-days`}
+                name={`${kind}_doc_reminder_days`}
+                min="1"
+                value={form.reminder_days}
+                onChange={(e) => setForm({ ...form, reminder_days: parseInt(e.target.value) || 10 })}
+                className={inputClassName}
+                placeholder="10"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">File (optional - can upload later)</label>
+              <input
+                type="file"
+                id={`${kind}-doc-file`}
+                name={`${kind}_doc_file`}
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) {
+                    setForm({ ...form, file });
+                  }
+                }}
+                className={inputClassName}
+              />
+            </div>
+          </div>
+          <div className="flex justify-end space-x-2 mt-3">
+            <button
+              type="button"
+              onClick={resetForm}
+              className="px-4 py-2 text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200 transition-colors text-sm"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className={`px-4 py-2 ${theme.button} text-white rounded-lg transition-colors text-sm disabled:opacity-50`}
+            >
+              {saving ? 'Saving...' : editingDocId ? 'Update' : 'Create Document'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {documents.length === 0 ? (
+        <div className="text-center py-8 text-gray-500 bg-gray-50 rounded-lg border-2 border-dashed border-gray-300">
+          <FileText className="w-12 h-12 mx-auto mb-3 text-gray-400" />
+          <p>{config.emptyMessage}</p>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          {documents.map((doc) => (
+            <div
+              key={doc.id}
+              className={`border-2 ${theme.card} bg-gradient-to-br to-white rounded-xl p-4 shadow-sm hover:shadow-md transition-all`}
+            >
+              <div className="flex items-start justify-between">
+                <div className="flex-1">
+                  <div className="flex items-center space-x-2 mb-2">
+                    <FileText className={`w-5 h-5 ${theme.icon}`} />
+                    <h4 className="font-semibold text-gray-900">{doc.name}</h4>
+                  </div>
+                  {doc.description && (
+                    <p className="text-sm text-gray-600 mb-2">{doc.description}</p>
+                  )}
+                  {doc.fileUrl && doc.fileName ? (
+                    <>
+                      <p className="text-xs text-gray-500">
+                        File: {doc.fileName} ({doc.fileSize ? `${(doc.fileSize / 1024).toFixed(2)} KB` : 'N/A'})
+                      </p>
+                      <p className="text-xs text-gray-500 mt-1">
+                        Uploaded: {doc.uploadedAt ? new Date(doc.uploadedAt).toLocaleDateString() : 'N/A'}
+                        {doc.uploadedBy && (
+                          <span className="ml-2">by <span className="font-medium">{doc.uploadedBy}</span></span>
+                        )}
+                      </p>
+                    </>
+                  ) : (
+                    <p className="text-xs text-amber-600 font-medium">File not uploaded yet</p>
+                  )}
+                  {!doc.fileUrl && doc.reminder_days && (
+                    <p className="text-xs text-blue-600 mt-1 flex items-center space-x-1">
+                      <Clock className="w-3 h-3" />
+                      <span>Reminder: {doc.reminder_days} days</span>
+                      {doc.reminder_date && (
+                        <span className="text-gray-500">
+                          (Due: {new Date(doc.reminder_date).toLocaleDateString()})
+                        </span>
+                      )}
+                    </p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-2 ml-4">
+                  {doc.fileUrl ? (
+                    <>
+                      <button
+                        onClick={() => onView(doc.fileUrl!, doc.fileName!)}
+                        className="p-2 text-green-600 hover:bg-green-50 rounded-lg transition-colors border border-green-200 hover:border-green-300"
+                        title="View Document"
+                      >
+                        <Eye className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onDownload(doc.fileUrl!, doc.fileName!)}
+                        className="p-2 text-blue-600 hover:bg-blue-50 rounded-lg transition-colors border border-blue-200 hover:border-blue-300"
+                        title="Download"
+                      >
+                        <Download className="w-4 h-4" />
+                      </button>
+                      {canEditClients && (
+                        <label className="cursor-pointer">
+                          <input
+                            type="file"
+                            className="hidden"
+                            onChange={(e) => void handleFileUpload(doc, e.target.files?.[0])}
+                            disabled={saving}
+                          />
+                          <div className={`px-3 py-2 text-xs font-medium rounded-lg transition-colors border ${theme.outlineButton}`}>
+                            <Upload className="w-4 h-4 inline mr-1" />
+                            Re-upload
+                          </div>
+                        </label>
+                      )}
+                    </>
+                  ) : canEditClients ? (
+                    <label className="cursor-pointer">
+                      <input
+                        type="file"
+                        className="hidden"
+                        onChange={(e) => void handleFileUpload(doc, e.target.files?.[0])}
+                        disabled={saving}
+                      />
+                      <div className={`px-3 py-2 text-xs font-medium text-white rounded-lg transition-colors border ${theme.solidButton}`}>
+                        <Upload className="w-4 h-4 inline mr-1" />
+                        Upload File
+                      </div>
+                    </label>
+                  ) : null}
+                  {canEditClients && (
+                    <>
+                      <button
+                        onClick={() => setWorkbenchDoc(doc)}
+                        disabled={saving}
+                        className="p-2 text-slate-600 hover:bg-slate-50 rounded-lg transition-colors border border-slate-200 hover:border-slate-300 disabled:opacity-50"
+                        title="Combine photos / PDF pages before uploading"
+                      >
+                        <Layers className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => {
+                          setEditingDocId(doc.id);
+                          setForm({
+                            name: doc.name,
+                            description: doc.description || '',
+                            file: null,
+                            reminder_days: doc.reminder_days || 10,
+                          });
+                          setShowForm(true);
+                        }}
+                        className="p-2 text-amber-600 hover:bg-amber-50 rounded-lg transition-colors border border-amber-200 hover:border-amber-300"
+                        title="Edit Reminder"
+                      >
+                        <Edit2 className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => onRemove(kind, doc.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors border border-red-200 hover:border-red-300"
+                        title="Remove"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <DocumentWorkbench
+        isOpen={workbenchDoc !== null}
+        targetName={workbenchDoc?.name || config.title}
+        onClose={() => setWorkbenchDoc(null)}
+        onSave={async (file) => {
+          if (workbenchDoc) await handleFileUpload(workbenchDoc, file);
+        }}
+      />
+
+      {uploadCheckDialog}
+    </div>
+  );
+}
@@ -0,0 +1,129 @@
+import { Plus, X } from 'lucide-react';
+import { DocumentCondition, DocumentConditionAttribute } from '../types';
+import { CIVIL_STATUS_LABELS, CONDITION_ATTRIBUTE_LABELS, RELATIONSHIP_LABELS } from '../utils/documentConditions';
+
+interface Props {
+  conditions: DocumentCondition[];
+  onChange: (conditions: DocumentCondition[] | undefined) => void;
+}
+
+const OPERATOR_LABELS: Record<DocumentCondition['operator'], string> = {
+  under: 'under',
+  at_least: 'at least',
+  in: 'is',
+  not_in: 'is not',
+};
+
+const CHOICES: Partial<Record<DocumentConditionAttribute, Record<string, string>>> = {
+  civil_status: CIVIL_STATUS_LABELS,
+  relationship: RELATIONSHIP_LABELS,
+};
+
+function defaultCondition(attribute: DocumentConditionAttribute): DocumentCondition {
+  return attribute === 'age' ? { attribute, operator: 'under', years: 18 } : { attribute, operator: 'in', values: [] };
+}
+
+/** Conditions on one template document; all of them must hold for a client to be asked for it. */
+export default function DocumentConditionsEditor({ conditions, onChange }: Props) {
+  const update = (index: number, next: DocumentCondition | null) => {
+    const updated = conditions.flatMap((condition, i) => (i !== index ? [condition] : next ? [next] : []));
+    onChange(updated.length > 0 ? updated : undefined);
+  };
+
+  return (
+    <div className="space-y-2">
+      {conditions.map((condition, index) => {
+        const choices = CHOICES[condition.attribute];
+        return (
+          <div key={index} className="flex flex-wrap items-center gap-2 p-2 bg-indigo-50/60 border border-indigo-100 rounded">
+            <select
+              value={condition.attribute}
+              onChange={(e) => update(index, defaultCondition(e.target.value as DocumentConditionAttribute))}
+              className="px-2 py-1 text-sm border border-gray-300 rounded bg-white"
+            >
+              {Object.entries(CONDITION_ATTRIBUTE_LABELS).map(([value, label]) => (
+                <option key={value} value={value}>
+                  {label}
+                </option>
+              ))}
+            </select>
+            <select
+              value={condition.operator}
+              onChange={(e) => update(index, { ...condition, operator: e.target.value as DocumentCondition['operator'] })}
+              className="px-2 py-1 text-sm border border-gray-300 rounded bg-white"
+            >
+              {(condition.attribute === 'age' ? (['under', 'at_least'] as const) : (['in', 'not_in'] as const)).map((op) => (
+                <option key={op} value={op}>
+                  {OPERATOR_LABELS[op]}
+                </option>
+              ))}
+            </select>
+            {condition.attribute === 'age' ? (
+              <span className="inline-flex items-center gap-1 text-sm text-gray-600">
+                <input
+                  type="number"
+                  min="0"
+                  value={condition.years ?? ''}
+                  onChange={(e) => update(index, { ...condition, years: parseInt(e.target.value) || 0 })}
+                  className="w-16 px-2 py-1 text-sm border border-gray-300 rounded"
+                />
+                years
+              </span>
+            ) : choices ? (
+              <div className="flex flex-wrap gap-x-3 gap-y-1">
+                {Object.entries(choices).map(([value, label]) => (
+                  <label key={value} className="inline-flex items-center gap-1 text-xs text-gray-700">
+                    <input
+                      type="checkbox"
+                      checked={(condition.values || []).includes(value)}
+                      onChange={(e) =>
+                        update(index, {
+                          ...condition,
+                          values: e.target.checked
+                            ? [...(condition.values || []), value]
+                            : (condition.values || []).filter((v) => v !== value),
+                        })
+                      }
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            ) : (
+              <input
+                type="text"
+                defaultValue={(condition.values || []).join(', ')}
+                onBlur={(e) =>
+                  update(index, {
+                    ...condition,
+                    values: e.target.value
+                      .toUpperCase()
+                      .split(/[\s,]+/)
+                      .filter(Boolean),
+                  })
+                }
+                className="flex-1 min-w-[10rem] px-2 py-1 text-sm border border-gray-300 rounded uppercase"
+                placeholder="Country codes, e.g. MA, CO, VE"
+              />
+            )}
+            <button
+              type="button"
+              onClick={() => update(index, null)}
+              className="ml-auto p-1 text-gray-500 hover:bg-white rounded transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        );
+      })}
+      <button
+        type="button"
+        onClick={() => onChange([...conditions, defaultCondition('age')])}
+        className="inline-flex items-center text-xs font-medium text-indigo-700 hover:text-indigo-900"
+      >
+        <Plus className="w-3.5 h-3.5 mr-1" />
+        Add condition
+      </button>
+    </div>
+  );
+}
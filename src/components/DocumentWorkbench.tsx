@@ -0,0 +1,348 @@
+import { useState } from 'react';
+import { ChevronLeft, ChevronRight, FilePlus, Layers, RotateCcw, RotateCw, Trash2, X } from 'lucide-react';
+import { showToast } from './Toast';
+import { formatFileSize } from '../utils/chunkedUpload';
+import {
+  WORKBENCH_ACCEPT,
+  WORKBENCH_COMPRESSION_LABELS,
+  WorkbenchCompression,
+  WorkbenchPage,
+  WorkbenchSource,
+  buildWorkbenchPdf,
+  isWorkbenchFile,
+  loadWorkbenchFiles,
+  parsePageRanges,
+  rotatePage,
+} from '../utils/pdfWorkbench';
+
+interface DocumentWorkbenchProps {
+  isOpen: boolean;
+  /** Name of the slot the result is uploaded to, shown in the header. */
+  targetName: string;
+  onClose: () => void;
+  /** Upload the assembled PDF; the workbench closes once this resolves. */
+  onSave: (file: File) => Promise<void>;
+}
+
+function defaultOutputName(sources: WorkbenchSource[]): string {
+  const first = sources[0]?.file.name.replace(/\.[^.]+$/, '') || 'document';
+  return `${first}.pdf`;
+}
+
+/**
+ * Combine photos and PDFs into one PDF before uploading: reorder, rotate or drop pages,
+ * keep a page range, and shrink the result. Everything happens in the browser.
+ */
+export default function DocumentWorkbench({ isOpen, targetName, onClose, onSave }: DocumentWorkbenchProps) {
+  const [sources, setSources] = useState<WorkbenchSource[]>([]);
+  const [pages, setPages] = useState<WorkbenchPage[]>([]);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [keepRange, setKeepRange] = useState('');
+  const [compression, setCompression] = useState<WorkbenchCompression>('balanced');
+  const [outputName, setOutputName] = useState('');
+  const [loading, setLoading] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+
+  if (!isOpen) return null;
+
+  const busy = loading || status !== null;
+  const originalSize = sources.reduce((sum, source) => sum + source.file.size, 0);
+
+  const reset = () => {
+    setSources([]);
+    setPages([]);
+    setSelected(new Set());
+    setKeepRange('');
+    setOutputName('');
+    setStatus(null);
+  };
+
+  const handleClose = () => {
+    if (status !== null) return;
+    reset();
+    onClose();
+  };
+
+  const addFiles = async (files: File[]) => {
+    const supported = files.filter(isWorkbenchFile);
+    if (supported.length < files.length) {
+      showToast('Only PDFs and images can be combined.', 'error');
+    }
+    if (supported.length === 0) return;
+    setLoading(true);
+    try {
+      const loaded = await loadWorkbenchFiles(supported);
+      if (!outputName) setOutputName(defaultOutputName([...sources, ...loaded.sources]));
+      setSources((current) => [...current, ...loaded.sources]);
+      setPages((current) => [...current, ...loaded.pages]);
+    } catch (error: any) {
+      console.error('❌ Failed to read files for the workbench:', error);
+      showToast(error.message || 'Could not read one of the files', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updatePage = (id: string, change: (page: WorkbenchPage) => WorkbenchPage) =>
+    setPages((current) => current.map((page) => (page.id === id ? change(page) : page)));
+
+  const removePages = (ids: Set<string>) => {
+    setPages((current) => current.filter((page) => !ids.has(page.id)));
+    setSelected(new Set());
+  };
+
+  const movePage = (id: string, toIndex: number) =>
+    setPages((current) => {
+      const from = current.findIndex((page) => page.id === id);
+      if (from < 0 || toIndex < 0 || toIndex >= current.length) return current;
+      const next = [...current];
+      const [page] = next.splice(from, 1);
+      next.splice(toIndex, 0, page);
+      return next;
+    });
+
+  const toggleSelected = (id: string) =>
+    setSelected((current) => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+
+  const applyKeepRange = () => {
+    const keep = parsePageRanges(keepRange, pages.length);
+    if (!keep) {
+      showToast(`Enter pages between 1 and ${pages.length}, e.g. "1-2, 5"`, 'error');
+      return;
+    }
+    setPages((current) => current.filter((_, index) => keep.includes(index)));
+    setSelected(new Set());
+    setKeepRange('');
+  };
+
+  const handleSave = async () => {
+    const name = (outputName.trim() || defaultOutputName(sources)).replace(/(\.pdf)?$/i, '.pdf');
+    try {
+      setStatus('Building PDF…');
+      const blob = await buildWorkbenchPdf(sources, pages, compression, (done, total) =>
+        setStatus(`Building page ${done} of ${total}…`)
+      );
+      setStatus(`Uploading ${formatFileSize(blob.size)}…`);
+      await onSave(new File([blob], name, { type: 'application/pdf' }));
+      reset();
+      onClose();
+    } catch (error: any) {
+      console.error('❌ Workbench save failed:', error);
+      showToast(error.message || 'Failed to build the PDF', 'error');
+      setStatus(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000] p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 max-w-6xl w-full max-h-[92vh] flex flex-col animate-scale-in">
+        <div className="flex items-start justify-between p-5 border-b border-gray-200">
+          <div className="flex items-start space-x-3">
+            <Layers className="w-6 h-6 text-slate-700 flex-shrink-0" />
+            <div>
+              <h3 className="font-bold text-lg text-gray-900">Document workbench</h3>
+              <p className="text-sm text-gray-600">
+                Uploads to <span className="font-semibold">{targetName}</span> as one PDF
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={handleClose}
+            disabled={status !== null}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-2 px-5 py-3 border-b border-gray-100 bg-gray-50">
+          <label className={`inline-flex items-center px-3 py-1.5 text-sm font-medium rounded-lg border border-slate-300 bg-white ${busy ? 'opacity-50' : 'cursor-pointer hover:bg-slate-50'}`}>
+            <input
+              type="file"
+              multiple
+              accept={WORKBENCH_ACCEPT}
+              className="hidden"
+              disabled={busy}
+              onChange={(e) => {
+                const files = Array.from(e.target.files || []);
+                e.target.value = '';
+                void addFiles(files);
+              }}
+            />
+            <FilePlus className="w-4 h-4 mr-1.5" />
+            Add PDFs or images
+          </label>
+          <div className="flex items-center gap-1">
+            <input
+              type="text"
+              value={keepRange}
+              onChange={(e) => setKeepRange(e.target.value)}
+              placeholder="Keep pages, e.g. 1-2"
+              disabled={busy || pages.length === 0}
+              className="w-40 px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+            />
+            <button
+              onClick={applyKeepRange}
+              disabled={busy || !keepRange.trim()}
+              className="px-3 py-1.5 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 disabled:opacity-50"
+            >
+              Keep
+            </button>
+          </div>
+          {selected.size > 0 && (
+            <button
+              onClick={() => removePages(selected)}
+              disabled={busy}
+              className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100 disabled:opacity-50"
+            >
+              <Trash2 className="w-4 h-4 mr-1" />
+              Remove {selected.size} selected
+            </button>
+          )}
+          <div className="flex items-center gap-2 ml-auto">
+            <select
+              value={compression}
+              onChange={(e) => setCompression(e.target.value as WorkbenchCompression)}
+              disabled={busy}
+              className="px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white"
+            >
+              {(Object.keys(WORKBENCH_COMPRESSION_LABELS) as WorkbenchCompression[]).map((level) => (
+                <option key={level} value={level}>
+                  {WORKBENCH_COMPRESSION_LABELS[level]}
+                </option>
+              ))}
+            </select>
+            <input
+              type="text"
+              value={outputName}
+              onChange={(e) => setOutputName(e.target.value)}
+              placeholder="File name"
+              disabled={busy}
+              className="w-48 px-2 py-1.5 text-sm border border-gray-300 rounded-lg"
+            />
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {loading && <p className="text-sm text-gray-500 mb-3">Reading files…</p>}
+          {pages.length === 0 && !loading ? (
+            <p className="py-16 text-center text-sm text-gray-500">
+              Add the scans or photos to combine. Pages can then be reordered by dragging.
+            </p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-4 lg:grid-cols-6 gap-4">
+              {pages.map((page, index) => (
+                <div
+                  key={page.id}
+                  draggable={!busy}
+                  onDragStart={() => setDraggedId(page.id)}
+                  onDragEnd={() => setDraggedId(null)}
+                  onDragOver={(e) => {
+                    if (draggedId) e.preventDefault();
+                  }}
+                  onDrop={(e) => {
+                    e.preventDefault();
+                    if (draggedId && draggedId !== page.id) movePage(draggedId, index);
+                    setDraggedId(null);
+                  }}
+                  className={`rounded-xl border-2 p-2 bg-white transition-colors ${
+                    selected.has(page.id) ? 'border-blue-500 bg-blue-50' : 'border-gray-200'
+                  } ${draggedId === page.id ? 'opacity-40' : ''}`}
+                >
+                  <button
+                    onClick={() => toggleSelected(page.id)}
+                    className="block w-full h-40 flex items-center justify-center overflow-hidden bg-gray-50 rounded-lg"
+                    title="Select page"
+                  >
+                    <img
+                      src={page.thumbnail}
+                      alt={`Page ${index + 1}`}
+                      className="max-h-36 max-w-full shadow-sm transition-transform"
+                      style={{ transform: `rotate(${page.rotation}deg)` }}
+                    />
+                  </button>
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="text-xs font-semibold text-gray-600">{index + 1}</span>
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => movePage(page.id, index - 1)}
+                        disabled={busy || index === 0}
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                        title="Move earlier"
+                      >
+                        <ChevronLeft className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => movePage(page.id, index + 1)}
+                        disabled={busy || index === pages.length - 1}
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                        title="Move later"
+                      >
+                        <ChevronRight className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => updatePage(page.id, (p) => ({ ...p, rotation: rotatePage(p.rotation, -90) }))}
+                        disabled={busy}
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                        title="Rotate left"
+                      >
+                        <RotateCcw className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => updatePage(page.id, (p) => ({ ...p, rotation: rotatePage(p.rotation, 90) }))}
+                        disabled={busy}
+                        className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                        title="Rotate right"
+                      >
+                        <RotateCw className="w-3.5 h-3.5" />
+                      </button>
+                      <button
+                        onClick={() => removePages(new Set([page.id]))}
+                        disabled={busy}
+                        className="p-1 text-red-500 hover:bg-red-50 rounded disabled:opacity-30"
+                        title="Remove page"
+                      >
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-t border-gray-200">
+          <p className="text-xs text-gray-500">
+            {pages.length > 0
+              ? `${pages.length} page(s) from ${sources.length} file(s), ${formatFileSize(originalSize)} in total`
+              : ''}
+          </p>
+          <div className="flex items-center gap-2">
+            {status && <span className="text-sm text-slate-600">{status}</span>}
+            <button
+              onClick={handleClose}
+              disabled={status !== null}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => void handleSave()}
+              disabled={busy || pages.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-slate-800 rounded-lg hover:bg-slate-900 transition-colors disabled:opacity-50"
+            >
+              Build PDF & upload
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useState } from 'react';
+import { BookOpen, ChevronDown, ChevronUp, Download, GripVertical, Save, X } from 'lucide-react';
+import { api } from '../utils/api';
+import { Client } from '../types';
+import { showToast } from './Toast';
+import { usePermissions } from '../context/PermissionsContext';
+import { formatFileSize } from '../utils/chunkedUpload';
+import { getClientFileStorageSlug } from '../utils/clientNames';
+import { DOCUMENT_COLLECTIONS } from '../utils/documentCollections';
+import { BundleDocument, BundleEntry, buildExpedienteBundle, getBundleCandidates } from '../utils/expedienteBundle';
+
+interface ExpedienteBundleModalProps {
+  isOpen: boolean;
+  client: Client;
+  preparedBy: string;
+  /** Download an uploaded file with the user's credentials. */
+  fetchFile: (fileUrl: string) => Promise<Blob>;
+  onClose: () => void;
+  /** Called after the bundle was attached to the client. */
+  onSaved: () => void | Promise<void>;
+}
+
+const SAVE_TO = 'justificante_presentacion' as const;
+
+/**
+ * Pick and order the client's documents and build one indexed, page-stamped PDF for
+ * filing — downloaded, or attached to the client under Justificante de presentación.
+ */
+export default function ExpedienteBundleModal({
+  isOpen,
+  client,
+  preparedBy,
+  fetchFile,
+  onClose,
+  onSaved,
+}: ExpedienteBundleModalProps) {
+  const canEditClients = usePermissions().can('edit_clients');
+  const [entries, setEntries] = useState<BundleEntry[]>([]);
+  const [included, setIncluded] = useState<Set<string>>(new Set());
+  const [status, setStatus] = useState<string | null>(null);
+  const [draggedKey, setDraggedKey] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    const candidates = getBundleCandidates(client);
+    setEntries(candidates);
+    setIncluded(new Set(candidates.filter((entry) => entry.includedByDefault).map((entry) => entry.key)));
+    // Only when opened: a refresh of the client mid-build must not reset the chosen order
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const chosen = entries.filter((entry) => included.has(entry.key));
+
+  const move = (key: string, toIndex: number) =>
+    setEntries((current) => {
+      const from = current.findIndex((entry) => entry.key === key);
+      if (from < 0 || toIndex < 0 || toIndex >= current.length) return current;
+      const next = [...current];
+      const [entry] = next.splice(from, 1);
+      next.splice(toIndex, 0, entry);
+      return next;
+    });
+
+  const toggle = (key: string) =>
+    setIncluded((current) => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+
+  const build = async (): Promise<File | null> => {
+    const documents: BundleDocument[] = [];
+    const failed: string[] = [];
+    for (const [index, entry] of chosen.entries()) {
+      setStatus(`Downloading ${index + 1} of ${chosen.length}…`);
+      try {
+        documents.push({ entry, blob: await fetchFile(entry.fileUrl) });
+      } catch (error) {
+        console.error(`❌ Failed to fetch ${entry.title} for the bundle:`, error);
+        failed.push(entry.title);
+      }
+    }
+    if (failed.length > 0) {
+      showToast(`Could not download: ${failed.join(', ')}`, 'error');
+      return null;
+    }
+    const blob = await buildExpedienteBundle(client, documents, preparedBy, (done, total) =>
+      setStatus(`Adding document ${done} of ${total}…`)
+    );
+    const date = new Date().toISOString().split('T')[0];
+    return new File([blob], `${getClientFileStorageSlug(client)}_expediente_${date}.pdf`, { type: 'application/pdf' });
+  };
+
+  const run = async (action: (file: File) => Promise<void>) => {
+    try {
+      const file = await build();
+      if (file) await action(file);
+    } catch (error: any) {
+      console.error('❌ Failed to build expediente bundle:', error);
+      showToast(error.message || 'Failed to build the bundle', 'error');
+    } finally {
+      setStatus(null);
+    }
+  };
+
+  const handleDownload = () =>
+    run(async (file) => {
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(file);
+      link.download = file.name;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+      showToast(`Bundle downloaded (${formatFileSize(file.size)})`, 'success');
+    });
+
+  const handleSave = () =>
+    run(async (file) => {
+      setStatus('Uploading…');
+      await api.uploadCollectionDocument(
+        SAVE_TO,
+        client.id,
+        { name: `Expediente ${new Date().toLocaleDateString('es-ES')}`, description: `${chosen.length} documents` },
+        file,
+        preparedBy
+      );
+      await onSaved();
+      showToast(`Bundle saved to ${DOCUMENT_COLLECTIONS[SAVE_TO].title}`, 'success');
+      onClose();
+    });
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000] p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 max-w-3xl w-full max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-start justify-between p-5 border-b border-gray-200">
+          <div className="flex items-start space-x-3">
+            <BookOpen className="w-6 h-6 text-slate-700 flex-shrink-0" />
+            <div>
+              <h3 className="font-bold text-lg text-gray-900">Expediente bundle</h3>
+              <p className="text-sm text-gray-600">
+                One PDF with a cover page, numbered index, page stamps and bookmarks, in the order below.
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={status !== null}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5">
+          {entries.length === 0 ? (
+            <p className="py-10 text-center text-sm text-gray-500">This client has no uploaded documents yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {entries.map((entry, index) => {
+                const position = chosen.indexOf(entry);
+                return (
+                  <li
+                    key={entry.key}
+                    draggable={status === null}
+                    onDragStart={() => setDraggedKey(entry.key)}
+                    onDragEnd={() => setDraggedKey(null)}
+                    onDragOver={(e) => {
+                      if (draggedKey) e.preventDefault();
+                    }}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      if (draggedKey && draggedKey !== entry.key) move(draggedKey, index);
+                      setDraggedKey(null);
+                    }}
+                    className={`flex items-center gap-3 p-3 rounded-lg border ${
+                      position >= 0 ? 'border-slate-300 bg-white' : 'border-gray-200 bg-gray-50 opacity-70'
+                    } ${draggedKey === entry.key ? 'opacity-40' : ''}`}
+                  >
+                    <GripVertical className="w-4 h-4 text-gray-300 cursor-move shrink-0" />
+                    <input
+                      type="checkbox"
+                      checked={position >= 0}
+                      onChange={() => toggle(entry.key)}
+                      disabled={status !== null}
+                      className="w-4 h-4 shrink-0"
+                    />
+                    <span className="w-10 text-xs font-semibold text-slate-500 shrink-0">
+                      {position >= 0 ? `Doc ${position + 1}` : ''}
+                    </span>
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium text-gray-900 truncate">{entry.title}</p>
+                      <p className="text-xs text-gray-500 truncate">
+                        {entry.section}
+                        {entry.fileName ? ` · ${entry.fileName}` : ''}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => move(entry.key, index - 1)}
+                      disabled={status !== null || index === 0}
+                      className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </button>
+                    <button
+                      onClick={() => move(entry.key, index + 1)}
+                      disabled={status !== null || index === entries.length - 1}
+                      className="p-1 text-gray-500 hover:bg-gray-100 rounded disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </button>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-t border-gray-200">
+          <p className="text-xs text-gray-500">{status || `${chosen.length} document(s) selected`}</p>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => void handleDownload()}
+              disabled={status !== null || chosen.length === 0}
+              className="inline-flex items-center px-4 py-2 text-sm font-medium text-slate-700 bg-white border border-slate-300 rounded-lg hover:bg-slate-50 transition-colors disabled:opacity-50"
+            >
+              <Download className="w-4 h-4 mr-1.5" />
+              Download PDF
+            </button>
+            {canEditClients && (
+              <button
+                onClick={() => void handleSave()}
+                disabled={status !== null || chosen.length === 0}
+                className="inline-flex items-center px-4 py-2 text-sm font-medium text-white bg-slate-800 rounded-lg hover:bg-slate-900 transition-colors disabled:opacity-50"
+              >
+                <Save className="w-4 h-4 mr-1.5" />
+                Save to {DOCUMENT_COLLECTIONS[SAVE_TO].title}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
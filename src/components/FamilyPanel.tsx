@@ -0,0 +1,329 @@
+import { useMemo, useState } from 'react';
+import { FileSymlink, Link2, RefreshCw, Users, X } from 'lucide-react';
+import { api } from '../utils/api';
+import { Client, FamilyRelation } from '../types';
+import { useData } from '../context/DataContext';
+import { usePermissions } from '../context/PermissionsContext';
+import { showToast } from './Toast';
+import { formatClientFullName } from '../utils/clientNames';
+import {
+  FAMILY_RELATION_LABELS,
+  getFamilyGroup,
+  getFamilyMembers,
+  getFamilyPaymentTotals,
+  getSharedDocumentSource,
+  isSharedDocumentOutdated,
+} from '../utils/familyLinks';
+
+type Props = {
+  client: Client;
+  currentUserName: string;
+  onChanged: () => void | Promise<void>;
+};
+
+const NEW_SLOT = '__new__';
+
+export default function FamilyPanel({ client, currentUserName, onChanged }: Props) {
+  const { clients, refreshClients } = useData();
+  const { can } = usePermissions();
+  const canViewPayments = can('view_payments');
+  const canEditClients = can('edit_clients');
+  const [busy, setBusy] = useState(false);
+  const [showLinkForm, setShowLinkForm] = useState(false);
+  const [linkForm, setLinkForm] = useState<{ clientId: string; relation: FamilyRelation }>({ clientId: '', relation: 'spouse' });
+  const [showShareForm, setShowShareForm] = useState(false);
+  const [shareForm, setShareForm] = useState({ code: '', memberId: '', targetCode: NEW_SLOT });
+
+  // The modal's copy of this client is fresher than the list's
+  const allClients = useMemo(() => [client, ...clients.filter((c) => c.id !== client.id)], [client, clients]);
+  const members = getFamilyMembers(client, allClients);
+  const family = getFamilyGroup(client, allClients);
+  const relatives = family.filter((c) => c.id !== client.id);
+  const totals = getFamilyPaymentTotals(family);
+  const actor = currentUserName.trim() || 'Unknown';
+
+  const linkCandidates = useMemo(
+    () =>
+      allClients
+        .filter((c) => c.id !== client.id && !members.some((m) => m.client.id === c.id))
+        .sort((a, b) => formatClientFullName(a).localeCompare(formatClientFullName(b))),
+    [allClients, client.id, members]
+  );
+  const uploadedDocs = client.required_documents.filter((doc) => doc.fileUrl);
+  const shareMember = relatives.find((c) => c.id === shareForm.memberId);
+  const shareSource = uploadedDocs.find((doc) => doc.code === shareForm.code);
+  // Slots the file can go into: empty ones, or ones already pointing at another shared file
+  const targetSlots = (shareMember?.required_documents || []).filter((doc) => !doc.fileUrl || doc.sharedFrom);
+  const outdated = client.required_documents.filter((doc) => doc.fileUrl && isSharedDocumentOutdated(doc, allClients));
+
+  const run = async (action: () => Promise<unknown>, success: string, failure: string) => {
+    setBusy(true);
+    try {
+      await action();
+      await refreshClients();
+      await onChanged();
+      showToast(success, 'success');
+      return true;
+    } catch (error: any) {
+      showToast(error.message || failure, 'error');
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleLink = async () => {
+    if (!linkForm.clientId) return;
+    const ok = await run(
+      () => api.linkFamilyMembers(client.id, linkForm.clientId, linkForm.relation, actor),
+      'Family member linked',
+      'Failed to link family member'
+    );
+    if (ok) {
+      setShowLinkForm(false);
+      setLinkForm({ clientId: '', relation: 'spouse' });
+    }
+  };
+
+  const handleUnlink = (member: Client) => {
+    if (!window.confirm(`Unlink ${formatClientFullName(member)} from this family? Shared documents stay in place.`)) return;
+    void run(() => api.unlinkFamilyMembers(client.id, member.id, actor), 'Family member unlinked', 'Failed to unlink family member');
+  };
+
+  const handleShare = async () => {
+    if (!shareSource || !shareMember) return;
+    const targetCode =
+      shareForm.targetCode !== NEW_SLOT
+        ? shareForm.targetCode
+        : shareMember.required_documents.some((doc) => doc.code === shareSource.code)
+          ? `${shareSource.code}_${client.id.slice(0, 6)}`
+          : shareSource.code;
+    const ok = await run(
+      () => api.shareDocument(client.id, shareSource.code, shareMember.id, targetCode, actor),
+      `${shareSource.name} shared with ${formatClientFullName(shareMember)}`,
+      'Failed to share document'
+    );
+    if (ok) {
+      setShowShareForm(false);
+      setShareForm({ code: '', memberId: '', targetCode: NEW_SLOT });
+    }
+  };
+
+  const handleRefreshShared = (code: string) => {
+    const doc = client.required_documents.find((d) => d.code === code);
+    const source = doc && getSharedDocumentSource(doc, allClients);
+    if (!source) return;
+    void run(
+      () => api.shareDocument(source.client.id, source.document.code, client.id, code, actor),
+      `${doc.name} updated from ${formatClientFullName(source.client)}`,
+      'Failed to update shared document'
+    );
+  };
+
+  return (
+    <div className="mb-6 p-4 bg-teal-50/60 border-2 border-teal-200 rounded-xl shadow-sm">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3">
+        <div className="flex items-center space-x-3">
+          <div className="bg-teal-100 p-2 rounded-lg flex-shrink-0">
+            <Users className="w-5 h-5 text-teal-700" />
+          </div>
+          <div>
+            <p className="text-xs font-semibold uppercase tracking-wide text-teal-600">Family</p>
+            <p className="font-semibold text-gray-900">
+              {relatives.length === 0 ? 'No linked family members' : `${family.length} people in this family`}
+            </p>
+          </div>
+        </div>
+        {canEditClients && (
+          <div className="flex flex-wrap gap-2">
+            <button
+              onClick={() => setShowLinkForm((open) => !open)}
+              disabled={busy}
+              className="px-3 py-1.5 bg-white border border-teal-300 text-teal-800 text-sm font-semibold rounded-lg hover:bg-teal-50 transition-colors flex items-center space-x-1 disabled:opacity-50"
+            >
+              <Link2 className="w-3.5 h-3.5" />
+              <span>Link member</span>
+            </button>
+            {relatives.length > 0 && uploadedDocs.length > 0 && (
+              <button
+                onClick={() => setShowShareForm((open) => !open)}
+                disabled={busy}
+                className="px-3 py-1.5 bg-white border border-teal-300 text-teal-800 text-sm font-semibold rounded-lg hover:bg-teal-50 transition-colors flex items-center space-x-1 disabled:opacity-50"
+              >
+                <FileSymlink className="w-3.5 h-3.5" />
+                <span>Share a document</span>
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {relatives.length > 0 && (
+        <>
+          <ul className="mt-3 divide-y divide-teal-100 border border-teal-100 rounded-lg bg-white">
+            {relatives.map((relative) => {
+              const relation = members.find((m) => m.client.id === relative.id)?.relation;
+              const pending = Math.max(0, (relative.payment?.totalFee || 0) - (relative.payment?.paidAmount || 0));
+              return (
+                <li key={relative.id} className="flex items-center justify-between gap-3 px-3 py-2 text-sm">
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 truncate">{formatClientFullName(relative)}</p>
+                    <p className="text-xs text-gray-500">
+                      {relation ? FAMILY_RELATION_LABELS[relation] : 'Related through the family'}
+                      {relative.case_type ? ` · ${relative.case_type}` : ''}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2 flex-shrink-0">
+                    {canViewPayments && (relative.payment?.totalFee || 0) > 0 && (
+                      <span className={`text-xs font-semibold ${pending > 0 ? 'text-red-600' : 'text-green-600'}`}>
+                        {pending > 0 ? `€${pending.toFixed(0)} pending` : 'Paid'}
+                      </span>
+                    )}
+                    {relation && canEditClients && (
+                      <button
+                        onClick={() => handleUnlink(relative)}
+                        disabled={busy}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded transition-colors disabled:opacity-50"
+                        title="Unlink"
+                      >
+                        <X className="w-4 h-4" />
+                      </button>
+                    )}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          {canViewPayments && totals.totalFee > 0 && (
+            <p className="mt-2 text-xs text-teal-900">
+              Family fees €{totals.totalFee.toFixed(0)} · paid €{totals.paidAmount.toFixed(0)} ·{' '}
+              <span className={totals.pending > 0 ? 'font-semibold text-red-600' : 'font-semibold text-green-700'}>
+                pending €{totals.pending.toFixed(0)}
+              </span>
+            </p>
+          )}
+        </>
+      )}
+
+      {outdated.length > 0 && (
+        <div className="mt-3 space-y-1">
+          {outdated.map((doc) => {
+            const source = getSharedDocumentSource(doc, allClients);
+            return (
+              <div key={doc.code} className="flex items-center justify-between gap-2 p-2 text-xs bg-amber-50 border border-amber-200 rounded">
+                <span className="text-amber-900">
+                  {source
+                    ? `${doc.name}: ${formatClientFullName(source.client)} uploaded a newer file`
+                    : `${doc.name}: the shared original was removed`}
+                </span>
+                {source && canEditClients && (
+                  <button
+                    onClick={() => handleRefreshShared(doc.code)}
+                    disabled={busy}
+                    className="inline-flex items-center gap-1 font-semibold text-amber-800 hover:text-amber-950 disabled:opacity-50"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    Use newer file
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      {showLinkForm && (
+        <div className="mt-3 p-3 bg-white border border-teal-200 rounded-lg flex flex-col sm:flex-row gap-2">
+          <select
+            value={linkForm.clientId}
+            onChange={(e) => setLinkForm({ ...linkForm, clientId: e.target.value })}
+            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white"
+          >
+            <option value="">Choose a client…</option>
+            {linkCandidates.map((c) => (
+              <option key={c.id} value={c.id}>
+                {formatClientFullName(c)}
+                {c.case_type ? ` — ${c.case_type}` : ''}
+              </option>
+            ))}
+          </select>
+          <select
+            value={linkForm.relation}
+            onChange={(e) => setLinkForm({ ...linkForm, relation: e.target.value as FamilyRelation })}
+            className="px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white"
+            title="What the chosen client is to this one"
+          >
+            {Object.entries(FAMILY_RELATION_LABELS).map(([relation, label]) => (
+              <option key={relation} value={relation}>
+                is {label.toLowerCase()}
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={() => void handleLink()}
+            disabled={busy || !linkForm.clientId}
+            className="px-4 py-2 bg-teal-600 text-white text-sm font-semibold rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+          >
+            {busy ? 'Linking...' : 'Link'}
+          </button>
+        </div>
+      )}
+
+      {showShareForm && (
+        <div className="mt-3 p-3 bg-white border border-teal-200 rounded-lg space-y-2">
+          <p className="text-xs text-gray-600">
+            The member's checklist will point at this client's file; nothing is uploaded twice.
+          </p>
+          <div className="flex flex-col sm:flex-row gap-2">
+            <select
+              value={shareForm.code}
+              onChange={(e) => setShareForm({ ...shareForm, code: e.target.value })}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white"
+            >
+              <option value="">Document…</option>
+              {uploadedDocs.map((doc) => (
+                <option key={doc.code} value={doc.code}>
+                  {doc.name}
+                </option>
+              ))}
+            </select>
+            <select
+              value={shareForm.memberId}
+              onChange={(e) => setShareForm({ ...shareForm, memberId: e.target.value, targetCode: NEW_SLOT })}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white"
+            >
+              <option value="">Family member…</option>
+              {relatives.map((relative) => (
+                <option key={relative.id} value={relative.id}>
+                  {formatClientFullName(relative)}
+                </option>
+              ))}
+            </select>
+            <select
+              value={shareForm.targetCode}
+              onChange={(e) => setShareForm({ ...shareForm, targetCode: e.target.value })}
+              disabled={!shareMember}
+              className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-lg bg-white disabled:opacity-50"
+            >
+              <option value={NEW_SLOT}>As a new checklist item</option>
+              {targetSlots.map((doc) => (
+                <option key={doc.code} value={doc.code}>
+                  Into: {doc.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="flex justify-end">
+            <button
+              onClick={() => void handleShare()}
+              disabled={busy || !shareSource || !shareMember}
+              className="px-4 py-2 bg-teal-600 text-white text-sm font-semibold rounded-lg hover:bg-teal-700 transition-colors disabled:opacity-50"
+            >
+              {busy ? 'Sharing...' : 'Share'}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
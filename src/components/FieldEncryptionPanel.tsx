@@ -0,0 +1,250 @@
+import { useEffect, useState } from 'react';
+import { KeyRound, Loader2, Lock } from 'lucide-react';
+import { FieldEncryptionSettings } from '../types';
+import { api, ClientUpdate } from '../utils/api';
+import {
+  ENCRYPTED_CLIENT_FIELDS,
+  ENCRYPTED_FIELD_LABELS,
+  createFirmKey,
+  getPlaintextSensitiveFields,
+  isFirmKeyUnlocked,
+  lockFirmKey,
+  rewrapFirmKey,
+  subscribeToFirmKey,
+  validateFirmPassphrase,
+} from '../utils/fieldEncryption';
+import { useData } from '../context/DataContext';
+import { showToast } from './Toast';
+
+type Mode = 'idle' | 'enable' | 'change';
+
+/**
+ * Client-side encryption of sensitive client fields with a firm key. The key is wrapped with a
+ * passphrase the server never sees, so a lost passphrase means the encrypted values are lost
+ * too. Admin only.
+ */
+export default function FieldEncryptionPanel() {
+  const { clients, refreshClients } = useData();
+  const [settings, setSettings] = useState<FieldEncryptionSettings | null>(null);
+  const [unlocked, setUnlocked] = useState(isFirmKeyUnlocked);
+  const [mode, setMode] = useState<Mode>('idle');
+  const [currentPassphrase, setCurrentPassphrase] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [migration, setMigration] = useState<{ done: number; total: number } | null>(null);
+
+  useEffect(() => {
+    api
+      .getFieldEncryptionSettings()
+      .then(setSettings)
+      .catch((error) => {
+        console.error('❌ Failed to load encryption settings:', error);
+        showToast(error.message || 'Failed to load encryption settings', 'error');
+      });
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = subscribeToFirmKey(setUnlocked);
+    return () => {
+      unsubscribe();
+    };
+  }, []);
+
+  const reset = () => {
+    setMode('idle');
+    setCurrentPassphrase('');
+    setPassphrase('');
+    setConfirmPassphrase('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!settings) return;
+    const passphraseError = validateFirmPassphrase(passphrase);
+    if (passphraseError) {
+      showToast(passphraseError, 'error');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      showToast('Passphrases do not match', 'error');
+      return;
+    }
+    setSaving(true);
+    try {
+      if (mode === 'enable') {
+        setSettings(await api.updateFieldEncryptionSettings(await createFirmKey(passphrase)));
+        showToast('Field encryption enabled. Keep the passphrase somewhere safe.', 'success', 8000);
+      } else {
+        setSettings(await api.updateFieldEncryptionSettings(await rewrapFirmKey(settings, currentPassphrase, passphrase)));
+        showToast('Firm passphrase changed', 'success');
+      }
+      reset();
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update encryption settings', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Existing clients keep their plaintext until re-saved; this re-saves them all, one at a time
+  const plaintextClients = clients.filter((client) => getPlaintextSensitiveFields(client).length > 0);
+
+  const handleMigrate = async () => {
+    const total = plaintextClients.length;
+    let failed = 0;
+    setMigration({ done: 0, total });
+    for (const [index, client] of plaintextClients.entries()) {
+      const update: ClientUpdate = {};
+      for (const field of getPlaintextSensitiveFields(client)) update[field] = client[field];
+      try {
+        await api.updateClient(client.id, update);
+      } catch (error) {
+        console.error(`❌ Failed to encrypt client ${client.id}:`, error);
+        failed++;
+      }
+      setMigration({ done: index + 1, total });
+    }
+    setMigration(null);
+    await refreshClients();
+    if (failed > 0) {
+      showToast(`Encrypted ${total - failed} of ${total} clients. ${failed} failed - try again.`, 'warning');
+    } else {
+      showToast(`Encrypted ${total} clients`, 'success');
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none';
+  const fieldList = ENCRYPTED_CLIENT_FIELDS.map((field) => ENCRYPTED_FIELD_LABELS[field].toLowerCase()).join(', ');
+
+  return (
+    <div className="glass-gold rounded-xl sm:rounded-2xl p-5 sm:p-6 border-2 border-amber-200/50 animate-slide-up">
+      <div className="flex items-start justify-between gap-3 mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2.5 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
+            <KeyRound className="w-5 h-5 text-amber-800" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Field Encryption</h3>
+            <p className="text-sm text-gray-600">Encrypts {fieldList} in the browser before they are sent</p>
+          </div>
+        </div>
+        {settings?.enabled && (
+          <span
+            className={`px-2 py-1 rounded-full text-xs font-semibold ${
+              unlocked ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-600'
+            }`}
+          >
+            {unlocked ? 'Unlocked' : 'Locked'}
+          </span>
+        )}
+      </div>
+
+      {settings && !settings.enabled && mode === 'idle' && (
+        <div className="space-y-3">
+          <p className="text-sm text-gray-700">
+            Everyone who needs these fields will need the firm passphrase. If it is lost, the encrypted values cannot be
+            recovered.
+          </p>
+          <button
+            onClick={() => setMode('enable')}
+            className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700"
+          >
+            Enable field encryption
+          </button>
+        </div>
+      )}
+
+      {settings?.enabled && mode === 'idle' && (
+        <div className="flex flex-wrap gap-2">
+          {unlocked && (
+            <button
+              onClick={lockFirmKey}
+              className="inline-flex items-center gap-1.5 px-4 py-2 text-sm font-semibold text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50"
+            >
+              <Lock className="w-4 h-4" />
+              Lock now
+            </button>
+          )}
+          <button
+            onClick={() => setMode('change')}
+            className="px-4 py-2 text-sm font-semibold text-amber-800 bg-white border border-amber-300 rounded-lg hover:bg-amber-50"
+          >
+            Change passphrase
+          </button>
+        </div>
+      )}
+
+      {mode !== 'idle' && (
+        <form onSubmit={handleSubmit} className="space-y-3">
+          {mode === 'change' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-1">Current passphrase</label>
+              <input
+                type="password"
+                value={currentPassphrase}
+                onChange={(e) => setCurrentPassphrase(e.target.value)}
+                className={inputClass}
+                autoComplete="off"
+                autoFocus
+                required
+              />
+            </div>
+          )}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">New passphrase</label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => setPassphrase(e.target.value)}
+              className={inputClass}
+              autoComplete="new-password"
+              autoFocus={mode === 'enable'}
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Repeat passphrase</label>
+            <input
+              type="password"
+              value={confirmPassphrase}
+              onChange={(e) => setConfirmPassphrase(e.target.value)}
+              className={inputClass}
+              autoComplete="new-password"
+              required
+            />
+          </div>
+          <div className="flex gap-2">
+            <button type="button" onClick={reset} className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving || !passphrase || !confirmPassphrase}
+              className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-60"
+            >
+              {saving ? <Loader2 className="w-4 h-4 animate-spin" /> : mode === 'enable' ? 'Enable' : 'Change passphrase'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {settings?.enabled && unlocked && plaintextClients.length > 0 && mode === 'idle' && (
+        <div className="mt-4 p-3 bg-white border border-amber-200 rounded-lg flex flex-wrap items-center justify-between gap-3">
+          <p className="text-sm text-gray-700">
+            {migration
+              ? `Encrypting clients... ${migration.done} / ${migration.total}`
+              : `${plaintextClients.length} existing client${plaintextClients.length === 1 ? ' still has' : 's still have'} unencrypted fields.`}
+          </p>
+          <button
+            onClick={handleMigrate}
+            disabled={migration !== null}
+            className="px-3 py-1.5 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-60"
+          >
+            {migration ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Encrypt existing clients'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,101 @@
+import { useState } from 'react';
+import { AlertCircle, KeyRound, Loader2, X } from 'lucide-react';
+import { api } from '../utils/api';
+import { ENCRYPTED_CLIENT_FIELDS, ENCRYPTED_FIELD_LABELS, unlockFirmKey } from '../utils/fieldEncryption';
+
+interface Props {
+  onUnlocked: () => void;
+  onClose: () => void;
+}
+
+/** Unlocks the firm key for this page with the firm passphrase, so encrypted client fields can be read. */
+export default function FirmKeyUnlockDialog({ onUnlocked, onClose }: Props) {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setSubmitting(true);
+    try {
+      await unlockFirmKey(await api.getFieldEncryptionSettings(), passphrase);
+      onUnlocked();
+    } catch (unlockError: any) {
+      setError(unlockError.message || 'Failed to unlock. Please try again.');
+      setPassphrase('');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const fieldList = ENCRYPTED_CLIENT_FIELDS.map((field) => ENCRYPTED_FIELD_LABELS[field].toLowerCase()).join(', ');
+
+  return (
+    <div
+      className="fixed inset-0 z-[110] flex items-center justify-center p-4 bg-black/50 backdrop-blur-sm"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-scale-in">
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="p-3 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
+              <KeyRound className="w-6 h-6 text-amber-800" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">Unlock client data</h2>
+              <p className="text-sm text-gray-600 mt-0.5">Enter the firm passphrase to read {fieldList}</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">Firm passphrase</label>
+            <input
+              type="password"
+              value={passphrase}
+              onChange={(e) => {
+                setPassphrase(e.target.value);
+                setError('');
+              }}
+              className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none"
+              autoComplete="off"
+              autoFocus
+              required
+            />
+          </div>
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-center space-x-1">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </p>
+          )}
+
+          <p className="text-xs text-gray-500">
+            The key stays in this tab only. Reloading the page or signing out locks it again.
+          </p>
+
+          <div className="flex justify-end gap-2">
+            <button type="button" onClick={onClose} className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || !passphrase}
+              className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-60"
+            >
+              {submitting ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Unlock'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
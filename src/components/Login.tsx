@@ -1,6 +1,7 @@
 import { useState, useEffect } from 'react';
-import { Mail, Lock, AlertCircle, Loader2, Eye, EyeOff } from 'lucide-react';
-import { loginWithEmail, isFirebaseAvailable } from '../utils/firebase';
+import type { MultiFactorResolver } from 'firebase/auth';
+import { Mail, Lock, AlertCircle, Loader2, Eye, EyeOff, KeyRound } from 'lucide-react';
+import { loginWithEmail, isFirebaseAvailable, SecondFactorRequiredError, completeTotpSignIn } from '../utils/firebase';
 import Logo from './Logo';
 import LanguageSelector from './LanguageSelector';
 import { t } from '../utils/i18n';
@@ -15,6 +16,9 @@ export default function Login({ onLoginSuccess }: LoginProps) {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
   const [showPassword, setShowPassword] = useState(false);
+  // Set once the password is accepted and the account asks for an authenticator code
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  const [totpCode, setTotpCode] = useState('');
   const [, forceUpdate] = useState({});
 
   // Check if Firebase is configured on mount
@@ -53,6 +57,13 @@ export default function Login({ onLoginSuccess }: LoginProps) {
       // Success - Firebase auth state will be handled by App.tsx
       onLoginSuccess();
     } catch (err: any) {
+      if (err instanceof SecondFactorRequiredError) {
+        setMfaResolver(err.resolver);
+        setTotpCode('');
+        setLoading(false);
+        return;
+      }
+
       // Handle Firebase auth errors
       let errorMessage = t('login.invalidCredentials');
       
@@ -82,6 +93,21 @@ export default function Login({ onLoginSuccess }: LoginProps) {
     }
   };
 
+  const handleTotpSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaResolver) return;
+    setError('');
+    setLoading(true);
+    try {
+      await completeTotpSignIn(mfaResolver, totpCode);
+      onLoginSuccess();
+    } catch (err: any) {
+      setError(err.message || t('login.invalidCredentials'));
+      setTotpCode('');
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-black via-gray-900 to-black p-4 relative overflow-hidden">
       {/* Animated gold background elements */}
@@ -125,119 +151,167 @@ export default function Login({ onLoginSuccess }: LoginProps) {
             </div>
           )}
 
-          {/* Login Form */}
-                 <form onSubmit={handleSubmit} className="space-y-6 relative z-10">
-                   <div>
-                     <label className="block text-sm font-semibold text-gray-300 mb-2.5 tracking-wide">
-                       {t('login.email')}
-                     </label>
-              <div className="relative group">
-                <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none z-10">
-                  <div className="relative">
-                    {/* Icon glow effect */}
-                    <div className="absolute inset-0 bg-yellow-500/20 rounded-lg blur-md group-focus-within:bg-yellow-500/30 transition-all"></div>
-                    {/* Icon container */}
-                    <div className="relative bg-gradient-to-br from-yellow-500/20 to-amber-600/20 border border-yellow-500/30 rounded-lg p-2.5 group-focus-within:border-yellow-500/50 group-focus-within:bg-gradient-to-br group-focus-within:from-yellow-500/30 group-focus-within:to-amber-600/30 transition-all backdrop-blur-sm"
-                         style={{ boxShadow: '0 2px 8px rgba(255, 215, 0, 0.15), inset 0 1px 0 rgba(255, 255, 255, 0.1)' }}>
-                      <Mail className="w-5 h-5 text-yellow-400 group-focus-within:text-yellow-300 transition-colors" strokeWidth={2.5} />
+          {mfaResolver ? (
+            <form onSubmit={handleTotpSubmit} className="space-y-6 relative z-10">
+              <div>
+                <label className="block text-sm font-semibold text-gray-300 mb-2.5 tracking-wide">
+                  {t('login.authenticatorCode')}
+                </label>
+                <div className="relative">
+                  <KeyRound className="absolute left-4 top-1/2 -translate-y-1/2 w-5 h-5 text-yellow-400" strokeWidth={2.5} />
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={totpCode}
+                    onChange={(e) => setTotpCode(e.target.value.replace(/\D/g, ''))}
+                    required
+                    maxLength={6}
+                    autoFocus
+                    autoComplete="one-time-code"
+                    disabled={loading}
+                    className="w-full pl-12 pr-4 py-3.5 bg-black/40 border border-yellow-500/20 rounded-xl text-white text-center text-2xl tracking-[0.5em] font-mono placeholder-gray-600 focus:outline-none focus:border-yellow-500/70"
+                    placeholder="000000"
+                  />
+                </div>
+                <p className="mt-2 text-xs text-gray-400">{t('login.authenticatorCodeHelp')}</p>
+              </div>
+
+              <button
+                type="submit"
+                disabled={loading || totpCode.length < 6}
+                className="w-full py-4 bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-black font-bold rounded-xl shadow-2xl transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
+                style={{ boxShadow: '0 4px 20px rgba(255, 215, 0, 0.4)' }}
+              >
+                {loading ? <Loader2 className="w-5 h-5 animate-spin" /> : <span className="tracking-wide">{t('login.verify')}</span>}
+              </button>
+              <button
+                type="button"
+                onClick={() => {
+                  setMfaResolver(null);
+                  setTotpCode('');
+                  setPassword('');
+                  setError('');
+                }}
+                className="w-full text-sm text-gray-400 hover:text-gray-200"
+              >
+                {t('login.useDifferentAccount')}
+              </button>
+            </form>
+          ) : (
+            /* Login Form */
+                   <form onSubmit={handleSubmit} className="space-y-6 relative z-10">
+                     <div>
+                       <label className="block text-sm font-semibold text-gray-300 mb-2.5 tracking-wide">
+                         {t('login.email')}
+                       </label>
+                <div className="relative group">
+                  <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none z-10">
+                    <div className="relative">
+                      {/* Icon glow effect */}
+                      <div className="absolute inset-0 bg-yellow-500/20 rounded-lg blur-md group-focus-within:bg-yellow-500/30 transition-all"></div>
+                      {/* Icon container */}
+                      <div className="relative bg-gradient-to-br from-yellow-500/20 to-amber-600/20 border border-yellow-500/30 rounded-lg p-2.5 group-focus-within:border-yellow-500/50 group-focus-within:bg-gradient-to-br group-focus-within:from-yellow-500/30 group-focus-within:to-amber-600/30 transition-all backdrop-blur-sm"
+                           style={{ boxShadow: '0 2px 8px rgba(255, 215, 0, 0.15), inset 0 1px 0 rgba(255, 255, 255, 0.1)' }}>
+                        <Mail className="w-5 h-5 text-yellow-400 group-focus-within:text-yellow-300 transition-colors" strokeWidth={2.5} />
+                      </div>
                     </div>
                   </div>
+                  <input
+                    type="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                    className="w-full pl-16 pr-4 py-3.5 bg-black/40 border border-yellow-500/20 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-0 focus:border-yellow-500/70 focus:bg-black/50 transition-all duration-200 backdrop-blur-sm font-medium"
+                    style={{ 
+                      boxShadow: 'inset 0 2px 4px rgba(0, 0, 0, 0.3)',
+                      WebkitTapHighlightColor: 'transparent'
+                    }}
+                           placeholder={t('login.emailPlaceholder')}
+                    disabled={loading}
+                    autoComplete="email"
+                    onFocus={(e) => {
+                      e.target.style.outline = 'none';
+                      e.target.style.boxShadow = 'inset 0 2px 4px rgba(0, 0, 0, 0.3), 0 0 0 3px rgba(255, 215, 0, 0.2)';
+                    }}
+                    onBlur={(e) => {
+                      e.target.style.boxShadow = 'inset 0 2px 4px rgba(0, 0, 0, 0.3)';
+                    }}
+                  />
                 </div>
-                <input
-                  type="email"
-                  value={email}
-                  onChange={(e) => setEmail(e.target.value)}
-                  required
-                  className="w-full pl-16 pr-4 py-3.5 bg-black/40 border border-yellow-500/20 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-0 focus:border-yellow-500/70 focus:bg-black/50 transition-all duration-200 backdrop-blur-sm font-medium"
-                  style={{ 
-                    boxShadow: 'inset 0 2px 4px rgba(0, 0, 0, 0.3)',
-                    WebkitTapHighlightColor: 'transparent'
-                  }}
-                         placeholder={t('login.emailPlaceholder')}
-                  disabled={loading}
-                  autoComplete="email"
-                  onFocus={(e) => {
-                    e.target.style.outline = 'none';
-                    e.target.style.boxShadow = 'inset 0 2px 4px rgba(0, 0, 0, 0.3), 0 0 0 3px rgba(255, 215, 0, 0.2)';
-                  }}
-                  onBlur={(e) => {
-                    e.target.style.boxShadow = 'inset 0 2px 4px rgba(0, 0, 0, 0.3)';
-                  }}
-                />
               </div>
-            </div>
 
-                   <div>
-                     <label className="block text-sm font-semibold text-gray-300 mb-2.5 tracking-wide">
-                       {t('login.password')}
-                     </label>
-              <div className="relative group">
-                <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none z-10">
-                  <div className="relative">
-                    {/* Icon glow effect */}
-                    <div className="absolute inset-0 bg-yellow-500/20 rounded-lg blur-md group-focus-within:bg-yellow-500/30 transition-all"></div>
-                    {/* Icon container */}
-                    <div className="relative bg-gradient-to-br from-yellow-500/20 to-amber-600/20 border border-yellow-500/30 rounded-lg p-2.5 group-focus-within:border-yellow-500/50 group-focus-within:bg-gradient-to-br group-focus-within:from-yellow-500/30 group-focus-within:to-amber-600/30 transition-all backdrop-blur-sm"
-                         style={{ boxShadow: '0 2px 8px rgba(255, 215, 0, 0.15), inset 0 1px 0 rgba(255, 255, 255, 0.1)' }}>
-                      <Lock className="w-5 h-5 text-yellow-400 group-focus-within:text-yellow-300 transition-colors" strokeWidth={2.5} />
+                     <div>
+                       <label className="block text-sm font-semibold text-gray-300 mb-2.5 tracking-wide">
+                         {t('login.password')}
+                       </label>
+                <div className="relative group">
+                  <div className="absolute inset-y-0 left-0 pl-4 flex items-center pointer-events-none z-10">
+                    <div className="relative">
+                      {/* Icon glow effect */}
+                      <div className="absolute inset-0 bg-yellow-500/20 rounded-lg blur-md group-focus-within:bg-yellow-500/30 transition-all"></div>
+                      {/* Icon container */}
+                      <div className="relative bg-gradient-to-br from-yellow-500/20 to-amber-600/20 border border-yellow-500/30 rounded-lg p-2.5 group-focus-within:border-yellow-500/50 group-focus-within:bg-gradient-to-br group-focus-within:from-yellow-500/30 group-focus-within:to-amber-600/30 transition-all backdrop-blur-sm"
+                           style={{ boxShadow: '0 2px 8px rgba(255, 215, 0, 0.15), inset 0 1px 0 rgba(255, 255, 255, 0.1)' }}>
+                        <Lock className="w-5 h-5 text-yellow-400 group-focus-within:text-yellow-300 transition-colors" strokeWidth={2.5} />
+                      </div>
                     </div>
                   </div>
+                  <input
+                    type={showPassword ? 'text' : 'password'}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                    className="w-full pl-16 pr-12 py-3.5 bg-black/40 border border-yellow-500/20 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-0 focus:border-yellow-500/70 focus:bg-black/50 transition-all duration-200 backdrop-blur-sm font-medium"
+                    style={{ 
+                      boxShadow: 'inset 0 2px 4px rgba(0, 0, 0, 0.3)',
+                      WebkitTapHighlightColor: 'transparent'
+                    }}
+                           placeholder={t('login.passwordPlaceholder')}
+                    disabled={loading}
+                    autoComplete="current-password"
+                    onFocus={(e) => {
+                      e.target.style.outline = 'none';
+                      e.target.style.boxShadow = 'inset 0 2px 4px rgba(0, 0, 0, 0.3), 0 0 0 3px rgba(255, 215, 0, 0.2)';
+                    }}
+                    onBlur={(e) => {
+                      e.target.style.boxShadow = 'inset 0 2px 4px rgba(0, 0, 0, 0.3)';
+                    }}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setShowPassword(!showPassword)}
+                    className="absolute inset-y-0 right-0 pr-4 flex items-center text-yellow-500/70 hover:text-yellow-400 transition-colors focus:outline-none"
+                    tabIndex={-1}
+                    aria-label={showPassword ? 'Hide password' : 'Show password'}
+                  >
+                    {showPassword ? (
+                      <EyeOff className="w-5 h-5" />
+                    ) : (
+                      <Eye className="w-5 h-5" />
+                    )}
+                  </button>
                 </div>
-                <input
-                  type={showPassword ? 'text' : 'password'}
-                  value={password}
-                  onChange={(e) => setPassword(e.target.value)}
-                  required
-                  className="w-full pl-16 pr-12 py-3.5 bg-black/40 border border-yellow-500/20 rounded-xl text-white placeholder-gray-500 focus:outline-none focus:ring-0 focus:border-yellow-500/70 focus:bg-black/50 transition-all duration-200 backdrop-blur-sm font-medium"
-                  style={{ 
-                    boxShadow: 'inset 0 2px 4px rgba(0, 0, 0, 0.3)',
-                    WebkitTapHighlightColor: 'transparent'
-                  }}
-                         placeholder={t('login.passwordPlaceholder')}
-                  disabled={loading}
-                  autoComplete="current-password"
-                  onFocus={(e) => {
-                    e.target.style.outline = 'none';
-                    e.target.style.boxShadow = 'inset 0 2px 4px rgba(0, 0, 0, 0.3), 0 0 0 3px rgba(255, 215, 0, 0.2)';
-                  }}
-                  onBlur={(e) => {
-                    e.target.style.boxShadow = 'inset 0 2px 4px rgba(0, 0, 0, 0.3)';
-                  }}
-                />
-                <button
-                  type="button"
-                  onClick={() => setShowPassword(!showPassword)}
-                  className="absolute inset-y-0 right-0 pr-4 flex items-center text-yellow-500/70 hover:text-yellow-400 transition-colors focus:outline-none"
-                  tabIndex={-1}
-                  aria-label={showPassword ? 'Hide password' : 'Show password'}
-                >
-                  {showPassword ? (
-                    <EyeOff className="w-5 h-5" />
-                  ) : (
-                    <Eye className="w-5 h-5" />
-                  )}
-                </button>
               </div>
-            </div>
 
-            <button
-              type="submit"
-              disabled={loading}
-              className="w-full py-4 bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-black font-bold rounded-xl shadow-2xl hover:shadow-yellow-500/50 transform hover:scale-[1.02] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center space-x-2 relative overflow-hidden group"
-              style={{ boxShadow: '0 4px 20px rgba(255, 215, 0, 0.4)' }}
-            >
-              {/* Button shine effect */}
-              <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent transform -skew-x-12 -translate-x-full group-hover:translate-x-full transition-transform duration-1000"></div>
-                     {loading ? (
-                       <>
-                         <Loader2 className="w-5 h-5 animate-spin relative z-10" />
-                         <span className="relative z-10">{t('login.signingIn')}</span>
-                       </>
-                     ) : (
-                       <span className="relative z-10 tracking-wide">{t('login.signIn')}</span>
-                     )}
-            </button>
-          </form>
+              <button
+                type="submit"
+                disabled={loading}
+                className="w-full py-4 bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-black font-bold rounded-xl shadow-2xl hover:shadow-yellow-500/50 transform hover:scale-[1.02] transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:transform-none flex items-center justify-center space-x-2 relative overflow-hidden group"
+                style={{ boxShadow: '0 4px 20px rgba(255, 215, 0, 0.4)' }}
+              >
+                {/* Button shine effect */}
+                <div className="absolute inset-0 bg-gradient-to-r from-transparent via-white/20 to-transparent transform -skew-x-12 -translate-x-full group-hover:translate-x-full transition-transform duration-1000"></div>
+                       {loading ? (
+                         <>
+                           <Loader2 className="w-5 h-5 animate-spin relative z-10" />
+                           <span className="relative z-10">{t('login.signingIn')}</span>
+                         </>
+                       ) : (
+                         <span className="relative z-10 tracking-wide">{t('login.signIn')}</span>
+                       )}
+              </button>
+            </form>
+          )}
 
                  {/* Footer */}
                  <p className="mt-8 text-center text-xs text-gray-500 font-medium relative z-10">
@@ -0,0 +1,143 @@
+import { ReactNode } from 'react';
+import { GitMerge, X } from 'lucide-react';
+import { ListMerge, MergeSource } from '../utils/clientMerge';
+
+export type MergeResolution = 'merged' | 'mine' | 'theirs';
+
+interface MergeConflictDialogProps<T> {
+  isOpen: boolean;
+  title: string;
+  mine: T[];
+  theirs: T[];
+  merge: ListMerge<T>;
+  renderItem: (item: T) => ReactNode;
+  saving?: boolean;
+  onResolve: (resolution: MergeResolution) => void;
+  onCancel: () => void;
+}
+
+const SOURCE_BADGES: Record<Exclude<MergeSource, 'unchanged'>, { label: string; className: string }> = {
+  mine: { label: 'yours', className: 'bg-blue-100 text-blue-700' },
+  theirs: { label: 'theirs', className: 'bg-purple-100 text-purple-700' },
+};
+
+function EntryList<T>({ items, renderItem, empty }: { items: T[]; renderItem: (item: T) => ReactNode; empty: string }) {
+  if (items.length === 0) return <p className="text-xs text-gray-400 italic">{empty}</p>;
+  return (
+    <ul className="space-y-2">
+      {items.map((item, index) => (
+        <li key={index} className="p-2 bg-white rounded-lg border border-gray-200 text-sm text-gray-800">
+          {renderItem(item)}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Shown when a conditional save is rejected because someone else changed the client.
+ * Lets the user keep their version, keep the server's, or save the three-way merge.
+ */
+export default function MergeConflictDialog<T>({
+  isOpen,
+  title,
+  mine,
+  theirs,
+  merge,
+  renderItem,
+  saving = false,
+  onResolve,
+  onCancel,
+}: MergeConflictDialogProps<T>) {
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000] p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl border-2 border-amber-200 max-w-5xl w-full max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-start justify-between p-5 border-b border-gray-200 bg-amber-50 rounded-t-2xl">
+          <div className="flex items-start space-x-3">
+            <GitMerge className="w-6 h-6 text-amber-600 flex-shrink-0" />
+            <div>
+              <h3 className="font-bold text-lg text-amber-900">{title}</h3>
+              <p className="text-sm text-gray-700">
+                Someone else saved this client while you were editing. Review both versions before saving.
+              </p>
+            </div>
+          </div>
+          <button onClick={onCancel} className="p-2 text-gray-500 hover:bg-amber-100 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="p-3 bg-blue-50/50 rounded-xl border border-blue-200">
+            <h4 className="text-sm font-semibold text-blue-900 mb-2">Your version</h4>
+            <EntryList items={mine} renderItem={renderItem} empty="(empty)" />
+          </div>
+          <div className="p-3 bg-purple-50/50 rounded-xl border border-purple-200">
+            <h4 className="text-sm font-semibold text-purple-900 mb-2">Current server version</h4>
+            <EntryList items={theirs} renderItem={renderItem} empty="(empty)" />
+          </div>
+          <div className="p-3 bg-green-50/50 rounded-xl border border-green-200">
+            <h4 className="text-sm font-semibold text-green-900 mb-2">Merged result</h4>
+            {merge.items.length === 0 ? (
+              <p className="text-xs text-gray-400 italic">(empty)</p>
+            ) : (
+              <ul className="space-y-2">
+                {merge.items.map((entry, index) => (
+                  <li key={index} className="p-2 bg-white rounded-lg border border-gray-200 text-sm text-gray-800">
+                    {entry.source !== 'unchanged' && (
+                      <span
+                        className={`inline-block mb-1 px-1.5 py-0.5 rounded text-[10px] font-semibold uppercase ${SOURCE_BADGES[entry.source].className}`}
+                      >
+                        {SOURCE_BADGES[entry.source].label}
+                      </span>
+                    )}
+                    {renderItem(entry.item)}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {merge.removed.length > 0 && (
+              <div className="mt-3">
+                <p className="text-xs font-semibold text-gray-600 mb-1">Removed</p>
+                <ul className="space-y-1">
+                  {merge.removed.map((entry, index) => (
+                    <li key={index} className="text-xs text-gray-500 line-through">
+                      {renderItem(entry.item)}
+                      <span className="ml-1 no-underline">({entry.source === 'mine' ? 'by you' : 'by someone else'})</span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-end gap-2 p-4 border-t border-gray-200">
+          <button
+            onClick={() => onResolve('theirs')}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+          >
+            Discard my changes
+          </button>
+          <button
+            onClick={() => onResolve('mine')}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-blue-700 bg-blue-50 border border-blue-200 rounded-lg hover:bg-blue-100 transition-colors disabled:opacity-50"
+          >
+            Overwrite with mine
+          </button>
+          <button
+            onClick={() => onResolve('merged')}
+            disabled={saving}
+            className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+          >
+            {saving ? 'Saving...' : 'Save merged'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
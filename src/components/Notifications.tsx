@@ -4,10 +4,11 @@ import { api } from '../utils/api';
 import { Client, Reminder as ReminderType } from '../types';
 import { useData } from '../context/DataContext';
 import { reminderDisplayName } from '../utils/reminderNames';
+import { describeDocumentExpiry, getClientDocumentExpiries } from '../utils/documentExpiry';
 
 interface Reminder {
   client: Client;
-  type: 'reminder' | 'silence_expiring' | 'silence_expired' | 'documents_pending';
+  type: 'reminder' | 'silence_expiring' | 'silence_expired' | 'documents_pending' | 'document_expiring';
   message: string;
   priority: 'high' | 'medium' | 'low';
   daysRemaining?: number;
@@ -20,7 +21,7 @@ interface Props {
 
 export default function Notifications({ onClientClick, onReminderClick }: Props) {
   // Use cached data from DataContext (no API calls needed)
-  const { clients: cachedClients, reminders: cachedReminders } = useData();
+  const { clients: cachedClients, reminders: cachedReminders, templates: cachedTemplates } = useData();
   const [isOpen, setIsOpen] = useState(false);
   const [reminders, setReminders] = useState<Reminder[]>([]);
   const [loading, setLoading] = useState(false);
@@ -157,6 +158,26 @@ export default function Notifications({ onClientClick, onReminderClick }: Props)
           }
         }
 
+        // Check for checklist documents that are stale, or will be soon, before the case is filed
+        if (!client.submitted_to_immigration) {
+          const template = cachedTemplates.find((t) => t.id === client.case_template_id);
+          const expiring = getClientDocumentExpiries(client, new Date(), template).filter(
+            (expiry) => expiry.status === 'expired' || expiry.status === 'expiring'
+          );
+          if (expiring.length > 0) {
+            const soonest = Math.min(...expiring.map((expiry) => expiry.daysLeft ?? 0));
+            newReminders.push({
+              client,
+              type: 'document_expiring',
+              message: `${expiring.length} document(s) expired or expiring for ${client.first_name} ${client.last_name}: ${expiring
+                .map((expiry) => `${expiry.document.name} (${describeDocumentExpiry(expiry)})`)
+                .join(', ')}`,
+              priority: soonest < 0 ? 'high' : soonest <= 7 ? 'medium' : 'low',
+              daysRemaining: soonest,
+            });
+          }
+        }
+
         // Check for reminder interval based on document activity
         // Only show reminder if client has pending REQUIRED documents and hasn't been submitted
         if (!client.submitted_to_immigration) {
@@ -331,6 +352,8 @@ export default function Notifications({ onClientClick, onReminderClick }: Props)
         return <AlertCircle className="w-5 h-5 text-orange-600" />;
       case 'documents_pending':
         return <Clock className="w-5 h-5 text-amber-600" />;
+      case 'document_expiring':
+        return <Clock className="w-5 h-5 text-orange-600" />;
       case 'reminder':
         return <Clock className="w-5 h-5 text-blue-600" />;
       default:
@@ -0,0 +1,343 @@
+import { useMemo, useState } from 'react';
+import { BookOpen, Download, FileUp, Minus, Pencil, Plus, X } from 'lucide-react';
+import { api } from '../utils/api';
+import { CaseTemplate } from '../types';
+import { showToast } from './Toast';
+import { OFFICIAL_TEMPLATE_PRESETS } from '../data/officialTemplates';
+import {
+  BUNDLED_OFFICIAL_CATALOG,
+  OfficialCatalog,
+  OfficialHojaChange,
+  buildOfficialTemplateInput,
+  buildOfficialTemplateUpdate,
+  diffOfficialCatalogs,
+  parseOfficialCatalog,
+  planOfficialTemplateUpdate,
+} from '../utils/officialCatalog';
+import { isEmptyDiff } from '../utils/templateVersions';
+
+type Props = {
+  templates: CaseTemplate[];
+  onClose: () => void;
+  onChanged: () => void | Promise<void>;
+};
+
+const CHANGE_BADGES: Record<OfficialHojaChange['kind'], string> = {
+  added: 'bg-green-100 text-green-800',
+  removed: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800',
+};
+
+function formatCatalogVersion(version: string | undefined): string {
+  if (!version) return 'unknown';
+  const date = new Date(version);
+  return Number.isNaN(date.getTime()) ? version : date.toLocaleDateString('es-ES');
+}
+
+async function getChangedBy(): Promise<string> {
+  const user = await api.getCurrentUser();
+  return user.name || user.email || 'Unknown';
+}
+
+/**
+ * Admin view of the official hoja catalog: import a hoja as a template, and compare a
+ * freshly scraped snapshot with the bundled catalog to carry the Ministry's changes over
+ * to the templates imported from it.
+ */
+export default function OfficialCatalogModal({ templates, onClose, onChanged }: Props) {
+  const [presetId, setPresetId] = useState('');
+  const [snapshot, setSnapshot] = useState<OfficialCatalog | null>(null);
+  const [snapshotName, setSnapshotName] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [excluded, setExcluded] = useState<Set<string>>(new Set());
+  const [busy, setBusy] = useState<string | null>(null);
+
+  const importedByPreset = useMemo(() => {
+    const map = new Map<string, CaseTemplate[]>();
+    for (const template of templates) {
+      if (!template.official_preset_id) continue;
+      map.set(template.official_preset_id, [...(map.get(template.official_preset_id) || []), template]);
+    }
+    return map;
+  }, [templates]);
+
+  const changes = useMemo(
+    () => (snapshot ? diffOfficialCatalogs(BUNDLED_OFFICIAL_CATALOG, snapshot) : []),
+    [snapshot]
+  );
+
+  // Templates to bring up to the snapshot; hojas dropped from the catalog are only flagged
+  const updates = useMemo(
+    () =>
+      changes
+        .filter((change) => change.kind === 'changed')
+        .flatMap((change) =>
+          (importedByPreset.get(change.id) || [])
+            .filter((template) => template.official_catalog_version !== snapshot?.version)
+            .map((template) => planOfficialTemplateUpdate(template, change))
+        )
+        .filter((update) => !isEmptyDiff(update.documents) || update.change.fields.includes('administrativeSilenceDays')),
+    [changes, importedByPreset, snapshot]
+  );
+  const selectedUpdates = updates.filter((update) => !excluded.has(update.template.id));
+  const orphaned = changes
+    .filter((change) => change.kind === 'removed')
+    .flatMap((change) => importedByPreset.get(change.id) || []);
+
+  const handleSnapshotFile = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      setSnapshot(parseOfficialCatalog(await file.text()));
+      setSnapshotName(file.name);
+      setExcluded(new Set());
+      setExpandedId(null);
+    } catch (error: any) {
+      console.error('❌ Failed to read hoja snapshot:', error);
+      showToast(error.message || 'Could not read the snapshot', 'error');
+    }
+  };
+
+  const handleImport = async () => {
+    const preset = OFFICIAL_TEMPLATE_PRESETS.find((p) => p.id === presetId);
+    if (!preset) return;
+    setBusy(`Importing ${preset.label}…`);
+    try {
+      await api.createCaseTemplate(buildOfficialTemplateInput(preset, await getChangedBy()));
+      await onChanged();
+      showToast(`Template "${preset.name}" imported`, 'success');
+      setPresetId('');
+    } catch (error: any) {
+      console.error(`❌ Failed to import ${preset.id}:`, error);
+      showToast(error.message || 'Failed to import template', 'error');
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!snapshot) return;
+    const changedBy = await getChangedBy();
+    const failed: string[] = [];
+    for (const [index, update] of selectedUpdates.entries()) {
+      setBusy(`Updating ${index + 1} of ${selectedUpdates.length}…`);
+      try {
+        await api.updateCaseTemplate(update.template.id, buildOfficialTemplateUpdate(update, snapshot.version, changedBy));
+      } catch (error) {
+        console.error(`❌ Failed to update template ${update.template.id}:`, error);
+        failed.push(update.template.name);
+      }
+    }
+    setBusy(null);
+    await onChanged();
+    if (failed.length > 0) {
+      showToast(`Could not update: ${failed.join(', ')}`, 'error');
+    } else {
+      showToast(
+        `${selectedUpdates.length} template(s) updated. Apply the new versions to existing clients from Versions.`,
+        'success'
+      );
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[100] p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 max-w-3xl w-full max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-start justify-between p-5 border-b border-gray-200">
+          <div className="flex items-start space-x-3">
+            <BookOpen className="w-6 h-6 text-amber-700 flex-shrink-0" />
+            <div>
+              <h3 className="font-bold text-lg text-gray-900">Official hoja catalog</h3>
+              <p className="text-sm text-gray-600">
+                Bundled catalog of {formatCatalogVersion(BUNDLED_OFFICIAL_CATALOG.version)} ·{' '}
+                {BUNDLED_OFFICIAL_CATALOG.presets.length} hojas · {importedByPreset.size} imported
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={busy !== null}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <section>
+            <h4 className="font-semibold text-gray-900 mb-2">Import a hoja as a template</h4>
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={presetId}
+                onChange={(e) => setPresetId(e.target.value)}
+                className="flex-1 min-w-0 px-2 py-1.5 text-sm border border-gray-300 rounded-lg bg-white"
+              >
+                <option value="">Choose a hoja…</option>
+                {OFFICIAL_TEMPLATE_PRESETS.map((preset) => (
+                  <option key={preset.id} value={preset.id}>
+                    {preset.name}
+                    {importedByPreset.has(preset.id) ? ' (imported)' : ''}
+                  </option>
+                ))}
+              </select>
+              <button
+                onClick={() => void handleImport()}
+                disabled={!presetId || busy !== null}
+                className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-amber-800 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 transition-colors disabled:opacity-50"
+              >
+                <Download className="w-4 h-4 mr-1.5" />
+                Import
+              </button>
+            </div>
+          </section>
+
+          <section className="pt-4 border-t border-gray-200">
+            <h4 className="font-semibold text-gray-900 mb-1">Compare with a new scrape</h4>
+            <p className="text-xs text-gray-600 mb-3">
+              Run <span className="font-mono">node scripts/scrape-hojas-exigible.mjs --out snapshot.json</span> and load
+              the file here.
+            </p>
+            <label className="inline-flex items-center px-3 py-1.5 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors cursor-pointer">
+              <FileUp className="w-4 h-4 mr-1.5" />
+              {snapshotName || 'Load snapshot (.json)'}
+              <input
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  void handleSnapshotFile(e.target.files?.[0]);
+                  e.target.value = '';
+                }}
+              />
+            </label>
+
+            {snapshot && (
+              <div className="mt-4 space-y-2">
+                <p className="text-sm text-gray-700">
+                  Snapshot of {formatCatalogVersion(snapshot.version)}:{' '}
+                  {changes.length === 0 ? 'no differences from the bundled catalog.' : `${changes.length} hoja(s) differ.`}
+                </p>
+                <ul className="space-y-1.5">
+                  {changes.map((change) => {
+                    const preset = change.after || change.before!;
+                    const imported = importedByPreset.get(change.id)?.length || 0;
+                    const expanded = expandedId === change.id;
+                    return (
+                      <li key={change.id} className="border border-gray-200 rounded-lg">
+                        <button
+                          onClick={() => setExpandedId(expanded ? null : change.id)}
+                          className="w-full flex items-center gap-2 p-2 text-left text-sm hover:bg-gray-50 rounded-lg"
+                        >
+                          <span className={`px-1.5 py-0.5 text-xs font-semibold rounded ${CHANGE_BADGES[change.kind]}`}>
+                            {change.kind}
+                          </span>
+                          <span className="flex-1 min-w-0 truncate text-gray-900">{preset.name}</span>
+                          <span className="text-xs text-gray-500 shrink-0">
+                            +{change.documents.added.length} −{change.documents.removed.length} ~
+                            {change.documents.changed.length}
+                            {imported > 0 ? ` · ${imported} template(s)` : ''}
+                          </span>
+                        </button>
+                        {expanded && (
+                          <ul className="px-2 pb-2 space-y-1 text-xs">
+                            {change.fields.map((field) => (
+                              <li key={field} className="p-1.5 rounded bg-amber-50 text-amber-900">
+                                {field}: <span className="line-through">{String(change.before?.[field] ?? '—')}</span> →{' '}
+                                {String(change.after?.[field] ?? '—')}
+                              </li>
+                            ))}
+                            {change.documents.added.map((doc) => (
+                              <li key={`added-${doc.code}`} className="flex items-start gap-1.5 p-1.5 rounded bg-green-50 text-green-800">
+                                <Plus className="w-3.5 h-3.5 mt-px shrink-0" />
+                                <span>
+                                  {doc.name} <span className="font-mono text-green-600">{doc.code}</span>
+                                </span>
+                              </li>
+                            ))}
+                            {change.documents.removed.map((doc) => (
+                              <li key={`removed-${doc.code}`} className="flex items-start gap-1.5 p-1.5 rounded bg-red-50 text-red-800">
+                                <Minus className="w-3.5 h-3.5 mt-px shrink-0" />
+                                <span>
+                                  {doc.name} <span className="font-mono text-red-600">{doc.code}</span>
+                                </span>
+                              </li>
+                            ))}
+                            {change.documents.changed.map(({ before, after }) => (
+                              <li key={`changed-${after.code}`} className="flex items-start gap-1.5 p-1.5 rounded bg-amber-50 text-amber-900">
+                                <Pencil className="w-3.5 h-3.5 mt-px shrink-0" />
+                                <span>
+                                  <span className="line-through">{before.name}</span> → {after.name}{' '}
+                                  <span className="font-mono text-amber-700">{after.code}</span>
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ul>
+
+                {orphaned.length > 0 && (
+                  <p className="text-xs text-red-700">
+                    No longer in the catalog, review by hand: {orphaned.map((template) => template.name).join(', ')}
+                  </p>
+                )}
+
+                {updates.length > 0 && (
+                  <div className="pt-2">
+                    <h4 className="font-semibold text-gray-900 mb-1">Imported templates to update</h4>
+                    <p className="text-xs text-gray-600 mb-2">
+                      Each update is saved as a new template version. Documents added or reworded in the template are kept.
+                    </p>
+                    <ul className="space-y-1">
+                      {updates.map((update) => (
+                        <li key={update.template.id}>
+                          <label className="flex items-start gap-2 text-sm text-gray-700">
+                            <input
+                              type="checkbox"
+                              checked={!excluded.has(update.template.id)}
+                              onChange={(e) =>
+                                setExcluded((current) => {
+                                  const next = new Set(current);
+                                  if (e.target.checked) next.delete(update.template.id);
+                                  else next.add(update.template.id);
+                                  return next;
+                                })
+                              }
+                              className="mt-0.5"
+                            />
+                            <span>
+                              {update.template.name}
+                              <span className="block text-xs text-gray-500">
+                                from catalog {formatCatalogVersion(update.template.official_catalog_version)} · +
+                                {update.documents.added.length} −{update.documents.removed.length} ~
+                                {update.documents.changed.length}
+                              </span>
+                            </span>
+                          </label>
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            )}
+          </section>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-t border-gray-200">
+          <p className="text-xs text-gray-500">
+            {busy || (snapshot ? `${selectedUpdates.length} template(s) selected` : 'Load a snapshot to review changes')}
+          </p>
+          <button
+            onClick={() => void handleApply()}
+            disabled={busy !== null || selectedUpdates.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+          >
+            Update {selectedUpdates.length} template(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
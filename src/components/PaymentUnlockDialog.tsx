@@ -0,0 +1,261 @@
+import { useState } from 'react';
+import type { MultiFactorResolver } from 'firebase/auth';
+import { AlertCircle, Lock, X } from 'lucide-react';
+import { PaymentUnlockFeature, PaymentUnlockMethod } from '../types';
+import { api } from '../utils/api';
+import { SecondFactorRequiredError, completeTotpSignIn, reauthenticateWithPassword } from '../utils/firebase';
+import { PAYMENT_UNLOCK_FEATURE_LABELS, PAYMENT_UNLOCK_IDLE_MS, validatePaymentPin } from '../utils/paymentUnlock';
+
+interface Props {
+  feature: PaymentUnlockFeature;
+  /** Without a PIN the user signs in with their password and picks one. */
+  hasPin: boolean;
+  onUnlocked: (pinChanged: boolean) => void;
+  onClose: () => void;
+}
+
+/** Unlocks payment screens with the user's own PIN, or their password to set or reset the PIN. */
+export default function PaymentUnlockDialog({ feature, hasPin, onUnlocked, onClose }: Props) {
+  const [method, setMethod] = useState<PaymentUnlockMethod>(hasPin ? 'pin' : 'password');
+  const [pin, setPin] = useState('');
+  const [password, setPassword] = useState('');
+  const [newPin, setNewPin] = useState('');
+  // Set once the password was accepted but the account's authenticator app still has to confirm
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  const [totpCode, setTotpCode] = useState('');
+  const [error, setError] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const needsNewPin = !hasPin;
+  const featureLabel = PAYMENT_UNLOCK_FEATURE_LABELS[feature];
+
+  const switchMethod = (next: PaymentUnlockMethod) => {
+    setMethod(next);
+    setPin('');
+    setPassword('');
+    setNewPin('');
+    setMfaResolver(null);
+    setTotpCode('');
+    setError('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+
+    if (method === 'password' && (newPin || needsNewPin)) {
+      const pinError = validatePaymentPin(newPin);
+      if (pinError) {
+        setError(pinError);
+        return;
+      }
+    }
+
+    setSubmitting(true);
+    try {
+      if (method === 'pin') {
+        const result = await api.unlockPayments({ feature, method, pin });
+        if (!result.valid) {
+          setError(
+            result.attempts_remaining !== undefined
+              ? `Incorrect PIN. ${result.attempts_remaining} attempt${result.attempts_remaining === 1 ? '' : 's'} left.`
+              : 'Incorrect PIN. Please try again.'
+          );
+          setPin('');
+          return;
+        }
+        onUnlocked(false);
+        return;
+      }
+
+      try {
+        if (mfaResolver) {
+          await completeTotpSignIn(mfaResolver, totpCode);
+        } else {
+          await reauthenticateWithPassword(password);
+        }
+      } catch (reauthError: any) {
+        if (reauthError instanceof SecondFactorRequiredError) {
+          setMfaResolver(reauthError.resolver);
+          setPassword('');
+          return;
+        }
+        void api.recordPaymentUnlockFailure(feature, 'password');
+        setError(reauthError.message || (mfaResolver ? 'Incorrect code' : 'Incorrect password'));
+        setPassword('');
+        setTotpCode('');
+        return;
+      }
+      setMfaResolver(null);
+      setTotpCode('');
+      const result = await api.unlockPayments({ feature, method, new_pin: newPin || undefined });
+      if (!result.valid) {
+        setError('Password check expired. Please try again.');
+        setPassword('');
+        return;
+      }
+      onUnlocked(Boolean(newPin));
+    } catch (submitError: any) {
+      setError(submitError.message || 'Failed to unlock. Please try again.');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  const inputClass =
+    'w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none';
+
+  return (
+    <div
+      className="fixed inset-0 z-[110] flex items-center justify-center p-4 animate-fade-in"
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+      style={{
+        background: 'linear-gradient(135deg, rgba(15, 23, 42, 0.85) 0%, rgba(30, 41, 59, 0.9) 50%, rgba(15, 23, 42, 0.85) 100%)',
+        backdropFilter: 'blur(20px) saturate(180%)',
+        WebkitBackdropFilter: 'blur(20px) saturate(180%)',
+      }}
+    >
+      <div className="bg-white rounded-xl shadow-2xl max-w-md w-full p-6 animate-scale-in" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-6">
+          <div className="flex items-center space-x-3">
+            <div className="p-3 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
+              <Lock className="w-6 h-6 text-amber-800" />
+            </div>
+            <div>
+              <h2 className="text-2xl font-bold text-gray-900">{featureLabel} Access</h2>
+              <p className="text-sm text-gray-600 mt-0.5">
+                {method === 'pin'
+                  ? `Enter your PIN to view ${featureLabel.toLowerCase()}`
+                  : mfaResolver
+                    ? 'Enter the code from your authenticator app'
+                    : needsNewPin
+                      ? 'Confirm your password and choose a personal PIN'
+                      : 'Confirm your password to unlock'}
+              </p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-gray-400 hover:text-gray-600 rounded-lg transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          {method === 'pin' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">PIN</label>
+              <input
+                type="password"
+                inputMode="numeric"
+                value={pin}
+                onChange={(e) => {
+                  setPin(e.target.value.replace(/\D/g, ''));
+                  setError('');
+                }}
+                className={`${inputClass} text-center text-2xl tracking-widest font-mono`}
+                placeholder="••••"
+                autoFocus
+                maxLength={8}
+              />
+            </div>
+          ) : (
+            <>
+              {mfaResolver ? (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Authenticator code</label>
+                  <input
+                    type="text"
+                    inputMode="numeric"
+                    value={totpCode}
+                    onChange={(e) => {
+                      setTotpCode(e.target.value.replace(/\D/g, ''));
+                      setError('');
+                    }}
+                    className={`${inputClass} text-center text-xl tracking-widest font-mono`}
+                    autoComplete="one-time-code"
+                    autoFocus
+                    maxLength={6}
+                    required
+                  />
+                </div>
+              ) : (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-2">Password</label>
+                  <input
+                    type="password"
+                    value={password}
+                    onChange={(e) => {
+                      setPassword(e.target.value);
+                      setError('');
+                    }}
+                    className={inputClass}
+                    autoComplete="current-password"
+                    autoFocus
+                    required
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  {needsNewPin ? 'New PIN' : 'New PIN (optional)'}
+                </label>
+                <input
+                  type="password"
+                  inputMode="numeric"
+                  value={newPin}
+                  onChange={(e) => {
+                    setNewPin(e.target.value.replace(/\D/g, ''));
+                    setError('');
+                  }}
+                  className={`${inputClass} text-center text-xl tracking-widest font-mono`}
+                  placeholder="4–8 digits"
+                  maxLength={8}
+                  required={needsNewPin}
+                />
+              </div>
+            </>
+          )}
+
+          {error && (
+            <p className="text-sm text-red-600 flex items-center space-x-1">
+              <AlertCircle className="w-4 h-4" />
+              <span>{error}</span>
+            </p>
+          )}
+
+          <p className="text-xs text-gray-500">
+            Locks again after {Math.round(PAYMENT_UNLOCK_IDLE_MS / 60000)} minutes without activity or when you leave this tab.
+          </p>
+
+          {hasPin && (
+            <button
+              type="button"
+              onClick={() => switchMethod(method === 'pin' ? 'password' : 'pin')}
+              className="text-sm font-medium text-amber-700 hover:text-amber-900"
+            >
+              {method === 'pin' ? 'Forgot your PIN? Use your password' : 'Use your PIN instead'}
+            </button>
+          )}
+
+          <div className="flex space-x-3 pt-2">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-3 text-gray-700 bg-gray-100 rounded-xl hover:bg-gray-200 transition-colors font-semibold"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={submitting || (method === 'pin' ? pin.length < 4 : mfaResolver ? totpCode.length < 6 : !password)}
+              className="flex-1 px-4 py-3 bg-gradient-to-r from-amber-600 to-amber-700 text-white rounded-xl hover:shadow-xl transition-all font-semibold shadow-lg disabled:opacity-60"
+            >
+              {submitting ? 'Checking...' : 'Unlock'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,120 @@
+import { useEffect, useMemo, useState } from 'react';
+import { CheckCircle, Lock, RefreshCw, XCircle } from 'lucide-react';
+import { PaymentUnlockLogEntry } from '../types';
+import { api } from '../utils/api';
+import { PAYMENT_UNLOCK_FEATURE_LABELS, PAYMENT_UNLOCK_METHOD_LABELS } from '../utils/paymentUnlock';
+
+/** Who unlocked payments and when, failed attempts included. Admin only. */
+export default function PaymentUnlockLog() {
+  const [entries, setEntries] = useState<PaymentUnlockLogEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState('');
+  const [failuresOnly, setFailuresOnly] = useState(false);
+
+  const load = async () => {
+    setLoading(true);
+    setError('');
+    try {
+      setEntries(await api.getPaymentUnlockLog());
+    } catch (loadError: any) {
+      console.error('❌ Failed to load payment unlock log:', loadError);
+      setError(loadError.message || 'Failed to load payment unlock log');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const visibleEntries = useMemo(
+    () =>
+      entries
+        .filter((entry) => !failuresOnly || !entry.success)
+        .sort((a, b) => b.created_at.localeCompare(a.created_at)),
+    [entries, failuresOnly]
+  );
+  const failedCount = entries.filter((entry) => !entry.success).length;
+
+  return (
+    <div className="glass-gold rounded-xl sm:rounded-2xl p-5 sm:p-6 border-2 border-amber-200/50 animate-slide-up">
+      <div className="flex items-center justify-between gap-3 mb-4">
+        <div className="flex items-center space-x-3">
+          <div className="p-2.5 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
+            <Lock className="w-5 h-5 text-amber-800" />
+          </div>
+          <div>
+            <h3 className="text-lg font-bold text-gray-900">Payment Unlock Log</h3>
+            <p className="text-sm text-gray-600">
+              Each user unlocks payments with their own PIN or password
+              {failedCount > 0 && ` · ${failedCount} failed attempt${failedCount === 1 ? '' : 's'}`}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="inline-flex items-center gap-2 text-sm text-gray-700">
+            <input type="checkbox" checked={failuresOnly} onChange={(e) => setFailuresOnly(e.target.checked)} />
+            Failed only
+          </label>
+          <button
+            onClick={() => void load()}
+            disabled={loading}
+            className="p-2 text-amber-700 hover:text-amber-900 disabled:opacity-50"
+            title="Refresh"
+          >
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </button>
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-red-600">{error}</p>
+      ) : loading && entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : visibleEntries.length === 0 ? (
+        <p className="text-sm text-gray-500">No unlock attempts recorded.</p>
+      ) : (
+        <div className="max-h-96 overflow-auto rounded-lg border border-amber-200 bg-white">
+          <table className="w-full text-sm">
+            <thead className="bg-amber-50 text-left text-xs uppercase tracking-wide text-amber-800 sticky top-0">
+              <tr>
+                <th className="px-3 py-2">When</th>
+                <th className="px-3 py-2">User</th>
+                <th className="px-3 py-2">Opened</th>
+                <th className="px-3 py-2">With</th>
+                <th className="px-3 py-2">Result</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-100">
+              {visibleEntries.map((entry) => (
+                <tr key={entry.id} className={entry.success ? '' : 'bg-red-50/60'}>
+                  <td className="px-3 py-2 whitespace-nowrap text-gray-600">{new Date(entry.created_at).toLocaleString()}</td>
+                  <td className="px-3 py-2">
+                    <div className="font-medium text-gray-900">{entry.user_name || entry.user_email}</div>
+                    {entry.user_name && <div className="text-xs text-gray-500">{entry.user_email}</div>}
+                  </td>
+                  <td className="px-3 py-2 text-gray-700">{PAYMENT_UNLOCK_FEATURE_LABELS[entry.feature]}</td>
+                  <td className="px-3 py-2 text-gray-700">{PAYMENT_UNLOCK_METHOD_LABELS[entry.method]}</td>
+                  <td className="px-3 py-2">
+                    {entry.success ? (
+                      <span className="inline-flex items-center gap-1 text-green-700">
+                        <CheckCircle className="w-4 h-4" />
+                        Unlocked
+                      </span>
+                    ) : (
+                      <span className="inline-flex items-center gap-1 text-red-700">
+                        <XCircle className="w-4 h-4" />
+                        Failed
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
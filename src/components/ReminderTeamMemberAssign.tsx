@@ -1,4 +1,5 @@
 import { api } from '../utils/api';
+import { usePermissions } from '../context/PermissionsContext';
 import { showToast } from './Toast';
 import TeamMemberSelect from './TeamMemberSelect';
 import { t } from '../utils/i18n';
@@ -20,6 +21,8 @@ export default function ReminderTeamMemberAssign({
   className = 'mt-3',
   compact = false,
 }: Props) {
+  const canEditClients = usePermissions().can('edit_clients');
+
   const handleChange = async (member: string) => {
     try {
       await api.updateReminder(reminderId, {
@@ -43,6 +46,7 @@ export default function ReminderTeamMemberAssign({
         value={teamMember || ''}
         onChange={(member) => void handleChange(member)}
         members={members}
+        disabled={!canEditClients}
         id={`reminder-assign-${reminderId}`}
         label={t('dashboard.teamsToDoAssignReminder')}
         selectClassName={
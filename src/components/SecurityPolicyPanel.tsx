@@ -0,0 +1,76 @@
+import { useEffect, useState } from 'react';
+import { ShieldCheck } from 'lucide-react';
+import { SecuritySettings, User } from '../types';
+import { api } from '../utils/api';
+import { showToast } from './Toast';
+
+interface Props {
+  users: User[];
+}
+
+/** Firm-wide sign-in policy. Admin only. */
+export default function SecurityPolicyPanel({ users }: Props) {
+  const [settings, setSettings] = useState<SecuritySettings | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    api
+      .getSecuritySettings()
+      .then(setSettings)
+      .catch((error) => {
+        console.error('❌ Failed to load security settings:', error);
+        showToast(error.message || 'Failed to load security settings', 'error');
+      });
+  }, []);
+
+  const handleToggle = async (required: boolean) => {
+    if (!settings) return;
+    setSaving(true);
+    try {
+      setSettings(await api.updateSecuritySettings({ ...settings, require_2fa_for_admins: required }));
+      showToast(required ? 'Two-factor authentication is now required for admins' : 'Two-factor authentication is now optional', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to update security settings', 'error');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const adminsWithout2fa = users.filter((user) => user.role === 'admin' && user.active && user.two_factor_enabled === false);
+
+  return (
+    <div className="glass-gold rounded-xl sm:rounded-2xl p-5 sm:p-6 border-2 border-amber-200/50 animate-slide-up">
+      <div className="flex items-center space-x-3 mb-4">
+        <div className="p-2.5 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
+          <ShieldCheck className="w-5 h-5 text-amber-800" />
+        </div>
+        <div>
+          <h3 className="text-lg font-bold text-gray-900">Security Policy</h3>
+          <p className="text-sm text-gray-600">Sign-in requirements for the whole firm</p>
+        </div>
+      </div>
+
+      <label className="flex items-start gap-3 p-3 bg-white border border-amber-200 rounded-lg">
+        <input
+          type="checkbox"
+          className="mt-1"
+          checked={Boolean(settings?.require_2fa_for_admins)}
+          disabled={!settings || saving}
+          onChange={(e) => handleToggle(e.target.checked)}
+        />
+        <span>
+          <span className="block text-sm font-semibold text-gray-900">Require two-factor authentication for admins</span>
+          <span className="block text-xs text-gray-600">
+            Admins without an authenticator app must set one up at their next visit before they can use the app.
+          </span>
+        </span>
+      </label>
+
+      {adminsWithout2fa.length > 0 && (
+        <p className="mt-3 text-sm text-amber-800">
+          Admins without 2FA: {adminsWithout2fa.map((user) => user.name || user.email).join(', ')}
+        </p>
+      )}
+    </div>
+  );
+}
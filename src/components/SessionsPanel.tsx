@@ -0,0 +1,114 @@
+import { useEffect, useState } from 'react';
+import { LogOut, Monitor, RefreshCw } from 'lucide-react';
+import { UserSession } from '../types';
+import { api } from '../utils/api';
+import { getSessionId } from '../utils/authSession';
+import { showToast } from './Toast';
+
+/** The signed-in user's browsers, with remote sign-out. */
+export default function SessionsPanel() {
+  const [sessions, setSessions] = useState<UserSession[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [revoking, setRevoking] = useState<string | null>(null);
+  const currentId = getSessionId();
+
+  const load = async () => {
+    setLoading(true);
+    try {
+      const result = await api.getMySessions();
+      setSessions(result.sort((a, b) => b.last_seen_at.localeCompare(a.last_seen_at)));
+    } catch (error: any) {
+      console.error('❌ Failed to load sessions:', error);
+      showToast(error.message || 'Failed to load sessions', 'error');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    void load();
+  }, []);
+
+  const handleRevoke = async (session: UserSession) => {
+    setRevoking(session.id);
+    try {
+      await api.revokeSession(session.id);
+      setSessions((prev) => prev.filter((s) => s.id !== session.id));
+      showToast(`Signed out ${session.device}`, 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to sign out session', 'error');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const handleRevokeOthers = async () => {
+    setRevoking('others');
+    try {
+      await api.revokeOtherSessions();
+      setSessions((prev) => prev.filter((s) => s.id === currentId));
+      showToast('Signed out all other devices', 'success');
+    } catch (error: any) {
+      showToast(error.message || 'Failed to sign out other sessions', 'error');
+    } finally {
+      setRevoking(null);
+    }
+  };
+
+  const otherCount = sessions.filter((s) => s.id !== currentId).length;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <p className="font-semibold text-gray-900">My sessions</p>
+        <button onClick={() => void load()} disabled={loading} className="p-1.5 text-gray-500 hover:text-gray-800" title="Refresh">
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {loading && sessions.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading...</p>
+      ) : (
+        <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+          {sessions.map((session) => (
+            <li key={session.id} className="flex items-center justify-between gap-3 px-3 py-2.5">
+              <div className="flex items-center gap-3 min-w-0">
+                <Monitor className="w-5 h-5 text-gray-400 flex-shrink-0" />
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-gray-900 truncate">
+                    {session.device}
+                    {session.id === currentId && <span className="ml-2 text-xs font-semibold text-green-700">This device</span>}
+                  </p>
+                  <p className="text-xs text-gray-500 truncate">
+                    {[session.location, session.ip].filter(Boolean).join(' · ') || 'Unknown location'} · last active{' '}
+                    {new Date(session.last_seen_at).toLocaleString()}
+                  </p>
+                </div>
+              </div>
+              {session.id !== currentId && (
+                <button
+                  onClick={() => handleRevoke(session)}
+                  disabled={revoking !== null}
+                  className="flex-shrink-0 inline-flex items-center gap-1 px-2.5 py-1.5 text-xs font-semibold text-red-700 bg-red-50 rounded-lg hover:bg-red-100 disabled:opacity-50"
+                >
+                  <LogOut className="w-3.5 h-3.5" />
+                  Sign out
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {otherCount > 0 && (
+        <button
+          onClick={handleRevokeOthers}
+          disabled={revoking !== null}
+          className="text-sm font-semibold text-red-700 hover:text-red-900 disabled:opacity-50"
+        >
+          Sign out all other devices ({otherCount})
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,247 @@
+import { useState } from 'react';
+import { AlertCircle, Check, CheckCircle, ClipboardCheck, FileText, GripVertical, X } from 'lucide-react';
+import { api } from '../utils/api';
+import { Client } from '../types';
+import { showToast } from './Toast';
+import { CLIENT_DOCUMENT_SECTIONS, DOCUMENT_COLLECTIONS } from '../utils/documentCollections';
+import {
+  LOW_CONFIDENCE_THRESHOLD,
+  SmartUploadPlacement,
+  SmartUploadReviewItem,
+  describeClassificationMethod,
+  describePlacement,
+  getDetectedPlacement,
+} from '../utils/smartUploadReview';
+
+type Props = {
+  client: Client;
+  items: SmartUploadReviewItem[];
+  reviewerName: string;
+  onReviewed: (item: SmartUploadReviewItem, placement: SmartUploadPlacement, updated: Client) => void;
+  onDismiss: () => void;
+};
+
+const DRAG_TYPE = 'application/x-smart-upload-review';
+
+function confidenceBadgeClass(confidence: number): string {
+  if (confidence >= 0.8) return 'bg-green-100 text-green-700';
+  if (confidence >= LOW_CONFIDENCE_THRESHOLD) return 'bg-amber-100 text-amber-700';
+  return 'bg-red-100 text-red-700';
+}
+
+function encodePlacement(placement: SmartUploadPlacement): string {
+  if (placement.type === 'required') return `required:${placement.documentCode}`;
+  if (placement.type === 'collection') return `collection:${placement.collection}`;
+  return 'all_documents';
+}
+
+function decodePlacement(value: string): SmartUploadPlacement | null {
+  if (value === 'all_documents') return { type: 'all_documents' };
+  if (value.startsWith('required:')) return { type: 'required', documentCode: value.slice('required:'.length) };
+  const collection = CLIENT_DOCUMENT_SECTIONS.find((kind) => value === `collection:${kind}`);
+  return collection ? { type: 'collection', collection } : null;
+}
+
+/**
+ * Shown after a smart upload: each sorted file with where it went and how sure the
+ * classifier was. Staff accept it, drag it onto another checklist slot, or send it to a
+ * case collection; every decision is sent back so misclassifications are counted.
+ */
+export default function SmartUploadReviewPanel({ client, items, reviewerName, onReviewed, onDismiss }: Props) {
+  const [savingId, setSavingId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<string | null>(null);
+  const [expandedPreview, setExpandedPreview] = useState<string | null>(null);
+
+  if (items.length === 0) return null;
+
+  const file = async (item: SmartUploadReviewItem, placement: SmartUploadPlacement) => {
+    setSavingId(item.uploadId);
+    try {
+      const updated = await api.reviewSmartUpload(client.id, {
+        uploadId: item.uploadId,
+        fileName: item.fileName,
+        detected: item.classification,
+        placement,
+        reviewedBy: reviewerName,
+      });
+      onReviewed(item, placement, updated);
+    } catch (error: any) {
+      showToast(error.message || 'Failed to file document', 'error');
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const acceptConfident = async () => {
+    for (const item of items.filter((i) => i.classification.confidence >= LOW_CONFIDENCE_THRESHOLD)) {
+      await file(item, getDetectedPlacement(item.classification));
+    }
+  };
+
+  const handleSlotDrop = (e: React.DragEvent, documentCode: string) => {
+    e.preventDefault();
+    setDropTarget(null);
+    const item = items.find((i) => i.uploadId === e.dataTransfer.getData(DRAG_TYPE));
+    if (item) void file(item, { type: 'required', documentCode });
+  };
+
+  const lowConfidenceCount = items.filter((i) => i.classification.confidence < LOW_CONFIDENCE_THRESHOLD).length;
+
+  return (
+    <div className="mb-6 p-4 bg-amber-50/60 border-2 border-amber-200 rounded-xl shadow-sm">
+      <div className="flex items-start justify-between gap-3 mb-3">
+        <div className="flex items-center space-x-3">
+          <div className="bg-amber-100 p-2 rounded-lg flex-shrink-0">
+            <ClipboardCheck className="w-5 h-5 text-amber-700" />
+          </div>
+          <div>
+            <p className="font-semibold text-gray-900">Review sorted files ({items.length})</p>
+            <p className="text-xs text-gray-600">
+              {lowConfidenceCount > 0
+                ? `${lowConfidenceCount} file(s) were sorted with low confidence — check them first.`
+                : 'Confirm where each file went, or drag it onto the right checklist slot.'}
+            </p>
+          </div>
+        </div>
+        <div className="flex items-center gap-2 shrink-0">
+          {items.length > lowConfidenceCount && (
+            <button
+              onClick={() => void acceptConfident()}
+              disabled={savingId !== null}
+              className="px-3 py-1.5 text-xs font-medium text-white bg-green-600 rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+            >
+              Accept confident
+            </button>
+          )}
+          <button
+            onClick={onDismiss}
+            title="Leave the rest where they are"
+            className="p-1.5 text-gray-500 hover:bg-amber-100 rounded-lg transition-colors"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        <ul className="lg:col-span-2 space-y-2">
+          {items.map((item) => {
+            const { classification } = item;
+            const detected = getDetectedPlacement(classification);
+            const lowConfidence = classification.confidence < LOW_CONFIDENCE_THRESHOLD;
+            const saving = savingId === item.uploadId;
+            return (
+              <li
+                key={item.uploadId}
+                draggable={!saving}
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(DRAG_TYPE, item.uploadId);
+                  e.dataTransfer.effectAllowed = 'move';
+                }}
+                className={`p-3 rounded-lg border bg-white ${
+                  lowConfidence ? 'border-red-200' : 'border-gray-200'
+                } ${saving ? 'opacity-60' : 'cursor-grab'}`}
+              >
+                <div className="flex items-start gap-2">
+                  <GripVertical className="w-4 h-4 text-gray-300 mt-0.5 shrink-0" />
+                  <FileText className="w-4 h-4 text-amber-600 mt-0.5 shrink-0" />
+                  <div className="flex-1 min-w-0">
+                    <p className="text-sm font-medium text-gray-900 truncate">{item.fileName}</p>
+                    <div className="flex flex-wrap items-center gap-1.5 mt-1 text-xs">
+                      <span className="text-gray-600">→ {describePlacement(detected, client)}</span>
+                      <span className={`px-1.5 py-0.5 rounded font-semibold ${confidenceBadgeClass(classification.confidence)}`}>
+                        {Math.round(classification.confidence * 100)}% · {describeClassificationMethod(classification.method)}
+                      </span>
+                      {lowConfidence && (
+                        <span className="inline-flex items-center text-red-600">
+                          <AlertCircle className="w-3 h-3 mr-0.5" />
+                          Low confidence
+                        </span>
+                      )}
+                    </div>
+                    {classification.reason && <p className="mt-1 text-xs text-gray-500">{classification.reason}</p>}
+                    {classification.ocrPreview && (
+                      <button
+                        onClick={() => setExpandedPreview(expandedPreview === item.uploadId ? null : item.uploadId)}
+                        className="mt-1 text-xs text-blue-600 hover:underline"
+                      >
+                        {expandedPreview === item.uploadId ? 'Hide OCR text' : 'Show OCR text'}
+                      </button>
+                    )}
+                    {expandedPreview === item.uploadId && classification.ocrPreview && (
+                      <pre className="mt-1 p-2 max-h-32 overflow-y-auto bg-gray-50 rounded text-[11px] text-gray-700 whitespace-pre-wrap">
+                        {classification.ocrPreview}
+                      </pre>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1.5 shrink-0">
+                    <button
+                      onClick={() => void file(item, detected)}
+                      disabled={savingId !== null}
+                      className="inline-flex items-center px-2.5 py-1 text-xs font-medium text-green-700 bg-green-50 border border-green-200 rounded-lg hover:bg-green-100 transition-colors disabled:opacity-50"
+                    >
+                      <Check className="w-3 h-3 mr-1" />
+                      Accept
+                    </button>
+                    <select
+                      value=""
+                      disabled={savingId !== null}
+                      onChange={(e) => {
+                        const placement = decodePlacement(e.target.value);
+                        if (placement) void file(item, placement);
+                      }}
+                      className="max-w-[11rem] px-2 py-1 text-xs border border-gray-300 rounded-lg bg-white disabled:opacity-50"
+                    >
+                      <option value="">Move to…</option>
+                      <optgroup label="Required documents">
+                        {client.required_documents.map((doc) => (
+                          <option key={doc.code} value={encodePlacement({ type: 'required', documentCode: doc.code })}>
+                            {doc.name}
+                          </option>
+                        ))}
+                      </optgroup>
+                      <optgroup label="Sections">
+                        <option value={encodePlacement({ type: 'all_documents' })}>All Documents</option>
+                        {CLIENT_DOCUMENT_SECTIONS.map((kind) => (
+                          <option key={kind} value={encodePlacement({ type: 'collection', collection: kind })}>
+                            {DOCUMENT_COLLECTIONS[kind].title}
+                          </option>
+                        ))}
+                      </optgroup>
+                    </select>
+                  </div>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+
+        <div>
+          <p className="text-xs font-semibold uppercase tracking-wide text-gray-500 mb-2">Checklist slots</p>
+          <div className="flex flex-wrap gap-1.5">
+            {client.required_documents.map((doc) => (
+              <div
+                key={doc.code}
+                onDragOver={(e) => {
+                  if (!e.dataTransfer.types.includes(DRAG_TYPE)) return;
+                  e.preventDefault();
+                  setDropTarget(doc.code);
+                }}
+                onDragLeave={() => setDropTarget((current) => (current === doc.code ? null : current))}
+                onDrop={(e) => handleSlotDrop(e, doc.code)}
+                className={`inline-flex items-center px-2 py-1 text-xs rounded-lg border-2 border-dashed transition-colors ${
+                  dropTarget === doc.code
+                    ? 'border-amber-500 bg-amber-100 text-amber-900'
+                    : 'border-gray-200 bg-white text-gray-700'
+                }`}
+              >
+                {doc.submitted && <CheckCircle className="w-3 h-3 mr-1 text-green-600" />}
+                {doc.name}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
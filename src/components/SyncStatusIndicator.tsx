@@ -0,0 +1,138 @@
+import { useState } from 'react';
+import { AlertTriangle, CloudOff, RefreshCw, Trash2 } from 'lucide-react';
+import { useData } from '../context/DataContext';
+import { OutboxEntry } from '../utils/syncQueue';
+import { showToast } from './Toast';
+
+const STATUS_STYLES: Record<OutboxEntry['status'], string> = {
+  pending: 'bg-slate-100 text-slate-700',
+  failed: 'bg-red-100 text-red-700',
+  conflict: 'bg-amber-100 text-amber-800',
+};
+
+const STATUS_LABELS: Record<OutboxEntry['status'], string> = {
+  pending: 'Pending',
+  failed: 'Failed',
+  conflict: 'Conflict',
+};
+
+/** Header badge for offline mode and changes waiting to sync; hidden when online with nothing queued. */
+export default function SyncStatusIndicator() {
+  const { isOnline, syncItems, syncNow, retrySyncItem, discardSyncItem } = useData();
+  const [isOpen, setIsOpen] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  if (isOnline && syncItems.length === 0) return null;
+
+  const needsAttention = syncItems.some((entry) => entry.status !== 'pending');
+
+  const runItemAction = async (id: string, action: () => Promise<void>) => {
+    setBusyId(id);
+    try {
+      await action();
+    } catch (error: any) {
+      showToast(error.message || 'Sync failed', 'error');
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`relative p-2 rounded-lg transition-colors ${
+          needsAttention ? 'text-amber-300 hover:bg-white/10' : 'text-white/80 hover:bg-white/10 hover:text-white'
+        }`}
+        title={isOnline ? 'Changes waiting to sync' : 'Offline - showing saved copy'}
+      >
+        {isOnline ? <RefreshCw className="w-5 h-5" /> : <CloudOff className="w-5 h-5" />}
+        {syncItems.length > 0 && (
+          <span
+            className={`absolute -top-1 -right-1 text-white text-xs font-bold rounded-full w-5 h-5 flex items-center justify-center ${
+              needsAttention ? 'bg-amber-600' : 'bg-slate-600'
+            }`}
+          >
+            {syncItems.length > 9 ? '9+' : syncItems.length}
+          </span>
+        )}
+      </button>
+
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 mt-2 w-[calc(100vw-1rem)] sm:w-96 max-w-sm bg-white rounded-xl shadow-2xl border border-gray-200 z-50 max-h-[70vh] overflow-hidden flex flex-col">
+            <div className="p-4 border-b border-gray-200 bg-gradient-to-r from-slate-50 to-gray-50 flex items-center justify-between">
+              <div>
+                <h3 className="font-bold text-slate-900">{isOnline ? 'Sync queue' : 'Working offline'}</h3>
+                <p className="text-xs text-slate-500 mt-0.5">
+                  {syncItems.length === 0
+                    ? 'Changes you make will sync when the connection returns.'
+                    : `${syncItems.length} ${syncItems.length === 1 ? 'change' : 'changes'} not yet saved to the server`}
+                </p>
+              </div>
+              {isOnline && syncItems.some((entry) => entry.status === 'pending') && (
+                <button
+                  onClick={() => void runItemAction('all', syncNow)}
+                  disabled={busyId !== null}
+                  className="px-3 py-1.5 text-xs font-semibold text-slate-700 bg-slate-200 hover:bg-slate-300 rounded-lg transition-colors disabled:opacity-50"
+                >
+                  Sync now
+                </button>
+              )}
+            </div>
+            <ul className="overflow-y-auto divide-y divide-gray-100">
+              {syncItems.map((entry) => (
+                <li key={entry.id} className="p-3 text-sm">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-slate-900 truncate">{entry.label}</p>
+                      <p className="text-xs text-slate-500">{new Date(entry.created_at).toLocaleString()}</p>
+                    </div>
+                    <span className={`shrink-0 px-2 py-0.5 rounded-full text-xs font-semibold ${STATUS_STYLES[entry.status]}`}>
+                      {STATUS_LABELS[entry.status]}
+                    </span>
+                  </div>
+                  {entry.error && (
+                    <p className="mt-1 text-xs text-slate-600 flex items-start gap-1">
+                      <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0 text-amber-600" />
+                      <span>{entry.error}</span>
+                    </p>
+                  )}
+                  {entry.status !== 'pending' && (
+                    <div className="mt-2 flex flex-wrap gap-2">
+                      <button
+                        onClick={() => void runItemAction(entry.id, () => retrySyncItem(entry.id))}
+                        disabled={!isOnline || busyId !== null}
+                        className="px-2.5 py-1 text-xs font-semibold text-slate-700 bg-slate-100 hover:bg-slate-200 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Retry
+                      </button>
+                      {entry.status === 'conflict' && (
+                        <button
+                          onClick={() => void runItemAction(entry.id, () => retrySyncItem(entry.id, true))}
+                          disabled={!isOnline || busyId !== null}
+                          className="px-2.5 py-1 text-xs font-semibold text-amber-800 bg-amber-100 hover:bg-amber-200 rounded-lg transition-colors disabled:opacity-50"
+                        >
+                          Overwrite server copy
+                        </button>
+                      )}
+                      <button
+                        onClick={() => void runItemAction(entry.id, () => discardSyncItem(entry.id))}
+                        disabled={busyId !== null}
+                        className="px-2.5 py-1 text-xs font-semibold text-red-700 bg-red-50 hover:bg-red-100 rounded-lg transition-colors disabled:opacity-50 flex items-center gap-1"
+                      >
+                        <Trash2 className="w-3 h-3" />
+                        Discard
+                      </button>
+                    </div>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -77,7 +77,17 @@ function TeamClientCard({
 }
 
 export default function Team() {
-  const { clients, templates, teamMembers, reminders, refreshClients, refreshTemplates, refreshTeamMembers, refreshReminders } = useData();
+  const {
+    clients,
+    templates,
+    teamMembers,
+    reminders,
+    teamTasksRevision,
+    refreshClients,
+    refreshTemplates,
+    refreshTeamMembers,
+    refreshReminders,
+  } = useData();
   const [teamTasksByMember, setTeamTasksByMember] = useState<Record<string, TeamMemberTask[]>>(() =>
     emptyTeamTasksMap(teamMembers)
   );
@@ -108,7 +118,7 @@ export default function Team() {
 
   useEffect(() => {
     void fetchTeamTasks();
-  }, [fetchTeamTasks]);
+  }, [fetchTeamTasks, teamTasksRevision]);
 
   const clientsByTemplateId = useMemo(() => {
     const map: Record<string, Client[]> = {};
@@ -6,6 +6,7 @@ type Props = {
   label?: string;
   className?: string;
   selectClassName?: string;
+  disabled?: boolean;
 };
 
 export default function TeamMemberSelect({
@@ -16,6 +17,7 @@ export default function TeamMemberSelect({
   label = 'Team member',
   className = '',
   selectClassName = '',
+  disabled = false,
 }: Props) {
   return (
     <div className={className}>
@@ -26,6 +28,7 @@ export default function TeamMemberSelect({
         id={id}
         value={value}
         onChange={(e) => onChange(e.target.value)}
+        disabled={disabled}
         className={
           selectClassName ||
           'w-full px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 outline-none bg-white'
@@ -0,0 +1,247 @@
+import { useMemo, useState } from 'react';
+import { GitCompare, History, Minus, Pencil, Plus, X } from 'lucide-react';
+import { api } from '../utils/api';
+import { CaseTemplate, Client } from '../types';
+import { showToast } from './Toast';
+import { formatClientFullName } from '../utils/clientNames';
+import {
+  TemplatePropagationPlan,
+  diffRequiredDocuments,
+  getTemplateVersion,
+  getTemplateVersions,
+  isEmptyDiff,
+  planChangesCount,
+  planTemplatePropagation,
+} from '../utils/templateVersions';
+
+type Props = {
+  template: CaseTemplate;
+  /** Every client; those created from this template are picked out here. */
+  clients: Client[];
+  onClose: () => void;
+  onApplied: () => void | Promise<void>;
+};
+
+const FIELD_LABELS = { name: 'Name', description: 'Description', validityDays: 'Validity (days)' } as const;
+
+/**
+ * Version history of a template's checklist with a diff between any two versions, and
+ * the bulk action that brings existing clients up to the current version — previewed
+ * client by client before anything is written.
+ */
+export default function TemplateVersionsModal({ template, clients, onClose, onApplied }: Props) {
+  const versions = getTemplateVersions(template);
+  const currentVersion = getTemplateVersion(template);
+  const [fromVersion, setFromVersion] = useState(versions.length > 1 ? versions[versions.length - 2].version : currentVersion);
+  const [toVersion, setToVersion] = useState(currentVersion);
+  const [removeDropped, setRemoveDropped] = useState(false);
+  const [preview, setPreview] = useState<TemplatePropagationPlan[] | null>(null);
+  const [applying, setApplying] = useState<string | null>(null);
+
+  const templateClients = useMemo(() => clients.filter((c) => c.case_template_id === template.id), [clients, template.id]);
+
+  const diff = useMemo(() => {
+    const from = versions.find((v) => v.version === fromVersion);
+    const to = versions.find((v) => v.version === toVersion);
+    return diffRequiredDocuments(from?.required_documents || [], to?.required_documents || []);
+  }, [versions, fromVersion, toVersion]);
+
+  const runPreview = (remove = removeDropped) =>
+    setPreview(
+      templateClients
+        .map((client) => planTemplatePropagation(template, client, { removeDropped: remove }))
+        .filter((plan) => planChangesCount(plan) > 0 || plan.keptWithFiles.length > 0)
+    );
+
+  const toApply = (preview || []).filter((plan) => planChangesCount(plan) > 0);
+
+  const handleApply = async () => {
+    const user = await api.getCurrentUser();
+    const appliedBy = user.name || user.email || 'Unknown';
+    const failed: string[] = [];
+    for (const [index, plan] of toApply.entries()) {
+      setApplying(`Updating ${index + 1} of ${toApply.length}…`);
+      try {
+        await api.applyTemplateChecklist(template, plan.client.id, { removeDropped, appliedBy });
+      } catch (error) {
+        console.error(`❌ Failed to apply template to ${plan.client.id}:`, error);
+        failed.push(formatClientFullName(plan.client));
+      }
+    }
+    setApplying(null);
+    await onApplied();
+    if (failed.length > 0) {
+      showToast(`Could not update: ${failed.join(', ')}`, 'error');
+      runPreview();
+    } else {
+      showToast(`Checklist updated for ${toApply.length} client(s)`, 'success');
+      setPreview(null);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[100] p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 max-w-3xl w-full max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-start justify-between p-5 border-b border-gray-200">
+          <div className="flex items-start space-x-3">
+            <History className="w-6 h-6 text-amber-700 flex-shrink-0" />
+            <div>
+              <h3 className="font-bold text-lg text-gray-900">{template.name} — versions</h3>
+              <p className="text-sm text-gray-600">
+                Current version {currentVersion} · {templateClients.length} client(s) use this template
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            disabled={applying !== null}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-5 space-y-6">
+          <section>
+            <div className="flex flex-wrap items-center gap-2 mb-3 text-sm">
+              <GitCompare className="w-4 h-4 text-gray-500" />
+              <span className="text-gray-600">Compare</span>
+              {[fromVersion, toVersion].map((value, index) => (
+                <select
+                  key={index}
+                  value={value}
+                  onChange={(e) => (index === 0 ? setFromVersion : setToVersion)(Number(e.target.value))}
+                  className="px-2 py-1 border border-gray-300 rounded-lg bg-white"
+                >
+                  {versions.map((v) => (
+                    <option key={v.version} value={v.version}>
+                      v{v.version} · {new Date(v.created_at).toLocaleDateString()}
+                      {v.created_by ? ` · ${v.created_by}` : ''}
+                    </option>
+                  ))}
+                </select>
+              ))}
+            </div>
+            {isEmptyDiff(diff) ? (
+              <p className="text-sm text-gray-500">No checklist differences between these versions.</p>
+            ) : (
+              <ul className="space-y-1.5 text-sm">
+                {diff.added.map((doc) => (
+                  <li key={`added-${doc.code}`} className="flex items-start gap-2 p-2 rounded-lg bg-green-50 text-green-800">
+                    <Plus className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>
+                      {doc.name} <span className="font-mono text-xs text-green-600">{doc.code}</span>
+                    </span>
+                  </li>
+                ))}
+                {diff.removed.map((doc) => (
+                  <li key={`removed-${doc.code}`} className="flex items-start gap-2 p-2 rounded-lg bg-red-50 text-red-800">
+                    <Minus className="w-4 h-4 mt-0.5 shrink-0" />
+                    <span>
+                      {doc.name} <span className="font-mono text-xs text-red-600">{doc.code}</span>
+                    </span>
+                  </li>
+                ))}
+                {diff.changed.map(({ before, after, fields }) => (
+                  <li key={`changed-${after.code}`} className="flex items-start gap-2 p-2 rounded-lg bg-amber-50 text-amber-900">
+                    <Pencil className="w-4 h-4 mt-0.5 shrink-0" />
+                    <div className="min-w-0">
+                      <p>
+                        {after.name} <span className="font-mono text-xs text-amber-700">{after.code}</span>
+                      </p>
+                      {fields.map((field) => (
+                        <p key={field} className="text-xs text-amber-800">
+                          {FIELD_LABELS[field]}: <span className="line-through">{String(before[field] ?? '—')}</span> →{' '}
+                          {String(after[field] ?? '—')}
+                        </p>
+                      ))}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </section>
+
+          <section className="pt-4 border-t border-gray-200">
+            <h4 className="font-semibold text-gray-900 mb-1">Apply v{currentVersion} to existing clients</h4>
+            <p className="text-xs text-gray-600 mb-3">
+              New documents are added to each client&apos;s checklist. Uploaded files are never removed.
+            </p>
+            <label className="flex items-start gap-2 text-sm text-gray-700 mb-3">
+              <input
+                type="checkbox"
+                checked={removeDropped}
+                onChange={(e) => {
+                  setRemoveDropped(e.target.checked);
+                  if (preview) runPreview(e.target.checked);
+                }}
+                className="mt-0.5"
+              />
+              <span>
+                Also remove documents dropped from the template
+                <span className="block text-xs text-gray-500">
+                  Only documents from an earlier version of this template with nothing uploaded.
+                </span>
+              </span>
+            </label>
+
+            {preview === null ? (
+              <button
+                onClick={() => runPreview()}
+                disabled={templateClients.length === 0}
+                className="px-4 py-2 text-sm font-medium text-amber-800 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 transition-colors disabled:opacity-50"
+              >
+                Preview changes
+              </button>
+            ) : preview.length === 0 ? (
+              <p className="text-sm text-green-700">Every client is already up to date.</p>
+            ) : (
+              <div className="border border-gray-200 rounded-lg overflow-hidden">
+                <table className="w-full text-xs">
+                  <thead className="bg-gray-50 text-gray-600">
+                    <tr>
+                      <th className="text-left p-2 font-semibold">Client</th>
+                      <th className="text-left p-2 font-semibold">Added</th>
+                      <th className="text-left p-2 font-semibold">Removed</th>
+                      <th className="text-left p-2 font-semibold">Updated</th>
+                      <th className="text-left p-2 font-semibold">Kept (has file)</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {preview.map((plan) => (
+                      <tr key={plan.client.id} className="border-t border-gray-100 align-top">
+                        <td className="p-2 font-medium text-gray-900">
+                          {formatClientFullName(plan.client)}
+                          <span className="block font-normal text-gray-500">
+                            {plan.client.case_template_version ? `from v${plan.client.case_template_version}` : 'version unknown'}
+                          </span>
+                        </td>
+                        <td className="p-2 text-green-700">{plan.added.map((doc) => doc.name).join(', ') || '—'}</td>
+                        <td className="p-2 text-red-700">{plan.removed.map((doc) => doc.name).join(', ') || '—'}</td>
+                        <td className="p-2 text-amber-800">{plan.updated.map((doc) => doc.name).join(', ') || '—'}</td>
+                        <td className="p-2 text-gray-600">{plan.keptWithFiles.map((doc) => doc.name).join(', ') || '—'}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </section>
+        </div>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-t border-gray-200">
+          <p className="text-xs text-gray-500">
+            {applying || (preview ? `${toApply.length} client(s) will change` : 'Preview before applying')}
+          </p>
+          <button
+            onClick={() => void handleApply()}
+            disabled={applying !== null || toApply.length === 0}
+            className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+          >
+            Apply to {toApply.length} client(s)
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
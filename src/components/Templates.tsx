@@ -1,16 +1,24 @@
 import { useState, useEffect, useRef } from 'react';
-import { Plus, Trash2, Edit, FileText, Search, X } from 'lucide-react';
+import { Plus, Trash2, Edit, FileText, Search, X, History, BookOpen } from 'lucide-react';
 import { api } from '../utils/api';
 import { CaseTemplate } from '../types';
 import CreateTemplateModal from './CreateTemplateModal';
+import TemplateVersionsModal from './TemplateVersionsModal';
+import OfficialCatalogModal from './OfficialCatalogModal';
 import ConfirmDialog from './ConfirmDialog';
 import { showToast } from './Toast';
 import { t } from '../utils/i18n';
 import { SkeletonTemplateCard } from './Skeleton';
 import { useData } from '../context/DataContext';
+import { usePermissions } from '../context/PermissionsContext';
+import { getTemplateVersion } from '../utils/templateVersions';
+
 export default function Templates() {
   // Use cached templates from context (loaded once at app startup)
-  const { templates: cachedTemplates, refreshTemplates } = useData();
+  const { templates: cachedTemplates, refreshTemplates, clients, refreshClients } = useData();
+  // Creating, editing and deleting templates (official hojas included) needs manage_templates;
+  // anyone can still apply a template's current checklist to clients
+  const canManageTemplates = usePermissions().can('manage_templates');
   const [templates, setTemplates] = useState<CaseTemplate[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore] = useState(false);
@@ -20,6 +28,8 @@ export default function Templates() {
   const LIMIT = 25; // Load 25 items at a time
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingTemplate, setEditingTemplate] = useState<CaseTemplate | null>(null);
+  const [versionsTemplate, setVersionsTemplate] = useState<CaseTemplate | null>(null);
+  const [showOfficialCatalog, setShowOfficialCatalog] = useState(false);
   const [deleteConfirm, setDeleteConfirm] = useState<{ templateId: string | null; templateName: string; isOpen: boolean }>({ templateId: null, templateName: '', isOpen: false });
   const [searchQuery, setSearchQuery] = useState('');
   const [, forceUpdate] = useState({});
@@ -201,14 +211,27 @@ export default function Templates() {
           <h2 className="text-2xl sm:text-3xl lg:text-4xl font-bold bg-gradient-to-r from-amber-800 via-amber-700 to-amber-800 bg-clip-text text-transparent mb-2 tracking-tight">{t('templates.title')}</h2>
           <p className="text-amber-700/80 text-base sm:text-lg font-medium">{t('templates.subtitle')}</p>
         </div>
-        <button
-          onClick={() => setShowCreateModal(true)}
-          className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-semibold shadow-xl hover:shadow-2xl transform hover:scale-105 transition-all duration-200 flex items-center justify-center space-x-2 w-full sm:w-auto"
-          style={{ boxShadow: '0 4px 20px rgba(245, 158, 11, 0.4)' }}
-        >
-          <Plus className="w-5 h-5" />
-          <span>{t('templates.newTemplate')}</span>
-        </button>
+        <div className="flex flex-col sm:flex-row gap-2 w-full sm:w-auto">
+          {canManageTemplates && (
+            <>
+              <button
+                onClick={() => setShowOfficialCatalog(true)}
+                className="bg-white/70 border-2 border-amber-200 text-amber-800 px-4 py-2.5 sm:py-3 rounded-xl font-semibold hover:bg-amber-50 transition-all duration-200 flex items-center justify-center space-x-2"
+              >
+                <BookOpen className="w-5 h-5" />
+                <span>Official hojas</span>
+              </button>
+              <button
+                onClick={() => setShowCreateModal(true)}
+                className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-semibold shadow-xl hover:shadow-2xl transform hover:scale-105 transition-all duration-200 flex items-center justify-center space-x-2 w-full sm:w-auto"
+                style={{ boxShadow: '0 4px 20px rgba(245, 158, 11, 0.4)' }}
+              >
+                <Plus className="w-5 h-5" />
+                <span>{t('templates.newTemplate')}</span>
+              </button>
+            </>
+          )}
+        </div>
       </div>
 
       {/* Search Bar */}
@@ -281,44 +304,62 @@ export default function Templates() {
           </div>
           <h3 className="text-xl sm:text-2xl font-bold bg-gradient-to-r from-amber-800 to-amber-700 bg-clip-text text-transparent mb-2">{t('templates.noTemplates')}</h3>
           <p className="text-amber-700/70 mb-6 sm:mb-8 text-base sm:text-lg font-medium">{t('templates.createFirstTemplate')}</p>
-          <button
-            onClick={() => setShowCreateModal(true)}
-            className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-6 sm:px-8 py-3 sm:py-3.5 rounded-xl font-semibold hover:shadow-2xl transition-all shadow-xl"
-            style={{ boxShadow: '0 4px 20px rgba(245, 158, 11, 0.4)' }}
-          >
-            Create Template
-          </button>
+          {canManageTemplates && (
+            <button
+              onClick={() => setShowCreateModal(true)}
+              className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-6 sm:px-8 py-3 sm:py-3.5 rounded-xl font-semibold hover:shadow-2xl transition-all shadow-xl"
+              style={{ boxShadow: '0 4px 20px rgba(245, 158, 11, 0.4)' }}
+            >
+              Create Template
+            </button>
+          )}
         </div>
       ) : (
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4 sm:gap-6">
           {filteredTemplates.map((template, index) => (
             <div
               key={template.id}
-              onClick={() => setEditingTemplate(template)}
-              className="glass-gold rounded-xl sm:rounded-2xl p-4 sm:p-6 glass-hover animate-slide-up cursor-pointer transition-all duration-200 hover:shadow-xl"
+              onClick={canManageTemplates ? () => setEditingTemplate(template) : undefined}
+              className={`glass-gold rounded-xl sm:rounded-2xl p-4 sm:p-6 glass-hover animate-slide-up transition-all duration-200 hover:shadow-xl ${canManageTemplates ? 'cursor-pointer' : ''}`}
               style={{ animationDelay: `${index * 0.1}s` }}
             >
               <div className="flex justify-between items-start mb-4">
                 <div className="flex-1">
-                  <h3 className="text-xl font-bold text-amber-900 mb-1">{template.name}</h3>
+                  <h3 className="text-xl font-bold text-amber-900 mb-1">
+                    {template.name}
+                    <span className="ml-2 align-middle text-xs font-semibold text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded">
+                      v{getTemplateVersion(template)}
+                    </span>
+                  </h3>
                   {template.description && (
                     <p className="text-sm text-amber-700/70 line-clamp-2 font-medium">{template.description}</p>
                   )}
                 </div>
                 <div className="flex space-x-1 ml-2" onClick={(e) => e.stopPropagation()}>
                   <button
-                    onClick={() => setEditingTemplate(template)}
+                    onClick={() => setVersionsTemplate(template)}
                     className="p-2 text-amber-700 hover:bg-amber-100 rounded-lg transition-colors"
-                    title="Edit template"
+                    title="Versions and apply to clients"
                   >
-                    <Edit className="w-4 h-4" />
-                  </button>
-                  <button
-                    onClick={() => handleDelete(template.id)}
-                    className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
-                  >
-                    <Trash2 className="w-4 h-4" />
+                    <History className="w-4 h-4" />
                   </button>
+                  {canManageTemplates && (
+                    <>
+                      <button
+                        onClick={() => setEditingTemplate(template)}
+                        className="p-2 text-amber-700 hover:bg-amber-100 rounded-lg transition-colors"
+                        title="Edit template"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(template.id)}
+                        className="p-2 text-red-600 hover:bg-red-50 rounded-lg transition-colors"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </>
+                  )}
                 </div>
               </div>
 
@@ -396,6 +437,26 @@ export default function Templates() {
         />
       )}
 
+      {versionsTemplate && (
+        <TemplateVersionsModal
+          template={versionsTemplate}
+          clients={clients}
+          onClose={() => setVersionsTemplate(null)}
+          onApplied={refreshClients}
+        />
+      )}
+
+      {showOfficialCatalog && (
+        <OfficialCatalogModal
+          templates={cachedTemplates}
+          onClose={() => setShowOfficialCatalog(false)}
+          onChanged={async () => {
+            await refreshTemplates();
+            hasInitialized.current = false;
+          }}
+        />
+      )}
+
       {/* Delete Confirmation Dialog */}
       <ConfirmDialog
         isOpen={deleteConfirm.isOpen}
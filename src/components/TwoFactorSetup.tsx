@@ -0,0 +1,274 @@
+import { useState } from 'react';
+import type { MultiFactorResolver, TotpSecret } from 'firebase/auth';
+import { AlertCircle, CheckCircle, KeyRound, Loader2 } from 'lucide-react';
+import {
+  SecondFactorRequiredError,
+  completeTotpSignIn,
+  finishTotpEnrollment,
+  hasTotpEnrolled,
+  reauthenticateWithPassword,
+  startTotpEnrollment,
+  unenrollTotp,
+} from '../utils/firebase';
+import { showToast } from './Toast';
+
+interface Props {
+  /** Mandatory by policy: no way to remove the factor. */
+  required?: boolean;
+  /** After enrolling or removing the authenticator. */
+  onChanged: (enrolled: boolean) => void;
+}
+
+type Step = 'idle' | 'password' | 'verify' | 'scan';
+
+/** Enrols or removes a TOTP authenticator app as the account's second factor. */
+export default function TwoFactorSetup({ required = false, onChanged }: Props) {
+  const [enrolled, setEnrolled] = useState(hasTotpEnrolled);
+  const [step, setStep] = useState<Step>('idle');
+  const [action, setAction] = useState<'enrol' | 'remove'>('enrol');
+  const [password, setPassword] = useState('');
+  const [code, setCode] = useState('');
+  const [enrolment, setEnrolment] = useState<{ secret: TotpSecret; otpauthUrl: string } | null>(null);
+  const [mfaResolver, setMfaResolver] = useState<MultiFactorResolver | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+
+  const reset = () => {
+    setStep('idle');
+    setPassword('');
+    setCode('');
+    setEnrolment(null);
+    setMfaResolver(null);
+    setError('');
+  };
+
+  const begin = (next: 'enrol' | 'remove') => {
+    reset();
+    setAction(next);
+    setStep('password');
+  };
+
+  const continueAction = async () => {
+    if (action === 'remove') {
+      await unenrollTotp();
+      setEnrolled(false);
+      reset();
+      showToast('Authenticator app removed', 'success');
+      onChanged(false);
+      return;
+    }
+    setEnrolment(await startTotpEnrollment());
+    setStep('scan');
+  };
+
+  // Firebase only lets a recently signed-in user change second factors, so both paths confirm the password first
+  const handlePassword = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError('');
+    try {
+      await reauthenticateWithPassword(password);
+      await continueAction();
+    } catch (stepError: any) {
+      if (stepError instanceof SecondFactorRequiredError) {
+        // An enrolled authenticator must confirm the sign-in too
+        setMfaResolver(stepError.resolver);
+        setCode('');
+        setStep('verify');
+        return;
+      }
+      setError(stepError.message || 'Failed to confirm password');
+    } finally {
+      setBusy(false);
+      setPassword('');
+    }
+  };
+
+  const handleVerify = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!mfaResolver) return;
+    setBusy(true);
+    setError('');
+    try {
+      await completeTotpSignIn(mfaResolver, code);
+      setMfaResolver(null);
+      setCode('');
+      await continueAction();
+    } catch (verifyError: any) {
+      setError(verifyError.message || 'Failed to verify code');
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleCode = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!enrolment) return;
+    setBusy(true);
+    setError('');
+    try {
+      await finishTotpEnrollment(enrolment.secret, code, 'Authenticator app');
+      setEnrolled(true);
+      reset();
+      showToast('Two-factor authentication enabled', 'success');
+      onChanged(true);
+    } catch (codeError: any) {
+      setError(codeError.message || 'Failed to verify code');
+      setCode('');
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const inputClass = 'w-full px-4 py-2.5 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none';
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start justify-between gap-3">
+        <div className="flex items-start gap-3">
+          <div className="p-2 bg-amber-100 rounded-lg">
+            <KeyRound className="w-5 h-5 text-amber-800" />
+          </div>
+          <div>
+            <p className="font-semibold text-gray-900">Authenticator app</p>
+            <p className="text-sm text-gray-600">
+              {enrolled
+                ? 'Sign-in asks for a 6-digit code from your authenticator app.'
+                : 'Add a 6-digit code from an app such as Google Authenticator to every sign-in.'}
+            </p>
+          </div>
+        </div>
+        {enrolled ? (
+          <span className="inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold bg-green-100 text-green-800">
+            <CheckCircle className="w-3.5 h-3.5" />
+            On
+          </span>
+        ) : (
+          <span className="px-2 py-1 rounded-full text-xs font-semibold bg-gray-100 text-gray-600">Off</span>
+        )}
+      </div>
+
+      {step === 'idle' &&
+        (enrolled ? (
+          !required && (
+            <button
+              onClick={() => begin('remove')}
+              className="px-4 py-2 text-sm font-semibold text-red-700 bg-red-50 border border-red-200 rounded-lg hover:bg-red-100"
+            >
+              Remove authenticator
+            </button>
+          )
+        ) : (
+          <button
+            onClick={() => begin('enrol')}
+            className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700"
+          >
+            Set up authenticator
+          </button>
+        ))}
+
+      {step === 'password' && (
+        <form onSubmit={handlePassword} className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">Confirm your password</label>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            className={inputClass}
+            autoComplete="current-password"
+            autoFocus
+            required
+          />
+          <div className="flex gap-2">
+            <button type="button" onClick={reset} className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || !password}
+              className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-60"
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : action === 'remove' ? 'Remove' : 'Continue'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'verify' && (
+        <form onSubmit={handleVerify} className="space-y-3">
+          <label className="block text-sm font-medium text-gray-700">Code from your authenticator app</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            className={`${inputClass} text-center text-xl tracking-widest font-mono`}
+            maxLength={6}
+            autoComplete="one-time-code"
+            autoFocus
+            required
+          />
+          <div className="flex gap-2">
+            <button type="button" onClick={reset} className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || code.length < 6}
+              className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-60"
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : action === 'remove' ? 'Remove' : 'Continue'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {step === 'scan' && enrolment && (
+        <form onSubmit={handleCode} className="space-y-3">
+          <p className="text-sm text-gray-700">
+            Add this key to your authenticator app, or{' '}
+            <a href={enrolment.otpauthUrl} className="font-medium text-amber-700 underline">
+              open it in the app
+            </a>{' '}
+            on this device.
+          </p>
+          <code className="block p-3 bg-gray-50 border border-gray-200 rounded-lg text-center font-mono text-sm tracking-widest break-all select-all">
+            {enrolment.secret.secretKey.match(/.{1,4}/g)?.join(' ')}
+          </code>
+          <label className="block text-sm font-medium text-gray-700">Code from the app</label>
+          <input
+            type="text"
+            inputMode="numeric"
+            value={code}
+            onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+            className={`${inputClass} text-center text-xl tracking-widest font-mono`}
+            maxLength={enrolment.secret.codeLength}
+            autoComplete="one-time-code"
+            autoFocus
+            required
+          />
+          <div className="flex gap-2">
+            <button type="button" onClick={reset} className="px-4 py-2 text-sm text-gray-700 bg-gray-100 rounded-lg hover:bg-gray-200">
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={busy || code.length < enrolment.secret.codeLength}
+              className="px-4 py-2 text-sm font-semibold text-white bg-amber-600 rounded-lg hover:bg-amber-700 disabled:opacity-60"
+            >
+              {busy ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Turn on'}
+            </button>
+          </div>
+        </form>
+      )}
+
+      {error && (
+        <p className="text-sm text-red-600 flex items-center gap-1">
+          <AlertCircle className="w-4 h-4" />
+          {error}
+        </p>
+      )}
+    </div>
+  );
+}
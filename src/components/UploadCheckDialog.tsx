@@ -0,0 +1,228 @@
+import { useCallback, useState } from 'react';
+import { AlertCircle, AlertTriangle, CheckCircle, FileText, Loader2, ShieldCheck, Trash2, Wand2, X } from 'lucide-react';
+import { showToast } from './Toast';
+import { formatFileSize } from '../utils/chunkedUpload';
+import {
+  UPLOAD_FIX_LABELS,
+  UploadCheck,
+  UploadFixAction,
+  UploadIssue,
+  applyUploadFix,
+  hasBlockingIssues,
+  validateUploadFile,
+} from '../utils/uploadValidation';
+
+interface UploadCheckDialogProps {
+  checks: UploadCheck[];
+  /** The files to upload (fixed where a fix was applied), or null to cancel. */
+  onDone: (files: File[] | null) => void;
+}
+
+type Row = UploadCheck & { key: string; removed: boolean };
+
+/**
+ * Lists what the pre-upload checks found, file by file, with the fixes that can be
+ * applied here. Files with errors must be fixed or removed; warnings can be uploaded as-is.
+ */
+export default function UploadCheckDialog({ checks, onDone }: UploadCheckDialogProps) {
+  const [rows, setRows] = useState<Row[]>(() =>
+    checks.map((check, index) => ({ ...check, key: `${index}-${check.file.name}`, removed: false }))
+  );
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [passwords, setPasswords] = useState<Record<string, string>>({});
+
+  const active = rows.filter((row) => !row.removed);
+  const blocked = active.filter(hasBlockingIssues);
+
+  const updateRow = (key: string, patch: Partial<Row>) =>
+    setRows((current) => current.map((row) => (row.key === key ? { ...row, ...patch } : row)));
+
+  const fix = async (row: Row, issue: UploadIssue, action: UploadFixAction) => {
+    setBusyKey(row.key);
+    try {
+      const fixed = await applyUploadFix(row, issue, action, passwords[row.key]);
+      // Re-check the result: a converted photo can still turn out blank or dark
+      const { file, kind, issues } = await validateUploadFile(fixed);
+      updateRow(row.key, { file, kind, issues });
+    } catch (error: any) {
+      console.error(`❌ Failed to fix ${row.file.name}:`, error);
+      showToast(error.message || 'Could not fix the file', 'error');
+    } finally {
+      setBusyKey(null);
+    }
+  };
+
+  // One click for the first suggested fix of every issue that needs no input
+  const fixAll = async () => {
+    for (const row of active) {
+      const issue = row.issues.find((i) => i.fixes.length > 0 && !(i.code === 'encrypted_pdf' && !passwords[row.key]));
+      if (issue) await fix(row, issue, issue.fixes[0]);
+    }
+  };
+
+  const fixableCount = active.filter((row) => row.issues.some((i) => i.fixes.length > 0)).length;
+
+  return (
+    <div className="fixed inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-[10000] p-4 animate-fade-in">
+      <div className="bg-white rounded-2xl shadow-2xl border border-gray-200 max-w-2xl w-full max-h-[90vh] flex flex-col animate-scale-in">
+        <div className="flex items-start justify-between p-5 border-b border-gray-200">
+          <div className="flex items-start space-x-3">
+            <ShieldCheck className="w-6 h-6 text-amber-600 flex-shrink-0" />
+            <div>
+              <h3 className="font-bold text-lg text-gray-900">Check files before upload</h3>
+              <p className="text-sm text-gray-600">
+                {blocked.length > 0
+                  ? `${blocked.length} file(s) cannot be uploaded until they are fixed or removed.`
+                  : 'Some files may cause problems. Fix them here or upload them as they are.'}
+              </p>
+            </div>
+          </div>
+          <button
+            onClick={() => onDone(null)}
+            disabled={busyKey !== null}
+            className="p-2 text-gray-500 hover:bg-gray-100 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <ul className="flex-1 overflow-y-auto p-5 space-y-3">
+          {rows.map((row) => {
+            const busy = busyKey === row.key;
+            const blocking = hasBlockingIssues(row);
+            return (
+              <li
+                key={row.key}
+                className={`p-3 rounded-lg border ${
+                  row.removed
+                    ? 'border-gray-200 bg-gray-50 opacity-60'
+                    : blocking
+                      ? 'border-red-200 bg-red-50/40'
+                      : row.issues.length > 0
+                        ? 'border-amber-200 bg-amber-50/40'
+                        : 'border-green-200 bg-green-50/40'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <FileText className="w-4 h-4 text-gray-500 shrink-0" />
+                  <p className={`flex-1 min-w-0 text-sm font-medium text-gray-900 truncate ${row.removed ? 'line-through' : ''}`}>
+                    {row.file.name}
+                  </p>
+                  <span className="text-xs text-gray-500 shrink-0">{formatFileSize(row.file.size)}</span>
+                  {busy && <Loader2 className="w-4 h-4 text-amber-600 animate-spin shrink-0" />}
+                  <button
+                    onClick={() => updateRow(row.key, { removed: !row.removed })}
+                    disabled={busy}
+                    className="px-2 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded transition-colors disabled:opacity-50 shrink-0"
+                  >
+                    {row.removed ? 'Keep' : <Trash2 className="w-3.5 h-3.5" />}
+                  </button>
+                </div>
+
+                {!row.removed && row.issues.length === 0 && (
+                  <p className="mt-1.5 ml-6 inline-flex items-center text-xs text-green-700">
+                    <CheckCircle className="w-3 h-3 mr-1" />
+                    Ready to upload
+                  </p>
+                )}
+                {!row.removed &&
+                  row.issues.map((issue) => (
+                    <div key={issue.code} className="mt-2 ml-6">
+                      <p className={`flex items-start text-xs ${issue.severity === 'error' ? 'text-red-700' : 'text-amber-800'}`}>
+                        {issue.severity === 'error' ? (
+                          <AlertCircle className="w-3.5 h-3.5 mr-1 mt-px shrink-0" />
+                        ) : (
+                          <AlertTriangle className="w-3.5 h-3.5 mr-1 mt-px shrink-0" />
+                        )}
+                        {issue.message}
+                      </p>
+                      {issue.fixes.length > 0 && (
+                        <div className="flex flex-wrap items-center gap-1.5 mt-1.5 ml-4">
+                          {issue.code === 'encrypted_pdf' && (
+                            <input
+                              type="password"
+                              value={passwords[row.key] || ''}
+                              onChange={(e) => setPasswords((current) => ({ ...current, [row.key]: e.target.value }))}
+                              placeholder="PDF password"
+                              autoComplete="off"
+                              className="px-2 py-1 text-xs border border-gray-300 rounded-lg w-36"
+                            />
+                          )}
+                          {issue.fixes.map((action) => (
+                            <button
+                              key={action}
+                              onClick={() => void fix(row, issue, action)}
+                              disabled={busyKey !== null || (issue.code === 'encrypted_pdf' && !passwords[row.key])}
+                              className="inline-flex items-center px-2.5 py-1 text-xs font-medium text-amber-800 bg-white border border-amber-300 rounded-lg hover:bg-amber-50 transition-colors disabled:opacity-50"
+                            >
+                              <Wand2 className="w-3 h-3 mr-1" />
+                              {UPLOAD_FIX_LABELS[action]}
+                            </button>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                  ))}
+              </li>
+            );
+          })}
+        </ul>
+
+        <div className="flex flex-wrap items-center justify-between gap-2 p-4 border-t border-gray-200">
+          <button
+            onClick={() => void fixAll()}
+            disabled={busyKey !== null || fixableCount === 0}
+            className="inline-flex items-center px-3 py-2 text-sm font-medium text-amber-800 bg-amber-50 border border-amber-200 rounded-lg hover:bg-amber-100 transition-colors disabled:opacity-50"
+          >
+            <Wand2 className="w-4 h-4 mr-1.5" />
+            Apply suggested fixes
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => onDone(null)}
+              disabled={busyKey !== null}
+              className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-lg hover:bg-gray-50 transition-colors disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              onClick={() => onDone(active.map((row) => row.file))}
+              disabled={busyKey !== null || blocked.length > 0 || active.length === 0}
+              className="px-4 py-2 text-sm font-medium text-white bg-amber-600 rounded-lg hover:bg-amber-700 transition-colors disabled:opacity-50"
+            >
+              Upload {active.length} file(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/**
+ * `checkFiles` validates files before upload; when something is wrong it opens the
+ * dialog (render `uploadCheckDialog`) and resolves once the user has decided. Resolves
+ * with the files to upload — possibly fixed replacements — or null if cancelled.
+ */
+export function useUploadChecks() {
+  const [pending, setPending] = useState<{ checks: UploadCheck[]; resolve: (files: File[] | null) => void } | null>(null);
+
+  const checkFiles = useCallback(async (files: File[]): Promise<File[] | null> => {
+    const checks: UploadCheck[] = [];
+    for (const file of files) checks.push(await validateUploadFile(file));
+    if (checks.every((check) => check.issues.length === 0)) return files;
+    return new Promise((resolve) => setPending({ checks, resolve }));
+  }, []);
+
+  const uploadCheckDialog = pending ? (
+    <UploadCheckDialog
+      checks={pending.checks}
+      onDone={(files) => {
+        pending.resolve(files);
+        setPending(null);
+      }}
+    />
+  ) : null;
+
+  return { checkFiles, uploadCheckDialog };
+}
@@ -1,24 +1,46 @@
 import { useState, useEffect } from 'react';
-import { Plus, Users as UsersIcon, Trash2, Edit2, Shield, User as UserIcon, Mail, Calendar, CheckCircle, XCircle, Lock, Settings, Download, Upload, Archive, FileDown, RefreshCw } from 'lucide-react';
+import { Plus, Users as UsersIcon, Trash2, Edit2, Shield, User as UserIcon, Mail, Calendar, CheckCircle, XCircle, Download, Upload, Archive, FileDown, RefreshCw } from 'lucide-react';
 import { api } from '../utils/api';
-import { User } from '../types';
+import { Permission, User, UserRole } from '../types';
 import ConfirmDialog from './ConfirmDialog';
+import DataRetentionPanel from './DataRetentionPanel';
+import FieldEncryptionPanel from './FieldEncryptionPanel';
+import PaymentUnlockLog from './PaymentUnlockLog';
+import SecurityPolicyPanel from './SecurityPolicyPanel';
 import { showToast } from './Toast';
 import { t } from '../utils/i18n';
 import { SkeletonUserCard } from './Skeleton';
+import { usePermissions } from '../context/PermissionsContext';
+import {
+  PERMISSIONS,
+  PERMISSION_LABELS,
+  ROLE_DESCRIPTIONS,
+  ROLE_LABELS,
+  ROLE_PERMISSIONS,
+  USER_ROLES,
+  hasCustomPermissions,
+} from '../utils/permissions';
+
+type UserForm = {
+  email: string;
+  name: string;
+  role: UserRole;
+  /** Null keeps the role's defaults. */
+  permissions: Permission[] | null;
+  firebase_uid: string;
+};
+
+const EMPTY_USER_FORM: UserForm = { email: '', name: '', role: 'paralegal', permissions: null, firebase_uid: '' };
 
 export default function Users() {
   const [users, setUsers] = useState<User[]>([]);
-  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const { currentUser, can, refreshCurrentUser } = usePermissions();
   const [loading, setLoading] = useState(true);
   const [showCreateModal, setShowCreateModal] = useState(false);
   const [editingUser, setEditingUser] = useState<User | null>(null);
   const [deleteConfirm, setDeleteConfirm] = useState<{ user: User | null; isOpen: boolean }>({ user: null, isOpen: false });
-  const [userForm, setUserForm] = useState({ email: '', name: '', role: 'user' as 'admin' | 'user', firebase_uid: '' });
+  const [userForm, setUserForm] = useState<UserForm>(EMPTY_USER_FORM);
   const [saving, setSaving] = useState(false);
-  const [passcodeForm, setPasscodeForm] = useState({ passcode: '', confirmPasscode: '' });
-  const [savingPasscode, setSavingPasscode] = useState(false);
-  const [passcodeError, setPasscodeError] = useState('');
   const [, forceUpdate] = useState({});
   const [exportingData, setExportingData] = useState(false);
   const [importingData, setImportingData] = useState(false);
@@ -26,7 +48,6 @@ export default function Users() {
 
   useEffect(() => {
     loadUsers();
-    loadCurrentUser();
   }, []);
 
   // Reload data when page becomes visible (handles refresh and tab switching)
@@ -42,7 +63,7 @@ export default function Users() {
           clearTimeout(reloadTimeout);
           reloadTimeout = setTimeout(() => {
             loadUsers();
-            loadCurrentUser();
+            void refreshCurrentUser();
             lastReloadTime = Date.now();
           }, 500);
         }
@@ -55,7 +76,7 @@ export default function Users() {
         clearTimeout(reloadTimeout);
         reloadTimeout = setTimeout(() => {
           loadUsers();
-          loadCurrentUser();
+          void refreshCurrentUser();
           lastReloadTime = Date.now();
         }, 500);
       }
@@ -95,15 +116,6 @@ export default function Users() {
     }
   };
 
-  const loadCurrentUser = async () => {
-    try {
-      const user = await api.getCurrentUser();
-      setCurrentUser(user);
-    } catch (error: any) {
-      console.error('Failed to load current user:', error);
-    }
-  };
-
   const handleDeleteUser = (user: User, e: React.MouseEvent) => {
     e.stopPropagation();
     setDeleteConfirm({ user, isOpen: true });
@@ -129,6 +141,7 @@ export default function Users() {
       email: user.email,
       name: user.name || '',
       role: user.role,
+      permissions: user.permissions ?? null,
       firebase_uid: user.firebase_uid,
     });
     setShowCreateModal(true);
@@ -136,7 +149,7 @@ export default function Users() {
 
   const handleCreateUser = () => {
     setEditingUser(null);
-    setUserForm({ email: '', name: '', role: 'user', firebase_uid: '' });
+    setUserForm(EMPTY_USER_FORM);
     setShowCreateModal(true);
   };
 
@@ -150,6 +163,7 @@ export default function Users() {
           email: userForm.email,
           name: userForm.name || undefined,
           role: userForm.role,
+          permissions: userForm.permissions,
         });
         showToast('User updated successfully', 'success');
       } else {
@@ -162,13 +176,15 @@ export default function Users() {
           email: userForm.email,
           name: userForm.name || undefined,
           role: userForm.role,
+          permissions: userForm.permissions ?? undefined,
           firebase_uid: userForm.firebase_uid,
         });
         showToast('User created successfully', 'success');
       }
       setShowCreateModal(false);
       await loadUsers();
-      setUserForm({ email: '', name: '', role: 'user', firebase_uid: '' });
+      if (editingUser?.id === currentUser?.id) await refreshCurrentUser();
+      setUserForm(EMPTY_USER_FORM);
     } catch (error: any) {
       showToast(error.message || 'Failed to save user', 'error');
     } finally {
@@ -186,53 +202,29 @@ export default function Users() {
     }
   };
 
-  const handleToggleRole = async (user: User) => {
+  /** Bootstrap: with no admin yet, the signed-in user may promote themselves. */
+  const handleMakeFirstAdmin = async (user: User) => {
     try {
-      const newRole = user.role === 'admin' ? 'user' : 'admin';
-      await api.updateUser(user.id, { role: newRole });
+      await api.updateUser(user.id, { role: 'admin', permissions: null });
       await loadUsers();
-      await loadCurrentUser(); // Reload current user in case we changed our own role
-      showToast(`User role changed to ${newRole} successfully`, 'success');
+      await refreshCurrentUser();
+      showToast(`${ROLE_LABELS.admin} role assigned successfully`, 'success');
     } catch (error: any) {
       showToast(error.message || 'Failed to update user role', 'error');
     }
   };
 
-  const isAdmin = currentUser?.role === 'admin';
+  const canManageUsers = can('manage_users');
+  const canExportData = can('export_data');
   const hasAdmin = users.some(u => u.role === 'admin');
-  const canChangeRoles = isAdmin || (!hasAdmin && currentUser?.firebase_uid); // Allow if admin, or if no admins exist
-
-  const handleSetPaymentPasscode = async (e: React.FormEvent) => {
-    e.preventDefault();
-    setPasscodeError('');
-    
-    if (!passcodeForm.passcode.trim()) {
-      setPasscodeError('Passcode is required');
-      return;
-    }
-
-    if (passcodeForm.passcode.length < 4) {
-      setPasscodeError('Passcode must be at least 4 characters');
-      return;
-    }
-
-    if (passcodeForm.passcode !== passcodeForm.confirmPasscode) {
-      setPasscodeError('Passcodes do not match');
-      return;
-    }
-
-    setSavingPasscode(true);
-    try {
-      await api.setPaymentPasscode(passcodeForm.passcode);
-      showToast('Payment passcode updated successfully', 'success');
-      setPasscodeForm({ passcode: '', confirmPasscode: '' });
-      setPasscodeError('');
-    } catch (error: any) {
-      setPasscodeError(error.message || 'Failed to set payment passcode');
-      showToast(error.message || 'Failed to set payment passcode', 'error');
-    } finally {
-      setSavingPasscode(false);
-    }
+  const canChangeRoles = canManageUsers || (!hasAdmin && currentUser?.firebase_uid); // Allow if admin, or if no admins exist
+  const formPermissions = userForm.permissions ?? ROLE_PERMISSIONS[userForm.role];
+
+  const toggleFormPermission = (permission: Permission, enabled: boolean) => {
+    const next = enabled ? [...formPermissions, permission] : formPermissions.filter((p) => p !== permission);
+    const defaults = ROLE_PERMISSIONS[userForm.role];
+    const matchesRole = next.length === defaults.length && next.every((p) => defaults.includes(p));
+    setUserForm({ ...userForm, permissions: matchesRole ? null : PERMISSIONS.filter((p) => next.includes(p)) });
   };
 
   const handleExportAllData = async () => {
@@ -312,7 +304,7 @@ export default function Users() {
   }
 
   // Show access denied if user is not admin (after loading)
-  if (!loading && !isAdmin && hasAdmin) {
+  if (!loading && !canManageUsers && !canExportData && hasAdmin) {
     return (
       <div className="flex items-center justify-center h-64">
         <div className="text-center">
@@ -333,7 +325,7 @@ export default function Users() {
           </h2>
           <p className="text-amber-700/80 text-base sm:text-lg font-medium">{t('users.subtitle')}</p>
         </div>
-        {isAdmin && (
+        {canManageUsers && (
           <button
             onClick={handleCreateUser}
             className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-4 sm:px-6 py-2.5 sm:py-3 rounded-xl font-semibold shadow-xl hover:shadow-2xl transform hover:scale-105 transition-all duration-200 flex items-center justify-center space-x-2 w-full sm:w-auto"
@@ -356,7 +348,7 @@ export default function Users() {
           <p className="text-amber-700/70 mb-6 sm:mb-8 text-base sm:text-lg font-medium">
             {t('users.createFirstUser')}
           </p>
-          {isAdmin && (
+          {canManageUsers && (
             <button
               onClick={handleCreateUser}
               className="bg-gradient-to-r from-yellow-500 via-amber-500 to-yellow-600 text-amber-900 px-6 sm:px-8 py-3 sm:py-3.5 rounded-xl font-semibold hover:shadow-2xl transition-all shadow-xl"
@@ -394,8 +386,26 @@ export default function Users() {
                           ? 'bg-purple-100 text-purple-700' 
                           : 'bg-blue-100 text-blue-700'
                       }`}>
-                        {user.role === 'admin' ? t('users.admin') : t('users.user')}
+                        {user.role === 'admin' ? t('users.admin') : ROLE_LABELS[user.role]}
                       </span>
+                      {hasCustomPermissions(user) && (
+                        <span
+                          className="px-2 py-0.5 rounded-full text-xs font-semibold bg-amber-100 text-amber-800"
+                          title={(user.permissions || []).map((p) => PERMISSION_LABELS[p]).join(', ') || 'No permissions'}
+                        >
+                          Custom
+                        </span>
+                      )}
+                      {user.two_factor_enabled && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-800" title="Signs in with an authenticator app">
+                          2FA
+                        </span>
+                      )}
+                      {user.has_payment_pin === false && (
+                        <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-gray-100 text-gray-600" title="Hasn't set a payment PIN yet">
+                          No PIN
+                        </span>
+                      )}
                       {user.active ? (
                         <span className="px-2 py-0.5 rounded-full text-xs font-semibold bg-green-100 text-green-700 flex items-center space-x-1">
                           <CheckCircle className="w-3 h-3" />
@@ -423,7 +433,7 @@ export default function Users() {
                 </div>
               </div>
 
-              {(isAdmin || (canChangeRoles && user.firebase_uid === currentUser?.firebase_uid)) && (
+              {(canManageUsers || (canChangeRoles && user.firebase_uid === currentUser?.firebase_uid)) && (
                 <div className="flex items-center space-x-2 pt-4 border-t border-amber-200/50">
                   <button
                     onClick={() => handleEditUser(user)}
@@ -432,7 +442,7 @@ export default function Users() {
                     <Edit2 className="w-4 h-4" />
                     <span>{t('common.edit')}</span>
                   </button>
-                  {isAdmin && (
+                  {canManageUsers && (
                     <>
                       <button
                         onClick={() => handleToggleActive(user)}
@@ -444,17 +454,6 @@ export default function Users() {
                       >
                         {user.active ? <XCircle className="w-4 h-4" /> : <CheckCircle className="w-4 h-4" />}
                       </button>
-                      <button
-                        onClick={() => handleToggleRole(user)}
-                        className={`px-3 py-2 rounded-lg transition-colors flex items-center justify-center space-x-2 text-sm font-semibold ${
-                          user.role === 'admin'
-                            ? 'bg-purple-600 text-white hover:bg-purple-700'
-                            : 'bg-indigo-600 text-white hover:bg-indigo-700'
-                        }`}
-                        title={user.role === 'admin' ? t('users.removeAdmin') : t('users.makeAdmin')}
-                      >
-                        <Shield className="w-4 h-4" />
-                      </button>
                       {user.firebase_uid !== currentUser?.firebase_uid && (
                         <button
                           onClick={(e) => handleDeleteUser(user, e)}
@@ -467,7 +466,7 @@ export default function Users() {
                   )}
                   {!hasAdmin && user.firebase_uid === currentUser?.firebase_uid && user.role !== 'admin' && (
                     <button
-                      onClick={() => handleToggleRole(user)}
+                      onClick={() => handleMakeFirstAdmin(user)}
                       className="flex-1 px-3 py-2 bg-gradient-to-r from-purple-600 to-indigo-600 text-white rounded-lg hover:from-purple-700 hover:to-indigo-700 transition-colors flex items-center justify-center space-x-2 text-sm font-semibold"
                     >
                       <Shield className="w-4 h-4" />
@@ -566,18 +565,54 @@ export default function Users() {
                 </label>
                 <select
                   value={userForm.role}
-                  onChange={(e) => setUserForm({ ...userForm, role: e.target.value as 'admin' | 'user' })}
+                  onChange={(e) => setUserForm({ ...userForm, role: e.target.value as UserRole, permissions: null })}
                   className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none"
-                  disabled={!isAdmin && !hasAdmin}
+                  disabled={!canManageUsers && hasAdmin}
                 >
-                  <option value="user">{t('users.user')}</option>
-                  <option value="admin">{t('users.admin')}</option>
+                  {USER_ROLES.map((role) => (
+                    <option key={role} value={role}>
+                      {role === 'admin' ? t('users.admin') : ROLE_LABELS[role]}
+                    </option>
+                  ))}
                 </select>
-                {!isAdmin && !hasAdmin && editingUser && editingUser.firebase_uid === currentUser?.firebase_uid && (
+                <p className="mt-1 text-xs text-gray-500">{ROLE_DESCRIPTIONS[userForm.role]}</p>
+                {!canManageUsers && !hasAdmin && editingUser && editingUser.firebase_uid === currentUser?.firebase_uid && (
                   <p className="mt-1 text-xs text-amber-600">{t('users.canMakeFirstAdmin')}</p>
                 )}
               </div>
 
+              {canManageUsers && (
+                <div>
+                  <div className="flex items-center justify-between mb-1">
+                    <label className="block text-sm font-medium text-gray-700">Permissions</label>
+                    {userForm.permissions && (
+                      <button
+                        type="button"
+                        onClick={() => setUserForm({ ...userForm, permissions: null })}
+                        className="text-xs font-medium text-amber-700 hover:text-amber-900"
+                      >
+                        Reset to role defaults
+                      </button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-x-3 gap-y-1.5 p-3 bg-gray-50 border border-gray-200 rounded-lg">
+                    {PERMISSIONS.map((permission) => (
+                      <label key={permission} className="inline-flex items-center gap-2 text-sm text-gray-700">
+                        <input
+                          type="checkbox"
+                          checked={formPermissions.includes(permission)}
+                          onChange={(e) => toggleFormPermission(permission, e.target.checked)}
+                        />
+                        {PERMISSION_LABELS[permission]}
+                      </label>
+                    ))}
+                  </div>
+                  {userForm.permissions && (
+                    <p className="mt-1 text-xs text-amber-700">Custom permissions for this user, instead of the role's.</p>
+                  )}
+                </div>
+              )}
+
               <div className="flex justify-end space-x-3 pt-4">
                 <button
                   type="button"
@@ -599,8 +634,8 @@ export default function Users() {
         </div>
       )}
 
-      {/* Data Management (Admin Only) */}
-      {isAdmin && (
+      {/* Data Management */}
+      {canExportData && (
         <div className="glass-gold rounded-xl sm:rounded-2xl p-5 sm:p-6 border-2 border-amber-200/50 animate-slide-up">
           <div className="flex items-center space-x-3 mb-6">
             <div className="p-2.5 bg-gradient-to-br from-blue-100 to-blue-200 rounded-xl">
@@ -684,80 +719,17 @@ export default function Users() {
         </div>
       )}
 
-      {/* Payment Passcode Settings (Admin Only) */}
-      {isAdmin && (
-        <div className="glass-gold rounded-xl sm:rounded-2xl p-5 sm:p-6 border-2 border-amber-200/50 animate-slide-up">
-          <div className="flex items-center space-x-3 mb-4">
-            <div className="p-2.5 bg-gradient-to-br from-amber-100 to-amber-200 rounded-xl">
-              <Settings className="w-5 h-5 text-amber-800" />
-            </div>
-            <div>
-              <h3 className="text-lg font-bold text-gray-900">Payment Passcode Settings</h3>
-              <p className="text-sm text-gray-600">Set the passcode required to access payment information</p>
-            </div>
-          </div>
-
-          <form onSubmit={handleSetPaymentPasscode} className="space-y-4">
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                New Passcode <span className="text-red-500">*</span>
-              </label>
-              <input
-                type="password"
-                value={passcodeForm.passcode}
-                onChange={(e) => {
-                  setPasscodeForm({ ...passcodeForm, passcode: e.target.value });
-                  setPasscodeError('');
-                }}
-                className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none transition-all"
-                placeholder="Enter new passcode (min 4 characters)"
-                minLength={4}
-              />
-            </div>
+      {/* Security Policy */}
+      {canManageUsers && <SecurityPolicyPanel users={users} />}
 
-            <div>
-              <label className="block text-sm font-semibold text-gray-700 mb-2">
-                Confirm Passcode <span className="text-red-500">*</span>
-              </label>
-              <input
-                type="password"
-                value={passcodeForm.confirmPasscode}
-                onChange={(e) => {
-                  setPasscodeForm({ ...passcodeForm, confirmPasscode: e.target.value });
-                  setPasscodeError('');
-                }}
-                className="w-full px-4 py-3 border-2 border-gray-300 rounded-xl focus:ring-2 focus:ring-amber-500 focus:border-amber-500 outline-none transition-all"
-                placeholder="Confirm new passcode"
-                minLength={4}
-              />
-            </div>
+      {/* Field Encryption */}
+      {canManageUsers && <FieldEncryptionPanel />}
 
-            {passcodeError && (
-              <div className="p-3 bg-red-50 border-l-4 border-red-500 text-red-700 text-sm rounded">
-                {passcodeError}
-              </div>
-            )}
+      {/* Data Retention */}
+      {canManageUsers && <DataRetentionPanel />}
 
-            <button
-              type="submit"
-              disabled={savingPasscode}
-              className="w-full px-4 py-3 bg-gradient-to-r from-amber-600 to-amber-700 text-white rounded-xl hover:shadow-xl transition-all font-semibold disabled:opacity-50 disabled:cursor-not-allowed flex items-center justify-center space-x-2"
-            >
-              {savingPasscode ? (
-                <>
-                  <div className="animate-spin rounded-full h-4 w-4 border-2 border-white border-t-transparent"></div>
-                  <span>Saving...</span>
-                </>
-              ) : (
-                <>
-                  <Lock className="w-4 h-4" />
-                  <span>Update Payment Passcode</span>
-                </>
-              )}
-            </button>
-          </form>
-        </div>
-      )}
+      {/* Payment Unlock Log */}
+      {canManageUsers && <PaymentUnlockLog />}
 
       <ConfirmDialog
         isOpen={deleteConfirm.isOpen}
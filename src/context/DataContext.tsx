@@ -1,8 +1,27 @@
-import React, { useContext, useState, useEffect, useCallback, useRef, ReactNode } from 'react';
+import React, { useContext, useState, useEffect, useCallback, useRef, ReactNode, Dispatch, SetStateAction } from 'react';
 import { api } from '../utils/api';
-import { Client, CaseTemplate, Reminder, Appointment } from '../types';
+import { appointmentSchema, caseTemplateSchema, clientSchema, reminderSchema } from '../utils/apiSchemas';
+import { Client, CaseTemplate, Reminder, Appointment, RealtimeChangeEvent } from '../types';
 import { DEFAULT_TEAM_MEMBERS } from '../utils/teamMembers';
 import { getCurrentUser, onAuthChange } from '../utils/firebase';
+import { CachedCollection, clearCachedCollections, loadCachedCollection, saveCachedCollection } from '../utils/offlineStore';
+import { DeltaResource, latestUpdatedAt, mergeDelta } from '../utils/deltaSync';
+import { decryptClient, findEncryptedKeyIds, refreshClientDecryption, sealClient, subscribeToFirmKey } from '../utils/fieldEncryption';
+import { connectRealtime, subscribeToRealtime } from '../utils/realtime';
+import { Schema, parseResponse } from '../utils/schema';
+import {
+  OutboxEntry,
+  OutboxOperation,
+  applyOperationToClients,
+  applyOperationToReminders,
+  discardOutboxEntry,
+  enqueueOperation,
+  executeOperation,
+  isNetworkError,
+  isOfflineId,
+  listOutbox,
+  replayOutbox,
+} from '../utils/syncQueue';
 
 interface DataContextType {
   // Data
@@ -15,6 +34,8 @@ interface DataContextType {
   // Loading states
   loading: boolean;
   lastFetchTime: number | null;
+  /** Bumped when another session changes team tasks; components holding tasks refetch on change. */
+  teamTasksRevision: number;
   
   // Actions
   refreshClients: () => Promise<void>;
@@ -27,6 +48,16 @@ interface DataContextType {
   // Cache control
   invalidateCache: () => void;
   isStale: (maxAge?: number) => boolean;
+
+  // Offline sync
+  isOnline: boolean;
+  syncItems: OutboxEntry[];
+  /** Run a mutation now, or queue it (and show it locally) when the connection is down. */
+  runMutation: (operation: OutboxOperation) => Promise<{ queued: boolean }>;
+  syncNow: () => Promise<void>;
+  /** Retry one failed/conflicting item; `force` skips the conflict check and overwrites the server copy. */
+  retrySyncItem: (id: string, force?: boolean) => Promise<void>;
+  discardSyncItem: (id: string) => Promise<void>;
 }
 
 // Use React.createContext to ensure React is fully initialized
@@ -35,6 +66,46 @@ const DataContext = React.createContext<DataContextType | undefined>(undefined);
 // Cache duration: 5 minutes (300000 ms)
 const CACHE_DURATION = 5 * 60 * 1000;
 
+// Per-collection `updated_since` cursors; null means the next refresh is a full load
+type SyncCursors = Record<CachedCollection, string | null>;
+
+const EMPTY_CURSORS: SyncCursors = { clients: null, templates: null, reminders: null, appointments: null };
+
+/** Cursor for an empty collection's first delta query: everything is newer. */
+const EMPTY_COLLECTION_SINCE = new Date(0).toISOString();
+
+const DELTA_RESOURCES: Record<CachedCollection, DeltaResource> = {
+  clients: 'clients',
+  templates: 'case-templates',
+  reminders: 'reminders',
+  appointments: 'appointments',
+};
+
+/**
+ * Merge a pushed change into a cached list. Returns false when the event has no usable
+ * record to merge (missing, or not matching the schema), so the caller fetches it instead.
+ */
+function applyRealtimeChange<T extends { id: string }>(
+  setItems: Dispatch<SetStateAction<T[]>>,
+  event: RealtimeChangeEvent,
+  schema: Schema<T>,
+  prepare: (items: T[]) => T[] = (items) => items
+): boolean {
+  if (event.action === 'deleted') {
+    setItems((prev) => mergeDelta(prev, { updated: [], deleted: [{ id: event.id, deleted_at: event.at }] }));
+    return true;
+  }
+  if (!event.record) return false;
+  let record: T;
+  try {
+    record = parseResponse(`realtime ${event.entity}`, schema, event.record);
+  } catch {
+    return false;
+  }
+  setItems((prev) => mergeDelta(prev, { updated: prepare([record]), deleted: [] }));
+  return true;
+}
+
 export function DataProvider({ children }: { children: ReactNode }) {
   const [clients, setClients] = useState<Client[]>([]);
   const [templates, setTemplates] = useState<CaseTemplate[]>([]);
@@ -43,8 +114,121 @@ export function DataProvider({ children }: { children: ReactNode }) {
   const [teamMembers, setTeamMembers] = useState<string[]>([...DEFAULT_TEAM_MEMBERS]);
   const [loading, setLoading] = useState(true);
   const [lastFetchTime, setLastFetchTime] = useState<number | null>(null);
+  const [teamTasksRevision, setTeamTasksRevision] = useState(0);
   const [isInitialized, setIsInitialized] = useState(false);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [syncItems, setSyncItems] = useState<OutboxEntry[]>([]);
+  const [cursors, setCursors] = useState<SyncCursors>(EMPTY_CURSORS);
+  const cursorsRef = useRef<SyncCursors>(EMPTY_CURSORS);
   const isLoadingRef = useRef(false); // Prevent multiple simultaneous loads
+  const hasCachedDataRef = useRef(false); // Hydrated from IndexedDB - refresh in the background
+  const syncItemsRef = useRef<OutboxEntry[]>([]);
+  const startupSyncDoneRef = useRef(false);
+  const clientsRef = useRef<Client[]>([]);
+  const remindersRef = useRef<Reminder[]>([]);
+  clientsRef.current = clients;
+  remindersRef.current = reminders;
+
+  const setCursor = useCallback((name: CachedCollection, cursor: string | null) => {
+    cursorsRef.current = { ...cursorsRef.current, [name]: cursor };
+    setCursors(cursorsRef.current);
+  }, []);
+
+  const reloadSyncItems = useCallback(async () => {
+    try {
+      const entries = await listOutbox();
+      syncItemsRef.current = entries;
+      setSyncItems(entries);
+    } catch (error) {
+      console.error('❌ Failed to read sync queue:', error);
+    }
+  }, []);
+
+  // Queued changes stay visible on top of fresh server data until they are replayed
+  const withPendingClients = useCallback((data: Client[]) => {
+    return syncItemsRef.current
+      .filter((entry) => entry.status === 'pending')
+      .reduce((acc, entry) => applyOperationToClients(acc, entry.operation), data);
+  }, []);
+
+  const withPendingReminders = useCallback((data: Reminder[]) => {
+    return syncItemsRef.current
+      .filter((entry) => entry.status === 'pending')
+      .reduce((acc, entry) => applyOperationToReminders(acc, entry.operation), data);
+  }, []);
+
+  // Show the last copy saved on this device while the network load runs (or fails offline)
+  const hydrateFromCache = useCallback(async () => {
+    const [cachedClients, cachedTemplates, cachedReminders, cachedAppointments] = await Promise.all([
+      loadCachedCollection<Client>('clients'),
+      loadCachedCollection<CaseTemplate>('templates'),
+      loadCachedCollection<Reminder>('reminders'),
+      loadCachedCollection<Appointment>('appointments'),
+      reloadSyncItems(),
+    ]);
+    if (!cachedClients) return;
+
+    hasCachedDataRef.current = true;
+    setClients(await Promise.all(cachedClients.items.map((client) => decryptClient(client))));
+    setTemplates(cachedTemplates?.items || []);
+    setReminders(cachedReminders?.items || []);
+    setAppointments(cachedAppointments?.items || []);
+    cursorsRef.current = {
+      clients: cachedClients.cursor,
+      templates: cachedTemplates?.cursor ?? null,
+      reminders: cachedReminders?.cursor ?? null,
+      appointments: cachedAppointments?.cursor ?? null,
+    };
+    setCursors(cursorsRef.current);
+    setLoading(false);
+    console.log(`📦 Loaded offline copy: ${cachedClients.items.length} clients`);
+  }, [reloadSyncItems]);
+
+  /**
+   * Bring one collection up to date: only records changed since its cursor when we have one,
+   * otherwise (or if the backend rejects the delta query) a full load. `prepare` runs on
+   * records fresh from the server. Resolves to the number of records received.
+   */
+  const syncCollection = useCallback(async <T extends { id: string; updated_at: string }>(
+    name: CachedCollection,
+    fetchAll: () => Promise<T[]>,
+    schema: Schema<T>,
+    setItems: Dispatch<SetStateAction<T[]>>,
+    prepare: (items: T[]) => T[] = (items) => items
+  ): Promise<number> => {
+    const fetchChanges = async (since: string) => {
+      const delta = await api.getChanges(DELTA_RESOURCES[name], since, schema);
+      setItems((prev) => mergeDelta(prev, { updated: prepare(delta.updated), deleted: delta.deleted }));
+      setCursor(name, delta.server_time);
+      return delta.updated.length + delta.deleted.length;
+    };
+
+    const since = cursorsRef.current[name];
+    if (since) {
+      try {
+        return await fetchChanges(since);
+      } catch (error) {
+        if (isNetworkError(error)) throw error;
+        console.warn(`⚠️ Delta sync for ${name} failed, doing a full load:`, error);
+      }
+    }
+
+    const items = await fetchAll();
+    setItems(prepare(items));
+    const latest = latestUpdatedAt(items);
+    if (!latest) {
+      // An empty collection has no updated_at to start from. Changes since the epoch are just
+      // that (plus any record created meanwhile), and their server_time becomes the cursor.
+      try {
+        return await fetchChanges(EMPTY_COLLECTION_SINCE);
+      } catch (error) {
+        if (isNetworkError(error)) throw error;
+        console.warn(`⚠️ Could not get a delta cursor for ${name}:`, error);
+      }
+    }
+    setCursor(name, latest);
+    return items.length;
+  }, [setCursor]);
 
   // Load all data once at startup
   const loadAllData = useCallback(async () => {
@@ -63,15 +247,16 @@ export function DataProvider({ children }: { children: ReactNode }) {
       }
 
       isLoadingRef.current = true;
-      console.log('🔄 Loading all data from backend (one-time load)...');
-      setLoading(true);
+      const isDelta = Object.values(cursorsRef.current).some(Boolean);
+      console.log(isDelta ? '🔄 Fetching changes from backend...' : '🔄 Loading all data from backend (one-time load)...');
+      if (!hasCachedDataRef.current && !isDelta) setLoading(true);
 
       // Load all data in parallel (appointments optional — backend may not be deployed yet)
       const [templatesResult, clientsResult, remindersResult, appointmentsResult, teamMembersResult] = await Promise.allSettled([
-        api.getCaseTemplates(),
-        api.getClients(),
-        api.getReminders(),
-        api.getAppointments(),
+        syncCollection('templates', () => api.getCaseTemplates(), caseTemplateSchema, setTemplates),
+        syncCollection('clients', () => api.getClients(), clientSchema, setClients, withPendingClients),
+        syncCollection('reminders', () => api.getReminders(), reminderSchema, setReminders, withPendingReminders),
+        syncCollection('appointments', () => api.getAppointments(), appointmentSchema, setAppointments),
         api.getTeamMembers(),
       ]);
 
@@ -79,11 +264,6 @@ export function DataProvider({ children }: { children: ReactNode }) {
       if (clientsResult.status === 'rejected') throw clientsResult.reason;
       if (remindersResult.status === 'rejected') throw remindersResult.reason;
 
-      const templatesData = templatesResult.value;
-      const clientsData = clientsResult.value;
-      const remindersData = remindersResult.value;
-      const appointmentsData =
-        appointmentsResult.status === 'fulfilled' ? appointmentsResult.value : [];
       const teamMembersData =
         teamMembersResult.status === 'fulfilled' && teamMembersResult.value.length > 0
           ? teamMembersResult.value
@@ -96,18 +276,12 @@ export function DataProvider({ children }: { children: ReactNode }) {
         console.warn('⚠️ Team members API unavailable:', teamMembersResult.reason);
       }
 
-      // Handle paginated responses
-      const templates = Array.isArray(templatesData) ? templatesData : (templatesData.templates || []);
-      const clients = Array.isArray(clientsData) ? clientsData : (clientsData.clients || []);
+      const appointmentsCount = appointmentsResult.status === 'fulfilled' ? appointmentsResult.value : 0;
 
-      setTemplates(templates);
-      setClients(clients);
-      setReminders(remindersData);
-      setAppointments(Array.isArray(appointmentsData) ? appointmentsData : []);
       setTeamMembers(teamMembersData);
       setLastFetchTime(Date.now());
       
-      console.log(`✅ Data loaded: ${templates.length} templates, ${clients.length} clients, ${remindersData.length} reminders, ${appointmentsData.length} appointments, ${teamMembersData.length} team members`);
+      console.log(`✅ Data ${isDelta ? 'synced' : 'loaded'}: ${templatesResult.value} templates, ${clientsResult.value} clients, ${remindersResult.value} reminders, ${appointmentsCount} appointments, ${teamMembersData.length} team members`);
     } catch (error: any) {
       console.error('❌ Failed to load data:', error);
       // Don't clear data on error - keep existing cache
@@ -115,7 +289,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
       setLoading(false);
       isLoadingRef.current = false;
     }
-  }, []);
+  }, [syncCollection, withPendingClients, withPendingReminders]);
 
   // Listen for auth state changes and load data when user logs in
   useEffect(() => {
@@ -125,7 +299,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
       if (user && !isInitialized && !isLoadingRef.current) {
         console.log('✅ User authenticated, loading data...');
         setIsInitialized(true);
-        loadAllData();
+        void hydrateFromCache().finally(loadAllData);
       } else if (!user) {
         // User logged out - reset state
         console.log('⚠️  User logged out, clearing data...');
@@ -138,64 +312,98 @@ export function DataProvider({ children }: { children: ReactNode }) {
         setLastFetchTime(null);
         setLoading(false);
         isLoadingRef.current = false;
+        hasCachedDataRef.current = false;
+        startupSyncDoneRef.current = false;
+        cursorsRef.current = EMPTY_CURSORS;
+        setCursors(EMPTY_CURSORS);
+        syncItemsRef.current = [];
+        setSyncItems([]);
+        void clearCachedCollections();
       }
     });
 
     return () => {
       unsubscribe();
     };
-  }, [isInitialized, loadAllData]);
+  }, [isInitialized, loadAllData, hydrateFromCache]);
+
+  // Keep the offline copy in step with what's on screen
+  useEffect(() => {
+    // Sealed: the device copy holds ciphertext, never values decrypted with the firm key
+    if (isInitialized) void saveCachedCollection('clients', clients.map(sealClient), cursors.clients);
+  }, [isInitialized, clients, cursors.clients]);
+
+  // Show or mask encrypted fields (and sealed queued notes) as the firm key is unlocked or locked
+  useEffect(() => {
+    const unsubscribe = subscribeToFirmKey(() => {
+      void reloadSyncItems();
+      void Promise.all(clientsRef.current.map((client) => refreshClientDecryption(client))).then(setClients);
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, [reloadSyncItems]);
 
-  // Refresh clients only - load ALL clients (no pagination)
+  useEffect(() => {
+    if (isInitialized) void saveCachedCollection('templates', templates, cursors.templates);
+  }, [isInitialized, templates, cursors.templates]);
+
+  useEffect(() => {
+    if (isInitialized) void saveCachedCollection('reminders', reminders, cursors.reminders);
+  }, [isInitialized, reminders, cursors.reminders]);
+
+  useEffect(() => {
+    if (isInitialized) void saveCachedCollection('appointments', appointments, cursors.appointments);
+  }, [isInitialized, appointments, cursors.appointments]);
+
+  // Refresh clients only - changes since the last sync (all clients on first load)
   const refreshClients = useCallback(async () => {
     try {
-      // Load all clients without pagination
-      const data = await api.getClients();
-      const clients = Array.isArray(data) ? data : (data.clients || []);
-      setClients(clients);
+      const count = await syncCollection('clients', () => api.getClients(), clientSchema, setClients, withPendingClients);
       setLastFetchTime(Date.now());
-      console.log(`✅ Clients refreshed: ${clients.length} clients`);
+      console.log(`✅ Clients refreshed: ${count} received`);
     } catch (error) {
       console.error('❌ Failed to refresh clients:', error);
     }
-  }, []);
+  }, [syncCollection, withPendingClients]);
 
-  // Refresh templates only - load ALL templates (no pagination)
+  // Refresh templates only
   const refreshTemplates = useCallback(async () => {
     try {
-      // Load all templates without pagination
-      const data = await api.getCaseTemplates();
-      const templates = Array.isArray(data) ? data : (data.templates || []);
-      setTemplates(templates);
+      const count = await syncCollection('templates', () => api.getCaseTemplates(), caseTemplateSchema, setTemplates);
       setLastFetchTime(Date.now());
-      console.log(`✅ Templates refreshed: ${templates.length} templates`);
+      console.log(`✅ Templates refreshed: ${count} received`);
     } catch (error) {
       console.error('❌ Failed to refresh templates:', error);
     }
-  }, []);
+  }, [syncCollection]);
 
   // Refresh reminders only
   const refreshReminders = useCallback(async () => {
     try {
-      const data = await api.getReminders();
-      setReminders(data);
+      const count = await syncCollection(
+        'reminders',
+        () => api.getReminders(),
+        reminderSchema,
+        setReminders,
+        withPendingReminders
+      );
       setLastFetchTime(Date.now());
-      console.log('✅ Reminders refreshed');
+      console.log(`✅ Reminders refreshed: ${count} received`);
     } catch (error) {
       console.error('❌ Failed to refresh reminders:', error);
     }
-  }, []);
+  }, [syncCollection, withPendingReminders]);
 
   const refreshAppointments = useCallback(async () => {
     try {
-      const data = await api.getAppointments();
-      setAppointments(Array.isArray(data) ? data : []);
+      const count = await syncCollection('appointments', () => api.getAppointments(), appointmentSchema, setAppointments);
       setLastFetchTime(Date.now());
-      console.log('✅ Appointments refreshed');
+      console.log(`✅ Appointments refreshed: ${count} received`);
     } catch (error) {
       console.error('❌ Failed to refresh appointments:', error);
     }
-  }, []);
+  }, [syncCollection]);
 
   const refreshTeamMembers = useCallback(async () => {
     try {
@@ -213,8 +421,47 @@ export function DataProvider({ children }: { children: ReactNode }) {
     await loadAllData();
   }, [loadAllData]);
 
-  // Invalidate cache (force refresh on next access)
+  // Live updates from other sessions
+  useEffect(() => {
+    if (!isInitialized) return;
+
+    // Catch up on changes pushed while the stream was down
+    const disconnect = connectRealtime({
+      onReconnect: () => {
+        void loadAllData();
+        setTeamTasksRevision((revision) => revision + 1);
+      },
+    });
+    const unsubscribe = subscribeToRealtime((event) => {
+      if (event.kind !== 'change') return;
+      switch (event.entity) {
+        case 'client':
+          // Records with encrypted fields go through the API client, which decrypts them
+          if (findEncryptedKeyIds(event.record).size > 0) void refreshClients();
+          else if (!applyRealtimeChange(setClients, event, clientSchema, withPendingClients)) void refreshClients();
+          break;
+        case 'reminder':
+          if (!applyRealtimeChange(setReminders, event, reminderSchema, withPendingReminders)) void refreshReminders();
+          break;
+        case 'appointment':
+          if (!applyRealtimeChange(setAppointments, event, appointmentSchema)) void refreshAppointments();
+          break;
+        case 'team_task':
+          setTeamTasksRevision((revision) => revision + 1);
+          break;
+      }
+    });
+
+    return () => {
+      unsubscribe();
+      disconnect();
+    };
+  }, [isInitialized, loadAllData, withPendingClients, withPendingReminders, refreshClients, refreshReminders, refreshAppointments]);
+
+  // Invalidate cache (force a full reload on next access)
   const invalidateCache = useCallback(() => {
+    cursorsRef.current = EMPTY_CURSORS;
+    setCursors(EMPTY_CURSORS);
     setLastFetchTime(null);
   }, []);
 
@@ -238,6 +485,90 @@ export function DataProvider({ children }: { children: ReactNode }) {
     return () => clearInterval(checkInterval);
   }, [isInitialized, lastFetchTime, isStale, loadAllData]);
 
+  const runMutation = useCallback(async (operation: OutboxOperation) => {
+    if (navigator.onLine) {
+      try {
+        await executeOperation(operation);
+        return { queued: false };
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+      }
+    }
+
+    // Remember which version we edited so replay can spot changes made by someone else meanwhile
+    let baseUpdatedAt: string | undefined;
+    if (operation.type === 'update_notes' || operation.type === 'add_payment') {
+      baseUpdatedAt = clientsRef.current.find((c) => c.id === operation.clientId)?.updated_at;
+    } else if (operation.type === 'update_reminder' || operation.type === 'delete_reminder') {
+      baseUpdatedAt = remindersRef.current.find((r) => r.id === operation.reminderId)?.updated_at;
+    }
+
+    await enqueueOperation(operation, baseUpdatedAt);
+    setClients((prev) => applyOperationToClients(prev, operation));
+    setReminders((prev) => applyOperationToReminders(prev, operation));
+    await reloadSyncItems();
+    console.log(`📥 Queued offline change: ${operation.type}`);
+    return { queued: true };
+  }, [reloadSyncItems]);
+
+  const replayAndRefresh = useCallback(async (options?: Parameters<typeof replayOutbox>[0]) => {
+    const synced = await replayOutbox(options);
+    await reloadSyncItems();
+    if (synced > 0) {
+      console.log(`✅ Synced ${synced} offline change(s)`);
+      // Reminders created offline come back from the server with real ids
+      const pendingIds = new Set(
+        syncItemsRef.current.flatMap((entry) => (entry.operation.type === 'create_reminder' ? [entry.operation.tempId] : []))
+      );
+      setReminders((prev) => prev.filter((reminder) => !isOfflineId(reminder.id) || pendingIds.has(reminder.id)));
+      await Promise.all([refreshClients(), refreshReminders()]);
+    }
+  }, [reloadSyncItems, refreshClients, refreshReminders]);
+
+  const syncNow = useCallback(async () => {
+    if (!navigator.onLine) return;
+    await replayAndRefresh();
+  }, [replayAndRefresh]);
+
+  const retrySyncItem = useCallback(async (id: string, force = false) => {
+    await replayAndRefresh({ ids: [id], forceIds: force ? [id] : [] });
+  }, [replayAndRefresh]);
+
+  const discardSyncItem = useCallback(async (id: string) => {
+    await discardOutboxEntry(id);
+    await reloadSyncItems();
+    // Drop the local-only version of the change: the server copy didn't change, so a delta wouldn't replace it
+    if (navigator.onLine) {
+      setCursor('clients', null);
+      setCursor('reminders', null);
+      await Promise.all([refreshClients(), refreshReminders()]);
+    }
+  }, [reloadSyncItems, setCursor, refreshClients, refreshReminders]);
+
+  // Replay the outbox whenever the connection comes back
+  useEffect(() => {
+    const handleOnline = () => {
+      setIsOnline(true);
+      void syncNow();
+    };
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [syncNow]);
+
+  // Changes queued in an earlier session go out once the first load has finished
+  useEffect(() => {
+    if (!isInitialized || !lastFetchTime || startupSyncDoneRef.current) return;
+    startupSyncDoneRef.current = true;
+    if (syncItemsRef.current.some((entry) => entry.status === 'pending')) {
+      void syncNow();
+    }
+  }, [isInitialized, lastFetchTime, syncNow]);
+
   const value: DataContextType = {
     clients,
     templates,
@@ -246,6 +577,7 @@ export function DataProvider({ children }: { children: ReactNode }) {
     teamMembers,
     loading,
     lastFetchTime,
+    teamTasksRevision,
     refreshClients,
     refreshTemplates,
     refreshReminders,
@@ -254,6 +586,12 @@ export function DataProvider({ children }: { children: ReactNode }) {
     refreshAll,
     invalidateCache,
     isStale,
+    isOnline,
+    syncItems,
+    runMutation,
+    syncNow,
+    retrySyncItem,
+    discardSyncItem,
   };
 
   return <DataContext.Provider value={value}>{children}</DataContext.Provider>;
@@ -0,0 +1,62 @@
+import { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { Permission, User } from '../types';
+import { api } from '../utils/api';
+import { onAuthChange } from '../utils/firebase';
+import { getUserPermissions } from '../utils/permissions';
+
+interface PermissionsContextType {
+  /** Null until /users/me has loaded, and after sign-out. */
+  currentUser: User | null;
+  permissions: Permission[];
+  can: (permission: Permission) => boolean;
+  /** Reload after the signed-in user's own role or permissions change. */
+  refreshCurrentUser: () => Promise<void>;
+}
+
+const PermissionsContext = createContext<PermissionsContextType | undefined>(undefined);
+
+export function PermissionsProvider({ children }: { children: ReactNode }) {
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+
+  const refreshCurrentUser = useCallback(async () => {
+    try {
+      setCurrentUser(await api.getCurrentUser());
+    } catch (error) {
+      console.error('Failed to load current user:', error);
+      setCurrentUser(null);
+    }
+  }, []);
+
+  useEffect(() => {
+    const unsubscribe = onAuthChange((user) => {
+      if (user) {
+        void refreshCurrentUser();
+      } else {
+        setCurrentUser(null);
+      }
+    });
+    return () => {
+      unsubscribe();
+    };
+  }, [refreshCurrentUser]);
+
+  const value = useMemo<PermissionsContextType>(() => {
+    const permissions = getUserPermissions(currentUser);
+    return {
+      currentUser,
+      permissions,
+      can: (permission) => permissions.includes(permission),
+      refreshCurrentUser,
+    };
+  }, [currentUser, refreshCurrentUser]);
+
+  return <PermissionsContext.Provider value={value}>{children}</PermissionsContext.Provider>;
+}
+
+export function usePermissions() {
+  const context = useContext(PermissionsContext);
+  if (context === undefined) {
+    throw new Error('usePermissions must be used within a PermissionsProvider');
+  }
+  return context;
+}
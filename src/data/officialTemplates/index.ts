@@ -12,6 +12,9 @@ export interface OfficialTemplatePreset {
   requiredDocuments: RequiredDocument[];
 }
 
+/** When the bundled catalog was scraped; recorded on imported templates as their catalog version. */
+export const OFFICIAL_CATALOG_VERSION: string = hojasData.scrapedAt;
+
 /** 69 hojas oficiales (1–69, sin Hoja 56; incluye 4 bis, 28 bis/ter, 35 bis, 55 bis; excluye 59–61 y 65 informativas) */
 export const OFFICIAL_HOJA_CATALOG_COUNT = hojasData.catalogCount ?? 69;
 
@@ -3,6 +3,7 @@ import ReactDOM from 'react-dom/client'
 import { BrowserRouter } from 'react-router-dom'
 import App from './App.tsx'
 import { DataProvider } from './context/DataContext.tsx'
+import { PermissionsProvider } from './context/PermissionsContext.tsx'
 import './index.css'
 import { registerConnectionListeners, registerServiceWorker } from './registerServiceWorker'
 
@@ -106,7 +107,9 @@ try {
     <ErrorBoundary>
       <BrowserRouter>
         <DataProvider>
-          <App />
+          <PermissionsProvider>
+            <App />
+          </PermissionsProvider>
         </DataProvider>
       </BrowserRouter>
     </ErrorBoundary>
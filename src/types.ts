@@ -7,10 +7,25 @@ export interface CaseTemplate {
   administrative_silence_days: number;
   /** YONA, LEDJANA, CAROLINA, MILAGROS, YUSTI */
   assigned_team_member?: string;
+  /** Bumped whenever `required_documents` changes. */
+  version?: number;
+  /** Every checklist version, oldest first (the last one matches `required_documents`). */
+  versions?: CaseTemplateVersion[];
+  /** Official hoja preset the template was imported from, e.g. "hoja-1". */
+  official_preset_id?: string;
+  /** `scrapedAt` of the hoja catalog the checklist was last synced with. */
+  official_catalog_version?: string;
   created_at: string;
   updated_at: string;
 }
 
+export interface CaseTemplateVersion {
+  version: number;
+  required_documents: RequiredDocument[];
+  created_at: string;
+  created_by?: string;
+}
+
 export interface RequiredDocument {
   code: string;
   name: string;
@@ -22,8 +37,46 @@ export interface RequiredDocument {
   fileSize?: number;
   isOptional?: boolean; // If true, document is optional for this client
   uploadedBy?: string; // Name of the user who uploaded the file
+  issuedAt?: string; // Issue date printed on the document (ISO date)
+  expiresAt?: string; // Expiry date printed on the document, or entered by staff (ISO date)
+  validityDays?: number; // How long the document is accepted after issue; set on the template
+  conditions?: DocumentCondition[]; // Set on the template; the document is only asked of clients matching all of them
+  sharedFrom?: SharedDocumentSource; // The file is another family member's upload, referenced rather than copied
+}
+
+export interface SharedDocumentSource {
+  clientId: string;
+  code: string;
+}
+
+export type DocumentConditionAttribute = 'age' | 'civil_status' | 'nationality' | 'relationship';
+
+/** A requirement on a client attribute, e.g. "age under 18" or "civil status in married". */
+export interface DocumentCondition {
+  attribute: DocumentConditionAttribute;
+  /** `under` / `at_least` compare the age; `in` / `not_in` compare the other attributes. */
+  operator: 'under' | 'at_least' | 'in' | 'not_in';
+  /** Age in years, for `under` / `at_least`. */
+  years?: number;
+  /** For `in` / `not_in`: civil statuses, relationships or ISO 3166-1 alpha-2 country codes. */
+  values?: string[];
 }
 
+export type FamilyRelation = 'spouse' | 'partner' | 'child' | 'parent' | 'sibling' | 'sponsor' | 'sponsored';
+
+/** `relation` is what the linked client is to this one, e.g. `sponsor` = the linked client is the reagrupante. */
+export interface FamilyLink {
+  client_id: string;
+  relation: FamilyRelation;
+  created_at: string;
+  created_by?: string;
+}
+
+export type CivilStatus = 'single' | 'married' | 'registered_partner' | 'separated' | 'divorced' | 'widowed';
+
+/** How the client relates to the main applicant of the case. */
+export type ClientRelationship = 'applicant' | 'spouse' | 'partner' | 'child' | 'parent' | 'other';
+
 export interface RequestedDocument {
   code: string;
   name: string;
@@ -46,8 +99,22 @@ export interface Client {
   email?: string;
   phone?: string;
   case_template_id?: string;
+  case_template_version?: number; // Template version the checklist was last copied from
   case_type?: string;
   details?: string;
+  date_of_birth?: string; // ISO date
+  civil_status?: CivilStatus;
+  nationality?: string; // ISO 3166-1 alpha-2, e.g. "MA"
+  relationship?: ClientRelationship;
+  nie?: string; // NIE or NIF/DNI, normalised without spaces or dashes
+  passport_number?: string;
+  passport_expiry?: string; // ISO date
+  address_line?: string; // Street, number, floor
+  postal_code?: string;
+  city?: string;
+  province?: string; // INE province code, e.g. "08"
+  /** Linked family members; every link is stored on both clients with the inverse relation. */
+  family_links?: FamilyLink[];
   required_documents: RequiredDocument[];
   reminder_interval_days: number;
   administrative_silence_days: number;
@@ -69,10 +136,58 @@ export interface Client {
   requerimiento?: AdditionalDocument[]; // REQUERIMIENTO documents
   resolucion?: AdditionalDocument[]; // RESOLUCIÓN documents
   justificante_presentacion?: AdditionalDocument[]; // JUSTIFICANTE DE PRESENTACION documents
+  /** Explicit case stage; when absent it is derived from the legacy flags (see utils/caseStage). */
+  case_stage?: CaseStage;
+  case_stage_history?: CaseStageChange[];
+  /** Blind-index tokens of the encrypted fields, so the server can search them (see utils/fieldEncryption). */
+  nie_bidx?: string[];
+  passport_number_bidx?: string[];
+  phone_bidx?: string[];
+  notes_bidx?: string[];
+  /** Client-side only: ciphertext of the fields decrypted in memory, put back before caching on the device. */
+  encrypted_values?: EncryptedClientValues;
+  /** Server revision, bumped on every write; sent back as If-Match for conditional updates. */
+  version?: number;
   created_at: string;
   updated_at: string;
 }
 
+/** Client fields encrypted in the browser when the firm enables field encryption. */
+export type EncryptedClientField = 'nie' | 'passport_number' | 'phone' | 'notes';
+
+export type EncryptedClientValues = Partial<Record<EncryptedClientField, string>>;
+
+/**
+ * The firm key, wrapped with a key derived from the firm passphrase. The server only ever
+ * holds the wrapped key; fields are encrypted and decrypted in the browser.
+ */
+export interface FieldEncryptionSettings {
+  enabled: boolean;
+  /** Prefixed to every ciphertext, so values from another key are recognised. */
+  key_id?: string;
+  kdf_salt?: string; // base64
+  kdf_iterations?: number;
+  wrapped_key?: string; // base64 of IV + AES-GCM ciphertext
+}
+
+export type CaseStage =
+  | 'intake'
+  | 'collecting_docs'
+  | 'ready_to_submit'
+  | 'submitted'
+  | 'requerimiento'
+  | 'resolution'
+  | 'appeal'
+  | 'closed';
+
+export interface CaseStageChange {
+  from: CaseStage | null;
+  to: CaseStage;
+  changedBy: string; // Name of the user who made the change
+  changedAt: string;
+  note?: string;
+}
+
 export interface PaymentInfo {
   totalFee: number;
   paidAmount: number;
@@ -80,6 +195,8 @@ export interface PaymentInfo {
 }
 
 export interface Payment {
+  /** Generated by the browser, so a payment replayed after a lost response isn't added twice. */
+  id?: string;
   amount: number;
   date: string;
   method: string;
@@ -111,18 +228,96 @@ export interface AdditionalDocument {
   created_at?: string; // When document entry was created
 }
 
+/** `user` is the pre-roles staff account, kept so older accounts keep working until reassigned. */
+export type UserRole = 'admin' | 'lawyer' | 'paralegal' | 'reception' | 'accountant' | 'auditor' | 'user';
+
+export type Permission =
+  | 'edit_clients'
+  | 'view_payments'
+  | 'edit_payments'
+  | 'delete_clients'
+  | 'manage_templates'
+  | 'manage_users'
+  | 'export_data';
+
 export interface User {
   id: string;
   firebase_uid: string;
   email: string;
   name?: string;
-  role: 'admin' | 'user';
+  role: UserRole;
+  /** Replaces the role's defaults for this user when set (see ROLE_PERMISSIONS). */
+  permissions?: Permission[];
+  /** Whether the user has set a personal PIN for unlocking payments (the PIN itself never leaves the server). */
+  has_payment_pin?: boolean;
+  /** Whether a TOTP second factor is enrolled, as reported by Firebase to the server. */
+  two_factor_enabled?: boolean;
   active: boolean;
   created_by?: string;
   created_at: string;
   updated_at: string;
 }
 
+/** A signed-in browser; ids come from utils/authSession. */
+export interface UserSession {
+  id: string;
+  device: string;
+  ip?: string;
+  location?: string;
+  created_at: string;
+  last_seen_at: string;
+}
+
+export interface SecuritySettings {
+  /**
+   * Admins without a TOTP factor must enrol one before using the app. The app only walks them
+   * through enrolment; the API itself must reject admin requests whose ID token lacks the
+   * `firebase.sign_in_second_factor` claim while this is on.
+   */
+  require_2fa_for_admins: boolean;
+}
+
+/** Months a case may sit in a stage before its client is due for purging. Stages without an entry are kept. */
+export interface RetentionPolicy {
+  retention_months: Partial<Record<CaseStage, number>>;
+}
+
+export type ErasureReason = 'data_subject_request' | 'retention_expired';
+
+/** What remains of an erased client: proof of the erasure, with nothing that identifies the person. */
+export interface ClientErasureRecord {
+  id: string;
+  client_id: string;
+  reason: ErasureReason;
+  case_stage: CaseStage;
+  files_deleted: number;
+  erased_by: string;
+  erased_at: string;
+}
+
+export type PaymentUnlockFeature = 'payments' | 'paytrack' | 'overview';
+
+/** `password` re-checks the Firebase password instead of the PIN. */
+export type PaymentUnlockMethod = 'pin' | 'password';
+
+export interface PaymentUnlockResult {
+  valid: boolean;
+  /** Attempts left before the server locks the PIN out; absent when there is no limit. */
+  attempts_remaining?: number;
+}
+
+/** One unlock or failed attempt, recorded by the server against the signed-in user. */
+export interface PaymentUnlockLogEntry {
+  id: string;
+  user_id: string;
+  user_email: string;
+  user_name?: string;
+  feature: PaymentUnlockFeature;
+  method: PaymentUnlockMethod;
+  success: boolean;
+  created_at: string;
+}
+
 export interface Reminder {
   id: string;
   client_id: string;
@@ -155,3 +350,147 @@ export interface Appointment {
   updated_at: string;
 }
 
+export type ClientActivityAction =
+  | 'stage_changed'
+  | 'template_changed'
+  | 'payment_added'
+  | 'payment_edited'
+  | 'payment_summary_edited'
+  | 'note_deleted'
+  | 'document_removed'
+  | 'document_reclassified'
+  | 'checklist_updated'
+  | 'family_linked'
+  | 'family_unlinked'
+  | 'document_shared'
+  | 'data_exported';
+
+export interface ClientActivity {
+  id: string;
+  client_id: string;
+  action: ClientActivityAction;
+  actor: string; // Name of the user who made the change
+  summary: string;
+  before?: unknown;
+  after?: unknown;
+  created_at: string;
+}
+
+/** Marker for a record deleted on the server, returned by `updated_since` queries. */
+export interface Tombstone {
+  id: string;
+  deleted_at: string;
+}
+
+/** Response shape of list endpoints queried with `updated_since`. */
+export interface DeltaResponse<T> {
+  updated: T[];
+  deleted: Tombstone[];
+  /** Cursor for the next request (server clock, so client clock skew doesn't matter). */
+  server_time: string;
+}
+
+export type RealtimeEntity = 'client' | 'reminder' | 'appointment' | 'team_task';
+
+/** Pushed over the realtime channel when another session changes shared data. */
+export interface RealtimeChangeEvent {
+  kind: 'change';
+  entity: RealtimeEntity;
+  action: 'upserted' | 'deleted';
+  id: string;
+  /** Full record for upserts when the server includes it; otherwise listeners fetch changes. */
+  record?: unknown;
+  actor?: string;
+  at: string;
+}
+
+/** Heartbeat from a user who has a client file open. */
+export interface RealtimePresenceEvent {
+  kind: 'presence';
+  client_id: string;
+  user: string;
+  editing: boolean;
+  at: string;
+}
+
+export type RealtimeEvent = RealtimeChangeEvent | RealtimePresenceEvent;
+
+/** Single-use pass for opening the event stream, issued in exchange for the ID token. */
+export interface RealtimeStreamTicket {
+  ticket: string;
+  expires_at: string;
+}
+
+export interface TeamTask {
+  id: string;
+  teamMember: string;
+  title: string;
+  notes?: string;
+  done: boolean;
+  createdAt: string;
+  updatedAt?: string;
+}
+
+export interface MonthlySummary {
+  totalClients: number;
+  totalPayments: number;
+  totalPaymentReceived: number;
+  totalAdvance: number;
+  totalDue: number;
+  totalRevenue: number;
+  clientsWhoPaid: number;
+}
+
+export interface MonthlyTrendPoint {
+  monthName: string;
+  totalRevenue: number;
+}
+
+export interface SmartUploadClassification {
+  documentCode: string | null;
+  documentName: string | null;
+  confidence: number;
+  method: 'keywords' | 'ocr' | 'gemini' | 'none' | string;
+  routedTo: 'required' | 'all_documents';
+  reason?: string;
+  ocrPreview?: string;
+}
+
+export interface SmartUploadResult {
+  summary: { total: number; succeeded: number; failed: number };
+  uploads: Array<{
+    fileName: string;
+    /** The upload id the file was sent under, so review can refile it. */
+    uploadId?: string;
+    success: boolean;
+    error?: string;
+    classification?: SmartUploadClassification;
+  }>;
+  /** Classification of the first file (older single-file responses only had this). */
+  classification?: SmartUploadClassification;
+}
+
+export interface DataImportCounts {
+  imported: number;
+  skipped: number;
+  errors: unknown[];
+}
+
+export interface DataImportResult {
+  message: string;
+  results: {
+    clients: DataImportCounts;
+    users: DataImportCounts;
+    templates: DataImportCounts;
+  };
+}
+
+/** A resumable upload on the server; `offset` is how many bytes it has acknowledged. */
+export interface UploadSession {
+  upload_id: string;
+  size: number;
+  offset: number;
+  /** Chunk size the server prefers, if it has one. */
+  chunk_size?: number;
+  expires_at?: string;
+}
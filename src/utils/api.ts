@@ -1,10 +1,101 @@
-import type { Client } from '../types';
+import type {
+  Appointment,
+  CaseStage,
+  CaseTemplate,
+  CaseTemplateVersion,
+  CivilStatus,
+  Client,
+  ClientActivity,
+  ClientActivityAction,
+  ClientErasureRecord,
+  ClientRelationship,
+  DataImportResult,
+  FamilyLink,
+  FamilyRelation,
+  FieldEncryptionSettings,
+  DeltaResponse,
+  ErasureReason,
+  MonthlySummary,
+  MonthlyTrendPoint,
+  PaymentUnlockFeature,
+  PaymentUnlockLogEntry,
+  PaymentUnlockMethod,
+  PaymentUnlockResult,
+  Permission,
+  Reminder,
+  RequiredDocument,
+  RetentionPolicy,
+  SecuritySettings,
+  SmartUploadClassification,
+  SmartUploadResult,
+  TeamTask,
+  UploadSession,
+  User,
+  UserRole,
+  UserSession,
+} from '../types';
+import {
+  appointmentSchema,
+  caseTemplateSchema,
+  clientActivitySchema,
+  clientErasureRecordSchema,
+  clientSchema,
+  createdCollectionDocumentSchema,
+  dataImportResultSchema,
+  deltaSchema,
+  fieldEncryptionSettingsSchema,
+  monthlySummarySchema,
+  monthlyTrendPointSchema,
+  paymentUnlockLogEntrySchema,
+  paymentUnlockResultSchema,
+  realtimeStreamTicketSchema,
+  reminderSchema,
+  retentionPolicySchema,
+  securitySettingsSchema,
+  smartUploadResultSchema,
+  teamTaskSchema,
+  uploadSessionSchema,
+  userSchema,
+  userSessionSchema,
+} from './apiSchemas';
+import { SESSION_ID_HEADER, SESSION_REVOKED_HEADER, describeDevice, getSessionId, notifySessionRevoked } from './authSession';
+import { CASE_STAGE_LABELS, buildCaseStageTransition } from './caseStage';
+import { ChunkedUpload, ChunkedUploadOptions, UploadChunkError, UploadProgress, UploadTransport } from './chunkedUpload';
+import { DeltaResource } from './deltaSync';
+import { DOCUMENT_COLLECTIONS, DocumentCollectionKind } from './documentCollections';
+import { DocumentExpiry, getDocumentsExpiredOn } from './documentExpiry';
+import {
+  ENCRYPTED_CLIENT_FIELDS,
+  decryptClient,
+  encryptClientFields,
+  findEncryptedKeyIds,
+  getFirmKeyId,
+  getSearchTokens,
+  isFirmKeyUnlocked,
+  isPlaintextSearchable,
+} from './fieldEncryption';
+import {
+  FAMILY_RELATION_LABELS,
+  INVERSE_FAMILY_RELATION,
+  buildSharedDocument,
+  clearSharedDocument,
+  withFamilyLink,
+  withoutFamilyLink,
+} from './familyLinks';
 import { sumPaidPaymentAmount } from './paymentTotals';
+import { measureApiCall } from './performance';
+import { REQUIRED_PERMISSION_HEADER, getEndpointPermission } from './permissions';
+import { RequestOptions, RequestTimeoutError, UPLOAD_TIMEOUT, getRequestEndpoint, request as sendRequest } from './request';
+import { Schema, list, parseResponse, record, string, unknown } from './schema';
+import { SmartUploadPlacement, getDetectedPlacement, isSamePlacement } from './smartUploadReview';
+import { TemplatePropagationPlan, getTemplateVersion, planChangesCount, planTemplatePropagation } from './templateVersions';
 
 // Use environment variable in production, relative path in development
 // Remove trailing slash to prevent double slashes in URLs
 const baseApiUrl = (import.meta.env.VITE_API_URL || '/api').replace(/\/+$/, '');
 const API_URL = baseApiUrl;
+// Realtime channel (SSE stream + presence); point at scripts/mock-realtime-server.mjs for local testing
+const REALTIME_URL = (import.meta.env.VITE_REALTIME_URL || `${API_URL}/realtime`).replace(/\/+$/, '');
 
 // Helper function to get auth headers
 // includeContentType: Set to false for GET/DELETE requests that don't have a body
@@ -29,6 +120,7 @@ async function getAuthHeaders(includeContentType: boolean = true): Promise<Heade
     const token = await getIdToken();
     if (token) {
       headers['Authorization'] = `Bearer ${token}`;
+      headers[SESSION_ID_HEADER] = getSessionId();
     } else {
       console.error('❌ Failed to get ID token. User may not be authenticated.');
       throw new Error('Failed to get authentication token. Please log in again.');
@@ -42,6 +134,23 @@ async function getAuthHeaders(includeContentType: boolean = true): Promise<Heade
   return headers;
 }
 
+/**
+ * The shared request pipeline, naming the permission the endpoint needs so the server can enforce it,
+ * and signing the app out when the server reports this browser's session was revoked.
+ */
+async function request(endpoint: string, url: string, init: RequestInit = {}, options?: RequestOptions): Promise<Response> {
+  const permission = getEndpointPermission(endpoint);
+  // A permission the caller already named (e.g. edit_payments for payment updates) wins
+  const headers = permission
+    ? { [REQUIRED_PERMISSION_HEADER]: permission, ...(init.headers as Record<string, string>) }
+    : init.headers;
+  const response = await sendRequest(endpoint, url, { ...init, headers }, options);
+  if (response.status === 401 && response.headers.get(SESSION_REVOKED_HEADER)) {
+    notifySessionRevoked();
+  }
+  return response;
+}
+
 async function getApiErrorMessage(response: Response, fallback: string): Promise<string> {
   try {
     const text = await response.text();
@@ -61,8 +170,272 @@ async function getApiErrorMessage(response: Response, fallback: string): Promise
   return `${fallback} (${response.status} ${response.statusText})`;
 }
 
+/** Parse a JSON body and check it against the schema; drift throws ApiSchemaError (see ./schema). */
+async function readResponse<T>(response: Response, schema: Schema<T>): Promise<T> {
+  return parseResponse(getRequestEndpoint(response), schema, await response.json());
+}
+
+/** A client response with its encrypted fields decrypted (see utils/fieldEncryption). */
+async function readClient(response: Response): Promise<Client> {
+  return decryptClient(await readResponse(response, clientSchema));
+}
+
+let fieldEncryptionSettings: Promise<FieldEncryptionSettings> | null = null;
+
+/**
+ * The firm's field-encryption settings, loaded once per page. Writes wait for them, so a
+ * sensitive field is never sent in plaintext because the settings hadn't loaded yet.
+ */
+function loadFieldEncryptionSettings(): Promise<FieldEncryptionSettings> {
+  if (!fieldEncryptionSettings) {
+    fieldEncryptionSettings = (async () => {
+      const headers = await getAuthHeaders(false);
+      const response = await request('GET /settings/encryption', `${API_URL}/settings/encryption`, { method: 'GET', headers });
+      // Backends from before field encryption don't have the endpoint
+      if (response.status === 404) return { enabled: false };
+      if (!response.ok) {
+        throw new Error(await getApiErrorMessage(response, 'Failed to load encryption settings'));
+      }
+      return readResponse(response, fieldEncryptionSettingsSchema);
+    })();
+    fieldEncryptionSettings.catch(() => {
+      fieldEncryptionSettings = null;
+    });
+  }
+  return fieldEncryptionSettings;
+}
+
+/**
+ * Whether encrypted client fields must stay out of other payloads (reminders, activity).
+ * Fails closed: if the settings can't be loaded, assume encryption is on.
+ */
+function isFieldEncryptionEnabled(): Promise<boolean> {
+  return loadFieldEncryptionSettings().then(
+    (settings) => settings.enabled,
+    () => true
+  );
+}
+
+/** Reminders are stored in plaintext, so with field encryption on they don't carry the client's phone. */
+async function withoutEncryptedReminderFields<T extends { phone?: string }>(data: T): Promise<T> {
+  if (data.phone === undefined || !(await isFieldEncryptionEnabled())) return data;
+  const { phone: _phone, ...rest } = data;
+  return rest as T;
+}
+
+/** Encrypts the sensitive fields of a client update when the firm has field encryption on. */
+async function encryptClientUpdate<T extends Partial<Record<keyof Client, unknown>>>(data: T): Promise<T> {
+  if (!ENCRYPTED_CLIENT_FIELDS.some((field) => data[field] !== undefined && data[field] !== null)) {
+    return encryptClientFields(data, null);
+  }
+  return encryptClientFields(data, await loadFieldEncryptionSettings());
+}
+
+/** The client was changed on the server since it was loaded; `current` is the server copy. */
+export class ClientConflictError extends Error {
+  constructor(public readonly current: Client) {
+    super('This client was changed by someone else while you were editing.');
+    this.name = 'ClientConflictError';
+  }
+}
+
+/** Submission refused because checklist documents will be stale on the filing date. */
+export class ExpiredDocumentsError extends Error {
+  constructor(public readonly expired: DocumentExpiry[]) {
+    super(`Expired on the filing date: ${expired.map((expiry) => expiry.document.name).join(', ')}`);
+    this.name = 'ExpiredDocumentsError';
+  }
+}
+
+/** Token for If-Match: the revision counter when the backend sends one, else `updated_at`. */
+export function getClientVersion(client: Pick<Client, 'version' | 'updated_at'>): string {
+  return client.version !== undefined ? String(client.version) : client.updated_at;
+}
+
+export interface ConditionalUpdateOptions {
+  /** Only apply the update if the server copy still has this version (see getClientVersion). */
+  ifMatch?: string;
+}
+
+/** Body of POST /clients; the create endpoint takes camelCase fields. */
+export interface CreateClientInput {
+  firstName: string;
+  lastName: string;
+  fileName?: string;
+  parentName?: string;
+  email?: string;
+  phone?: string;
+  caseTemplateId?: string;
+  caseTemplateVersion?: number;
+  /** Checklist to start with; without it the backend copies the template's full list. */
+  requiredDocuments?: RequiredDocument[];
+  totalFee?: number;
+  details?: string;
+  dateOfBirth?: string;
+  civilStatus?: CivilStatus;
+  nationality?: string;
+  relationship?: ClientRelationship;
+  nie?: string;
+  passportNumber?: string;
+  passportExpiry?: string;
+  addressLine?: string;
+  postalCode?: string;
+  city?: string;
+  province?: string;
+  /** Blind indexes of the fields above when they are sent encrypted. */
+  blindIndexes?: Pick<Client, 'nie_bidx' | 'passport_number_bidx' | 'phone_bidx'>;
+}
+
+/**
+ * Body of PUT /clients/:id: any subset of client fields, `null` clears one.
+ * `replacePayments` swaps the payment list instead of appending to it.
+ */
+export type ClientUpdate = {
+  [K in Exclude<keyof Client, 'id' | 'created_at' | 'updated_at'>]?: Client[K] | null;
+} & { replacePayments?: boolean };
+
+/** Body of POST/PUT /case-templates. */
+export interface CaseTemplateInput {
+  name: string;
+  description?: string;
+  requiredDocuments: RequiredDocument[];
+  reminderIntervalDays: number;
+  administrativeSilenceDays: number;
+  assignedTeamMember?: string | null;
+  version?: number;
+  versions?: CaseTemplateVersion[];
+  officialPresetId?: string;
+  officialCatalogVersion?: string;
+}
+
+async function getUploadAuthHeaders(): Promise<Record<string, string>> {
+  const token = await (await import('./firebase.js')).getIdToken();
+  return token ? { Authorization: `Bearer ${token}` } : {};
+}
+
+/** PATCH one chunk. XMLHttpRequest rather than fetch, since only XHR reports upload progress. */
+function sendUploadChunk(
+  uploadId: string,
+  offset: number,
+  chunk: Blob,
+  onProgress: (loaded: number) => void,
+  signal: AbortSignal
+): Promise<UploadSession> {
+  const endpoint = 'PATCH /uploads/:id';
+  return measureApiCall(endpoint, async () => {
+    const headers = await getUploadAuthHeaders();
+    return new Promise<UploadSession>((resolve, reject) => {
+      if (signal.aborted) {
+        reject(new DOMException('The upload was cancelled', 'AbortError'));
+        return;
+      }
+      const xhr = new XMLHttpRequest();
+      const abort = () => xhr.abort();
+      xhr.open('PATCH', `${API_URL}/uploads/${uploadId}`);
+      xhr.timeout = UPLOAD_TIMEOUT;
+      Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+      xhr.setRequestHeader('Content-Type', 'application/offset+octet-stream');
+      xhr.setRequestHeader('Upload-Offset', String(offset));
+      xhr.upload.onprogress = (event) => onProgress(event.loaded);
+      xhr.onload = () => {
+        signal.removeEventListener('abort', abort);
+        let body: unknown = null;
+        try {
+          body = JSON.parse(xhr.responseText);
+        } catch {
+          // error pages aren't JSON
+        }
+        if (xhr.status < 200 || xhr.status >= 300) {
+          const message = (body as { error?: string } | null)?.error || `Chunk upload failed (${xhr.status})`;
+          reject(new UploadChunkError(xhr.status, message));
+          return;
+        }
+        try {
+          resolve(parseResponse(endpoint, uploadSessionSchema, body));
+        } catch (error) {
+          reject(error);
+        }
+      };
+      xhr.onerror = () => {
+        signal.removeEventListener('abort', abort);
+        reject(new UploadChunkError(0, 'Network error while uploading'));
+      };
+      xhr.ontimeout = () => {
+        signal.removeEventListener('abort', abort);
+        reject(new RequestTimeoutError(endpoint, UPLOAD_TIMEOUT));
+      };
+      xhr.onabort = () => reject(new DOMException('The upload was cancelled', 'AbortError'));
+      signal.addEventListener('abort', abort, { once: true });
+      xhr.send(chunk);
+    });
+  });
+}
+
+/** Resumable upload endpoints: POST /uploads opens an upload, PATCH appends, GET reports the offset. */
+const uploadTransport: UploadTransport = {
+  async create(file) {
+    const headers = await getAuthHeaders();
+    const response = await request('POST /uploads', `${API_URL}/uploads`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ file_name: file.name, size: file.size, mime_type: file.type || undefined }),
+    });
+    if (!response.ok) {
+      throw new Error(await getApiErrorMessage(response, 'Failed to start upload'));
+    }
+    return readResponse(response, uploadSessionSchema);
+  },
+
+  async status(uploadId) {
+    const headers = await getAuthHeaders(false);
+    const response = await request('GET /uploads/:id', `${API_URL}/uploads/${uploadId}`, { headers });
+    if (response.status === 404 || response.status === 410) return null;
+    if (!response.ok) {
+      throw new Error(await getApiErrorMessage(response, 'Failed to check upload'));
+    }
+    return readResponse(response, uploadSessionSchema);
+  },
+
+  sendChunk: sendUploadChunk,
+};
+
+/**
+ * Save a family link change on both clients. If the second write fails the first is undone, so
+ * neither client is left showing a one-sided link; if that fails too, the error names the client
+ * that kept the change.
+ */
+async function updateFamilyLinksOnBoth(client: Client, clientLinks: FamilyLink[], other: Client, otherLinks: FamilyLink[]) {
+  const updated = await api.updateClient(client.id, { family_links: clientLinks }, { ifMatch: getClientVersion(client) });
+  try {
+    await api.updateClient(other.id, { family_links: otherLinks }, { ifMatch: getClientVersion(other) });
+  } catch (error) {
+    try {
+      await api.updateClient(client.id, { family_links: client.family_links || [] }, { ifMatch: getClientVersion(updated) });
+    } catch (revertError) {
+      console.error('❌ Failed to undo family link change:', revertError);
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(
+        `${client.first_name} ${client.last_name}'s family was changed but ${other.first_name} ${other.last_name}'s was not (${reason}). ` +
+          'Check the family links of both clients.'
+      );
+    }
+    throw error;
+  }
+  return updated;
+}
+
+/** Upload a file in chunks and return the upload id the attach endpoints take. */
+function uploadFile(file: File, onProgress?: (progress: UploadProgress) => void): Promise<string> {
+  return new ChunkedUpload(file, uploadTransport, { onProgress }).start();
+}
+
 export const api = {
-  async getCaseTemplates(limit?: number, offset?: number, search?: string) {
+  /** A resumable upload the caller can pause, resume and watch; attach it with its upload id. */
+  startChunkedUpload(file: File, options?: ChunkedUploadOptions): ChunkedUpload {
+    return new ChunkedUpload(file, uploadTransport, options);
+  },
+
+  async getCaseTemplates(limit?: number, offset?: number, search?: string, options?: RequestOptions): Promise<CaseTemplate[]> {
     const headers = await getAuthHeaders(false);
     const params = new URLSearchParams();
     if (limit !== undefined) params.append('limit', limit.toString());
@@ -70,9 +443,9 @@ export const api = {
     if (search !== undefined && search.trim()) params.append('search', search.trim());
     
     const url = `${API_URL}/case-templates${params.toString() ? `?${params.toString()}` : ''}`;
-    const response = await fetch(url, {
+    const response = await request('GET /case-templates', url, {
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to fetch templates' }));
       console.error('❌ getCaseTemplates error:', {
@@ -82,12 +455,12 @@ export const api = {
       });
       throw new Error(error.error || error.message || `Failed to fetch templates: ${response.status} ${response.statusText}`);
     }
-    return response.json();
+    return readResponse(response, list('templates', caseTemplateSchema));
   },
 
-  async createCaseTemplate(data: any) {
+  async createCaseTemplate(data: CaseTemplateInput): Promise<CaseTemplate> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/case-templates`, {
+    const response = await request('POST /case-templates', `${API_URL}/case-templates`, {
       method: 'POST',
       headers,
       body: JSON.stringify(data),
@@ -96,42 +469,51 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to create template' }));
       throw new Error(error.error || error.details || 'Failed to create template');
     }
-    return response.json();
+    return readResponse(response, caseTemplateSchema);
   },
 
-  async updateCaseTemplate(id: string, data: any) {
+  async updateCaseTemplate(id: string, data: Partial<CaseTemplateInput>): Promise<CaseTemplate> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/case-templates/${id}`, {
+    const response = await request('PUT /case-templates/:id', `${API_URL}/case-templates/${id}`, {
       method: 'PUT',
       headers,
       body: JSON.stringify(data),
     });
     if (!response.ok) throw new Error('Failed to update template');
-    return response.json();
+    return readResponse(response, caseTemplateSchema);
   },
 
-  async deleteCaseTemplate(id: string) {
+  async deleteCaseTemplate(id: string): Promise<void> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/case-templates/${id}`, {
+    const response = await request('DELETE /case-templates/:id', `${API_URL}/case-templates/${id}`, {
       method: 'DELETE',
       headers,
     });
     if (!response.ok) throw new Error('Failed to delete template');
-    return response.json();
   },
 
-  async getClients(limit?: number, offset?: number, search?: string) {
+  async getClients(limit?: number, offset?: number, search?: string, options?: RequestOptions): Promise<Client[]> {
     try {
       const headers = await getAuthHeaders(false);
       const params = new URLSearchParams();
       if (limit !== undefined) params.append('limit', limit.toString());
       if (offset !== undefined) params.append('offset', offset.toString());
-      if (search !== undefined && search.trim()) params.append('search', search.trim());
+      if (search !== undefined && search.trim()) {
+        const query = search.trim();
+        // Encrypted fields can only be matched through their blind indexes, and an identifier
+        // typed into the search must not reach the URL (and the server logs) in plaintext
+        const sendPlaintext = isPlaintextSearchable(query) || !(await isFieldEncryptionEnabled());
+        if (sendPlaintext) params.append('search', query);
+        const tokens = await getSearchTokens(query);
+        if (tokens.length > 0) params.append('search_tokens', tokens.join(','));
+        // Locked firm key: nothing to search with, and an unfiltered request would list everyone
+        if (!sendPlaintext && tokens.length === 0) return [];
+      }
       
       const url = `${API_URL}/clients${params.toString() ? `?${params.toString()}` : ''}`;
-      const response = await fetch(url, {
+      const response = await request('GET /clients', url, {
         headers,
-      });
+      }, options);
       if (!response.ok) {
         const error = await response.json().catch(() => ({ error: 'Failed to fetch clients' }));
         console.error('❌ getClients error:', {
@@ -141,7 +523,8 @@ export const api = {
         });
         throw new Error(error.error || error.message || `Failed to fetch clients: ${response.status} ${response.statusText}`);
       }
-      return response.json();
+      const clients = await readResponse(response, list('clients', clientSchema));
+      return Promise.all(clients.map((client) => decryptClient(client)));
     } catch (error: any) {
       if (error.message.includes('Authentication') || error.message.includes('log in')) {
         throw error; // Re-throw auth errors
@@ -150,53 +533,109 @@ export const api = {
     }
   },
 
-  async getClient(id: string) {
+  /** Records of a list endpoint created, changed or deleted after `updatedSince` (a previous `server_time`). */
+  async getChanges<T>(resource: DeltaResource, updatedSince: string, item: Schema<T>, options?: RequestOptions): Promise<DeltaResponse<T>> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${encodeURIComponent(id)}`, {
+    const params = new URLSearchParams({ updated_since: updatedSince });
+    const response = await request(`GET /${resource}?updated_since`, `${API_URL}/${resource}?${params.toString()}`, {
       headers,
-    });
+    }, options);
+    if (!response.ok) {
+      throw new Error(await getApiErrorMessage(response, `Failed to fetch ${resource} changes`));
+    }
+    const delta = await readResponse(response, deltaSchema(item));
+    if (resource !== 'clients') return delta;
+    const updated = await Promise.all(delta.updated.map((client) => decryptClient(client as Client)));
+    return { ...delta, updated: updated as T[] };
+  },
+
+  async getClient(id: string, options?: RequestOptions): Promise<Client> {
+    const headers = await getAuthHeaders(false);
+    const response = await request('GET /clients/:id', `${API_URL}/clients/${encodeURIComponent(id)}`, {
+      headers,
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to fetch client' }));
       throw new Error(error.error || `Failed to fetch client: ${response.status} ${response.statusText}`);
     }
-    return response.json();
+    return readClient(response);
   },
 
-  async createClient(data: any) {
+  async createClient(data: CreateClientInput): Promise<Client> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients`, {
+    const sensitive: Partial<Client> = { nie: data.nie, passport_number: data.passportNumber, phone: data.phone };
+    const { nie_bidx, passport_number_bidx, phone_bidx, ...encrypted } = await encryptClientUpdate(sensitive);
+    const body: CreateClientInput = {
+      ...data,
+      nie: encrypted.nie,
+      passportNumber: encrypted.passport_number,
+      phone: encrypted.phone,
+      blindIndexes: nie_bidx || passport_number_bidx || phone_bidx ? { nie_bidx, passport_number_bidx, phone_bidx } : undefined,
+    };
+    const response = await request('POST /clients', `${API_URL}/clients`, {
       method: 'POST',
       headers,
-      body: JSON.stringify(data),
+      body: JSON.stringify(body),
     });
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to create client' }));
       throw new Error(error.error || error.message || 'Failed to create client');
     }
-    return response.json();
+    return readClient(response);
   },
 
-  async updateClient(id: string, data: any) {
+  async updateClient(id: string, data: ClientUpdate, options?: ConditionalUpdateOptions): Promise<Client> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${id}`, {
+    if (options?.ifMatch) {
+      (headers as Record<string, string>)['If-Match'] = `"${options.ifMatch}"`;
+    }
+    if (data.payment !== undefined) {
+      (headers as Record<string, string>)[REQUIRED_PERMISSION_HEADER] = 'edit_payments';
+    }
+    const response = await request('PUT /clients/:id', `${API_URL}/clients/${id}`, {
       method: 'PUT',
       headers,
-      body: JSON.stringify(data),
+      body: JSON.stringify(await encryptClientUpdate(data)),
     });
+    if (response.status === 409 || response.status === 412) {
+      // Backend includes the current record; fall back to fetching it
+      const body = await response.json().catch(() => null);
+      const current = body?.current || body?.client;
+      throw new ClientConflictError(
+        current ? await decryptClient(parseResponse('PUT /clients/:id (conflict)', clientSchema, current)) : await this.getClient(id)
+      );
+    }
     if (!response.ok) throw new Error('Failed to update client');
-    return response.json();
+    return readClient(response);
   },
 
-  async updateClientPayment(clientId: string, payment: Client['payment'], replacePayments = false) {
-    return this.updateClient(clientId, {
-      payment,
-      replacePayments,
-    });
+  async updateClientPayment(
+    clientId: string,
+    payment: Client['payment'],
+    replacePayments = false,
+    options?: ConditionalUpdateOptions
+  ) {
+    return this.updateClient(
+      clientId,
+      {
+        payment,
+        replacePayments,
+      },
+      options
+    );
   },
 
-  async uploadDocument(clientId: string, documentCode: string, file: File, userName: string) {
+  async uploadDocument(
+    clientId: string,
+    documentCode: string,
+    file: File,
+    userName: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<Client> {
+    const uploadId = await uploadFile(file, onProgress);
     const formData = new FormData();
-    formData.append('file', file);
+    formData.append('upload_id', uploadId);
+    formData.append('fileName', file.name);
     formData.append('userName', userName);
 
     const token = await (await import('./firebase.js')).getIdToken();
@@ -205,7 +644,7 @@ export const api = {
       headers['Authorization'] = `Bearer ${token}`;
     }
 
-    const response = await fetch(`${API_URL}/clients/${clientId}/documents/${documentCode}`, {
+    const response = await request('POST /clients/:id/documents/:code', `${API_URL}/clients/${clientId}/documents/${documentCode}`, {
       method: 'POST',
       headers,
       body: formData,
@@ -216,48 +655,26 @@ export const api = {
       throw new Error(error.error || 'Failed to upload document');
     }
 
-    return response.json();
+    return readClient(response);
   },
 
-  /** Auto-detect document type(s) and route to required checklist or All Documents */
+  /**
+   * Auto-detect document type(s) and route to required checklist or All Documents.
+   * Takes finished uploads (see startChunkedUpload) so large scans don't ride in one request.
+   */
   async smartUploadDocuments(
     clientId: string,
-    files: File[],
+    uploads: Array<{ uploadId: string; fileName: string }>,
     userName: string
-  ): Promise<{
-    summary: { total: number; succeeded: number; failed: number };
-    uploads: Array<{
-      fileName: string;
-      success: boolean;
-      error?: string;
-      classification?: {
-        documentCode: string | null;
-        documentName: string | null;
-        confidence: number;
-        method: 'keywords' | 'ocr' | 'gemini' | 'none' | string;
-        routedTo: 'required' | 'all_documents';
-        reason?: string;
-        ocrPreview?: string;
-      };
-    }>;
-    classification: {
-      documentCode: string | null;
-      documentName: string | null;
-      confidence: number;
-      method: string;
-      routedTo: 'required' | 'all_documents';
-      reason?: string;
-      ocrPreview?: string;
-    };
-    [key: string]: unknown;
-  }> {
-    if (!files.length) {
+  ): Promise<SmartUploadResult> {
+    if (!uploads.length) {
       throw new Error('No files selected');
     }
 
     const formData = new FormData();
-    for (const file of files) {
-      formData.append('files', file);
+    for (const upload of uploads) {
+      formData.append('upload_ids', upload.uploadId);
+      formData.append('fileNames', upload.fileName);
     }
     formData.append('userName', userName);
 
@@ -267,7 +684,7 @@ export const api = {
       headers['Authorization'] = `Bearer ${token}`;
     }
 
-    const response = await fetch(`${API_URL}/clients/${clientId}/smart-upload`, {
+    const response = await request('POST /clients/:id/smart-upload', `${API_URL}/clients/${clientId}/smart-upload`, {
       method: 'POST',
       headers,
       body: formData,
@@ -279,25 +696,57 @@ export const api = {
       throw new Error(data.error || 'Smart upload failed');
     }
 
-    if (data.summary?.failed > 0 && data.summary?.succeeded === 0) {
-      const detail =
-        (data.uploads as Array<{ fileName: string; error?: string }> | undefined)
-          ?.map((u) => `${u.fileName}: ${u.error || 'failed'}`)
-          .join('; ') || data.error;
+    const result = parseResponse('POST /clients/:id/smart-upload', smartUploadResultSchema, data);
+    if (result.summary.failed > 0 && result.summary.succeeded === 0) {
+      const detail = result.uploads.map((u) => `${u.fileName}: ${u.error || 'failed'}`).join('; ') || data.error;
       throw new Error(detail || 'Smart upload failed');
     }
 
-    return data;
+    return result;
   },
 
-  /** @deprecated Use smartUploadDocuments — kept for single-file callers */
-  async smartUploadDocument(clientId: string, file: File, userName: string) {
-    return this.smartUploadDocuments(clientId, [file], userName);
+  /**
+   * Confirm or refile a smart-uploaded file. The backend moves the file and keeps the
+   * detected-vs-chosen pair, so classifier accuracy can be measured from real corrections.
+   */
+  async reviewSmartUpload(
+    clientId: string,
+    review: {
+      uploadId: string;
+      fileName: string;
+      detected: SmartUploadClassification;
+      placement: SmartUploadPlacement;
+      reviewedBy: string;
+    }
+  ): Promise<Client> {
+    const headers = await getAuthHeaders();
+    const response = await request('POST /clients/:id/smart-upload/review', `${API_URL}/clients/${clientId}/smart-upload/review`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        upload_id: review.uploadId,
+        file_name: review.fileName,
+        detected: review.detected,
+        placement: review.placement,
+        corrected: !isSamePlacement(getDetectedPlacement(review.detected), review.placement),
+        reviewed_by: review.reviewedBy,
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(await getApiErrorMessage(response, 'Failed to file document'));
+    }
+    return readClient(response);
   },
 
-  async addPayment(clientId: string, amount: number, method: string, note?: string, date?: string) {
+  /**
+   * Append a payment. Pass the same `id` when retrying: if the earlier attempt was saved after
+   * all, nothing is added. Throws ClientConflictError if the client changes while appending.
+   */
+  async addPayment(clientId: string, amount: number, method: string, note?: string, date?: string, id?: string) {
     const client = await this.getClient(clientId);
+    if (id && client.payment.payments?.some((payment) => payment.id === id)) return client;
     const newPayment = {
+      id,
       amount,
       date: date ? new Date(date).toISOString() : new Date().toISOString(),
       method,
@@ -308,71 +757,35 @@ export const api = {
     const updatedPayments = [...(client.payment.payments || []), newPayment];
     const newPaidAmount = sumPaidPaymentAmount(updatedPayments);
 
-    return this.updateClient(clientId, {
-      payment: {
-        ...client.payment,
-        paidAmount: newPaidAmount,
-        payments: updatedPayments,
+    return this.updateClient(
+      clientId,
+      {
+        payment: {
+          ...client.payment,
+          paidAmount: newPaidAmount,
+          payments: updatedPayments,
+        },
       },
-    });
+      { ifMatch: getClientVersion(client) }
+    );
   },
 
-  async updateNotes(clientId: string, notes: string) {
-    return this.updateClient(clientId, { notes });
+  async updateNotes(clientId: string, notes: string, options?: ConditionalUpdateOptions) {
+    return this.updateClient(clientId, { notes }, options);
   },
 
-  async uploadAdditionalDocument(
-    clientId: string,
-    name: string,
-    description: string,
-    file: File,
-    userName: string,
-    options?: { allDocumentsSection?: boolean; reminderDays?: number }
-  ) {
-    const formData = new FormData();
-    // Non-file fields MUST be appended before the file — @fastify/busboy parses in order;
-    // fields after the file can fail to bind when the file is consumed first.
-    formData.append('name', name);
-    formData.append('fileName', file.name);
-    formData.append('userName', userName);
-    formData.append('reminder_days', String(options?.reminderDays ?? 10));
-    if (description) {
-      formData.append('description', description);
-    }
-    if (options?.allDocumentsSection) {
-      formData.append('all_documents_section', 'true');
-    }
-    formData.append('file', file);
-
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-
-    const response = await fetch(`${API_URL}/clients/${clientId}/additional-documents`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
-
-    if (!response.ok) {
-      throw new Error(await getApiErrorMessage(response, 'Failed to upload additional document'));
-    }
-
-    return response.json();
-  },
-
-  async createAdditionalDocument(
+  // Document collections (additional documents, APORTAR DOCUMENTACIÓN, REQUERIMIENTO, RESOLUCIÓN, JUSTIFICANTE)
+  async createCollectionDocument(
+    kind: DocumentCollectionKind,
     clientId: string,
     data: {
       name: string;
       description?: string;
       reminder_days?: number;
-      /** When true, document is listed only under All Documents (same as multipart flag). */
+      /** Additional documents only: list the entry under All Documents. */
       all_documents_section?: boolean;
     }
-  ) {
+  ): Promise<Client & { newAdditionalDocumentId?: string }> {
     const headers = await getAuthHeaders();
     const payload: Record<string, unknown> = {
       name: data.name,
@@ -382,40 +795,90 @@ export const api = {
     if (data.all_documents_section) {
       payload.all_documents_section = true;
     }
-    const response = await fetch(`${API_URL}/clients/${clientId}/additional-documents`, {
+    const response = await request(`POST /clients/:id/${DOCUMENT_COLLECTIONS[kind].endpoint}`, `${API_URL}/clients/${clientId}/${DOCUMENT_COLLECTIONS[kind].endpoint}`, {
       method: 'POST',
       headers,
       body: JSON.stringify(payload),
     });
-
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to create document' }));
-      throw new Error(error.error || 'Failed to create document');
+      throw new Error(await getApiErrorMessage(response, 'Failed to create document'));
     }
+    return decryptClient(await readResponse(response, createdCollectionDocumentSchema));
+  },
 
-    return (await response.json()) as Client & { newAdditionalDocumentId?: string };
+  /** Create an entry and upload its file in one request. */
+  async uploadCollectionDocument(
+    kind: DocumentCollectionKind,
+    clientId: string,
+    data: { name: string; description?: string; reminder_days?: number; all_documents_section?: boolean },
+    file: File,
+    userName: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<Client> {
+    const uploadId = await uploadFile(file, onProgress);
+    const formData = new FormData();
+    formData.append('name', data.name);
+    formData.append('fileName', file.name);
+    formData.append('userName', userName);
+    if (data.reminder_days !== undefined) {
+      formData.append('reminder_days', String(data.reminder_days));
+    }
+    if (data.description) {
+      formData.append('description', data.description);
+    }
+    if (data.all_documents_section) {
+      formData.append('all_documents_section', 'true');
+    }
+    formData.append('upload_id', uploadId);
+
+    const token = await (await import('./firebase.js')).getIdToken();
+    const headers: HeadersInit = {};
+    if (token) {
+      headers['Authorization'] = `Bearer ${token}`;
+    }
+
+    const response = await request(`POST /clients/:id/${DOCUMENT_COLLECTIONS[kind].endpoint}`, `${API_URL}/clients/${clientId}/${DOCUMENT_COLLECTIONS[kind].endpoint}`, {
+      method: 'POST',
+      headers,
+      body: formData,
+    });
+    if (!response.ok) {
+      throw new Error(await getApiErrorMessage(response, 'Failed to upload document'));
+    }
+    return readClient(response);
   },
 
-  async updateAdditionalDocument(clientId: string, documentId: string, data: { name?: string; description?: string; reminder_days?: number }) {
+  async updateCollectionDocument(
+    kind: DocumentCollectionKind,
+    clientId: string,
+    documentId: string,
+    data: { name?: string; description?: string; reminder_days?: number }
+  ): Promise<Client> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/additional-documents/${documentId}`, {
+    const response = await request(`PUT /clients/:id/${DOCUMENT_COLLECTIONS[kind].endpoint}/:documentId`, `${API_URL}/clients/${clientId}/${DOCUMENT_COLLECTIONS[kind].endpoint}/${documentId}`, {
       method: 'PUT',
       headers,
       body: JSON.stringify(data),
     });
-
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to update document' }));
-      throw new Error(error.error || 'Failed to update document');
+      throw new Error(await getApiErrorMessage(response, 'Failed to update document'));
     }
-
-    return response.json();
+    return readClient(response);
   },
 
-  async uploadAdditionalDocumentFile(clientId: string, documentId: string, file: File, userName: string) {
+  async uploadCollectionDocumentFile(
+    kind: DocumentCollectionKind,
+    clientId: string,
+    documentId: string,
+    file: File,
+    userName: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<Client> {
+    const uploadId = await uploadFile(file, onProgress);
     const formData = new FormData();
     formData.append('userName', userName);
-    formData.append('file', file);
+    formData.append('fileName', file.name);
+    formData.append('upload_id', uploadId);
 
     const token = await (await import('./firebase.js')).getIdToken();
     const headers: HeadersInit = {};
@@ -423,53 +886,48 @@ export const api = {
       headers['Authorization'] = `Bearer ${token}`;
     }
 
-    const response = await fetch(`${API_URL}/clients/${clientId}/additional-documents/${documentId}/file`, {
+    const response = await request(`POST /clients/:id/${DOCUMENT_COLLECTIONS[kind].endpoint}/:documentId/file`, `${API_URL}/clients/${clientId}/${DOCUMENT_COLLECTIONS[kind].endpoint}/${documentId}/file`, {
       method: 'POST',
       headers,
       body: formData,
     });
-
     if (!response.ok) {
       throw new Error(await getApiErrorMessage(response, 'Failed to upload file'));
     }
-
-    return response.json();
+    return readClient(response);
   },
 
-  async removeDocument(clientId: string, documentCode: string) {
+  async removeCollectionDocument(kind: DocumentCollectionKind, clientId: string, documentId: string): Promise<Client> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${clientId}/documents/${documentCode}`, {
+    const response = await request(`DELETE /clients/:id/${DOCUMENT_COLLECTIONS[kind].endpoint}/:documentId`, `${API_URL}/clients/${clientId}/${DOCUMENT_COLLECTIONS[kind].endpoint}/${documentId}`, {
       method: 'DELETE',
       headers,
     });
-
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to remove document' }));
-      throw new Error(error.error || 'Failed to remove document');
+      throw new Error(await getApiErrorMessage(response, 'Failed to remove document'));
     }
-
-    return response.json();
+    return readClient(response);
   },
 
-  async removeAdditionalDocument(clientId: string, documentId: string) {
+  async removeDocument(clientId: string, documentCode: string): Promise<Client> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${clientId}/additional-documents/${documentId}`, {
+    const response = await request('DELETE /clients/:id/documents/:code', `${API_URL}/clients/${clientId}/documents/${documentCode}`, {
       method: 'DELETE',
       headers,
     });
 
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to remove additional document' }));
-      throw new Error(error.error || 'Failed to remove additional document');
+      const error = await response.json().catch(() => ({ error: 'Failed to remove document' }));
+      throw new Error(error.error || 'Failed to remove document');
     }
 
-    return response.json();
+    return readClient(response);
   },
 
   // Requested Documents (only for submitted clients)
-  async addRequestedDocument(clientId: string, data: { name: string; description?: string }) {
+  async addRequestedDocument(clientId: string, data: { name: string; description?: string }): Promise<Client> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/requested-documents`, {
+    const response = await request('POST /clients/:id/requested-documents', `${API_URL}/clients/${clientId}/requested-documents`, {
       method: 'POST',
       headers,
       body: JSON.stringify(data),
@@ -478,17 +936,25 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to add requested document' }));
       throw new Error(error.error || 'Failed to add requested document');
     }
-    return response.json();
+    return readClient(response);
   },
 
-  async uploadRequestedDocument(clientId: string, documentCode: string, file: File, userName: string) {
+  async uploadRequestedDocument(
+    clientId: string,
+    documentCode: string,
+    file: File,
+    userName: string,
+    onProgress?: (progress: UploadProgress) => void
+  ): Promise<Client> {
+    const uploadId = await uploadFile(file, onProgress);
     const formData = new FormData();
-    formData.append('file', file);
+    formData.append('upload_id', uploadId);
+    formData.append('fileName', file.name);
     formData.append('userName', userName);
     const headers = await getAuthHeaders();
     // Remove Content-Type header to let browser set it with boundary for FormData
     delete (headers as any)['Content-Type'];
-    const response = await fetch(`${API_URL}/clients/${clientId}/requested-documents/${documentCode}/upload`, {
+    const response = await request('POST /clients/:id/requested-documents/:code/upload', `${API_URL}/clients/${clientId}/requested-documents/${documentCode}/upload`, {
       method: 'POST',
       headers,
       body: formData,
@@ -497,12 +963,12 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to upload requested document' }));
       throw new Error(error.error || 'Failed to upload requested document');
     }
-    return response.json();
+    return readClient(response);
   },
 
-  async removeRequestedDocument(clientId: string, documentCode: string) {
+  async removeRequestedDocument(clientId: string, documentCode: string): Promise<Client> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${clientId}/requested-documents/${documentCode}`, {
+    const response = await request('DELETE /clients/:id/requested-documents/:code', `${API_URL}/clients/${clientId}/requested-documents/${documentCode}`, {
       method: 'DELETE',
       headers,
     });
@@ -510,12 +976,12 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to remove requested document' }));
       throw new Error(error.error || 'Failed to remove requested document');
     }
-    return response.json();
+    return readClient(response);
   },
 
-  async setRequestedDocumentsReminderDuration(clientId: string, durationDays: number) {
+  async setRequestedDocumentsReminderDuration(clientId: string, durationDays: number): Promise<Client> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/requested-documents-reminder-duration`, {
+    const response = await request('PUT /clients/:id/requested-documents-reminder-duration', `${API_URL}/clients/${clientId}/requested-documents-reminder-duration`, {
       method: 'PUT',
       headers,
       body: JSON.stringify({ durationDays }),
@@ -524,12 +990,12 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to update reminder duration' }));
       throw new Error(error.error || 'Failed to update reminder duration');
     }
-    return response.json();
+    return readClient(response);
   },
 
-  async updateRequestedDocumentsLastReminder(clientId: string) {
+  async updateRequestedDocumentsLastReminder(clientId: string): Promise<Client> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${clientId}/requested-documents-last-reminder`, {
+    const response = await request('PUT /clients/:id/requested-documents-last-reminder', `${API_URL}/clients/${clientId}/requested-documents-last-reminder`, {
       method: 'PUT',
       headers,
     });
@@ -537,563 +1003,634 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to update last reminder date' }));
       throw new Error(error.error || 'Failed to update last reminder date');
     }
-    return response.json();
-  },
-
-  // APORTAR DOCUMENTACIÓN
-  async uploadAportarDocumentacion(clientId: string, name: string, description: string, file: File, userName: string, reminder_days?: number) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('name', name);
-    formData.append('userName', userName);
-    if (description) {
-      formData.append('description', description);
-    }
-    if (reminder_days) {
-      formData.append('reminder_days', reminder_days.toString());
-    }
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    const response = await fetch(`${API_URL}/clients/${clientId}/aportar-documentacion`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload document' }));
-      throw new Error(error.error || 'Failed to upload document');
-    }
-    return response.json();
+    return readClient(response);
   },
 
-  async createAportarDocumentacion(clientId: string, data: { name: string; description?: string; reminder_days?: number }) {
-    const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/aportar-documentacion`, {
-      method: 'POST',
-      headers,
-      body: JSON.stringify(data),
-    });
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to create document' }));
-      throw new Error(error.error || 'Failed to create document');
-    }
-    return response.json();
+  async submitToAdministrative(clientId: string, options?: { allowExpiredDocuments?: boolean }) {
+    return this.transitionClientStage(clientId, 'submitted', undefined, options);
   },
 
-  async updateAportarDocumentacion(clientId: string, documentId: string, data: { name?: string; description?: string; reminder_days?: number }) {
-    const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/aportar-documentacion/${documentId}`, {
-      method: 'PUT',
+  /**
+   * Move a case to another stage; the change is validated and appended to the stage history.
+   * Submitting throws `ExpiredDocumentsError` when a document is stale today, unless allowed;
+   * `ClientConflictError` means the client changed after it was read and nothing was saved.
+   */
+  async transitionClientStage(
+    clientId: string,
+    to: CaseStage,
+    note?: string,
+    options?: { allowExpiredDocuments?: boolean }
+  ) {
+    const [client, user] = await Promise.all([this.getClient(clientId), this.getCurrentUser()]);
+    if (to === 'submitted' && !options?.allowExpiredDocuments) {
+      const expired = getDocumentsExpiredOn(client);
+      if (expired.length > 0) throw new ExpiredDocumentsError(expired);
+    }
+    const changedBy = user.name || user.email || 'Unknown';
+    const patch = buildCaseStageTransition(client, to, changedBy, { note });
+    const updated = await this.updateClient(clientId, patch, { ifMatch: getClientVersion(client) });
+    const change = patch.case_stage_history[patch.case_stage_history.length - 1];
+    void this.recordClientActivity(clientId, {
+      action: 'stage_changed',
+      actor: changedBy,
+      summary: `Stage changed to ${CASE_STAGE_LABELS[to]}`,
+      before: change.from,
+      after: change.to,
+    });
+    return updated;
+  },
+
+  /**
+   * Bring one client's checklist up to the template's current version. Re-plans against the
+   * latest copy of the client, so a preview made earlier can't overwrite newer uploads.
+   */
+  async applyTemplateChecklist(
+    template: CaseTemplate,
+    clientId: string,
+    options: { removeDropped: boolean; appliedBy: string }
+  ): Promise<TemplatePropagationPlan> {
+    const client = await this.getClient(clientId);
+    const plan = planTemplatePropagation(template, client, options);
+    const version = getTemplateVersion(template);
+    if (planChangesCount(plan) === 0 && client.case_template_version === version) return plan;
+    await this.updateClient(
+      clientId,
+      { required_documents: plan.nextDocuments, case_template_version: version },
+      { ifMatch: getClientVersion(client) }
+    );
+    void this.recordClientActivity(clientId, {
+      action: 'checklist_updated',
+      actor: options.appliedBy,
+      summary: `Checklist updated to ${template.name} v${version}`,
+      before: plan.removed.map((doc) => doc.name),
+      after: plan.added.map((doc) => doc.name),
+    });
+    return plan;
+  },
+
+  /**
+   * Link two clients as family. `relation` is what `otherId` is to `clientId`; the other
+   * client gets the inverse, so both family views agree.
+   */
+  async linkFamilyMembers(clientId: string, otherId: string, relation: FamilyRelation, linkedBy: string) {
+    if (clientId === otherId) throw new Error('A client cannot be linked to themselves');
+    const [client, other] = await Promise.all([this.getClient(clientId), this.getClient(otherId)]);
+    const createdAt = new Date().toISOString();
+    const inverse = INVERSE_FAMILY_RELATION[relation];
+    const updated = await updateFamilyLinksOnBoth(
+      client,
+      withFamilyLink(client.family_links, { client_id: otherId, relation, created_at: createdAt, created_by: linkedBy }),
+      other,
+      withFamilyLink(other.family_links, { client_id: clientId, relation: inverse, created_at: createdAt, created_by: linkedBy })
+    );
+    void this.recordClientActivity(clientId, {
+      action: 'family_linked',
+      actor: linkedBy,
+      summary: `${other.first_name} ${other.last_name} linked as ${FAMILY_RELATION_LABELS[relation]}`,
+      after: { client_id: otherId, relation },
+    });
+    void this.recordClientActivity(otherId, {
+      action: 'family_linked',
+      actor: linkedBy,
+      summary: `${client.first_name} ${client.last_name} linked as ${FAMILY_RELATION_LABELS[inverse]}`,
+      after: { client_id: clientId, relation: inverse },
+    });
+    return updated;
+  },
+
+  /**
+   * Drop a relative's link to a client about to be erased. Unlike unlinkFamilyMembers it leaves
+   * the client alone and logs nothing, so no activity entry keeps the erased client's name.
+   */
+  async removeFamilyLinkTo(relativeId: string, clientId: string) {
+    const relative = await this.getClient(relativeId);
+    if (!relative.family_links?.some((link) => link.client_id === clientId)) return relative;
+    return this.updateClient(
+      relativeId,
+      { family_links: withoutFamilyLink(relative.family_links, clientId) },
+      { ifMatch: getClientVersion(relative) }
+    );
+  },
+
+  /** Remove the link from both clients. Documents already shared between them stay shared. */
+  async unlinkFamilyMembers(clientId: string, otherId: string, unlinkedBy: string) {
+    const [client, other] = await Promise.all([this.getClient(clientId), this.getClient(otherId)]);
+    const updated = await updateFamilyLinksOnBoth(
+      client,
+      withoutFamilyLink(client.family_links, otherId),
+      other,
+      withoutFamilyLink(other.family_links, clientId)
+    );
+    void this.recordClientActivity(clientId, {
+      action: 'family_unlinked',
+      actor: unlinkedBy,
+      summary: `${other.first_name} ${other.last_name} unlinked from the family`,
+      before: client.family_links?.find((link) => link.client_id === otherId),
+    });
+    void this.recordClientActivity(otherId, {
+      action: 'family_unlinked',
+      actor: unlinkedBy,
+      summary: `${client.first_name} ${client.last_name} unlinked from the family`,
+      before: other.family_links?.find((link) => link.client_id === clientId),
+    });
+    return updated;
+  },
+
+  /**
+   * Point `targetCode` on the target client's checklist at the source client's upload, adding
+   * the slot when the checklist has none. Nothing is copied in storage: both reference one file.
+   */
+  async shareDocument(
+    sourceClientId: string,
+    sourceCode: string,
+    targetClientId: string,
+    targetCode: string,
+    sharedBy: string
+  ): Promise<Client> {
+    const [source, target] = await Promise.all([this.getClient(sourceClientId), this.getClient(targetClientId)]);
+    const sourceDoc = source.required_documents.find((doc) => doc.code === sourceCode);
+    if (!sourceDoc?.fileUrl) throw new Error('The document to share has no uploaded file');
+    const existing = target.required_documents.find((doc) => doc.code === targetCode);
+    if (existing?.fileUrl && !existing.sharedFrom) {
+      throw new Error(`${existing.name} already has its own file; remove it before sharing`);
+    }
+    const slot = existing || { code: targetCode, name: sourceDoc.name, description: sourceDoc.description || '', isOptional: false };
+    const shared = buildSharedDocument(sourceClientId, sourceDoc, slot, sharedBy);
+    const requiredDocuments = existing
+      ? target.required_documents.map((doc) => (doc.code === targetCode ? shared : doc))
+      : [...target.required_documents, shared];
+    const updated = await this.updateClient(
+      targetClientId,
+      { required_documents: requiredDocuments },
+      { ifMatch: getClientVersion(target) }
+    );
+    void this.recordClientActivity(targetClientId, {
+      action: 'document_shared',
+      actor: sharedBy,
+      summary: `${shared.name} linked from ${source.first_name} ${source.last_name}`,
+      after: shared.sharedFrom,
+    });
+    return updated;
+  },
+
+  /** Empty a shared slot without touching the file, which still belongs to the source client. */
+  async unshareDocument(clientId: string, code: string, removedBy: string): Promise<Client> {
+    const client = await this.getClient(clientId);
+    const doc = client.required_documents.find((d) => d.code === code);
+    if (!doc?.sharedFrom) return client;
+    const updated = await this.updateClient(
+      clientId,
+      { required_documents: client.required_documents.map((d) => (d.code === code ? clearSharedDocument(d) : d)) },
+      { ifMatch: getClientVersion(client) }
+    );
+    void this.recordClientActivity(clientId, {
+      action: 'document_removed',
+      actor: removedBy,
+      summary: `Shared ${doc.name} unlinked`,
+      before: doc.sharedFrom,
+    });
+    return updated;
+  },
+
+  // Client activity log
+  async getClientActivity(clientId: string, options?: RequestOptions): Promise<ClientActivity[]> {
+    const headers = await getAuthHeaders(false);
+    const response = await request('GET /clients/:id/activity', `${API_URL}/clients/${encodeURIComponent(clientId)}/activity`, {
       headers,
-      body: JSON.stringify(data),
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to update document' }));
-      throw new Error(error.error || 'Failed to update document');
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch client activity' }));
+      throw new Error(error.error || 'Failed to fetch client activity');
     }
-    return response.json();
+    return readResponse(response, list('activity', clientActivitySchema));
   },
 
-  async uploadAportarDocumentacionFile(clientId: string, documentId: string, file: File, userName: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('userName', userName);
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    const response = await fetch(`${API_URL}/clients/${clientId}/aportar-documentacion/${documentId}/file`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload file' }));
-      throw new Error(error.error || 'Failed to upload file');
+  /** Best-effort: a failed log write must never block the change it describes. */
+  async recordClientActivity(
+    clientId: string,
+    entry: { action: ClientActivityAction; actor: string; summary: string; before?: unknown; after?: unknown }
+  ): Promise<ClientActivity | null> {
+    try {
+      const headers = await getAuthHeaders();
+      const response = await request('POST /clients/:id/activity', `${API_URL}/clients/${encodeURIComponent(clientId)}/activity`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify(entry),
+      });
+      if (!response.ok) {
+        console.warn('⚠️ Failed to record client activity:', await getApiErrorMessage(response, 'Activity log rejected'));
+        return null;
+      }
+      return readResponse(response, clientActivitySchema);
+    } catch (error) {
+      console.warn('⚠️ Failed to record client activity:', error);
+      return null;
     }
-    return response.json();
   },
 
-  async removeAportarDocumentacion(clientId: string, documentId: string) {
+  /**
+   * EventSource can't send headers, and an ID token in the URL would end up in proxy and server
+   * logs. So the token buys a short-lived, single-use ticket, and only that goes in the query string.
+   */
+  async getRealtimeStreamUrl(): Promise<string> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${clientId}/aportar-documentacion/${documentId}`, {
-      method: 'DELETE',
+    const response = await request('POST /realtime/tickets', `${REALTIME_URL}/tickets`, {
+      method: 'POST',
       headers,
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to remove document' }));
-      throw new Error(error.error || 'Failed to remove document');
+      throw new Error(await getApiErrorMessage(response, 'Failed to open the realtime stream'));
     }
-    return response.json();
+    const { ticket } = await readResponse(response, realtimeStreamTicketSchema);
+    return `${REALTIME_URL}/events?${new URLSearchParams({ ticket }).toString()}`;
   },
 
-  // REQUERIMIENTO
-  async uploadRequerimiento(clientId: string, name: string, description: string, file: File, userName: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('name', name);
-    formData.append('userName', userName);
-    if (description) {
-      formData.append('description', description);
-    }
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    const response = await fetch(`${API_URL}/clients/${clientId}/requerimiento`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload document' }));
-      throw new Error(error.error || 'Failed to upload document');
+  /** Announce (or withdraw) that `user` has this client file open. Best-effort, like activity logging. */
+  async sendClientPresence(clientId: string, user: string, editing: boolean): Promise<void> {
+    try {
+      const headers = await getAuthHeaders();
+      await request('POST /realtime/presence', `${REALTIME_URL}/presence`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ client_id: clientId, user, editing }),
+        keepalive: !editing,
+      });
+    } catch (error) {
+      console.warn('⚠️ Failed to send presence:', error);
     }
-    return response.json();
   },
 
-  async createRequerimiento(clientId: string, data: { name: string; description?: string; reminder_days?: number }) {
+  /**
+   * GDPR erasure: the server deletes the client's record and every uploaded file, and keeps
+   * only the returned tombstone for the audit trail. This is the only way to delete a client.
+   */
+  async eraseClient(id: string, reason: ErasureReason): Promise<ClientErasureRecord> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/requerimiento`, {
+    const response = await request('POST /clients/:id/erasure', `${API_URL}/clients/${encodeURIComponent(id)}/erasure`, {
       method: 'POST',
       headers,
-      body: JSON.stringify(data),
+      body: JSON.stringify({ reason }),
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to create document' }));
-      throw new Error(error.error || 'Failed to create document');
+      throw new Error(await getApiErrorMessage(response, 'Failed to erase client'));
     }
-    return response.json();
+    return readResponse(response, clientErasureRecordSchema);
   },
 
-  async updateRequerimiento(clientId: string, documentId: string, data: { name?: string; description?: string; reminder_days?: number }) {
-    const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/requerimiento/${documentId}`, {
-      method: 'PUT',
+  async getErasureLog(limit = 200, options?: RequestOptions): Promise<ClientErasureRecord[]> {
+    const headers = await getAuthHeaders(false);
+    const response = await request('GET /clients/erasures', `${API_URL}/clients/erasures?limit=${limit}`, {
+      method: 'GET',
       headers,
-      body: JSON.stringify(data),
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to update document' }));
-      throw new Error(error.error || 'Failed to update document');
+      throw new Error(await getApiErrorMessage(response, 'Failed to load erasure log'));
     }
-    return response.json();
+    return readResponse(response, list('erasures', clientErasureRecordSchema));
   },
 
-  async uploadRequerimientoFile(clientId: string, documentId: string, file: File, userName: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('userName', userName);
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    const response = await fetch(`${API_URL}/clients/${clientId}/requerimiento/${documentId}/file`, {
-      method: 'POST',
+  // User management
+  async getUsers(options?: RequestOptions): Promise<User[]> {
+    const headers = await getAuthHeaders(false);
+    const response = await request('GET /users', `${API_URL}/users`, {
+      method: 'GET',
       headers,
-      body: formData,
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload file' }));
-      throw new Error(error.error || 'Failed to upload file');
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch users' }));
+      throw new Error(error.error || 'Failed to fetch users');
     }
-    return response.json();
+    return readResponse(response, list('users', userSchema));
   },
 
-  async removeRequerimiento(clientId: string, documentId: string) {
+  async getCurrentUser(options?: RequestOptions): Promise<User> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${clientId}/requerimiento/${documentId}`, {
-      method: 'DELETE',
+    const response = await request('GET /users/me', `${API_URL}/users/me`, {
+      method: 'GET',
       headers,
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to remove document' }));
-      throw new Error(error.error || 'Failed to remove document');
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch current user' }));
+      throw new Error(error.error || 'Failed to fetch current user');
     }
-    return response.json();
+    return readResponse(response, userSchema);
   },
 
-  // RESOLUCIÓN
-  async uploadResolucion(clientId: string, name: string, description: string, file: File, userName: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('name', name);
-    formData.append('userName', userName);
-    if (description) {
-      formData.append('description', description);
-    }
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    const response = await fetch(`${API_URL}/clients/${clientId}/resolucion`, {
-      method: 'POST',
+  async getUser(id: string, options?: RequestOptions): Promise<User> {
+    const headers = await getAuthHeaders(false);
+    const response = await request('GET /users/:id', `${API_URL}/users/${id}`, {
+      method: 'GET',
       headers,
-      body: formData,
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload document' }));
-      throw new Error(error.error || 'Failed to upload document');
+      const error = await response.json().catch(() => ({ error: 'Failed to fetch user' }));
+      throw new Error(error.error || 'Failed to fetch user');
     }
-    return response.json();
+    return readResponse(response, userSchema);
   },
 
-  async createResolucion(clientId: string, data: { name: string; description?: string; reminder_days?: number }) {
+  async createUser(data: {
+    email: string;
+    name?: string;
+    role: UserRole;
+    permissions?: Permission[] | null;
+    firebase_uid: string;
+  }): Promise<User> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/resolucion`, {
+    const response = await request('POST /users', `${API_URL}/users`, {
       method: 'POST',
-      headers,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+      },
       body: JSON.stringify(data),
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to create document' }));
-      throw new Error(error.error || 'Failed to create document');
+      const error = await response.json().catch(() => ({ error: 'Failed to create user' }));
+      throw new Error(error.error || 'Failed to create user');
     }
-    return response.json();
+    return readResponse(response, userSchema);
   },
 
-  async updateResolucion(clientId: string, documentId: string, data: { name?: string; description?: string; reminder_days?: number }) {
+  async updateUser(
+    id: string,
+    data: { email?: string; name?: string; role?: UserRole; permissions?: Permission[] | null; active?: boolean }
+  ): Promise<User> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/resolucion/${documentId}`, {
+    const response = await request('PUT /users/:id', `${API_URL}/users/${id}`, {
       method: 'PUT',
-      headers,
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+      },
       body: JSON.stringify(data),
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to update document' }));
-      throw new Error(error.error || 'Failed to update document');
+      const error = await response.json().catch(() => ({ error: 'Failed to update user' }));
+      throw new Error(error.error || 'Failed to update user');
     }
-    return response.json();
+    return readResponse(response, userSchema);
   },
 
-  async uploadResolucionFile(clientId: string, documentId: string, file: File, userName: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('userName', userName);
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    const response = await fetch(`${API_URL}/clients/${clientId}/resolucion/${documentId}/file`, {
-      method: 'POST',
+  async deleteUser(id: string): Promise<void> {
+    const headers = await getAuthHeaders(false);
+    const response = await request('DELETE /users/:id', `${API_URL}/users/${id}`, {
+      method: 'DELETE',
       headers,
-      body: formData,
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload file' }));
-      throw new Error(error.error || 'Failed to upload file');
+      const error = await response.json().catch(() => ({ error: 'Failed to delete user' }));
+      throw new Error(error.error || 'Failed to delete user');
     }
-    return response.json();
   },
 
-  async removeResolucion(clientId: string, documentId: string) {
+  async exportAllData(options?: RequestOptions): Promise<Blob> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${clientId}/resolucion/${documentId}`, {
-      method: 'DELETE',
+    const response = await request('GET /users/export/all', `${API_URL}/users/export/all`, {
       headers,
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to remove document' }));
-      throw new Error(error.error || 'Failed to remove document');
+      const error = await response.json().catch(() => ({ error: 'Failed to export data' }));
+      throw new Error(error.error || 'Failed to export data');
     }
-    return response.json();
+    return response.blob();
   },
 
-  // JUSTIFICANTE DE PRESENTACION
-  async createJustificante(clientId: string, data: { name: string; description?: string; reminder_days?: number }) {
+  async importAllData(file: File): Promise<DataImportResult> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/justificante-presentacion`, {
+    
+    // Read file as JSON
+    const fileContent = await file.text();
+    let importData: unknown;
+    try {
+      importData = JSON.parse(fileContent);
+    } catch (error) {
+      throw new Error('Invalid JSON file format');
+    }
+
+    // Encrypted values can only be read back with the key that wrote them
+    const keyIds = findEncryptedKeyIds(importData);
+    if (keyIds.size > 0) {
+      if (!isFirmKeyUnlocked()) {
+        throw new Error('This file contains encrypted client data. Unlock the firm key before importing it.');
+      }
+      const firmKeyId = getFirmKeyId();
+      if ([...keyIds].some((id) => id !== firmKeyId)) {
+        throw new Error('This file was encrypted with a different firm key and cannot be imported.');
+      }
+    }
+
+    const response = await request('POST /users/import/all', `${API_URL}/users/import/all`, {
       method: 'POST',
-      headers,
-      body: JSON.stringify(data),
+      headers: {
+        ...headers,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ data: importData }),
     });
+
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to create document' }));
-      throw new Error(error.error || 'Failed to create document');
+      const error = await response.json().catch(() => ({ error: 'Failed to import data' }));
+      throw new Error(error.error || 'Failed to import data');
     }
-    return response.json();
+
+    return readResponse(response, dataImportResultSchema);
   },
 
-  async updateJustificante(clientId: string, documentId: string, data: { name?: string; description?: string; reminder_days?: number }) {
+  // Field encryption API
+  /** The firm's field-encryption settings, including the wrapped firm key. */
+  getFieldEncryptionSettings(): Promise<FieldEncryptionSettings> {
+    return loadFieldEncryptionSettings();
+  },
+
+  /** True unless the firm has field encryption off; callers keep encrypted fields out of plaintext payloads. */
+  isFieldEncryptionEnabled,
+
+  async updateFieldEncryptionSettings(settings: FieldEncryptionSettings): Promise<FieldEncryptionSettings> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/clients/${clientId}/justificante-presentacion/${documentId}`, {
+    const response = await request('PUT /settings/encryption', `${API_URL}/settings/encryption`, {
       method: 'PUT',
       headers,
-      body: JSON.stringify(data),
+      body: JSON.stringify(settings),
     });
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to update document' }));
-      throw new Error(error.error || 'Failed to update document');
-    }
-    return response.json();
-  },
 
-  async uploadJustificanteFile(clientId: string, documentId: string, file: File, userName: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('userName', userName);
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    const response = await fetch(`${API_URL}/clients/${clientId}/justificante-presentacion/${documentId}/file`, {
-      method: 'POST',
-      headers,
-      body: formData,
-    });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload file' }));
-      throw new Error(error.error || 'Failed to upload file');
+      throw new Error(await getApiErrorMessage(response, 'Failed to update encryption settings'));
     }
-    return response.json();
+
+    const updated = await readResponse(response, fieldEncryptionSettingsSchema);
+    fieldEncryptionSettings = Promise.resolve(updated);
+    return updated;
   },
 
-  async uploadJustificante(clientId: string, name: string, description: string, file: File, userName: string) {
-    const formData = new FormData();
-    formData.append('file', file);
-    formData.append('name', name);
-    formData.append('userName', userName);
-    if (description) {
-      formData.append('description', description);
-    }
-    const token = await (await import('./firebase.js')).getIdToken();
-    const headers: HeadersInit = {};
-    if (token) {
-      headers['Authorization'] = `Bearer ${token}`;
-    }
-    const response = await fetch(`${API_URL}/clients/${clientId}/justificante-presentacion`, {
+  // Sessions API
+  /** Registers this browser as a session, or refreshes its last-seen time. */
+  async registerSession(): Promise<void> {
+    const headers = await getAuthHeaders();
+    const response = await request('POST /users/me/sessions', `${API_URL}/users/me/sessions`, {
       method: 'POST',
       headers,
-      body: formData,
+      body: JSON.stringify({ id: getSessionId(), device: describeDevice() }),
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to upload document' }));
-      throw new Error(error.error || 'Failed to upload document');
+      throw new Error(await getApiErrorMessage(response, 'Failed to register session'));
     }
-    return response.json();
   },
 
-  async removeJustificante(clientId: string, documentId: string) {
+  async getMySessions(options?: RequestOptions): Promise<UserSession[]> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${clientId}/justificante-presentacion/${documentId}`, {
-      method: 'DELETE',
+    const response = await request('GET /users/me/sessions', `${API_URL}/users/me/sessions`, {
+      method: 'GET',
       headers,
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to remove document' }));
-      throw new Error(error.error || 'Failed to remove document');
+      throw new Error(await getApiErrorMessage(response, 'Failed to load sessions'));
     }
-    return response.json();
-  },
-
-  async submitToAdministrative(clientId: string) {
-    return this.updateClient(clientId, {
-      submitted_to_immigration: true,
-      application_date: new Date().toISOString(),
-    });
+    return readResponse(response, list('sessions', userSessionSchema));
   },
 
-  async deleteClient(id: string) {
+  async revokeSession(sessionId: string): Promise<void> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/clients/${id}`, {
+    const response = await request('DELETE /users/me/sessions/:id', `${API_URL}/users/me/sessions/${encodeURIComponent(sessionId)}`, {
       method: 'DELETE',
       headers,
     });
-    if (!response.ok) throw new Error('Failed to delete client');
-    return response.json();
-  },
-
-  // User management
-  async getUsers() {
-    const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/users`, {
-      method: 'GET',
-      headers,
-    });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch users' }));
-      throw new Error(error.error || 'Failed to fetch users');
+      throw new Error(await getApiErrorMessage(response, 'Failed to sign out session'));
     }
-    return response.json();
   },
 
-  async getCurrentUser() {
+  /** Signs out every session except this browser's. */
+  async revokeOtherSessions(): Promise<void> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/users/me`, {
-      method: 'GET',
+    const response = await request('DELETE /users/me/sessions', `${API_URL}/users/me/sessions?except=${encodeURIComponent(getSessionId())}`, {
+      method: 'DELETE',
       headers,
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch current user' }));
-      throw new Error(error.error || 'Failed to fetch current user');
+      throw new Error(await getApiErrorMessage(response, 'Failed to sign out other sessions'));
     }
-    return response.json();
   },
 
-  async getUser(id: string) {
+  // Security settings API
+  async getSecuritySettings(options?: RequestOptions): Promise<SecuritySettings> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/users/${id}`, {
+    const response = await request('GET /settings/security', `${API_URL}/settings/security`, {
       method: 'GET',
       headers,
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to fetch user' }));
-      throw new Error(error.error || 'Failed to fetch user');
+      throw new Error(await getApiErrorMessage(response, 'Failed to load security settings'));
     }
-    return response.json();
+    return readResponse(response, securitySettingsSchema);
   },
 
-  async createUser(data: { email: string; name?: string; role: 'admin' | 'user'; firebase_uid: string }) {
+  async updateSecuritySettings(settings: SecuritySettings): Promise<SecuritySettings> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/users`, {
-      method: 'POST',
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to create user' }));
-      throw new Error(error.error || 'Failed to create user');
-    }
-    return response.json();
-  },
-
-  async updateUser(id: string, data: { email?: string; name?: string; role?: 'admin' | 'user'; active?: boolean }) {
-    const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/users/${id}`, {
+    const response = await request('PUT /settings/security', `${API_URL}/settings/security`, {
       method: 'PUT',
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(data),
-    });
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to update user' }));
-      throw new Error(error.error || 'Failed to update user');
-    }
-    return response.json();
-  },
-
-  async deleteUser(id: string) {
-    const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/users/${id}`, {
-      method: 'DELETE',
       headers,
+      body: JSON.stringify(settings),
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to delete user' }));
-      throw new Error(error.error || 'Failed to delete user');
+      throw new Error(await getApiErrorMessage(response, 'Failed to update security settings'));
     }
-    return response.json();
+    return readResponse(response, securitySettingsSchema);
   },
 
-  async exportAllData(): Promise<Blob> {
-    const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/users/export/all`, {
+  // Payment unlock API
+  /**
+   * Checks the user's PIN, or with `method: 'password'` trusts the fresh sign-in that
+   * `reauthenticateWithPassword` just did (the server checks the token's auth_time).
+   * `new_pin` sets the user's PIN in the same call. The server logs every attempt.
+   */
+  async unlockPayments(data: {
+    feature: PaymentUnlockFeature;
+    method: PaymentUnlockMethod;
+    pin?: string;
+    new_pin?: string;
+  }): Promise<PaymentUnlockResult> {
+    const headers = await getAuthHeaders();
+    const response = await request('POST /payment-unlock', `${API_URL}/payment-unlock`, {
+      method: 'POST',
       headers,
+      body: JSON.stringify(data),
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to export data' }));
-      throw new Error(error.error || 'Failed to export data');
+      throw new Error(await getApiErrorMessage(response, 'Failed to unlock payments'));
     }
-    return response.blob();
+    return readResponse(response, paymentUnlockResultSchema);
   },
 
-  async importAllData(file: File): Promise<{ message: string; results: any }> {
-    const headers = await getAuthHeaders();
-    
-    // Read file as JSON
-    const fileContent = await file.text();
-    let importData: any;
+  /** A wrong password never reaches the server, so the failure is reported separately. Best-effort. */
+  async recordPaymentUnlockFailure(feature: PaymentUnlockFeature, method: PaymentUnlockMethod): Promise<void> {
     try {
-      importData = JSON.parse(fileContent);
+      const headers = await getAuthHeaders();
+      const response = await request('POST /payment-unlock/failures', `${API_URL}/payment-unlock/failures`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({ feature, method }),
+      });
+      if (!response.ok) {
+        console.warn('⚠️ Failed to record payment unlock failure:', await getApiErrorMessage(response, 'Rejected'));
+      }
     } catch (error) {
-      throw new Error('Invalid JSON file format');
-    }
-
-    const response = await fetch(`${API_URL}/users/import/all`, {
-      method: 'POST',
-      headers: {
-        ...headers,
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ data: importData }),
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to import data' }));
-      throw new Error(error.error || 'Failed to import data');
+      console.warn('⚠️ Failed to record payment unlock failure:', error);
     }
-
-    return response.json();
   },
 
-  // Settings API
-  async getPaymentPasscodeStatus() {
+  // Data retention API
+  /** Retention period per case stage. Backends without a policy yet return 404: nothing is due. */
+  async getRetentionPolicy(options?: RequestOptions): Promise<RetentionPolicy> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/settings/payment-passcode`, {
+    const response = await request('GET /settings/retention', `${API_URL}/settings/retention`, {
       method: 'GET',
       headers,
-    });
+    }, options);
+    if (response.status === 404) return { retention_months: {} };
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to get payment passcode status' }));
-      throw new Error(error.error || 'Failed to get payment passcode status');
+      throw new Error(await getApiErrorMessage(response, 'Failed to load retention policy'));
     }
-    return response.json();
+    return readResponse(response, retentionPolicySchema);
   },
 
-  async setPaymentPasscode(passcode: string) {
+  async updateRetentionPolicy(policy: RetentionPolicy): Promise<RetentionPolicy> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/settings/payment-passcode`, {
-      method: 'POST',
+    const response = await request('PUT /settings/retention', `${API_URL}/settings/retention`, {
+      method: 'PUT',
       headers,
-      body: JSON.stringify({ passcode }),
+      body: JSON.stringify(policy),
     });
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to set payment passcode' }));
-      throw new Error(error.error || 'Failed to set payment passcode');
+      throw new Error(await getApiErrorMessage(response, 'Failed to update retention policy'));
     }
-    return response.json();
+    return readResponse(response, retentionPolicySchema);
   },
 
-  async verifyPaymentPasscode(passcode: string) {
-    const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/settings/payment-passcode/verify`, {
-      method: 'POST',
+  async getPaymentUnlockLog(limit = 200, options?: RequestOptions): Promise<PaymentUnlockLogEntry[]> {
+    const headers = await getAuthHeaders(false);
+    const response = await request('GET /payment-unlock/log', `${API_URL}/payment-unlock/log?limit=${limit}`, {
+      method: 'GET',
       headers,
-      body: JSON.stringify({ passcode }),
-    });
+    }, options);
     if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Failed to verify passcode' }));
-      throw new Error(error.error || 'Failed to verify passcode');
+      throw new Error(await getApiErrorMessage(response, 'Failed to load payment unlock log'));
     }
-    return response.json();
+    return readResponse(response, list('entries', paymentUnlockLogEntrySchema));
   },
 
   // Reminders API
-  async getReminders() {
+  async getReminders(options?: RequestOptions): Promise<Reminder[]> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/reminders`, {
+    const response = await request('GET /reminders', `${API_URL}/reminders`, {
       method: 'GET',
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to get reminders' }));
       throw new Error(error.error || 'Failed to get reminders');
     }
-    return response.json();
+    return readResponse(response, list('reminders', reminderSchema));
   },
 
   async createReminder(data: {
@@ -1105,21 +1642,21 @@ export const api = {
     notes?: string;
     reminder_type?: string;
     team_member?: string | null;
-  }) {
+  }): Promise<Reminder> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/reminders`, {
+    const response = await request('POST /reminders', `${API_URL}/reminders`, {
       method: 'POST',
       headers: {
         ...headers,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(data),
+      body: JSON.stringify(await withoutEncryptedReminderFields(data)),
     });
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to create reminder' }));
       throw new Error(error.error || 'Failed to create reminder');
     }
-    return response.json();
+    return readResponse(response, reminderSchema);
   },
 
   async updateReminder(id: string, data: {
@@ -1131,26 +1668,26 @@ export const api = {
     notes?: string;
     reminder_type?: string;
     team_member?: string | null;
-  }) {
+  }): Promise<Reminder> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/reminders/${id}`, {
+    const response = await request('PUT /reminders/:id', `${API_URL}/reminders/${id}`, {
       method: 'PUT',
       headers: {
         ...headers,
         'Content-Type': 'application/json',
       },
-      body: JSON.stringify(data),
+      body: JSON.stringify(await withoutEncryptedReminderFields(data)),
     });
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to update reminder' }));
       throw new Error(error.error || 'Failed to update reminder');
     }
-    return response.json();
+    return readResponse(response, reminderSchema);
   },
 
-  async deleteReminder(id: string) {
+  async deleteReminder(id: string): Promise<void> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/reminders/${id}`, {
+    const response = await request('DELETE /reminders/:id', `${API_URL}/reminders/${id}`, {
       method: 'DELETE',
       headers,
     });
@@ -1158,35 +1695,24 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to delete reminder' }));
       throw new Error(error.error || 'Failed to delete reminder');
     }
-    return response.json();
   },
 
-  async getTeamTasks(): Promise<
-    Array<{
-      id: string;
-      teamMember: string;
-      title: string;
-      notes: string;
-      done: boolean;
-      createdAt: string;
-      updatedAt?: string;
-    }>
-  > {
+  async getTeamTasks(options?: RequestOptions): Promise<TeamTask[]> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/team-tasks`, {
+    const response = await request('GET /team-tasks', `${API_URL}/team-tasks`, {
       method: 'GET',
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to get team tasks' }));
       throw new Error(error.error || 'Failed to get team tasks');
     }
-    return response.json();
+    return readResponse(response, list('tasks', teamTaskSchema));
   },
 
-  async createTeamTask(data: { teamMember: string; title: string; notes?: string }) {
+  async createTeamTask(data: { teamMember: string; title: string; notes?: string }): Promise<TeamTask> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/team-tasks`, {
+    const response = await request('POST /team-tasks', `${API_URL}/team-tasks`, {
       method: 'POST',
       headers,
       body: JSON.stringify(data),
@@ -1195,12 +1721,12 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to create team task' }));
       throw new Error(error.error || 'Failed to create team task');
     }
-    return response.json();
+    return readResponse(response, teamTaskSchema);
   },
 
-  async updateTeamTask(id: string, data: { title?: string; notes?: string | null; done?: boolean }) {
+  async updateTeamTask(id: string, data: { title?: string; notes?: string | null; done?: boolean }): Promise<TeamTask> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/team-tasks/${encodeURIComponent(id)}`, {
+    const response = await request('PATCH /team-tasks/:id', `${API_URL}/team-tasks/${encodeURIComponent(id)}`, {
       method: 'PATCH',
       headers,
       body: JSON.stringify(data),
@@ -1209,12 +1735,12 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to update team task' }));
       throw new Error(error.error || 'Failed to update team task');
     }
-    return response.json();
+    return readResponse(response, teamTaskSchema);
   },
 
-  async deleteTeamTask(id: string) {
+  async deleteTeamTask(id: string): Promise<void> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/team-tasks/${encodeURIComponent(id)}`, {
+    const response = await request('DELETE /team-tasks/:id', `${API_URL}/team-tasks/${encodeURIComponent(id)}`, {
       method: 'DELETE',
       headers,
     });
@@ -1222,26 +1748,24 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to delete team task' }));
       throw new Error(error.error || 'Failed to delete team task');
     }
-    return response.json();
   },
 
-  async getTeamMembers(): Promise<string[]> {
+  async getTeamMembers(options?: RequestOptions): Promise<string[]> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/team-members`, {
+    const response = await request('GET /team-members', `${API_URL}/team-members`, {
       method: 'GET',
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to get team members' }));
       throw new Error(error.error || 'Failed to get team members');
     }
-    const data = await response.json();
-    return Array.isArray(data.members) ? data.members : [];
+    return readResponse(response, list('members', string));
   },
 
   async addTeamMember(name: string): Promise<string[]> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/team-members`, {
+    const response = await request('POST /team-members', `${API_URL}/team-members`, {
       method: 'POST',
       headers,
       body: JSON.stringify({ name }),
@@ -1250,13 +1774,12 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to add team member' }));
       throw new Error(error.error || 'Failed to add team member');
     }
-    const data = await response.json();
-    return Array.isArray(data.members) ? data.members : [];
+    return readResponse(response, list('members', string));
   },
 
   async removeTeamMember(name: string): Promise<string[]> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/team-members/${encodeURIComponent(name)}`, {
+    const response = await request('DELETE /team-members/:name', `${API_URL}/team-members/${encodeURIComponent(name)}`, {
       method: 'DELETE',
       headers,
     });
@@ -1264,11 +1787,10 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to remove team member' }));
       throw new Error(error.error || 'Failed to remove team member');
     }
-    const data = await response.json();
-    return Array.isArray(data.members) ? data.members : [];
+    return readResponse(response, list('members', string));
   },
 
-  async getPaymentsSummary(month?: number, year?: number) {
+  async getPaymentsSummary(month?: number, year?: number, options?: RequestOptions): Promise<Record<string, unknown>> {
     const headers = await getAuthHeaders(false);
     const params = new URLSearchParams();
     if (month) params.append('month', month.toString());
@@ -1277,17 +1799,17 @@ export const api = {
     const queryString = params.toString();
     const url = `${API_URL}/analytics/payments-summary${queryString ? `?${queryString}` : ''}`;
     
-    const response = await fetch(url, {
+    const response = await request('GET /analytics/payments-summary', url, {
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to fetch payments summary' }));
       throw new Error(error.error || 'Failed to fetch payments summary');
     }
-    return response.json();
+    return readResponse(response, record(unknown));
   },
 
-  async getMonthlySummary(month?: number, year?: number) {
+  async getMonthlySummary(month?: number, year?: number, options?: RequestOptions): Promise<MonthlySummary> {
     const headers = await getAuthHeaders(false);
     const params = new URLSearchParams();
     if (month) params.append('month', month.toString());
@@ -1296,61 +1818,61 @@ export const api = {
     const queryString = params.toString();
     const url = `${API_URL}/analytics/monthly-summary${queryString ? `?${queryString}` : ''}`;
     
-    const response = await fetch(url, {
+    const response = await request('GET /analytics/monthly-summary', url, {
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to fetch monthly summary' }));
       throw new Error(error.error || 'Failed to fetch monthly summary');
     }
-    return response.json();
+    return readResponse(response, monthlySummarySchema);
   },
 
-  async getMonthlyTrend(months: number = 6) {
+  async getMonthlyTrend(months: number = 6, options?: RequestOptions): Promise<MonthlyTrendPoint[]> {
     const headers = await getAuthHeaders(false);
     const url = `${API_URL}/analytics/monthly-trend?months=${months}`;
     
-    const response = await fetch(url, {
+    const response = await request('GET /analytics/monthly-trend', url, {
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to fetch monthly trend' }));
       throw new Error(error.error || 'Failed to fetch monthly trend');
     }
-    return response.json();
+    return readResponse(response, list('data', monthlyTrendPointSchema));
   },
 
   // Appointments API
-  async getAppointments(params?: { from?: string; to?: string }) {
+  async getAppointments(params?: { from?: string; to?: string }, options?: RequestOptions): Promise<Appointment[]> {
     const headers = await getAuthHeaders(false);
     const qs = new URLSearchParams();
     if (params?.from) qs.append('from', params.from);
     if (params?.to) qs.append('to', params.to);
     const query = qs.toString();
-    const response = await fetch(`${API_URL}/appointments${query ? `?${query}` : ''}`, {
+    const response = await request('GET /appointments', `${API_URL}/appointments${query ? `?${query}` : ''}`, {
       method: 'GET',
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to get appointments' }));
       throw new Error(error.error || 'Failed to get appointments');
     }
-    return response.json();
+    return readResponse(response, list('appointments', appointmentSchema));
   },
 
-  async checkAppointmentAvailability(date: string, startTime?: string, durationMinutes = 30) {
+  async checkAppointmentAvailability(date: string, startTime?: string, durationMinutes = 30, options?: RequestOptions): Promise<Record<string, unknown>> {
     const headers = await getAuthHeaders(false);
     const qs = new URLSearchParams({ date, duration_minutes: String(durationMinutes) });
     if (startTime) qs.append('start_time', startTime);
-    const response = await fetch(`${API_URL}/appointments/availability?${qs}`, {
+    const response = await request('GET /appointments/availability', `${API_URL}/appointments/availability?${qs}`, {
       method: 'GET',
       headers,
-    });
+    }, options);
     if (!response.ok) {
       const error = await response.json().catch(() => ({ error: 'Failed to check availability' }));
       throw new Error(error.error || 'Failed to check availability');
     }
-    return response.json();
+    return readResponse(response, record(unknown));
   },
 
   async createAppointment(data: {
@@ -1363,9 +1885,9 @@ export const api = {
     duration_minutes?: number;
     color?: string;
     notes?: string;
-  }) {
+  }): Promise<Appointment> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/appointments`, {
+    const response = await request('POST /appointments', `${API_URL}/appointments`, {
       method: 'POST',
       headers: { ...headers, 'Content-Type': 'application/json' },
       body: JSON.stringify(data),
@@ -1374,7 +1896,7 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to create appointment' }));
       throw new Error(error.error || 'Failed to create appointment');
     }
-    return response.json();
+    return readResponse(response, appointmentSchema);
   },
 
   async updateAppointment(
@@ -1390,9 +1912,9 @@ export const api = {
       color?: string;
       notes?: string;
     }
-  ) {
+  ): Promise<Appointment> {
     const headers = await getAuthHeaders();
-    const response = await fetch(`${API_URL}/appointments/${id}`, {
+    const response = await request('PUT /appointments/:id', `${API_URL}/appointments/${id}`, {
       method: 'PUT',
       headers: { ...headers, 'Content-Type': 'application/json' },
       body: JSON.stringify(data),
@@ -1401,12 +1923,12 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to update appointment' }));
       throw new Error(error.error || 'Failed to update appointment');
     }
-    return response.json();
+    return readResponse(response, appointmentSchema);
   },
 
-  async deleteAppointment(id: string) {
+  async deleteAppointment(id: string): Promise<void> {
     const headers = await getAuthHeaders(false);
-    const response = await fetch(`${API_URL}/appointments/${id}`, {
+    const response = await request('DELETE /appointments/:id', `${API_URL}/appointments/${id}`, {
       method: 'DELETE',
       headers,
     });
@@ -1414,7 +1936,6 @@ export const api = {
       const error = await response.json().catch(() => ({ error: 'Failed to delete appointment' }));
       throw new Error(error.error || 'Failed to delete appointment');
     }
-    return response.json();
   },
 };
 
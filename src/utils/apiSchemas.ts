@@ -0,0 +1,456 @@
+import type {
+  AdditionalDocument,
+  Appointment,
+  CaseStageChange,
+  CaseTemplate,
+  CaseTemplateVersion,
+  Client,
+  ClientActivity,
+  ClientErasureRecord,
+  DataImportCounts,
+  DataImportResult,
+  DeltaResponse,
+  DocumentCondition,
+  EncryptedClientValues,
+  FieldEncryptionSettings,
+  FamilyLink,
+  MonthlySummary,
+  MonthlyTrendPoint,
+  Notification,
+  Payment,
+  PaymentInfo,
+  PaymentUnlockLogEntry,
+  PaymentUnlockResult,
+  RealtimeStreamTicket,
+  Reminder,
+  RequestedDocument,
+  RequiredDocument,
+  RetentionPolicy,
+  SecuritySettings,
+  SharedDocumentSource,
+  SmartUploadClassification,
+  SmartUploadResult,
+  TeamTask,
+  Tombstone,
+  UploadSession,
+  User,
+  UserSession,
+} from '../types';
+import { Schema, array, boolean, intersection, literal, nullable, number, object, optional, record, string, unknown } from './schema';
+
+// Response schemas mirror types.ts; typing each one as Schema<T> makes the compiler flag a
+// field added to an interface without a matching check here.
+
+const caseStage = literal(
+  'intake',
+  'collecting_docs',
+  'ready_to_submit',
+  'submitted',
+  'requerimiento',
+  'resolution',
+  'appeal',
+  'closed'
+);
+
+export const documentConditionSchema: Schema<DocumentCondition> = object<DocumentCondition>({
+  attribute: literal('age', 'civil_status', 'nationality', 'relationship'),
+  operator: literal('under', 'at_least', 'in', 'not_in'),
+  years: optional(number),
+  values: optional(array(string)),
+});
+
+export const sharedDocumentSourceSchema: Schema<SharedDocumentSource> = object<SharedDocumentSource>({
+  clientId: string,
+  code: string,
+});
+
+export const requiredDocumentSchema: Schema<RequiredDocument> = object<RequiredDocument>({
+  code: string,
+  name: string,
+  description: optional(string),
+  submitted: optional(boolean),
+  fileUrl: optional(string),
+  uploadedAt: optional(string),
+  fileName: optional(string),
+  fileSize: optional(number),
+  isOptional: optional(boolean),
+  uploadedBy: optional(string),
+  issuedAt: optional(string),
+  expiresAt: optional(string),
+  validityDays: optional(number),
+  conditions: optional(array(documentConditionSchema)),
+  sharedFrom: optional(sharedDocumentSourceSchema),
+});
+
+export const requestedDocumentSchema: Schema<RequestedDocument> = object<RequestedDocument>({
+  code: string,
+  name: string,
+  description: optional(string),
+  submitted: optional(boolean),
+  fileUrl: optional(string),
+  uploadedAt: optional(string),
+  fileName: optional(string),
+  fileSize: optional(number),
+  requestedAt: optional(string),
+  uploadedBy: optional(string),
+});
+
+export const additionalDocumentSchema: Schema<AdditionalDocument> = object<AdditionalDocument>({
+  id: string,
+  name: string,
+  allDocumentsSection: optional(boolean),
+  description: optional(string),
+  fileUrl: optional(string),
+  fileName: optional(string),
+  fileSize: optional(number),
+  uploadedAt: optional(string),
+  uploadedBy: optional(string),
+  reminder_days: optional(number),
+  reminder_date: optional(string),
+  created_at: optional(string),
+});
+
+const paymentSchema: Schema<Payment> = object<Payment>({
+  id: optional(string),
+  amount: number,
+  date: string,
+  method: string,
+  note: optional(string),
+  entryType: optional(literal('payment', 'fee')),
+});
+
+const paymentInfoSchema: Schema<PaymentInfo> = object<PaymentInfo>({
+  totalFee: number,
+  paidAmount: number,
+  payments: array(paymentSchema),
+});
+
+const notificationSchema: Schema<Notification> = object<Notification>({
+  type: string,
+  message: string,
+  createdAt: string,
+  read: boolean,
+});
+
+const caseStageChangeSchema: Schema<CaseStageChange> = object<CaseStageChange>({
+  from: nullable(caseStage),
+  to: caseStage,
+  changedBy: string,
+  changedAt: string,
+  note: optional(string),
+});
+
+export const familyLinkSchema: Schema<FamilyLink> = object<FamilyLink>({
+  client_id: string,
+  relation: literal('spouse', 'partner', 'child', 'parent', 'sibling', 'sponsor', 'sponsored'),
+  created_at: string,
+  created_by: optional(string),
+});
+
+const encryptedClientValuesSchema = object<EncryptedClientValues>({
+  nie: optional(string),
+  passport_number: optional(string),
+  phone: optional(string),
+  notes: optional(string),
+});
+
+export const clientSchema: Schema<Client> = object<Client>({
+  id: string,
+  first_name: string,
+  last_name: string,
+  file_name: optional(string),
+  parent_name: optional(string),
+  email: optional(string),
+  phone: optional(string),
+  case_template_id: optional(string),
+  case_template_version: optional(number),
+  case_type: optional(string),
+  details: optional(string),
+  date_of_birth: optional(string),
+  civil_status: optional(literal('single', 'married', 'registered_partner', 'separated', 'divorced', 'widowed')),
+  nationality: optional(string),
+  relationship: optional(literal('applicant', 'spouse', 'partner', 'child', 'parent', 'other')),
+  nie: optional(string),
+  passport_number: optional(string),
+  passport_expiry: optional(string),
+  address_line: optional(string),
+  postal_code: optional(string),
+  city: optional(string),
+  province: optional(string),
+  family_links: optional(array(familyLinkSchema)),
+  required_documents: array(requiredDocumentSchema),
+  reminder_interval_days: number,
+  administrative_silence_days: number,
+  payment: paymentInfoSchema,
+  submitted_to_immigration: boolean,
+  recurso_in_appeals_box: optional(boolean),
+  application_date: optional(string),
+  custom_reminder_date: optional(string),
+  notifications: array(notificationSchema),
+  additional_docs_required: boolean,
+  notes: optional(string),
+  additional_documents: optional(array(additionalDocumentSchema)),
+  requested_documents: optional(array(requestedDocumentSchema)),
+  requested_documents_reminder_duration_days: optional(number),
+  requested_documents_reminder_interval_days: optional(number),
+  requested_documents_last_reminder_date: optional(string),
+  aportar_documentacion: optional(array(additionalDocumentSchema)),
+  requerimiento: optional(array(additionalDocumentSchema)),
+  resolucion: optional(array(additionalDocumentSchema)),
+  justificante_presentacion: optional(array(additionalDocumentSchema)),
+  case_stage: optional(caseStage),
+  case_stage_history: optional(array(caseStageChangeSchema)),
+  nie_bidx: optional(array(string)),
+  passport_number_bidx: optional(array(string)),
+  phone_bidx: optional(array(string)),
+  notes_bidx: optional(array(string)),
+  encrypted_values: optional(encryptedClientValuesSchema),
+  version: optional(number),
+  created_at: string,
+  updated_at: string,
+});
+
+/** Creating a collection document returns the client plus the id of the new entry. */
+export const createdCollectionDocumentSchema: Schema<Client & { newAdditionalDocumentId?: string }> = intersection(
+  clientSchema,
+  object<{ newAdditionalDocumentId?: string }>({ newAdditionalDocumentId: optional(string) })
+);
+
+export const caseTemplateVersionSchema: Schema<CaseTemplateVersion> = object<CaseTemplateVersion>({
+  version: number,
+  required_documents: array(requiredDocumentSchema),
+  created_at: string,
+  created_by: optional(string),
+});
+
+export const caseTemplateSchema: Schema<CaseTemplate> = object<CaseTemplate>({
+  id: string,
+  name: string,
+  description: optional(string),
+  required_documents: array(requiredDocumentSchema),
+  reminder_interval_days: number,
+  administrative_silence_days: number,
+  assigned_team_member: optional(string),
+  version: optional(number),
+  versions: optional(array(caseTemplateVersionSchema)),
+  official_preset_id: optional(string),
+  official_catalog_version: optional(string),
+  created_at: string,
+  updated_at: string,
+});
+
+export const userSchema: Schema<User> = object<User>({
+  id: string,
+  firebase_uid: string,
+  email: string,
+  name: optional(string),
+  role: literal('admin', 'lawyer', 'paralegal', 'reception', 'accountant', 'auditor', 'user'),
+  permissions: optional(
+    array(literal('edit_clients', 'view_payments', 'edit_payments', 'delete_clients', 'manage_templates', 'manage_users', 'export_data'))
+  ),
+  has_payment_pin: optional(boolean),
+  two_factor_enabled: optional(boolean),
+  active: boolean,
+  created_by: optional(string),
+  created_at: string,
+  updated_at: string,
+});
+
+export const userSessionSchema: Schema<UserSession> = object<UserSession>({
+  id: string,
+  device: string,
+  ip: optional(string),
+  location: optional(string),
+  created_at: string,
+  last_seen_at: string,
+});
+
+export const fieldEncryptionSettingsSchema: Schema<FieldEncryptionSettings> = object<FieldEncryptionSettings>({
+  enabled: boolean,
+  key_id: optional(string),
+  kdf_salt: optional(string),
+  kdf_iterations: optional(number),
+  wrapped_key: optional(string),
+});
+
+export const securitySettingsSchema: Schema<SecuritySettings> = object<SecuritySettings>({
+  require_2fa_for_admins: boolean,
+});
+
+export const realtimeStreamTicketSchema: Schema<RealtimeStreamTicket> = object<RealtimeStreamTicket>({
+  ticket: string,
+  expires_at: string,
+});
+
+export const retentionPolicySchema: Schema<RetentionPolicy> = object<RetentionPolicy>({
+  retention_months: record(number),
+});
+
+export const clientErasureRecordSchema: Schema<ClientErasureRecord> = object<ClientErasureRecord>({
+  id: string,
+  client_id: string,
+  reason: literal('data_subject_request', 'retention_expired'),
+  case_stage: caseStage,
+  files_deleted: number,
+  erased_by: string,
+  erased_at: string,
+});
+
+const paymentUnlockFeatureSchema = literal('payments', 'paytrack', 'overview');
+const paymentUnlockMethodSchema = literal('pin', 'password');
+
+export const paymentUnlockResultSchema: Schema<PaymentUnlockResult> = object<PaymentUnlockResult>({
+  valid: boolean,
+  attempts_remaining: optional(number),
+});
+
+export const paymentUnlockLogEntrySchema: Schema<PaymentUnlockLogEntry> = object<PaymentUnlockLogEntry>({
+  id: string,
+  user_id: string,
+  user_email: string,
+  user_name: optional(string),
+  feature: paymentUnlockFeatureSchema,
+  method: paymentUnlockMethodSchema,
+  success: boolean,
+  created_at: string,
+});
+
+export const reminderSchema: Schema<Reminder> = object<Reminder>({
+  id: string,
+  client_id: string,
+  client_name: string,
+  client_surname: string,
+  phone: optional(string),
+  reminder_date: string,
+  notes: optional(string),
+  reminder_type: optional(string),
+  team_member: optional(string),
+  created_at: string,
+  updated_at: string,
+});
+
+export const appointmentSchema: Schema<Appointment> = object<Appointment>({
+  id: string,
+  title: string,
+  client_name: string,
+  client_surname: optional(string),
+  phone: optional(string),
+  email: optional(string),
+  appointment_date: string,
+  duration_minutes: number,
+  color: literal('red', 'blue', 'green', 'yellow'),
+  notes: optional(string),
+  source: optional(literal('manual', 'ai')),
+  created_at: string,
+  updated_at: string,
+});
+
+export const clientActivitySchema: Schema<ClientActivity> = object<ClientActivity>({
+  id: string,
+  client_id: string,
+  action: literal(
+    'stage_changed',
+    'template_changed',
+    'payment_added',
+    'payment_edited',
+    'payment_summary_edited',
+    'note_deleted',
+    'document_removed',
+    'document_reclassified',
+    'checklist_updated',
+    'family_linked',
+    'family_unlinked',
+    'document_shared',
+    'data_exported'
+  ),
+  actor: string,
+  summary: string,
+  before: unknown,
+  after: unknown,
+  created_at: string,
+});
+
+export const teamTaskSchema: Schema<TeamTask> = object<TeamTask>({
+  id: string,
+  teamMember: string,
+  title: string,
+  notes: optional(string),
+  done: boolean,
+  createdAt: string,
+  updatedAt: optional(string),
+});
+
+export const monthlySummarySchema: Schema<MonthlySummary> = object<MonthlySummary>({
+  totalClients: number,
+  totalPayments: number,
+  totalPaymentReceived: number,
+  totalAdvance: number,
+  totalDue: number,
+  totalRevenue: number,
+  clientsWhoPaid: number,
+});
+
+export const monthlyTrendPointSchema: Schema<MonthlyTrendPoint> = object<MonthlyTrendPoint>({
+  monthName: string,
+  totalRevenue: number,
+});
+
+const smartUploadClassificationSchema: Schema<SmartUploadClassification> = object<SmartUploadClassification>({
+  documentCode: nullable(string),
+  documentName: nullable(string),
+  confidence: number,
+  method: string,
+  routedTo: literal('required', 'all_documents'),
+  reason: optional(string),
+  ocrPreview: optional(string),
+});
+
+export const smartUploadResultSchema: Schema<SmartUploadResult> = object<SmartUploadResult>({
+  summary: object<SmartUploadResult['summary']>({ total: number, succeeded: number, failed: number }),
+  uploads: array(
+    object<SmartUploadResult['uploads'][number]>({
+      fileName: string,
+      uploadId: optional(string),
+      success: boolean,
+      error: optional(string),
+      classification: optional(smartUploadClassificationSchema),
+    })
+  ),
+  classification: optional(smartUploadClassificationSchema),
+});
+
+const dataImportCountsSchema: Schema<DataImportCounts> = object<DataImportCounts>({
+  imported: number,
+  skipped: number,
+  errors: array(unknown),
+});
+
+export const dataImportResultSchema: Schema<DataImportResult> = object<DataImportResult>({
+  message: string,
+  results: object<DataImportResult['results']>({
+    clients: dataImportCountsSchema,
+    users: dataImportCountsSchema,
+    templates: dataImportCountsSchema,
+  }),
+});
+
+export const uploadSessionSchema: Schema<UploadSession> = object<UploadSession>({
+  upload_id: string,
+  size: number,
+  offset: number,
+  chunk_size: optional(number),
+  expires_at: optional(string),
+});
+
+const tombstoneSchema: Schema<Tombstone> = object<Tombstone>({
+  id: string,
+  deleted_at: string,
+});
+
+export function deltaSchema<T>(item: Schema<T>): Schema<DeltaResponse<T>> {
+  return object<DeltaResponse<T>>({
+    updated: array(item),
+    deleted: array(tombstoneSchema),
+    server_time: string,
+  });
+}
@@ -0,0 +1,64 @@
+// Firebase keeps one refresh token per browser and has no notion of "this device", so each
+// sign-in gets its own id, kept in localStorage and sent with every API call. The server lists
+// those ids as the user's sessions; signing one out remotely makes the server answer that
+// browser's next request with 401 and SESSION_REVOKED_HEADER, and the app signs out.
+
+export const SESSION_ID_HEADER = 'X-Session-Id';
+export const SESSION_REVOKED_HEADER = 'X-Session-Revoked';
+
+const SESSION_ID_KEY = 'auth-session-id';
+
+/** This browser's session id, created on first use after sign-in. */
+export function getSessionId(): string {
+  let id = localStorage.getItem(SESSION_ID_KEY);
+  if (!id) {
+    id = crypto.randomUUID();
+    localStorage.setItem(SESSION_ID_KEY, id);
+  }
+  return id;
+}
+
+/** Forget the id on sign-out, so the next sign-in is a new session. */
+export function clearSessionId() {
+  localStorage.removeItem(SESSION_ID_KEY);
+}
+
+/** "Chrome on Windows" style label for the sessions list. */
+export function describeDevice(userAgent: string = navigator.userAgent): string {
+  const browser = /Edg\//.test(userAgent)
+    ? 'Edge'
+    : /OPR\//.test(userAgent)
+      ? 'Opera'
+      : /Firefox\//.test(userAgent)
+        ? 'Firefox'
+        : /Chrome\//.test(userAgent)
+          ? 'Chrome'
+          : /Safari\//.test(userAgent)
+            ? 'Safari'
+            : 'Browser';
+  const os = /iPhone|iPad|iPod/.test(userAgent)
+    ? 'iOS'
+    : /Android/.test(userAgent)
+      ? 'Android'
+      : /Windows/.test(userAgent)
+        ? 'Windows'
+        : /Mac OS X/.test(userAgent)
+          ? 'macOS'
+          : /Linux/.test(userAgent)
+            ? 'Linux'
+            : 'unknown device';
+  return `${browser} on ${os}`;
+}
+
+type SessionRevokedListener = () => void;
+
+const sessionRevokedListeners = new Set<SessionRevokedListener>();
+
+export function subscribeToSessionRevoked(listener: SessionRevokedListener) {
+  sessionRevokedListeners.add(listener);
+  return () => sessionRevokedListeners.delete(listener);
+}
+
+export function notifySessionRevoked() {
+  sessionRevokedListeners.forEach((listener) => listener());
+}
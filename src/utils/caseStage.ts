@@ -0,0 +1,156 @@
+import type { CaseStage, CaseStageChange, Client } from '../types';
+
+export const CASE_STAGES: readonly CaseStage[] = [
+  'intake',
+  'collecting_docs',
+  'ready_to_submit',
+  'submitted',
+  'requerimiento',
+  'resolution',
+  'appeal',
+  'closed',
+];
+
+export const CASE_STAGE_LABELS: Record<CaseStage, string> = {
+  intake: 'Intake',
+  collecting_docs: 'Collecting documents',
+  ready_to_submit: 'Ready to submit',
+  submitted: 'Submitted',
+  requerimiento: 'Requerimiento',
+  resolution: 'Resolution',
+  appeal: 'Appeal',
+  closed: 'Closed',
+};
+
+/** Allowed moves out of each stage. Cases may be submitted before the checklist is complete. */
+export const CASE_STAGE_TRANSITIONS: Record<CaseStage, readonly CaseStage[]> = {
+  intake: ['collecting_docs', 'submitted', 'closed'],
+  collecting_docs: ['ready_to_submit', 'submitted', 'closed'],
+  ready_to_submit: ['collecting_docs', 'submitted', 'closed'],
+  submitted: ['requerimiento', 'resolution', 'appeal', 'closed'],
+  requerimiento: ['submitted', 'resolution', 'appeal', 'closed'],
+  resolution: ['appeal', 'closed'],
+  appeal: ['submitted', 'resolution', 'closed'],
+  closed: ['collecting_docs', 'submitted'],
+};
+
+const PRE_SUBMISSION_STAGES: ReadonlySet<CaseStage> = new Set(['intake', 'collecting_docs', 'ready_to_submit']);
+const SUBMITTED_STAGES: ReadonlySet<CaseStage> = new Set(['submitted', 'requerimiento', 'resolution', 'appeal']);
+
+export function isPreSubmissionStage(stage: CaseStage): boolean {
+  return PRE_SUBMISSION_STAGES.has(stage);
+}
+
+/** Stages where the file is with the administration (everything between submission and closing). */
+export function isSubmittedStage(stage: CaseStage): boolean {
+  return SUBMITTED_STAGES.has(stage);
+}
+
+export function canTransitionCaseStage(from: CaseStage, to: CaseStage): boolean {
+  return CASE_STAGE_TRANSITIONS[from].includes(to);
+}
+
+export function assertCaseStageTransition(from: CaseStage, to: CaseStage): void {
+  if (!canTransitionCaseStage(from, to)) {
+    throw new Error(`Cannot move case from "${CASE_STAGE_LABELS[from]}" to "${CASE_STAGE_LABELS[to]}"`);
+  }
+}
+
+type StageClient = Pick<
+  Client,
+  | 'case_stage'
+  | 'case_stage_history'
+  | 'submitted_to_immigration'
+  | 'recurso_in_appeals_box'
+  | 'application_date'
+  | 'administrative_silence_days'
+  | 'required_documents'
+  | 'requested_documents'
+  | 'resolucion'
+>;
+
+function hasPendingRequestedDocuments(client: Pick<Client, 'requested_documents'>): boolean {
+  return (client.requested_documents || []).some((doc) => !doc.submitted);
+}
+
+/** Pre-submission stages follow the required-document checklist rather than manual moves. */
+function deriveChecklistStage(client: Pick<Client, 'required_documents'>): CaseStage {
+  const requiredDocs = client.required_documents?.filter((doc) => !doc.isOptional) || [];
+  if (requiredDocs.length === 0) return 'intake';
+  return requiredDocs.every((doc) => doc.submitted) ? 'ready_to_submit' : 'collecting_docs';
+}
+
+/** Stage for clients saved before `case_stage` existed, worked out from the legacy flags. */
+function deriveLegacyCaseStage(client: StageClient): CaseStage {
+  if (!client.submitted_to_immigration) return deriveChecklistStage(client);
+  if (client.recurso_in_appeals_box) return 'appeal';
+  if (hasPendingRequestedDocuments(client)) return 'requerimiento';
+  if ((client.resolucion || []).length > 0) return 'resolution';
+  return 'submitted';
+}
+
+/** Single source of truth for where a case currently sits. */
+export function getClientCaseStage(client: StageClient): CaseStage {
+  const stored = client.case_stage;
+  if (!stored) return deriveLegacyCaseStage(client);
+  if (isPreSubmissionStage(stored)) return deriveChecklistStage(client);
+  if (stored === 'submitted' && hasPendingRequestedDocuments(client)) return 'requerimiento';
+  return stored;
+}
+
+/** Application date + silence period has passed (replacement / contentious appeal may be due). */
+export function isAdministrativeSilenceEnded(
+  client: Pick<Client, 'application_date' | 'administrative_silence_days'>,
+  now: Date = new Date()
+): boolean {
+  if (!client.application_date) return false;
+  const silenceEndDate = new Date(client.application_date);
+  silenceEndDate.setDate(silenceEndDate.getDate() + (client.administrative_silence_days || 60));
+  return now > silenceEndDate;
+}
+
+/** Stage to return to when a case leaves the appeals box: whatever it was before, if still reachable. */
+export function getStageBeforeAppeal(client: StageClient): CaseStage {
+  const history = client.case_stage_history || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    const entry = history[i];
+    if (entry.to === 'appeal' && entry.from && canTransitionCaseStage('appeal', entry.from)) {
+      return entry.from;
+    }
+  }
+  return 'submitted';
+}
+
+export type CaseStagePatch = Required<
+  Pick<Client, 'case_stage' | 'case_stage_history' | 'submitted_to_immigration' | 'recurso_in_appeals_box'>
+> &
+  Partial<Pick<Client, 'application_date'>>;
+
+/**
+ * Validate a move and build the client update for it. Legacy flags are kept in sync
+ * so older readers (and the backend) still see a consistent record.
+ */
+export function buildCaseStageTransition(
+  client: StageClient,
+  to: CaseStage,
+  changedBy: string,
+  options?: { note?: string; now?: Date }
+): CaseStagePatch {
+  const from = getClientCaseStage(client);
+  assertCaseStageTransition(from, to);
+
+  const changedAt = (options?.now || new Date()).toISOString();
+  const change: CaseStageChange = { from, to, changedBy, changedAt };
+  if (options?.note?.trim()) change.note = options.note.trim();
+
+  const patch: CaseStagePatch = {
+    case_stage: to,
+    case_stage_history: [...(client.case_stage_history || []), change],
+    submitted_to_immigration: to === 'closed' ? client.submitted_to_immigration : isSubmittedStage(to),
+    recurso_in_appeals_box: to === 'appeal',
+  };
+  if (to === 'submitted' && !client.submitted_to_immigration) {
+    patch.application_date = changedAt;
+  }
+  return patch;
+}
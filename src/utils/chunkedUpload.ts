@@ -0,0 +1,233 @@
+import type { UploadSession } from '../types';
+import { getCurrentUser } from './firebase';
+import { isAbortError } from './request';
+
+// Large scans (30–80 MB) are sent to the backend in chunks. An upload that dies halfway
+// continues from the last acknowledged byte instead of starting over, and only the chunk
+// that failed is retried. The finished upload is then attached to a client by its id.
+
+export const UPLOAD_CHUNK_SIZE = 5 * 1024 * 1024;
+
+const MAX_CHUNK_ATTEMPTS = 4;
+const RETRY_BASE_DELAY = 1000;
+// Upload ids by user and file, so picking the same file again after a reload resumes it
+const PENDING_UPLOADS_KEY = 'pendingUploads';
+
+export type UploadStatus = 'pending' | 'uploading' | 'paused' | 'failed' | 'complete';
+
+export interface UploadProgress {
+  loaded: number;
+  total: number;
+  status: UploadStatus;
+  error?: string;
+}
+
+/** Server endpoints a ChunkedUpload talks to (implemented in api.ts). */
+export interface UploadTransport {
+  create(file: File): Promise<UploadSession>;
+  /** Current state of an earlier upload, or null when the server no longer has it. */
+  status(uploadId: string): Promise<UploadSession | null>;
+  sendChunk(
+    uploadId: string,
+    offset: number,
+    chunk: Blob,
+    onProgress: (loaded: number) => void,
+    signal: AbortSignal
+  ): Promise<UploadSession>;
+}
+
+/** A chunk was rejected; 409 means the server's offset differs from ours. */
+export class UploadChunkError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string
+  ) {
+    super(message);
+    this.name = 'UploadChunkError';
+  }
+}
+
+export interface ChunkedUploadOptions {
+  onProgress?: (progress: UploadProgress) => void;
+  /**
+   * When a chunk keeps failing, wait in `failed` until resume() instead of rejecting.
+   * Used by the smart-upload queue, where the user retries from the progress list.
+   */
+  pauseOnError?: boolean;
+}
+
+/** Per signed-in user: on a shared computer another user's upload session is not theirs to resume. */
+function pendingUploadKey(file: File): string {
+  return `${getCurrentUser()?.uid ?? 'signed-out'}:${file.name}:${file.size}:${file.lastModified}`;
+}
+
+function readPendingUploads(): Record<string, string> {
+  try {
+    return JSON.parse(localStorage.getItem(PENDING_UPLOADS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+function writePendingUpload(file: File, uploadId: string | null): void {
+  const pending = readPendingUploads();
+  if (uploadId) pending[pendingUploadKey(file)] = uploadId;
+  else delete pending[pendingUploadKey(file)];
+  try {
+    localStorage.setItem(PENDING_UPLOADS_KEY, JSON.stringify(pending));
+  } catch {
+    // storage full or disabled: the upload still works, it just can't resume after a reload
+  }
+}
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function cancelledError(): DOMException {
+  return new DOMException('The upload was cancelled', 'AbortError');
+}
+
+export class ChunkedUpload {
+  private uploadId: string | null = null;
+  private offset = 0;
+  private chunkSize = UPLOAD_CHUNK_SIZE;
+  private status: UploadStatus = 'pending';
+  private error: string | undefined;
+  private cancelled = false;
+  private controller: AbortController | null = null;
+  private wake: (() => void) | null = null;
+  private running: Promise<string> | null = null;
+
+  constructor(
+    readonly file: File,
+    private readonly transport: UploadTransport,
+    private readonly options: ChunkedUploadOptions = {}
+  ) {}
+
+  get progress(): UploadProgress {
+    return { loaded: this.offset, total: this.file.size, status: this.status, error: this.error };
+  }
+
+  /** Upload the file; resolves with the upload id once every byte is on the server. */
+  start(): Promise<string> {
+    if (!this.running) this.running = this.run();
+    return this.running;
+  }
+
+  /** Stop after aborting the chunk in flight; resume() continues from the last acknowledged byte. */
+  pause(): void {
+    if (this.status !== 'uploading') return;
+    this.setStatus('paused');
+    this.controller?.abort();
+  }
+
+  /** Continue a paused upload, or retry a failed chunk. */
+  resume(): void {
+    if (this.status !== 'paused' && this.status !== 'failed') return;
+    this.setStatus('uploading');
+    this.wake?.();
+  }
+
+  /** Give up on this file; start() rejects with an AbortError. */
+  cancel(): void {
+    this.cancelled = true;
+    this.controller?.abort();
+    this.wake?.();
+    writePendingUpload(this.file, null);
+  }
+
+  private setStatus(status: UploadStatus, error?: string): void {
+    this.status = status;
+    this.error = error;
+    this.report(this.offset);
+  }
+
+  private report(loaded: number): void {
+    this.options.onProgress?.({ ...this.progress, loaded: Math.min(loaded, this.file.size) });
+  }
+
+  private waitForResume(): Promise<void> {
+    return new Promise((resolve) => {
+      this.wake = () => {
+        this.wake = null;
+        resolve();
+      };
+    });
+  }
+
+  private async run(): Promise<string> {
+    this.setStatus('uploading');
+    while (!this.uploadId || this.offset < this.file.size) {
+      if (this.cancelled) throw cancelledError();
+      if (this.status !== 'uploading') {
+        await this.waitForResume();
+        continue;
+      }
+      try {
+        if (this.uploadId) await this.sendNextChunk();
+        else await this.open();
+      } catch (error) {
+        if (this.cancelled) throw cancelledError();
+        if (isAbortError(error) && this.progress.status === 'paused') continue;
+        const message = error instanceof Error ? error.message : 'Upload failed';
+        this.setStatus('failed', message);
+        if (!this.options.pauseOnError) throw error;
+      }
+    }
+    writePendingUpload(this.file, null);
+    this.setStatus('complete');
+    return this.uploadId;
+  }
+
+  /** Pick up where an earlier attempt at this file stopped, or start a new upload. */
+  private async open(): Promise<void> {
+    const previousId = readPendingUploads()[pendingUploadKey(this.file)];
+    const previous = previousId ? await this.transport.status(previousId) : null;
+    const session = previous && previous.size === this.file.size ? previous : await this.transport.create(this.file);
+    this.uploadId = session.upload_id;
+    this.offset = session.offset;
+    if (session.chunk_size) this.chunkSize = session.chunk_size;
+    writePendingUpload(this.file, session.upload_id);
+    this.report(this.offset);
+  }
+
+  /** Send the chunk at the current offset, retrying just that chunk with backoff. */
+  private async sendNextChunk(): Promise<void> {
+    const uploadId = this.uploadId as string;
+    const start = this.offset;
+    const chunk = this.file.slice(start, Math.min(start + this.chunkSize, this.file.size));
+    for (let attempt = 1; ; attempt++) {
+      this.controller = new AbortController();
+      try {
+        const session = await this.transport.sendChunk(
+          uploadId,
+          start,
+          chunk,
+          (loaded) => this.report(start + loaded),
+          this.controller.signal
+        );
+        this.offset = session.offset;
+        this.report(this.offset);
+        return;
+      } catch (error) {
+        if (isAbortError(error) || attempt >= MAX_CHUNK_ATTEMPTS) throw error;
+        if (error instanceof UploadChunkError && error.status === 409) {
+          // We lost track of what the server has (e.g. an ack that never arrived); ask it
+          const session = await this.transport.status(uploadId);
+          if (!session) throw new Error('The upload expired on the server. Please choose the file again.');
+          this.offset = session.offset;
+          this.report(this.offset);
+          return;
+        }
+        console.warn(`⚠️ Chunk at ${start} of ${this.file.name} failed, retrying (${attempt}/${MAX_CHUNK_ATTEMPTS - 1}):`, error);
+        await delay(RETRY_BASE_DELAY * 2 ** (attempt - 1));
+        if (this.status !== 'uploading') throw cancelledError();
+      }
+    }
+  }
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -0,0 +1,51 @@
+import type { ClientActivity, ClientActivityAction } from '../types';
+
+export const CLIENT_ACTIVITY_LABELS: Record<ClientActivityAction, string> = {
+  stage_changed: 'Stage changed',
+  template_changed: 'Template changed',
+  payment_added: 'Payment added',
+  payment_edited: 'Payment edited',
+  payment_summary_edited: 'Payment summary edited',
+  note_deleted: 'Note deleted',
+  document_removed: 'Document removed',
+  document_reclassified: 'Document refiled',
+  checklist_updated: 'Checklist updated from template',
+  family_linked: 'Family member linked',
+  family_unlinked: 'Family member unlinked',
+  document_shared: 'Shared document linked',
+  data_exported: 'Personal data exported',
+};
+
+/** Newest first, optionally narrowed to a single action type. */
+export function filterClientActivity(
+  entries: ClientActivity[],
+  action: ClientActivityAction | 'all'
+): ClientActivity[] {
+  return entries
+    .filter((entry) => action === 'all' || entry.action === action)
+    .sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime());
+}
+
+export function formatActivityValue(value: unknown): string {
+  if (value === undefined || value === null || value === '') return '';
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+  return JSON.stringify(value);
+}
+
+function csvCell(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function buildClientActivityCsv(entries: ClientActivity[]): string {
+  const header = ['Date', 'User', 'Action', 'Summary', 'Before', 'After'];
+  const rows = entries.map((entry) => [
+    entry.created_at,
+    entry.actor,
+    CLIENT_ACTIVITY_LABELS[entry.action] || entry.action,
+    entry.summary,
+    formatActivityValue(entry.before),
+    formatActivityValue(entry.after),
+  ]);
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
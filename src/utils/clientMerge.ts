@@ -0,0 +1,82 @@
+import type { Payment } from '../types';
+import { ImportantNoteEntry, parseImportantNotes, serializeImportantNotes } from './clientNoteScheduling';
+
+/** Who is responsible for an entry ending up in (or out of) the merged list. */
+export type MergeSource = 'unchanged' | 'mine' | 'theirs';
+
+export interface MergedEntry<T> {
+  item: T;
+  source: MergeSource;
+}
+
+export interface ListMerge<T> {
+  items: MergedEntry<T>[];
+  /** Base entries dropped by one side (and kept by the other). */
+  removed: MergedEntry<T>[];
+}
+
+/** Key each entry by content plus occurrence, so two identical payments on one day stay distinct. */
+function keyed<T>(items: T[], keyOf: (item: T) => string): Array<{ key: string; item: T }> {
+  const seen = new Map<string, number>();
+  return items.map((item) => {
+    const base = keyOf(item);
+    const n = seen.get(base) || 0;
+    seen.set(base, n + 1);
+    return { key: `${base}#${n}`, item };
+  });
+}
+
+/**
+ * Three-way merge of two edits of the same list. Entries are treated as immutable: an edited
+ * entry is a removal plus an addition, so when both sides edit the same entry both new
+ * versions survive and the user picks in the merge dialog. Keeps the server's order and
+ * appends our additions.
+ */
+export function mergeLists<T>(base: T[], mine: T[], theirs: T[], keyOf: (item: T) => string): ListMerge<T> {
+  const baseKeys = new Set(keyed(base, keyOf).map((entry) => entry.key));
+  const mineEntries = keyed(mine, keyOf);
+  const theirEntries = keyed(theirs, keyOf);
+  const mineKeys = new Set(mineEntries.map((entry) => entry.key));
+  const theirKeys = new Set(theirEntries.map((entry) => entry.key));
+
+  const items: MergedEntry<T>[] = [];
+  const removed: MergedEntry<T>[] = [];
+
+  for (const { key, item } of theirEntries) {
+    const inBase = baseKeys.has(key);
+    if (inBase && !mineKeys.has(key)) {
+      removed.push({ item, source: 'mine' });
+    } else {
+      items.push({ item, source: inBase || mineKeys.has(key) ? 'unchanged' : 'theirs' });
+    }
+  }
+  for (const { key, item } of mineEntries) {
+    if (!baseKeys.has(key) && !theirKeys.has(key)) items.push({ item, source: 'mine' });
+  }
+  for (const { key, item } of keyed(base, keyOf)) {
+    if (!theirKeys.has(key) && mineKeys.has(key)) removed.push({ item, source: 'theirs' });
+  }
+
+  return { items, removed };
+}
+
+export function mergedItems<T>(merge: ListMerge<T>): T[] {
+  return merge.items.map((entry) => entry.item);
+}
+
+const noteKey = (entry: ImportantNoteEntry) => `${entry.dateLabel || ''}|${entry.text.trim()}`;
+
+export function mergeImportantNotes(base: string, mine: string, theirs: string): ListMerge<ImportantNoteEntry> {
+  return mergeLists(parseImportantNotes(base), parseImportantNotes(mine), parseImportantNotes(theirs), noteKey);
+}
+
+export function serializeNoteMerge(merge: ListMerge<ImportantNoteEntry>): string {
+  return serializeImportantNotes(mergedItems(merge));
+}
+
+const paymentKey = (payment: Payment) =>
+  [payment.date, Number(payment.amount) || 0, payment.method || '', payment.note || '', payment.entryType || ''].join('|');
+
+export function mergePaymentLines(base: Payment[], mine: Payment[], theirs: Payment[]): ListMerge<Payment> {
+  return mergeLists(base, mine, theirs, paymentKey);
+}
@@ -298,7 +298,8 @@ function buildReminderPayload(
   client: Pick<Client, 'id' | 'first_name' | 'last_name' | 'phone'>,
   deadline: Date,
   noteText: string,
-  reminderType: 'URGENTES' | 'RECORDATORIO'
+  reminderType: 'URGENTES' | 'RECORDATORIO',
+  redactEncryptedFields: boolean
 ): ReminderPayload {
   const reminderAt = new Date(deadline);
   reminderAt.setHours(9, 0, 0, 0);
@@ -306,18 +307,23 @@ function buildReminderPayload(
     client_id: client.id,
     client_name: client.first_name,
     client_surname: client.last_name,
-    phone: client.phone,
+    phone: redactEncryptedFields ? undefined : client.phone,
     reminder_date: reminderAt.toISOString(),
     notes: noteText,
     reminder_type: reminderType,
   };
 }
 
+/**
+ * With `redactEncryptedFields` (field encryption on, see utils/fieldEncryption) the reminder
+ * carries neither the phone nor the note text: reminders are stored in plaintext.
+ */
 export function buildNoteSchedulingPatch(
   incomingText: string,
   existingNotes: string,
   client: Pick<Client, 'id' | 'first_name' | 'last_name' | 'phone' | 'custom_reminder_date'>,
-  mode: 'notes' | 'details'
+  mode: 'notes' | 'details',
+  redactEncryptedFields = false
 ): NoteSchedulingPatch {
   const trimmed = incomingText.trim();
   let notes = mode === 'notes' ? incomingText : existingNotes;
@@ -342,13 +348,20 @@ export function buildNoteSchedulingPatch(
     isWithinUrgentWindow(deadline) || hasUrgentLanguage(trimmed);
 
   if (shouldCreateUrgentReminder) {
-    patch.urgentReminder = buildReminderPayload(client, deadline, trimmed, 'URGENTES') as UrgentReminderPayload;
+    patch.urgentReminder = buildReminderPayload(
+      client,
+      deadline,
+      redactEncryptedFields ? 'Urgent follow-up from Important Notes' : trimmed,
+      'URGENTES',
+      redactEncryptedFields
+    ) as UrgentReminderPayload;
   } else {
     patch.calendarReminder = buildReminderPayload(
       client,
       deadline,
-      `Important note: ${trimmed}`,
-      'RECORDATORIO'
+      redactEncryptedFields ? 'Follow-up from Important Notes' : `Important note: ${trimmed}`,
+      'RECORDATORIO',
+      redactEncryptedFields
     ) as CalendarReminderPayload;
   }
 
@@ -0,0 +1,209 @@
+import type { CivilStatus, Client, ClientRelationship } from '../types';
+import { COUNTRY_CODES } from '../data/countries';
+import { SPANISH_PROVINCES } from '../data/spanishProvinces';
+import { ENCRYPTED_PLACEHOLDER } from './fieldEncryption';
+
+// Structured identity and address fields of a client, edited in CreateClientModal and the
+// ClientDetailsModal info editor. The form keeps everything as strings; the helpers below
+// validate it and turn it into client fields. Encrypted fields shown while the firm key is
+// locked hold ENCRYPTED_PLACEHOLDER, which passes through untouched.
+
+export type ClientProfile = Pick<
+  Client,
+  | 'date_of_birth'
+  | 'civil_status'
+  | 'nationality'
+  | 'relationship'
+  | 'nie'
+  | 'passport_number'
+  | 'passport_expiry'
+  | 'address_line'
+  | 'postal_code'
+  | 'city'
+  | 'province'
+>;
+
+export interface ClientProfileForm {
+  dateOfBirth: string;
+  civilStatus: CivilStatus | '';
+  nationality: string;
+  relationship: ClientRelationship | '';
+  nie: string;
+  passportNumber: string;
+  passportExpiry: string;
+  addressLine: string;
+  postalCode: string;
+  city: string;
+  province: string;
+}
+
+export type ClientProfileErrors = Partial<Record<keyof ClientProfileForm, string>>;
+
+export const EMPTY_CLIENT_PROFILE_FORM: ClientProfileForm = {
+  dateOfBirth: '',
+  civilStatus: '',
+  nationality: '',
+  relationship: '',
+  nie: '',
+  passportNumber: '',
+  passportExpiry: '',
+  addressLine: '',
+  postalCode: '',
+  city: '',
+  province: '',
+};
+
+export function clientProfileForm(client: ClientProfile): ClientProfileForm {
+  return {
+    dateOfBirth: client.date_of_birth || '',
+    civilStatus: client.civil_status || '',
+    nationality: client.nationality || '',
+    relationship: client.relationship || '',
+    nie: client.nie || '',
+    passportNumber: client.passport_number || '',
+    passportExpiry: client.passport_expiry || '',
+    addressLine: client.address_line || '',
+    postalCode: client.postal_code || '',
+    city: client.city || '',
+    province: client.province || '',
+  };
+}
+
+/** Client fields from a validated form; empty fields come back undefined. */
+export function clientProfileFromForm(form: ClientProfileForm): ClientProfile {
+  return {
+    date_of_birth: form.dateOfBirth || undefined,
+    civil_status: form.civilStatus || undefined,
+    nationality: form.nationality.trim().toUpperCase() || undefined,
+    relationship: form.relationship || undefined,
+    nie: form.nie === ENCRYPTED_PLACEHOLDER ? form.nie : normalizeSpanishId(form.nie) || undefined,
+    passport_number:
+      form.passportNumber === ENCRYPTED_PLACEHOLDER ? form.passportNumber : normalizePassportNumber(form.passportNumber) || undefined,
+    passport_expiry: form.passportExpiry || undefined,
+    address_line: form.addressLine.trim() || undefined,
+    postal_code: form.postalCode.trim() || undefined,
+    city: form.city.trim() || undefined,
+    province: form.province || undefined,
+  };
+}
+
+// --- NIE / NIF ---
+
+const ID_CHECK_LETTERS = 'TRWAGMYFPDXBNJZSQVHLCKE';
+
+export function normalizeSpanishId(value: string): string {
+  return value.toUpperCase().replace(/[\s.-]/g, '');
+}
+
+export type SpanishIdType = 'NIE' | 'NIF';
+
+/** Recognises a DNI/NIF (12345678Z), NIE (X1234567L) or K/L/M NIF and checks its control letter. */
+export function validateSpanishId(value: string): { type: SpanishIdType | null; error?: string } {
+  const id = normalizeSpanishId(value);
+  const nie = id.match(/^([XYZ])(\d{7})([A-Z])$/);
+  const nif = id.match(/^(\d{8})([A-Z])$/) || id.match(/^[KLM](\d{7})([A-Z])$/);
+  if (!nie && !nif) {
+    return { type: null, error: 'Expected a NIE (X1234567L) or NIF (12345678Z)' };
+  }
+  const type: SpanishIdType = nie ? 'NIE' : 'NIF';
+  const number = nie ? Number(`${'XYZ'.indexOf(nie[1])}${nie[2]}`) : Number(nif![1]);
+  const letter = nie ? nie[3] : nif![2];
+  const expected = ID_CHECK_LETTERS[number % 23];
+  if (letter !== expected) {
+    return { type, error: `Check letter should be ${expected}` };
+  }
+  return { type };
+}
+
+export function normalizePassportNumber(value: string): string {
+  return value.toUpperCase().replace(/\s/g, '');
+}
+
+// --- Countries and provinces ---
+
+let countryNames: Intl.DisplayNames | null | undefined;
+
+/** Country name in Spanish, falling back to the code where the browser has no names. */
+export function getCountryName(code: string): string {
+  if (countryNames === undefined) {
+    try {
+      countryNames = new Intl.DisplayNames(['es'], { type: 'region' });
+    } catch {
+      countryNames = null;
+    }
+  }
+  return countryNames?.of(code.toUpperCase()) || code.toUpperCase();
+}
+
+/** Countries for a select, sorted by name. */
+export function getCountryOptions(): Array<{ code: string; name: string }> {
+  return COUNTRY_CODES.map((code) => ({ code, name: getCountryName(code) })).sort((a, b) =>
+    a.name.localeCompare(b.name, 'es')
+  );
+}
+
+export function getProvinceName(code: string | undefined): string | undefined {
+  return code ? SPANISH_PROVINCES[code] : undefined;
+}
+
+/** Province code from a Spanish postal code (its first two digits), if the code is valid. */
+export function provinceFromPostalCode(postalCode: string): string | undefined {
+  const trimmed = postalCode.trim();
+  return /^\d{5}$/.test(trimmed) && SPANISH_PROVINCES[trimmed.slice(0, 2)] ? trimmed.slice(0, 2) : undefined;
+}
+
+// --- Validation ---
+
+function isValidDate(value: string): boolean {
+  return /^\d{4}-\d{2}-\d{2}$/.test(value) && !Number.isNaN(new Date(value).getTime());
+}
+
+export function validateClientProfileForm(form: ClientProfileForm, today: Date = new Date()): ClientProfileErrors {
+  const errors: ClientProfileErrors = {};
+  const todayIso = today.toISOString().slice(0, 10);
+
+  if (form.dateOfBirth && (!isValidDate(form.dateOfBirth) || form.dateOfBirth > todayIso)) {
+    errors.dateOfBirth = 'Enter a date of birth in the past';
+  }
+  const nationality = form.nationality.trim().toUpperCase();
+  if (nationality && !COUNTRY_CODES.includes(nationality)) {
+    errors.nationality = 'Choose a country from the list';
+  }
+  if (form.nie.trim() && form.nie !== ENCRYPTED_PLACEHOLDER) {
+    const { error } = validateSpanishId(form.nie);
+    if (error) errors.nie = error;
+  }
+  const passport = form.passportNumber === ENCRYPTED_PLACEHOLDER ? '' : normalizePassportNumber(form.passportNumber);
+  if (passport && !/^[A-Z0-9]{5,20}$/.test(passport)) {
+    errors.passportNumber = 'Use 5–20 letters and digits';
+  }
+  if (form.passportExpiry && !isValidDate(form.passportExpiry)) {
+    errors.passportExpiry = 'Enter a valid date';
+  }
+  const postalCode = form.postalCode.trim();
+  if (postalCode) {
+    const province = provinceFromPostalCode(postalCode);
+    if (!province) {
+      errors.postalCode = 'Spanish postal codes have 5 digits, starting 01–52';
+    } else if (form.province && form.province !== province) {
+      errors.postalCode = `This postal code is in ${SPANISH_PROVINCES[province]}`;
+    }
+  }
+  return errors;
+}
+
+// --- Search ---
+
+/** Whether the query matches the client's NIE, passport, nationality or address. */
+export function clientMatchesProfileSearch(client: ClientProfile, raw: string): boolean {
+  const query = raw.trim().toLowerCase();
+  if (!query) return false;
+  const compact = normalizeSpanishId(raw);
+  if (compact.length >= 3 && [client.nie, client.passport_number].some((id) => id?.includes(compact))) {
+    return true;
+  }
+  const nationality = client.nationality ? `${client.nationality} ${getCountryName(client.nationality)}` : '';
+  return [nationality, client.address_line, client.postal_code, client.city, getProvinceName(client.province)].some(
+    (text) => (text || '').toLowerCase().includes(query)
+  );
+}
@@ -0,0 +1,191 @@
+import JSZip from 'jszip';
+import type { CaseStage, Client, ClientActivity, ErasureReason, RequiredDocument, RetentionPolicy } from '../types';
+import { CASE_STAGE_LABELS, getClientCaseStage } from './caseStage';
+import { formatClientFullName } from './clientNames';
+import { DOCUMENT_COLLECTIONS, DocumentCollectionKind } from './documentCollections';
+import { getDocumentReferences } from './familyLinks';
+import { ENCRYPTED_CLIENT_FIELDS, ENCRYPTED_PLACEHOLDER } from './fieldEncryption';
+
+// GDPR tooling: the data-subject export package, retention per case stage and the purge
+// preview. Erasure itself happens on the server (api.eraseClient), which leaves a tombstone.
+
+export const ERASURE_REASON_LABELS: Record<ErasureReason, string> = {
+  data_subject_request: 'Erasure request from the client',
+  retention_expired: 'Retention period ended',
+};
+
+/** How far ahead the purge preview looks for clients that will soon be due. */
+export const PURGE_PREVIEW_HORIZON_DAYS = 30;
+
+// --- Retention ---
+
+/** When the case entered its current stage: the latest history entry into it, else the last update. */
+export function getStageEnteredAt(client: Client): string {
+  const stage = getClientCaseStage(client);
+  const history = client.case_stage_history || [];
+  for (let i = history.length - 1; i >= 0; i--) {
+    if (history[i].to === stage) return history[i].changedAt;
+  }
+  return client.updated_at;
+}
+
+/** The date the client's data may be purged under the policy, or null if its stage is kept. */
+export function getRetentionDueDate(client: Client, policy: RetentionPolicy): Date | null {
+  const months = policy.retention_months[getClientCaseStage(client)];
+  if (months === undefined || months <= 0) return null;
+  const due = new Date(getStageEnteredAt(client));
+  if (Number.isNaN(due.getTime())) return null;
+  due.setMonth(due.getMonth() + months);
+  return due;
+}
+
+export interface PurgeCandidate {
+  client: Client;
+  stage: CaseStage;
+  dueAt: Date;
+}
+
+/** Clients past retention (`due`), and those reaching it within the horizon (`upcoming`), oldest first. */
+export function getPurgePreview(
+  clients: Client[],
+  policy: RetentionPolicy,
+  now: Date = new Date(),
+  horizonDays = PURGE_PREVIEW_HORIZON_DAYS
+): { due: PurgeCandidate[]; upcoming: PurgeCandidate[] } {
+  const horizon = new Date(now);
+  horizon.setDate(horizon.getDate() + horizonDays);
+  const candidates = clients
+    .map((client) => ({ client, stage: getClientCaseStage(client), dueAt: getRetentionDueDate(client, policy) }))
+    .filter((candidate): candidate is PurgeCandidate => candidate.dueAt !== null && candidate.dueAt <= horizon)
+    .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+  return {
+    due: candidates.filter((candidate) => candidate.dueAt <= now),
+    upcoming: candidates.filter((candidate) => candidate.dueAt > now),
+  };
+}
+
+// --- Export ---
+
+interface ExportFile {
+  folder: string;
+  name: string;
+  fileUrl: string;
+}
+
+/**
+ * Every file the client uploaded, grouped by the section it was uploaded to. Documents shared
+ * from a family member are theirs, not this client's, and are left out.
+ */
+export function getClientFiles(client: Client): ExportFile[] {
+  const files: ExportFile[] = [];
+  const add = (folder: string, doc: { name?: string; fileName?: string; fileUrl?: string }) => {
+    if (!doc.fileUrl) return;
+    // Like the documents ZIP: the uploaded name, else the stored one if it has an extension
+    const fromUrl = decodeURIComponent(doc.fileUrl.split('/').pop()?.split('?')[0] || '');
+    const name = doc.fileName || (fromUrl.includes('.') ? fromUrl : doc.name) || 'document';
+    files.push({ folder, name, fileUrl: doc.fileUrl });
+  };
+  client.required_documents.filter((doc) => !doc.sharedFrom).forEach((doc) => add('Required documents', doc));
+  (client.requested_documents || []).forEach((doc) => add('Requested documents', doc));
+  for (const kind of Object.keys(DOCUMENT_COLLECTIONS) as DocumentCollectionKind[]) {
+    (client[kind] || []).forEach((doc) => add(DOCUMENT_COLLECTIONS[kind].title, doc));
+  }
+  return files;
+}
+
+/** Family members' checklist entries that point at this client's uploads; they go when the client is erased. */
+export function getSharedDocumentReferences(
+  client: Client,
+  clients: Client[]
+): Array<{ client: Client; document: RequiredDocument }> {
+  return client.required_documents
+    .filter((doc) => doc.fileUrl && !doc.sharedFrom)
+    .flatMap((doc) => getDocumentReferences(client.id, doc.code, clients));
+}
+
+/** Clients linked to this one as family, from either side; their links go when the client is erased. */
+export function getFamilyLinkedClients(client: Client, clients: Client[]): Client[] {
+  const linkedIds = new Set((client.family_links || []).map((link) => link.client_id));
+  return clients.filter(
+    (other) =>
+      other.id !== client.id &&
+      (linkedIds.has(other.id) || (other.family_links || []).some((link) => link.client_id === client.id))
+  );
+}
+
+function safeZipName(name: string): string {
+  return name.replace(/[/\\?%*:|"<>]/g, '_').trim() || 'document';
+}
+
+/** A file name not yet used in the folder: "scan.pdf", then "scan (2).pdf". */
+function uniqueZipPath(used: Set<string>, folder: string, name: string): string {
+  const dot = name.lastIndexOf('.');
+  const base = dot > 0 ? name.slice(0, dot) : name;
+  const ext = dot > 0 ? name.slice(dot) : '';
+  let path = `files/${safeZipName(folder)}/${name}`;
+  for (let n = 2; used.has(path); n++) path = `files/${safeZipName(folder)}/${base} (${n})${ext}`;
+  used.add(path);
+  return path;
+}
+
+export interface ClientDataExport {
+  blob: Blob;
+  fileCount: number;
+  /** Files that could not be downloaded; listed in the package README. */
+  failedFiles: string[];
+}
+
+/**
+ * The access-request package for one client: profile, payments, notes and activity as JSON,
+ * plus every uploaded file. Encrypted fields must be readable, so the firm key has to be
+ * unlocked when the client has any.
+ */
+export async function buildClientDataExport(
+  client: Client,
+  activity: ClientActivity[],
+  fetchFile: (fileUrl: string) => Promise<Blob>,
+  now: Date = new Date()
+): Promise<ClientDataExport> {
+  if (ENCRYPTED_CLIENT_FIELDS.some((field) => client[field] === ENCRYPTED_PLACEHOLDER)) {
+    throw new Error('Unlock client data with the firm passphrase before exporting it.');
+  }
+
+  const profile: Record<string, unknown> = { ...client };
+  for (const key of ['payment', 'notes', 'encrypted_values', 'version']) delete profile[key];
+  for (const field of ENCRYPTED_CLIENT_FIELDS) delete profile[`${field}_bidx`];
+
+  const zip = new JSZip();
+  zip.file('profile.json', JSON.stringify(profile, null, 2));
+  zip.file('payments.json', JSON.stringify(client.payment, null, 2));
+  zip.file('notes.json', JSON.stringify({ notes: client.notes || '' }, null, 2));
+  zip.file('activity.json', JSON.stringify(activity, null, 2));
+
+  const used = new Set<string>();
+  const failedFiles: string[] = [];
+  let fileCount = 0;
+  for (const file of getClientFiles(client)) {
+    try {
+      zip.file(uniqueZipPath(used, file.folder, safeZipName(file.name)), await fetchFile(file.fileUrl));
+      fileCount++;
+    } catch (error) {
+      console.error(`❌ Failed to fetch ${file.name} for the data export:`, error);
+      failedFiles.push(`${file.folder}/${file.name}`);
+    }
+  }
+
+  const readme = [
+    `Personal data held for ${formatClientFullName(client)}`,
+    `Exported ${now.toISOString()}`,
+    `Case stage: ${CASE_STAGE_LABELS[getClientCaseStage(client)]}`,
+    '',
+    'profile.json   Identity, contact, case and document details',
+    'payments.json  Fees and payments received',
+    'notes.json     Case notes',
+    'activity.json  Changes made to the file, with who made them',
+    `files/         ${fileCount} uploaded file(s), by section`,
+    ...(failedFiles.length > 0 ? ['', 'Files that could not be included:', ...failedFiles.map((name) => `- ${name}`)] : []),
+  ];
+  zip.file('README.txt', readme.join('\n'));
+
+  return { blob: await zip.generateAsync({ type: 'blob' }), fileCount, failedFiles };
+}
@@ -0,0 +1,39 @@
+import type { DeltaResponse } from '../types';
+
+/** List endpoints that accept an `updated_since` cursor. */
+export type DeltaResource = 'clients' | 'case-templates' | 'reminders' | 'appointments';
+
+/**
+ * Apply changed records and tombstones to a cached list. Updated records replace
+ * their cached copy in place; new ones are appended. Returns the same array when
+ * nothing changed so React can skip the re-render.
+ */
+export function mergeDelta<T extends { id: string }>(
+  items: T[],
+  delta: Pick<DeltaResponse<T>, 'updated' | 'deleted'>
+): T[] {
+  if (delta.updated.length === 0 && delta.deleted.length === 0) return items;
+
+  const deletedIds = new Set(delta.deleted.map((tombstone) => tombstone.id));
+  const updatedById = new Map(delta.updated.map((item) => [item.id, item]));
+  const merged = items
+    .filter((item) => !deletedIds.has(item.id))
+    .map((item) => updatedById.get(item.id) ?? item);
+
+  const cachedIds = new Set(items.map((item) => item.id));
+  for (const item of delta.updated) {
+    if (!cachedIds.has(item.id) && !deletedIds.has(item.id)) merged.push(item);
+  }
+  return merged;
+}
+
+/** Cursor after a full load: the newest `updated_at`, which comes from the server clock. */
+export function latestUpdatedAt(items: Array<{ updated_at?: string }>): string | null {
+  let latest: string | null = null;
+  for (const item of items) {
+    if (item.updated_at && (!latest || new Date(item.updated_at) > new Date(latest))) {
+      latest = item.updated_at;
+    }
+  }
+  return latest;
+}
@@ -0,0 +1,144 @@
+import type { AdditionalDocument, Client } from '../types';
+
+/** Client fields that hold a list of named, optionally-uploaded documents. */
+export type DocumentCollectionKind = {
+  [K in keyof Client]-?: Client[K] extends AdditionalDocument[] | undefined ? K : never;
+}[keyof Client];
+
+/** Tailwind classes per collection — spelled out in full so the JIT compiler picks them up. */
+export interface DocumentCollectionTheme {
+  section: string;
+  accentBar: string;
+  button: string;
+  form: string;
+  focusRing: string;
+  card: string;
+  icon: string;
+  outlineButton: string;
+  solidButton: string;
+}
+
+export interface DocumentCollectionConfig {
+  kind: DocumentCollectionKind;
+  title: string;
+  /** Path segment under /clients/:id/ on the backend. */
+  endpoint: string;
+  namePlaceholder: string;
+  emptyMessage: string;
+  /** Narrow which entries of the client field this section lists (defaults to all). */
+  includeDocument?: (doc: AdditionalDocument) => boolean;
+  theme: DocumentCollectionTheme;
+}
+
+export const DOCUMENT_COLLECTIONS: Record<DocumentCollectionKind, DocumentCollectionConfig> = {
+  additional_documents: {
+    kind: 'additional_documents',
+    title: 'Additional Documents',
+    endpoint: 'additional-documents',
+    namePlaceholder: 'e.g., Additional Certificate',
+    emptyMessage: 'No additional documents uploaded yet.',
+    // Smart-upload files flagged for All Documents are listed in that section instead
+    includeDocument: (doc) => !doc.allDocumentsSection,
+    theme: {
+      section: 'from-purple-50/50',
+      accentBar: 'from-purple-600 to-pink-600',
+      button: 'bg-purple-600 hover:bg-purple-700',
+      form: 'bg-purple-50 border-purple-200',
+      focusRing: 'focus:ring-purple-500',
+      card: 'border-purple-300 from-purple-50',
+      icon: 'text-purple-600',
+      outlineButton: 'text-purple-600 hover:text-purple-700 hover:bg-purple-50 border-purple-200 hover:border-purple-300',
+      solidButton: 'bg-purple-600 hover:bg-purple-700 border-purple-700',
+    },
+  },
+  justificante_presentacion: {
+    kind: 'justificante_presentacion',
+    title: 'JUSTIFICANTE DE PRESENTACION',
+    endpoint: 'justificante-presentacion',
+    namePlaceholder: 'e.g., Justificante de Presentación',
+    emptyMessage: 'No documents uploaded yet.',
+    theme: {
+      section: 'from-indigo-50/50',
+      accentBar: 'from-indigo-600 to-purple-600',
+      button: 'bg-indigo-600 hover:bg-indigo-700',
+      form: 'bg-indigo-50 border-indigo-200',
+      focusRing: 'focus:ring-indigo-500',
+      card: 'border-indigo-300 from-indigo-50',
+      icon: 'text-indigo-600',
+      outlineButton: 'text-indigo-600 hover:text-indigo-700 hover:bg-indigo-50 border-indigo-200 hover:border-indigo-300',
+      solidButton: 'bg-indigo-600 hover:bg-indigo-700 border-indigo-700',
+    },
+  },
+  aportar_documentacion: {
+    kind: 'aportar_documentacion',
+    title: 'APORTAR DOCUMENTACIÓN',
+    endpoint: 'aportar-documentacion',
+    namePlaceholder: 'e.g., Additional Certificate',
+    emptyMessage: 'No documents uploaded yet.',
+    theme: {
+      section: 'from-blue-50/50',
+      accentBar: 'from-blue-600 to-cyan-600',
+      button: 'bg-blue-600 hover:bg-blue-700',
+      form: 'bg-blue-50 border-blue-200',
+      focusRing: 'focus:ring-blue-500',
+      card: 'border-blue-300 from-blue-50',
+      icon: 'text-blue-600',
+      outlineButton: 'text-blue-600 hover:text-blue-700 hover:bg-blue-50 border-blue-200 hover:border-blue-300',
+      solidButton: 'bg-blue-600 hover:bg-blue-700 border-blue-700',
+    },
+  },
+  requerimiento: {
+    kind: 'requerimiento',
+    title: 'REQUERIMIENTO',
+    endpoint: 'requerimiento',
+    namePlaceholder: 'e.g., Requirement Document',
+    emptyMessage: 'No documents uploaded yet.',
+    theme: {
+      section: 'from-amber-50/50',
+      accentBar: 'from-amber-600 to-orange-600',
+      button: 'bg-amber-600 hover:bg-amber-700',
+      form: 'bg-amber-50 border-amber-200',
+      focusRing: 'focus:ring-amber-500',
+      card: 'border-amber-300 from-amber-50',
+      icon: 'text-amber-600',
+      outlineButton: 'text-amber-600 hover:text-amber-700 hover:bg-amber-50 border-amber-200 hover:border-amber-300',
+      solidButton: 'bg-amber-600 hover:bg-amber-700 border-amber-700',
+    },
+  },
+  resolucion: {
+    kind: 'resolucion',
+    title: 'RESOLUCIÓN',
+    endpoint: 'resolucion',
+    namePlaceholder: 'e.g., Resolution Document',
+    emptyMessage: 'No documents uploaded yet.',
+    theme: {
+      section: 'from-green-50/50',
+      accentBar: 'from-green-600 to-emerald-600',
+      button: 'bg-green-600 hover:bg-green-700',
+      form: 'bg-green-50 border-green-200',
+      focusRing: 'focus:ring-green-500',
+      card: 'border-green-300 from-green-50',
+      icon: 'text-green-600',
+      outlineButton: 'text-green-600 hover:text-green-700 hover:bg-green-50 border-green-200 hover:border-green-300',
+      solidButton: 'bg-green-600 hover:bg-green-700 border-green-700',
+    },
+  },
+};
+
+/** Sections rendered with the shared DocumentCollectionSection, in display order. */
+export const CLIENT_DOCUMENT_SECTIONS: readonly DocumentCollectionKind[] = [
+  'additional_documents',
+  'justificante_presentacion',
+  'aportar_documentacion',
+  'requerimiento',
+  'resolucion',
+];
+
+export function getCollectionDocuments(
+  client: Pick<Client, DocumentCollectionKind>,
+  kind: DocumentCollectionKind
+): AdditionalDocument[] {
+  const docs = client[kind] || [];
+  const include = DOCUMENT_COLLECTIONS[kind].includeDocument;
+  return include ? docs.filter(include) : docs;
+}
@@ -0,0 +1,168 @@
+import type {
+  CivilStatus,
+  Client,
+  ClientRelationship,
+  DocumentCondition,
+  DocumentConditionAttribute,
+  RequiredDocument,
+} from '../types';
+
+// Template documents can depend on who the client is: a minor needs a birth certificate and
+// parental authorisation, a married applicant a marriage certificate, some nationalities
+// legalised papers. A document with conditions is only asked of clients that match all of
+// them. When an attribute isn't filled in yet the document is kept — asking for one paper
+// too many is cheaper than filing without one.
+
+export type ClientConditionAttributes = Pick<Client, 'date_of_birth' | 'civil_status' | 'nationality' | 'relationship'>;
+
+export const CONDITION_ATTRIBUTE_LABELS: Record<DocumentConditionAttribute, string> = {
+  age: 'Age',
+  civil_status: 'Civil status',
+  nationality: 'Nationality',
+  relationship: 'Relationship',
+};
+
+export const CIVIL_STATUS_LABELS: Record<CivilStatus, string> = {
+  single: 'Single',
+  married: 'Married',
+  registered_partner: 'Registered partner',
+  separated: 'Separated',
+  divorced: 'Divorced',
+  widowed: 'Widowed',
+};
+
+export const RELATIONSHIP_LABELS: Record<ClientRelationship, string> = {
+  applicant: 'Main applicant',
+  spouse: 'Spouse',
+  partner: 'Partner',
+  child: 'Child',
+  parent: 'Parent',
+  other: 'Other relative',
+};
+
+/** Whole years on `onDate`, or null without a valid date of birth. */
+export function getClientAge(dateOfBirth: string | undefined, onDate: Date = new Date()): number | null {
+  if (!dateOfBirth) return null;
+  const birth = new Date(dateOfBirth);
+  if (Number.isNaN(birth.getTime())) return null;
+  let age = onDate.getFullYear() - birth.getFullYear();
+  const hadBirthday =
+    onDate.getMonth() > birth.getMonth() ||
+    (onDate.getMonth() === birth.getMonth() && onDate.getDate() >= birth.getDate());
+  if (!hadBirthday) age -= 1;
+  return age;
+}
+
+/** True or false, or null when the client's attribute is not known. */
+export function evaluateCondition(
+  condition: DocumentCondition,
+  client: ClientConditionAttributes,
+  onDate: Date = new Date()
+): boolean | null {
+  if (condition.attribute === 'age') {
+    const age = getClientAge(client.date_of_birth, onDate);
+    if (age === null || condition.years === undefined) return null;
+    return condition.operator === 'under' ? age < condition.years : age >= condition.years;
+  }
+  const value = client[condition.attribute];
+  if (!value) return null;
+  const values = (condition.values || []).map((v) => v.toUpperCase());
+  const matches = values.includes(value.toUpperCase());
+  return condition.operator === 'not_in' ? !matches : matches;
+}
+
+/** Whether the document is required of this client; unknown attributes count as a match. */
+export function documentAppliesTo(
+  doc: Pick<RequiredDocument, 'conditions'>,
+  client: ClientConditionAttributes,
+  onDate: Date = new Date()
+): boolean {
+  return (doc.conditions || []).every((condition) => evaluateCondition(condition, client, onDate) !== false);
+}
+
+function describeValue(attribute: DocumentConditionAttribute, value: string): string {
+  if (attribute === 'civil_status') return CIVIL_STATUS_LABELS[value as CivilStatus] || value;
+  if (attribute === 'relationship') return RELATIONSHIP_LABELS[value as ClientRelationship] || value;
+  return value.toUpperCase();
+}
+
+export function describeCondition(condition: DocumentCondition): string {
+  if (condition.attribute === 'age') {
+    return condition.operator === 'under' ? `under ${condition.years} years old` : `${condition.years} or older`;
+  }
+  const label = CONDITION_ATTRIBUTE_LABELS[condition.attribute].toLowerCase();
+  const values = (condition.values || []).map((value) => describeValue(condition.attribute, value)).join(' / ');
+  return condition.operator === 'not_in' ? `${label} not ${values}` : `${label} ${values}`;
+}
+
+/** e.g. "Only if under 18 years old and civil status Married". */
+export function describeConditions(conditions: DocumentCondition[] | undefined): string | null {
+  if (!conditions?.length) return null;
+  return `Only if ${conditions.map(describeCondition).join(' and ')}`;
+}
+
+/** A client's copy of a template document, not yet uploaded. */
+export function toClientDocument(templateDoc: RequiredDocument): RequiredDocument {
+  return {
+    code: templateDoc.code,
+    name: templateDoc.name,
+    description: templateDoc.description || '',
+    validityDays: templateDoc.validityDays,
+    submitted: false,
+    isOptional: false,
+  };
+}
+
+/** The template's checklist as a new client with these attributes gets it. */
+export function selectApplicableDocuments(
+  templateDocuments: RequiredDocument[],
+  client: ClientConditionAttributes,
+  onDate: Date = new Date()
+): RequiredDocument[] {
+  return templateDocuments.filter((doc) => documentAppliesTo(doc, client, onDate)).map(toClientDocument);
+}
+
+export interface ConditionalDocumentsPlan {
+  added: RequiredDocument[];
+  /** No longer applicable and nothing uploaded. */
+  removed: RequiredDocument[];
+  /** No longer applicable but already uploaded, so left in place. */
+  keptWithFiles: RequiredDocument[];
+  nextDocuments: RequiredDocument[];
+}
+
+/**
+ * How a client's checklist follows a change of attributes. Only conditional template
+ * documents move: unconditional ones the client lacks were removed by hand and stay out.
+ */
+export function planConditionalDocuments(
+  templateDocuments: RequiredDocument[],
+  currentDocuments: RequiredDocument[],
+  client: ClientConditionAttributes,
+  onDate: Date = new Date()
+): ConditionalDocumentsPlan {
+  const plan: ConditionalDocumentsPlan = { added: [], removed: [], keptWithFiles: [], nextDocuments: [] };
+  const conditional = new Map(
+    templateDocuments.filter((doc) => doc.conditions?.length).map((doc) => [doc.code, doc])
+  );
+  const currentCodes = new Set(currentDocuments.map((doc) => doc.code));
+
+  for (const doc of currentDocuments) {
+    const templateDoc = conditional.get(doc.code);
+    if (!templateDoc || documentAppliesTo(templateDoc, client, onDate)) {
+      plan.nextDocuments.push(doc);
+    } else if (doc.fileUrl || doc.submitted) {
+      plan.keptWithFiles.push(doc);
+      plan.nextDocuments.push(doc);
+    } else {
+      plan.removed.push(doc);
+    }
+  }
+  for (const templateDoc of conditional.values()) {
+    if (currentCodes.has(templateDoc.code) || !documentAppliesTo(templateDoc, client, onDate)) continue;
+    const added = toClientDocument(templateDoc);
+    plan.added.push(added);
+    plan.nextDocuments.push(added);
+  }
+  return plan;
+}
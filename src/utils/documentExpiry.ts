@@ -0,0 +1,139 @@
+import type { CaseTemplate, Client, RequiredDocument } from '../types';
+
+// Some checklist documents go stale: antecedentes penales and padrón certificates are only
+// accepted for a few months after issue, and passports / NIE cards carry their own expiry
+// date. A filing with a stale document is rejected, so expiry is tracked per document.
+
+/** Warn this many days before a document expires. */
+export const EXPIRY_WARNING_DAYS = 30;
+
+interface DocumentValidityRule {
+  label: string;
+  /** Matched against the document code and name, lower-cased and without accents. */
+  pattern: RegExp;
+  /** Valid for this many days after `issuedAt`. */
+  validityDays?: number;
+  /** The document states its own expiry date, which must be entered. */
+  hasOwnExpiry?: boolean;
+}
+
+/** Used when neither the document nor its template sets `validityDays`. */
+const DEFAULT_VALIDITY_RULES: DocumentValidityRule[] = [
+  { label: 'Antecedentes penales', pattern: /antecedentes|penales|criminal/, validityDays: 90 },
+  { label: 'Padrón', pattern: /padron|empadronamiento/, validityDays: 90 },
+  { label: 'Certificado médico', pattern: /certificado medico|medical certificate/, validityDays: 90 },
+  { label: 'Passport', pattern: /pasaporte|passport/, hasOwnExpiry: true },
+  { label: 'NIE / TIE', pattern: /\bnie\b|\btie\b/, hasOwnExpiry: true },
+];
+
+export type DocumentExpiryStatus = 'expired' | 'expiring' | 'valid' | 'missing_date' | 'untracked';
+
+export interface DocumentExpiry {
+  document: RequiredDocument;
+  status: DocumentExpiryStatus;
+  expiresOn: Date | null;
+  /** Whole days from the reference date to expiry; negative once expired. */
+  daysLeft: number | null;
+  /** Computed from the upload date because no issue date was entered. */
+  estimated: boolean;
+}
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+
+function normalize(text: string): string {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+function startOfDay(date: Date): Date {
+  const day = new Date(date);
+  day.setHours(0, 0, 0, 0);
+  return day;
+}
+
+function findValidityRule(doc: Pick<RequiredDocument, 'code' | 'name'>): DocumentValidityRule | undefined {
+  const text = normalize(`${doc.code} ${doc.name}`.replace(/_/g, ' '));
+  return DEFAULT_VALIDITY_RULES.find((rule) => rule.pattern.test(text));
+}
+
+/** Validity in days: the document's own setting, then its template's, then the built-in rules. */
+export function getDocumentValidityDays(
+  doc: Pick<RequiredDocument, 'code' | 'name' | 'validityDays'>,
+  templateDoc?: Pick<RequiredDocument, 'validityDays'>
+): number | undefined {
+  return doc.validityDays ?? templateDoc?.validityDays ?? findValidityRule(doc)?.validityDays;
+}
+
+/** Placeholder for the template editor, e.g. "90 (Padrón)". */
+export function describeDefaultValidity(doc: Pick<RequiredDocument, 'code' | 'name'>): string | null {
+  const rule = findValidityRule(doc);
+  if (!rule) return null;
+  return rule.hasOwnExpiry ? `Own expiry date (${rule.label})` : `${rule.validityDays} (${rule.label})`;
+}
+
+function tracksOwnExpiry(doc: Pick<RequiredDocument, 'code' | 'name'>): boolean {
+  return Boolean(findValidityRule(doc)?.hasOwnExpiry);
+}
+
+/** Expiry of one uploaded document as of `onDate` (defaults to today). */
+export function getDocumentExpiry(
+  doc: RequiredDocument,
+  onDate: Date = new Date(),
+  templateDoc?: Pick<RequiredDocument, 'validityDays'>
+): DocumentExpiry {
+  let expiresOn: Date | null = null;
+  let estimated = false;
+  const validityDays = getDocumentValidityDays(doc, templateDoc);
+
+  if (doc.expiresAt) {
+    expiresOn = new Date(doc.expiresAt);
+  } else if (validityDays !== undefined && (doc.issuedAt || doc.uploadedAt)) {
+    expiresOn = new Date((doc.issuedAt || doc.uploadedAt)!);
+    expiresOn.setDate(expiresOn.getDate() + validityDays);
+    estimated = !doc.issuedAt;
+  }
+
+  if (!expiresOn || Number.isNaN(expiresOn.getTime())) {
+    const tracked = validityDays !== undefined || tracksOwnExpiry(doc);
+    return { document: doc, status: tracked ? 'missing_date' : 'untracked', expiresOn: null, daysLeft: null, estimated };
+  }
+  const daysLeft = Math.round((startOfDay(expiresOn).getTime() - startOfDay(onDate).getTime()) / DAY_MS);
+  const status: DocumentExpiryStatus = daysLeft < 0 ? 'expired' : daysLeft <= EXPIRY_WARNING_DAYS ? 'expiring' : 'valid';
+  return { document: doc, status, expiresOn, daysLeft, estimated };
+}
+
+/** Expiry of every submitted checklist document that has a validity to track. */
+export function getClientDocumentExpiries(
+  client: Pick<Client, 'required_documents'>,
+  onDate: Date = new Date(),
+  template?: Pick<CaseTemplate, 'required_documents'>
+): DocumentExpiry[] {
+  return (client.required_documents || [])
+    .filter((doc) => doc.submitted)
+    .map((doc) =>
+      getDocumentExpiry(
+        doc,
+        onDate,
+        template?.required_documents.find((templateDoc) => templateDoc.code === doc.code)
+      )
+    )
+    .filter((expiry) => expiry.status !== 'untracked');
+}
+
+/** Documents that will no longer be valid on the filing date. */
+export function getDocumentsExpiredOn(
+  client: Pick<Client, 'required_documents'>,
+  filingDate: Date = new Date(),
+  template?: Pick<CaseTemplate, 'required_documents'>
+): DocumentExpiry[] {
+  return getClientDocumentExpiries(client, filingDate, template).filter((expiry) => expiry.status === 'expired');
+}
+
+export function describeDocumentExpiry(expiry: DocumentExpiry): string {
+  if (expiry.status === 'missing_date') return 'Expiry date not set';
+  if (expiry.daysLeft === null || !expiry.expiresOn) return '';
+  const date = expiry.expiresOn.toLocaleDateString('es-ES');
+  const suffix = expiry.estimated ? ' (from upload date)' : '';
+  if (expiry.daysLeft < 0) return `Expired ${date}${suffix}`;
+  if (expiry.daysLeft === 0) return `Expires today${suffix}`;
+  return `Expires ${date} · ${expiry.daysLeft} day(s)${suffix}`;
+}
@@ -0,0 +1,247 @@
+import type { PDFDocument, PDFFont, PDFPage, PDFRef } from 'pdf-lib';
+import type { Client } from '../types';
+import { CASE_STAGE_LABELS, getClientCaseStage } from './caseStage';
+import { formatClientFullName, getClientFileName } from './clientNames';
+import { CLIENT_DOCUMENT_SECTIONS, DOCUMENT_COLLECTIONS, getCollectionDocuments } from './documentCollections';
+import { A4_HEIGHT, A4_WIDTH, appendImagePage } from './pdfWorkbench';
+
+type PdfLib = typeof import('pdf-lib');
+
+// One ordered PDF for filing with the Oficina de Extranjería: cover page, numbered index,
+// every document stamped "Doc n – pág. x/y", and a bookmark per document.
+
+/** A document that can go into the bundle. */
+export interface BundleEntry {
+  key: string;
+  title: string;
+  /** Checklist document or one from a case section (shown as the section name). */
+  section: string;
+  fileUrl: string;
+  fileName?: string;
+  /** Required documents start included; other sections are opt-in. */
+  includedByDefault: boolean;
+}
+
+export interface BundleDocument {
+  entry: BundleEntry;
+  blob: Blob;
+}
+
+const MARGIN = 56;
+const STAMP_SIZE = 8;
+const INDEX_LINE_HEIGHT = 18;
+
+/** Submitted checklist documents in template order, then documents from the case sections. */
+export function getBundleCandidates(client: Client): BundleEntry[] {
+  const entries: BundleEntry[] = client.required_documents
+    .filter((doc) => doc.submitted && doc.fileUrl)
+    .map((doc) => ({
+      key: `required:${doc.code}`,
+      title: doc.name,
+      section: 'Required documents',
+      fileUrl: doc.fileUrl!,
+      fileName: doc.fileName,
+      includedByDefault: true,
+    }));
+  const sections = [
+    ...CLIENT_DOCUMENT_SECTIONS.map((kind) => ({
+      title: DOCUMENT_COLLECTIONS[kind].title,
+      docs: getCollectionDocuments(client, kind),
+    })),
+    { title: 'All Documents', docs: (client.additional_documents || []).filter((doc) => doc.allDocumentsSection) },
+  ];
+  for (const section of sections) {
+    for (const doc of section.docs) {
+      if (!doc.fileUrl) continue;
+      entries.push({
+        key: `additional:${doc.id}`,
+        title: doc.name || doc.fileName || 'Document',
+        section: section.title,
+        fileUrl: doc.fileUrl,
+        fileName: doc.fileName,
+        includedByDefault: false,
+      });
+    }
+  }
+  return entries;
+}
+
+/** The standard fonts only cover WinAnsi; replace anything else rather than failing the bundle. */
+function pdfSafe(text: string): string {
+  return text.normalize('NFC').replace(/[^\x20-\x7e\xa0-\xff–—‘’“”•€…]/g, '?');
+}
+
+async function isPdfBlob(blob: Blob): Promise<boolean> {
+  const head = new Uint8Array(await blob.slice(0, 5).arrayBuffer());
+  return String.fromCharCode(...head) === '%PDF-';
+}
+
+function isImage(doc: BundleDocument): boolean {
+  return doc.blob.type.startsWith('image/') || /\.(jpe?g|png|gif|webp)$/i.test(doc.entry.fileName || doc.entry.fileUrl);
+}
+
+/**
+ * Draw `text` at the visual bottom-right of `page`, upright however the page is rotated
+ * (scans often carry a /Rotate entry).
+ */
+function stampPage(lib: PdfLib, page: PDFPage, text: string, font: PDFFont) {
+  const rotation = ((page.getRotation().angle % 360) + 360) % 360;
+  const { x: boxX, y: boxY, width, height } = page.getMediaBox();
+  const visualWidth = rotation === 90 || rotation === 270 ? height : width;
+  const textWidth = font.widthOfTextAtSize(text, STAMP_SIZE);
+  const vx = visualWidth - 24 - textWidth;
+  const vy = 16;
+  // Visual (rotated) coordinates back to the page's own coordinate space
+  const [x, y] =
+    rotation === 90 ? [width - vy, vx]
+    : rotation === 180 ? [width - vx, height - vy]
+    : rotation === 270 ? [vy, height - vx]
+    : [vx, vy];
+  page.drawText(text, { x: boxX + x, y: boxY + y, size: STAMP_SIZE, font, rotate: lib.degrees(rotation) });
+}
+
+async function appendPlaceholderPage(output: PDFDocument, font: PDFFont, entry: BundleEntry): Promise<PDFPage> {
+  const page = output.addPage([A4_WIDTH, A4_HEIGHT]);
+  page.drawText(pdfSafe(entry.title), { x: MARGIN, y: A4_HEIGHT - MARGIN - 20, size: 16, font });
+  page.drawText(pdfSafe(`The file "${entry.fileName || entry.fileUrl}" cannot be included in a PDF.`), {
+    x: MARGIN,
+    y: A4_HEIGHT - MARGIN - 50,
+    size: 11,
+    font,
+  });
+  page.drawText('Submit it separately alongside this bundle.', { x: MARGIN, y: A4_HEIGHT - MARGIN - 68, size: 11, font });
+  return page;
+}
+
+/** Low-level outline (pdf-lib has no bookmarks API): one top-level item per document. */
+function addBookmarks(lib: PdfLib, output: PDFDocument, items: Array<{ title: string; pageRef: PDFRef }>) {
+  if (items.length === 0) return;
+  const context = output.context;
+  const outlinesRef = context.nextRef();
+  const itemRefs = items.map(() => context.nextRef());
+  items.forEach((item, index) => {
+    context.assign(
+      itemRefs[index],
+      context.obj({
+        Title: lib.PDFHexString.fromText(item.title),
+        Parent: outlinesRef,
+        Dest: [item.pageRef, lib.PDFName.of('Fit')],
+        ...(index > 0 ? { Prev: itemRefs[index - 1] } : {}),
+        ...(index < items.length - 1 ? { Next: itemRefs[index + 1] } : {}),
+      })
+    );
+  });
+  context.assign(
+    outlinesRef,
+    context.obj({ Type: 'Outlines', First: itemRefs[0], Last: itemRefs[itemRefs.length - 1], Count: items.length })
+  );
+  output.catalog.set(lib.PDFName.of('Outlines'), outlinesRef);
+  output.catalog.set(lib.PDFName.of('PageMode'), lib.PDFName.of('UseOutlines'));
+}
+
+/** Build the filing bundle from documents already fetched, in the order given. */
+export async function buildExpedienteBundle(
+  client: Client,
+  documents: BundleDocument[],
+  preparedBy: string,
+  onDocument?: (done: number, total: number) => void
+): Promise<Blob> {
+  if (documents.length === 0) throw new Error('Choose at least one document');
+  const lib = await import('pdf-lib');
+  const { PDFDocument, StandardFonts, rgb } = lib;
+  const output = await PDFDocument.create();
+  output.setTitle(pdfSafe(`Expediente – ${formatClientFullName(client)}`));
+  output.setAuthor(pdfSafe(preparedBy));
+  const font = await output.embedFont(StandardFonts.Helvetica);
+  const bold = await output.embedFont(StandardFonts.HelveticaBold);
+
+  // Documents first; cover and index are inserted in front once page numbers are known
+  const placed: Array<{ title: string; firstPage: PDFPage; pageCount: number }> = [];
+  for (const [index, doc] of documents.entries()) {
+    const startCount = output.getPageCount();
+    try {
+      if (await isPdfBlob(doc.blob)) {
+        const source = await PDFDocument.load(await doc.blob.arrayBuffer(), { ignoreEncryption: true });
+        const copied = await output.copyPages(source, source.getPageIndices());
+        copied.forEach((page) => output.addPage(page));
+      } else if (isImage(doc)) {
+        await appendImagePage(output, doc.blob);
+      } else {
+        await appendPlaceholderPage(output, bold, doc.entry);
+      }
+    } catch (error) {
+      console.error(`❌ Could not add ${doc.entry.title} to the bundle:`, error);
+      // Drop whatever was added before the failure, then leave a placeholder in its slot
+      while (output.getPageCount() > startCount) output.removePage(output.getPageCount() - 1);
+      await appendPlaceholderPage(output, bold, doc.entry);
+    }
+    const pages = output.getPages().slice(startCount);
+    pages.forEach((page, pageIndex) =>
+      stampPage(lib, page, pdfSafe(`Doc ${index + 1} – pág. ${pageIndex + 1}/${pages.length}`), font)
+    );
+    placed.push({ title: doc.entry.title, firstPage: pages[0], pageCount: pages.length });
+    onDocument?.(index + 1, documents.length);
+  }
+
+  const usableHeight = A4_HEIGHT - MARGIN * 2 - 60;
+  const linesPerIndexPage = Math.floor(usableHeight / INDEX_LINE_HEIGHT);
+  const indexPageCount = Math.max(1, Math.ceil(placed.length / linesPerIndexPage));
+  const frontMatter = 1 + indexPageCount;
+
+  // Cover
+  const cover = output.insertPage(0, [A4_WIDTH, A4_HEIGHT]);
+  let y = A4_HEIGHT - MARGIN - 40;
+  cover.drawText('EXPEDIENTE', { x: MARGIN, y, size: 28, font: bold, color: rgb(0.12, 0.16, 0.23) });
+  y -= 48;
+  const coverLines: Array<[string, string | undefined]> = [
+    ['Cliente', formatClientFullName(client)],
+    ['Nº expediente', getClientFileName(client) || undefined],
+    ['Tipo de caso', client.case_type],
+    ['Fase', CASE_STAGE_LABELS[getClientCaseStage(client)]],
+    ['Fecha de solicitud', client.application_date ? new Date(client.application_date).toLocaleDateString('es-ES') : undefined],
+    ['Email', client.email],
+    ['Teléfono', client.phone],
+    ['Documentos', String(placed.length)],
+    ['Preparado por', preparedBy],
+    ['Fecha', new Date().toLocaleDateString('es-ES')],
+  ];
+  for (const [label, value] of coverLines) {
+    if (!value) continue;
+    cover.drawText(pdfSafe(`${label}:`), { x: MARGIN, y, size: 12, font: bold });
+    cover.drawText(pdfSafe(value), { x: MARGIN + 130, y, size: 12, font });
+    y -= 22;
+  }
+
+  // Index, with each document's first page number in the final bundle
+  let firstPageNumber = frontMatter + 1;
+  for (let pageNumber = 0; pageNumber < indexPageCount; pageNumber++) {
+    const indexPage = output.insertPage(1 + pageNumber, [A4_WIDTH, A4_HEIGHT]);
+    let lineY = A4_HEIGHT - MARGIN - 20;
+    indexPage.drawText(pageNumber === 0 ? 'ÍNDICE' : 'ÍNDICE (cont.)', { x: MARGIN, y: lineY, size: 18, font: bold });
+    lineY -= 40;
+    for (const [offset, doc] of placed.slice(pageNumber * linesPerIndexPage, (pageNumber + 1) * linesPerIndexPage).entries()) {
+      const number = pageNumber * linesPerIndexPage + offset + 1;
+      const pageLabel = `pág. ${firstPageNumber}`;
+      const maxTitleWidth = A4_WIDTH - MARGIN * 2 - 90;
+      let title = pdfSafe(`${number}. ${doc.title}`);
+      while (font.widthOfTextAtSize(title, 11) > maxTitleWidth && title.length > 4) title = `${title.slice(0, -2)}…`;
+      indexPage.drawText(title, { x: MARGIN, y: lineY, size: 11, font });
+      indexPage.drawText(pdfSafe(pageLabel), {
+        x: A4_WIDTH - MARGIN - font.widthOfTextAtSize(pdfSafe(pageLabel), 11),
+        y: lineY,
+        size: 11,
+        font,
+      });
+      firstPageNumber += doc.pageCount;
+      lineY -= INDEX_LINE_HEIGHT;
+    }
+  }
+
+  addBookmarks(lib, output, [
+    { title: 'Índice', pageRef: output.getPage(1).ref },
+    ...placed.map((doc, index) => ({ title: `${index + 1}. ${doc.title}`, pageRef: doc.firstPage.ref })),
+  ]);
+
+  const bytes = await output.save({ useObjectStreams: true });
+  return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' });
+}
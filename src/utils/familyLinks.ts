@@ -0,0 +1,178 @@
+import type { Client, FamilyLink, FamilyRelation, RequiredDocument } from '../types';
+import { calcPendingBalance } from './paymentTotals';
+
+// Family reunification cases (reagrupación familiar) are one file per person, but the office
+// works them as a family: the sponsor's income proof and padrón serve every relative, and the
+// fee is often agreed for the whole family. Links are stored on both clients, each side with
+// the relation as seen from that client. A shared document keeps its own checklist slot on
+// every client but points at the one upload of the client it came from.
+
+export const FAMILY_RELATION_LABELS: Record<FamilyRelation, string> = {
+  spouse: 'Spouse',
+  partner: 'Partner',
+  child: 'Child',
+  parent: 'Parent',
+  sibling: 'Sibling',
+  sponsor: 'Sponsor (reagrupante)',
+  sponsored: 'Sponsored (reagrupado)',
+};
+
+export const INVERSE_FAMILY_RELATION: Record<FamilyRelation, FamilyRelation> = {
+  spouse: 'spouse',
+  partner: 'partner',
+  child: 'parent',
+  parent: 'child',
+  sibling: 'sibling',
+  sponsor: 'sponsored',
+  sponsored: 'sponsor',
+};
+
+type FamilyClient = Pick<Client, 'id' | 'family_links'>;
+
+/** The client's links with `link` added, replacing an earlier link to the same client. */
+export function withFamilyLink(links: FamilyLink[] | undefined, link: FamilyLink): FamilyLink[] {
+  return [...(links || []).filter((existing) => existing.client_id !== link.client_id), link];
+}
+
+export function withoutFamilyLink(links: FamilyLink[] | undefined, clientId: string): FamilyLink[] {
+  return (links || []).filter((link) => link.client_id !== clientId);
+}
+
+export interface FamilyMember {
+  client: Client;
+  relation: FamilyRelation;
+}
+
+/** Directly linked clients; links to deleted clients are skipped. */
+export function getFamilyMembers(client: FamilyClient, clients: Client[]): FamilyMember[] {
+  const byId = new Map(clients.map((c) => [c.id, c]));
+  return (client.family_links || []).flatMap((link) => {
+    const member = byId.get(link.client_id);
+    return member && member.id !== client.id ? [{ client: member, relation: link.relation }] : [];
+  });
+}
+
+/** Everyone reachable through links, the client included, so a sponsor's spouse and children form one family. */
+export function getFamilyGroup<T extends FamilyClient>(client: T, clients: T[]): T[] {
+  const byId = new Map(clients.map((c) => [c.id, c]));
+  const seen = new Set([client.id]);
+  const group = [client];
+  for (let i = 0; i < group.length; i++) {
+    for (const link of group[i].family_links || []) {
+      const member = byId.get(link.client_id);
+      if (member && !seen.has(member.id)) {
+        seen.add(member.id);
+        group.push(member);
+      }
+    }
+  }
+  return group;
+}
+
+export interface ClientFamilyGroup<T> {
+  /** Stable across renders: the smallest client id of the whole family. */
+  key: string;
+  members: T[];
+}
+
+/**
+ * `clients` grouped by family, in the order each family first appears. Families are worked out
+ * on `allClients`, so relatives filtered out of `clients` still join the rest of their family.
+ */
+export function groupClientsByFamily<T extends FamilyClient>(clients: T[], allClients: T[]): ClientFamilyGroup<T>[] {
+  const keyOf = new Map<string, string>();
+  const groups = new Map<string, ClientFamilyGroup<T>>();
+  for (const client of clients) {
+    let key = keyOf.get(client.id);
+    if (!key) {
+      const family = getFamilyGroup(client, allClients);
+      key = family.map((member) => member.id).sort()[0];
+      for (const member of family) keyOf.set(member.id, key);
+    }
+    const group = groups.get(key) || { key, members: [] };
+    group.members.push(client);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+}
+
+export function getFamilyPaymentTotals(members: Array<Pick<Client, 'payment'>>) {
+  const totalFee = members.reduce((sum, member) => sum + (member.payment?.totalFee || 0), 0);
+  const paidAmount = members.reduce((sum, member) => sum + (member.payment?.paidAmount || 0), 0);
+  return { totalFee, paidAmount, pending: calcPendingBalance(totalFee, paidAmount) };
+}
+
+// --- Shared documents ---
+
+/**
+ * The `target` slot pointing at the source client's upload. Sharing a document that is itself
+ * shared points at the original, so references never chain.
+ */
+export function buildSharedDocument(
+  sourceClientId: string,
+  source: RequiredDocument,
+  target: RequiredDocument,
+  sharedBy: string
+): RequiredDocument {
+  return {
+    ...target,
+    submitted: true,
+    fileUrl: source.fileUrl,
+    fileName: source.fileName,
+    fileSize: source.fileSize,
+    uploadedAt: source.uploadedAt,
+    uploadedBy: source.uploadedBy || sharedBy,
+    issuedAt: source.issuedAt,
+    expiresAt: source.expiresAt,
+    sharedFrom: source.sharedFrom || { clientId: sourceClientId, code: source.code },
+  };
+}
+
+/** The slot emptied again, when a client stops using a shared file. */
+export function clearSharedDocument(doc: RequiredDocument): RequiredDocument {
+  return {
+    ...doc,
+    submitted: false,
+    fileUrl: undefined,
+    fileName: undefined,
+    fileSize: undefined,
+    uploadedAt: undefined,
+    uploadedBy: undefined,
+    issuedAt: undefined,
+    expiresAt: undefined,
+    sharedFrom: undefined,
+  };
+}
+
+/** The document a shared slot points at, if the source client still has it uploaded. */
+export function getSharedDocumentSource(
+  doc: RequiredDocument,
+  clients: Client[]
+): { client: Client; document: RequiredDocument } | null {
+  if (!doc.sharedFrom) return null;
+  const client = clients.find((c) => c.id === doc.sharedFrom!.clientId);
+  const document = client?.required_documents.find((d) => d.code === doc.sharedFrom!.code && d.fileUrl);
+  return client && document ? { client, document } : null;
+}
+
+/** Whether the source was re-uploaded or removed since it was shared. */
+export function isSharedDocumentOutdated(doc: RequiredDocument, clients: Client[]): boolean {
+  if (!doc.sharedFrom) return false;
+  const source = getSharedDocumentSource(doc, clients);
+  return !source || source.document.fileUrl !== doc.fileUrl;
+}
+
+/** Other clients whose checklist points at this client's document. */
+export function getDocumentReferences(
+  clientId: string,
+  code: string,
+  clients: Client[]
+): Array<{ client: Client; document: RequiredDocument }> {
+  return clients.flatMap((client) =>
+    client.id === clientId
+      ? []
+      : client.required_documents
+          .filter((doc) => doc.sharedFrom?.clientId === clientId && doc.sharedFrom.code === code)
+          .map((document) => ({ client, document }))
+  );
+}
@@ -0,0 +1,373 @@
+import type { Client, EncryptedClientField, EncryptedClientValues, FieldEncryptionSettings } from '../types';
+
+// Optional encryption of the most sensitive client fields in the browser, so the backend and
+// its data dumps only hold ciphertext. One random 256-bit firm key encrypts everything; the
+// server stores it wrapped with a key derived (PBKDF2) from a passphrase the firm shares with
+// its staff. Unlocking unwraps it into memory for this page load only.
+//
+// Values are stored as `enc:v1:<key id>:<base64 IV + AES-GCM ciphertext>`. From the same key we
+// derive an HMAC key for blind indexes: truncated HMACs of the normalised value and its
+// substrings (words, for notes), stored next to the field as `<field>_bidx`, so the server can
+// match a search it can't read.
+//
+// While locked, decrypted fields show ENCRYPTED_PLACEHOLDER and the ciphertext waits in
+// `encrypted_values`. Writing the placeholder back leaves the stored value untouched.
+
+export const ENCRYPTED_CLIENT_FIELDS: EncryptedClientField[] = ['nie', 'passport_number', 'phone', 'notes'];
+
+export const ENCRYPTED_FIELD_LABELS: Record<EncryptedClientField, string> = {
+  nie: 'NIE / NIF',
+  passport_number: 'Passport number',
+  phone: 'Phone',
+  notes: 'Notes',
+};
+
+export const ENCRYPTED_PLACEHOLDER = '🔒 Encrypted';
+
+const VALUE_PREFIX = 'enc:v1:';
+const KDF_ITERATIONS = 310_000;
+const TOKEN_BYTES = 8;
+const MIN_TOKEN_LENGTH: Record<EncryptedClientField, number> = { nie: 3, passport_number: 3, phone: 4, notes: 3 };
+
+export class FirmKeyLockedError extends Error {
+  constructor(field: EncryptedClientField) {
+    super(`Unlock the firm key to change ${ENCRYPTED_FIELD_LABELS[field].toLowerCase()}.`);
+    this.name = 'FirmKeyLockedError';
+  }
+}
+
+/** Error message for a passphrase too weak to protect the firm key, or null. */
+export function validateFirmPassphrase(passphrase: string): string | null {
+  if (passphrase.length < 12) return 'Passphrase must be at least 12 characters';
+  return null;
+}
+
+// --- Key state ---
+
+interface FirmKey {
+  id: string;
+  encryption: CryptoKey;
+  blindIndex: CryptoKey;
+}
+
+let firmKey: FirmKey | null = null;
+
+type FirmKeyListener = (unlocked: boolean) => void;
+
+const firmKeyListeners = new Set<FirmKeyListener>();
+
+export function subscribeToFirmKey(listener: FirmKeyListener) {
+  firmKeyListeners.add(listener);
+  return () => firmKeyListeners.delete(listener);
+}
+
+function setFirmKey(key: FirmKey | null) {
+  firmKey = key;
+  firmKeyListeners.forEach((listener) => listener(key !== null));
+}
+
+export function isFirmKeyUnlocked(): boolean {
+  return firmKey !== null;
+}
+
+export function getFirmKeyId(): string | null {
+  return firmKey?.id ?? null;
+}
+
+export function lockFirmKey() {
+  if (firmKey) setFirmKey(null);
+}
+
+// --- Encoding ---
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+function fromBase64(value: string) {
+  return Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+}
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+async function sealBytes(key: CryptoKey, plain: BufferSource): Promise<string> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const sealed = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+  const out = new Uint8Array(iv.length + sealed.length);
+  out.set(iv);
+  out.set(sealed, iv.length);
+  return toBase64(out);
+}
+
+async function openBytes(key: CryptoKey, sealed: string) {
+  const bytes = fromBase64(sealed);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: bytes.slice(0, 12) }, key, bytes.slice(12)));
+}
+
+// --- Firm key ---
+
+async function deriveWrappingKey(passphrase: string, salt: BufferSource, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+/** The encryption and blind-index keys, derived apart so one never doubles as the other. */
+async function importFirmKey(id: string, secret: BufferSource): Promise<FirmKey> {
+  const base = await crypto.subtle.importKey('raw', secret, 'HKDF', false, ['deriveKey']);
+  const derive = (info: string, algorithm: AesKeyGenParams | HmacKeyGenParams, usages: KeyUsage[]) =>
+    crypto.subtle.deriveKey(
+      { name: 'HKDF', hash: 'SHA-256', salt: new Uint8Array(32), info: encoder.encode(info) },
+      base,
+      algorithm,
+      false,
+      usages
+    );
+  return {
+    id,
+    encryption: await derive('client-fields', { name: 'AES-GCM', length: 256 }, ['encrypt', 'decrypt']),
+    blindIndex: await derive('blind-index', { name: 'HMAC', hash: 'SHA-256', length: 256 }, ['sign']),
+  };
+}
+
+/** New firm key, unlocked, and the settings to save for it. */
+export async function createFirmKey(passphrase: string): Promise<FieldEncryptionSettings> {
+  const secret = crypto.getRandomValues(new Uint8Array(32));
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const id = toHex(crypto.getRandomValues(new Uint8Array(4)));
+  const wrapped = await sealBytes(await deriveWrappingKey(passphrase, salt, KDF_ITERATIONS), secret);
+  setFirmKey(await importFirmKey(id, secret));
+  return { enabled: true, key_id: id, kdf_salt: toBase64(salt), kdf_iterations: KDF_ITERATIONS, wrapped_key: wrapped };
+}
+
+async function unwrapSecret(settings: FieldEncryptionSettings, passphrase: string) {
+  if (!settings.wrapped_key || !settings.kdf_salt || !settings.kdf_iterations) {
+    throw new Error('Field encryption is not set up');
+  }
+  const wrappingKey = await deriveWrappingKey(passphrase, fromBase64(settings.kdf_salt), settings.kdf_iterations);
+  try {
+    return await openBytes(wrappingKey, settings.wrapped_key);
+  } catch {
+    throw new Error('Incorrect passphrase');
+  }
+}
+
+export async function unlockFirmKey(settings: FieldEncryptionSettings, passphrase: string): Promise<void> {
+  const secret = await unwrapSecret(settings, passphrase);
+  setFirmKey(await importFirmKey(settings.key_id || '', secret));
+}
+
+/** The same firm key wrapped with a new passphrase; the stored values stay as they are. */
+export async function rewrapFirmKey(
+  settings: FieldEncryptionSettings,
+  passphrase: string,
+  newPassphrase: string
+): Promise<FieldEncryptionSettings> {
+  const secret = await unwrapSecret(settings, passphrase);
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  return {
+    ...settings,
+    kdf_salt: toBase64(salt),
+    kdf_iterations: KDF_ITERATIONS,
+    wrapped_key: await sealBytes(await deriveWrappingKey(newPassphrase, salt, KDF_ITERATIONS), secret),
+  };
+}
+
+// --- Values ---
+
+export function isEncryptedValue(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(VALUE_PREFIX);
+}
+
+/** Key id of an encrypted value, or null for plaintext. */
+export function getValueKeyId(value: string): string | null {
+  if (!isEncryptedValue(value)) return null;
+  return value.slice(VALUE_PREFIX.length).split(':')[0];
+}
+
+async function encryptValue(plain: string): Promise<string> {
+  if (!firmKey) throw new Error('Firm key is locked');
+  return `${VALUE_PREFIX}${firmKey.id}:${await sealBytes(firmKey.encryption, encoder.encode(plain))}`;
+}
+
+async function decryptValue(value: string): Promise<string> {
+  if (!firmKey) throw new Error('Firm key is locked');
+  const [keyId, sealed] = value.slice(VALUE_PREFIX.length).split(':');
+  if (keyId !== firmKey.id) throw new Error('Encrypted with a different firm key');
+  return decoder.decode(await openBytes(firmKey.encryption, sealed));
+}
+
+/** Encrypts text that waits on this device, such as a queued offline edit. Needs the key unlocked. */
+export function sealLocalValue(plain: string): Promise<string> {
+  return encryptValue(plain);
+}
+
+/** Text sealed with sealLocalValue (plaintext passes through); null while it can't be decrypted. */
+export async function openLocalValue(value: string): Promise<string | null> {
+  if (!isEncryptedValue(value)) return value;
+  try {
+    return await decryptValue(value);
+  } catch {
+    return null;
+  }
+}
+
+// --- Blind indexes ---
+
+function normalizeForIndex(field: EncryptedClientField, value: string): string {
+  if (field === 'phone') return value.replace(/\D/g, '');
+  if (field === 'notes') {
+    return value
+      .toLowerCase()
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '');
+  }
+  return value.toUpperCase().replace(/[\s.-]/g, '');
+}
+
+/** What gets indexed: every substring for identifiers, whole words for notes. */
+function indexTerms(field: EncryptedClientField, value: string): string[] {
+  const normalized = normalizeForIndex(field, value);
+  const min = MIN_TOKEN_LENGTH[field];
+  if (field === 'notes') {
+    return [...new Set(normalized.split(/[^a-z0-9ñ]+/).filter((word) => word.length >= min))];
+  }
+  const terms = new Set<string>();
+  for (let start = 0; start < normalized.length; start++) {
+    for (let end = start + min; end <= normalized.length; end++) {
+      terms.add(normalized.slice(start, end));
+    }
+  }
+  return [...terms];
+}
+
+async function blindToken(field: EncryptedClientField, term: string): Promise<string> {
+  if (!firmKey) throw new Error('Firm key is locked');
+  const mac = await crypto.subtle.sign('HMAC', firmKey.blindIndex, encoder.encode(`${field}:${term}`));
+  return toHex(new Uint8Array(mac).slice(0, TOKEN_BYTES));
+}
+
+export async function getBlindIndex(field: EncryptedClientField, value: string): Promise<string[]> {
+  return Promise.all(indexTerms(field, value).map((term) => blindToken(field, term)));
+}
+
+/**
+ * Whether a search may also be sent as plaintext while field encryption is on. NIE, passport and
+ * phone numbers all contain digits, so those queries go out as blind-index tokens only.
+ */
+export function isPlaintextSearchable(query: string): boolean {
+  return !/\d/.test(query);
+}
+
+/** Tokens a search for `query` matches, across all encrypted fields; empty while locked. */
+export async function getSearchTokens(query: string): Promise<string[]> {
+  if (!firmKey) return [];
+  const tokens = await Promise.all(
+    ENCRYPTED_CLIENT_FIELDS.map(async (field) => {
+      const term = normalizeForIndex(field, query.trim());
+      return term.length >= MIN_TOKEN_LENGTH[field] ? [await blindToken(field, term)] : [];
+    })
+  );
+  return tokens.flat();
+}
+
+// --- Clients ---
+
+/**
+ * Decrypts the client's encrypted fields, keeping the ciphertext in `encrypted_values`.
+ * Without the key (or with another firm's key) the fields show ENCRYPTED_PLACEHOLDER.
+ */
+export async function decryptClient<T extends Partial<Client>>(client: T): Promise<T> {
+  const stash: EncryptedClientValues = { ...client.encrypted_values };
+  const decrypted: Partial<Record<EncryptedClientField, string>> = {};
+  let changed = false;
+  for (const field of ENCRYPTED_CLIENT_FIELDS) {
+    const value = client[field];
+    if (!isEncryptedValue(value)) continue;
+    changed = true;
+    stash[field] = value;
+    try {
+      decrypted[field] = firmKey ? await decryptValue(value) : ENCRYPTED_PLACEHOLDER;
+    } catch (error) {
+      console.warn(`⚠️ Failed to decrypt ${field} of client ${client.id}:`, error);
+      decrypted[field] = ENCRYPTED_PLACEHOLDER;
+    }
+  }
+  return changed ? { ...client, ...decrypted, encrypted_values: stash } : client;
+}
+
+/** The client as stored by the server: ciphertext back in place of decrypted values. */
+export function sealClient<T extends Partial<Client>>(client: T): T {
+  if (!client.encrypted_values) return client;
+  const { encrypted_values: stash, ...rest } = client;
+  return { ...rest, ...stash } as T;
+}
+
+/** Decrypts stashed values again after the key was unlocked, or masks them after it was locked. */
+export function refreshClientDecryption<T extends Partial<Client>>(client: T): Promise<T> {
+  return client.encrypted_values ? decryptClient(sealClient(client)) : Promise.resolve(client);
+}
+
+/**
+ * Encrypts the sensitive fields of an outgoing update and adds their blind indexes. Placeholders
+ * are dropped, so a form saved while locked leaves the stored value alone. With encryption on
+ * and the key locked, changing one of the fields throws FirmKeyLockedError.
+ */
+export async function encryptClientFields<T extends Partial<Record<keyof Client, unknown>>>(
+  data: T,
+  settings: FieldEncryptionSettings | null
+): Promise<T> {
+  const out: Record<string, unknown> = { ...data };
+  delete out.encrypted_values;
+  for (const field of ENCRYPTED_CLIENT_FIELDS) {
+    const value = out[field];
+    if (value === ENCRYPTED_PLACEHOLDER) {
+      delete out[field];
+      continue;
+    }
+    if (typeof value !== 'string' || !value || isEncryptedValue(value) || !settings?.enabled) continue;
+    if (!firmKey) throw new FirmKeyLockedError(field);
+    out[field] = await encryptValue(value);
+    out[`${field}_bidx`] = await getBlindIndex(field, value);
+  }
+  return out as T;
+}
+
+/** Fields of a plaintext client that encryption would change, for the migration count. */
+export function getPlaintextSensitiveFields(client: Partial<Client>): EncryptedClientField[] {
+  return ENCRYPTED_CLIENT_FIELDS.filter((field) => {
+    const value = client.encrypted_values?.[field] ?? client[field];
+    return typeof value === 'string' && value !== '' && !isEncryptedValue(value);
+  });
+}
+
+/** Key ids used by encrypted values anywhere in an export file. */
+export function findEncryptedKeyIds(data: unknown): Set<string> {
+  const ids = new Set<string>();
+  const visit = (value: unknown) => {
+    if (typeof value === 'string') {
+      const id = getValueKeyId(value);
+      if (id !== null) ids.add(id);
+    } else if (Array.isArray(value)) {
+      value.forEach(visit);
+    } else if (value && typeof value === 'object') {
+      Object.values(value).forEach(visit);
+    }
+  };
+  visit(data);
+  return ids;
+}
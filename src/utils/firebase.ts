@@ -1,5 +1,20 @@
 import { initializeApp, getApps, FirebaseApp } from 'firebase/app';
-import { getAuth, Auth, signInWithEmailAndPassword, signOut, onAuthStateChanged, User } from 'firebase/auth';
+import {
+  getAuth,
+  Auth,
+  signInWithEmailAndPassword,
+  signOut,
+  onAuthStateChanged,
+  User,
+  EmailAuthProvider,
+  reauthenticateWithCredential,
+  MultiFactorError,
+  MultiFactorResolver,
+  TotpMultiFactorGenerator,
+  TotpSecret,
+  getMultiFactorResolver,
+  multiFactor,
+} from 'firebase/auth';
 
 // Check if Firebase is configured
 const isFirebaseConfigured = () => {
@@ -42,6 +57,17 @@ if (isFirebaseConfigured()) {
 
 export { auth };
 
+/**
+ * The password was right but the account has a second factor; finish with `completeTotpSignIn`,
+ * which also completes a reauthentication started by `reauthenticateWithPassword`.
+ */
+export class SecondFactorRequiredError extends Error {
+  constructor(public readonly resolver: MultiFactorResolver) {
+    super('Enter the code from your authenticator app');
+    this.name = 'SecondFactorRequiredError';
+  }
+}
+
 // Helper functions
 export async function loginWithEmail(email: string, password: string) {
   if (!auth) {
@@ -51,10 +77,74 @@ export async function loginWithEmail(email: string, password: string) {
     const userCredential = await signInWithEmailAndPassword(auth, email, password);
     return userCredential.user;
   } catch (error: any) {
+    if (error.code === 'auth/multi-factor-auth-required') {
+      throw new SecondFactorRequiredError(getMultiFactorResolver(auth, error as MultiFactorError));
+    }
     throw new Error(error.message || 'Failed to sign in');
   }
 }
 
+export async function completeTotpSignIn(resolver: MultiFactorResolver, code: string) {
+  const hint = resolver.hints.find((factor) => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+  if (!hint) {
+    throw new Error('This account has no authenticator app enrolled');
+  }
+  try {
+    const userCredential = await resolver.resolveSignIn(TotpMultiFactorGenerator.assertionForSignIn(hint.uid, code));
+    return userCredential.user;
+  } catch (error: any) {
+    throw new Error(error.code === 'auth/invalid-verification-code' ? 'Incorrect code' : error.message || 'Failed to verify code');
+  }
+}
+
+// --- Two-factor enrolment (TOTP) ---
+
+export function hasTotpEnrolled(): boolean {
+  const user = auth?.currentUser;
+  return Boolean(user && multiFactor(user).enrolledFactors.some((factor) => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID));
+}
+
+/** A new secret for the authenticator app; Firebase requires a recent sign-in (see reauthenticateWithPassword). */
+export async function startTotpEnrollment(): Promise<{ secret: TotpSecret; otpauthUrl: string }> {
+  const user = auth?.currentUser;
+  if (!user) {
+    throw new Error('User not authenticated. Please log in.');
+  }
+  try {
+    const secret = await TotpMultiFactorGenerator.generateSecret(await multiFactor(user).getSession());
+    return { secret, otpauthUrl: secret.generateQrCodeUrl(user.email || undefined, 'Immigration Case Manager') };
+  } catch (error: any) {
+    throw new Error(error.code === 'auth/requires-recent-login' ? 'Please confirm your password first' : error.message || 'Failed to start enrolment');
+  }
+}
+
+export async function finishTotpEnrollment(secret: TotpSecret, code: string, displayName: string) {
+  const user = auth?.currentUser;
+  if (!user) {
+    throw new Error('User not authenticated. Please log in.');
+  }
+  try {
+    await multiFactor(user).enroll(TotpMultiFactorGenerator.assertionForEnrollment(secret, code), displayName);
+  } catch (error: any) {
+    throw new Error(error.code === 'auth/invalid-verification-code' ? 'Incorrect code' : error.message || 'Failed to enrol');
+  }
+}
+
+export async function unenrollTotp() {
+  const user = auth?.currentUser;
+  if (!user) {
+    throw new Error('User not authenticated. Please log in.');
+  }
+  const factors = multiFactor(user).enrolledFactors.filter((factor) => factor.factorId === TotpMultiFactorGenerator.FACTOR_ID);
+  try {
+    for (const factor of factors) {
+      await multiFactor(user).unenroll(factor);
+    }
+  } catch (error: any) {
+    throw new Error(error.code === 'auth/requires-recent-login' ? 'Please confirm your password first' : error.message || 'Failed to remove authenticator');
+  }
+}
+
 export async function logout() {
   if (!auth) {
     return; // No-op if Firebase not configured
@@ -66,6 +156,27 @@ export async function logout() {
   }
 }
 
+/**
+ * Re-checks the signed-in user's password; the refreshed ID token then carries a recent auth_time.
+ * Accounts with an authenticator app get `SecondFactorRequiredError` and must also enter a code.
+ */
+export async function reauthenticateWithPassword(password: string) {
+  const user = auth?.currentUser;
+  if (!auth || !user?.email) {
+    throw new Error('User not authenticated. Please log in.');
+  }
+  try {
+    await reauthenticateWithCredential(user, EmailAuthProvider.credential(user.email, password));
+  } catch (error: any) {
+    if (error.code === 'auth/multi-factor-auth-required') {
+      throw new SecondFactorRequiredError(getMultiFactorResolver(auth, error as MultiFactorError));
+    }
+    throw new Error(error.code === 'auth/wrong-password' || error.code === 'auth/invalid-credential'
+      ? 'Incorrect password'
+      : error.message || 'Failed to verify password');
+  }
+}
+
 export function getCurrentUser(): User | null {
   if (!auth) return null;
   return auth.currentUser;
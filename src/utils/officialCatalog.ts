@@ -0,0 +1,200 @@
+import type { CaseTemplate, RequiredDocument } from '../types';
+import type { CaseTemplateInput } from './api';
+import {
+  OFFICIAL_CATALOG_VERSION,
+  OFFICIAL_TEMPLATE_PRESETS,
+  OfficialTemplatePreset,
+} from '../data/officialTemplates';
+import { RequiredDocumentsDiff, buildTemplateVersionUpdate, diffRequiredDocuments, isEmptyDiff } from './templateVersions';
+
+// The hoja catalog is scraped from inclusion.gob.es (scripts/scrape-hojas-exigible.mjs) and
+// bundled with the app. When the Ministry edits a hoja, a fresh scrape is loaded here as a
+// snapshot and compared with the bundled catalog, and the changes can be carried over to
+// the templates that were imported from it.
+
+export interface OfficialCatalog {
+  /** `scrapedAt` of the scrape. */
+  version: string;
+  presets: OfficialTemplatePreset[];
+}
+
+export type OfficialHojaChangeKind = 'added' | 'removed' | 'changed';
+
+export interface OfficialHojaChange {
+  id: string;
+  kind: OfficialHojaChangeKind;
+  /** The hoja as bundled; missing for hojas new in the snapshot. */
+  before?: OfficialTemplatePreset;
+  /** The hoja in the snapshot; missing for hojas dropped from it. */
+  after?: OfficialTemplatePreset;
+  documents: RequiredDocumentsDiff;
+  /** Hoja-level fields that changed besides the checklist. */
+  fields: Array<'name' | 'sourceUrl' | 'administrativeSilenceDays'>;
+}
+
+export const BUNDLED_OFFICIAL_CATALOG: OfficialCatalog = {
+  version: OFFICIAL_CATALOG_VERSION,
+  presets: OFFICIAL_TEMPLATE_PRESETS,
+};
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Reads the JSON written by the scrape script. Throws if it is not a hoja catalog. */
+export function parseOfficialCatalog(text: string): OfficialCatalog {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The snapshot is not valid JSON');
+  }
+  if (!isRecord(data) || typeof data.scrapedAt !== 'string' || !Array.isArray(data.templates)) {
+    throw new Error('The snapshot is not a hoja catalog (expected scrapedAt and templates)');
+  }
+  const presets = data.templates.map((entry, index): OfficialTemplatePreset => {
+    if (!isRecord(entry) || typeof entry.id !== 'string' || !Array.isArray(entry.requiredDocuments)) {
+      throw new Error(`Hoja #${index + 1} in the snapshot has no id or requiredDocuments`);
+    }
+    const requiredDocuments = entry.requiredDocuments.map((doc, docIndex): RequiredDocument => {
+      if (!isRecord(doc) || typeof doc.code !== 'string' || typeof doc.name !== 'string') {
+        throw new Error(`${entry.id}: document #${docIndex + 1} has no code or name`);
+      }
+      return {
+        code: doc.code,
+        name: doc.name,
+        description: typeof doc.description === 'string' ? doc.description : undefined,
+        ...(doc.isOptional === true ? { isOptional: true } : {}),
+      };
+    });
+    return {
+      id: entry.id,
+      label: String(entry.label ?? entry.id),
+      sourceUrl: String(entry.sourceUrl ?? ''),
+      name: String(entry.name ?? entry.id),
+      description: String(entry.description ?? ''),
+      reminderIntervalDays: Number(entry.reminderIntervalDays) || 10,
+      administrativeSilenceDays: Number(entry.administrativeSilenceDays) || 60,
+      requiredDocuments,
+    };
+  });
+  return { version: data.scrapedAt, presets };
+}
+
+/** Hoja by hoja, matched by id; documents within a hoja are matched by code. */
+export function diffOfficialCatalogs(before: OfficialCatalog, after: OfficialCatalog): OfficialHojaChange[] {
+  const beforeById = new Map(before.presets.map((preset) => [preset.id, preset]));
+  const afterIds = new Set(after.presets.map((preset) => preset.id));
+  const changes: OfficialHojaChange[] = [];
+
+  for (const next of after.presets) {
+    const previous = beforeById.get(next.id);
+    if (!previous) {
+      changes.push({
+        id: next.id,
+        kind: 'added',
+        after: next,
+        documents: diffRequiredDocuments([], next.requiredDocuments),
+        fields: [],
+      });
+      continue;
+    }
+    const documents = diffRequiredDocuments(previous.requiredDocuments, next.requiredDocuments);
+    const fields = (['name', 'sourceUrl', 'administrativeSilenceDays'] as const).filter(
+      (field) => previous[field] !== next[field]
+    );
+    if (!isEmptyDiff(documents) || fields.length > 0) {
+      changes.push({ id: next.id, kind: 'changed', before: previous, after: next, documents, fields });
+    }
+  }
+  for (const previous of before.presets) {
+    if (afterIds.has(previous.id)) continue;
+    changes.push({
+      id: previous.id,
+      kind: 'removed',
+      before: previous,
+      documents: diffRequiredDocuments(previous.requiredDocuments, []),
+      fields: [],
+    });
+  }
+  return changes;
+}
+
+/** Body for creating a template from a hoja, recording where it came from. */
+export function buildOfficialTemplateInput(
+  preset: OfficialTemplatePreset,
+  createdBy: string,
+  catalogVersion: string = OFFICIAL_CATALOG_VERSION,
+  now: Date = new Date()
+): CaseTemplateInput {
+  const requiredDocuments = preset.requiredDocuments.map(({ code, name, description }) => ({ code, name, description }));
+  return {
+    name: preset.name,
+    description: preset.description,
+    requiredDocuments,
+    reminderIntervalDays: preset.reminderIntervalDays,
+    administrativeSilenceDays: preset.administrativeSilenceDays,
+    version: 1,
+    versions: [{ version: 1, required_documents: requiredDocuments, created_at: now.toISOString(), created_by: createdBy }],
+    officialPresetId: preset.id,
+    officialCatalogVersion: catalogVersion,
+  };
+}
+
+export interface OfficialTemplateUpdate {
+  template: CaseTemplate;
+  change: OfficialHojaChange;
+  /** The template's checklist with the hoja's changes carried over. */
+  nextDocuments: RequiredDocument[];
+  /** What saving `nextDocuments` changes in the template, after its own edits. */
+  documents: RequiredDocumentsDiff;
+}
+
+/**
+ * The hoja's changes applied to a template imported from it. Only the catalog delta is
+ * carried over, so documents the office added or reworded in the template are kept; a
+ * document the hoja dropped is removed only if the template still has it as imported.
+ */
+export function planOfficialTemplateUpdate(template: CaseTemplate, change: OfficialHojaChange): OfficialTemplateUpdate {
+  const removedCodes = new Set(change.documents.removed.map((doc) => doc.code));
+  const changedByCode = new Map(change.documents.changed.map((entry) => [entry.after.code, entry]));
+  const existingCodes = new Set(template.required_documents.map((doc) => doc.code));
+
+  const nextDocuments: RequiredDocument[] = [];
+  for (const doc of template.required_documents) {
+    if (removedCodes.has(doc.code)) {
+      const official = change.documents.removed.find((removed) => removed.code === doc.code)!;
+      if (doc.name === official.name) continue;
+    }
+    const changed = changedByCode.get(doc.code);
+    // Take the new wording unless the office had already reworded this document
+    nextDocuments.push(
+      changed && doc.name === changed.before.name
+        ? { ...doc, name: changed.after.name, description: changed.after.description }
+        : doc
+    );
+  }
+  for (const doc of change.documents.added) {
+    if (!existingCodes.has(doc.code)) nextDocuments.push({ code: doc.code, name: doc.name, description: doc.description });
+  }
+  return {
+    template,
+    change,
+    nextDocuments,
+    documents: diffRequiredDocuments(template.required_documents, nextDocuments),
+  };
+}
+
+/** Fields to save for an update; the checklist change becomes a new template version. */
+export function buildOfficialTemplateUpdate(
+  update: OfficialTemplateUpdate,
+  catalogVersion: string,
+  changedBy: string
+): Partial<CaseTemplateInput> {
+  return {
+    requiredDocuments: update.nextDocuments,
+    ...(update.change.after ? { administrativeSilenceDays: update.change.after.administrativeSilenceDays } : {}),
+    ...buildTemplateVersionUpdate(update.template, update.nextDocuments, changedBy),
+    officialCatalogVersion: catalogVersion,
+  };
+}
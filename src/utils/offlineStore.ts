@@ -0,0 +1,121 @@
+/**
+ * IndexedDB persistence for offline use: the last-loaded copy of each data collection
+ * plus the outbox of mutations made while the connection was down.
+ */
+
+const DB_NAME = 'berliku-offline';
+const DB_VERSION = 1;
+const SNAPSHOT_STORE = 'snapshots';
+const OUTBOX_STORE = 'outbox';
+
+export type CachedCollection = 'clients' | 'templates' | 'reminders' | 'appointments';
+
+export interface CollectionSnapshot<T> {
+  name: CachedCollection;
+  items: T[];
+  /** Delta-sync cursor the items are current to (see utils/deltaSync). */
+  cursor: string | null;
+  saved_at: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SNAPSHOT_STORE)) {
+          db.createObjectStore(SNAPSHOT_STORE, { keyPath: 'name' });
+        }
+        if (!db.objectStoreNames.contains(OUTBOX_STORE)) {
+          db.createObjectStore(OUTBOX_STORE, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  const tx = db.transaction(storeName, mode);
+  return promisifyRequest(run(tx.objectStore(storeName)));
+}
+
+export async function loadCachedCollection<T>(name: CachedCollection): Promise<CollectionSnapshot<T> | null> {
+  if (!isIndexedDbAvailable()) return null;
+  try {
+    const snapshot = await withStore<CollectionSnapshot<T> | undefined>(SNAPSHOT_STORE, 'readonly', (store) =>
+      store.get(name)
+    );
+    return snapshot ? { ...snapshot, cursor: snapshot.cursor ?? null } : null;
+  } catch (error) {
+    console.warn(`⚠️ Failed to read cached ${name}:`, error);
+    return null;
+  }
+}
+
+export async function saveCachedCollection<T>(
+  name: CachedCollection,
+  items: T[],
+  cursor: string | null
+): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    const snapshot: CollectionSnapshot<T> = { name, items, cursor, saved_at: Date.now() };
+    await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.put(snapshot));
+  } catch (error) {
+    console.warn(`⚠️ Failed to cache ${name}:`, error);
+  }
+}
+
+export async function getOutboxRecords<T>(): Promise<T[]> {
+  if (!isIndexedDbAvailable()) return [];
+  return withStore<T[]>(OUTBOX_STORE, 'readonly', (store) => store.getAll());
+}
+
+export async function putOutboxRecord<T extends { id: string }>(record: T): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.put(record));
+}
+
+export async function deleteOutboxRecord(id: string): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  await withStore(OUTBOX_STORE, 'readwrite', (store) => store.delete(id));
+}
+
+/**
+ * Wipe the cached collections on logout so the next person on this device can't read the
+ * previous user's clients. The outbox stays: its entries belong to the user who made them
+ * (see syncQueue) and are replayed at their next sign-in instead of being lost.
+ */
+export async function clearCachedCollections(): Promise<void> {
+  if (!isIndexedDbAvailable()) return;
+  try {
+    await withStore(SNAPSHOT_STORE, 'readwrite', (store) => store.clear());
+  } catch (error) {
+    console.warn('⚠️ Failed to clear offline store:', error);
+  }
+}
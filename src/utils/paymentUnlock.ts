@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import type { PaymentUnlockFeature, PaymentUnlockMethod } from '../types';
+
+// Payments, PayTrack and the overview open behind one unlock per user. The unlock lasts until
+// the user has been idle for a while, the tab is hidden, or the session reaches its cap,
+// whichever comes first, so a screen left open at the front desk locks itself.
+
+export const PAYMENT_UNLOCK_IDLE_MS = 5 * 60 * 1000;
+export const PAYMENT_UNLOCK_MAX_MS = 60 * 60 * 1000;
+const IDLE_CHECK_INTERVAL_MS = 15 * 1000;
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'wheel', 'touchstart'] as const;
+
+export const PAYMENT_UNLOCK_FEATURE_LABELS: Record<PaymentUnlockFeature, string> = {
+  payments: 'Payments',
+  paytrack: 'PayTrack',
+  overview: 'Overview',
+};
+
+export const PAYMENT_UNLOCK_METHOD_LABELS: Record<PaymentUnlockMethod, string> = {
+  pin: 'PIN',
+  password: 'Password',
+};
+
+/** Error message for an invalid PIN, or null. */
+export function validatePaymentPin(pin: string): string | null {
+  if (!/^\d+$/.test(pin)) return 'PIN must contain digits only';
+  if (pin.length < 4 || pin.length > 8) return 'PIN must be 4 to 8 digits';
+  return null;
+}
+
+export function usePaymentUnlockSession() {
+  const [unlocked, setUnlocked] = useState(false);
+  const startedAt = useRef(0);
+  const lastActivity = useRef(0);
+
+  const lock = useCallback(() => setUnlocked(false), []);
+
+  const unlock = useCallback(() => {
+    startedAt.current = Date.now();
+    lastActivity.current = Date.now();
+    setUnlocked(true);
+  }, []);
+
+  useEffect(() => {
+    if (!unlocked) return;
+
+    const onActivity = () => {
+      lastActivity.current = Date.now();
+    };
+    const onVisibilityChange = () => {
+      if (document.visibilityState === 'hidden') lock();
+    };
+    const interval = window.setInterval(() => {
+      const now = Date.now();
+      if (now - lastActivity.current >= PAYMENT_UNLOCK_IDLE_MS || now - startedAt.current >= PAYMENT_UNLOCK_MAX_MS) {
+        lock();
+      }
+    }, IDLE_CHECK_INTERVAL_MS);
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, onActivity, { passive: true }));
+    document.addEventListener('visibilitychange', onVisibilityChange);
+    return () => {
+      window.clearInterval(interval);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, onActivity));
+      document.removeEventListener('visibilitychange', onVisibilityChange);
+    };
+  }, [unlocked, lock]);
+
+  return { unlocked, unlock, lock };
+}
@@ -0,0 +1,284 @@
+import type { PDFDocument, PDFPage } from 'pdf-lib';
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+
+// In-browser PDF assembly for the document workbench: combine images and PDFs, drop,
+// reorder and rotate pages, and optionally shrink the result by re-rendering pages as JPEG.
+// pdf-lib and pdf.js are only loaded once the workbench is opened.
+
+export type PageRotation = 0 | 90 | 180 | 270;
+
+export type WorkbenchCompression = 'none' | 'balanced' | 'strong';
+
+export const WORKBENCH_COMPRESSION_LABELS: Record<WorkbenchCompression, string> = {
+  none: 'Original quality',
+  balanced: 'Balanced (150 dpi)',
+  strong: 'Smallest (100 dpi)',
+};
+
+const COMPRESSION_SETTINGS: Record<WorkbenchCompression, { dpi: number; quality: number; maxImageSide: number }> = {
+  none: { dpi: 200, quality: 0.92, maxImageSide: 4000 },
+  balanced: { dpi: 150, quality: 0.75, maxImageSide: 2000 },
+  strong: { dpi: 100, quality: 0.6, maxImageSide: 1400 },
+};
+
+const THUMBNAIL_WIDTH = 160;
+// A4 in PDF points; images are placed on A4 pages like a scan would be
+export const A4_WIDTH = 595.28;
+export const A4_HEIGHT = 841.89;
+const PAGE_MARGIN = 24;
+
+export const WORKBENCH_ACCEPT = '.pdf,.jpg,.jpeg,.png,.gif,.webp,application/pdf,image/*';
+
+export interface WorkbenchSource {
+  id: string;
+  file: File;
+  kind: 'pdf' | 'image';
+}
+
+export interface WorkbenchPage {
+  id: string;
+  sourceId: string;
+  /** Page index within a PDF source (always 0 for images). */
+  pageIndex: number;
+  rotation: PageRotation;
+  /** Data URL preview. */
+  thumbnail: string;
+}
+
+let nextId = 0;
+const newId = (prefix: string) => `${prefix}-${Date.now().toString(36)}-${nextId++}`;
+
+export function isWorkbenchFile(file: File): boolean {
+  return isPdf(file) || file.type.startsWith('image/') || /\.(jpe?g|png|gif|webp)$/i.test(file.name);
+}
+
+function isPdf(file: File): boolean {
+  return file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+}
+
+export function rotatePage(rotation: PageRotation, by: 90 | -90): PageRotation {
+  return ((((rotation + by) % 360) + 360) % 360) as PageRotation;
+}
+
+/** Parse "1-2, 5" (1-based, as shown under the thumbnails) into 0-based positions. */
+export function parsePageRanges(input: string, pageCount: number): number[] | null {
+  const positions = new Set<number>();
+  for (const part of input.split(',').map((p) => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) return null;
+    const from = Number(match[1]);
+    const to = match[2] ? Number(match[2]) : from;
+    if (from < 1 || to > pageCount || from > to) return null;
+    for (let page = from; page <= to; page++) positions.add(page - 1);
+  }
+  return positions.size > 0 ? Array.from(positions).sort((a, b) => a - b) : null;
+}
+
+async function loadPdfJs() {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    const worker = await import('pdfjs-dist/build/pdf.worker.min.mjs?url');
+    pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  }
+  return pdfjs;
+}
+
+/** Open a PDF with pdf.js; rejects with a `PasswordException` when a password is needed. */
+export async function openPdf(file: Blob, password?: string): Promise<PDFDocumentProxy> {
+  const pdfjs = await loadPdfJs();
+  return pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()), password }).promise;
+}
+
+export async function loadImage(file: Blob): Promise<HTMLImageElement> {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = new Image();
+    image.src = url;
+    await image.decode();
+    return image;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Your browser cannot render pages (canvas unavailable)');
+  // JPEG has no transparency; scans and PNG cut-outs should sit on white paper
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  return { canvas, context };
+}
+
+export function canvasToJpeg(canvas: HTMLCanvasElement, quality: number): Promise<Uint8Array> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(
+      (blob) => {
+        if (!blob) {
+          reject(new Error('Failed to encode page image'));
+          return;
+        }
+        blob.arrayBuffer().then((buffer) => resolve(new Uint8Array(buffer)), reject);
+      },
+      'image/jpeg',
+      quality
+    );
+  });
+}
+
+export async function renderPdfPage(pdf: PDFDocumentProxy, pageIndex: number, scale: number) {
+  const page = await pdf.getPage(pageIndex + 1);
+  const viewport = page.getViewport({ scale });
+  const { canvas, context } = createCanvas(viewport.width, viewport.height);
+  await page.render({ canvasContext: context, viewport }).promise;
+  page.cleanup();
+  return { canvas, widthPt: viewport.width / scale, heightPt: viewport.height / scale };
+}
+
+export async function drawImageScaled(file: Blob, maxSide: number) {
+  const image = await loadImage(file);
+  const scale = Math.min(1, maxSide / Math.max(image.naturalWidth, image.naturalHeight));
+  const { canvas, context } = createCanvas(image.naturalWidth * scale, image.naturalHeight * scale);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+/** Add an image (photo, scan) to `output` as a centred A4 page, re-encoded as JPEG. */
+export async function appendImagePage(
+  output: PDFDocument,
+  file: Blob,
+  compression: WorkbenchCompression = 'balanced'
+): Promise<PDFPage> {
+  const settings = COMPRESSION_SETTINGS[compression];
+  const canvas = await drawImageScaled(file, settings.maxImageSide);
+  const image = await output.embedJpg(await canvasToJpeg(canvas, settings.quality));
+  const landscape = image.width > image.height;
+  const [pageWidth, pageHeight] = landscape ? [A4_HEIGHT, A4_WIDTH] : [A4_WIDTH, A4_HEIGHT];
+  const fit = Math.min((pageWidth - PAGE_MARGIN * 2) / image.width, (pageHeight - PAGE_MARGIN * 2) / image.height, 1);
+  const width = image.width * fit;
+  const height = image.height * fit;
+  const page = output.addPage([pageWidth, pageHeight]);
+  page.drawImage(image, { x: (pageWidth - width) / 2, y: (pageHeight - height) / 2, width, height });
+  return page;
+}
+
+/** Re-render one pdf.js page into `output` as a full-page JPEG at the compression's dpi. */
+async function appendRenderedPage(
+  output: PDFDocument,
+  pdf: PDFDocumentProxy,
+  pageIndex: number,
+  compression: WorkbenchCompression
+): Promise<PDFPage> {
+  const settings = COMPRESSION_SETTINGS[compression];
+  const { canvas, widthPt, heightPt } = await renderPdfPage(pdf, pageIndex, settings.dpi / 72);
+  const image = await output.embedJpg(await canvasToJpeg(canvas, settings.quality));
+  const page = output.addPage([widthPt, heightPt]);
+  page.drawImage(image, { x: 0, y: 0, width: widthPt, height: heightPt });
+  return page;
+}
+
+/**
+ * Re-render every page of a PDF as JPEG into a new, unencrypted PDF. Used to shrink
+ * oversized PDFs and to strip passwords/restrictions once the password is known.
+ */
+export async function rasterizePdf(
+  file: Blob,
+  options: { password?: string; compression?: WorkbenchCompression } = {}
+): Promise<Blob> {
+  const { PDFDocument } = await import('pdf-lib');
+  const pdf = await openPdf(file, options.password);
+  const output = await PDFDocument.create();
+  try {
+    for (let index = 0; index < pdf.numPages; index++) {
+      await appendRenderedPage(output, pdf, index, options.compression ?? 'balanced');
+    }
+  } finally {
+    await pdf.destroy();
+  }
+  const bytes = await output.save({ useObjectStreams: true });
+  return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' });
+}
+
+/** Read the chosen files into sources and one thumbnail page per PDF page / image. */
+export async function loadWorkbenchFiles(files: File[]): Promise<{ sources: WorkbenchSource[]; pages: WorkbenchPage[] }> {
+  const sources: WorkbenchSource[] = [];
+  const pages: WorkbenchPage[] = [];
+  for (const file of files) {
+    const source: WorkbenchSource = { id: newId('source'), file, kind: isPdf(file) ? 'pdf' : 'image' };
+    sources.push(source);
+    if (source.kind === 'image') {
+      const canvas = await drawImageScaled(file, THUMBNAIL_WIDTH * 2);
+      pages.push({ id: newId('page'), sourceId: source.id, pageIndex: 0, rotation: 0, thumbnail: canvas.toDataURL('image/jpeg', 0.7) });
+      continue;
+    }
+    const pdf = await openPdf(file);
+    try {
+      for (let index = 0; index < pdf.numPages; index++) {
+        const page = await pdf.getPage(index + 1);
+        const scale = THUMBNAIL_WIDTH / page.getViewport({ scale: 1 }).width;
+        const { canvas } = await renderPdfPage(pdf, index, scale);
+        pages.push({ id: newId('page'), sourceId: source.id, pageIndex: index, rotation: 0, thumbnail: canvas.toDataURL('image/jpeg', 0.7) });
+      }
+    } finally {
+      await pdf.destroy();
+    }
+  }
+  return { sources, pages };
+}
+
+/**
+ * Assemble the pages, in order, into one PDF. Without compression PDF pages are copied
+ * as-is (text stays selectable); with compression every page is re-rendered as a JPEG,
+ * which is what shrinks phone scans and 20 MB empadronamientos.
+ */
+export async function buildWorkbenchPdf(
+  sources: WorkbenchSource[],
+  pages: WorkbenchPage[],
+  compression: WorkbenchCompression,
+  onPage?: (done: number, total: number) => void
+): Promise<Blob> {
+  if (pages.length === 0) throw new Error('Add at least one page');
+  const { PDFDocument, degrees } = await import('pdf-lib');
+  const output = await PDFDocument.create();
+  const sourceById = new Map(sources.map((source) => [source.id, source]));
+  const pdfLibDocs = new Map<string, Awaited<ReturnType<typeof PDFDocument.load>>>();
+  const pdfJsDocs = new Map<string, PDFDocumentProxy>();
+
+  try {
+    for (const [position, page] of pages.entries()) {
+      const source = sourceById.get(page.sourceId);
+      if (!source) throw new Error('A page refers to a file that was removed');
+
+      if (source.kind === 'pdf' && compression === 'none') {
+        let doc = pdfLibDocs.get(source.id);
+        if (!doc) {
+          doc = await PDFDocument.load(await source.file.arrayBuffer(), { ignoreEncryption: true });
+          pdfLibDocs.set(source.id, doc);
+        }
+        const [copied] = await output.copyPages(doc, [page.pageIndex]);
+        copied.setRotation(degrees((copied.getRotation().angle + page.rotation) % 360));
+        output.addPage(copied);
+      } else if (source.kind === 'pdf') {
+        let pdf = pdfJsDocs.get(source.id);
+        if (!pdf) {
+          pdf = await openPdf(source.file);
+          pdfJsDocs.set(source.id, pdf);
+        }
+        const added = await appendRenderedPage(output, pdf, page.pageIndex, compression);
+        added.setRotation(degrees(page.rotation));
+      } else {
+        const added = await appendImagePage(output, source.file, compression);
+        added.setRotation(degrees(page.rotation));
+      }
+      onPage?.(position + 1, pages.length);
+    }
+  } finally {
+    await Promise.all(Array.from(pdfJsDocs.values()).map((pdf) => pdf.destroy()));
+  }
+
+  const bytes = await output.save({ useObjectStreams: true });
+  return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' });
+}
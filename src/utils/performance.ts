@@ -11,8 +11,20 @@ interface PerformanceMetric {
   metadata?: Record<string, any>;
 }
 
+// Keep the most recent runs per name; enough for stable averages without growing forever
+const MAX_SAMPLES_PER_METRIC = 200;
+
+interface PerformanceStats {
+  name: string;
+  count: number;
+  average: number;
+  min: number;
+  max: number;
+}
+
 class PerformanceMonitor {
   private metrics: Map<string, PerformanceMetric> = new Map();
+  private durations: Map<string, number[]> = new Map();
   private enabled: boolean = process.env.NODE_ENV === 'development' || 
                               (typeof window !== 'undefined' && (window as any).__PERF_MONITOR__ === true);
 
@@ -46,6 +58,7 @@ class PerformanceMonitor {
     
     metric.endTime = endTime;
     metric.duration = duration;
+    this.recordDuration(name, duration);
 
     // Log to console in development
     if (process.env.NODE_ENV === 'development') {
@@ -59,14 +72,21 @@ class PerformanceMonitor {
    * Measure a function's execution time
    */
   async measure<T>(name: string, fn: () => T | Promise<T>, metadata?: Record<string, any>): Promise<T> {
-    this.start(name, metadata);
+    if (!this.enabled) return fn();
+
+    // Timed locally rather than via start()/end() so overlapping calls with the same name
+    // (parallel requests to one endpoint) each record their own duration
+    const startTime = performance.now();
     try {
-      const result = await fn();
-      this.end(name);
-      return result;
-    } catch (error) {
-      this.end(name);
-      throw error;
+      return await fn();
+    } finally {
+      const endTime = performance.now();
+      const duration = endTime - startTime;
+      this.metrics.set(name, { name, startTime, endTime, duration, metadata });
+      this.recordDuration(name, duration);
+      if (process.env.NODE_ENV === 'development') {
+        console.log(`⏱️ [Performance] ${name}: ${duration.toFixed(2)}ms`, metadata || '');
+      }
     }
   }
 
@@ -84,11 +104,32 @@ class PerformanceMonitor {
     return this.metrics.get(name);
   }
 
+  private recordDuration(name: string, duration: number): void {
+    const values = [...(this.durations.get(name) || []), duration];
+    this.durations.set(name, values.slice(-MAX_SAMPLES_PER_METRIC));
+  }
+
+  /**
+   * Per-name statistics over every recorded run (e.g. latency per API endpoint)
+   */
+  getStats(prefix = ''): PerformanceStats[] {
+    return Array.from(this.durations.entries())
+      .filter(([name]) => name.startsWith(prefix))
+      .map(([name, values]) => ({
+        name,
+        count: values.length,
+        average: values.reduce((a, b) => a + b, 0) / values.length,
+        min: Math.min(...values),
+        max: Math.max(...values),
+      }));
+  }
+
   /**
    * Clear all metrics
    */
   clear(): void {
     this.metrics.clear();
+    this.durations.clear();
   }
 
   /**
@@ -159,6 +200,13 @@ export function usePerformanceMeasure(_componentName: string) {
   // The parameter is kept for API consistency but not used directly
 }
 
+/**
+ * Latency per API endpoint, slowest average first
+ */
+export function getApiCallStats(): PerformanceStats[] {
+  return performanceMonitor.getStats('API:').sort((a, b) => b.average - a.average);
+}
+
 /**
  * Measure API call performance
  */
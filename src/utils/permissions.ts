@@ -0,0 +1,112 @@
+import type { Permission, User, UserRole } from '../types';
+
+// What each role may do. The UI hides what a user can't use; the API layer names the
+// permission a call needs (REQUIRED_PERMISSION_HEADER) so the server can check the same
+// table against the signed-in user instead of trusting the client.
+
+export const PERMISSIONS: Permission[] = [
+  'edit_clients',
+  'view_payments',
+  'edit_payments',
+  'delete_clients',
+  'manage_templates',
+  'manage_users',
+  'export_data',
+];
+
+export const PERMISSION_LABELS: Record<Permission, string> = {
+  edit_clients: 'Edit clients',
+  view_payments: 'View payments',
+  edit_payments: 'Edit payments',
+  delete_clients: 'Delete clients',
+  manage_templates: 'Manage templates',
+  manage_users: 'Manage users',
+  export_data: 'Export data',
+};
+
+export const USER_ROLES: UserRole[] = ['admin', 'lawyer', 'paralegal', 'reception', 'accountant', 'auditor', 'user'];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  admin: 'Admin',
+  lawyer: 'Lawyer',
+  paralegal: 'Paralegal',
+  reception: 'Reception',
+  accountant: 'Accountant',
+  auditor: 'Auditor (read-only)',
+  user: 'Staff (legacy)',
+};
+
+export const ROLE_DESCRIPTIONS: Record<UserRole, string> = {
+  admin: 'Everything, including users and data exports',
+  lawyer: 'Cases, payments and templates; can delete clients',
+  paralegal: 'Works cases and documents; no payments',
+  reception: 'Registers clients and documents; no payments',
+  accountant: 'Views and records payments',
+  auditor: 'Reads cases and payments; changes nothing',
+  user: 'Pre-roles staff account: cases and payments',
+};
+
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  admin: PERMISSIONS,
+  lawyer: ['edit_clients', 'view_payments', 'edit_payments', 'delete_clients', 'manage_templates'],
+  paralegal: ['edit_clients'],
+  reception: ['edit_clients'],
+  accountant: ['edit_clients', 'view_payments', 'edit_payments', 'export_data'],
+  auditor: ['view_payments'],
+  user: ['edit_clients', 'view_payments', 'edit_payments'],
+};
+
+/** The user's own permission list if an admin customised it, otherwise the role's. */
+export function getUserPermissions(user: Pick<User, 'role' | 'permissions'> | null | undefined): Permission[] {
+  if (!user) return [];
+  return user.permissions ?? ROLE_PERMISSIONS[user.role] ?? [];
+}
+
+export function hasPermission(user: Pick<User, 'role' | 'permissions'> | null | undefined, permission: Permission): boolean {
+  return getUserPermissions(user).includes(permission);
+}
+
+/** Whether the user's permissions differ from their role's defaults. */
+export function hasCustomPermissions(user: Pick<User, 'role' | 'permissions'>): boolean {
+  if (!user.permissions) return false;
+  const defaults = ROLE_PERMISSIONS[user.role];
+  return user.permissions.length !== defaults.length || user.permissions.some((p) => !defaults.includes(p));
+}
+
+// --- API ---
+
+export const REQUIRED_PERMISSION_HEADER = 'X-Required-Permission';
+
+/**
+ * Permission each endpoint needs, keyed like the endpoint names passed to `request()`.
+ * Writes not listed here fall back to CLIENT_WRITE_ENDPOINT (see getEndpointPermission);
+ * client updates that touch `payment` need `edit_payments` instead (see api.updateClient).
+ */
+export const ENDPOINT_PERMISSIONS: Partial<Record<string, Permission>> = {
+  'POST /clients/:id/erasure': 'delete_clients',
+  'GET /clients/erasures': 'manage_users',
+  'GET /analytics/payments-summary': 'view_payments',
+  'GET /analytics/monthly-summary': 'view_payments',
+  'GET /analytics/monthly-trend': 'view_payments',
+  'POST /payment-unlock': 'view_payments',
+  'POST /payment-unlock/failures': 'view_payments',
+  'GET /payment-unlock/log': 'manage_users',
+  'PUT /settings/security': 'manage_users',
+  'PUT /settings/encryption': 'manage_users',
+  'PUT /settings/retention': 'manage_users',
+  'POST /case-templates': 'manage_templates',
+  'PUT /case-templates/:id': 'manage_templates',
+  'DELETE /case-templates/:id': 'manage_templates',
+  'POST /users': 'manage_users',
+  'PUT /users/:id': 'manage_users',
+  'DELETE /users/:id': 'manage_users',
+  'GET /users/export/all': 'export_data',
+  'POST /users/import/all': 'export_data',
+};
+
+/** Writes to client files, their uploads, reminders and appointments: everything the auditor role may only read. */
+const CLIENT_WRITE_ENDPOINT = /^(POST|PUT|PATCH|DELETE) \/(clients|uploads|reminders|appointments)(\/|$)/;
+
+export function getEndpointPermission(endpoint: string): Permission | undefined {
+  return ENDPOINT_PERMISSIONS[endpoint] ?? (CLIENT_WRITE_ENDPOINT.test(endpoint) ? 'edit_clients' : undefined);
+}
@@ -0,0 +1,85 @@
+import type { RealtimeEvent } from '../types';
+import { api } from './api';
+
+type RealtimeListener = (event: RealtimeEvent) => void;
+
+const realtimeListeners = new Set<RealtimeListener>();
+
+const MAX_RECONNECT_DELAY = 30 * 1000;
+
+export function subscribeToRealtime(listener: RealtimeListener) {
+  realtimeListeners.add(listener);
+  return () => realtimeListeners.delete(listener);
+}
+
+function parseRealtimeEvent(data: string): RealtimeEvent | null {
+  try {
+    const event = JSON.parse(data);
+    if (event?.kind === 'change' && event.entity && event.id) return event;
+    if (event?.kind === 'presence' && event.client_id && event.user) return event;
+  } catch {
+    // ignore malformed frames (e.g. keep-alive comments some proxies forward)
+  }
+  return null;
+}
+
+/**
+ * Open the server-sent events stream and fan events out to subscribers.
+ * On error the stream is reopened with a fresh ticket (each works once),
+ * backing off up to 30s. Events sent while it was down are not replayed, so
+ * `onReconnect` runs when it opens again to let the caller catch up.
+ * Returns a function that closes the connection.
+ */
+export function connectRealtime(options?: { onReconnect?: () => void }): () => void {
+  let source: EventSource | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | undefined;
+  let attempt = 0;
+  let stopped = false;
+  let connected = false;
+
+  const scheduleReconnect = () => {
+    if (stopped) return;
+    const delay = Math.min(MAX_RECONNECT_DELAY, 1000 * 2 ** attempt);
+    attempt++;
+    retryTimer = setTimeout(() => void open(), delay);
+  };
+
+  const open = async () => {
+    if (stopped) return;
+    let url: string;
+    try {
+      url = await api.getRealtimeStreamUrl();
+    } catch (error) {
+      console.warn('⚠️ Realtime: could not get stream URL:', error);
+      scheduleReconnect();
+      return;
+    }
+    if (stopped) return;
+
+    source = new EventSource(url);
+    source.onopen = () => {
+      attempt = 0;
+      console.log('📡 Realtime connected');
+      if (connected) options?.onReconnect?.();
+      connected = true;
+    };
+    source.onmessage = (message) => {
+      const event = parseRealtimeEvent(message.data);
+      if (event) realtimeListeners.forEach((listener) => listener(event));
+    };
+    source.onerror = () => {
+      source?.close();
+      source = null;
+      scheduleReconnect();
+    };
+  };
+
+  void open();
+
+  return () => {
+    stopped = true;
+    clearTimeout(retryTimer);
+    source?.close();
+    source = null;
+  };
+}
@@ -0,0 +1,190 @@
+import { measureApiCall } from './performance';
+
+// Shared fetch pipeline for api.ts: per-call timeouts, retries with backoff for GETs,
+// one network request for identical concurrent GETs, caller cancellation, latency metrics.
+
+export const REQUEST_TIMEOUT = 20 * 1000;
+/** Multipart uploads carry whole files, so they get longer before we give up. */
+export const UPLOAD_TIMEOUT = 2 * 60 * 1000;
+
+const MAX_GET_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 500;
+// Gateway errors while the backend restarts or scales; worth another try for reads
+const RETRYABLE_STATUSES = new Set([502, 503, 504]);
+
+export interface RequestOptions {
+  /** Cancel the request, e.g. when the modal that asked for the data closes. */
+  signal?: AbortSignal;
+  /** Give up after this long (defaults to REQUEST_TIMEOUT, or UPLOAD_TIMEOUT for form uploads). */
+  timeoutMs?: number;
+}
+
+export class RequestTimeoutError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly timeoutMs: number
+  ) {
+    super(`${endpoint} did not respond within ${Math.round(timeoutMs / 1000)}s. Please try again.`);
+    this.name = 'RequestTimeoutError';
+  }
+}
+
+/** The caller cancelled the request; not worth reporting to the user. */
+export function isAbortError(error: unknown): boolean {
+  return (error as { name?: string } | null)?.name === 'AbortError';
+}
+
+function abortError(): DOMException {
+  return new DOMException('The request was cancelled', 'AbortError');
+}
+
+/** Settle with `promise`, or reject as soon as `signal` aborts (calling `onAbort` first). */
+function untilAborted<T>(promise: Promise<T>, signal: AbortSignal | undefined, onAbort?: () => void): Promise<T> {
+  if (!signal) return promise;
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort?.();
+      reject(abortError());
+    };
+    if (signal.aborted) {
+      abort();
+      return;
+    }
+    signal.addEventListener('abort', abort, { once: true });
+    promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', abort));
+  });
+}
+
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  return untilAborted(new Promise<void>((resolve) => (timer = setTimeout(resolve, ms))), signal, () =>
+    clearTimeout(timer)
+  );
+}
+
+async function fetchWithTimeout(
+  endpoint: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal?: AbortSignal
+): Promise<Response> {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const cancel = () => controller.abort();
+  if (signal?.aborted) controller.abort();
+  signal?.addEventListener('abort', cancel);
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (timedOut) throw new RequestTimeoutError(endpoint, timeoutMs);
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', cancel);
+  }
+}
+
+/** GETs are idempotent: retry network failures, timeouts and gateway errors with exponential backoff. */
+async function fetchWithRetry(
+  endpoint: string,
+  url: string,
+  init: RequestInit,
+  timeoutMs: number,
+  signal: AbortSignal
+): Promise<Response> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      const response = await fetchWithTimeout(endpoint, url, init, timeoutMs, signal);
+      if (!RETRYABLE_STATUSES.has(response.status) || attempt >= MAX_GET_ATTEMPTS) return response;
+      console.warn(`⚠️ ${endpoint} answered ${response.status}, retrying (${attempt}/${MAX_GET_ATTEMPTS - 1})`);
+    } catch (error) {
+      if (isAbortError(error) || attempt >= MAX_GET_ATTEMPTS) throw error;
+      console.warn(`⚠️ ${endpoint} failed, retrying (${attempt}/${MAX_GET_ATTEMPTS - 1}):`, error);
+    }
+    // 500ms, 1s, ... plus jitter so tabs reloading together don't retry in lockstep
+    await wait(RETRY_BASE_DELAY * 2 ** (attempt - 1) * (1 + Math.random() * 0.3), signal);
+  }
+}
+
+interface InFlightGet {
+  response: Promise<Response>;
+  controller: AbortController;
+  waiters: number;
+}
+
+/** Keyed by URL and headers (see getDedupeKey). */
+const inFlightGets = new Map<string, InFlightGet>();
+
+/**
+ * Requests are only identical with the same headers too: another user's token (after signing in
+ * again) or another X-Required-Permission must not be answered with this caller's response.
+ */
+function getDedupeKey(url: string, init: RequestInit): string {
+  const headers = [...new Headers(init.headers)].map(([name, value]) => `${name}: ${value}`);
+  return [url, ...headers].join('\n');
+}
+
+/**
+ * Identical concurrent GETs share one network request; each caller reads its own clone of
+ * the response. The shared request is only cancelled once every caller has cancelled.
+ */
+function sharedGet(endpoint: string, url: string, init: RequestInit, timeoutMs: number, signal?: AbortSignal) {
+  const key = getDedupeKey(url, init);
+  let entry = inFlightGets.get(key);
+  if (!entry) {
+    const controller = new AbortController();
+    const created: InFlightGet = {
+      response: fetchWithRetry(endpoint, url, init, timeoutMs, controller.signal).finally(() => {
+        if (inFlightGets.get(key) === created) inFlightGets.delete(key);
+      }),
+      controller,
+      waiters: 0,
+    };
+    // Every caller may have cancelled by the time it settles
+    created.response.catch(() => undefined);
+    inFlightGets.set(key, created);
+    entry = created;
+  }
+  const shared = entry;
+  shared.waiters++;
+  return untilAborted(shared.response, signal, () => {
+    shared.waiters--;
+    if (shared.waiters === 0) {
+      if (inFlightGets.get(key) === shared) inFlightGets.delete(key);
+      shared.controller.abort();
+    }
+  }).then((response) => response.clone());
+}
+
+const responseEndpoints = new WeakMap<Response, string>();
+
+/** The `endpoint` label a response was requested under, for error reports. */
+export function getRequestEndpoint(response: Response): string {
+  return responseEndpoints.get(response) || response.url;
+}
+
+/**
+ * fetch() for the API. `endpoint` names the route for logs and metrics (e.g. `GET /clients/:id`).
+ * Only GETs are retried and deduplicated; a repeated write could apply twice.
+ */
+export function request(
+  endpoint: string,
+  url: string,
+  init: RequestInit = {},
+  options: RequestOptions = {}
+): Promise<Response> {
+  const method = (init.method || 'GET').toUpperCase();
+  const timeoutMs = options.timeoutMs ?? (init.body instanceof FormData ? UPLOAD_TIMEOUT : REQUEST_TIMEOUT);
+  return measureApiCall(endpoint, async () => {
+    const response = await (method === 'GET'
+      ? sharedGet(endpoint, url, init, timeoutMs, options.signal)
+      : fetchWithTimeout(endpoint, url, init, timeoutMs, options.signal));
+    responseEndpoints.set(response, endpoint);
+    return response;
+  });
+}
@@ -0,0 +1,145 @@
+/**
+ * Minimal runtime validators for API responses. A schema checks an unknown value, records
+ * any mismatch with its path, and returns the value typed. Unknown object keys are kept, and
+ * `null` is accepted wherever a field is optional (the backend sends both).
+ */
+
+export interface SchemaIssue {
+  /** Where the mismatch is, e.g. `[3].requested_documents_reminder_interval_days`. */
+  path: string;
+  expected: string;
+  received: string;
+}
+
+export type Schema<T> = (value: unknown, path: string, issues: SchemaIssue[]) => T;
+
+/** The response of `endpoint` didn't match what the app expects (backend schema drift). */
+export class ApiSchemaError extends Error {
+  constructor(
+    public readonly endpoint: string,
+    public readonly issues: SchemaIssue[]
+  ) {
+    const first = issues[0];
+    const more = issues.length > 1 ? ` (+${issues.length - 1} more)` : '';
+    super(
+      `Unexpected response from ${endpoint}: ${first.path || 'response'} should be ${first.expected}, got ${first.received}${more}`
+    );
+    this.name = 'ApiSchemaError';
+  }
+}
+
+type ApiSchemaErrorListener = (error: ApiSchemaError) => void;
+
+const schemaErrorListeners = new Set<ApiSchemaErrorListener>();
+
+export function subscribeToApiSchemaErrors(listener: ApiSchemaErrorListener) {
+  schemaErrorListeners.add(listener);
+  return () => schemaErrorListeners.delete(listener);
+}
+
+function describe(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string "${value.length > 40 ? `${value.slice(0, 40)}…` : value}"`;
+  if (typeof value === 'number' || typeof value === 'boolean') return `${typeof value} ${value}`;
+  return typeof value;
+}
+
+function fail<T>(value: unknown, path: string, issues: SchemaIssue[], expected: string): T {
+  issues.push({ path, expected, received: describe(value) });
+  return value as T;
+}
+
+function join(path: string, key: string | number): string {
+  if (typeof key === 'number') return `${path}[${key}]`;
+  return path ? `${path}.${key}` : key;
+}
+
+export const string: Schema<string> = (value, path, issues) =>
+  typeof value === 'string' ? value : fail(value, path, issues, 'string');
+
+export const number: Schema<number> = (value, path, issues) =>
+  typeof value === 'number' && Number.isFinite(value) ? value : fail(value, path, issues, 'number');
+
+export const boolean: Schema<boolean> = (value, path, issues) =>
+  typeof value === 'boolean' ? value : fail(value, path, issues, 'boolean');
+
+export const unknown: Schema<unknown> = (value) => value;
+
+export function literal<T extends string>(...values: T[]): Schema<T> {
+  return (value, path, issues) =>
+    values.includes(value as T) ? (value as T) : fail(value, path, issues, values.map((v) => `"${v}"`).join(' | '));
+}
+
+/** Missing or `null` → `undefined`. */
+export function optional<T>(schema: Schema<T>): Schema<T | undefined> {
+  return (value, path, issues) => (value === undefined || value === null ? undefined : schema(value, path, issues));
+}
+
+export function nullable<T>(schema: Schema<T>): Schema<T | null> {
+  return (value, path, issues) => (value === undefined || value === null ? null : schema(value, path, issues));
+}
+
+export function array<T>(item: Schema<T>): Schema<T[]> {
+  return (value, path, issues) => {
+    if (!Array.isArray(value)) return fail(value, path, issues, 'array');
+    return value.map((entry, index) => item(entry, join(path, index), issues));
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(value, path, issues, 'object');
+    return Object.fromEntries(
+      Object.entries(value).map(([key, entry]) => [key, item(entry, join(path, key), issues)])
+    );
+  };
+}
+
+/** Checks the listed fields; extra fields the backend sends are passed through untouched. */
+export function object<T>(shape: { [K in keyof T]-?: Schema<T[K]> }): Schema<T> {
+  return (value, path, issues) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return fail(value, path, issues, 'object');
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = { ...source };
+    for (const key of Object.keys(shape) as Array<keyof T & string>) {
+      const parsed = shape[key](source[key], join(path, key), issues);
+      if (parsed === undefined) delete result[key];
+      else result[key] = parsed;
+    }
+    return result as T;
+  };
+}
+
+/** Both schemas apply (each passes through the fields it doesn't know). */
+export function intersection<A, B>(a: Schema<A>, b: Schema<B>): Schema<A & B> {
+  return (value, path, issues) => b(a(value, path, issues), path, issues) as A & B;
+}
+
+/** A list endpoint that answers either with a bare array or with `{ [key]: [...] }`. */
+export function list<T>(key: string, item: Schema<T>): Schema<T[]> {
+  const items = array(item);
+  return (value, path, issues) => {
+    if (Array.isArray(value)) return items(value, path, issues);
+    if (typeof value === 'object' && value !== null && key in value) {
+      return items((value as Record<string, unknown>)[key], join(path, key), issues);
+    }
+    return fail(value, path, issues, `array or { ${key}: [...] }`);
+  };
+}
+
+/**
+ * Validate a response body. Throws ApiSchemaError (and tells subscribers, so the UI can
+ * report it) when it doesn't match.
+ */
+export function parseResponse<T>(endpoint: string, schema: Schema<T>, data: unknown): T {
+  const issues: SchemaIssue[] = [];
+  const parsed = schema(data, '', issues);
+  if (issues.length > 0) {
+    const error = new ApiSchemaError(endpoint, issues);
+    console.error('❌ API schema mismatch:', endpoint, issues);
+    schemaErrorListeners.forEach((listener) => listener(error));
+    throw error;
+  }
+  return parsed;
+}
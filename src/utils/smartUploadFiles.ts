@@ -1,5 +1,5 @@
 export const SMART_UPLOAD_ACCEPT =
-  '.pdf,.jpg,.jpeg,.png,.gif,.doc,.docx,.xls,.xlsx,application/pdf,image/*';
+  '.pdf,.jpg,.jpeg,.png,.gif,.heic,.heif,.doc,.docx,.xls,.xlsx,application/pdf,image/*';
 
 const ALLOWED_EXTENSIONS = new Set([
   'pdf',
@@ -7,6 +7,9 @@ const ALLOWED_EXTENSIONS = new Set([
   'jpeg',
   'png',
   'gif',
+  // iPhone photos; converted to JPEG/PDF by the pre-upload checks
+  'heic',
+  'heif',
   'doc',
   'docx',
   'xls',
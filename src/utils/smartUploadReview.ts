@@ -0,0 +1,64 @@
+import type { Client, SmartUploadClassification, SmartUploadResult } from '../types';
+import { DOCUMENT_COLLECTIONS, DocumentCollectionKind } from './documentCollections';
+
+/** Below this the classifier is guessing; such files are flagged first in the review panel. */
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+/** Where a smart-uploaded file ends up: a checklist slot, All Documents, or a case collection. */
+export type SmartUploadPlacement =
+  | { type: 'required'; documentCode: string }
+  | { type: 'all_documents' }
+  | { type: 'collection'; collection: DocumentCollectionKind };
+
+/** A sorted file waiting for staff to confirm or refile it. */
+export interface SmartUploadReviewItem {
+  uploadId: string;
+  fileName: string;
+  classification: SmartUploadClassification;
+}
+
+export function getDetectedPlacement(classification: SmartUploadClassification): SmartUploadPlacement {
+  return classification.routedTo === 'required' && classification.documentCode
+    ? { type: 'required', documentCode: classification.documentCode }
+    : { type: 'all_documents' };
+}
+
+export function isSamePlacement(a: SmartUploadPlacement, b: SmartUploadPlacement): boolean {
+  if (a.type === 'required' && b.type === 'required') return a.documentCode === b.documentCode;
+  if (a.type === 'collection' && b.type === 'collection') return a.collection === b.collection;
+  return a.type === b.type;
+}
+
+export function describePlacement(placement: SmartUploadPlacement, client: Pick<Client, 'required_documents'>): string {
+  if (placement.type === 'all_documents') return 'All Documents';
+  if (placement.type === 'collection') return DOCUMENT_COLLECTIONS[placement.collection].title;
+  const doc = client.required_documents.find((d) => d.code === placement.documentCode);
+  return doc?.name || placement.documentCode;
+}
+
+export function describeClassificationMethod(method: SmartUploadClassification['method']): string {
+  if (method === 'ocr') return 'OCR';
+  if (method === 'gemini') return 'AI';
+  if (method === 'template-catalog') return 'template';
+  if (method === 'keywords') return 'keywords';
+  return 'auto';
+}
+
+/**
+ * Files the classifier placed, paired with the upload id they were sent under (older
+ * backends don't echo it, so fall back to matching the file name).
+ */
+export function buildSmartUploadReviewItems(
+  result: SmartUploadResult,
+  uploaded: Array<{ uploadId: string; fileName: string }>
+): SmartUploadReviewItem[] {
+  const items: SmartUploadReviewItem[] = [];
+  for (const upload of result.uploads) {
+    if (!upload.success || !upload.classification) continue;
+    const uploadId = upload.uploadId || uploaded.find((u) => u.fileName === upload.fileName)?.uploadId;
+    if (!uploadId) continue;
+    items.push({ uploadId, fileName: upload.fileName, classification: upload.classification });
+  }
+  // Least certain first, so the files most likely to be misfiled get looked at
+  return items.sort((a, b) => a.classification.confidence - b.classification.confidence);
+}
@@ -0,0 +1,359 @@
+import type { Client, Reminder } from '../types';
+import { ClientConflictError, api } from './api';
+import { ENCRYPTED_PLACEHOLDER, FirmKeyLockedError, isFirmKeyUnlocked, openLocalValue, sealLocalValue } from './fieldEncryption';
+import { getCurrentUser } from './firebase';
+import { deleteOutboxRecord, getOutboxRecords, putOutboxRecord } from './offlineStore';
+import { sumPaidPaymentAmount } from './paymentTotals';
+
+export type ReminderInput = Parameters<typeof api.createReminder>[0];
+export type ReminderPatch = Parameters<typeof api.updateReminder>[1];
+
+/** Mutations that may be made while offline and replayed later. */
+export type OutboxOperation =
+  | { type: 'update_notes'; clientId: string; notes: string; custom_reminder_date?: string; if_match?: string }
+  | { type: 'add_payment'; clientId: string; paymentId?: string; amount: number; method: string; note?: string; date: string }
+  | { type: 'create_reminder'; tempId: string; data: ReminderInput }
+  | { type: 'update_reminder'; reminderId: string; data: ReminderPatch }
+  | { type: 'delete_reminder'; reminderId: string };
+
+export type OutboxStatus = 'pending' | 'failed' | 'conflict';
+
+export interface OutboxEntry {
+  id: string;
+  operation: OutboxOperation;
+  /** Short description for the sync status list. */
+  label: string;
+  /** `updated_at` of the target record when the change was made; replay won't overwrite anything newer. */
+  base_updated_at?: string;
+  status: OutboxStatus;
+  error?: string;
+  attempts: number;
+  created_at: string;
+  /** Firebase uid of the user who made the change; only they see and replay it. */
+  owner_uid?: string;
+}
+
+// Client and payment notes wait in IndexedDB until replay, so with field encryption on they are
+// stored sealed with the firm key, like the cached clients. Entries hold ciphertext on disk and
+// plaintext only in memory (listOutbox).
+
+async function mapNotes(operation: OutboxOperation, map: (value: string) => Promise<string>): Promise<OutboxOperation> {
+  if (operation.type === 'update_notes') return { ...operation, notes: await map(operation.notes) };
+  if (operation.type === 'add_payment' && operation.note) return { ...operation, note: await map(operation.note) };
+  return operation;
+}
+
+/** The operation as stored on disk. Refuses to queue notes in the clear while encryption is on and the key locked. */
+async function sealOperation(operation: OutboxOperation): Promise<OutboxOperation> {
+  if (isFirmKeyUnlocked()) return mapNotes(operation, sealLocalValue);
+  const hasNotes = operation.type === 'update_notes' || (operation.type === 'add_payment' && Boolean(operation.note));
+  if (!hasNotes) return operation;
+  // Fails closed like the API: settings that can't be loaded count as encryption on
+  const enabled = await api.getFieldEncryptionSettings().then(
+    (settings) => settings.enabled,
+    () => true
+  );
+  if (enabled) throw new FirmKeyLockedError('notes');
+  return operation;
+}
+
+/** The operation with its notes decrypted, and whether any are still sealed (the key is locked). */
+async function openOperation(operation: OutboxOperation): Promise<{ operation: OutboxOperation; locked: boolean }> {
+  let locked = false;
+  const opened = await mapNotes(operation, async (value) => {
+    const plain = await openLocalValue(value);
+    if (plain === null) locked = true;
+    return plain ?? ENCRYPTED_PLACEHOLDER;
+  });
+  return { operation: opened, locked };
+}
+
+/** Reminders created offline get a local id until the server assigns one. */
+export const OFFLINE_ID_PREFIX = 'offline-';
+
+export function isOfflineId(id: string): boolean {
+  return id.startsWith(OFFLINE_ID_PREFIX);
+}
+
+export function newOfflineId(): string {
+  return `${OFFLINE_ID_PREFIX}${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/** fetch() rejects with a TypeError when the request never reached the server. */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  if (error instanceof TypeError) return true;
+  const message = error instanceof Error ? error.message : '';
+  return /network|failed to fetch/i.test(message);
+}
+
+export function describeOperation(operation: OutboxOperation): string {
+  switch (operation.type) {
+    case 'update_notes':
+      return 'Update notes';
+    case 'add_payment':
+      return `Add payment of €${operation.amount.toFixed(2)}`;
+    case 'create_reminder':
+      return `Create reminder for ${operation.data.client_name} ${operation.data.client_surname}`.trim();
+    case 'update_reminder':
+      return 'Update reminder';
+    case 'delete_reminder':
+      return 'Delete reminder';
+  }
+}
+
+/**
+ * The signed-in user's queued changes as stored, oldest first. Entries from before `owner_uid`
+ * can't be attributed to anyone, so they are deleted rather than replayed as whoever is signed in.
+ */
+async function readOutbox(): Promise<OutboxEntry[]> {
+  const uid = getCurrentUser()?.uid;
+  const entries = await getOutboxRecords<OutboxEntry>();
+  const ownerless = entries.filter((entry) => !entry.owner_uid);
+  await Promise.all(ownerless.map((entry) => deleteOutboxRecord(entry.id)));
+  return entries
+    .filter((entry) => entry.owner_uid && entry.owner_uid === uid)
+    .sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/** The signed-in user's queued changes, oldest first, with notes decrypted (masked while the key is locked). */
+export async function listOutbox(): Promise<OutboxEntry[]> {
+  const entries = await readOutbox();
+  return Promise.all(entries.map(async (entry) => ({ ...entry, operation: (await openOperation(entry.operation)).operation })));
+}
+
+/** A later edit of the same record that should replace this pending entry rather than queue behind it. */
+function coalesce(entry: OutboxEntry, operation: OutboxOperation): OutboxOperation | null {
+  if (entry.status !== 'pending') return null;
+  const queued = entry.operation;
+  if (queued.type === 'update_notes' && operation.type === 'update_notes' && queued.clientId === operation.clientId) {
+    return { ...operation, custom_reminder_date: operation.custom_reminder_date || queued.custom_reminder_date };
+  }
+  if (
+    queued.type === 'update_reminder' &&
+    operation.type === 'update_reminder' &&
+    queued.reminderId === operation.reminderId
+  ) {
+    return { ...queued, data: { ...queued.data, ...operation.data } };
+  }
+  return null;
+}
+
+/**
+ * Add a mutation to the outbox. Repeated edits of one record collapse into a single entry
+ * (each would otherwise conflict with the one before it on replay), and changes to a reminder
+ * that only exists locally are folded into its pending create so the server never sees the
+ * temporary id.
+ */
+export async function enqueueOperation(plainOperation: OutboxOperation, baseUpdatedAt?: string): Promise<void> {
+  const operation = await sealOperation(plainOperation);
+  const entries = await readOutbox();
+  for (const entry of entries) {
+    const merged = coalesce(entry, operation);
+    if (merged) {
+      await putOutboxRecord<OutboxEntry>({ ...entry, operation: merged, label: describeOperation(merged) });
+      return;
+    }
+  }
+
+  if (
+    (operation.type === 'update_reminder' || operation.type === 'delete_reminder') &&
+    isOfflineId(operation.reminderId)
+  ) {
+    const create = entries.find(
+      (entry) => entry.operation.type === 'create_reminder' && entry.operation.tempId === operation.reminderId
+    );
+    if (create && create.operation.type === 'create_reminder') {
+      if (operation.type === 'delete_reminder') {
+        await deleteOutboxRecord(create.id);
+      } else {
+        const merged: OutboxOperation = {
+          ...create.operation,
+          data: { ...create.operation.data, ...operation.data } as ReminderInput,
+        };
+        await putOutboxRecord<OutboxEntry>({ ...create, operation: merged, label: describeOperation(merged) });
+      }
+      return;
+    }
+  }
+
+  const entry: OutboxEntry = {
+    id: newOfflineId(),
+    operation,
+    label: describeOperation(operation),
+    base_updated_at: baseUpdatedAt,
+    status: 'pending',
+    attempts: 0,
+    created_at: new Date().toISOString(),
+    owner_uid: getCurrentUser()?.uid,
+  };
+  await putOutboxRecord(entry);
+}
+
+export async function discardOutboxEntry(id: string): Promise<void> {
+  await deleteOutboxRecord(id);
+}
+
+/** Send a mutation straight to the API. */
+export async function executeOperation(operation: OutboxOperation): Promise<void> {
+  switch (operation.type) {
+    case 'update_notes': {
+      const updates: Partial<Client> = { notes: operation.notes };
+      if (operation.custom_reminder_date) updates.custom_reminder_date = operation.custom_reminder_date;
+      await api.updateClient(operation.clientId, updates, { ifMatch: operation.if_match });
+      return;
+    }
+    case 'add_payment':
+      await api.addPayment(
+        operation.clientId,
+        operation.amount,
+        operation.method,
+        operation.note,
+        operation.date,
+        operation.paymentId
+      );
+      return;
+    case 'create_reminder':
+      await api.createReminder(operation.data);
+      return;
+    case 'update_reminder':
+      await api.updateReminder(operation.reminderId, operation.data);
+      return;
+    case 'delete_reminder':
+      await api.deleteReminder(operation.reminderId);
+      return;
+  }
+}
+
+/**
+ * Returns a conflict message when the server copy changed after the offline edit was made.
+ * Payments and new reminders only add data, so they never conflict.
+ */
+async function findConflict(entry: OutboxEntry): Promise<string | null> {
+  const { operation } = entry;
+  if (operation.type === 'update_notes') {
+    const server: Client = await api.getClient(operation.clientId);
+    if (entry.base_updated_at && server.updated_at !== entry.base_updated_at) {
+      return `Client was changed by someone else at ${new Date(server.updated_at).toLocaleString()}`;
+    }
+    return null;
+  }
+  if (operation.type === 'update_reminder' || operation.type === 'delete_reminder') {
+    const reminders: Reminder[] = await api.getReminders();
+    const server = reminders.find((reminder) => reminder.id === operation.reminderId);
+    if (!server) {
+      return operation.type === 'delete_reminder' ? null : 'Reminder no longer exists';
+    }
+    if (entry.base_updated_at && server.updated_at !== entry.base_updated_at) {
+      return `Reminder was changed by someone else at ${new Date(server.updated_at).toLocaleString()}`;
+    }
+  }
+  return null;
+}
+
+let replaying = false;
+
+/**
+ * Replay pending outbox entries in the order they were made. Stops at the first network
+ * failure (the rest stay pending); other errors mark the entry failed and move on.
+ * Entries in `forceIds` skip the conflict check ("apply anyway").
+ */
+export async function replayOutbox(options?: { ids?: string[]; forceIds?: string[] }): Promise<number> {
+  if (replaying) return 0;
+  replaying = true;
+  let synced = 0;
+  try {
+    const entries = await readOutbox();
+    for (const entry of entries) {
+      const requested = options?.ids?.includes(entry.id);
+      if (options?.ids ? !requested : entry.status !== 'pending') continue;
+      // Sealed notes wait until the firm key is unlocked again
+      const { operation, locked } = await openOperation(entry.operation);
+      if (locked) continue;
+
+      const attempt: OutboxEntry = { ...entry, attempts: entry.attempts + 1 };
+      try {
+        if (!options?.forceIds?.includes(entry.id)) {
+          const conflict = await findConflict(entry);
+          if (conflict) {
+            await putOutboxRecord<OutboxEntry>({ ...attempt, status: 'conflict', error: conflict });
+            continue;
+          }
+        }
+        const force = options?.forceIds?.includes(entry.id);
+        await executeOperation(force && operation.type === 'update_notes' ? { ...operation, if_match: undefined } : operation);
+        await deleteOutboxRecord(entry.id);
+        synced++;
+      } catch (error) {
+        if (isNetworkError(error)) {
+          await putOutboxRecord<OutboxEntry>({ ...attempt, status: 'pending' });
+          break;
+        }
+        await putOutboxRecord<OutboxEntry>({
+          ...attempt,
+          status: error instanceof ClientConflictError ? 'conflict' : 'failed',
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  } finally {
+    replaying = false;
+  }
+  return synced;
+}
+
+function buildOfflinePayment(operation: Extract<OutboxOperation, { type: 'add_payment' }>) {
+  return {
+    id: operation.paymentId,
+    amount: operation.amount,
+    date: new Date(operation.date).toISOString(),
+    method: operation.method,
+    note: operation.note || undefined,
+    entryType: 'payment' as const,
+  };
+}
+
+/** Show a queued change in the cached clients until the server copy comes back. */
+export function applyOperationToClients(clients: Client[], operation: OutboxOperation): Client[] {
+  if (operation.type !== 'update_notes' && operation.type !== 'add_payment') return clients;
+  return clients.map((client) => {
+    if (client.id !== operation.clientId) return client;
+    if (operation.type === 'update_notes') {
+      return {
+        ...client,
+        notes: operation.notes,
+        custom_reminder_date: operation.custom_reminder_date || client.custom_reminder_date,
+      };
+    }
+    const payments = [...(client.payment.payments || []), buildOfflinePayment(operation)];
+    return { ...client, payment: { ...client.payment, payments, paidAmount: sumPaidPaymentAmount(payments) } };
+  });
+}
+
+/** Show a queued change in the cached reminders until the server copy comes back. */
+export function applyOperationToReminders(reminders: Reminder[], operation: OutboxOperation): Reminder[] {
+  const now = new Date().toISOString();
+  switch (operation.type) {
+    case 'create_reminder': {
+      const { team_member, ...data } = operation.data;
+      return [
+        ...reminders,
+        { ...data, team_member: team_member || undefined, id: operation.tempId, created_at: now, updated_at: now },
+      ];
+    }
+    case 'update_reminder':
+      return reminders.map((reminder) => {
+        if (reminder.id !== operation.reminderId) return reminder;
+        const { team_member, ...data } = operation.data;
+        return {
+          ...reminder,
+          ...data,
+          team_member: team_member === undefined ? reminder.team_member : team_member || undefined,
+        };
+      });
+    case 'delete_reminder':
+      return reminders.filter((reminder) => reminder.id !== operation.reminderId);
+    default:
+      return reminders;
+  }
+}
@@ -0,0 +1,159 @@
+import type { CaseTemplate, CaseTemplateVersion, Client, RequiredDocument } from '../types';
+import { documentAppliesTo, toClientDocument } from './documentConditions';
+
+// Templates keep every version of their checklist. Clients copy the checklist when they are
+// created, so a template edit leaves them behind; the propagation plan below brings them up
+// to date without touching anything that was already uploaded.
+
+/** Checklist fields owned by the template; everything else on a client's copy is per client. */
+const TEMPLATE_FIELDS = ['name', 'description', 'validityDays'] as const;
+
+export type TemplateDocumentField = (typeof TEMPLATE_FIELDS)[number];
+
+export interface RequiredDocumentsDiff {
+  added: RequiredDocument[];
+  removed: RequiredDocument[];
+  changed: Array<{ before: RequiredDocument; after: RequiredDocument; fields: TemplateDocumentField[] }>;
+}
+
+/** Version history, oldest first. Templates saved before versioning count as version 1. */
+export function getTemplateVersions(template: CaseTemplate): CaseTemplateVersion[] {
+  if (template.versions?.length) return template.versions;
+  return [
+    {
+      version: template.version ?? 1,
+      required_documents: template.required_documents,
+      created_at: template.updated_at,
+    },
+  ];
+}
+
+export function getTemplateVersion(template: CaseTemplate): number {
+  return template.version ?? getTemplateVersions(template).slice(-1)[0].version;
+}
+
+function sameField(a: RequiredDocument, b: RequiredDocument, field: TemplateDocumentField): boolean {
+  return (a[field] || undefined) === (b[field] || undefined);
+}
+
+/** Documents matched by code. */
+export function diffRequiredDocuments(before: RequiredDocument[], after: RequiredDocument[]): RequiredDocumentsDiff {
+  const beforeByCode = new Map(before.map((doc) => [doc.code, doc]));
+  const afterCodes = new Set(after.map((doc) => doc.code));
+  const diff: RequiredDocumentsDiff = {
+    added: after.filter((doc) => !beforeByCode.has(doc.code)),
+    removed: before.filter((doc) => !afterCodes.has(doc.code)),
+    changed: [],
+  };
+  for (const doc of after) {
+    const previous = beforeByCode.get(doc.code);
+    if (!previous) continue;
+    const fields = TEMPLATE_FIELDS.filter((field) => !sameField(previous, doc, field));
+    if (fields.length > 0) diff.changed.push({ before: previous, after: doc, fields });
+  }
+  return diff;
+}
+
+export function isEmptyDiff(diff: RequiredDocumentsDiff): boolean {
+  return diff.added.length === 0 && diff.removed.length === 0 && diff.changed.length === 0;
+}
+
+/** Conditions live only on the template, so they are compared apart from the client-facing fields. */
+function conditionsChanged(before: RequiredDocument[], after: RequiredDocument[]): boolean {
+  const beforeByCode = new Map(before.map((doc) => [doc.code, JSON.stringify(doc.conditions || [])]));
+  return after.some((doc) => beforeByCode.has(doc.code) && beforeByCode.get(doc.code) !== JSON.stringify(doc.conditions || []));
+}
+
+/**
+ * Version fields for saving `requiredDocuments` over `template`: a new version when the
+ * checklist or its conditions changed, otherwise the current ones unchanged.
+ */
+export function buildTemplateVersionUpdate(
+  template: CaseTemplate,
+  requiredDocuments: RequiredDocument[],
+  changedBy: string,
+  now: Date = new Date()
+): { version: number; versions: CaseTemplateVersion[] } {
+  const versions = getTemplateVersions(template);
+  const current = getTemplateVersion(template);
+  if (
+    isEmptyDiff(diffRequiredDocuments(template.required_documents, requiredDocuments)) &&
+    !conditionsChanged(template.required_documents, requiredDocuments)
+  ) {
+    return { version: current, versions };
+  }
+  return {
+    version: current + 1,
+    versions: [
+      ...versions,
+      { version: current + 1, required_documents: requiredDocuments, created_at: now.toISOString(), created_by: changedBy },
+    ],
+  };
+}
+
+export interface TemplatePropagationPlan {
+  client: Client;
+  added: RequiredDocument[];
+  /** Dropped from the template and never uploaded; only removed when asked to. */
+  removed: RequiredDocument[];
+  /** Dropped from the template but holding an uploaded file, so left in place. */
+  keptWithFiles: RequiredDocument[];
+  updated: RequiredDocument[];
+  nextDocuments: RequiredDocument[];
+}
+
+/**
+ * What applying the template's current checklist would do to one client. Existing entries
+ * keep their files, dates and optional flag, and new ones are added only where their
+ * conditions match the client. Only documents that appeared in an earlier version of this
+ * template count as dropped, so ones added to the client by hand stay.
+ */
+export function planTemplatePropagation(
+  template: CaseTemplate,
+  client: Client,
+  options: { removeDropped: boolean }
+): TemplatePropagationPlan {
+  const templateCodes = new Set(template.required_documents.map((doc) => doc.code));
+  const everInTemplate = new Set(
+    getTemplateVersions(template).flatMap((version) => version.required_documents.map((doc) => doc.code))
+  );
+  const clientByCode = new Map(client.required_documents.map((doc) => [doc.code, doc]));
+  const plan: TemplatePropagationPlan = { client, added: [], removed: [], keptWithFiles: [], updated: [], nextDocuments: [] };
+
+  // Template order first, then whatever the client has beyond it
+  for (const templateDoc of template.required_documents) {
+    const existing = clientByCode.get(templateDoc.code);
+    if (!existing) {
+      // Conditional documents are only added for clients they apply to
+      if (!documentAppliesTo(templateDoc, client)) continue;
+      const added = toClientDocument(templateDoc);
+      plan.added.push(added);
+      plan.nextDocuments.push(added);
+      continue;
+    }
+    const stale = TEMPLATE_FIELDS.some((field) => !sameField(existing, templateDoc, field));
+    const next = stale
+      ? { ...existing, name: templateDoc.name, description: templateDoc.description || '', validityDays: templateDoc.validityDays }
+      : existing;
+    if (stale) plan.updated.push(next);
+    plan.nextDocuments.push(next);
+  }
+  for (const doc of client.required_documents) {
+    if (templateCodes.has(doc.code)) continue;
+    if (!everInTemplate.has(doc.code)) {
+      plan.nextDocuments.push(doc);
+    } else if (doc.fileUrl || doc.submitted) {
+      plan.keptWithFiles.push(doc);
+      plan.nextDocuments.push(doc);
+    } else if (options.removeDropped) {
+      plan.removed.push(doc);
+    } else {
+      plan.nextDocuments.push(doc);
+    }
+  }
+  return plan;
+}
+
+export function planChangesCount(plan: TemplatePropagationPlan): number {
+  return plan.added.length + plan.removed.length + plan.updated.length;
+}
@@ -0,0 +1,416 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist';
+import { formatFileSize } from './chunkedUpload';
+import {
+  appendImagePage,
+  canvasToJpeg,
+  createCanvas,
+  drawImageScaled,
+  loadImage,
+  openPdf,
+  rasterizePdf,
+  renderPdfPage,
+} from './pdfWorkbench';
+
+// Checks every file before it is uploaded: what the bytes really are (not what the name
+// says), whether a PDF can be opened, whether a photo is HEIC or far bigger than a
+// readable scan needs, and whether a scan came out blank or too dark. Each problem comes
+// with the fixes that can be applied in the browser.
+
+/** What the file content is, from its first bytes. */
+export type UploadFileKind =
+  | 'pdf'
+  | 'jpeg'
+  | 'png'
+  | 'gif'
+  | 'webp'
+  | 'heic'
+  | 'office' // .docx / .xlsx (zip container)
+  | 'office_legacy' // .doc / .xls (OLE container)
+  | 'executable'
+  | 'unknown';
+
+export type UploadIssueCode =
+  | 'empty'
+  | 'executable'
+  | 'unsupported'
+  | 'type_mismatch'
+  | 'heic'
+  | 'unreadable_image'
+  | 'oversized_image'
+  | 'corrupt_pdf'
+  | 'encrypted_pdf'
+  | 'restricted_pdf'
+  | 'oversized_pdf'
+  | 'blank'
+  | 'dark';
+
+export type UploadFixAction = 'rename' | 'to_jpeg' | 'to_pdf' | 'unlock' | 'compress' | 'remove_blank_pages';
+
+export interface UploadIssue {
+  code: UploadIssueCode;
+  /** Errors block the upload until fixed or the file is removed; warnings can be uploaded anyway. */
+  severity: 'error' | 'warning';
+  message: string;
+  fixes: UploadFixAction[];
+  /** 0-based PDF pages the issue was found on. */
+  pages?: number[];
+}
+
+export interface UploadCheck {
+  file: File;
+  kind: UploadFileKind;
+  issues: UploadIssue[];
+}
+
+export const UPLOAD_FIX_LABELS: Record<UploadFixAction, string> = {
+  rename: 'Fix file extension',
+  to_jpeg: 'Convert to JPEG',
+  to_pdf: 'Convert to PDF',
+  unlock: 'Remove password',
+  compress: 'Compress',
+  remove_blank_pages: 'Remove blank pages',
+};
+
+// A4 at 200 dpi: text on a phone photo of a document stays readable
+const READABLE_MAX_SIDE = 2339;
+const READABLE_JPEG_QUALITY = 0.82;
+const OVERSIZED_IMAGE_BYTES = 4 * 1024 * 1024;
+const OVERSIZED_PDF_BYTES = 10 * 1024 * 1024;
+// Blank/dark detection samples a small greyscale rendering of the page
+const ANALYSIS_SIZE = 64;
+const MAX_ANALYSED_PAGES = 5;
+const BLANK_MAX_DEVIATION = 4;
+const DARK_MAX_LUMINANCE = 55;
+
+const KIND_EXTENSIONS: Partial<Record<UploadFileKind, { ext: string; mime: string }>> = {
+  pdf: { ext: 'pdf', mime: 'application/pdf' },
+  jpeg: { ext: 'jpg', mime: 'image/jpeg' },
+  png: { ext: 'png', mime: 'image/png' },
+  gif: { ext: 'gif', mime: 'image/gif' },
+  webp: { ext: 'webp', mime: 'image/webp' },
+};
+
+const EXPECTED_KIND_BY_EXTENSION: Record<string, UploadFileKind> = {
+  pdf: 'pdf',
+  jpg: 'jpeg',
+  jpeg: 'jpeg',
+  png: 'png',
+  gif: 'gif',
+  webp: 'webp',
+  heic: 'heic',
+  heif: 'heic',
+  docx: 'office',
+  xlsx: 'office',
+  doc: 'office_legacy',
+  xls: 'office_legacy',
+};
+
+const HEIC_BRANDS = new Set(['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1']);
+
+const IMAGE_KINDS = new Set<UploadFileKind>(['jpeg', 'png', 'gif', 'webp']);
+
+function getExtension(name: string): string {
+  const dot = name.lastIndexOf('.');
+  return dot > 0 ? name.slice(dot + 1).toLowerCase() : '';
+}
+
+function withExtension(name: string, ext: string): string {
+  const dot = name.lastIndexOf('.');
+  return `${dot > 0 ? name.slice(0, dot) : name}.${ext}`;
+}
+
+function startsWith(bytes: Uint8Array, signature: number[], offset = 0): boolean {
+  return signature.every((byte, index) => bytes[offset + index] === byte);
+}
+
+/** Identify the file from its magic bytes. */
+export async function sniffUploadFile(file: Blob): Promise<UploadFileKind> {
+  const head = new Uint8Array(await file.slice(0, 1024).arrayBuffer());
+  const ascii = (from: number, to: number) => String.fromCharCode(...head.slice(from, to));
+  // Some generators put junk before the header; readers accept it within the first 1 KB
+  if (ascii(0, head.length).includes('%PDF-')) return 'pdf';
+  if (startsWith(head, [0xff, 0xd8, 0xff])) return 'jpeg';
+  if (startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'png';
+  if (ascii(0, 4) === 'GIF8') return 'gif';
+  if (ascii(0, 4) === 'RIFF' && ascii(8, 12) === 'WEBP') return 'webp';
+  if (ascii(4, 8) === 'ftyp' && HEIC_BRANDS.has(ascii(8, 12))) return 'heic';
+  if (startsWith(head, [0x50, 0x4b, 0x03, 0x04])) return 'office';
+  if (startsWith(head, [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1])) return 'office_legacy';
+  if (
+    ascii(0, 2) === 'MZ' ||
+    startsWith(head, [0x7f, 0x45, 0x4c, 0x46]) ||
+    startsWith(head, [0xcf, 0xfa, 0xed, 0xfe]) ||
+    startsWith(head, [0xca, 0xfe, 0xba, 0xbe]) ||
+    ascii(0, 2) === '#!'
+  ) {
+    return 'executable';
+  }
+  return 'unknown';
+}
+
+/** Mean luminance and its standard deviation (0–255) of a canvas, sampled small. */
+function measureLuminance(source: HTMLCanvasElement | HTMLImageElement): { mean: number; deviation: number } {
+  const width = source instanceof HTMLImageElement ? source.naturalWidth : source.width;
+  const height = source instanceof HTMLImageElement ? source.naturalHeight : source.height;
+  const scale = ANALYSIS_SIZE / Math.max(width, height, 1);
+  const { canvas, context } = createCanvas(width * scale, height * scale);
+  context.drawImage(source, 0, 0, canvas.width, canvas.height);
+  const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+  let sum = 0;
+  let sumSquares = 0;
+  const pixels = data.length / 4;
+  for (let i = 0; i < data.length; i += 4) {
+    const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    sum += luminance;
+    sumSquares += luminance * luminance;
+  }
+  const mean = sum / pixels;
+  return { mean, deviation: Math.sqrt(Math.max(0, sumSquares / pixels - mean * mean)) };
+}
+
+function isBlank(sample: { deviation: number }) {
+  return sample.deviation < BLANK_MAX_DEVIATION;
+}
+
+function isDark(sample: { mean: number }) {
+  return sample.mean < DARK_MAX_LUMINANCE;
+}
+
+function describePages(pages: number[], pageCount: number): string {
+  if (pageCount === 1) return 'The page';
+  return `Page${pages.length > 1 ? 's' : ''} ${pages.map((page) => page + 1).join(', ')}`;
+}
+
+async function checkImage(file: File, issues: UploadIssue[]) {
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(file);
+  } catch {
+    issues.push({
+      code: 'unreadable_image',
+      severity: 'error',
+      message: 'The image is damaged or incomplete and cannot be opened.',
+      fixes: [],
+    });
+    return;
+  }
+  const longestSide = Math.max(image.naturalWidth, image.naturalHeight);
+  if (file.size > OVERSIZED_IMAGE_BYTES || longestSide > READABLE_MAX_SIDE * 1.5) {
+    issues.push({
+      code: 'oversized_image',
+      severity: 'warning',
+      message: `${formatFileSize(file.size)}, ${image.naturalWidth}×${image.naturalHeight} px — far more than a readable scan needs.`,
+      fixes: ['to_jpeg', 'to_pdf'],
+    });
+  }
+  const sample = measureLuminance(image);
+  if (isBlank(sample)) {
+    issues.push({ code: 'blank', severity: 'warning', message: 'The image looks blank.', fixes: [] });
+  } else if (isDark(sample)) {
+    issues.push({
+      code: 'dark',
+      severity: 'warning',
+      message: 'The image is very dark and may be unreadable — consider re-scanning it.',
+      fixes: [],
+    });
+  }
+}
+
+async function checkPdf(file: File, issues: UploadIssue[]) {
+  let pdf: PDFDocumentProxy;
+  try {
+    pdf = await openPdf(file);
+  } catch (error: any) {
+    if (error?.name === 'PasswordException') {
+      issues.push({
+        code: 'encrypted_pdf',
+        severity: 'error',
+        message: 'The PDF is password-protected. Enter the password to save an unprotected copy.',
+        fixes: ['unlock'],
+      });
+    } else {
+      issues.push({
+        code: 'corrupt_pdf',
+        severity: 'error',
+        message: 'The PDF is damaged or incomplete — re-export or re-scan it.',
+        fixes: [],
+      });
+    }
+    return;
+  }
+
+  try {
+    // Only encrypted PDFs carry permissions; offices often cannot stamp or merge them
+    if ((await pdf.getPermissions()) !== null) {
+      issues.push({
+        code: 'restricted_pdf',
+        severity: 'warning',
+        message: 'The PDF is encrypted with editing restrictions, which some portals reject.',
+        fixes: ['unlock'],
+      });
+    }
+    if (file.size > OVERSIZED_PDF_BYTES) {
+      issues.push({
+        code: 'oversized_pdf',
+        severity: 'warning',
+        message: `${formatFileSize(file.size)} for ${pdf.numPages} page(s) — compressing keeps it readable at 150 dpi.`,
+        fixes: ['compress'],
+      });
+    }
+
+    const blankPages: number[] = [];
+    const darkPages: number[] = [];
+    const analysed = Math.min(pdf.numPages, MAX_ANALYSED_PAGES);
+    for (let index = 0; index < analysed; index++) {
+      const page = await pdf.getPage(index + 1);
+      const scale = ANALYSIS_SIZE / Math.max(page.getViewport({ scale: 1 }).width, 1);
+      const { canvas } = await renderPdfPage(pdf, index, scale);
+      const sample = measureLuminance(canvas);
+      if (isBlank(sample)) blankPages.push(index);
+      else if (isDark(sample)) darkPages.push(index);
+    }
+    if (blankPages.length > 0) {
+      const allBlank = blankPages.length === pdf.numPages;
+      issues.push({
+        code: 'blank',
+        severity: 'warning',
+        message: allBlank ? 'The PDF looks blank.' : `${describePages(blankPages, pdf.numPages)} look blank.`,
+        fixes: allBlank ? [] : ['remove_blank_pages'],
+        pages: blankPages,
+      });
+    }
+    if (darkPages.length > 0) {
+      issues.push({
+        code: 'dark',
+        severity: 'warning',
+        message: `${describePages(darkPages, pdf.numPages)} ${darkPages.length > 1 ? 'are' : 'is'} very dark and may be unreadable — consider re-scanning.`,
+        fixes: [],
+        pages: darkPages,
+      });
+    }
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+/**
+ * Run every check on `file`. Never throws: if a check itself fails the file is passed
+ * through without issues, so a validator problem never blocks an upload.
+ */
+export async function validateUploadFile(file: File): Promise<UploadCheck> {
+  const issues: UploadIssue[] = [];
+  if (file.size === 0) {
+    return { file, kind: 'unknown', issues: [{ code: 'empty', severity: 'error', message: 'The file is empty.', fixes: [] }] };
+  }
+  let kind: UploadFileKind = 'unknown';
+  try {
+    kind = await sniffUploadFile(file);
+    const expected = EXPECTED_KIND_BY_EXTENSION[getExtension(file.name)];
+
+    if (kind === 'executable') {
+      issues.push({
+        code: 'executable',
+        severity: 'error',
+        message: 'This is a program or script, not a document, and cannot be uploaded.',
+        fixes: [],
+      });
+    } else if (kind === 'unknown') {
+      // Text, CSV, e-mails and the like are legitimate too; only programs are refused outright
+      issues.push({
+        code: 'unsupported',
+        severity: 'warning',
+        message: 'The content is not a PDF, image, Word or Excel file, whatever its name says. Upload it only if you know it opens.',
+        fixes: [],
+      });
+    } else if (kind === 'heic') {
+      issues.push({
+        code: 'heic',
+        severity: 'error',
+        message: `This is an iPhone HEIC photo${expected && expected !== 'heic' ? ` renamed to .${getExtension(file.name)}` : ''}, which most offices and browsers cannot open.`,
+        fixes: ['to_jpeg', 'to_pdf'],
+      });
+    } else if (expected !== kind) {
+      issues.push({
+        code: 'type_mismatch',
+        severity: 'warning',
+        message: `The name says ${getExtension(file.name) ? `.${getExtension(file.name)}` : 'no type'} but the file is ${
+          KIND_EXTENSIONS[kind] ? `a ${KIND_EXTENSIONS[kind]!.ext.toUpperCase()}` : 'an Office document'
+        }.`,
+        fixes: KIND_EXTENSIONS[kind] ? ['rename'] : [],
+      });
+    }
+
+    if (kind === 'pdf') await checkPdf(file, issues);
+    else if (IMAGE_KINDS.has(kind)) await checkImage(file, issues);
+  } catch (error) {
+    console.warn(`⚠️ Could not check ${file.name} before upload:`, error);
+  }
+  return { file, kind, issues };
+}
+
+export function hasBlockingIssues(check: UploadCheck): boolean {
+  return check.issues.some((issue) => issue.severity === 'error');
+}
+
+async function decodeToJpeg(file: File, kind: UploadFileKind): Promise<Blob> {
+  let source: Blob = file;
+  if (kind === 'heic') {
+    const { default: heic2any } = await import('heic2any');
+    const converted = await heic2any({ blob: file, toType: 'image/jpeg', quality: READABLE_JPEG_QUALITY });
+    // Burst/live photos decode to several frames; the first is the photo itself
+    source = Array.isArray(converted) ? converted[0] : converted;
+  }
+  const canvas = await drawImageScaled(source, READABLE_MAX_SIDE);
+  const bytes = await canvasToJpeg(canvas, READABLE_JPEG_QUALITY);
+  return new Blob([new Uint8Array(bytes)], { type: 'image/jpeg' });
+}
+
+async function removePdfPages(file: File, pages: number[]): Promise<Blob> {
+  const { PDFDocument } = await import('pdf-lib');
+  const doc = await PDFDocument.load(await file.arrayBuffer());
+  [...pages].sort((a, b) => b - a).forEach((page) => doc.removePage(page));
+  const bytes = await doc.save({ useObjectStreams: true });
+  return new Blob([new Uint8Array(bytes)], { type: 'application/pdf' });
+}
+
+/** Apply one fix and return the replacement file (re-validate it afterwards). */
+export async function applyUploadFix(
+  check: UploadCheck,
+  issue: UploadIssue,
+  action: UploadFixAction,
+  password?: string
+): Promise<File> {
+  const { file, kind } = check;
+  const asFile = (blob: Blob, ext: string) =>
+    new File([blob], withExtension(file.name, ext), { type: blob.type, lastModified: file.lastModified });
+
+  switch (action) {
+    case 'rename': {
+      const target = KIND_EXTENSIONS[kind];
+      if (!target) throw new Error('Unknown file type');
+      return new File([file], withExtension(file.name, target.ext), { type: target.mime, lastModified: file.lastModified });
+    }
+    case 'to_jpeg':
+      return asFile(await decodeToJpeg(file, kind), 'jpg');
+    case 'to_pdf': {
+      const { PDFDocument } = await import('pdf-lib');
+      const output = await PDFDocument.create();
+      await appendImagePage(output, await decodeToJpeg(file, kind));
+      const bytes = await output.save({ useObjectStreams: true });
+      return asFile(new Blob([new Uint8Array(bytes)], { type: 'application/pdf' }), 'pdf');
+    }
+    case 'unlock':
+      try {
+        return asFile(await rasterizePdf(file, { password, compression: 'none' }), 'pdf');
+      } catch (error: any) {
+        if (error?.name === 'PasswordException') {
+          throw new Error(password ? 'Incorrect password' : 'Enter the PDF password first');
+        }
+        throw error;
+      }
+    case 'compress':
+      return asFile(await rasterizePdf(file, { compression: 'balanced' }), 'pdf');
+    case 'remove_blank_pages':
+      return asFile(await removePdfPages(file, issue.pages || []), 'pdf');
+  }
+}
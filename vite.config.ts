@@ -28,6 +28,12 @@ export default defineConfig({
       output: {
         // Ensure react-vendor loads first by making it a dependency
         manualChunks: (id) => {
+          // Rollup's CommonJS interop helpers are shared by every CJS dependency. Left alone they
+          // land in the first lazy chunk that needs them (heic), which then gets preloaded everywhere
+          if (id.includes('commonjsHelpers')) {
+            return 'react-vendor';
+          }
+
           // Vendor chunks - split by library type
           if (id.includes('node_modules')) {
             // React core libraries - MUST be in the same chunk for recharts to work
@@ -51,6 +57,14 @@ export default defineConfig({
             if (id.includes('firebase')) {
               return 'firebase';
             }
+            // PDF workbench libraries - only loaded when the workbench opens
+            if (id.includes('pdf-lib') || id.includes('pdfjs-dist')) {
+              return 'pdf';
+            }
+            // HEIC decoder (libheif, ~1 MB) - only loaded when an iPhone photo is converted
+            if (id.includes('heic2any')) {
+              return 'heic';
+            }
             // Put ALL other vendor libraries in react-vendor to ensure React is available
             // This prevents "Cannot read properties of undefined" errors
             return 'react-vendor';